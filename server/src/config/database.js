@@ -1,10 +1,15 @@
 const sqlite3 = require('sqlite3').verbose();
 const path = require('path');
 const fs = require('fs');
+const { AsyncLocalStorage } = require('async_hooks');
 
 class Database {
   constructor() {
     this.db = null;
+    // Settles when the running and queued transactions are done
+    this.idle = Promise.resolve();
+    // Set while code runs inside a transaction
+    this.transactionScope = new AsyncLocalStorage();
     // Use relative path from the server directory, not absolute paths
     this.dbPath = this.resolveDbPath();
     this.init();
@@ -92,9 +97,15 @@ class Database {
     return this.db;
   }
 
+  // The connection is shared, so a statement from outside a running transaction waits for it;
+  // otherwise it would become part of that transaction and be undone by its rollback
+  ready() {
+    return this.transactionScope.getStore() ? Promise.resolve() : this.idle;
+  }
+
   // Promisify database operations
   run(sql, params = []) {
-    return new Promise((resolve, reject) => {
+    return this.ready().then(() => new Promise((resolve, reject) => {
       this.db.run(sql, params, function(err) {
         if (err) {
           reject(err);
@@ -102,11 +113,11 @@ class Database {
           resolve({ id: this.lastID, changes: this.changes });
         }
       });
-    });
+    }));
   }
 
   get(sql, params = []) {
-    return new Promise((resolve, reject) => {
+    return this.ready().then(() => new Promise((resolve, reject) => {
       this.db.get(sql, params, (err, row) => {
         if (err) {
           reject(err);
@@ -114,11 +125,11 @@ class Database {
           resolve(row);
         }
       });
-    });
+    }));
   }
 
   all(sql, params = []) {
-    return new Promise((resolve, reject) => {
+    return this.ready().then(() => new Promise((resolve, reject) => {
       this.db.all(sql, params, (err, rows) => {
         if (err) {
           reject(err);
@@ -126,20 +137,32 @@ class Database {
           resolve(rows);
         }
       });
-    });
-  }
-
-  // Transaction support
-  beginTransaction() {
-    return this.run('BEGIN TRANSACTION');
+    }));
   }
 
-  commit() {
-    return this.run('COMMIT');
-  }
-
-  rollback() {
-    return this.run('ROLLBACK');
+  /**
+   * Run `work` in a transaction: commit when it resolves, roll back when it throws.
+   * Transactions take turns, and a call from inside one joins it
+   * @param {Function} work - async function whose statements make up the transaction
+   * @param {{immediate?: boolean}} [options] - take the write lock on BEGIN
+   * @returns {Promise<*>} what `work` resolves to
+   */
+  transaction(work, { immediate = false } = {}) {
+    if (this.transactionScope.getStore()) return work();
+
+    const result = this.idle.then(() => this.transactionScope.run(true, async () => {
+      await this.run(immediate ? 'BEGIN IMMEDIATE' : 'BEGIN TRANSACTION');
+      try {
+        const value = await work();
+        await this.run('COMMIT');
+        return value;
+      } catch (error) {
+        await this.run('ROLLBACK');
+        throw error;
+      }
+    }));
+    this.idle = result.catch(() => {});
+    return result;
   }
 
   close() {
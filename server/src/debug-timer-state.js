@@ -13,7 +13,9 @@ async function checkTimerState() {
     const activeTimers = await db.all(`
       SELECT 
         at.*,
-        kt.title as task_title
+        kt.title as task_title,
+        (SELECT COUNT(*) FROM timer_pauses p WHERE p.timer_id = at.id AND p.time_entry_id IS NULL) as pause_count,
+        EXISTS (SELECT 1 FROM timer_pauses p WHERE p.timer_id = at.id AND p.ended_at IS NULL) as is_paused
       FROM active_timers at
       LEFT JOIN kanban_tasks kt ON at.task_id = kt.id
     `);
@@ -32,7 +34,7 @@ async function checkTimerState() {
         console.log(`   - Task: ${timer.task_title || 'No task'}`);
         console.log(`   - Started: ${timer.start_time}`);
         console.log(`   - Elapsed: ${hours}h ${minutes}m ${seconds}s`);
-        console.log(`   - Paused Duration: ${timer.total_paused_duration || 0}s`);
+        console.log(`   - Pauses: ${timer.pause_count}${timer.is_paused ? ' (paused now)' : ''}`);
         console.log(`   - Is Break: ${timer.is_break}`);
       });
     } else {
@@ -8,20 +8,33 @@ const rateLimit = require('express-rate-limit');
 
 // Import database and routes
 const { getDatabase } = require('./config/database');
-const { createTables } = require('./scripts/initDatabase');
+const { initDatabase } = require('./scripts/initDatabase');
 
 // Import route handlers
 const authRoutes = require('./routes/auth');
 const workspacesRoutes = require('./routes/workspaces');
 const clientsRoutes = require('./routes/clients');
 const workflowsRoutes = require('./routes/workflows');
+const workflowTemplatesRoutes = require('./routes/workflow-templates');
 const tasksRoutes = require('./routes/tasks');
+const recurringTasksRoutes = require('./routes/recurring-tasks');
+const boardViewsRoutes = require('./routes/board-views');
+const filesRoutes = require('./routes/files');
 // const teamRoutes = require('./routes/team'); // TODO: Commented out for user auth implementation
 const meetingsRoutes = require('./routes/meetings');
 const dashboardRoutes = require('./routes/dashboard');
 const calendarRoutes = require('./routes/calendar');
 const timeEntriesRoutes = require('./routes/time-entries');
 const timeTrackerRoutes = require('./routes/time-tracker');
+const invoicesRoutes = require('./routes/invoices');
+const timesheetsRoutes = require('./routes/timesheets');
+const budgetsRoutes = require('./routes/budgets');
+const realtimeRoutes = require('./routes/realtime');
+const notificationsRoutes = require('./routes/notifications');
+const portalRoutes = require('./routes/portal');
+const notificationScheduler = require('./services/notificationScheduler');
+const recurringTaskScheduler = require('./services/recurringTaskScheduler');
+const collaboration = require('./services/collaboration');
 
 // Create Express app
 const app = express();
@@ -88,13 +101,23 @@ app.use('/api/auth', authRoutes);
 app.use('/api/workspaces', workspacesRoutes);
 app.use('/api/clients', clientsRoutes);
 app.use('/api/workflows', workflowsRoutes);
+app.use('/api/workflow-templates', workflowTemplatesRoutes);
 app.use('/api/tasks', tasksRoutes);
+app.use('/api/recurring-tasks', recurringTasksRoutes);
+app.use('/api/board-views', boardViewsRoutes);
+app.use('/api/files', filesRoutes);
 // app.use('/api/team', teamRoutes); // TODO: Commented out for user auth implementation
 app.use('/api/meetings', meetingsRoutes);
 app.use('/api/dashboard', dashboardRoutes);
 app.use('/api/calendar', calendarRoutes);
 app.use('/api/time-entries', timeEntriesRoutes);
 app.use('/api/time-tracker', timeTrackerRoutes);
+app.use('/api/invoices', invoicesRoutes);
+app.use('/api/timesheets', timesheetsRoutes);
+app.use('/api/budgets', budgetsRoutes);
+app.use('/api/realtime', realtimeRoutes);
+app.use('/api/notifications', notificationsRoutes);
+app.use('/api/portal', portalRoutes);
 
 // API documentation endpoint
 app.get('/api', (req, res) => {
@@ -107,13 +130,24 @@ app.get('/api', (req, res) => {
       workspaces: '/api/workspaces',
       clients: '/api/clients',
       workflows: '/api/workflows',
+      'workflow-templates': '/api/workflow-templates',
       tasks: '/api/tasks',
+      'recurring-tasks': '/api/recurring-tasks',
+      'board-views': '/api/board-views',
+      files: '/api/files',
       team: '/api/team',
       meetings: '/api/meetings',
       dashboard: '/api/dashboard',
       calendar: '/api/calendar',
       'time-entries': '/api/time-entries',
-      'time-tracker': '/api/time-tracker'
+      'time-tracker': '/api/time-tracker',
+      invoices: '/api/invoices',
+      timesheets: '/api/timesheets',
+      budgets: '/api/budgets',
+      realtime: '/api/realtime',
+      collaboration: 'ws /api/collab/:resourceId',
+      notifications: '/api/notifications',
+      portal: '/api/portal'
     },
     documentation: {
       health: 'GET /health',
@@ -139,12 +173,25 @@ app.get('/api', (req, res) => {
         'Update workflow': 'PUT /api/workflows/:id',
         'Delete workflow': 'DELETE /api/workflows/:id'
       },
+      'workflow-templates': {
+        'Get all templates': 'GET /api/workflow-templates',
+        'Get template by ID': 'GET /api/workflow-templates/:id',
+        'Save workflow as template': 'POST /api/workflow-templates',
+        'Instantiate template for client': 'POST /api/workflow-templates/:id/instantiate',
+        'Update template': 'PUT /api/workflow-templates/:id',
+        'Delete template': 'DELETE /api/workflow-templates/:id'
+      },
       tasks: {
         'Get all tasks': 'GET /api/tasks',
+        'Get task flow analytics': 'GET /api/tasks/analytics',
         'Get task by ID': 'GET /api/tasks/:id',
         'Create task': 'POST /api/tasks',
         'Update task': 'PUT /api/tasks/:id',
         'Move task': 'PATCH /api/tasks/:id/move',
+        'Reschedule task': 'PATCH /api/tasks/:id/schedule',
+        'Get task dependencies': 'GET /api/tasks/:id/dependencies',
+        'Add task dependency': 'POST /api/tasks/:id/dependencies',
+        'Remove task dependency': 'DELETE /api/tasks/:id/dependencies/:dependencyId',
         'Delete task': 'DELETE /api/tasks/:id'
       },
       team: {
@@ -172,7 +219,10 @@ app.get('/api', (req, res) => {
         'Get event by ID': 'GET /api/calendar/:id',
         'Create event': 'POST /api/calendar',
         'Update event': 'PUT /api/calendar/:id',
-        'Delete event': 'DELETE /api/calendar/:id'
+        'Delete event': 'DELETE /api/calendar/:id',
+        'Subscription feed (token in URL)': 'GET /api/calendar/feed/:token.ics',
+        'Manage subscription URL': 'GET/POST/DELETE /api/calendar/feed-url',
+        'Import ICS file': 'POST /api/calendar/import'
       },
       'time-entries': {
         'Get all time entries': 'GET /api/time-entries',
@@ -181,11 +231,55 @@ app.get('/api', (req, res) => {
         'Update time entry': 'PUT /api/time-entries/:id',
         'Delete time entry': 'DELETE /api/time-entries/:id'
       },
+      invoices: {
+        'Get all invoices': 'GET /api/invoices',
+        'Get invoice by ID': 'GET /api/invoices/:id',
+        'Preview invoice': 'GET /api/invoices/preview',
+        'Generate invoice': 'POST /api/invoices',
+        'Update invoice status': 'PATCH /api/invoices/:id/status',
+        'Delete draft invoice': 'DELETE /api/invoices/:id',
+        'Get billing rates': 'GET /api/invoices/rates',
+        'Set billing rate': 'PUT /api/invoices/rates',
+        'Delete billing rate': 'DELETE /api/invoices/rates/:rateId'
+      },
+      timesheets: {
+        'Get my timesheet for a week': 'GET /api/timesheets/week',
+        'Get my timesheets': 'GET /api/timesheets',
+        'Get pending timesheets (admin)': 'GET /api/timesheets/pending',
+        'Get timesheet by ID': 'GET /api/timesheets/:id',
+        'Submit week': 'POST /api/timesheets/submit',
+        'Approve or reject timesheet (admin)': 'PATCH /api/timesheets/:id/review'
+      },
+      budgets: {
+        'Get all budgets with burn': 'GET /api/budgets',
+        'Get workflow budget': 'GET /api/budgets/workflows/:workflowId',
+        'Set workflow budget': 'PUT /api/budgets/workflows/:workflowId',
+        'Delete workflow budget': 'DELETE /api/budgets/workflows/:workflowId',
+        'Get client retainer': 'GET /api/budgets/clients/:clientId',
+        'Set client retainer': 'PUT /api/budgets/clients/:clientId',
+        'Delete client retainer': 'DELETE /api/budgets/clients/:clientId',
+        'Get budget alerts': 'GET /api/budgets/alerts',
+        'Dismiss budget alert': 'PATCH /api/budgets/alerts/:id/dismiss'
+      },
+      realtime: {
+        'Open workspace event stream (SSE)': 'GET /api/realtime/stream',
+        'Get connected users': 'GET /api/realtime/presence',
+        'Report current view': 'PUT /api/realtime/presence'
+      },
+      notifications: {
+        'Get notifications': 'GET /api/notifications',
+        'Mark notification as read': 'PATCH /api/notifications/:id/read',
+        'Mark all as read': 'PATCH /api/notifications/read-all',
+        'Get notification preferences': 'GET /api/notifications/preferences',
+        'Set notification preferences': 'PUT /api/notifications/preferences'
+      },
       'time-tracker': {
-        'Start time tracking': 'POST /api/time-tracker/start',
-        'Stop time tracking': 'POST /api/time-tracker/stop',
-        'Get current tracking': 'GET /api/time-tracker/current',
-        'Get tracking history': 'GET /api/time-tracker/history'
+        'Get timer status': 'GET /api/time-tracker/status',
+        'Start timer': 'POST /api/time-tracker/start',
+        'Pause timer': 'POST /api/time-tracker/pause',
+        'Resume timer': 'POST /api/time-tracker/resume',
+        'Stop timer': 'POST /api/time-tracker/stop',
+        'Discard timer': 'POST /api/time-tracker/discard'
       }
     }
   });
@@ -218,65 +312,81 @@ app.use((error, req, res, next) => {
 async function startServer() {
   try {
     console.log('Initializing database...');
-    await createTables();
+    // DB_MIGRATE_ON_START=false leaves migrations to the deploy (npm run migrate) and refuses to start before
+    await initDatabase({ migrate: process.env.DB_MIGRATE_ON_START !== 'false' });
     
     console.log('Database initialized successfully!');
+
+    // Due date reminders and digest emails
+    notificationScheduler.start();
+
+    // Tasks created by recurring task templates
+    recurringTaskScheduler.start();
     
     // Start the server
-    app.listen(PORT, () => {
+    const server = app.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
       console.log(`📊 Environment: ${process.env.NODE_ENV || 'development'}`);
       console.log(`🏥 Health check: http://localhost:${PORT}/health`);
       console.log(`📚 API documentation: http://localhost:${PORT}/api`);
       console.log(`🔗 CORS origin: ${process.env.CORS_ORIGIN || 'http://localhost:5173'}`);
     });
+
+    // Live editing of task documents over WebSocket
+    collaboration.attach(server);
   } catch (error) {
     console.error('Failed to start server:', error);
     process.exit(1);
   }
 }
 
-// Handle graceful shutdown
-process.on('SIGTERM', async () => {
-  console.log('SIGTERM received, shutting down gracefully...');
+// Started with `node src/index.js`; tests load the app without a server or the process handlers
+if (require.main === module) {
+  // Handle graceful shutdown
+  process.on('SIGTERM', async () => {
+    console.log('SIGTERM received, shutting down gracefully...');
   
-  try {
-    const db = getDatabase();
-    await db.close();
-    console.log('Database connection closed.');
-  } catch (error) {
-    console.error('Error closing database:', error);
-  }
+    try {
+      // Documents being edited are stored before the database goes away
+      await collaboration.flushAll();
+      const db = getDatabase();
+      await db.close();
+      console.log('Database connection closed.');
+    } catch (error) {
+      console.error('Error closing database:', error);
+    }
   
-  process.exit(0);
-});
+    process.exit(0);
+  });
 
-process.on('SIGINT', async () => {
-  console.log('SIGINT received, shutting down gracefully...');
+  process.on('SIGINT', async () => {
+    console.log('SIGINT received, shutting down gracefully...');
   
-  try {
-    const db = getDatabase();
-    await db.close();
-    console.log('Database connection closed.');
-  } catch (error) {
-    console.error('Error closing database:', error);
-  }
+    try {
+      // Documents being edited are stored before the database goes away
+      await collaboration.flushAll();
+      const db = getDatabase();
+      await db.close();
+      console.log('Database connection closed.');
+    } catch (error) {
+      console.error('Error closing database:', error);
+    }
   
-  process.exit(0);
-});
+    process.exit(0);
+  });
 
-// Handle uncaught exceptions
-process.on('uncaughtException', (error) => {
-  console.error('Uncaught Exception:', error);
-  process.exit(1);
-});
+  // Handle uncaught exceptions
+  process.on('uncaughtException', (error) => {
+    console.error('Uncaught Exception:', error);
+    process.exit(1);
+  });
 
-process.on('unhandledRejection', (reason, promise) => {
-  console.error('Unhandled Rejection at:', promise, 'reason:', reason);
-  process.exit(1);
-});
+  process.on('unhandledRejection', (reason, promise) => {
+    console.error('Unhandled Rejection at:', promise, 'reason:', reason);
+    process.exit(1);
+  });
 
-// Start the server
-startServer();
+  startServer();
+}
 
 module.exports = app;
\ No newline at end of file
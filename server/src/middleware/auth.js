@@ -1,4 +1,20 @@
 const User = require('../models/User');
+const Session = require('../models/Session');
+
+// Tokens issued for a session stop working once it is revoked or expired. Tokens without one
+// (issued before sessions existed, or magic link and password reset tokens) are never accepted.
+// Returns the session, or null when the token has none or it is no longer valid.
+const resolveSession = async (decoded, req) => {
+  if (!decoded.sid) return null;
+
+  const session = await Session.findById(decoded.sid);
+  if (!session || !session.isActive || session.userId !== decoded.id) {
+    return null;
+  }
+
+  await session.touch(req);
+  return session;
+};
 
 // Authentication middleware
 const authenticate = async (req, res, next) => {
@@ -16,14 +32,25 @@ const authenticate = async (req, res, next) => {
       return res.status(401).json({ error: 'Invalid or expired token' });
     }
 
+    // Tokens issued before sessions existed cannot be revoked, so they are not accepted
+    if (!decoded.sid) {
+      return res.status(401).json({ error: 'Please sign in again' });
+    }
+
+    const session = await resolveSession(decoded, req);
+    if (!session) {
+      return res.status(401).json({ error: 'Session has been revoked' });
+    }
+
     // Get current user data from database
     const user = await User.findById(decoded.id);
     if (!user) {
       return res.status(401).json({ error: 'User not found' });
     }
 
-    // Add user to request object
+    // Add user and session to request object
     req.user = user;
+    req.authSession = session;
     next();
   } catch (error) {
     console.error('Authentication middleware error:', error);
@@ -60,7 +87,7 @@ const optionalAuth = async (req, res, next) => {
       const token = authHeader.substring(7);
       const decoded = User.verifyToken(token);
       
-      if (decoded) {
+      if (decoded && await resolveSession(decoded, req)) {
         const user = await User.findById(decoded.id);
         if (user) {
           req.user = user;
@@ -113,6 +140,7 @@ const createAuthRateLimit = (windowMs = 15 * 60 * 1000, max = 5) => {
 };
 
 module.exports = {
+  resolveSession,
   authenticate,
   authorize,
   optionalAuth,
@@ -1,30 +1,49 @@
 const Workspace = require('../models/Workspace');
+const WorkspaceRole = require('../models/WorkspaceRole');
+const ClientContact = require('../models/ClientContact');
 
-// Middleware to require workspace context
+// Load the workspace of the request and the user's role in it; sends the error response and
+// returns false when the workspace is missing or the user is not a member
+const loadWorkspace = async (req, res) => {
+  // Get workspace ID from header or query parameter
+  const workspaceId = req.headers['x-workspace-id'] || req.query.workspace_id;
+
+  if (!workspaceId) {
+    res.status(400).json({ error: 'Workspace ID is required' });
+    return false;
+  }
+
+  // Verify workspace exists and user has access
+  const workspace = await Workspace.findById(workspaceId);
+  if (!workspace) {
+    res.status(404).json({ error: 'Workspace not found' });
+    return false;
+  }
+
+  // Check if user is a member of this workspace and load what their role allows
+  const { role, permissions } = await WorkspaceRole.permissionsForUser(req.user.id, workspaceId);
+  if (!role) {
+    res.status(403).json({ error: 'Access denied to this workspace' });
+    return false;
+  }
+
+  // Add workspace and the user's role in it to request object
+  req.workspace = workspace;
+  req.workspaceId = workspaceId;
+  req.workspaceRole = role;
+  req.permissions = permissions;
+  return true;
+};
+
+// Middleware to require workspace context; client guests only get the client portal
 const requireWorkspace = async (req, res, next) => {
   try {
-    // Get workspace ID from header or query parameter
-    const workspaceId = req.headers['x-workspace-id'] || req.query.workspace_id;
-    
-    if (!workspaceId) {
-      return res.status(400).json({ error: 'Workspace ID is required' });
-    }
-
-    // Verify workspace exists and user has access
-    const workspace = await Workspace.findById(workspaceId);
-    if (!workspace) {
-      return res.status(404).json({ error: 'Workspace not found' });
-    }
+    if (!(await loadWorkspace(req, res))) return;
 
-    // Check if user is a member of this workspace
-    const isMember = await Workspace.isUserMember(req.user.id, workspaceId);
-    if (!isMember) {
-      return res.status(403).json({ error: 'Access denied to this workspace' });
+    if (req.workspaceRole === 'client_guest') {
+      return res.status(403).json({ error: 'Client contacts can only use the client portal' });
     }
 
-    // Add workspace to request object
-    req.workspace = workspace;
-    req.workspaceId = workspaceId;
     next();
   } catch (error) {
     console.error('Workspace middleware error:', error);
@@ -32,6 +51,26 @@ const requireWorkspace = async (req, res, next) => {
   }
 };
 
+// Middleware for the client portal - requires a client_guest and adds the client contact they sign in as
+const requireClientPortal = async (req, res, next) => {
+  try {
+    if (!(await loadWorkspace(req, res))) return;
+
+    const contact = req.workspaceRole === 'client_guest'
+      ? await ClientContact.findForUser(req.user.id, req.workspaceId)
+      : null;
+    if (!contact) {
+      return res.status(403).json({ error: 'The client portal is only available to invited client contacts' });
+    }
+
+    req.clientContact = contact;
+    next();
+  } catch (error) {
+    console.error('Client portal middleware error:', error);
+    res.status(500).json({ error: 'Failed to verify portal access' });
+  }
+};
+
 // Optional workspace middleware - adds workspace context if provided
 const optionalWorkspace = async (req, res, next) => {
   try {
@@ -40,10 +79,12 @@ const optionalWorkspace = async (req, res, next) => {
     if (workspaceId && req.user) {
       const workspace = await Workspace.findById(workspaceId);
       if (workspace) {
-        const isMember = await Workspace.isUserMember(req.user.id, workspaceId);
-        if (isMember) {
+        const { role, permissions } = await WorkspaceRole.permissionsForUser(req.user.id, workspaceId);
+        if (role && role !== 'client_guest') {
           req.workspace = workspace;
           req.workspaceId = workspaceId;
+          req.workspaceRole = role;
+          req.permissions = permissions;
         }
       }
     }
@@ -55,7 +96,23 @@ const optionalWorkspace = async (req, res, next) => {
   }
 };
 
+// Whether the user's workspace role grants a permission such as 'tasks:update'
+const can = (req, permission) => Boolean(req.permissions && req.permissions.includes(permission));
+
+// Permission middleware - use after requireWorkspace
+const requirePermission = (permission) => {
+  return (req, res, next) => {
+    if (!can(req, permission)) {
+      return res.status(403).json({ error: 'Insufficient permissions', permission });
+    }
+    next();
+  };
+};
+
 module.exports = {
   requireWorkspace,
-  optionalWorkspace
+  requireClientPortal,
+  optionalWorkspace,
+  requirePermission,
+  can
 }; 
\ No newline at end of file
@@ -0,0 +1,911 @@
+/**
+ * The schema as it stood when versioned migrations were introduced.
+ *
+ * Columns that older databases received through ALTER TABLE are part of the table definitions
+ * here, after the original columns so both end up in the same order. The statements skip what
+ * already exists, which lets a database created before migrations be adopted (see legacy.js).
+ */
+
+const DEFAULT_COLUMNS = [
+  { id: 'todo', title: 'To Do', color: '#64748b', order_index: 1 },
+  { id: 'in-progress', title: 'In Progress', color: '#3b82f6', order_index: 2 },
+  { id: 'review', title: 'Review', color: '#f59e0b', order_index: 3 },
+  { id: 'done', title: 'Done', color: '#10b981', order_index: 4 }
+];
+
+// In the order they are created; down drops them the other way round
+const TABLES = [
+  'users', 'clients', 'workflows', 'workflow_steps', 'workflow_connections',
+  'kanban_columns', 'kanban_tasks', 'task_assignments', 'client_meetings', 'meeting_attendees',
+  'activity_log', 'task_resources', 'workspaces', 'workspace_members', 'workspace_role_permissions',
+  'workflow_templates', 'workflow_template_tasks', 'task_dependencies',
+  'time_entries', 'calendar_events', 'active_timers', 'time_categories',
+  'billing_rates', 'invoices', 'invoice_line_items', 'timesheets', 'budgets', 'budget_alerts',
+  'notifications', 'notification_preferences',
+  'task_comments', 'task_comment_revisions', 'task_comment_reactions',
+  'sessions', 'security_events', 'client_contacts', 'recurring_tasks', 'calendar_feeds',
+  'board_views', 'task_resource_revisions', 'task_resource_collab_states'
+];
+
+async function up(db) {
+  // Users table for authentication with 2FA support
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS users (
+      id TEXT PRIMARY KEY,
+      email TEXT UNIQUE NOT NULL,
+      password TEXT, -- Allow NULL for OAuth users
+      name TEXT NOT NULL,
+      role TEXT DEFAULT 'user' CHECK (role IN ('admin', 'manager', 'user')),
+      skills TEXT, -- JSON array as string (moved from team_members)
+      is_active BOOLEAN DEFAULT 1,
+      email_verified BOOLEAN DEFAULT 0,
+      last_login_at DATETIME,
+      two_factor_enabled BOOLEAN DEFAULT 0,
+      two_factor_secret TEXT,
+      two_factor_backup_codes TEXT,
+      two_factor_last_used DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // Clients table
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS clients (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      company TEXT,
+      email TEXT UNIQUE NOT NULL,
+      phone TEXT,
+      is_active BOOLEAN DEFAULT 1,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      workspace_id TEXT
+    )
+  `);
+
+  // Workflows table
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS workflows (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      description TEXT,
+      client_id TEXT NOT NULL,
+      status TEXT DEFAULT 'active' CHECK (status IN ('active', 'paused', 'completed', 'cancelled')),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      start_date DATETIME,
+      expected_end_date DATETIME,
+      actual_end_date DATETIME,
+      workspace_id TEXT,
+      FOREIGN KEY (client_id) REFERENCES clients (id) ON DELETE CASCADE
+    )
+  `);
+
+  // Workflow steps table (flowchart nodes)
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS workflow_steps (
+      id TEXT PRIMARY KEY,
+      workflow_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      description TEXT,
+      type TEXT NOT NULL DEFAULT 'process' CHECK (type IN ('start-end', 'process', 'decision', 'input-output')),
+      position_x REAL DEFAULT 0,
+      position_y REAL DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (workflow_id) REFERENCES workflows (id) ON DELETE CASCADE
+    )
+  `);
+
+  // Workflow connections table (flowchart edges)
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS workflow_connections (
+      id TEXT PRIMARY KEY,
+      workflow_id TEXT NOT NULL,
+      source_step_id TEXT NOT NULL,
+      target_step_id TEXT NOT NULL,
+      source_handle TEXT, -- e.g. 'yes' / 'no' on decision nodes
+      target_handle TEXT,
+      label TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (workflow_id) REFERENCES workflows (id) ON DELETE CASCADE,
+      FOREIGN KEY (source_step_id) REFERENCES workflow_steps (id) ON DELETE CASCADE,
+      FOREIGN KEY (target_step_id) REFERENCES workflow_steps (id) ON DELETE CASCADE
+    )
+  `);
+
+  await db.run(`CREATE INDEX IF NOT EXISTS idx_workflow_steps_workflow ON workflow_steps(workflow_id)`);
+  await db.run(`CREATE INDEX IF NOT EXISTS idx_workflow_connections_workflow ON workflow_connections(workflow_id)`);
+
+  // Kanban columns table, with WIP limits (per workspace and per assignee) and the entry/exit
+  // policies of the column as JSON ({ entry, exit })
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS kanban_columns (
+      id TEXT PRIMARY KEY,
+      title TEXT NOT NULL,
+      color TEXT DEFAULT '#64748b',
+      order_index INTEGER NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      wip_limit INTEGER,
+      assignee_wip_limit INTEGER,
+      policies TEXT
+    )
+  `);
+
+  // Kanban tasks table. Tasks are hidden from the client portal until shared; approval is
+  // requested by the team and decided by the client
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS kanban_tasks (
+      id TEXT PRIMARY KEY,
+      title TEXT NOT NULL,
+      description TEXT,
+      workflow_id TEXT,
+      step_id TEXT, -- legacy field, no longer constrained
+      priority TEXT DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high', 'urgent')),
+      status TEXT NOT NULL, -- references kanban_columns.id
+      tags TEXT, -- JSON array as string
+      due_date DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      start_date DATETIME,
+      estimated_hours REAL,
+      actual_hours REAL,
+      workspace_id TEXT,
+      client_visible BOOLEAN DEFAULT 0,
+      client_approval_status TEXT CHECK (client_approval_status IN ('pending', 'approved', 'changes_requested')),
+      client_approval_comment TEXT,
+      client_approval_requested_by TEXT,
+      client_approval_decided_by TEXT,
+      client_approval_updated_at DATETIME,
+      recurring_task_id TEXT, -- the recurring task that created it
+      FOREIGN KEY (workflow_id) REFERENCES workflows (id) ON DELETE SET NULL,
+      FOREIGN KEY (status) REFERENCES kanban_columns (id),
+      FOREIGN KEY (recurring_task_id) REFERENCES recurring_tasks (id) ON DELETE SET NULL
+    )
+  `);
+
+  // Task assignments table (many-to-many: tasks <-> users)
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS task_assignments (
+      id TEXT PRIMARY KEY,
+      task_id TEXT NOT NULL,
+      member_id TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (task_id) REFERENCES kanban_tasks (id) ON DELETE CASCADE,
+      FOREIGN KEY (member_id) REFERENCES users (id) ON DELETE CASCADE,
+      UNIQUE(task_id, member_id)
+    )
+  `);
+
+  // Client meetings table; recurring meetings carry an RFC 5545 RRULE
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS client_meetings (
+      id TEXT PRIMARY KEY,
+      client_id TEXT NOT NULL,
+      title TEXT NOT NULL,
+      description TEXT,
+      meeting_date DATETIME NOT NULL,
+      duration_minutes INTEGER DEFAULT 60,
+      location TEXT,
+      meeting_type TEXT DEFAULT 'in-person' CHECK (meeting_type IN ('in-person', 'video', 'phone')),
+      status TEXT DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'completed', 'cancelled', 'rescheduled')),
+      notes TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      workspace_id TEXT,
+      recurrence_rule TEXT,
+      recurrence_exceptions TEXT DEFAULT '[]',
+      FOREIGN KEY (client_id) REFERENCES clients (id) ON DELETE CASCADE
+    )
+  `);
+
+  // Meeting attendees table
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS meeting_attendees (
+      id TEXT PRIMARY KEY,
+      meeting_id TEXT NOT NULL,
+      member_id TEXT NOT NULL,
+      attendance_status TEXT DEFAULT 'invited' CHECK (attendance_status IN ('invited', 'accepted', 'declined', 'attended', 'no-show')),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (meeting_id) REFERENCES client_meetings (id) ON DELETE CASCADE,
+      FOREIGN KEY (member_id) REFERENCES users (id) ON DELETE CASCADE,
+      UNIQUE(meeting_id, member_id)
+    )
+  `);
+
+  // Activity log table for audit trail - NO FOREIGN KEY CONSTRAINTS
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS activity_log (
+      id TEXT PRIMARY KEY,
+      entity_type TEXT NOT NULL, -- 'client', 'workflow', 'task', etc.
+      entity_id TEXT NOT NULL,
+      action TEXT NOT NULL, -- 'created', 'updated', 'deleted', etc.
+      performed_by TEXT, -- user id (no foreign key constraint)
+      details TEXT, -- JSON object as string
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // Task resources table. Uploaded files and their image thumbnails are kept by the storage
+  // backend (services/fileStorage). A document's live edits are a Yjs document, see
+  // services/collaboration; a save or restore over the REST API starts a new generation of it
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS task_resources (
+      id TEXT PRIMARY KEY,
+      task_id TEXT NOT NULL,
+      type TEXT NOT NULL CHECK (type IN ('document', 'link', 'image', 'file')),
+      title TEXT NOT NULL,
+      content TEXT, -- For documents, this stores HTML content
+      url TEXT, -- For links and files
+      file_name TEXT, -- Original file name
+      file_size INTEGER, -- File size in bytes
+      mime_type TEXT, -- File MIME type
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      shared_with_client BOOLEAN DEFAULT 0,
+      storage_key TEXT,
+      thumbnail_key TEXT,
+      thumbnail_size INTEGER,
+      collab_generation INTEGER NOT NULL DEFAULT 0,
+      FOREIGN KEY (task_id) REFERENCES kanban_tasks (id) ON DELETE CASCADE
+    )
+  `);
+
+  // Workspaces table
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS workspaces (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      description TEXT,
+      owner_id TEXT NOT NULL,
+      invite_code TEXT UNIQUE NOT NULL,
+      is_active BOOLEAN DEFAULT 1,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (owner_id) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+
+  // Workspace members table (many-to-many: workspaces <-> users)
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS workspace_members (
+      id TEXT PRIMARY KEY,
+      workspace_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      role TEXT DEFAULT 'contributor' CHECK (role IN ('owner', 'admin', 'manager', 'contributor', 'viewer', 'client_guest')),
+      joined_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      added_by TEXT,
+      FOREIGN KEY (workspace_id) REFERENCES workspaces (id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+      FOREIGN KEY (added_by) REFERENCES users (id) ON DELETE SET NULL,
+      UNIQUE(workspace_id, user_id)
+    )
+  `);
+
+  // Per-workspace permissions of the configurable roles; a missing row means the role's defaults
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS workspace_role_permissions (
+      workspace_id TEXT NOT NULL,
+      role TEXT NOT NULL,
+      permissions TEXT NOT NULL, -- JSON array of "<resource>:<action>"
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_by TEXT,
+      PRIMARY KEY (workspace_id, role),
+      FOREIGN KEY (workspace_id) REFERENCES workspaces (id) ON DELETE CASCADE,
+      FOREIGN KEY (updated_by) REFERENCES users (id) ON DELETE SET NULL
+    )
+  `);
+
+  // Workflow templates (reusable task lists, scoped to a workspace)
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS workflow_templates (
+      id TEXT PRIMARY KEY,
+      workspace_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      description TEXT,
+      source_workflow_id TEXT, -- workflow the template was saved from (no constraint, it may be deleted)
+      duration_days INTEGER, -- expected length of an instantiated workflow
+      created_by TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (workspace_id) REFERENCES workspaces (id) ON DELETE CASCADE,
+      FOREIGN KEY (created_by) REFERENCES users (id) ON DELETE SET NULL
+    )
+  `);
+
+  // Template tasks – due dates are stored as day offsets from the workflow start date
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS workflow_template_tasks (
+      id TEXT PRIMARY KEY,
+      template_id TEXT NOT NULL,
+      title TEXT NOT NULL,
+      description TEXT,
+      priority TEXT DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high', 'urgent')),
+      tags TEXT, -- JSON array as string
+      due_offset_days INTEGER, -- NULL when the source task had no due date
+      order_index INTEGER NOT NULL DEFAULT 0,
+      resources TEXT, -- JSON array of task resource snapshots
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (template_id) REFERENCES workflow_templates (id) ON DELETE CASCADE
+    )
+  `);
+
+  await db.run(`CREATE INDEX IF NOT EXISTS idx_workflow_templates_workspace ON workflow_templates(workspace_id)`);
+  await db.run(`CREATE INDEX IF NOT EXISTS idx_workflow_template_tasks_template ON workflow_template_tasks(template_id)`);
+
+  // Task dependencies table (finish-to-start: successor cannot finish before predecessor)
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS task_dependencies (
+      id TEXT PRIMARY KEY,
+      predecessor_id TEXT NOT NULL,
+      successor_id TEXT NOT NULL,
+      type TEXT DEFAULT 'finish-to-start' CHECK (type IN ('finish-to-start')),
+      created_by TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (predecessor_id) REFERENCES kanban_tasks (id) ON DELETE CASCADE,
+      FOREIGN KEY (successor_id) REFERENCES kanban_tasks (id) ON DELETE CASCADE,
+      FOREIGN KEY (created_by) REFERENCES users (id) ON DELETE SET NULL,
+      UNIQUE(predecessor_id, successor_id)
+    )
+  `);
+
+  await db.run(`CREATE INDEX IF NOT EXISTS idx_task_dependencies_predecessor ON task_dependencies(predecessor_id)`);
+  await db.run(`CREATE INDEX IF NOT EXISTS idx_task_dependencies_successor ON task_dependencies(successor_id)`);
+
+  for (const column of DEFAULT_COLUMNS) {
+    await db.run(`
+      INSERT OR IGNORE INTO kanban_columns (id, title, color, order_index)
+      VALUES (?, ?, ?, ?)
+    `, [column.id, column.title, column.color, column.order_index]);
+  }
+
+  // =====================================================================
+  // CALENDAR & TIME TRACKING SYSTEM TABLES
+  // =====================================================================
+
+  // Time entries for tracking work sessions
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS time_entries (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      workspace_id TEXT NOT NULL,
+      task_id TEXT,
+      start_time DATETIME NOT NULL,
+      end_time DATETIME,
+      duration_seconds INTEGER,
+      status TEXT DEFAULT 'completed' CHECK (status IN ('active', 'paused', 'completed')),
+      description TEXT,
+      is_break BOOLEAN DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      category_id TEXT,
+      invoice_id TEXT, -- the invoice that billed it
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+      FOREIGN KEY (workspace_id) REFERENCES workspaces (id) ON DELETE CASCADE,
+      FOREIGN KEY (task_id) REFERENCES kanban_tasks (id) ON DELETE SET NULL,
+      FOREIGN KEY (invoice_id) REFERENCES invoices (id) ON DELETE SET NULL
+    )
+  `);
+
+  // Calendar events for scheduling (future planning).
+  // An event with a recurrence_rule (RFC 5545 RRULE) is a series starting at start_time.
+  // Occurrences edited on their own are separate rows pointing at the series (recurrence_parent_id)
+  // with the start they replace (original_start_time), which is also listed in recurrence_exceptions.
+  // ical_uid is the UID of an event imported from an ICS file, to skip it when the file is imported again
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS calendar_events (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      workspace_id TEXT NOT NULL,
+      title TEXT NOT NULL,
+      start_time DATETIME NOT NULL,
+      end_time DATETIME NOT NULL,
+      all_day BOOLEAN DEFAULT 0,
+      task_id TEXT,
+      description TEXT,
+      event_type TEXT DEFAULT 'task' CHECK (event_type IN ('task', 'meeting', 'break', 'personal')),
+      color TEXT DEFAULT '#3b82f6',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      recurrence_rule TEXT,
+      recurrence_exceptions TEXT DEFAULT '[]',
+      recurrence_parent_id TEXT,
+      original_start_time DATETIME,
+      ical_uid TEXT,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+      FOREIGN KEY (workspace_id) REFERENCES workspaces (id) ON DELETE CASCADE,
+      FOREIGN KEY (task_id) REFERENCES kanban_tasks (id) ON DELETE SET NULL,
+      FOREIGN KEY (recurrence_parent_id) REFERENCES calendar_events (id) ON DELETE CASCADE
+    )
+  `);
+
+  // Active timers (for current work sessions) - only one active timer per user
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS active_timers (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL UNIQUE, -- Only one active timer per user
+      workspace_id TEXT NOT NULL,
+      task_id TEXT,
+      start_time DATETIME NOT NULL,
+      last_pause_time DATETIME,
+      total_paused_duration INTEGER DEFAULT 0,
+      description TEXT,
+      is_break BOOLEAN DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      pause_reason TEXT,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+      FOREIGN KEY (workspace_id) REFERENCES workspaces (id) ON DELETE CASCADE,
+      FOREIGN KEY (task_id) REFERENCES kanban_tasks (id) ON DELETE SET NULL
+    )
+  `);
+
+  // Time tracking categories for better organization
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS time_categories (
+      id TEXT PRIMARY KEY,
+      workspace_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      description TEXT,
+      color TEXT DEFAULT '#64748b',
+      is_billable BOOLEAN DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (workspace_id) REFERENCES workspaces (id) ON DELETE CASCADE,
+      UNIQUE(workspace_id, name)
+    )
+  `);
+
+  await db.run(`CREATE INDEX IF NOT EXISTS idx_time_entries_category ON time_entries(category_id)`);
+  await db.run(`CREATE INDEX IF NOT EXISTS idx_time_entries_user_date ON time_entries(user_id, start_time)`);
+  await db.run(`CREATE INDEX IF NOT EXISTS idx_time_entries_workspace ON time_entries(workspace_id)`);
+  await db.run(`CREATE INDEX IF NOT EXISTS idx_time_entries_task ON time_entries(task_id)`);
+  await db.run(`CREATE INDEX IF NOT EXISTS idx_calendar_events_user_date ON calendar_events(user_id, start_time)`);
+  await db.run(`CREATE INDEX IF NOT EXISTS idx_calendar_events_workspace ON calendar_events(workspace_id)`);
+  await db.run(`CREATE INDEX IF NOT EXISTS idx_active_timers_user ON active_timers(user_id)`);
+
+  // =====================================================================
+  // CLIENT INVOICING TABLES
+  // =====================================================================
+
+  // Hourly rates – a rate may apply to a client, a member, both, or (neither) the whole workspace
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS billing_rates (
+      id TEXT PRIMARY KEY,
+      workspace_id TEXT NOT NULL,
+      client_id TEXT, -- NULL for rates that apply to every client
+      user_id TEXT, -- NULL for rates that apply to every member
+      hourly_rate REAL NOT NULL,
+      currency TEXT DEFAULT 'USD',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (workspace_id) REFERENCES workspaces (id) ON DELETE CASCADE,
+      FOREIGN KEY (client_id) REFERENCES clients (id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+
+  // Invoices – numbered sequentially per workspace
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS invoices (
+      id TEXT PRIMARY KEY,
+      workspace_id TEXT NOT NULL,
+      client_id TEXT NOT NULL,
+      sequence INTEGER NOT NULL,
+      number TEXT NOT NULL, -- display number, e.g. INV-00042
+      status TEXT DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'paid', 'void')),
+      period_start DATE NOT NULL,
+      period_end DATE NOT NULL,
+      issue_date DATE NOT NULL,
+      due_date DATE,
+      currency TEXT DEFAULT 'USD',
+      subtotal REAL NOT NULL DEFAULT 0,
+      tax_rate REAL NOT NULL DEFAULT 0, -- percentage
+      tax_amount REAL NOT NULL DEFAULT 0,
+      total REAL NOT NULL DEFAULT 0,
+      notes TEXT,
+      created_by TEXT,
+      sent_at DATETIME,
+      paid_at DATETIME,
+      voided_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (workspace_id) REFERENCES workspaces (id) ON DELETE CASCADE,
+      FOREIGN KEY (client_id) REFERENCES clients (id) ON DELETE CASCADE,
+      FOREIGN KEY (created_by) REFERENCES users (id) ON DELETE SET NULL,
+      UNIQUE(workspace_id, sequence)
+    )
+  `);
+
+  // Invoice line items – titles are copied so the invoice survives task and workflow edits
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS invoice_line_items (
+      id TEXT PRIMARY KEY,
+      invoice_id TEXT NOT NULL,
+      workflow_id TEXT,
+      workflow_name TEXT,
+      task_id TEXT,
+      task_title TEXT,
+      description TEXT NOT NULL,
+      hours REAL NOT NULL,
+      rate REAL NOT NULL,
+      amount REAL NOT NULL,
+      order_index INTEGER NOT NULL DEFAULT 0,
+      FOREIGN KEY (invoice_id) REFERENCES invoices (id) ON DELETE CASCADE
+    )
+  `);
+
+  await db.run(`CREATE INDEX IF NOT EXISTS idx_billing_rates_workspace ON billing_rates(workspace_id)`);
+  await db.run(`CREATE INDEX IF NOT EXISTS idx_invoices_workspace_client ON invoices(workspace_id, client_id)`);
+  await db.run(`CREATE INDEX IF NOT EXISTS idx_invoice_line_items_invoice ON invoice_line_items(invoice_id)`);
+  await db.run(`CREATE INDEX IF NOT EXISTS idx_time_entries_invoice ON time_entries(invoice_id)`);
+
+  // =====================================================================
+  // TIMESHEET APPROVAL TABLES
+  // =====================================================================
+
+  // Weekly timesheets – one per member and week, reviewed by a workspace admin.
+  // A week without a row is still open for editing.
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS timesheets (
+      id TEXT PRIMARY KEY,
+      workspace_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      week_start DATE NOT NULL, -- Monday of the week (UTC)
+      status TEXT DEFAULT 'submitted' CHECK (status IN ('submitted', 'approved', 'rejected')),
+      total_seconds INTEGER NOT NULL DEFAULT 0, -- worked time at submission
+      submitted_at DATETIME,
+      reviewed_by TEXT,
+      reviewed_at DATETIME,
+      review_comment TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (workspace_id) REFERENCES workspaces (id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+      FOREIGN KEY (reviewed_by) REFERENCES users (id) ON DELETE SET NULL,
+      UNIQUE(workspace_id, user_id, week_start)
+    )
+  `);
+
+  await db.run(`CREATE INDEX IF NOT EXISTS idx_timesheets_workspace_status ON timesheets(workspace_id, status)`);
+
+  // =====================================================================
+  // BUDGET TABLES
+  // =====================================================================
+
+  // Hour and money budgets – a fixed budget on a workflow or a monthly retainer on a client
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS budgets (
+      id TEXT PRIMARY KEY,
+      workspace_id TEXT NOT NULL,
+      entity_type TEXT NOT NULL CHECK (entity_type IN ('workflow', 'client')),
+      entity_id TEXT NOT NULL,
+      hours REAL, -- NULL when no hour budget is set
+      amount REAL, -- NULL when no money budget is set
+      currency TEXT DEFAULT 'USD',
+      period TEXT DEFAULT 'total' CHECK (period IN ('total', 'monthly')),
+      alert_thresholds TEXT DEFAULT '[75,100]', -- JSON array of percentages
+      created_by TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (workspace_id) REFERENCES workspaces (id) ON DELETE CASCADE,
+      FOREIGN KEY (created_by) REFERENCES users (id) ON DELETE SET NULL,
+      UNIQUE(entity_type, entity_id)
+    )
+  `);
+
+  // Fired threshold alerts – one per budget, metric, threshold and period so each fires once
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS budget_alerts (
+      id TEXT PRIMARY KEY,
+      budget_id TEXT NOT NULL,
+      workspace_id TEXT NOT NULL,
+      metric TEXT NOT NULL CHECK (metric IN ('hours', 'amount')),
+      threshold INTEGER NOT NULL,
+      period_key TEXT NOT NULL DEFAULT '', -- YYYY-MM for monthly budgets
+      burn REAL NOT NULL,
+      budget_limit REAL NOT NULL,
+      dismissed_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (budget_id) REFERENCES budgets (id) ON DELETE CASCADE,
+      FOREIGN KEY (workspace_id) REFERENCES workspaces (id) ON DELETE CASCADE,
+      UNIQUE(budget_id, metric, threshold, period_key)
+    )
+  `);
+
+  await db.run(`CREATE INDEX IF NOT EXISTS idx_budgets_workspace ON budgets(workspace_id)`);
+  await db.run(`CREATE INDEX IF NOT EXISTS idx_budget_alerts_workspace ON budget_alerts(workspace_id, dismissed_at)`);
+
+  // =====================================================================
+  // NOTIFICATION TABLES
+  // =====================================================================
+
+  // In-app notifications, one row per recipient
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS notifications (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      workspace_id TEXT,
+      type TEXT NOT NULL CHECK (type IN ('task_assigned', 'mentioned', 'meeting_invited', 'task_due_soon')),
+      title TEXT NOT NULL,
+      body TEXT,
+      link TEXT, -- in-app path, e.g. /app/kanban
+      entity_type TEXT,
+      entity_id TEXT,
+      actor_id TEXT, -- who caused it, NULL for scheduled reminders
+      delivery TEXT NOT NULL DEFAULT 'in_app' CHECK (delivery IN ('in_app', 'email', 'digest')),
+      dedupe_key TEXT, -- set for notifications that must only be sent once (due date reminders)
+      read_at DATETIME,
+      emailed_at DATETIME, -- when the email or the digest containing it went out
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+      FOREIGN KEY (workspace_id) REFERENCES workspaces (id) ON DELETE CASCADE,
+      FOREIGN KEY (actor_id) REFERENCES users (id) ON DELETE SET NULL,
+      UNIQUE(user_id, dedupe_key)
+    )
+  `);
+
+  // Per-user delivery channel for each notification type; a missing row means the type's default
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS notification_preferences (
+      user_id TEXT NOT NULL,
+      type TEXT NOT NULL,
+      channel TEXT NOT NULL CHECK (channel IN ('in_app', 'email', 'digest')),
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (user_id, type),
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+
+  await db.run(`CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, read_at)`);
+  await db.run(`CREATE INDEX IF NOT EXISTS idx_notifications_digest ON notifications(delivery, emailed_at)`);
+
+  // =====================================================================
+  // TASK COMMENT TABLES
+  // =====================================================================
+
+  // Discussion on tasks; replies point at a top-level comment (one level of threading)
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS task_comments (
+      id TEXT PRIMARY KEY,
+      task_id TEXT NOT NULL,
+      parent_id TEXT,
+      author_id TEXT,
+      content TEXT NOT NULL, -- Quill delta as JSON
+      body_text TEXT NOT NULL DEFAULT '', -- plain text of the delta, used for notifications
+      mentions TEXT DEFAULT '[]', -- JSON array of mentioned user ids
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      edited_at DATETIME,
+      deleted_at DATETIME, -- soft delete so replies keep their thread
+      FOREIGN KEY (task_id) REFERENCES kanban_tasks (id) ON DELETE CASCADE,
+      FOREIGN KEY (parent_id) REFERENCES task_comments (id) ON DELETE CASCADE,
+      FOREIGN KEY (author_id) REFERENCES users (id) ON DELETE SET NULL
+    )
+  `);
+
+  // Previous versions of a comment, written on every edit and on delete
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS task_comment_revisions (
+      id TEXT PRIMARY KEY,
+      comment_id TEXT NOT NULL,
+      content TEXT NOT NULL,
+      body_text TEXT NOT NULL DEFAULT '',
+      edited_by TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (comment_id) REFERENCES task_comments (id) ON DELETE CASCADE,
+      FOREIGN KEY (edited_by) REFERENCES users (id) ON DELETE SET NULL
+    )
+  `);
+
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS task_comment_reactions (
+      comment_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      emoji TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (comment_id, user_id, emoji),
+      FOREIGN KEY (comment_id) REFERENCES task_comments (id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+
+  await db.run(`CREATE INDEX IF NOT EXISTS idx_task_comments_task ON task_comments(task_id, created_at)`);
+  await db.run(`CREATE INDEX IF NOT EXISTS idx_task_comment_revisions_comment ON task_comment_revisions(comment_id)`);
+
+  // =====================================================================
+  // AUTH SESSION TABLES
+  // =====================================================================
+
+  // One row per sign-in; access and refresh tokens carry the session id
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS sessions (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      refresh_token_id TEXT, -- tokenId of the only refresh token that may still be used
+      device TEXT,
+      ip TEXT,
+      user_agent TEXT,
+      remember_me BOOLEAN DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      last_seen_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      expires_at DATETIME NOT NULL,
+      revoked_at DATETIME,
+      revoked_reason TEXT, -- logout, revoked, revoke_all, refresh_token_reuse
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+
+  await db.run(`CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id, revoked_at)`);
+
+  // =====================================================================
+  // SECURITY AUDIT TABLES
+  // =====================================================================
+
+  // Account security events; rows are never updated or deleted
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS security_events (
+      id TEXT PRIMARY KEY,
+      user_id TEXT, -- NULL for failed sign-ins to unknown emails
+      email TEXT, -- email as entered, kept for failed sign-ins and deleted users
+      type TEXT NOT NULL,
+      success BOOLEAN DEFAULT 1,
+      ip TEXT,
+      user_agent TEXT,
+      details TEXT, -- JSON
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE SET NULL
+    )
+  `);
+
+  await db.run(`CREATE INDEX IF NOT EXISTS idx_security_events_user ON security_events(user_id, created_at)`);
+  await db.run(`CREATE INDEX IF NOT EXISTS idx_security_events_created ON security_events(created_at)`);
+
+  // =====================================================================
+  // CLIENT PORTAL TABLES
+  // =====================================================================
+
+  // Client contacts with portal access; each is a client_guest member of the workspace
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS client_contacts (
+      id TEXT PRIMARY KEY,
+      client_id TEXT NOT NULL,
+      workspace_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      invited_by TEXT,
+      invited_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      last_seen_at DATETIME, -- NULL until the contact first opens the portal
+      FOREIGN KEY (client_id) REFERENCES clients (id) ON DELETE CASCADE,
+      FOREIGN KEY (workspace_id) REFERENCES workspaces (id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+      FOREIGN KEY (invited_by) REFERENCES users (id) ON DELETE SET NULL,
+      UNIQUE(workspace_id, user_id)
+    )
+  `);
+
+  await db.run(`CREATE INDEX IF NOT EXISTS idx_client_contacts_client ON client_contacts(client_id)`);
+
+  // =====================================================================
+  // RECURRENCE TABLES
+  // =====================================================================
+
+  await db.run(`CREATE INDEX IF NOT EXISTS idx_calendar_events_recurrence_parent ON calendar_events(recurrence_parent_id)`);
+
+  // Templates that create a Kanban task at every occurrence of their rule
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS recurring_tasks (
+      id TEXT PRIMARY KEY,
+      workspace_id TEXT NOT NULL,
+      workflow_id TEXT NOT NULL,
+      title TEXT NOT NULL,
+      description TEXT,
+      priority TEXT DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high', 'urgent')),
+      status TEXT NOT NULL, -- Kanban column of the created tasks
+      tags TEXT DEFAULT '[]',
+      estimated_hours REAL,
+      assigned_members TEXT DEFAULT '[]', -- JSON array of user IDs
+      recurrence_rule TEXT NOT NULL,
+      starts_at DATETIME NOT NULL,
+      due_after_days INTEGER, -- due date of created tasks, relative to their occurrence
+      next_run_at DATETIME, -- NULL once the rule has no further occurrences
+      last_run_at DATETIME,
+      is_active BOOLEAN DEFAULT 1,
+      created_by TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (workspace_id) REFERENCES workspaces (id) ON DELETE CASCADE,
+      FOREIGN KEY (workflow_id) REFERENCES workflows (id) ON DELETE CASCADE,
+      FOREIGN KEY (created_by) REFERENCES users (id) ON DELETE SET NULL
+    )
+  `);
+
+  await db.run(`CREATE INDEX IF NOT EXISTS idx_recurring_tasks_next_run ON recurring_tasks(is_active, next_run_at)`);
+
+  // =====================================================================
+  // ICALENDAR TABLES
+  // =====================================================================
+
+  // Secret subscription URL of a user's calendar in one workspace (GET /api/calendar/feed/:token.ics)
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS calendar_feeds (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      workspace_id TEXT NOT NULL,
+      token TEXT NOT NULL UNIQUE,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      last_accessed_at DATETIME,
+      UNIQUE(user_id, workspace_id),
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+      FOREIGN KEY (workspace_id) REFERENCES workspaces (id) ON DELETE CASCADE
+    )
+  `);
+
+  await db.run(`CREATE INDEX IF NOT EXISTS idx_calendar_events_ical_uid ON calendar_events(user_id, workspace_id, ical_uid)`);
+
+  // =====================================================================
+  // BOARD VIEWS
+  // =====================================================================
+
+  // Saved Kanban layouts (swimlanes, sorting, filters as JSON); shared views are listed for the whole workspace
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS board_views (
+      id TEXT PRIMARY KEY,
+      workspace_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      config TEXT NOT NULL,
+      is_shared BOOLEAN DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (workspace_id) REFERENCES workspaces (id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+
+  await db.run(`CREATE INDEX IF NOT EXISTS idx_board_views_workspace ON board_views(workspace_id, user_id)`);
+
+  // =====================================================================
+  // DOCUMENT REVISIONS
+  // =====================================================================
+
+  // Every saved version of a document resource, numbered from 1
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS task_resource_revisions (
+      id TEXT PRIMARY KEY,
+      resource_id TEXT NOT NULL,
+      revision_number INTEGER NOT NULL,
+      title TEXT,
+      content TEXT NOT NULL DEFAULT '',
+      created_by TEXT,
+      restored_from INTEGER, -- number of the revision this one brought back
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (resource_id, revision_number),
+      FOREIGN KEY (resource_id) REFERENCES task_resources (id) ON DELETE CASCADE,
+      FOREIGN KEY (created_by) REFERENCES users (id) ON DELETE SET NULL
+    )
+  `);
+
+  // =====================================================================
+  // COLLABORATIVE EDITING
+  // =====================================================================
+
+  // The Yjs state of a document being edited together, for the generation it belongs to
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS task_resource_collab_states (
+      resource_id TEXT PRIMARY KEY,
+      generation INTEGER NOT NULL,
+      state BLOB NOT NULL,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (resource_id) REFERENCES task_resources (id) ON DELETE CASCADE
+    )
+  `);
+}
+
+async function down(db) {
+  for (const table of [...TABLES].reverse()) {
+    await db.run(`DROP TABLE IF EXISTS ${table}`);
+  }
+}
+
+module.exports = { up, down };
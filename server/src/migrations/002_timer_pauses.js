@@ -0,0 +1,90 @@
+/**
+ * Timer pauses as rows instead of counters on the running timer.
+ *
+ * A pause used to be last_pause_time and pause_reason on active_timers, folded into
+ * total_paused_duration on resume, so only the current pause was known. Every pause is now a
+ * timer_pauses row with its reason; when the timer stops, its pauses move to the time entry it
+ * became, and the entry keeps the timer's id.
+ */
+
+const { v4: uuidv4 } = require('uuid');
+
+async function up(db) {
+  await db.run(`
+    CREATE TABLE timer_pauses (
+      id TEXT PRIMARY KEY,
+      timer_id TEXT NOT NULL, -- the active timer, and after it stopped time_entries.timer_id
+      time_entry_id TEXT, -- set when the timer stops
+      user_id TEXT NOT NULL,
+      reason TEXT,
+      started_at DATETIME NOT NULL,
+      ended_at DATETIME, -- NULL while the timer is paused
+      FOREIGN KEY (time_entry_id) REFERENCES time_entries (id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+  await db.run('CREATE INDEX idx_timer_pauses_timer ON timer_pauses(timer_id)');
+  await db.run('CREATE INDEX idx_timer_pauses_time_entry ON timer_pauses(time_entry_id)');
+  // A timer is paused at most once at a time
+  await db.run('CREATE UNIQUE INDEX idx_timer_pauses_open ON timer_pauses(timer_id) WHERE ended_at IS NULL');
+
+  // Running timers only know the sum of their earlier pauses; it becomes one pause from the start
+  const timers = await db.all('SELECT * FROM active_timers WHERE total_paused_duration > 0 OR last_pause_time IS NOT NULL');
+  for (const timer of timers) {
+    if (timer.total_paused_duration > 0) {
+      const startedAt = new Date(timer.start_time);
+      await db.run(`
+        INSERT INTO timer_pauses (id, timer_id, user_id, started_at, ended_at)
+        VALUES (?, ?, ?, ?, ?)
+      `, [uuidv4(), timer.id, timer.user_id, startedAt.toISOString(),
+        new Date(startedAt.getTime() + timer.total_paused_duration * 1000).toISOString()]);
+    }
+    if (timer.last_pause_time) {
+      await db.run(`
+        INSERT INTO timer_pauses (id, timer_id, user_id, reason, started_at)
+        VALUES (?, ?, ?, ?, ?)
+      `, [uuidv4(), timer.id, timer.user_id, timer.pause_reason, timer.last_pause_time]);
+    }
+  }
+
+  await db.run('ALTER TABLE active_timers DROP COLUMN last_pause_time');
+  await db.run('ALTER TABLE active_timers DROP COLUMN total_paused_duration');
+  await db.run('ALTER TABLE active_timers DROP COLUMN pause_reason');
+
+  await db.run('ALTER TABLE time_entries ADD COLUMN timer_id TEXT');
+  await db.run('CREATE INDEX idx_time_entries_timer ON time_entries(timer_id)');
+}
+
+// The pauses of stopped timers are dropped; running timers get their counters back
+async function down(db) {
+  await db.run('DROP INDEX idx_time_entries_timer');
+  await db.run('ALTER TABLE time_entries DROP COLUMN timer_id');
+
+  await db.run('ALTER TABLE active_timers ADD COLUMN last_pause_time DATETIME');
+  await db.run('ALTER TABLE active_timers ADD COLUMN total_paused_duration INTEGER DEFAULT 0');
+  await db.run('ALTER TABLE active_timers ADD COLUMN pause_reason TEXT');
+
+  const pauses = await db.all(`
+    SELECT p.* FROM timer_pauses p
+    JOIN active_timers at ON at.id = p.timer_id
+    WHERE p.time_entry_id IS NULL
+  `);
+  for (const pause of pauses) {
+    if (pause.ended_at) {
+      const seconds = Math.floor((new Date(pause.ended_at) - new Date(pause.started_at)) / 1000);
+      await db.run(
+        'UPDATE active_timers SET total_paused_duration = total_paused_duration + ? WHERE id = ?',
+        [seconds, pause.timer_id]
+      );
+    } else {
+      await db.run(
+        'UPDATE active_timers SET last_pause_time = ?, pause_reason = ? WHERE id = ?',
+        [pause.started_at, pause.reason, pause.timer_id]
+      );
+    }
+  }
+
+  await db.run('DROP TABLE timer_pauses');
+}
+
+module.exports = { up, down };
@@ -0,0 +1,16 @@
+/**
+ * The role a workspace's invite code grants.
+ *
+ * Joining by code used to make everyone a contributor. The code now grants the role chosen by whoever
+ * manages the workspace, `viewer` unless they pick another, so existing codes hand out viewers too.
+ */
+
+async function up(db) {
+  await db.run("ALTER TABLE workspaces ADD COLUMN invite_role TEXT NOT NULL DEFAULT 'viewer'");
+}
+
+async function down(db) {
+  await db.run('ALTER TABLE workspaces DROP COLUMN invite_role');
+}
+
+module.exports = { up, down };
@@ -0,0 +1,242 @@
+/**
+ * Versioned schema migrations.
+ *
+ * Every file in this directory named `<version>_<name>.js` exports `up(db)` and `down(db)`, which
+ * change the schema through the promisified database (config/database). Applied migrations are
+ * recorded in schema_migrations with the SHA-256 of their file. When an applied file has changed
+ * since, or is gone, migrate and rollback refuse to run until it is restored: a migration that
+ * ran anywhere is never edited, the change goes into a new one.
+ *
+ * Each migration runs in its own transaction with its schema_migrations row, so it is applied
+ * completely or not at all. Foreign keys are not enforced during a migration so that tables can
+ * be rebuilt; rows it leaves without their parent fail it before the commit.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const { getDatabase } = require('../config/database');
+const legacy = require('./legacy');
+
+const MIGRATIONS_DIR = __dirname;
+const FILE_PATTERN = /^(\d+)_(\w+)\.js$/;
+
+class MigrationError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+// Line endings are left out so a checkout on Windows has the same checksums
+const checksumOf = (source) => crypto.createHash('sha256').update(source.replace(/\r\n/g, '\n')).digest('hex');
+
+// Migration files by version
+function loadMigrations() {
+  const migrations = fs.readdirSync(MIGRATIONS_DIR)
+    .map(file => ({ file, match: file.match(FILE_PATTERN) }))
+    .filter(({ match }) => match)
+    .map(({ file, match }) => ({
+      version: Number(match[1]),
+      name: match[2],
+      file,
+      checksum: checksumOf(fs.readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8'))
+    }))
+    .sort((a, b) => a.version - b.version);
+
+  const duplicate = migrations.find((migration, i) => i > 0 && migration.version === migrations[i - 1].version);
+  if (duplicate) {
+    throw new MigrationError(`Two migrations have version ${duplicate.version}; rename one of them`);
+  }
+  return migrations;
+}
+
+async function ensureMigrationsTable(db) {
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+/**
+ * Every migration, known from its file or from schema_migrations, with its state:
+ * 'applied', 'pending', 'modified' (applied, but the file changed since) or 'missing'
+ * (applied, but the file is gone)
+ */
+async function status(db = getDatabase()) {
+  await ensureMigrationsTable(db);
+  const applied = new Map((await db.all('SELECT * FROM schema_migrations')).map(row => [row.version, row]));
+
+  const entries = loadMigrations().map(migration => {
+    const row = applied.get(migration.version);
+    const state = !row ? 'pending' : row.checksum === migration.checksum ? 'applied' : 'modified';
+    return { ...migration, state, appliedAt: row ? row.applied_at : null };
+  });
+  for (const row of applied.values()) {
+    if (!entries.some(entry => entry.version === row.version)) {
+      entries.push({ version: row.version, name: row.name, file: null, checksum: row.checksum, state: 'missing', appliedAt: row.applied_at });
+    }
+  }
+  return entries.sort((a, b) => a.version - b.version);
+}
+
+// Whether the next migrate adopts a database created before migrations, see legacy.js
+async function needsAdoption(db = getDatabase()) {
+  await ensureMigrationsTable(db);
+  const { count } = await db.get('SELECT COUNT(*) as count FROM schema_migrations');
+  return count === 0 && await legacy.isLegacyDatabase(db);
+}
+
+function assertUnchanged(entries) {
+  const changed = entries.filter(entry => entry.state === 'modified' || entry.state === 'missing');
+  if (changed.length === 0) return;
+
+  const list = changed.map(entry => entry.state === 'modified'
+    ? `${entry.file} was changed after it was applied`
+    : `${entry.version}_${entry.name} was applied but its file is gone`);
+  throw new MigrationError(`${list.join('; ')}. Restore the applied version and put the change in a new migration.`);
+}
+
+const violationKey = (row) => `${row.table}:${row.rowid}:${row.fkid}`;
+
+// Run `work` in a transaction with foreign keys checked at the end instead of on every statement
+async function inTransaction(db, label, work) {
+  // Enforcement can only be switched outside a transaction
+  await db.run('PRAGMA foreign_keys = OFF');
+  try {
+    // IMMEDIATE takes the write lock right away, so a second process migrating the same database waits
+    await db.transaction(async () => {
+      const before = new Set((await db.all('PRAGMA foreign_key_check')).map(violationKey));
+      await work();
+
+      const introduced = (await db.all('PRAGMA foreign_key_check')).filter(row => !before.has(violationKey(row)));
+      if (introduced.length > 0) {
+        const tables = [...new Set(introduced.map(row => `${row.table} → ${row.parent}`))];
+        throw new MigrationError(`${label} leaves ${introduced.length} ${introduced.length === 1 ? 'row' : 'rows'} without their parent (${tables.join(', ')})`);
+      }
+    }, { immediate: true });
+  } finally {
+    await db.run('PRAGMA foreign_keys = ON');
+  }
+}
+
+/**
+ * Apply the pending migrations, up to and including version `to`
+ * @returns {Promise<object[]>} the migrations applied
+ * @throws {MigrationError} when an applied migration was changed, or a migration breaks foreign keys
+ */
+async function migrate({ to = Infinity } = {}) {
+  const db = getDatabase();
+  const entries = await status(db);
+  assertUnchanged(entries);
+
+  const adopting = await needsAdoption(db);
+  if (adopting) {
+    console.log('🔧 Adopting a database created before versioned migrations...');
+  }
+
+  const applied = [];
+  for (const migration of entries.filter(entry => entry.state === 'pending' && entry.version <= to)) {
+    const { up } = require(path.join(MIGRATIONS_DIR, migration.file));
+    const adopt = adopting && migration.version === legacy.BASELINE_VERSION;
+
+    await inTransaction(db, migration.file, async () => {
+      // Another process may have applied it while this one waited for the lock
+      if (await db.get('SELECT 1 FROM schema_migrations WHERE version = ?', [migration.version])) return;
+
+      if (adopt) await legacy.upgrade(db);
+      await up(db);
+      if (adopt) await legacy.backfill(db);
+      await db.run(
+        'INSERT INTO schema_migrations (version, name, checksum) VALUES (?, ?, ?)',
+        [migration.version, migration.name, migration.checksum]
+      );
+      applied.push(migration);
+    });
+    if (applied.includes(migration)) {
+      console.log(`✅ Applied migration ${migration.file}`);
+    }
+  }
+  return applied;
+}
+
+/**
+ * Undo the last `steps` applied migrations, or all applied after version `to`
+ * @returns {Promise<object[]>} the migrations rolled back, latest first
+ * @throws {MigrationError} when an applied migration was changed
+ */
+async function rollback({ steps = 1, to } = {}) {
+  const db = getDatabase();
+  const entries = await status(db);
+  assertUnchanged(entries);
+
+  const applied = entries.filter(entry => entry.state === 'applied').reverse();
+  const targets = to === undefined ? applied.slice(0, steps) : applied.filter(entry => entry.version > to);
+
+  const rolledBack = [];
+  for (const migration of targets) {
+    const { down } = require(path.join(MIGRATIONS_DIR, migration.file));
+
+    await inTransaction(db, `Rollback of ${migration.file}`, async () => {
+      await down(db);
+      await db.run('DELETE FROM schema_migrations WHERE version = ?', [migration.version]);
+    });
+    rolledBack.push(migration);
+    console.log(`↩️  Rolled back migration ${migration.file}`);
+  }
+  return rolledBack;
+}
+
+/**
+ * Refuse to go on with migrations that have not run or were changed, for servers that leave
+ * migrating to a deploy step
+ * @throws {MigrationError}
+ */
+async function assertMigrated() {
+  const entries = await status();
+  assertUnchanged(entries);
+
+  const pending = entries.filter(entry => entry.state === 'pending');
+  if (pending.length > 0) {
+    throw new MigrationError(`${pending.length === 1 ? 'A migration has' : `${pending.length} migrations have`} not been applied (${pending.map(entry => entry.file).join(', ')}). Run npm run migrate.`);
+  }
+}
+
+// Write an empty migration numbered after the latest one; returns its path
+function createMigration(name) {
+  const slug = String(name || '').trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  if (!slug) {
+    throw new MigrationError('A migration needs a name, e.g. add_task_archived_at');
+  }
+
+  const migrations = loadMigrations();
+  const version = (migrations.length > 0 ? migrations[migrations.length - 1].version : 0) + 1;
+  const file = path.join(MIGRATIONS_DIR, `${String(version).padStart(3, '0')}_${slug}.js`);
+  fs.writeFileSync(file, `/**
+ * ${slug.replace(/_/g, ' ')}
+ */
+
+async function up(db) {
+}
+
+async function down(db) {
+}
+
+module.exports = { up, down };
+`);
+  return file;
+}
+
+module.exports = {
+  MigrationError,
+  status,
+  needsAdoption,
+  migrate,
+  rollback,
+  assertMigrated,
+  createMigration
+};
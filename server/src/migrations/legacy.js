@@ -0,0 +1,208 @@
+/**
+ * Adoption of databases created before versioned migrations.
+ *
+ * Those databases were kept up to date by checks on every start that added missing columns and
+ * rebuilt tables, so they may be at any earlier state of the schema. Adopting one brings its
+ * existing tables up to the baseline (001) before the baseline creates whatever is missing,
+ * then records the baseline as applied. Nothing here changes any more: schema changes go into
+ * new migrations.
+ */
+
+const { v4: uuidv4 } = require('uuid');
+
+const BASELINE_VERSION = 1;
+
+// Columns that were added to existing tables over time, in the order they were added
+const ADDED_COLUMNS = {
+  users: [
+    ['skills', 'TEXT'],
+    ['two_factor_enabled', 'BOOLEAN DEFAULT 0'],
+    ['two_factor_secret', 'TEXT'],
+    ['two_factor_backup_codes', 'TEXT'],
+    ['two_factor_last_used', 'DATETIME']
+  ],
+  clients: [
+    ['workspace_id', 'TEXT']
+  ],
+  workflows: [
+    ['workspace_id', 'TEXT']
+  ],
+  kanban_columns: [
+    ['wip_limit', 'INTEGER'],
+    ['assignee_wip_limit', 'INTEGER'],
+    ['policies', 'TEXT']
+  ],
+  kanban_tasks: [
+    ['start_date', 'DATETIME'],
+    ['estimated_hours', 'REAL'],
+    ['actual_hours', 'REAL'],
+    ['workspace_id', 'TEXT'],
+    ['client_visible', 'BOOLEAN DEFAULT 0'],
+    ['client_approval_status', "TEXT CHECK (client_approval_status IN ('pending', 'approved', 'changes_requested'))"],
+    ['client_approval_comment', 'TEXT'],
+    ['client_approval_requested_by', 'TEXT'],
+    ['client_approval_decided_by', 'TEXT'],
+    ['client_approval_updated_at', 'DATETIME'],
+    ['recurring_task_id', 'TEXT REFERENCES recurring_tasks (id) ON DELETE SET NULL']
+  ],
+  client_meetings: [
+    ['workspace_id', 'TEXT'],
+    ['recurrence_rule', 'TEXT'],
+    ['recurrence_exceptions', "TEXT DEFAULT '[]'"]
+  ],
+  task_resources: [
+    ['shared_with_client', 'BOOLEAN DEFAULT 0'],
+    ['storage_key', 'TEXT'],
+    ['thumbnail_key', 'TEXT'],
+    ['thumbnail_size', 'INTEGER'],
+    ['collab_generation', 'INTEGER NOT NULL DEFAULT 0']
+  ],
+  time_entries: [
+    ['category_id', 'TEXT'],
+    ['invoice_id', 'TEXT REFERENCES invoices (id) ON DELETE SET NULL']
+  ],
+  calendar_events: [
+    ['recurrence_rule', 'TEXT'],
+    ['recurrence_exceptions', "TEXT DEFAULT '[]'"],
+    ['recurrence_parent_id', 'TEXT REFERENCES calendar_events (id) ON DELETE CASCADE'],
+    ['original_start_time', 'DATETIME'],
+    ['ical_uid', 'TEXT']
+  ],
+  active_timers: [
+    ['last_pause_time', 'DATETIME'],
+    ['total_paused_duration', 'INTEGER DEFAULT 0'],
+    ['pause_reason', 'TEXT']
+  ]
+};
+
+// Records that existed before workspaces belong to the default one
+const WORKSPACE_SCOPED_TABLES = ['clients', 'workflows', 'kanban_tasks', 'client_meetings'];
+
+const tableSql = async (db, table) => {
+  const row = await db.get("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?", [table]);
+  return row ? row.sql : null;
+};
+
+// A database with tables but no recorded migrations
+async function isLegacyDatabase(db) {
+  return (await tableSql(db, 'users')) !== null;
+}
+
+// Bring the tables that exist up to the baseline; runs before the baseline's up()
+async function upgrade(db) {
+  for (const [table, columns] of Object.entries(ADDED_COLUMNS)) {
+    if (!(await tableSql(db, table))) continue;
+
+    const existing = (await db.all(`PRAGMA table_info(${table})`)).map(col => col.name);
+    for (const [column, definition] of columns) {
+      if (existing.includes(column)) continue;
+      console.log(`🔧 Adding ${column} column to ${table} table...`);
+      await db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      if (column === 'workspace_id' && WORKSPACE_SCOPED_TABLES.includes(table)) {
+        await db.run(`UPDATE ${table} SET workspace_id = 'default-workspace' WHERE workspace_id IS NULL`);
+      }
+    }
+  }
+
+  // Passwords became optional for OAuth users; SQLite can't drop NOT NULL, so recreate the table
+  const userColumns = await db.all('PRAGMA table_info(users)');
+  if (userColumns.some(col => col.name === 'password' && col.notnull === 1)) {
+    console.log('🔧 Updating users table to allow NULL passwords for OAuth users...');
+    await db.run(`
+      CREATE TABLE users_new (
+        id TEXT PRIMARY KEY,
+        email TEXT UNIQUE NOT NULL,
+        password TEXT, -- Allow NULL for OAuth users
+        name TEXT NOT NULL,
+        role TEXT DEFAULT 'user' CHECK (role IN ('admin', 'manager', 'user')),
+        skills TEXT, -- JSON array as string (moved from team_members)
+        is_active BOOLEAN DEFAULT 1,
+        email_verified BOOLEAN DEFAULT 0,
+        last_login_at DATETIME,
+        two_factor_enabled BOOLEAN DEFAULT 0,
+        two_factor_secret TEXT,
+        two_factor_backup_codes TEXT,
+        two_factor_last_used DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    await db.run(`
+      INSERT INTO users_new (id, email, password, name, role, skills, is_active, email_verified, last_login_at,
+                             two_factor_enabled, two_factor_secret, two_factor_backup_codes, two_factor_last_used,
+                             created_at, updated_at)
+      SELECT id, email, password, name, role, skills, is_active, email_verified, last_login_at,
+             COALESCE(two_factor_enabled, 0), two_factor_secret, two_factor_backup_codes, two_factor_last_used,
+             created_at, updated_at
+      FROM users
+    `);
+    await db.run('DROP TABLE users');
+    await db.run('ALTER TABLE users_new RENAME TO users');
+  }
+
+  // Workspace members had admin/member roles before the granular workspace roles
+  const membersSql = await tableSql(db, 'workspace_members');
+  if (membersSql && membersSql.includes("'member'")) {
+    console.log('🔧 Updating workspace_members table for granular workspace roles...');
+    await db.run(`
+      CREATE TABLE workspace_members_new (
+        id TEXT PRIMARY KEY,
+        workspace_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        role TEXT DEFAULT 'contributor' CHECK (role IN ('owner', 'admin', 'manager', 'contributor', 'viewer', 'client_guest')),
+        joined_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        added_by TEXT,
+        FOREIGN KEY (workspace_id) REFERENCES workspaces (id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+        FOREIGN KEY (added_by) REFERENCES users (id) ON DELETE SET NULL,
+        UNIQUE(workspace_id, user_id)
+      )
+    `);
+
+    // Workspace owners become 'owner', members become 'contributor'
+    await db.run(`
+      INSERT INTO workspace_members_new (id, workspace_id, user_id, role, joined_at, added_by)
+      SELECT wm.id, wm.workspace_id, wm.user_id,
+             CASE
+               WHEN w.owner_id = wm.user_id THEN 'owner'
+               WHEN wm.role = 'admin' THEN 'admin'
+               ELSE 'contributor'
+             END,
+             wm.joined_at, wm.added_by
+      FROM workspace_members wm
+      LEFT JOIN workspaces w ON w.id = wm.workspace_id
+    `);
+    await db.run('DROP TABLE workspace_members');
+    await db.run('ALTER TABLE workspace_members_new RENAME TO workspace_members');
+  }
+
+  // Tables of removed features
+  await db.run('DROP TABLE IF EXISTS step_dependencies');
+  await db.run('DROP TABLE IF EXISTS step_assignments');
+  await db.run('DROP TABLE IF EXISTS task_resource_drafts');
+}
+
+// Data the baseline expects of adopted databases; runs after the baseline's up()
+async function backfill(db) {
+  // Documents written before revisions were kept start with their current content as revision 1
+  const unversionedDocuments = await db.all(`
+    SELECT id, title, content, updated_at FROM task_resources tr
+    WHERE type = 'document' AND NOT EXISTS (SELECT 1 FROM task_resource_revisions r WHERE r.resource_id = tr.id)
+  `);
+  if (unversionedDocuments.length > 0) {
+    console.log(`🔧 Adding a first revision to ${unversionedDocuments.length} documents...`);
+    for (const document of unversionedDocuments) {
+      await db.run(`
+        INSERT INTO task_resource_revisions (id, resource_id, revision_number, title, content, created_at)
+        VALUES (?, ?, 1, ?, ?, ?)
+      `, [uuidv4(), document.id, document.title, document.content || '', document.updated_at]);
+    }
+  }
+}
+
+module.exports = {
+  BASELINE_VERSION,
+  isLegacyDatabase,
+  upgrade,
+  backfill
+};
@@ -51,16 +51,7 @@ class ActivityLogger {
     params.push(limit, offset);
 
     const rows = await db.all(sql, params);
-    return rows.map(row => ({
-      id: row.id,
-      entityType: row.entity_type,
-      entityId: row.entity_id,
-      action: row.action,
-      performedBy: row.performed_by,
-      performedByName: row.performed_by_name,
-      details: JSON.parse(row.details || '{}'),
-      createdAt: new Date(row.created_at)
-    }));
+    return rows.map(row => ActivityLogger.fromDatabase(row));
   }
 
   static async getEntityHistory(entityType, entityId) {
@@ -70,6 +61,58 @@ class ActivityLogger {
   static async getRecentActivities(limit = 50) {
     return await this.getActivities(null, null, limit);
   }
+
+  // Activity on the workspace's clients, workflows, tasks and meetings, newest first. The log has no
+  // workspace column, so entries are matched through their entity (entries of deleted ones drop out).
+  // `from` and `to` are inclusive dates.
+  static async getWorkspaceActivities(workspaceId, { limit = 50, from = null, to = null } = {}) {
+    const db = getDatabase();
+    const conditions = [`(
+      (al.entity_type = 'kanban_task' AND al.entity_id IN (
+        SELECT kt.id FROM kanban_tasks kt LEFT JOIN workflows w ON kt.workflow_id = w.id
+        WHERE COALESCE(kt.workspace_id, w.workspace_id) = ?
+      ))
+      OR (al.entity_type = 'client' AND al.entity_id IN (SELECT id FROM clients WHERE workspace_id = ?))
+      OR (al.entity_type = 'workflow' AND al.entity_id IN (SELECT id FROM workflows WHERE workspace_id = ?))
+      OR (al.entity_type = 'meeting' AND al.entity_id IN (
+        SELECT cm.id FROM client_meetings cm JOIN clients c ON cm.client_id = c.id WHERE c.workspace_id = ?
+      ))
+    )`];
+    const params = [workspaceId, workspaceId, workspaceId, workspaceId];
+
+    if (from) {
+      conditions.push('date(al.created_at) >= date(?)');
+      params.push(from);
+    }
+    if (to) {
+      conditions.push('date(al.created_at) <= date(?)');
+      params.push(to);
+    }
+
+    const rows = await db.all(`
+      SELECT al.*, u.name as performed_by_name
+      FROM activity_log al
+      LEFT JOIN users u ON al.performed_by = u.id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY al.created_at DESC
+      LIMIT ?
+    `, [...params, limit]);
+
+    return rows.map(row => ActivityLogger.fromDatabase(row));
+  }
+
+  static fromDatabase(row) {
+    return {
+      id: row.id,
+      entityType: row.entity_type,
+      entityId: row.entity_id,
+      action: row.action,
+      performedBy: row.performed_by,
+      performedByName: row.performed_by_name,
+      details: JSON.parse(row.details || '{}'),
+      createdAt: new Date(row.created_at)
+    };
+  }
 }
 
 module.exports = ActivityLogger;
\ No newline at end of file
@@ -0,0 +1,149 @@
+const { v4: uuidv4 } = require('uuid');
+const { getDatabase } = require('../config/database');
+const ActivityLogger = require('./ActivityLogger');
+
+class BillingRate {
+  constructor(data = {}) {
+    this.id = data.id || uuidv4();
+    this.workspaceId = data.workspaceId;
+    this.clientId = data.clientId || null;
+    this.userId = data.userId || null;
+    this.hourlyRate = data.hourlyRate;
+    this.currency = data.currency || 'USD';
+    this.createdAt = data.createdAt || new Date();
+    this.updatedAt = data.updatedAt || new Date();
+  }
+
+  static async findAll(workspaceId, clientId = null) {
+    const db = getDatabase();
+    let query = `
+      SELECT br.*, c.name as client_name, u.name as user_name
+      FROM billing_rates br
+      LEFT JOIN clients c ON br.client_id = c.id
+      LEFT JOIN users u ON br.user_id = u.id
+      WHERE br.workspace_id = ?
+    `;
+    const params = [workspaceId];
+
+    // A client's view includes the workspace-wide rates that fall through to it
+    if (clientId) {
+      query += ' AND (br.client_id = ? OR br.client_id IS NULL)';
+      params.push(clientId);
+    }
+
+    query += ' ORDER BY br.client_id IS NULL, c.name, br.user_id IS NULL, u.name';
+
+    const rows = await db.all(query, params);
+    return rows.map(row => BillingRate.fromDatabase(row));
+  }
+
+  static async findById(id, workspaceId) {
+    const db = getDatabase();
+    const row = await db.get(
+      'SELECT * FROM billing_rates WHERE id = ? AND workspace_id = ?',
+      [id, workspaceId]
+    );
+    return row ? BillingRate.fromDatabase(row) : null;
+  }
+
+  // The rate for an exact client/member combination (either side may be null)
+  static async findForScope(workspaceId, clientId = null, userId = null) {
+    const db = getDatabase();
+    const row = await db.get(`
+      SELECT * FROM billing_rates
+      WHERE workspace_id = ? AND client_id IS ? AND user_id IS ?
+    `, [workspaceId, clientId || null, userId || null]);
+    return row ? BillingRate.fromDatabase(row) : null;
+  }
+
+  // Most specific rate wins: member on this client, then client, then member, then workspace default
+  static resolve(rates, clientId, userId) {
+    const candidates = [
+      rate => rate.clientId === clientId && rate.userId === userId,
+      rate => rate.clientId === clientId && !rate.userId,
+      rate => !rate.clientId && rate.userId === userId,
+      rate => !rate.clientId && !rate.userId
+    ];
+
+    for (const matches of candidates) {
+      const rate = rates.find(matches);
+      if (rate) return rate;
+    }
+    return null;
+  }
+
+  async save(performedBy = null) {
+    const db = getDatabase();
+    const isNew = !(await BillingRate.findById(this.id, this.workspaceId));
+    this.updatedAt = new Date();
+
+    if (isNew) {
+      await db.run(`
+        INSERT INTO billing_rates (id, workspace_id, client_id, user_id, hourly_rate, currency, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        this.id, this.workspaceId, this.clientId, this.userId, this.hourlyRate, this.currency,
+        this.createdAt.toISOString(), this.updatedAt.toISOString()
+      ]);
+    } else {
+      await db.run(`
+        UPDATE billing_rates SET hourly_rate = ?, currency = ?, updated_at = ?
+        WHERE id = ?
+      `, [this.hourlyRate, this.currency, this.updatedAt.toISOString(), this.id]);
+    }
+
+    await ActivityLogger.log('billing_rate', this.id, isNew ? 'created' : 'updated', performedBy, {
+      clientId: this.clientId,
+      userId: this.userId,
+      hourlyRate: this.hourlyRate,
+      currency: this.currency
+    });
+
+    return this;
+  }
+
+  async delete(performedBy = null) {
+    const db = getDatabase();
+    await db.run('DELETE FROM billing_rates WHERE id = ?', [this.id]);
+
+    await ActivityLogger.log('billing_rate', this.id, 'deleted', performedBy, {
+      clientId: this.clientId,
+      userId: this.userId
+    });
+  }
+
+  static fromDatabase(row) {
+    const rate = new BillingRate({
+      id: row.id,
+      workspaceId: row.workspace_id,
+      clientId: row.client_id,
+      userId: row.user_id,
+      hourlyRate: row.hourly_rate,
+      currency: row.currency,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    });
+
+    rate.clientName = row.client_name || null;
+    rate.userName = row.user_name || null;
+
+    return rate;
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      workspaceId: this.workspaceId,
+      clientId: this.clientId,
+      clientName: this.clientName,
+      userId: this.userId,
+      userName: this.userName,
+      hourlyRate: this.hourlyRate,
+      currency: this.currency,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt
+    };
+  }
+}
+
+module.exports = BillingRate;
@@ -0,0 +1,145 @@
+const { v4: uuidv4 } = require('uuid');
+const { getDatabase } = require('../config/database');
+
+const SWIMLANES = ['none', 'assignee', 'priority', 'client', 'workflow', 'tag'];
+const SORTS = ['manual', 'priority', 'due_date', 'created', 'updated', 'title'];
+const DUE_WINDOWS = ['overdue', 'today', 'week', 'month', 'none'];
+
+// Filters that narrow the board to one workflow, client, assignee or tag, or match the title
+const TEXT_FILTERS = ['clientId', 'workflowId', 'assigneeId', 'tag', 'search'];
+
+const SELECT_VIEWS = `
+  SELECT bv.*, u.name as owner_name
+  FROM board_views bv
+  LEFT JOIN users u ON bv.user_id = u.id
+`;
+
+/**
+ * A named Kanban board layout: swimlanes, sorting inside columns and filters. Views belong to
+ * the user who saved them; shared views are listed for everyone in the workspace.
+ */
+class BoardView {
+  constructor(data = {}) {
+    this.id = data.id || uuidv4();
+    this.workspaceId = data.workspaceId;
+    this.userId = data.userId;
+    this.ownerName = data.ownerName || null;
+    this.name = data.name;
+    this.config = data.config || BoardView.normalizeConfig({});
+    this.isShared = Boolean(data.isShared);
+    this.createdAt = data.createdAt || new Date();
+    this.updatedAt = data.updatedAt || new Date();
+  }
+
+  // Own views first, then the views teammates shared, by name
+  static async findVisibleTo(userId, workspaceId) {
+    const db = getDatabase();
+    const rows = await db.all(`
+      ${SELECT_VIEWS}
+      WHERE bv.workspace_id = ? AND (bv.user_id = ? OR bv.is_shared = 1)
+      ORDER BY CASE WHEN bv.user_id = ? THEN 0 ELSE 1 END, bv.name COLLATE NOCASE ASC
+    `, [workspaceId, userId, userId]);
+    return rows.map(row => BoardView.fromDatabase(row));
+  }
+
+  static async findById(id, workspaceId) {
+    const db = getDatabase();
+    const row = await db.get(`${SELECT_VIEWS} WHERE bv.id = ? AND bv.workspace_id = ?`, [id, workspaceId]);
+    return row ? BoardView.fromDatabase(row) : null;
+  }
+
+  /**
+   * The settings of a view from a request, with defaults for what is left out.
+   * @throws {Error} when a setting has an unknown value
+   */
+  static normalizeConfig(input = {}) {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+      throw new Error('config must be an object');
+    }
+
+    const config = {
+      swimlane: input.swimlane || 'none',
+      sort: input.sort || 'manual'
+    };
+    if (!SWIMLANES.includes(config.swimlane)) throw new Error(`swimlane must be one of ${SWIMLANES.join(', ')}`);
+    if (!SORTS.includes(config.sort)) throw new Error(`sort must be one of ${SORTS.join(', ')}`);
+
+    if (input.due) {
+      if (!DUE_WINDOWS.includes(input.due)) throw new Error(`due must be one of ${DUE_WINDOWS.join(', ')}`);
+      config.due = input.due;
+    }
+    for (const key of TEXT_FILTERS) {
+      if (input[key] === undefined || input[key] === null || input[key] === '') continue;
+      if (typeof input[key] !== 'string' || input[key].length > 200) throw new Error(`${key} must be a short text`);
+      config[key] = input[key];
+    }
+    return config;
+  }
+
+  canEdit(userId) {
+    return this.userId === userId;
+  }
+
+  async save() {
+    const db = getDatabase();
+    const exists = await db.get('SELECT id FROM board_views WHERE id = ?', [this.id]);
+
+    if (!exists) {
+      await db.run(`
+        INSERT INTO board_views (id, workspace_id, user_id, name, config, is_shared, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        this.id, this.workspaceId, this.userId, this.name, JSON.stringify(this.config), this.isShared ? 1 : 0,
+        this.createdAt.toISOString(), this.updatedAt.toISOString()
+      ]);
+    } else {
+      this.updatedAt = new Date();
+      await db.run(`
+        UPDATE board_views SET name = ?, config = ?, is_shared = ?, updated_at = ? WHERE id = ?
+      `, [this.name, JSON.stringify(this.config), this.isShared ? 1 : 0, this.updatedAt.toISOString(), this.id]);
+    }
+
+    return this;
+  }
+
+  async delete() {
+    await getDatabase().run('DELETE FROM board_views WHERE id = ?', [this.id]);
+  }
+
+  static fromDatabase(row) {
+    let config;
+    try {
+      config = BoardView.normalizeConfig(JSON.parse(row.config || '{}'));
+    } catch {
+      // Settings saved by an older version fall back to the defaults
+      config = BoardView.normalizeConfig({});
+    }
+
+    return new BoardView({
+      id: row.id,
+      workspaceId: row.workspace_id,
+      userId: row.user_id,
+      ownerName: row.owner_name,
+      name: row.name,
+      config,
+      isShared: row.is_shared,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    });
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      name: this.name,
+      config: this.config,
+      isShared: this.isShared,
+      ownerId: this.userId,
+      ownerName: this.ownerName,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt
+    };
+  }
+}
+
+module.exports = BoardView;
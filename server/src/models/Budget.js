@@ -0,0 +1,465 @@
+const { v4: uuidv4 } = require('uuid');
+const { getDatabase } = require('../config/database');
+const ActivityLogger = require('./ActivityLogger');
+const BillingRate = require('./BillingRate');
+
+const ENTITY_TYPES = ['workflow', 'client'];
+const PERIODS = ['total', 'monthly'];
+const DEFAULT_THRESHOLDS = [75, 100];
+
+// Days of tracked time the forecast averages over
+const FORECAST_WINDOW_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (value) => Math.round(value * 100) / 100;
+
+const toDateString = (date) => new Date(date).toISOString().split('T')[0];
+
+const addDays = (dateString, days) =>
+  toDateString(new Date(`${dateString}T00:00:00.000Z`).getTime() + days * DAY_MS);
+
+const daysBetween = (from, to) =>
+  Math.round((new Date(`${to}T00:00:00.000Z`) - new Date(`${from}T00:00:00.000Z`)) / DAY_MS);
+
+// First and last day (UTC) of the month containing `date`
+const monthBounds = (date) => {
+  const day = new Date(date);
+  const start = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 0));
+  return { start: toDateString(start), end: toDateString(end) };
+};
+
+const parseThresholds = (value) => {
+  try {
+    const thresholds = typeof value === 'string' ? JSON.parse(value) : value;
+    return Array.isArray(thresholds) ? thresholds : DEFAULT_THRESHOLDS;
+  } catch (error) {
+    return DEFAULT_THRESHOLDS;
+  }
+};
+
+class Budget {
+  constructor(data = {}) {
+    this.id = data.id || uuidv4();
+    this.workspaceId = data.workspaceId;
+    this.entityType = data.entityType;
+    this.entityId = data.entityId;
+    this.hours = data.hours ?? null;
+    this.amount = data.amount ?? null;
+    this.currency = data.currency || 'USD';
+    this.period = data.period || (data.entityType === 'client' ? 'monthly' : 'total');
+    this.alertThresholds = data.alertThresholds || DEFAULT_THRESHOLDS;
+    this.createdBy = data.createdBy || null;
+    this.createdAt = data.createdAt || new Date();
+    this.updatedAt = data.updatedAt || new Date();
+    this.burn = data.burn || null;
+  }
+
+  static baseQuery() {
+    return `
+      SELECT b.*,
+        COALESCE(wf.name, c.name) as entity_name,
+        CASE WHEN b.entity_type = 'workflow' THEN wf.client_id ELSE b.entity_id END as client_id,
+        wf.start_date as workflow_start_date, wf.expected_end_date as workflow_expected_end_date
+      FROM budgets b
+      LEFT JOIN workflows wf ON b.entity_type = 'workflow' AND b.entity_id = wf.id
+      LEFT JOIN clients c ON b.entity_type = 'client' AND b.entity_id = c.id
+    `;
+  }
+
+  static async findAll(workspaceId, entityType = null) {
+    const db = getDatabase();
+    let query = `${Budget.baseQuery()} WHERE b.workspace_id = ?`;
+    const params = [workspaceId];
+
+    if (entityType) {
+      query += ' AND b.entity_type = ?';
+      params.push(entityType);
+    }
+
+    query += ' ORDER BY b.entity_type DESC, entity_name';
+
+    const rows = await db.all(query, params);
+    return rows.map(row => Budget.fromDatabase(row));
+  }
+
+  static async findById(id, workspaceId) {
+    const db = getDatabase();
+    const row = await db.get(
+      `${Budget.baseQuery()} WHERE b.id = ? AND b.workspace_id = ?`,
+      [id, workspaceId]
+    );
+    return row ? Budget.fromDatabase(row) : null;
+  }
+
+  static async findForEntity(workspaceId, entityType, entityId) {
+    const db = getDatabase();
+    const row = await db.get(
+      `${Budget.baseQuery()} WHERE b.workspace_id = ? AND b.entity_type = ? AND b.entity_id = ?`,
+      [workspaceId, entityType, entityId]
+    );
+    return row ? Budget.fromDatabase(row) : null;
+  }
+
+  // Window the budget is measured over: the current month for monthly budgets, otherwise all time
+  currentPeriod(now = new Date()) {
+    if (this.period === 'monthly') {
+      const { start, end } = monthBounds(now);
+      return { start, end, key: start.slice(0, 7) };
+    }
+
+    return {
+      start: this.workflowStartDate ? toDateString(this.workflowStartDate) : null,
+      end: this.workflowExpectedEndDate ? toDateString(this.workflowExpectedEndDate) : null,
+      key: ''
+    };
+  }
+
+  // Tracked (non-break) time against the budget, priced with the workspace billing rates,
+  // as a cumulative daily series plus a forecast from the recent daily average
+  async computeBurn(now = new Date()) {
+    const db = getDatabase();
+    const period = this.currentPeriod(now);
+    const today = toDateString(now);
+
+    let query = `
+      SELECT te.user_id, te.start_time, te.duration_seconds
+      FROM time_entries te
+      JOIN kanban_tasks kt ON te.task_id = kt.id
+      JOIN workflows wf ON kt.workflow_id = wf.id
+      WHERE te.workspace_id = ? AND te.status = 'completed' AND te.is_break = 0
+    `;
+    const params = [this.workspaceId];
+
+    if (this.entityType === 'workflow') {
+      query += ' AND wf.id = ?';
+    } else {
+      query += ' AND wf.client_id = ?';
+    }
+    params.push(this.entityId);
+
+    if (this.period === 'monthly') {
+      query += ' AND date(te.start_time) >= date(?) AND date(te.start_time) <= date(?)';
+      params.push(period.start, period.end);
+    }
+
+    query += ' ORDER BY te.start_time ASC';
+
+    const entries = await db.all(query, params);
+    const rates = await BillingRate.findAll(this.workspaceId, this.clientId);
+
+    const days = new Map();
+    let unpricedSeconds = 0;
+
+    for (const entry of entries) {
+      const date = toDateString(entry.start_time);
+      const seconds = entry.duration_seconds || 0;
+      const rate = BillingRate.resolve(rates, this.clientId, entry.user_id);
+      if (!rate) unpricedSeconds += seconds;
+
+      if (!days.has(date)) days.set(date, { seconds: 0, amount: 0 });
+      const day = days.get(date);
+      day.seconds += seconds;
+      day.amount += rate ? (seconds / 3600) * rate.hourlyRate : 0;
+    }
+
+    let cumulativeSeconds = 0;
+    let cumulativeAmount = 0;
+    const series = [...days.entries()].map(([date, day]) => {
+      cumulativeSeconds += day.seconds;
+      cumulativeAmount += day.amount;
+      return { date, hours: round2(cumulativeSeconds / 3600), amount: round2(cumulativeAmount) };
+    });
+
+    const usedHours = round2(cumulativeSeconds / 3600);
+    const usedAmount = round2(cumulativeAmount);
+
+    // Average daily burn over the forecast window (never earlier than the budget period start)
+    const windowStart = [addDays(today, -(FORECAST_WINDOW_DAYS - 1)), period.start, series[0]?.date]
+      .filter(Boolean)
+      .reduce((latest, date) => (date > latest ? date : latest));
+    const windowDays = Math.max(1, daysBetween(windowStart, today) + 1);
+    const recent = [...days.entries()].filter(([date]) => date >= windowStart && date <= today);
+    const dailyHours = recent.reduce((sum, [, day]) => sum + day.seconds, 0) / 3600 / windowDays;
+    const dailyAmount = recent.reduce((sum, [, day]) => sum + day.amount, 0) / windowDays;
+
+    // Exhausted budgets report the day they ran out, live ones the day they are projected to
+    const metric = (key, used, limit, daily) => {
+      if (!limit) return { used, limit: null, percent: null, remaining: null, exhaustedOn: null };
+
+      const remaining = round2(limit - used);
+      let exhaustedOn = null;
+      if (remaining <= 0) {
+        exhaustedOn = series.find(point => point[key] >= limit).date;
+      } else if (daily > 0) {
+        exhaustedOn = addDays(today, Math.ceil(remaining / daily));
+      }
+
+      return {
+        used,
+        limit,
+        percent: round2((used / limit) * 100),
+        remaining,
+        exhaustedOn
+      };
+    };
+
+    const daysLeft = period.end && period.end > today ? daysBetween(today, period.end) : 0;
+
+    this.burn = {
+      periodStart: period.start,
+      periodEnd: period.end,
+      periodKey: period.key,
+      hours: metric('hours', usedHours, this.hours, dailyHours),
+      amount: metric('amount', usedAmount, this.amount, dailyAmount),
+      unpricedHours: round2(unpricedSeconds / 3600),
+      series,
+      forecast: {
+        dailyHours: round2(dailyHours),
+        dailyAmount: round2(dailyAmount),
+        endDate: period.end,
+        projectedHours: period.end ? round2(usedHours + dailyHours * daysLeft) : null,
+        projectedAmount: period.end ? round2(usedAmount + dailyAmount * daysLeft) : null
+      }
+    };
+
+    return this.burn;
+  }
+
+  // Record every threshold the current burn has crossed; new alerts are emailed to the workspace admins
+  async checkAlerts() {
+    const db = getDatabase();
+    const burn = this.burn || await this.computeBurn();
+    const fired = [];
+
+    for (const metricName of ['hours', 'amount']) {
+      const metric = burn[metricName];
+      if (metric.percent === null) continue;
+
+      for (const threshold of this.alertThresholds) {
+        if (metric.percent < threshold) continue;
+
+        const alertId = uuidv4();
+        const result = await db.run(`
+          INSERT OR IGNORE INTO budget_alerts (id, budget_id, workspace_id, metric, threshold, period_key, burn, budget_limit)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `, [alertId, this.id, this.workspaceId, metricName, threshold, burn.periodKey, metric.used, metric.limit]);
+
+        if (result.changes > 0) {
+          fired.push({ id: alertId, metric: metricName, threshold, burn: metric.used, limit: metric.limit });
+        }
+      }
+    }
+
+    for (const alert of fired) {
+      await ActivityLogger.log('budget', this.id, 'threshold_reached', null, {
+        entityType: this.entityType,
+        entityId: this.entityId,
+        metric: alert.metric,
+        threshold: alert.threshold,
+        burn: alert.burn,
+        limit: alert.limit
+      });
+      await this.notifyAdmins(alert);
+    }
+
+    return fired;
+  }
+
+  async notifyAdmins(alert) {
+    // Lazy require: the email service pulls in mail transports we only need when an alert fires
+    const emailService = require('../services/emailService');
+    const db = getDatabase();
+    const admins = await db.all(`
+      SELECT u.email, u.name
+      FROM workspace_members wm
+      JOIN users u ON wm.user_id = u.id
+      WHERE wm.workspace_id = ? AND wm.role IN ('owner', 'admin') AND u.is_active = 1
+    `, [this.workspaceId]);
+
+    for (const admin of admins) {
+      try {
+        await emailService.sendBudgetAlertEmail(admin.email, admin.name, {
+          entityType: this.entityType,
+          entityName: this.entityName,
+          metric: alert.metric,
+          threshold: alert.threshold,
+          used: alert.burn,
+          limit: alert.limit,
+          currency: this.currency
+        });
+      } catch (error) {
+        console.error(`Failed to send budget alert to ${admin.email}:`, error.message);
+      }
+    }
+  }
+
+  // Re-check the budgets a task's time counts against (its workflow and that workflow's client)
+  static async checkForTask(taskId) {
+    if (!taskId) return [];
+
+    const db = getDatabase();
+    const task = await db.get(`
+      SELECT wf.id as workflow_id, wf.client_id, wf.workspace_id
+      FROM kanban_tasks kt
+      JOIN workflows wf ON kt.workflow_id = wf.id
+      WHERE kt.id = ?
+    `, [taskId]);
+    if (!task) return [];
+
+    const budgets = [
+      await Budget.findForEntity(task.workspace_id, 'workflow', task.workflow_id),
+      task.client_id ? await Budget.findForEntity(task.workspace_id, 'client', task.client_id) : null
+    ].filter(Boolean);
+
+    const fired = [];
+    for (const budget of budgets) {
+      await budget.computeBurn();
+      fired.push(...await budget.checkAlerts());
+    }
+    return fired;
+  }
+
+  static async findAlerts(workspaceId, { includeDismissed = false } = {}) {
+    const db = getDatabase();
+    let query = `
+      SELECT ba.*, b.entity_type, b.entity_id, b.currency, b.period,
+        COALESCE(wf.name, c.name) as entity_name
+      FROM budget_alerts ba
+      JOIN budgets b ON ba.budget_id = b.id
+      LEFT JOIN workflows wf ON b.entity_type = 'workflow' AND b.entity_id = wf.id
+      LEFT JOIN clients c ON b.entity_type = 'client' AND b.entity_id = c.id
+      WHERE ba.workspace_id = ?
+    `;
+
+    if (!includeDismissed) {
+      query += ' AND ba.dismissed_at IS NULL';
+    }
+
+    query += ' ORDER BY ba.created_at DESC';
+
+    const rows = await db.all(query, [workspaceId]);
+    return rows.map(row => ({
+      id: row.id,
+      budgetId: row.budget_id,
+      entityType: row.entity_type,
+      entityId: row.entity_id,
+      entityName: row.entity_name,
+      metric: row.metric,
+      threshold: row.threshold,
+      periodKey: row.period_key || null,
+      burn: row.burn,
+      limit: row.budget_limit,
+      currency: row.currency,
+      dismissedAt: row.dismissed_at ? new Date(row.dismissed_at) : null,
+      createdAt: new Date(row.created_at)
+    }));
+  }
+
+  static async dismissAlert(alertId, workspaceId) {
+    const db = getDatabase();
+    const result = await db.run(`
+      UPDATE budget_alerts SET dismissed_at = ?
+      WHERE id = ? AND workspace_id = ? AND dismissed_at IS NULL
+    `, [new Date().toISOString(), alertId, workspaceId]);
+    return result.changes > 0;
+  }
+
+  async save(performedBy = null) {
+    const db = getDatabase();
+    const isNew = !(await Budget.findById(this.id, this.workspaceId));
+    this.updatedAt = new Date();
+
+    if (isNew) {
+      this.createdBy = performedBy;
+      await db.run(`
+        INSERT INTO budgets (
+          id, workspace_id, entity_type, entity_id, hours, amount, currency, period,
+          alert_thresholds, created_by, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        this.id, this.workspaceId, this.entityType, this.entityId, this.hours, this.amount,
+        this.currency, this.period, JSON.stringify(this.alertThresholds), this.createdBy,
+        this.createdAt.toISOString(), this.updatedAt.toISOString()
+      ]);
+    } else {
+      await db.run(`
+        UPDATE budgets
+        SET hours = ?, amount = ?, currency = ?, period = ?, alert_thresholds = ?, updated_at = ?
+        WHERE id = ?
+      `, [
+        this.hours, this.amount, this.currency, this.period,
+        JSON.stringify(this.alertThresholds), this.updatedAt.toISOString(), this.id
+      ]);
+    }
+
+    await ActivityLogger.log('budget', this.id, isNew ? 'created' : 'updated', performedBy, {
+      entityType: this.entityType,
+      entityId: this.entityId,
+      hours: this.hours,
+      amount: this.amount,
+      period: this.period
+    });
+
+    return this;
+  }
+
+  async delete(performedBy = null) {
+    const db = getDatabase();
+    await db.run('DELETE FROM budgets WHERE id = ?', [this.id]);
+
+    await ActivityLogger.log('budget', this.id, 'deleted', performedBy, {
+      entityType: this.entityType,
+      entityId: this.entityId
+    });
+  }
+
+  static fromDatabase(row) {
+    const budget = new Budget({
+      id: row.id,
+      workspaceId: row.workspace_id,
+      entityType: row.entity_type,
+      entityId: row.entity_id,
+      hours: row.hours,
+      amount: row.amount,
+      currency: row.currency,
+      period: row.period,
+      alertThresholds: parseThresholds(row.alert_thresholds),
+      createdBy: row.created_by,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    });
+
+    budget.entityName = row.entity_name || null;
+    budget.clientId = row.client_id || null;
+    budget.workflowStartDate = row.workflow_start_date || null;
+    budget.workflowExpectedEndDate = row.workflow_expected_end_date || null;
+
+    return budget;
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      workspaceId: this.workspaceId,
+      entityType: this.entityType,
+      entityId: this.entityId,
+      entityName: this.entityName,
+      hours: this.hours,
+      amount: this.amount,
+      currency: this.currency,
+      period: this.period,
+      alertThresholds: this.alertThresholds,
+      burn: this.burn,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt
+    };
+  }
+}
+
+Budget.ENTITY_TYPES = ENTITY_TYPES;
+Budget.PERIODS = PERIODS;
+Budget.DEFAULT_THRESHOLDS = DEFAULT_THRESHOLDS;
+
+module.exports = Budget;
@@ -91,14 +91,24 @@ class Client {
     });
   }
 
-  async createDefaultWorkflow() {
+  async createDefaultWorkflow(templateId = null, workspaceId = null) {
     const Workflow = require('./Workflow');
+
+    // Prefer a saved workspace template when one is given
+    if (templateId) {
+      const WorkflowTemplate = require('./WorkflowTemplate');
+      const template = await WorkflowTemplate.findById(templateId, workspaceId);
+      if (template) {
+        return await template.instantiate({ clientId: this.id, startDate: new Date() });
+      }
+    }
     
     // Create a default workflow template for the client
     const defaultWorkflow = new Workflow({
       name: `${this.name} - Default Workflow`,
       description: `Auto-generated workflow for ${this.name} based on kanban board`,
       clientId: this.id,
+      workspaceId,
       status: 'active',
       startDate: new Date(),
       expectedEndDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000) // 30 days
@@ -155,8 +165,7 @@ class Client {
         name: stepData.name,
         description: stepData.description,
         type: stepData.type,
-        positionX: stepData.position.x,
-        positionY: stepData.position.y
+        position: stepData.position
       });
 
       await step.save();
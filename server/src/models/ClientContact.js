@@ -0,0 +1,161 @@
+const { v4: uuidv4 } = require('uuid');
+const { getDatabase } = require('../config/database');
+const ActivityLogger = require('./ActivityLogger');
+
+// Reasons an invitation is refused; routes answer these with a 400
+const INVITE_ERRORS = [
+  'This account has been deactivated',
+  'This person is already a member of the workspace',
+  'This contact has already been invited',
+  'This contact already has portal access for another client'
+];
+
+const SELECT_CONTACTS = `
+  SELECT cc.*, u.email, u.name, c.name as client_name, c.company as client_company
+  FROM client_contacts cc
+  JOIN users u ON cc.user_id = u.id
+  JOIN clients c ON cc.client_id = c.id
+`;
+
+class ClientContact {
+  constructor(data = {}) {
+    this.id = data.id || uuidv4();
+    this.clientId = data.clientId;
+    this.workspaceId = data.workspaceId;
+    this.userId = data.userId;
+    this.email = data.email;
+    this.name = data.name;
+    this.invitedBy = data.invitedBy || null;
+    this.invitedAt = data.invitedAt || new Date();
+    this.lastSeenAt = data.lastSeenAt || null;
+  }
+
+  static async findById(id) {
+    const db = getDatabase();
+    const row = await db.get(`${SELECT_CONTACTS} WHERE cc.id = ?`, [id]);
+    return row ? ClientContact.fromDatabase(row) : null;
+  }
+
+  static async findByClient(clientId, workspaceId) {
+    const db = getDatabase();
+    const rows = await db.all(
+      `${SELECT_CONTACTS} WHERE cc.client_id = ? AND cc.workspace_id = ? ORDER BY cc.invited_at ASC`,
+      [clientId, workspaceId]
+    );
+    return rows.map(row => ClientContact.fromDatabase(row));
+  }
+
+  // The portal access of a user in a workspace; a guest is the contact of exactly one client there
+  static async findForUser(userId, workspaceId) {
+    const db = getDatabase();
+    const row = await db.get(`${SELECT_CONTACTS} WHERE cc.user_id = ? AND cc.workspace_id = ?`, [userId, workspaceId]);
+    return row ? ClientContact.fromDatabase(row) : null;
+  }
+
+  /**
+   * Give a client contact portal access. People without an account get a passwordless
+   * one (they sign in with a magic link) and join the workspace as client_guest.
+   * @throws {Error} with one of INVITE_ERRORS when the person cannot be invited
+   */
+  static async invite({ client, workspaceId, email, name = null, invitedBy = null }) {
+    // Lazy requires: User and Workspace are only needed when inviting
+    const User = require('./User');
+    const Workspace = require('./Workspace');
+
+    // findByEmail skips deactivated accounts, which still own their email address
+    let user = await User.findByEmail(email);
+    if (!user) {
+      const deactivated = await getDatabase().get('SELECT id FROM users WHERE email = ?', [email.toLowerCase()]);
+      if (deactivated) {
+        throw new Error(INVITE_ERRORS[0]);
+      }
+      user = await new User({ email, name: name || client.name }).save();
+    }
+
+    const role = await Workspace.getUserRole(user.id, workspaceId);
+    if (role && role !== 'client_guest') {
+      throw new Error(INVITE_ERRORS[1]);
+    }
+
+    const existing = await ClientContact.findForUser(user.id, workspaceId);
+    if (existing) {
+      throw new Error(existing.clientId === client.id ? INVITE_ERRORS[2] : INVITE_ERRORS[3]);
+    }
+
+    if (!role) {
+      const workspace = await Workspace.findById(workspaceId);
+      await workspace.addMember(user.id, 'client_guest', invitedBy);
+    }
+
+    const contact = new ClientContact({ clientId: client.id, workspaceId, userId: user.id, invitedBy });
+    await getDatabase().run(`
+      INSERT INTO client_contacts (id, client_id, workspace_id, user_id, invited_by, invited_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `, [contact.id, contact.clientId, workspaceId, user.id, invitedBy, contact.invitedAt.toISOString()]);
+
+    await ActivityLogger.log('client', client.id, 'portal_contact_invited', invitedBy, { email: user.email });
+
+    return await ClientContact.findById(contact.id);
+  }
+
+  // Remove portal access, including the guest membership of the workspace
+  async revoke(performedBy = null) {
+    const db = getDatabase();
+    await db.run('DELETE FROM client_contacts WHERE id = ?', [this.id]);
+    await db.run(
+      "DELETE FROM workspace_members WHERE user_id = ? AND workspace_id = ? AND role = 'client_guest'",
+      [this.userId, this.workspaceId]
+    );
+
+    await ActivityLogger.log('client', this.clientId, 'portal_contact_revoked', performedBy, { email: this.email });
+  }
+
+  async markSeen() {
+    this.lastSeenAt = new Date();
+    await getDatabase().run(
+      'UPDATE client_contacts SET last_seen_at = ? WHERE id = ?',
+      [this.lastSeenAt.toISOString(), this.id]
+    );
+  }
+
+  static fromDatabase(row) {
+    const contact = new ClientContact({
+      id: row.id,
+      clientId: row.client_id,
+      workspaceId: row.workspace_id,
+      userId: row.user_id,
+      email: row.email,
+      name: row.name,
+      invitedBy: row.invited_by,
+      invitedAt: new Date(row.invited_at),
+      lastSeenAt: row.last_seen_at ? new Date(row.last_seen_at) : null
+    });
+
+    if (row.client_name) {
+      contact.client = {
+        name: row.client_name,
+        company: row.client_company
+      };
+    }
+
+    return contact;
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      clientId: this.clientId,
+      userId: this.userId,
+      email: this.email,
+      name: this.name,
+      status: this.lastSeenAt ? 'active' : 'invited',
+      invitedAt: this.invitedAt,
+      lastSeenAt: this.lastSeenAt,
+      client: this.client
+    };
+  }
+}
+
+ClientContact.INVITE_ERRORS = INVITE_ERRORS;
+
+module.exports = ClientContact;
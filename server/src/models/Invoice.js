@@ -0,0 +1,422 @@
+const { v4: uuidv4 } = require('uuid');
+const { getDatabase } = require('../config/database');
+const ActivityLogger = require('./ActivityLogger');
+const BillingRate = require('./BillingRate');
+
+const INVOICE_STATUSES = ['draft', 'sent', 'paid', 'void'];
+
+// Allowed status changes; paid and void invoices are final
+const STATUS_TRANSITIONS = {
+  draft: ['sent', 'void'],
+  sent: ['paid', 'void'],
+  paid: [],
+  void: []
+};
+
+const round2 = value => Math.round(value * 100) / 100;
+
+const formatNumber = sequence => `INV-${String(sequence).padStart(5, '0')}`;
+
+class Invoice {
+  constructor(data = {}) {
+    this.id = data.id || uuidv4();
+    this.workspaceId = data.workspaceId;
+    this.clientId = data.clientId;
+    this.sequence = data.sequence;
+    this.number = data.number;
+    this.status = data.status || 'draft';
+    this.periodStart = data.periodStart;
+    this.periodEnd = data.periodEnd;
+    this.issueDate = data.issueDate;
+    this.dueDate = data.dueDate || null;
+    this.currency = data.currency || 'USD';
+    this.subtotal = data.subtotal || 0;
+    this.taxRate = data.taxRate || 0;
+    this.taxAmount = data.taxAmount || 0;
+    this.total = data.total || 0;
+    this.notes = data.notes || null;
+    this.createdBy = data.createdBy;
+    this.sentAt = data.sentAt || null;
+    this.paidAt = data.paidAt || null;
+    this.voidedAt = data.voidedAt || null;
+    this.lineItems = data.lineItems || [];
+    this.createdAt = data.createdAt || new Date();
+    this.updatedAt = data.updatedAt || new Date();
+  }
+
+  static async findAll(workspaceId, { clientId, status } = {}) {
+    const db = getDatabase();
+    let query = `
+      SELECT i.*, c.name as client_name, c.company as client_company
+      FROM invoices i
+      JOIN clients c ON i.client_id = c.id
+      WHERE i.workspace_id = ?
+    `;
+    const params = [workspaceId];
+
+    if (clientId) {
+      query += ' AND i.client_id = ?';
+      params.push(clientId);
+    }
+
+    if (status) {
+      query += ' AND i.status = ?';
+      params.push(status);
+    }
+
+    query += ' ORDER BY i.sequence DESC';
+
+    const rows = await db.all(query, params);
+    return rows.map(row => Invoice.fromDatabase(row));
+  }
+
+  static async findById(id, workspaceId) {
+    const db = getDatabase();
+    const row = await db.get(`
+      SELECT i.*, c.name as client_name, c.company as client_company, c.email as client_email,
+        w.name as workspace_name
+      FROM invoices i
+      JOIN clients c ON i.client_id = c.id
+      JOIN workspaces w ON i.workspace_id = w.id
+      WHERE i.id = ? AND i.workspace_id = ?
+    `, [id, workspaceId]);
+    if (!row) return null;
+
+    const invoice = Invoice.fromDatabase(row);
+    invoice.lineItems = await invoice.getLineItems();
+    return invoice;
+  }
+
+  async getLineItems() {
+    const db = getDatabase();
+    const rows = await db.all(`
+      SELECT * FROM invoice_line_items
+      WHERE invoice_id = ?
+      ORDER BY order_index ASC
+    `, [this.id]);
+    return rows.map(row => Invoice.lineItemFromDatabase(row));
+  }
+
+  // Uninvoiced billable time for a client in a date range, priced and grouped into line items.
+  // Entries are grouped per task and rate, so members billed at different rates get separate lines.
+  static async collectBillable(workspaceId, clientId, periodStart, periodEnd) {
+    const db = getDatabase();
+    const entries = await db.all(`
+      SELECT te.id, te.user_id, te.task_id, te.duration_seconds,
+        u.name as user_name, kt.title as task_title, wf.id as workflow_id, wf.name as workflow_name
+      FROM time_entries te
+      JOIN kanban_tasks kt ON te.task_id = kt.id
+      JOIN workflows wf ON kt.workflow_id = wf.id
+      JOIN time_categories tc ON te.category_id = tc.id
+      LEFT JOIN users u ON te.user_id = u.id
+      WHERE te.workspace_id = ? AND wf.client_id = ?
+        AND tc.is_billable = 1 AND te.is_break = 0 AND te.status = 'completed'
+        AND te.invoice_id IS NULL
+        AND date(te.start_time) >= date(?) AND date(te.start_time) <= date(?)
+      ORDER BY wf.name, kt.title, te.start_time
+    `, [workspaceId, clientId, periodStart, periodEnd]);
+
+    const rates = await BillingRate.findAll(workspaceId, clientId);
+    const groups = new Map();
+    const missingRates = new Map();
+    const currencies = new Set();
+
+    for (const entry of entries) {
+      const rate = BillingRate.resolve(rates, clientId, entry.user_id);
+      if (!rate) {
+        missingRates.set(entry.user_id, { userId: entry.user_id, userName: entry.user_name });
+        continue;
+      }
+      currencies.add(rate.currency);
+
+      const key = `${entry.task_id}:${rate.id}`;
+      if (!groups.has(key)) {
+        groups.set(key, {
+          workflowId: entry.workflow_id,
+          workflowName: entry.workflow_name,
+          taskId: entry.task_id,
+          taskTitle: entry.task_title,
+          description: rate.userId ? `${entry.task_title} (${entry.user_name})` : entry.task_title,
+          rate: rate.hourlyRate,
+          seconds: 0,
+          entryIds: []
+        });
+      }
+
+      const group = groups.get(key);
+      group.seconds += entry.duration_seconds || 0;
+      group.entryIds.push(entry.id);
+    }
+
+    const lineItems = [...groups.values()].map((group, index) => {
+      const hours = round2(group.seconds / 3600);
+      return {
+        workflowId: group.workflowId,
+        workflowName: group.workflowName,
+        taskId: group.taskId,
+        taskTitle: group.taskTitle,
+        description: group.description,
+        hours,
+        rate: group.rate,
+        amount: round2(hours * group.rate),
+        orderIndex: index,
+        entryIds: group.entryIds
+      };
+    });
+
+    return {
+      lineItems,
+      entryIds: lineItems.flatMap(item => item.entryIds),
+      subtotal: round2(lineItems.reduce((sum, item) => sum + item.amount, 0)),
+      currencies: [...currencies],
+      missingRates: [...missingRates.values()]
+    };
+  }
+
+  // Create a draft invoice from collected billable time and lock the entries it bills
+  static async generate(billable, options, performedBy = null) {
+    const db = getDatabase();
+    const { workspaceId, clientId, periodStart, periodEnd, dueDate, taxRate = 0, notes } = options;
+
+    const taxAmount = round2(billable.subtotal * taxRate / 100);
+    const invoice = new Invoice({
+      workspaceId,
+      clientId,
+      periodStart,
+      periodEnd,
+      issueDate: new Date().toISOString().split('T')[0],
+      dueDate,
+      currency: billable.currencies[0],
+      subtotal: billable.subtotal,
+      taxRate,
+      taxAmount,
+      total: round2(billable.subtotal + taxAmount),
+      notes,
+      createdBy: performedBy,
+      lineItems: billable.lineItems.map(item => ({
+        id: uuidv4(),
+        workflowId: item.workflowId,
+        workflowName: item.workflowName,
+        taskId: item.taskId,
+        taskTitle: item.taskTitle,
+        description: item.description,
+        hours: item.hours,
+        rate: item.rate,
+        amount: item.amount,
+        orderIndex: item.orderIndex
+      }))
+    });
+
+    await db.transaction(async () => {
+      const last = await db.get(
+        'SELECT MAX(sequence) as sequence FROM invoices WHERE workspace_id = ?',
+        [workspaceId]
+      );
+      invoice.sequence = (last?.sequence || 0) + 1;
+      invoice.number = formatNumber(invoice.sequence);
+
+      await invoice.insert();
+
+      // Only claim entries that are still free – anything else means another invoice got there first
+      const placeholders = billable.entryIds.map(() => '?').join(', ');
+      const claimed = await db.run(`
+        UPDATE time_entries SET invoice_id = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id IN (${placeholders}) AND invoice_id IS NULL
+      `, [invoice.id, ...billable.entryIds]);
+
+      if (claimed.changes !== billable.entryIds.length) {
+        throw new Error('Time entries were invoiced by another request');
+      }
+    });
+
+    await ActivityLogger.log('invoice', invoice.id, 'created', performedBy, {
+      number: invoice.number,
+      clientId,
+      total: invoice.total,
+      entries: billable.entryIds.length
+    });
+
+    return invoice;
+  }
+
+  async insert() {
+    const db = getDatabase();
+
+    await db.run(`
+      INSERT INTO invoices (
+        id, workspace_id, client_id, sequence, number, status, period_start, period_end,
+        issue_date, due_date, currency, subtotal, tax_rate, tax_amount, total, notes,
+        created_by, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      this.id, this.workspaceId, this.clientId, this.sequence, this.number, this.status,
+      this.periodStart, this.periodEnd, this.issueDate, this.dueDate, this.currency,
+      this.subtotal, this.taxRate, this.taxAmount, this.total, this.notes,
+      this.createdBy, this.createdAt.toISOString(), this.updatedAt.toISOString()
+    ]);
+
+    for (const item of this.lineItems) {
+      await db.run(`
+        INSERT INTO invoice_line_items (
+          id, invoice_id, workflow_id, workflow_name, task_id, task_title, description,
+          hours, rate, amount, order_index
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        item.id, this.id, item.workflowId, item.workflowName, item.taskId, item.taskTitle,
+        item.description, item.hours, item.rate, item.amount, item.orderIndex
+      ]);
+    }
+  }
+
+  static canTransition(from, to) {
+    return (STATUS_TRANSITIONS[from] || []).includes(to);
+  }
+
+  async updateStatus(status, performedBy = null) {
+    const db = getDatabase();
+    const previousStatus = this.status;
+    const now = new Date();
+
+    this.status = status;
+    this.updatedAt = now;
+    if (status === 'sent') this.sentAt = now;
+    if (status === 'paid') this.paidAt = now;
+    if (status === 'void') this.voidedAt = now;
+
+    await db.transaction(async () => {
+      await db.run(`
+        UPDATE invoices SET status = ?, sent_at = ?, paid_at = ?, voided_at = ?, updated_at = ?
+        WHERE id = ?
+      `, [
+        this.status,
+        this.sentAt ? new Date(this.sentAt).toISOString() : null,
+        this.paidAt ? new Date(this.paidAt).toISOString() : null,
+        this.voidedAt ? new Date(this.voidedAt).toISOString() : null,
+        this.updatedAt.toISOString(),
+        this.id
+      ]);
+
+      // A voided invoice gives its time back so it can be billed again
+      if (status === 'void') {
+        await this.releaseEntries();
+      }
+    });
+
+    await ActivityLogger.log('invoice', this.id, 'status_changed', performedBy, {
+      number: this.number,
+      from: previousStatus,
+      to: status
+    });
+
+    return this;
+  }
+
+  async releaseEntries() {
+    const db = getDatabase();
+    await db.run(
+      'UPDATE time_entries SET invoice_id = NULL, updated_at = CURRENT_TIMESTAMP WHERE invoice_id = ?',
+      [this.id]
+    );
+  }
+
+  // Only drafts can be deleted; issued invoices must be voided to keep numbering intact
+  async delete(performedBy = null) {
+    const db = getDatabase();
+
+    await db.transaction(async () => {
+      await this.releaseEntries();
+      await db.run('DELETE FROM invoices WHERE id = ?', [this.id]);
+    });
+
+    await ActivityLogger.log('invoice', this.id, 'deleted', performedBy, {
+      number: this.number,
+      clientId: this.clientId
+    });
+  }
+
+  static lineItemFromDatabase(row) {
+    return {
+      id: row.id,
+      workflowId: row.workflow_id,
+      workflowName: row.workflow_name,
+      taskId: row.task_id,
+      taskTitle: row.task_title,
+      description: row.description,
+      hours: row.hours,
+      rate: row.rate,
+      amount: row.amount,
+      orderIndex: row.order_index
+    };
+  }
+
+  static fromDatabase(row) {
+    const invoice = new Invoice({
+      id: row.id,
+      workspaceId: row.workspace_id,
+      clientId: row.client_id,
+      sequence: row.sequence,
+      number: row.number,
+      status: row.status,
+      periodStart: row.period_start,
+      periodEnd: row.period_end,
+      issueDate: row.issue_date,
+      dueDate: row.due_date,
+      currency: row.currency,
+      subtotal: row.subtotal,
+      taxRate: row.tax_rate,
+      taxAmount: row.tax_amount,
+      total: row.total,
+      notes: row.notes,
+      createdBy: row.created_by,
+      sentAt: row.sent_at ? new Date(row.sent_at) : null,
+      paidAt: row.paid_at ? new Date(row.paid_at) : null,
+      voidedAt: row.voided_at ? new Date(row.voided_at) : null,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    });
+
+    if (row.client_name) {
+      invoice.client = {
+        name: row.client_name,
+        company: row.client_company,
+        email: row.client_email
+      };
+    }
+    invoice.workspaceName = row.workspace_name;
+
+    return invoice;
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      workspaceId: this.workspaceId,
+      workspaceName: this.workspaceName,
+      clientId: this.clientId,
+      client: this.client,
+      number: this.number,
+      status: this.status,
+      periodStart: this.periodStart,
+      periodEnd: this.periodEnd,
+      issueDate: this.issueDate,
+      dueDate: this.dueDate,
+      currency: this.currency,
+      subtotal: this.subtotal,
+      taxRate: this.taxRate,
+      taxAmount: this.taxAmount,
+      total: this.total,
+      notes: this.notes,
+      createdBy: this.createdBy,
+      sentAt: this.sentAt,
+      paidAt: this.paidAt,
+      voidedAt: this.voidedAt,
+      lineItems: this.lineItems,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt
+    };
+  }
+}
+
+Invoice.STATUSES = INVOICE_STATUSES;
+
+module.exports = Invoice;
@@ -8,76 +8,134 @@ class KanbanTask {
     this.title = data.title;
     this.description = data.description;
     this.workflowId = data.workflowId;
+    this.workspaceId = data.workspaceId;
     this.stepId = data.stepId;
     this.priority = data.priority || 'medium';
     this.status = data.status;
     this.tags = data.tags || [];
+    this.startDate = data.startDate;
     this.dueDate = data.dueDate;
+    this.estimatedHours = data.estimatedHours;
+    this.actualHours = data.actualHours;
+    this.commentCount = data.commentCount || 0;
+    this.clientVisible = data.clientVisible || false;
+    this.clientApproval = data.clientApproval || null; // { status, comment, requestedBy, decidedBy, updatedAt }
+    this.recurringTaskId = data.recurringTaskId || null; // the recurring task that created it
     this.createdAt = data.createdAt || new Date();
     this.updatedAt = data.updatedAt || new Date();
   }
 
-  static async findAll() {
+  // With a workspaceId, only tasks of that workspace; tasks without a workspace_id belong to their workflow's
+  static async findAll(workspaceId = null) {
     const db = getDatabase();
-    const rows = await db.all(`
-      SELECT kt.*, w.name as workflow_name, c.name as client_name, c.company as client_company
+    let query = `
+      SELECT kt.*, w.name as workflow_name, c.name as client_name, c.company as client_company,
+        (SELECT COUNT(*) FROM task_comments tc WHERE tc.task_id = kt.id AND tc.deleted_at IS NULL) as comment_count
       FROM kanban_tasks kt
       LEFT JOIN workflows w ON kt.workflow_id = w.id
       LEFT JOIN clients c ON w.client_id = c.id
-      ORDER BY kt.created_at DESC
-    `);
+    `;
+    let params = [];
+
+    if (workspaceId) {
+      query += ' WHERE COALESCE(kt.workspace_id, w.workspace_id) = ?';
+      params.push(workspaceId);
+    }
+
+    query += ' ORDER BY kt.created_at DESC';
+
+    const rows = await db.all(query, params);
     return rows.map(row => KanbanTask.fromDatabase(row));
   }
 
-  static async findById(id) {
+  static async findById(id, workspaceId = null) {
     const db = getDatabase();
-    const row = await db.get(`
-      SELECT kt.*, w.name as workflow_name, c.name as client_name, c.company as client_company
+    let query = `
+      SELECT kt.*, w.name as workflow_name, c.name as client_name, c.company as client_company,
+        (SELECT COUNT(*) FROM task_comments tc WHERE tc.task_id = kt.id AND tc.deleted_at IS NULL) as comment_count
       FROM kanban_tasks kt
       LEFT JOIN workflows w ON kt.workflow_id = w.id
       LEFT JOIN clients c ON w.client_id = c.id
       WHERE kt.id = ?
-    `, [id]);
+    `;
+    let params = [id];
+
+    if (workspaceId) {
+      query += ' AND COALESCE(kt.workspace_id, w.workspace_id) = ?';
+      params.push(workspaceId);
+    }
+
+    const row = await db.get(query, params);
     return row ? KanbanTask.fromDatabase(row) : null;
   }
 
-  static async findByStatus(status) {
+  static async findByStatus(status, workspaceId = null) {
     const db = getDatabase();
-    const rows = await db.all(`
-      SELECT kt.*, w.name as workflow_name, c.name as client_name, c.company as client_company
+    let query = `
+      SELECT kt.*, w.name as workflow_name, c.name as client_name, c.company as client_company,
+        (SELECT COUNT(*) FROM task_comments tc WHERE tc.task_id = kt.id AND tc.deleted_at IS NULL) as comment_count
       FROM kanban_tasks kt
       LEFT JOIN workflows w ON kt.workflow_id = w.id
       LEFT JOIN clients c ON w.client_id = c.id
       WHERE kt.status = ?
-      ORDER BY kt.created_at DESC
-    `, [status]);
+    `;
+    let params = [status];
+
+    if (workspaceId) {
+      query += ' AND COALESCE(kt.workspace_id, w.workspace_id) = ?';
+      params.push(workspaceId);
+    }
+
+    query += ' ORDER BY kt.created_at DESC';
+
+    const rows = await db.all(query, params);
     return rows.map(row => KanbanTask.fromDatabase(row));
   }
 
-  static async findByWorkflowId(workflowId) {
+  static async findByWorkflowId(workflowId, workspaceId = null) {
     const db = getDatabase();
-    const rows = await db.all(`
-      SELECT kt.*, w.name as workflow_name, c.name as client_name, c.company as client_company
+    let query = `
+      SELECT kt.*, w.name as workflow_name, c.name as client_name, c.company as client_company,
+        (SELECT COUNT(*) FROM task_comments tc WHERE tc.task_id = kt.id AND tc.deleted_at IS NULL) as comment_count
       FROM kanban_tasks kt
       LEFT JOIN workflows w ON kt.workflow_id = w.id
       LEFT JOIN clients c ON w.client_id = c.id
       WHERE kt.workflow_id = ?
-      ORDER BY kt.created_at DESC
-    `, [workflowId]);
+    `;
+    let params = [workflowId];
+
+    if (workspaceId) {
+      query += ' AND COALESCE(kt.workspace_id, w.workspace_id) = ?';
+      params.push(workspaceId);
+    }
+
+    query += ' ORDER BY kt.created_at DESC';
+
+    const rows = await db.all(query, params);
     return rows.map(row => KanbanTask.fromDatabase(row));
   }
 
-  static async findOverdue() {
+  static async findOverdue(workspaceId = null) {
     const db = getDatabase();
     const now = new Date().toISOString();
-    const rows = await db.all(`
-      SELECT kt.*, w.name as workflow_name, c.name as client_name, c.company as client_company
+    let query = `
+      SELECT kt.*, w.name as workflow_name, c.name as client_name, c.company as client_company,
+        (SELECT COUNT(*) FROM task_comments tc WHERE tc.task_id = kt.id AND tc.deleted_at IS NULL) as comment_count
       FROM kanban_tasks kt
       LEFT JOIN workflows w ON kt.workflow_id = w.id
       LEFT JOIN clients c ON w.client_id = c.id
       WHERE kt.due_date < ? AND kt.status != 'done'
-      ORDER BY kt.due_date ASC
-    `, [now]);
+    `;
+    let params = [now];
+
+    if (workspaceId) {
+      query += ' AND COALESCE(kt.workspace_id, w.workspace_id) = ?';
+      params.push(workspaceId);
+    }
+
+    query += ' ORDER BY kt.due_date ASC';
+
+    const rows = await db.all(query, params);
     return rows.map(row => KanbanTask.fromDatabase(row));
   }
 
@@ -90,13 +148,14 @@ class KanbanTask {
     if (isNew) {
       await db.run(`
         INSERT INTO kanban_tasks (
-          id, title, description, workflow_id, step_id, priority, status,
-          tags, due_date, created_at, updated_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          id, title, description, workflow_id, workspace_id, step_id, priority, status,
+          tags, start_date, due_date, estimated_hours, actual_hours, recurring_task_id, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `, [
-        this.id, this.title, this.description, this.workflowId, this.stepId,
-        this.priority, this.status, tagsJson, 
-        this.dueDate?.toISOString(), this.createdAt.toISOString(), this.updatedAt.toISOString()
+        this.id, this.title, this.description, this.workflowId, this.workspaceId, this.stepId,
+        this.priority, this.status, tagsJson, this.startDate?.toISOString(),
+        this.dueDate?.toISOString(), this.estimatedHours ?? null, this.actualHours ?? null,
+        this.recurringTaskId, this.createdAt.toISOString(), this.updatedAt.toISOString()
       ]);
 
       await ActivityLogger.log('kanban_task', this.id, 'created', performedBy, {
@@ -109,11 +168,12 @@ class KanbanTask {
       await db.run(`
         UPDATE kanban_tasks 
         SET title = ?, description = ?, workflow_id = ?, step_id = ?, priority = ?,
-            status = ?, tags = ?, due_date = ?, updated_at = ?
+            status = ?, tags = ?, start_date = ?, due_date = ?, estimated_hours = ?, actual_hours = ?, updated_at = ?
         WHERE id = ?
       `, [
         this.title, this.description, this.workflowId, this.stepId, this.priority,
-        this.status, tagsJson, this.dueDate?.toISOString(), this.updatedAt.toISOString(), this.id
+        this.status, tagsJson, this.startDate?.toISOString(), this.dueDate?.toISOString(),
+        this.estimatedHours ?? null, this.actualHours ?? null, this.updatedAt.toISOString(), this.id
       ]);
 
       await ActivityLogger.log('kanban_task', this.id, 'updated', performedBy, {
@@ -154,11 +214,11 @@ class KanbanTask {
   async getAssignedMembers() {
     const db = getDatabase();
     return await db.all(`
-      SELECT tm.*, ta.created_at as assigned_at
-      FROM team_members tm
-      JOIN task_assignments ta ON tm.id = ta.member_id
+      SELECT u.id, u.name, u.email, u.role, ta.created_at as assigned_at
+      FROM users u
+      JOIN task_assignments ta ON u.id = ta.member_id
       WHERE ta.task_id = ?
-      ORDER BY tm.name
+      ORDER BY u.name
     `, [this.id]);
   }
 
@@ -174,6 +234,49 @@ class KanbanTask {
     });
   }
 
+  // Show the task in the client portal, or hide it again
+  async setClientVisible(visible, performedBy = null) {
+    this.clientVisible = Boolean(visible);
+    await getDatabase().run('UPDATE kanban_tasks SET client_visible = ? WHERE id = ?', [this.clientVisible ? 1 : 0, this.id]);
+
+    await ActivityLogger.log('kanban_task', this.id, this.clientVisible ? 'shared_with_client' : 'hidden_from_client', performedBy, {
+      title: this.title
+    });
+  }
+
+  // Ask the client to sign off the task as a deliverable; asking again clears an earlier decision
+  async requestClientApproval(performedBy) {
+    const now = new Date();
+    this.clientVisible = true;
+    this.clientApproval = { status: 'pending', comment: null, requestedBy: performedBy, decidedBy: null, updatedAt: now };
+
+    await getDatabase().run(`
+      UPDATE kanban_tasks
+      SET client_visible = 1, client_approval_status = 'pending', client_approval_comment = NULL,
+          client_approval_requested_by = ?, client_approval_decided_by = NULL, client_approval_updated_at = ?
+      WHERE id = ?
+    `, [performedBy, now.toISOString(), this.id]);
+
+    await ActivityLogger.log('kanban_task', this.id, 'client_approval_requested', performedBy, { title: this.title });
+  }
+
+  // The client's answer: 'approved' or 'changes_requested', with an optional comment
+  async recordClientDecision(status, comment, decidedBy) {
+    const now = new Date();
+    this.clientApproval = { ...this.clientApproval, status, comment: comment || null, decidedBy, updatedAt: now };
+
+    await getDatabase().run(`
+      UPDATE kanban_tasks
+      SET client_approval_status = ?, client_approval_comment = ?, client_approval_decided_by = ?, client_approval_updated_at = ?
+      WHERE id = ?
+    `, [status, this.clientApproval.comment, decidedBy, now.toISOString(), this.id]);
+
+    await ActivityLogger.log('kanban_task', this.id, `client_${status}`, decidedBy, {
+      title: this.title,
+      comment: this.clientApproval.comment
+    });
+  }
+
   isOverdue() {
     return this.dueDate && new Date() > this.dueDate && this.status !== 'done';
   }
@@ -184,11 +287,25 @@ class KanbanTask {
       title: row.title,
       description: row.description,
       workflowId: row.workflow_id,
+      workspaceId: row.workspace_id,
       stepId: row.step_id,
       priority: row.priority,
       status: row.status,
       tags: JSON.parse(row.tags || '[]'),
+      startDate: row.start_date ? new Date(row.start_date) : null,
       dueDate: row.due_date ? new Date(row.due_date) : null,
+      estimatedHours: row.estimated_hours,
+      actualHours: row.actual_hours,
+      commentCount: row.comment_count,
+      clientVisible: Boolean(row.client_visible),
+      clientApproval: row.client_approval_status ? {
+        status: row.client_approval_status,
+        comment: row.client_approval_comment,
+        requestedBy: row.client_approval_requested_by,
+        decidedBy: row.client_approval_decided_by,
+        updatedAt: row.client_approval_updated_at ? new Date(row.client_approval_updated_at) : null
+      } : null,
+      recurringTaskId: row.recurring_task_id,
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at)
     });
@@ -219,7 +336,14 @@ class KanbanTask {
       priority: this.priority,
       status: this.status,
       tags: this.tags,
+      startDate: this.startDate,
       dueDate: this.dueDate,
+      estimatedHours: this.estimatedHours,
+      actualHours: this.actualHours,
+      commentCount: this.commentCount,
+      clientVisible: this.clientVisible,
+      clientApproval: this.clientApproval,
+      recurringTaskId: this.recurringTaskId,
       createdAt: this.createdAt,
       updatedAt: this.updatedAt,
       workflow: this.workflow,
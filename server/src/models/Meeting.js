@@ -1,6 +1,7 @@
 const { v4: uuidv4 } = require('uuid');
 const { getDatabase } = require('../config/database');
 const ActivityLogger = require('./ActivityLogger');
+const recurrence = require('../services/recurrence');
 
 class Meeting {
   constructor(data = {}) {
@@ -14,6 +15,9 @@ class Meeting {
     this.meetingType = data.meetingType || 'in-person';
     this.status = data.status || 'scheduled';
     this.notes = data.notes;
+    this.recurrenceRule = data.recurrenceRule || null; // RFC 5545 RRULE; meetingDate is the first occurrence
+    this.recurrenceExceptions = data.recurrenceExceptions || []; // ISO starts of cancelled occurrences
+    this.occurrenceDate = data.occurrenceDate || null; // set on the occurrences of a recurring meeting
     this.createdAt = data.createdAt || new Date();
     this.updatedAt = data.updatedAt || new Date();
   }
@@ -53,32 +57,73 @@ class Meeting {
   }
 
   static async findUpcoming(days = 7) {
-    const db = getDatabase();
-    const futureDate = new Date();
+    const now = new Date();
+    const futureDate = new Date(now);
     futureDate.setDate(futureDate.getDate() + days);
-    
+
+    const meetings = await Meeting.findByDateRange(now, futureDate);
+    return meetings.filter(meeting => meeting.status === 'scheduled');
+  }
+
+  // Meetings in the range, with recurring meetings expanded into their occurrences
+  static async findByDateRange(startDate, endDate, { clientId = null } = {}) {
+    const db = getDatabase();
+    const clientFilter = clientId ? ' AND cm.client_id = ?' : '';
+    const clientParams = clientId ? [clientId] : [];
+
     const rows = await db.all(`
       SELECT cm.*, c.name as client_name, c.company as client_company
       FROM client_meetings cm
       LEFT JOIN clients c ON cm.client_id = c.id
-      WHERE cm.meeting_date BETWEEN ? AND ? AND cm.status = 'scheduled'
+      WHERE cm.recurrence_rule IS NULL AND cm.meeting_date BETWEEN ? AND ?${clientFilter}
       ORDER BY cm.meeting_date ASC
-    `, [new Date().toISOString(), futureDate.toISOString()]);
-    
-    return rows.map(row => Meeting.fromDatabase(row));
-  }
+    `, [startDate.toISOString(), endDate.toISOString(), ...clientParams]);
 
-  static async findByDateRange(startDate, endDate) {
-    const db = getDatabase();
-    const rows = await db.all(`
+    const seriesRows = await db.all(`
       SELECT cm.*, c.name as client_name, c.company as client_company
       FROM client_meetings cm
       LEFT JOIN clients c ON cm.client_id = c.id
-      WHERE cm.meeting_date BETWEEN ? AND ?
-      ORDER BY cm.meeting_date ASC
-    `, [startDate.toISOString(), endDate.toISOString()]);
-    
-    return rows.map(row => Meeting.fromDatabase(row));
+      WHERE cm.recurrence_rule IS NOT NULL AND cm.meeting_date <= ?${clientFilter}
+    `, [endDate.toISOString(), ...clientParams]);
+
+    const meetings = rows.map(row => Meeting.fromDatabase(row));
+    for (const series of seriesRows.map(row => Meeting.fromDatabase(row))) {
+      meetings.push(...series.occurrencesBetween(startDate, endDate));
+    }
+
+    return meetings.sort((a, b) => a.meetingDate - b.meetingDate);
+  }
+
+  // Copies of a recurring meeting for each of its occurrences starting in [from, to]
+  occurrencesBetween(from, to) {
+    if (!this.recurrenceRule) {
+      return this.meetingDate >= from && this.meetingDate <= to ? [this] : [];
+    }
+
+    return recurrence.expand(this.recurrenceRule, this.meetingDate, { from, to, exceptions: this.recurrenceExceptions })
+      .map(date => {
+        const occurrence = new Meeting({ ...this, meetingDate: date, occurrenceDate: date });
+        occurrence.client = this.client;
+        return occurrence;
+      });
+  }
+
+  // Cancel a single occurrence of a recurring meeting
+  async skipOccurrence(occurrenceDate, performedBy = null) {
+    this.recurrenceExceptions = [...this.recurrenceExceptions, new Date(occurrenceDate).toISOString()];
+    await this.save(performedBy);
+  }
+
+  // End a recurring meeting before one of its occurrences; deletes it when that is the first one
+  async endBefore(occurrenceDate, performedBy = null) {
+    const { before } = recurrence.splitAt(this.recurrenceRule, this.meetingDate, occurrenceDate);
+    if (!before) {
+      await this.delete(performedBy);
+      return;
+    }
+
+    this.recurrenceRule = before;
+    await this.save(performedBy);
   }
 
   async save(performedBy = null) {
@@ -89,12 +134,13 @@ class Meeting {
       await db.run(`
         INSERT INTO client_meetings (
           id, client_id, title, description, meeting_date, duration_minutes,
-          location, meeting_type, status, notes, created_at, updated_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          location, meeting_type, status, notes, recurrence_rule, recurrence_exceptions, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `, [
         this.id, this.clientId, this.title, this.description,
         this.meetingDate.toISOString(), this.durationMinutes,
         this.location, this.meetingType, this.status, this.notes,
+        this.recurrenceRule, JSON.stringify(this.recurrenceExceptions),
         this.createdAt.toISOString(), this.updatedAt.toISOString()
       ]);
 
@@ -110,12 +156,13 @@ class Meeting {
         UPDATE client_meetings 
         SET client_id = ?, title = ?, description = ?, meeting_date = ?,
             duration_minutes = ?, location = ?, meeting_type = ?, status = ?,
-            notes = ?, updated_at = ?
+            notes = ?, recurrence_rule = ?, recurrence_exceptions = ?, updated_at = ?
         WHERE id = ?
       `, [
         this.clientId, this.title, this.description, this.meetingDate.toISOString(),
         this.durationMinutes, this.location, this.meetingType, this.status,
-        this.notes, this.updatedAt.toISOString(), this.id
+        this.notes, this.recurrenceRule, JSON.stringify(this.recurrenceExceptions),
+        this.updatedAt.toISOString(), this.id
       ]);
 
       await ActivityLogger.log('meeting', this.id, 'updated', performedBy, {
@@ -165,11 +212,11 @@ class Meeting {
   async getAttendees() {
     const db = getDatabase();
     return await db.all(`
-      SELECT ma.*, tm.name, tm.email, tm.role
+      SELECT ma.*, u.name, u.email, u.role
       FROM meeting_attendees ma
-      JOIN team_members tm ON ma.member_id = tm.id
+      JOIN users u ON ma.member_id = u.id
       WHERE ma.meeting_id = ?
-      ORDER BY tm.name
+      ORDER BY u.name
     `, [this.id]);
   }
 
@@ -185,6 +232,8 @@ class Meeting {
       meetingType: row.meeting_type,
       status: row.status,
       notes: row.notes,
+      recurrenceRule: row.recurrence_rule,
+      recurrenceExceptions: JSON.parse(row.recurrence_exceptions || '[]'),
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at)
     });
@@ -212,6 +261,9 @@ class Meeting {
       meetingType: this.meetingType,
       status: this.status,
       notes: this.notes,
+      recurrenceRule: this.recurrenceRule,
+      recurrenceExceptions: this.recurrenceExceptions,
+      occurrenceDate: this.occurrenceDate,
       createdAt: this.createdAt,
       updatedAt: this.updatedAt,
       client: this.client
@@ -0,0 +1,301 @@
+const { v4: uuidv4 } = require('uuid');
+const { getDatabase } = require('../config/database');
+const realtime = require('../services/realtime');
+
+const TYPES = ['task_assigned', 'mentioned', 'meeting_invited', 'task_due_soon', 'client_approval'];
+const CHANNELS = ['in_app', 'email', 'digest'];
+
+// Channel used until a user picks one; every channel also shows the notification in the app
+const DEFAULT_CHANNELS = {
+  task_assigned: 'email',
+  mentioned: 'email',
+  meeting_invited: 'email',
+  task_due_soon: 'digest',
+  client_approval: 'email'
+};
+
+class Notification {
+  constructor(data = {}) {
+    this.id = data.id || uuidv4();
+    this.userId = data.userId;
+    this.workspaceId = data.workspaceId || null;
+    this.type = data.type;
+    this.title = data.title;
+    this.body = data.body || null;
+    this.link = data.link || null;
+    this.entityType = data.entityType || null;
+    this.entityId = data.entityId || null;
+    this.actorId = data.actorId || null;
+    this.actorName = data.actorName || null;
+    this.delivery = data.delivery || 'in_app';
+    this.dedupeKey = data.dedupeKey || null;
+    this.readAt = data.readAt || null;
+    this.emailedAt = data.emailedAt || null;
+    this.createdAt = data.createdAt || new Date();
+  }
+
+  /**
+   * Notify a user, delivering through the channel they chose for this type.
+   * Users are not notified about their own actions, and a notification with a
+   * dedupeKey is only created once per user.
+   * @returns {Promise<Notification|null>} the new notification, or null when skipped
+   */
+  static async notify({ userId, workspaceId = null, type, title, body = null, link = null, entityType = null, entityId = null, actorId = null, dedupeKey = null }) {
+    if (!userId || (actorId && userId === actorId)) return null;
+
+    const db = getDatabase();
+    const user = await db.get('SELECT id, name, email, is_active FROM users WHERE id = ?', [userId]);
+    if (!user || !user.is_active) return null;
+
+    const notification = new Notification({
+      userId, workspaceId, type, title, body, link, entityType, entityId, actorId, dedupeKey,
+      delivery: await Notification.getChannel(userId, type)
+    });
+
+    const result = await db.run(`
+      INSERT OR IGNORE INTO notifications (
+        id, user_id, workspace_id, type, title, body, link, entity_type, entity_id,
+        actor_id, delivery, dedupe_key, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      notification.id, userId, workspaceId, type, title, body, link, entityType, entityId,
+      actorId, notification.delivery, dedupeKey, notification.createdAt.toISOString()
+    ]);
+    if (result.changes === 0) return null;
+
+    if (actorId) {
+      const actor = await db.get('SELECT name FROM users WHERE id = ?', [actorId]);
+      notification.actorName = actor ? actor.name : null;
+    }
+
+    // Only the recipient's tabs get the live update
+    realtime.broadcast('notification.created', notification.toJSON(), { userId });
+
+    if (notification.delivery === 'email') {
+      await notification.sendEmail(user);
+    }
+
+    return notification;
+  }
+
+  async sendEmail(user) {
+    // Lazy require: the email service pulls in mail transports we only need when sending
+    const emailService = require('../services/emailService');
+    try {
+      await emailService.sendNotificationEmail(user.email, user.name, this.toJSON());
+      await getDatabase().run('UPDATE notifications SET emailed_at = ? WHERE id = ?', [new Date().toISOString(), this.id]);
+    } catch (error) {
+      console.error(`Failed to email notification to ${user.email}:`, error.message);
+    }
+  }
+
+  static async findForUser(userId, workspaceId, { unreadOnly = false, limit = 50 } = {}) {
+    const db = getDatabase();
+    let query = `
+      SELECT n.*, a.name as actor_name
+      FROM notifications n
+      LEFT JOIN users a ON n.actor_id = a.id
+      WHERE n.user_id = ? AND (n.workspace_id = ? OR n.workspace_id IS NULL)
+    `;
+    const params = [userId, workspaceId];
+
+    if (unreadOnly) {
+      query += ' AND n.read_at IS NULL';
+    }
+
+    query += ' ORDER BY n.created_at DESC LIMIT ?';
+    params.push(limit);
+
+    const rows = await db.all(query, params);
+    return rows.map(row => Notification.fromDatabase(row));
+  }
+
+  static async countUnread(userId, workspaceId) {
+    const db = getDatabase();
+    const row = await db.get(`
+      SELECT COUNT(*) as count FROM notifications
+      WHERE user_id = ? AND (workspace_id = ? OR workspace_id IS NULL) AND read_at IS NULL
+    `, [userId, workspaceId]);
+    return row.count;
+  }
+
+  static async markRead(id, userId) {
+    const db = getDatabase();
+    const notification = await db.get('SELECT id, read_at FROM notifications WHERE id = ? AND user_id = ?', [id, userId]);
+    if (!notification) return false;
+
+    if (!notification.read_at) {
+      await db.run('UPDATE notifications SET read_at = ? WHERE id = ?', [new Date().toISOString(), id]);
+    }
+    return true;
+  }
+
+  static async markAllRead(userId, workspaceId) {
+    const db = getDatabase();
+    const result = await db.run(`
+      UPDATE notifications SET read_at = ?
+      WHERE user_id = ? AND (workspace_id = ? OR workspace_id IS NULL) AND read_at IS NULL
+    `, [new Date().toISOString(), userId, workspaceId]);
+    return result.changes;
+  }
+
+  static async getChannel(userId, type) {
+    const db = getDatabase();
+    const row = await db.get('SELECT channel FROM notification_preferences WHERE user_id = ? AND type = ?', [userId, type]);
+    return row ? row.channel : DEFAULT_CHANNELS[type];
+  }
+
+  // Channel for every type, with defaults filled in
+  static async getPreferences(userId) {
+    const db = getDatabase();
+    const rows = await db.all('SELECT type, channel FROM notification_preferences WHERE user_id = ?', [userId]);
+    const preferences = { ...DEFAULT_CHANNELS };
+    rows.forEach(row => {
+      if (TYPES.includes(row.type)) preferences[row.type] = row.channel;
+    });
+    return preferences;
+  }
+
+  static async setPreferences(userId, preferences) {
+    const db = getDatabase();
+    const now = new Date().toISOString();
+
+    for (const [type, channel] of Object.entries(preferences)) {
+      await db.run(`
+        INSERT INTO notification_preferences (user_id, type, channel, updated_at)
+        VALUES (?, ?, ?, ?)
+        ON CONFLICT(user_id, type) DO UPDATE SET channel = excluded.channel, updated_at = excluded.updated_at
+      `, [userId, type, channel, now]);
+    }
+
+    return Notification.getPreferences(userId);
+  }
+
+  /**
+   * Email each user one summary of their digest notifications that have not been sent yet
+   * @returns {Promise<number>} number of digests sent
+   */
+  static async sendDigests() {
+    const emailService = require('../services/emailService');
+    const db = getDatabase();
+    const rows = await db.all(`
+      SELECT n.*, a.name as actor_name, u.email as user_email, u.name as user_name
+      FROM notifications n
+      JOIN users u ON n.user_id = u.id
+      LEFT JOIN users a ON n.actor_id = a.id
+      WHERE n.delivery = 'digest' AND n.emailed_at IS NULL AND u.is_active = 1
+      ORDER BY n.user_id, n.created_at ASC
+    `);
+
+    const byUser = new Map();
+    rows.forEach(row => {
+      if (!byUser.has(row.user_id)) {
+        byUser.set(row.user_id, { email: row.user_email, name: row.user_name, notifications: [] });
+      }
+      byUser.get(row.user_id).notifications.push(Notification.fromDatabase(row));
+    });
+
+    let sent = 0;
+    for (const { email, name, notifications } of byUser.values()) {
+      // Already read in the app – no need to email them again
+      const unread = notifications.filter(notification => !notification.readAt);
+      try {
+        if (unread.length > 0) {
+          await emailService.sendNotificationDigestEmail(email, name, unread.map(notification => notification.toJSON()));
+          sent++;
+        }
+        const ids = notifications.map(notification => notification.id);
+        await db.run(
+          `UPDATE notifications SET emailed_at = ? WHERE id IN (${ids.map(() => '?').join(', ')})`,
+          [new Date().toISOString(), ...ids]
+        );
+      } catch (error) {
+        console.error(`Failed to send notification digest to ${email}:`, error.message);
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Remind assignees of open tasks due within the given window (once per task and due date)
+   * @returns {Promise<number>} number of reminders created
+   */
+  static async notifyDueSoon(withinHours = 24) {
+    const db = getDatabase();
+    const now = new Date();
+    const until = new Date(now.getTime() + withinHours * 60 * 60 * 1000);
+
+    const rows = await db.all(`
+      SELECT kt.id, kt.title, kt.due_date, ta.member_id, COALESCE(kt.workspace_id, wf.workspace_id) as workspace_id
+      FROM kanban_tasks kt
+      JOIN task_assignments ta ON ta.task_id = kt.id
+      LEFT JOIN workflows wf ON kt.workflow_id = wf.id
+      WHERE kt.status != 'done' AND kt.due_date IS NOT NULL
+        AND kt.due_date >= ? AND kt.due_date <= ?
+    `, [now.toISOString(), until.toISOString()]);
+
+    let created = 0;
+    for (const row of rows) {
+      const notification = await Notification.notify({
+        userId: row.member_id,
+        workspaceId: row.workspace_id,
+        type: 'task_due_soon',
+        title: `"${row.title}" is due soon`,
+        body: `Due ${new Date(row.due_date).toUTCString()}`,
+        link: '/app/kanban',
+        entityType: 'kanban_task',
+        entityId: row.id,
+        dedupeKey: `task_due_soon:${row.id}:${row.due_date}`
+      });
+      if (notification) created++;
+    }
+
+    return created;
+  }
+
+  static fromDatabase(row) {
+    return new Notification({
+      id: row.id,
+      userId: row.user_id,
+      workspaceId: row.workspace_id,
+      type: row.type,
+      title: row.title,
+      body: row.body,
+      link: row.link,
+      entityType: row.entity_type,
+      entityId: row.entity_id,
+      actorId: row.actor_id,
+      actorName: row.actor_name,
+      delivery: row.delivery,
+      dedupeKey: row.dedupe_key,
+      readAt: row.read_at ? new Date(row.read_at) : null,
+      emailedAt: row.emailed_at ? new Date(row.emailed_at) : null,
+      createdAt: new Date(row.created_at)
+    });
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      workspaceId: this.workspaceId,
+      type: this.type,
+      title: this.title,
+      body: this.body,
+      link: this.link,
+      entityType: this.entityType,
+      entityId: this.entityId,
+      actorId: this.actorId,
+      actorName: this.actorName,
+      delivery: this.delivery,
+      readAt: this.readAt,
+      createdAt: this.createdAt
+    };
+  }
+}
+
+Notification.TYPES = TYPES;
+Notification.CHANNELS = CHANNELS;
+Notification.DEFAULT_CHANNELS = DEFAULT_CHANNELS;
+
+module.exports = Notification;
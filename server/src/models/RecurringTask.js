@@ -0,0 +1,250 @@
+const { v4: uuidv4 } = require('uuid');
+const { getDatabase } = require('../config/database');
+const ActivityLogger = require('./ActivityLogger');
+const recurrence = require('../services/recurrence');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SELECT_RECURRING_TASKS = `
+  SELECT rt.*, w.name as workflow_name
+  FROM recurring_tasks rt
+  LEFT JOIN workflows w ON rt.workflow_id = w.id
+`;
+
+/**
+ * A task template that creates a Kanban task at every occurrence of its recurrence rule
+ * (see RecurringTask.runDue, called by the recurring task scheduler)
+ */
+class RecurringTask {
+  constructor(data = {}) {
+    this.id = data.id || uuidv4();
+    this.workspaceId = data.workspaceId;
+    this.workflowId = data.workflowId;
+    this.title = data.title;
+    this.description = data.description;
+    this.priority = data.priority || 'medium';
+    this.status = data.status;
+    this.tags = data.tags || [];
+    this.estimatedHours = data.estimatedHours ?? null;
+    this.assignedMembers = data.assignedMembers || [];
+    this.recurrenceRule = data.recurrenceRule;
+    this.startsAt = data.startsAt;
+    this.dueAfterDays = data.dueAfterDays ?? null;
+    this.nextRunAt = data.nextRunAt || null;
+    this.lastRunAt = data.lastRunAt || null;
+    this.isActive = data.isActive !== undefined ? data.isActive : true;
+    this.createdBy = data.createdBy || null;
+    this.createdAt = data.createdAt || new Date();
+    this.updatedAt = data.updatedAt || new Date();
+  }
+
+  static async findAll(workspaceId) {
+    const db = getDatabase();
+    const rows = await db.all(`${SELECT_RECURRING_TASKS} WHERE rt.workspace_id = ? ORDER BY rt.title ASC`, [workspaceId]);
+    return rows.map(row => RecurringTask.fromDatabase(row));
+  }
+
+  static async findById(id, workspaceId = null) {
+    const db = getDatabase();
+    let query = `${SELECT_RECURRING_TASKS} WHERE rt.id = ?`;
+    const params = [id];
+
+    if (workspaceId) {
+      query += ' AND rt.workspace_id = ?';
+      params.push(workspaceId);
+    }
+
+    const row = await db.get(query, params);
+    return row ? RecurringTask.fromDatabase(row) : null;
+  }
+
+  // Plan the next task: the first occurrence after the last created task, but never in the past
+  scheduleNext(now = new Date()) {
+    const after = new Date(Math.max(
+      now.getTime() - 1,
+      this.lastRunAt ? this.lastRunAt.getTime() : 0,
+      this.startsAt.getTime() - 1
+    ));
+    this.nextRunAt = recurrence.nextOccurrence(this.recurrenceRule, this.startsAt, after);
+  }
+
+  async save(performedBy = null) {
+    const db = getDatabase();
+    const isNew = !(await RecurringTask.findById(this.id));
+
+    const tagsJson = JSON.stringify(this.tags);
+    const membersJson = JSON.stringify(this.assignedMembers);
+    const nextRunAt = this.nextRunAt ? this.nextRunAt.toISOString() : null;
+    const lastRunAt = this.lastRunAt ? this.lastRunAt.toISOString() : null;
+
+    if (isNew) {
+      await db.run(`
+        INSERT INTO recurring_tasks (
+          id, workspace_id, workflow_id, title, description, priority, status, tags, estimated_hours,
+          assigned_members, recurrence_rule, starts_at, due_after_days, next_run_at, last_run_at, is_active,
+          created_by, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        this.id, this.workspaceId, this.workflowId, this.title, this.description, this.priority, this.status,
+        tagsJson, this.estimatedHours, membersJson, this.recurrenceRule, this.startsAt.toISOString(),
+        this.dueAfterDays, nextRunAt, lastRunAt, this.isActive ? 1 : 0,
+        this.createdBy, this.createdAt.toISOString(), this.updatedAt.toISOString()
+      ]);
+
+      await ActivityLogger.log('recurring_task', this.id, 'created', performedBy, {
+        title: this.title,
+        recurrenceRule: this.recurrenceRule
+      });
+    } else {
+      this.updatedAt = new Date();
+      await db.run(`
+        UPDATE recurring_tasks
+        SET workflow_id = ?, title = ?, description = ?, priority = ?, status = ?, tags = ?, estimated_hours = ?,
+            assigned_members = ?, recurrence_rule = ?, starts_at = ?, due_after_days = ?, next_run_at = ?,
+            last_run_at = ?, is_active = ?, updated_at = ?
+        WHERE id = ?
+      `, [
+        this.workflowId, this.title, this.description, this.priority, this.status, tagsJson, this.estimatedHours,
+        membersJson, this.recurrenceRule, this.startsAt.toISOString(), this.dueAfterDays, nextRunAt,
+        lastRunAt, this.isActive ? 1 : 0, this.updatedAt.toISOString(), this.id
+      ]);
+
+      await ActivityLogger.log('recurring_task', this.id, 'updated', performedBy, {
+        title: this.title,
+        isActive: this.isActive
+      });
+    }
+
+    return this;
+  }
+
+  async delete(performedBy = null) {
+    const db = getDatabase();
+    await db.run('DELETE FROM recurring_tasks WHERE id = ?', [this.id]);
+
+    await ActivityLogger.log('recurring_task', this.id, 'deleted', performedBy, {
+      title: this.title
+    });
+  }
+
+  // Create the Kanban task of one occurrence, assigned like the template
+  async createTask(occurrence) {
+    const KanbanTask = require('./KanbanTask');
+
+    const task = new KanbanTask({
+      title: this.title,
+      description: this.description,
+      workflowId: this.workflowId,
+      workspaceId: this.workspaceId,
+      priority: this.priority,
+      status: this.status,
+      tags: this.tags,
+      startDate: occurrence,
+      dueDate: this.dueAfterDays !== null ? new Date(occurrence.getTime() + this.dueAfterDays * DAY_MS) : null,
+      estimatedHours: this.estimatedHours,
+      recurringTaskId: this.id
+    });
+
+    await task.save(this.createdBy);
+    for (const memberId of this.assignedMembers) {
+      await task.assignMember(memberId);
+    }
+
+    return task;
+  }
+
+  /**
+   * Create the tasks of every active recurring task that is due. After downtime only the
+   * latest missed occurrence gets a task, so a long outage does not flood the board.
+   * @returns {Promise<Array<{ recurringTask: RecurringTask, task: KanbanTask }>>}
+   */
+  static async runDue(now = new Date()) {
+    const db = getDatabase();
+    const rows = await db.all(`
+      ${SELECT_RECURRING_TASKS}
+      WHERE rt.is_active = 1 AND rt.next_run_at IS NOT NULL AND rt.next_run_at <= ?
+    `, [now.toISOString()]);
+
+    const created = [];
+    for (const recurringTask of rows.map(row => RecurringTask.fromDatabase(row))) {
+      try {
+        const due = recurrence.expand(recurringTask.recurrenceRule, recurringTask.startsAt, {
+          from: recurringTask.nextRunAt,
+          to: now
+        });
+        const occurrence = due[due.length - 1] || recurringTask.nextRunAt;
+
+        const task = await recurringTask.createTask(occurrence);
+        recurringTask.lastRunAt = occurrence;
+        recurringTask.scheduleNext(now);
+        await db.run('UPDATE recurring_tasks SET last_run_at = ?, next_run_at = ? WHERE id = ?', [
+          occurrence.toISOString(),
+          recurringTask.nextRunAt ? recurringTask.nextRunAt.toISOString() : null,
+          recurringTask.id
+        ]);
+
+        created.push({ recurringTask, task });
+      } catch (error) {
+        console.error(`Error creating task for recurring task ${recurringTask.id}:`, error);
+      }
+    }
+
+    return created;
+  }
+
+  static fromDatabase(row) {
+    const recurringTask = new RecurringTask({
+      id: row.id,
+      workspaceId: row.workspace_id,
+      workflowId: row.workflow_id,
+      title: row.title,
+      description: row.description,
+      priority: row.priority,
+      status: row.status,
+      tags: JSON.parse(row.tags || '[]'),
+      estimatedHours: row.estimated_hours,
+      assignedMembers: JSON.parse(row.assigned_members || '[]'),
+      recurrenceRule: row.recurrence_rule,
+      startsAt: new Date(row.starts_at),
+      dueAfterDays: row.due_after_days,
+      nextRunAt: row.next_run_at ? new Date(row.next_run_at) : null,
+      lastRunAt: row.last_run_at ? new Date(row.last_run_at) : null,
+      isActive: Boolean(row.is_active),
+      createdBy: row.created_by,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    });
+
+    if (row.workflow_name) {
+      recurringTask.workflow = { name: row.workflow_name };
+    }
+
+    return recurringTask;
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      workflowId: this.workflowId,
+      title: this.title,
+      description: this.description,
+      priority: this.priority,
+      status: this.status,
+      tags: this.tags,
+      estimatedHours: this.estimatedHours,
+      assignedMembers: this.assignedMembers,
+      recurrenceRule: this.recurrenceRule,
+      startsAt: this.startsAt,
+      dueAfterDays: this.dueAfterDays,
+      nextRunAt: this.nextRunAt,
+      lastRunAt: this.lastRunAt,
+      isActive: this.isActive,
+      createdBy: this.createdBy,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+      workflow: this.workflow
+    };
+  }
+}
+
+module.exports = RecurringTask;
@@ -0,0 +1,185 @@
+const { v4: uuidv4 } = require('uuid');
+const { getDatabase } = require('../config/database');
+
+const TYPES = [
+  'login',
+  'logout',
+  'account_locked',
+  'magic_link_requested',
+  'magic_link_used',
+  'oauth_linked',
+  'two_factor_enabled',
+  'two_factor_disabled',
+  'backup_code_used',
+  'backup_codes_regenerated',
+  'password_reset_requested',
+  'password_reset',
+  'session_revoked',
+  'sessions_revoked',
+  'refresh_token_reuse'
+];
+
+// WHERE clause shared by the timeline, its count and the CSV export
+function buildFilters({ userId, email, type, success, from, to } = {}) {
+  const conditions = [];
+  const params = [];
+
+  if (userId) {
+    conditions.push('se.user_id = ?');
+    params.push(userId);
+  }
+  if (email) {
+    conditions.push('LOWER(se.email) LIKE ?');
+    params.push(`%${email.toLowerCase()}%`);
+  }
+  if (type) {
+    conditions.push('se.type = ?');
+    params.push(type);
+  }
+  if (success !== undefined) {
+    conditions.push('se.success = ?');
+    params.push(success ? 1 : 0);
+  }
+  if (from) {
+    conditions.push('se.created_at >= ?');
+    params.push(new Date(from).toISOString());
+  }
+  if (to) {
+    conditions.push('se.created_at <= ?');
+    params.push(new Date(to).toISOString());
+  }
+
+  return {
+    where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    params
+  };
+}
+
+// Quote a CSV field when it contains a separator, quote or newline
+function csvField(value) {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+class SecurityEvent {
+  constructor(data = {}) {
+    this.id = data.id || uuidv4();
+    this.userId = data.userId || null;
+    this.email = data.email || null;
+    this.type = data.type;
+    this.success = data.success !== undefined ? data.success : true;
+    this.ip = data.ip || null;
+    this.userAgent = data.userAgent || null;
+    this.details = data.details || {};
+    this.createdAt = data.createdAt || new Date();
+  }
+
+  /**
+   * Record an account event with the IP and user agent of the request.
+   * Never throws: a failing audit write must not break the sign-in it describes.
+   */
+  static async record(req, { type, user = null, email = null, success = true, details = {} }) {
+    const event = new SecurityEvent({
+      userId: user ? user.id : null,
+      email: user ? user.email : email,
+      type,
+      success,
+      ip: req.ip || null,
+      userAgent: req.headers['user-agent'] || null,
+      details
+    });
+
+    try {
+      await getDatabase().run(`
+        INSERT INTO security_events (id, user_id, email, type, success, ip, user_agent, details, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        event.id, event.userId, event.email, event.type, event.success ? 1 : 0,
+        event.ip, event.userAgent, JSON.stringify(event.details), event.createdAt.toISOString()
+      ]);
+    } catch (error) {
+      console.error('Error recording security event:', error);
+    }
+
+    return event;
+  }
+
+  // Newest first; see buildFilters for the supported filters
+  static async find(filters = {}, { limit = 50, offset = 0 } = {}) {
+    const db = getDatabase();
+    const { where, params } = buildFilters(filters);
+    const rows = await db.all(`
+      SELECT se.* FROM security_events se
+      ${where}
+      ORDER BY se.created_at DESC
+      LIMIT ? OFFSET ?
+    `, [...params, limit, offset]);
+    return rows.map(row => SecurityEvent.fromDatabase(row));
+  }
+
+  static async count(filters = {}) {
+    const db = getDatabase();
+    const { where, params } = buildFilters(filters);
+    const row = await db.get(`SELECT COUNT(*) as count FROM security_events se ${where}`, params);
+    return row.count;
+  }
+
+  // Whether the user has had an event of this type with the given detail before, e.g. a provider sign-in
+  static async exists(userId, type, detailKey, detailValue) {
+    const db = getDatabase();
+    const row = await db.get(`
+      SELECT 1 FROM security_events
+      WHERE user_id = ? AND type = ? AND json_extract(details, ?) = ?
+      LIMIT 1
+    `, [userId, type, `$.${detailKey}`, detailValue]);
+    return Boolean(row);
+  }
+
+  static toCSV(events) {
+    const header = ['Time', 'Email', 'User ID', 'Event', 'Success', 'IP', 'User agent', 'Details'];
+    const lines = events.map(event => [
+      event.createdAt.toISOString(),
+      event.email,
+      event.userId,
+      event.type,
+      event.success ? 'yes' : 'no',
+      event.ip,
+      event.userAgent,
+      Object.keys(event.details).length > 0 ? JSON.stringify(event.details) : ''
+    ].map(csvField).join(','));
+
+    return [header.join(','), ...lines].join('\r\n') + '\r\n';
+  }
+
+  static fromDatabase(row) {
+    return new SecurityEvent({
+      id: row.id,
+      userId: row.user_id,
+      email: row.email,
+      type: row.type,
+      success: Boolean(row.success),
+      ip: row.ip,
+      userAgent: row.user_agent,
+      details: JSON.parse(row.details || '{}'),
+      createdAt: new Date(row.created_at)
+    });
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      userId: this.userId,
+      email: this.email,
+      type: this.type,
+      success: this.success,
+      ip: this.ip,
+      userAgent: this.userAgent,
+      details: this.details,
+      createdAt: this.createdAt
+    };
+  }
+}
+
+SecurityEvent.TYPES = TYPES;
+
+module.exports = SecurityEvent;
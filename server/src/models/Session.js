@@ -0,0 +1,200 @@
+const { v4: uuidv4 } = require('uuid');
+const { getDatabase } = require('../config/database');
+const ActivityLogger = require('./ActivityLogger');
+
+// last_seen_at is only written when older than this, to spare a write per request
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+// Short label like "Chrome on macOS" for the sessions list
+function describeDevice(userAgent = '') {
+  const browsers = [
+    ['Edge', /Edg\//],
+    ['Opera', /OPR\//],
+    ['Chrome', /Chrome\//],
+    ['Firefox', /Firefox\//],
+    ['Safari', /Safari\//]
+  ];
+  const systems = [
+    ['iOS', /iPhone|iPad/],
+    ['Android', /Android/],
+    ['Windows', /Windows/],
+    ['macOS', /Mac OS X/],
+    ['Linux', /Linux/]
+  ];
+
+  const browser = browsers.find(([, pattern]) => pattern.test(userAgent));
+  const system = systems.find(([, pattern]) => pattern.test(userAgent));
+
+  if (browser && system) return `${browser[0]} on ${system[0]}`;
+  if (browser || system) return (browser || system)[0];
+  return 'Unknown device';
+}
+
+class Session {
+  constructor(data = {}) {
+    this.id = data.id || uuidv4();
+    this.userId = data.userId;
+    this.refreshTokenId = data.refreshTokenId || null;
+    this.device = data.device || null;
+    this.ip = data.ip || null;
+    this.userAgent = data.userAgent || null;
+    this.rememberMe = data.rememberMe || false;
+    this.createdAt = data.createdAt || new Date();
+    this.lastSeenAt = data.lastSeenAt || new Date();
+    this.expiresAt = data.expiresAt;
+    this.revokedAt = data.revokedAt || null;
+    this.revokedReason = data.revokedReason || null;
+  }
+
+  // New, unsaved session for a sign-in request; expiresAt is set once the refresh token is issued
+  static fromRequest(userId, req, { rememberMe = false } = {}) {
+    const userAgent = req.headers['user-agent'] || null;
+    return new Session({
+      userId,
+      device: describeDevice(userAgent || ''),
+      ip: req.ip || null,
+      userAgent,
+      rememberMe
+    });
+  }
+
+  static async findById(id) {
+    const db = getDatabase();
+    const row = await db.get('SELECT * FROM sessions WHERE id = ?', [id]);
+    return row ? Session.fromDatabase(row) : null;
+  }
+
+  // Sessions that can still be used, most recently active first
+  static async findActiveForUser(userId) {
+    const db = getDatabase();
+    const rows = await db.all(`
+      SELECT * FROM sessions
+      WHERE user_id = ? AND revoked_at IS NULL AND expires_at > ?
+      ORDER BY last_seen_at DESC
+    `, [userId, new Date().toISOString()]);
+    return rows.map(row => Session.fromDatabase(row));
+  }
+
+  /**
+   * Revoke every active session of a user, optionally keeping one (the caller's)
+   * @returns {Promise<number>} number of sessions revoked
+   */
+  static async revokeAllForUser(userId, { exceptId = null, reason = 'revoke_all', performedBy = null } = {}) {
+    const db = getDatabase();
+    const result = await db.run(`
+      UPDATE sessions SET revoked_at = ?, revoked_reason = ?
+      WHERE user_id = ? AND revoked_at IS NULL AND id != ?
+    `, [new Date().toISOString(), reason, userId, exceptId || '']);
+
+    await ActivityLogger.log('user', userId, 'sessions_revoked', performedBy, {
+      count: result.changes,
+      keptSessionId: exceptId,
+      reason
+    });
+
+    return result.changes;
+  }
+
+  get isActive() {
+    return !this.revokedAt && new Date(this.expiresAt) > new Date();
+  }
+
+  async save() {
+    const db = getDatabase();
+    await db.run(`
+      INSERT INTO sessions (
+        id, user_id, refresh_token_id, device, ip, user_agent, remember_me,
+        created_at, last_seen_at, expires_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      this.id, this.userId, this.refreshTokenId, this.device, this.ip, this.userAgent, this.rememberMe ? 1 : 0,
+      this.createdAt.toISOString(), this.lastSeenAt.toISOString(), new Date(this.expiresAt).toISOString()
+    ]);
+
+    await ActivityLogger.log('user', this.userId, 'session_started', this.userId, {
+      sessionId: this.id,
+      device: this.device,
+      ip: this.ip
+    });
+
+    return this;
+  }
+
+  // Record activity from a request
+  async touch(req) {
+    const now = new Date();
+    if (now - new Date(this.lastSeenAt) < TOUCH_INTERVAL_MS) return;
+
+    this.lastSeenAt = now;
+    this.ip = req.ip || this.ip;
+    await getDatabase().run(
+      'UPDATE sessions SET last_seen_at = ?, ip = ? WHERE id = ?',
+      [now.toISOString(), this.ip, this.id]
+    );
+  }
+
+  // Refresh token rotation: only the newest refresh token stays valid
+  async rotate(refreshTokenId, expiresAt, req) {
+    const now = new Date();
+    this.refreshTokenId = refreshTokenId;
+    this.expiresAt = expiresAt;
+    this.lastSeenAt = now;
+    this.ip = req.ip || this.ip;
+
+    await getDatabase().run(`
+      UPDATE sessions SET refresh_token_id = ?, expires_at = ?, last_seen_at = ?, ip = ?
+      WHERE id = ?
+    `, [refreshTokenId, new Date(expiresAt).toISOString(), now.toISOString(), this.ip, this.id]);
+  }
+
+  async revoke(reason = 'revoked', performedBy = null) {
+    if (this.revokedAt) return;
+
+    this.revokedAt = new Date();
+    this.revokedReason = reason;
+    await getDatabase().run(
+      'UPDATE sessions SET revoked_at = ?, revoked_reason = ? WHERE id = ?',
+      [this.revokedAt.toISOString(), reason, this.id]
+    );
+
+    await ActivityLogger.log('user', this.userId, 'session_revoked', performedBy, {
+      sessionId: this.id,
+      device: this.device,
+      reason
+    });
+  }
+
+  static fromDatabase(row) {
+    return new Session({
+      id: row.id,
+      userId: row.user_id,
+      refreshTokenId: row.refresh_token_id,
+      device: row.device,
+      ip: row.ip,
+      userAgent: row.user_agent,
+      rememberMe: Boolean(row.remember_me),
+      createdAt: new Date(row.created_at),
+      lastSeenAt: new Date(row.last_seen_at),
+      expiresAt: new Date(row.expires_at),
+      revokedAt: row.revoked_at ? new Date(row.revoked_at) : null,
+      revokedReason: row.revoked_reason
+    });
+  }
+
+  // Never includes the refresh token id
+  toJSON(currentSessionId = null) {
+    return {
+      id: this.id,
+      device: this.device,
+      ip: this.ip,
+      userAgent: this.userAgent,
+      rememberMe: this.rememberMe,
+      createdAt: this.createdAt,
+      lastSeenAt: this.lastSeenAt,
+      expiresAt: this.expiresAt,
+      isCurrent: this.id === currentSessionId
+    };
+  }
+}
+
+module.exports = Session;
@@ -0,0 +1,260 @@
+const { v4: uuidv4 } = require('uuid');
+const { getDatabase } = require('../config/database');
+const ActivityLogger = require('./ActivityLogger');
+
+const REACTIONS = ['👍', '❤️', '🎉', '😄', '👀', '🚀'];
+
+// Plain text of a Quill delta; embeds (images, formulas) are left out
+function deltaToText(delta) {
+  return (delta.ops || [])
+    .map(op => (typeof op.insert === 'string' ? op.insert : ''))
+    .join('')
+    .trim();
+}
+
+class TaskComment {
+  constructor(data = {}) {
+    this.id = data.id || uuidv4();
+    this.taskId = data.taskId;
+    this.parentId = data.parentId || null;
+    this.authorId = data.authorId || null;
+    this.authorName = data.authorName || null;
+    this.content = data.content || { ops: [] };
+    this.bodyText = data.bodyText || '';
+    this.mentions = data.mentions || [];
+    this.reactions = data.reactions || [];
+    this.revisionCount = data.revisionCount || 0;
+    this.createdAt = data.createdAt || new Date();
+    this.updatedAt = data.updatedAt || new Date();
+    this.editedAt = data.editedAt || null;
+    this.deletedAt = data.deletedAt || null;
+  }
+
+  static async findById(id) {
+    const db = getDatabase();
+    const row = await db.get(`
+      SELECT tc.*, u.name as author_name,
+        (SELECT COUNT(*) FROM task_comment_revisions r WHERE r.comment_id = tc.id) as revision_count
+      FROM task_comments tc
+      LEFT JOIN users u ON tc.author_id = u.id
+      WHERE tc.id = ?
+    `, [id]);
+    if (!row) return null;
+
+    const comment = TaskComment.fromDatabase(row);
+    comment.reactions = (await TaskComment.getReactions([comment.id]))[comment.id] || [];
+    return comment;
+  }
+
+  // Thread of a task, oldest first; clients nest replies under their parent
+  static async findByTaskId(taskId) {
+    const db = getDatabase();
+    const rows = await db.all(`
+      SELECT tc.*, u.name as author_name,
+        (SELECT COUNT(*) FROM task_comment_revisions r WHERE r.comment_id = tc.id) as revision_count
+      FROM task_comments tc
+      LEFT JOIN users u ON tc.author_id = u.id
+      WHERE tc.task_id = ?
+      ORDER BY tc.created_at ASC
+    `, [taskId]);
+
+    const comments = rows.map(row => TaskComment.fromDatabase(row));
+    const reactions = await TaskComment.getReactions(comments.map(comment => comment.id));
+    comments.forEach(comment => {
+      comment.reactions = reactions[comment.id] || [];
+    });
+    return comments;
+  }
+
+  static async countForTask(taskId) {
+    const db = getDatabase();
+    const row = await db.get(
+      'SELECT COUNT(*) as count FROM task_comments WHERE task_id = ? AND deleted_at IS NULL',
+      [taskId]
+    );
+    return row.count;
+  }
+
+  // Reactions grouped per comment: { [commentId]: [{ emoji, userIds }] }
+  static async getReactions(commentIds) {
+    if (commentIds.length === 0) return {};
+
+    const db = getDatabase();
+    const rows = await db.all(`
+      SELECT comment_id, emoji, user_id
+      FROM task_comment_reactions
+      WHERE comment_id IN (${commentIds.map(() => '?').join(', ')})
+      ORDER BY created_at ASC
+    `, commentIds);
+
+    const grouped = {};
+    rows.forEach(row => {
+      const reactions = grouped[row.comment_id] || (grouped[row.comment_id] = []);
+      let reaction = reactions.find(item => item.emoji === row.emoji);
+      if (!reaction) {
+        reaction = { emoji: row.emoji, userIds: [] };
+        reactions.push(reaction);
+      }
+      reaction.userIds.push(row.user_id);
+    });
+    return grouped;
+  }
+
+  static async getRevisions(commentId) {
+    const db = getDatabase();
+    const rows = await db.all(`
+      SELECT r.*, u.name as edited_by_name
+      FROM task_comment_revisions r
+      LEFT JOIN users u ON r.edited_by = u.id
+      WHERE r.comment_id = ?
+      ORDER BY r.created_at DESC
+    `, [commentId]);
+
+    return rows.map(row => ({
+      id: row.id,
+      commentId: row.comment_id,
+      content: JSON.parse(row.content),
+      bodyText: row.body_text,
+      editedBy: row.edited_by,
+      editedByName: row.edited_by_name,
+      createdAt: new Date(row.created_at)
+    }));
+  }
+
+  async save(performedBy = null) {
+    const db = getDatabase();
+    this.bodyText = deltaToText(this.content);
+
+    await db.run(`
+      INSERT INTO task_comments (
+        id, task_id, parent_id, author_id, content, body_text, mentions, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      this.id, this.taskId, this.parentId, this.authorId, JSON.stringify(this.content), this.bodyText,
+      JSON.stringify(this.mentions), this.createdAt.toISOString(), this.updatedAt.toISOString()
+    ]);
+
+    await ActivityLogger.log('task_comment', this.id, 'created', performedBy, {
+      taskId: this.taskId,
+      parentId: this.parentId
+    });
+
+    return this;
+  }
+
+  // Replace the content, keeping the previous version in the revision history
+  async edit(content, mentions, performedBy = null) {
+    const db = getDatabase();
+    const now = new Date();
+
+    await db.run(`
+      INSERT INTO task_comment_revisions (id, comment_id, content, body_text, edited_by, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `, [uuidv4(), this.id, JSON.stringify(this.content), this.bodyText, performedBy, now.toISOString()]);
+
+    this.content = content;
+    this.bodyText = deltaToText(content);
+    this.mentions = mentions;
+    this.editedAt = now;
+    this.updatedAt = now;
+    this.revisionCount++;
+
+    await db.run(`
+      UPDATE task_comments
+      SET content = ?, body_text = ?, mentions = ?, edited_at = ?, updated_at = ?
+      WHERE id = ?
+    `, [JSON.stringify(content), this.bodyText, JSON.stringify(mentions), now.toISOString(), now.toISOString(), this.id]);
+
+    await ActivityLogger.log('task_comment', this.id, 'updated', performedBy, { taskId: this.taskId });
+
+    return this;
+  }
+
+  // Soft delete: the text moves to the history and replies stay attached
+  async delete(performedBy = null) {
+    const db = getDatabase();
+    const now = new Date();
+
+    await db.run(`
+      INSERT INTO task_comment_revisions (id, comment_id, content, body_text, edited_by, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `, [uuidv4(), this.id, JSON.stringify(this.content), this.bodyText, performedBy, now.toISOString()]);
+
+    this.content = { ops: [] };
+    this.bodyText = '';
+    this.mentions = [];
+    this.deletedAt = now;
+    this.updatedAt = now;
+    this.revisionCount++;
+
+    await db.run(`
+      UPDATE task_comments
+      SET content = ?, body_text = '', mentions = '[]', deleted_at = ?, updated_at = ?
+      WHERE id = ?
+    `, [JSON.stringify(this.content), now.toISOString(), now.toISOString(), this.id]);
+    await db.run('DELETE FROM task_comment_reactions WHERE comment_id = ?', [this.id]);
+    this.reactions = [];
+
+    await ActivityLogger.log('task_comment', this.id, 'deleted', performedBy, { taskId: this.taskId });
+  }
+
+  // Add the user's reaction, or remove it when they already reacted with this emoji
+  async toggleReaction(userId, emoji) {
+    const db = getDatabase();
+    const removed = await db.run(
+      'DELETE FROM task_comment_reactions WHERE comment_id = ? AND user_id = ? AND emoji = ?',
+      [this.id, userId, emoji]
+    );
+
+    if (removed.changes === 0) {
+      await db.run(
+        'INSERT INTO task_comment_reactions (comment_id, user_id, emoji, created_at) VALUES (?, ?, ?, ?)',
+        [this.id, userId, emoji, new Date().toISOString()]
+      );
+    }
+
+    this.reactions = (await TaskComment.getReactions([this.id]))[this.id] || [];
+    return this;
+  }
+
+  static fromDatabase(row) {
+    return new TaskComment({
+      id: row.id,
+      taskId: row.task_id,
+      parentId: row.parent_id,
+      authorId: row.author_id,
+      authorName: row.author_name,
+      content: JSON.parse(row.content),
+      bodyText: row.body_text,
+      mentions: JSON.parse(row.mentions || '[]'),
+      revisionCount: row.revision_count,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      editedAt: row.edited_at ? new Date(row.edited_at) : null,
+      deletedAt: row.deleted_at ? new Date(row.deleted_at) : null
+    });
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      taskId: this.taskId,
+      parentId: this.parentId,
+      authorId: this.authorId,
+      authorName: this.authorName,
+      content: this.content,
+      bodyText: this.bodyText,
+      mentions: this.mentions,
+      reactions: this.reactions,
+      revisionCount: this.revisionCount,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+      editedAt: this.editedAt,
+      deletedAt: this.deletedAt
+    };
+  }
+}
+
+TaskComment.REACTIONS = REACTIONS;
+
+module.exports = TaskComment;
@@ -0,0 +1,226 @@
+const { v4: uuidv4 } = require('uuid');
+const { getDatabase } = require('../config/database');
+const ActivityLogger = require('./ActivityLogger');
+
+const DEPENDENCY_TYPES = ['finish-to-start'];
+
+class TaskDependency {
+  constructor(data = {}) {
+    this.id = data.id || uuidv4();
+    this.predecessorId = data.predecessorId;
+    this.successorId = data.successorId;
+    this.type = data.type || 'finish-to-start';
+    this.createdBy = data.createdBy;
+    this.createdAt = data.createdAt || new Date();
+  }
+
+  static async findById(id) {
+    const db = getDatabase();
+    const row = await db.get(`
+      SELECT td.*, p.title as predecessor_title, p.status as predecessor_status,
+        s.title as successor_title, s.status as successor_status
+      FROM task_dependencies td
+      JOIN kanban_tasks p ON td.predecessor_id = p.id
+      JOIN kanban_tasks s ON td.successor_id = s.id
+      WHERE td.id = ?
+    `, [id]);
+    return row ? TaskDependency.fromDatabase(row) : null;
+  }
+
+  // Links where the task is either side, split into what it waits on and what waits on it
+  static async findForTask(taskId) {
+    const db = getDatabase();
+    const rows = await db.all(`
+      SELECT td.*, p.title as predecessor_title, p.status as predecessor_status,
+        s.title as successor_title, s.status as successor_status
+      FROM task_dependencies td
+      JOIN kanban_tasks p ON td.predecessor_id = p.id
+      JOIN kanban_tasks s ON td.successor_id = s.id
+      WHERE td.predecessor_id = ? OR td.successor_id = ?
+      ORDER BY td.created_at ASC
+    `, [taskId, taskId]);
+
+    const dependencies = rows.map(row => TaskDependency.fromDatabase(row));
+    return {
+      predecessors: dependencies.filter(dep => dep.successorId === taskId),
+      successors: dependencies.filter(dep => dep.predecessorId === taskId)
+    };
+  }
+
+  static async findByWorkflowId(workflowId) {
+    const db = getDatabase();
+    const rows = await db.all(`
+      SELECT td.*, p.title as predecessor_title, p.status as predecessor_status,
+        s.title as successor_title, s.status as successor_status
+      FROM task_dependencies td
+      JOIN kanban_tasks p ON td.predecessor_id = p.id
+      JOIN kanban_tasks s ON td.successor_id = s.id
+      WHERE s.workflow_id = ?
+      ORDER BY td.created_at ASC
+    `, [workflowId]);
+    return rows.map(row => TaskDependency.fromDatabase(row));
+  }
+
+  // Predecessors that are not done yet – these block the task from being completed
+  static async findOpenPredecessors(taskId) {
+    const db = getDatabase();
+    return await db.all(`
+      SELECT kt.id, kt.title, kt.status
+      FROM task_dependencies td
+      JOIN kanban_tasks kt ON td.predecessor_id = kt.id
+      WHERE td.successor_id = ? AND kt.status != 'done'
+      ORDER BY kt.title
+    `, [taskId]);
+  }
+
+  // True when `successorId` already (transitively) precedes `predecessorId`
+  static async wouldCreateCycle(predecessorId, successorId) {
+    if (predecessorId === successorId) return true;
+
+    const db = getDatabase();
+    const visited = new Set();
+    const queue = [successorId];
+
+    while (queue.length > 0) {
+      const current = queue.shift();
+      if (current === predecessorId) return true;
+      if (visited.has(current)) continue;
+      visited.add(current);
+
+      const rows = await db.all(
+        'SELECT successor_id FROM task_dependencies WHERE predecessor_id = ?',
+        [current]
+      );
+      rows.forEach(row => queue.push(row.successor_id));
+    }
+
+    return false;
+  }
+
+  async save(performedBy = null) {
+    const db = getDatabase();
+
+    await db.run(`
+      INSERT INTO task_dependencies (id, predecessor_id, successor_id, type, created_by, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `, [
+      this.id, this.predecessorId, this.successorId, this.type,
+      this.createdBy || null, this.createdAt.toISOString()
+    ]);
+
+    await ActivityLogger.log('kanban_task', this.successorId, 'dependency_added', performedBy, {
+      dependencyId: this.id,
+      predecessorId: this.predecessorId,
+      type: this.type
+    });
+
+    return this;
+  }
+
+  async delete(performedBy = null) {
+    const db = getDatabase();
+    await db.run('DELETE FROM task_dependencies WHERE id = ?', [this.id]);
+
+    await ActivityLogger.log('kanban_task', this.successorId, 'dependency_removed', performedBy, {
+      dependencyId: this.id,
+      predecessorId: this.predecessorId
+    });
+  }
+
+  // Longest path through the dependency graph, weighted by estimated hours.
+  // Tasks without an estimate count as zero; cycles are ignored (they cannot be created via the API).
+  static computeCriticalPath(tasks, dependencies) {
+    const hours = new Map(tasks.map(task => [task.id, Number(task.estimatedHours) || 0]));
+    const incoming = new Map(tasks.map(task => [task.id, []]));
+    const outgoing = new Map(tasks.map(task => [task.id, []]));
+
+    for (const dep of dependencies) {
+      if (!hours.has(dep.predecessorId) || !hours.has(dep.successorId)) continue;
+      incoming.get(dep.successorId).push(dep);
+      outgoing.get(dep.predecessorId).push(dep);
+    }
+
+    // Kahn's algorithm for a topological order
+    const remaining = new Map([...incoming].map(([id, deps]) => [id, deps.length]));
+    const order = [...remaining].filter(([, count]) => count === 0).map(([id]) => id);
+    for (let i = 0; i < order.length; i++) {
+      for (const dep of outgoing.get(order[i])) {
+        remaining.set(dep.successorId, remaining.get(dep.successorId) - 1);
+        if (remaining.get(dep.successorId) === 0) order.push(dep.successorId);
+      }
+    }
+
+    // Earliest finish for each task and the link that determined it
+    const finish = new Map();
+    const via = new Map();
+    for (const taskId of order) {
+      let start = 0;
+      for (const dep of incoming.get(taskId)) {
+        const predecessorFinish = finish.get(dep.predecessorId);
+        if (!via.has(taskId) || predecessorFinish > start) {
+          start = predecessorFinish;
+          via.set(taskId, dep);
+        }
+      }
+      finish.set(taskId, start + hours.get(taskId));
+    }
+
+    let endTaskId = null;
+    for (const [taskId, value] of finish) {
+      if (endTaskId === null || value > finish.get(endTaskId)) endTaskId = taskId;
+    }
+
+    const taskIds = [];
+    const dependencyIds = [];
+    for (let current = endTaskId; current; ) {
+      taskIds.unshift(current);
+      const dep = via.get(current);
+      if (!dep) break;
+      dependencyIds.unshift(dep.id);
+      current = dep.predecessorId;
+    }
+
+    return {
+      taskIds,
+      dependencyIds,
+      totalHours: endTaskId ? finish.get(endTaskId) : 0
+    };
+  }
+
+  static fromDatabase(row) {
+    const dependency = new TaskDependency({
+      id: row.id,
+      predecessorId: row.predecessor_id,
+      successorId: row.successor_id,
+      type: row.type,
+      createdBy: row.created_by,
+      createdAt: new Date(row.created_at)
+    });
+
+    if (row.predecessor_title) {
+      dependency.predecessor = { title: row.predecessor_title, status: row.predecessor_status };
+    }
+    if (row.successor_title) {
+      dependency.successor = { title: row.successor_title, status: row.successor_status };
+    }
+
+    return dependency;
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      predecessorId: this.predecessorId,
+      successorId: this.successorId,
+      type: this.type,
+      createdBy: this.createdBy,
+      createdAt: this.createdAt,
+      predecessor: this.predecessor,
+      successor: this.successor
+    };
+  }
+}
+
+TaskDependency.TYPES = DEPENDENCY_TYPES;
+
+module.exports = TaskDependency;
@@ -13,6 +13,12 @@ class TaskResource {
     this.fileName = data.fileName;
     this.fileSize = data.fileSize;
     this.mimeType = data.mimeType;
+    this.sharedWithClient = data.sharedWithClient || false;
+    this.storageKey = data.storageKey || null; // set on uploaded files, see services/fileUploads
+    this.thumbnailKey = data.thumbnailKey || null;
+    this.thumbnailSize = data.thumbnailSize || null;
+    this.revisionNumber = data.revisionNumber || 0; // latest saved revision of a document
+    this.collabGeneration = data.collabGeneration || 0; // see services/collaboration
     this.createdAt = data.createdAt || new Date();
     this.updatedAt = data.updatedAt || new Date();
   }
@@ -20,7 +26,8 @@ class TaskResource {
   static async findAll() {
     const db = getDatabase();
     const rows = await db.all(`
-      SELECT tr.*, kt.title as task_title
+      SELECT tr.*, kt.title as task_title,
+        (SELECT MAX(r.revision_number) FROM task_resource_revisions r WHERE r.resource_id = tr.id) as revision_number
       FROM task_resources tr
       LEFT JOIN kanban_tasks kt ON tr.task_id = kt.id
       ORDER BY tr.created_at DESC
@@ -31,7 +38,8 @@ class TaskResource {
   static async findById(id) {
     const db = getDatabase();
     const row = await db.get(`
-      SELECT tr.*, kt.title as task_title
+      SELECT tr.*, kt.title as task_title,
+        (SELECT MAX(r.revision_number) FROM task_resource_revisions r WHERE r.resource_id = tr.id) as revision_number
       FROM task_resources tr
       LEFT JOIN kanban_tasks kt ON tr.task_id = kt.id
       WHERE tr.id = ?
@@ -42,7 +50,8 @@ class TaskResource {
   static async findByTaskId(taskId) {
     const db = getDatabase();
     const rows = await db.all(`
-      SELECT tr.*, kt.title as task_title
+      SELECT tr.*, kt.title as task_title,
+        (SELECT MAX(r.revision_number) FROM task_resource_revisions r WHERE r.resource_id = tr.id) as revision_number
       FROM task_resources tr
       LEFT JOIN kanban_tasks kt ON tr.task_id = kt.id
       WHERE tr.task_id = ?
@@ -54,7 +63,8 @@ class TaskResource {
   static async findByType(type) {
     const db = getDatabase();
     const rows = await db.all(`
-      SELECT tr.*, kt.title as task_title
+      SELECT tr.*, kt.title as task_title,
+        (SELECT MAX(r.revision_number) FROM task_resource_revisions r WHERE r.resource_id = tr.id) as revision_number
       FROM task_resources tr
       LEFT JOIN kanban_tasks kt ON tr.task_id = kt.id
       WHERE tr.type = ?
@@ -63,18 +73,135 @@ class TaskResource {
     return rows.map(row => TaskResource.fromDatabase(row));
   }
 
-  async save(performedBy = null) {
+  // Saved versions of a document, newest first, without their content
+  static async getRevisions(resourceId) {
+    const db = getDatabase();
+    const rows = await db.all(`
+      SELECT r.id, r.resource_id, r.revision_number, r.title, r.created_by, r.restored_from, r.created_at,
+        LENGTH(r.content) as size, u.name as created_by_name
+      FROM task_resource_revisions r
+      LEFT JOIN users u ON r.created_by = u.id
+      WHERE r.resource_id = ?
+      ORDER BY r.revision_number DESC
+    `, [resourceId]);
+    return rows.map(row => TaskResource.revisionFromDatabase(row));
+  }
+
+  static async getRevision(resourceId, revisionId) {
+    const db = getDatabase();
+    const row = await db.get(`
+      SELECT r.*, LENGTH(r.content) as size, u.name as created_by_name
+      FROM task_resource_revisions r
+      LEFT JOIN users u ON r.created_by = u.id
+      WHERE r.resource_id = ? AND r.id = ?
+    `, [resourceId, revisionId]);
+    return row ? TaskResource.revisionFromDatabase(row) : null;
+  }
+
+  static revisionFromDatabase(row) {
+    return {
+      id: row.id,
+      resourceId: row.resource_id,
+      number: row.revision_number,
+      title: row.title,
+      ...(row.content !== undefined && { content: row.content }),
+      size: row.size || 0,
+      createdBy: row.created_by,
+      createdByName: row.created_by_name,
+      restoredFrom: row.restored_from,
+      createdAt: new Date(row.created_at)
+    };
+  }
+
+  // Keep the saved content of a document as its next revision, unless it did not change
+  async recordRevision(performedBy = null, restoredFrom = null) {
+    const db = getDatabase();
+    const latest = await db.get(`
+      SELECT revision_number, content FROM task_resource_revisions
+      WHERE resource_id = ? ORDER BY revision_number DESC LIMIT 1
+    `, [this.id]);
+    if (latest && latest.content === (this.content || '')) return;
+
+    this.revisionNumber = (latest ? latest.revision_number : 0) + 1;
+    await db.run(`
+      INSERT INTO task_resource_revisions (id, resource_id, revision_number, title, content, created_by, restored_from, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      uuidv4(), this.id, this.revisionNumber, this.title, this.content || '', performedBy, restoredFrom,
+      this.updatedAt.toISOString()
+    ]);
+  }
+
+  // Make an earlier revision the document's content again; this is saved as a new revision
+  async restoreRevision(revision, performedBy = null) {
+    this.content = revision.content;
+    await this.save(performedBy, { restoredFrom: revision.number });
+
+    await ActivityLogger.log('task_resource', this.id, 'revision_restored', performedBy, {
+      title: this.title,
+      taskId: this.taskId,
+      revision: revision.number
+    });
+    return this;
+  }
+
+  // The live Yjs state of a document for a generation, or null when editing starts from its content
+  static async getCollabState(resourceId, generation) {
+    const row = await getDatabase().get(
+      'SELECT state FROM task_resource_collab_states WHERE resource_id = ? AND generation = ?',
+      [resourceId, generation]
+    );
+    return row ? row.state : null;
+  }
+
+  /**
+   * Store the live state of a document with the HTML it renders to.
+   * Returns false, storing nothing, when the document was replaced by a newer generation meanwhile
+   */
+  async saveCollabState(generation, state, content) {
+    const db = getDatabase();
+    const updatedAt = new Date();
+    const result = await db.run(
+      'UPDATE task_resources SET content = ?, updated_at = ? WHERE id = ? AND collab_generation = ?',
+      [content, updatedAt.toISOString(), this.id, generation]
+    );
+    if (result.changes === 0) return false;
+
+    await db.run(`
+      INSERT INTO task_resource_collab_states (resource_id, generation, state, updated_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(resource_id) DO UPDATE SET
+        generation = excluded.generation, state = excluded.state, updated_at = excluded.updated_at
+    `, [this.id, generation, Buffer.from(state), updatedAt.toISOString()]);
+
+    this.content = content;
+    this.updatedAt = updatedAt;
+    return true;
+  }
+
+  // Drop the live state after the content was replaced; editors reconnect to the new generation
+  async resetCollaboration() {
+    const db = getDatabase();
+    await db.run('UPDATE task_resources SET collab_generation = collab_generation + 1 WHERE id = ?', [this.id]);
+    await db.run('DELETE FROM task_resource_collab_states WHERE resource_id = ?', [this.id]);
+    this.collabGeneration += 1;
+  }
+
+  // Every save of a document is kept as a revision; `restoredFrom` notes the revision it brought back
+  async save(performedBy = null, { restoredFrom = null } = {}) {
     const db = getDatabase();
     const isNew = !(await TaskResource.findById(this.id));
     
     if (isNew) {
       await db.run(`
         INSERT INTO task_resources (
-          id, task_id, type, title, content, url, file_name, file_size, mime_type, created_at, updated_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          id, task_id, type, title, content, url, file_name, file_size, mime_type,
+          storage_key, thumbnail_key, thumbnail_size, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `, [
         this.id, this.taskId, this.type, this.title, this.content, this.url,
         this.fileName, this.fileSize, this.mimeType,
+        this.storageKey, this.thumbnailKey, this.thumbnailSize,
         this.createdAt.toISOString(), this.updatedAt.toISOString()
       ]);
 
@@ -101,6 +228,10 @@ class TaskResource {
       });
     }
 
+    if (this.type === 'document') {
+      await this.recordRevision(performedBy, restoredFrom);
+    }
+
     return this;
   }
 
@@ -115,6 +246,17 @@ class TaskResource {
     });
   }
 
+  // Show the resource to the client in the portal (its task must be client-visible too)
+  async setSharedWithClient(shared, performedBy = null) {
+    this.sharedWithClient = Boolean(shared);
+    await getDatabase().run('UPDATE task_resources SET shared_with_client = ? WHERE id = ?', [this.sharedWithClient ? 1 : 0, this.id]);
+
+    await ActivityLogger.log('task_resource', this.id, this.sharedWithClient ? 'shared_with_client' : 'hidden_from_client', performedBy, {
+      title: this.title,
+      taskId: this.taskId
+    });
+  }
+
   static fromDatabase(row) {
     const resource = new TaskResource({
       id: row.id,
@@ -126,6 +268,12 @@ class TaskResource {
       fileName: row.file_name,
       fileSize: row.file_size,
       mimeType: row.mime_type,
+      sharedWithClient: Boolean(row.shared_with_client),
+      storageKey: row.storage_key,
+      thumbnailKey: row.thumbnail_key,
+      thumbnailSize: row.thumbnail_size,
+      revisionNumber: row.revision_number,
+      collabGeneration: row.collab_generation,
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at)
     });
@@ -151,6 +299,10 @@ class TaskResource {
       fileName: this.fileName,
       fileSize: this.fileSize,
       mimeType: this.mimeType,
+      sharedWithClient: this.sharedWithClient,
+      isUpload: Boolean(this.storageKey),
+      revisionNumber: this.revisionNumber,
+      collabGeneration: this.collabGeneration,
       createdAt: this.createdAt,
       updatedAt: this.updatedAt,
       task: this.task
@@ -0,0 +1,245 @@
+const { v4: uuidv4 } = require('uuid');
+const { getDatabase } = require('../config/database');
+const ActivityLogger = require('./ActivityLogger');
+
+const TIMESHEET_STATUSES = ['submitted', 'approved', 'rejected'];
+
+// Weeks in these states are read-only for the owner
+const LOCKED_STATUSES = ['submitted', 'approved'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Monday (UTC) of the week containing `date`, as YYYY-MM-DD
+const weekStartOf = (date) => {
+  const day = new Date(date);
+  day.setUTCHours(0, 0, 0, 0);
+  const offset = (day.getUTCDay() + 6) % 7; // days since Monday
+  return new Date(day.getTime() - offset * DAY_MS).toISOString().split('T')[0];
+};
+
+const weekEndOf = (weekStart) =>
+  new Date(new Date(`${weekStart}T00:00:00.000Z`).getTime() + 6 * DAY_MS).toISOString().split('T')[0];
+
+class Timesheet {
+  constructor(data = {}) {
+    this.id = data.id || uuidv4();
+    this.workspaceId = data.workspaceId;
+    this.userId = data.userId;
+    this.weekStart = data.weekStart;
+    this.status = data.status || 'submitted';
+    this.totalSeconds = data.totalSeconds || 0;
+    this.submittedAt = data.submittedAt || null;
+    this.reviewedBy = data.reviewedBy || null;
+    this.reviewedAt = data.reviewedAt || null;
+    this.reviewComment = data.reviewComment || null;
+    this.entries = data.entries || [];
+    this.createdAt = data.createdAt || new Date();
+    this.updatedAt = data.updatedAt || new Date();
+  }
+
+  static async findById(id, workspaceId) {
+    const db = getDatabase();
+    const row = await db.get(`
+      SELECT ts.*, u.name as user_name, r.name as reviewer_name
+      FROM timesheets ts
+      JOIN users u ON ts.user_id = u.id
+      LEFT JOIN users r ON ts.reviewed_by = r.id
+      WHERE ts.id = ? AND ts.workspace_id = ?
+    `, [id, workspaceId]);
+    return row ? Timesheet.fromDatabase(row) : null;
+  }
+
+  static async findForWeek(workspaceId, userId, weekStart) {
+    const db = getDatabase();
+    const row = await db.get(`
+      SELECT ts.*, u.name as user_name, r.name as reviewer_name
+      FROM timesheets ts
+      JOIN users u ON ts.user_id = u.id
+      LEFT JOIN users r ON ts.reviewed_by = r.id
+      WHERE ts.workspace_id = ? AND ts.user_id = ? AND ts.week_start = ?
+    `, [workspaceId, userId, weekStart]);
+    return row ? Timesheet.fromDatabase(row) : null;
+  }
+
+  static async findAll(workspaceId, { userId, status } = {}) {
+    const db = getDatabase();
+    let query = `
+      SELECT ts.*, u.name as user_name, r.name as reviewer_name
+      FROM timesheets ts
+      JOIN users u ON ts.user_id = u.id
+      LEFT JOIN users r ON ts.reviewed_by = r.id
+      WHERE ts.workspace_id = ?
+    `;
+    const params = [workspaceId];
+
+    if (userId) {
+      query += ' AND ts.user_id = ?';
+      params.push(userId);
+    }
+
+    if (status) {
+      query += ' AND ts.status = ?';
+      params.push(status);
+    }
+
+    // Pending reviews are worked oldest first, history newest first
+    query += status === 'submitted'
+      ? ' ORDER BY ts.submitted_at ASC'
+      : ' ORDER BY ts.week_start DESC';
+
+    const rows = await db.all(query, params);
+    return rows.map(row => Timesheet.fromDatabase(row));
+  }
+
+  // The submitted or approved timesheet covering `date`, if any – its entries must not change
+  static async findLocking(workspaceId, userId, date) {
+    const timesheet = await Timesheet.findForWeek(workspaceId, userId, weekStartOf(date));
+    return timesheet && LOCKED_STATUSES.includes(timesheet.status) ? timesheet : null;
+  }
+
+  // Completed time entries of a user's week
+  static async getWeekEntries(workspaceId, userId, weekStart) {
+    const db = getDatabase();
+    const rows = await db.all(`
+      SELECT te.*, kt.title as task_title, wf.name as workflow_name, c.name as client_name,
+        tc.name as category_name, tc.color as category_color
+      FROM time_entries te
+      LEFT JOIN kanban_tasks kt ON te.task_id = kt.id
+      LEFT JOIN workflows wf ON kt.workflow_id = wf.id
+      LEFT JOIN clients c ON wf.client_id = c.id
+      LEFT JOIN time_categories tc ON te.category_id = tc.id
+      WHERE te.workspace_id = ? AND te.user_id = ? AND te.status = 'completed'
+        AND date(te.start_time) >= date(?) AND date(te.start_time) <= date(?)
+      ORDER BY te.start_time ASC
+    `, [workspaceId, userId, weekStart, weekEndOf(weekStart)]);
+
+    return rows.map(entry => ({
+      id: entry.id,
+      taskId: entry.task_id,
+      taskTitle: entry.task_title,
+      workflowName: entry.workflow_name,
+      clientName: entry.client_name,
+      categoryId: entry.category_id,
+      categoryName: entry.category_name,
+      categoryColor: entry.category_color,
+      startTime: entry.start_time,
+      endTime: entry.end_time,
+      duration: entry.duration_seconds,
+      description: entry.description,
+      isBreak: Boolean(entry.is_break)
+    }));
+  }
+
+  // Submit (or resubmit after rejection) a user's week for review
+  static async submit(workspaceId, userId, weekStart, performedBy = null) {
+    const db = getDatabase();
+    const entries = await Timesheet.getWeekEntries(workspaceId, userId, weekStart);
+    const totalSeconds = entries
+      .filter(entry => !entry.isBreak)
+      .reduce((sum, entry) => sum + (entry.duration || 0), 0);
+    const now = new Date();
+
+    let timesheet = await Timesheet.findForWeek(workspaceId, userId, weekStart);
+    if (timesheet) {
+      await db.run(`
+        UPDATE timesheets
+        SET status = 'submitted', total_seconds = ?, submitted_at = ?,
+          reviewed_by = NULL, reviewed_at = NULL, review_comment = NULL, updated_at = ?
+        WHERE id = ?
+      `, [totalSeconds, now.toISOString(), now.toISOString(), timesheet.id]);
+    } else {
+      timesheet = new Timesheet({ workspaceId, userId, weekStart });
+      await db.run(`
+        INSERT INTO timesheets (id, workspace_id, user_id, week_start, status, total_seconds, submitted_at, created_at, updated_at)
+        VALUES (?, ?, ?, ?, 'submitted', ?, ?, ?, ?)
+      `, [
+        timesheet.id, workspaceId, userId, weekStart, totalSeconds,
+        now.toISOString(), timesheet.createdAt.toISOString(), now.toISOString()
+      ]);
+    }
+
+    await ActivityLogger.log('timesheet', timesheet.id, 'submitted', performedBy, {
+      userId,
+      weekStart,
+      totalSeconds
+    });
+
+    return Timesheet.findById(timesheet.id, workspaceId);
+  }
+
+  // Approve or reject a submitted timesheet; a rejection reopens the week for editing
+  async review(status, comment, reviewerId) {
+    const db = getDatabase();
+    const now = new Date();
+
+    this.status = status;
+    this.reviewComment = comment || null;
+    this.reviewedBy = reviewerId;
+    this.reviewedAt = now;
+    this.updatedAt = now;
+
+    await db.run(`
+      UPDATE timesheets
+      SET status = ?, review_comment = ?, reviewed_by = ?, reviewed_at = ?, updated_at = ?
+      WHERE id = ?
+    `, [this.status, this.reviewComment, this.reviewedBy, now.toISOString(), now.toISOString(), this.id]);
+
+    await ActivityLogger.log('timesheet', this.id, status, reviewerId, {
+      userId: this.userId,
+      weekStart: this.weekStart,
+      comment: this.reviewComment
+    });
+
+    return this;
+  }
+
+  static fromDatabase(row) {
+    const timesheet = new Timesheet({
+      id: row.id,
+      workspaceId: row.workspace_id,
+      userId: row.user_id,
+      weekStart: row.week_start,
+      status: row.status,
+      totalSeconds: row.total_seconds,
+      submittedAt: row.submitted_at ? new Date(row.submitted_at) : null,
+      reviewedBy: row.reviewed_by,
+      reviewedAt: row.reviewed_at ? new Date(row.reviewed_at) : null,
+      reviewComment: row.review_comment,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    });
+
+    timesheet.userName = row.user_name;
+    timesheet.reviewerName = row.reviewer_name || null;
+
+    return timesheet;
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      workspaceId: this.workspaceId,
+      userId: this.userId,
+      userName: this.userName,
+      weekStart: this.weekStart,
+      weekEnd: weekEndOf(this.weekStart),
+      status: this.status,
+      totalSeconds: this.totalSeconds,
+      submittedAt: this.submittedAt,
+      reviewedBy: this.reviewedBy,
+      reviewerName: this.reviewerName,
+      reviewedAt: this.reviewedAt,
+      reviewComment: this.reviewComment,
+      entries: this.entries,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt
+    };
+  }
+}
+
+Timesheet.STATUSES = TIMESHEET_STATUSES;
+Timesheet.LOCKED_STATUSES = LOCKED_STATUSES;
+Timesheet.weekStartOf = weekStartOf;
+Timesheet.weekEndOf = weekEndOf;
+
+module.exports = Timesheet;
@@ -38,13 +38,14 @@ class User {
     return await bcrypt.compare(plainPassword, this.password);
   }
 
-  // Generate JWT token with optional expiration
-  generateToken(expiresIn = null) {
+  // Generate JWT token with optional expiration; `sessionId` ties it to a row in sessions
+  generateToken(expiresIn = null, sessionId = null) {
     const payload = {
       id: this.id,
       email: this.email,
       role: this.role,
-      name: this.name
+      name: this.name,
+      ...(sessionId && { sid: sessionId })
     };
 
     return jwt.sign(payload, process.env.JWT_SECRET || 'dev-secret-key', {
@@ -76,18 +77,20 @@ class User {
     }
   }
 
-  // Generate token pair (access + refresh)
-  generateTokenPair(rememberMe = false) {
+  // Generate token pair (access + refresh) for a session
+  generateTokenPair(rememberMe = false, sessionId = null) {
     const accessTokenExpiration = '15m'; // Short-lived access token
     const refreshTokenExpiration = rememberMe ? '30d' : '7d'; // Longer refresh token
+    const refreshTokenId = uuidv4();
     
-    const accessToken = this.generateToken(accessTokenExpiration);
+    const accessToken = this.generateToken(accessTokenExpiration, sessionId);
     const refreshToken = jwt.sign(
       {
         id: this.id,
         email: this.email,
         type: 'refresh',
-        tokenId: uuidv4()
+        tokenId: refreshTokenId,
+        ...(sessionId && { sid: sessionId })
       },
       process.env.JWT_REFRESH_SECRET || process.env.JWT_SECRET || 'dev-refresh-secret',
       { expiresIn: refreshTokenExpiration }
@@ -96,6 +99,7 @@ class User {
     return {
       accessToken,
       refreshToken,
+      refreshTokenId,
       accessTokenExpires: new Date(Date.now() + 15 * 60 * 1000), // 15 minutes
       refreshTokenExpires: new Date(Date.now() + (rememberMe ? 30 : 7) * 24 * 60 * 60 * 1000)
     };
@@ -1,6 +1,7 @@
 const { v4: uuidv4 } = require('uuid');
 const { getDatabase } = require('../config/database');
 const ActivityLogger = require('./ActivityLogger');
+const WorkflowStep = require('./WorkflowStep');
 
 class Workflow {
   constructor(data = {}) {
@@ -130,21 +131,163 @@ class Workflow {
     });
   }
 
-  // Legacy workflow step helpers – now obsolete
+  // Flowchart steps (nodes) for this workflow
   async getSteps() {
-    return [];
+    return await WorkflowStep.findByWorkflowId(this.id);
   }
 
+  // Flowchart connections (edges) between steps
   async getConnections() {
-    return [];
+    const db = getDatabase();
+    const rows = await db.all(`
+      SELECT * FROM workflow_connections
+      WHERE workflow_id = ?
+      ORDER BY created_at ASC
+    `, [this.id]);
+    return rows.map(row => Workflow.connectionFromDatabase(row));
+  }
+
+  async getConnection(connectionId) {
+    const db = getDatabase();
+    const row = await db.get(
+      'SELECT * FROM workflow_connections WHERE id = ? AND workflow_id = ?',
+      [connectionId, this.id]
+    );
+    return row ? Workflow.connectionFromDatabase(row) : null;
+  }
+
+  async addConnection(sourceStepId, targetStepId, options = {}, performedBy = null) {
+    const db = getDatabase();
+
+    // Both ends must be steps of this workflow
+    const endpoints = await db.all(
+      'SELECT id FROM workflow_steps WHERE workflow_id = ? AND id IN (?, ?)',
+      [this.id, sourceStepId, targetStepId]
+    );
+    const expected = sourceStepId === targetStepId ? 1 : 2;
+    if (endpoints.length !== expected) {
+      throw new Error('Source and target steps must belong to this workflow');
+    }
+
+    const connectionId = options.id || uuidv4();
+    await db.run(`
+      INSERT INTO workflow_connections (
+        id, workflow_id, source_step_id, target_step_id, source_handle, target_handle, label, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      connectionId, this.id, sourceStepId, targetStepId,
+      options.sourceHandle || null, options.targetHandle || null, options.label || null,
+      new Date().toISOString()
+    ]);
+
+    await ActivityLogger.log('workflow', this.id, 'connection_added', performedBy, {
+      connectionId,
+      sourceStepId,
+      targetStepId,
+      label: options.label
+    });
+
+    return connectionId;
   }
 
-  async addConnection() {
-    throw new Error('Workflow connections feature removed');
+  async updateConnection(connectionId, updates = {}, performedBy = null) {
+    const db = getDatabase();
+    const result = await db.run(`
+      UPDATE workflow_connections
+      SET source_handle = ?, target_handle = ?, label = ?
+      WHERE id = ? AND workflow_id = ?
+    `, [
+      updates.sourceHandle || null, updates.targetHandle || null, updates.label || null,
+      connectionId, this.id
+    ]);
+
+    if (result.changes > 0) {
+      await ActivityLogger.log('workflow', this.id, 'connection_updated', performedBy, {
+        connectionId,
+        label: updates.label
+      });
+    }
+
+    return result.changes > 0;
+  }
+
+  async removeConnection(connectionId, performedBy = null) {
+    const db = getDatabase();
+    const result = await db.run(
+      'DELETE FROM workflow_connections WHERE id = ? AND workflow_id = ?',
+      [connectionId, this.id]
+    );
+
+    if (result.changes > 0) {
+      await ActivityLogger.log('workflow', this.id, 'connection_removed', performedBy, {
+        connectionId
+      });
+    }
+
+    return result.changes > 0;
   }
 
-  async removeConnection() {
-    // no-op
+  // Replace the whole flowchart in one transaction (used by the canvas "Save" action).
+  // Steps and connections not present in the payload are deleted.
+  async saveGraph(steps = [], connections = [], performedBy = null) {
+    const db = getDatabase();
+    const now = new Date().toISOString();
+
+    await db.transaction(async () => {
+      const stepIds = steps.map(step => step.id);
+      const existing = await db.all('SELECT id FROM workflow_steps WHERE workflow_id = ?', [this.id]);
+      const existingIds = new Set(existing.map(row => row.id));
+
+      // Connections are rebuilt from scratch; they carry no state of their own
+      await db.run('DELETE FROM workflow_connections WHERE workflow_id = ?', [this.id]);
+
+      for (const row of existing) {
+        if (!stepIds.includes(row.id)) {
+          await db.run('DELETE FROM workflow_steps WHERE id = ?', [row.id]);
+        }
+      }
+
+      for (const step of steps) {
+        const position = step.position || { x: 0, y: 0 };
+        if (existingIds.has(step.id)) {
+          await db.run(`
+            UPDATE workflow_steps
+            SET name = ?, description = ?, type = ?, position_x = ?, position_y = ?, updated_at = ?
+            WHERE id = ? AND workflow_id = ?
+          `, [step.name, step.description, step.type, position.x, position.y, now, step.id, this.id]);
+        } else {
+          await db.run(`
+            INSERT INTO workflow_steps (
+              id, workflow_id, name, description, type, position_x, position_y, created_at, updated_at
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `, [step.id, this.id, step.name, step.description, step.type, position.x, position.y, now, now]);
+        }
+      }
+
+      for (const connection of connections) {
+        if (!stepIds.includes(connection.source) || !stepIds.includes(connection.target)) {
+          continue; // Dangling edge – its step was removed
+        }
+        await db.run(`
+          INSERT INTO workflow_connections (
+            id, workflow_id, source_step_id, target_step_id, source_handle, target_handle, label, created_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `, [
+          connection.id || uuidv4(), this.id, connection.source, connection.target,
+          connection.sourceHandle || null, connection.targetHandle || null, connection.label || null, now
+        ]);
+      }
+    });
+
+    await ActivityLogger.log('workflow', this.id, 'flowchart_saved', performedBy, {
+      steps: steps.length,
+      connections: connections.length
+    });
+
+    return {
+      steps: await this.getSteps(),
+      connections: await this.getConnections()
+    };
   }
 
   async getTasks() {
@@ -156,6 +299,20 @@ class Workflow {
     `, [this.id]);
   }
 
+  // Finish-to-start links between this workflow's tasks
+  async getTaskDependencies() {
+    const TaskDependency = require('./TaskDependency');
+    return await TaskDependency.findByWorkflowId(this.id);
+  }
+
+  // Longest chain of dependent tasks by estimated hours
+  async getCriticalPath(dependencies = null) {
+    const KanbanTask = require('./KanbanTask');
+    const TaskDependency = require('./TaskDependency');
+    const tasks = await KanbanTask.findByWorkflowId(this.id);
+    return TaskDependency.computeCriticalPath(tasks, dependencies || await this.getTaskDependencies());
+  }
+
   async getProgress() {
     const db = getDatabase();
 
@@ -208,6 +365,20 @@ class Workflow {
     return workflow;
   }
 
+  // Connections are exposed in React Flow's edge shape (source/target)
+  static connectionFromDatabase(row) {
+    return {
+      id: row.id,
+      workflowId: row.workflow_id,
+      source: row.source_step_id,
+      target: row.target_step_id,
+      sourceHandle: row.source_handle || undefined,
+      targetHandle: row.target_handle || undefined,
+      label: row.label || undefined,
+      createdAt: new Date(row.created_at)
+    };
+  }
+
   toJSON() {
     return {
       id: this.id,
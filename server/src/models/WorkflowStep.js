@@ -0,0 +1,115 @@
+const { v4: uuidv4 } = require('uuid');
+const { getDatabase } = require('../config/database');
+const ActivityLogger = require('./ActivityLogger');
+
+const STEP_TYPES = ['start-end', 'process', 'decision', 'input-output'];
+
+class WorkflowStep {
+  constructor(data = {}) {
+    this.id = data.id || uuidv4();
+    this.workflowId = data.workflowId;
+    this.name = data.name;
+    this.description = data.description;
+    this.type = data.type || 'process'; // 'start-end', 'process', 'decision', 'input-output'
+    this.position = data.position || { x: 0, y: 0 };
+    this.createdAt = data.createdAt || new Date();
+    this.updatedAt = data.updatedAt || new Date();
+  }
+
+  static async findById(id) {
+    const db = getDatabase();
+    const row = await db.get('SELECT * FROM workflow_steps WHERE id = ?', [id]);
+    return row ? WorkflowStep.fromDatabase(row) : null;
+  }
+
+  static async findByWorkflowId(workflowId) {
+    const db = getDatabase();
+    const rows = await db.all(`
+      SELECT * FROM workflow_steps
+      WHERE workflow_id = ?
+      ORDER BY created_at ASC
+    `, [workflowId]);
+    return rows.map(row => WorkflowStep.fromDatabase(row));
+  }
+
+  async save(performedBy = null) {
+    const db = getDatabase();
+    const isNew = !(await WorkflowStep.findById(this.id));
+
+    if (isNew) {
+      await db.run(`
+        INSERT INTO workflow_steps (
+          id, workflow_id, name, description, type, position_x, position_y, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        this.id, this.workflowId, this.name, this.description, this.type,
+        this.position.x, this.position.y,
+        this.createdAt.toISOString(), this.updatedAt.toISOString()
+      ]);
+
+      await ActivityLogger.log('workflow_step', this.id, 'created', performedBy, {
+        name: this.name,
+        type: this.type,
+        workflowId: this.workflowId
+      });
+    } else {
+      this.updatedAt = new Date();
+      await db.run(`
+        UPDATE workflow_steps
+        SET name = ?, description = ?, type = ?, position_x = ?, position_y = ?, updated_at = ?
+        WHERE id = ?
+      `, [
+        this.name, this.description, this.type, this.position.x, this.position.y,
+        this.updatedAt.toISOString(), this.id
+      ]);
+
+      await ActivityLogger.log('workflow_step', this.id, 'updated', performedBy, {
+        name: this.name,
+        type: this.type
+      });
+    }
+
+    return this;
+  }
+
+  async delete(performedBy = null) {
+    const db = getDatabase();
+    // Connections touching this step are removed by ON DELETE CASCADE
+    await db.run('DELETE FROM workflow_steps WHERE id = ?', [this.id]);
+
+    await ActivityLogger.log('workflow_step', this.id, 'deleted', performedBy, {
+      name: this.name,
+      workflowId: this.workflowId
+    });
+  }
+
+  static fromDatabase(row) {
+    return new WorkflowStep({
+      id: row.id,
+      workflowId: row.workflow_id,
+      name: row.name,
+      description: row.description,
+      type: row.type,
+      position: { x: row.position_x || 0, y: row.position_y || 0 },
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    });
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      workflowId: this.workflowId,
+      name: this.name,
+      description: this.description,
+      type: this.type,
+      position: this.position,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt
+    };
+  }
+}
+
+WorkflowStep.TYPES = STEP_TYPES;
+
+module.exports = WorkflowStep;
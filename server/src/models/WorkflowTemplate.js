@@ -0,0 +1,291 @@
+const { v4: uuidv4 } = require('uuid');
+const { getDatabase } = require('../config/database');
+const ActivityLogger = require('./ActivityLogger');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whole days between two dates (negative when `date` precedes `base`)
+const dayOffset = (base, date) => Math.round((date.getTime() - base.getTime()) / DAY_MS);
+
+const addDays = (date, days) => new Date(date.getTime() + days * DAY_MS);
+
+class WorkflowTemplate {
+  constructor(data = {}) {
+    this.id = data.id || uuidv4();
+    this.workspaceId = data.workspaceId;
+    this.name = data.name;
+    this.description = data.description;
+    this.sourceWorkflowId = data.sourceWorkflowId;
+    this.durationDays = data.durationDays;
+    this.createdBy = data.createdBy;
+    this.tasks = data.tasks || [];
+    this.createdAt = data.createdAt || new Date();
+    this.updatedAt = data.updatedAt || new Date();
+  }
+
+  static async findAll(workspaceId) {
+    const db = getDatabase();
+    const rows = await db.all(`
+      SELECT wt.*, u.name as created_by_name,
+        (SELECT COUNT(*) FROM workflow_template_tasks wtt WHERE wtt.template_id = wt.id) as task_count
+      FROM workflow_templates wt
+      LEFT JOIN users u ON wt.created_by = u.id
+      WHERE wt.workspace_id = ?
+      ORDER BY wt.name ASC
+    `, [workspaceId]);
+    return rows.map(row => WorkflowTemplate.fromDatabase(row));
+  }
+
+  static async findById(id, workspaceId = null) {
+    const db = getDatabase();
+    let query = `
+      SELECT wt.*, u.name as created_by_name
+      FROM workflow_templates wt
+      LEFT JOIN users u ON wt.created_by = u.id
+      WHERE wt.id = ?
+    `;
+    const params = [id];
+
+    if (workspaceId) {
+      query += ' AND wt.workspace_id = ?';
+      params.push(workspaceId);
+    }
+
+    const row = await db.get(query, params);
+    if (!row) return null;
+
+    const template = WorkflowTemplate.fromDatabase(row);
+    template.tasks = await template.getTasks();
+    return template;
+  }
+
+  async getTasks() {
+    const db = getDatabase();
+    const rows = await db.all(`
+      SELECT * FROM workflow_template_tasks
+      WHERE template_id = ?
+      ORDER BY order_index ASC
+    `, [this.id]);
+    return rows.map(row => WorkflowTemplate.taskFromDatabase(row));
+  }
+
+  // Snapshot an existing workflow (tasks, tags, priorities, due offsets, resources) as a template
+  static async createFromWorkflow(workflow, { name, description } = {}, performedBy = null) {
+    const db = getDatabase();
+    const KanbanTask = require('./KanbanTask');
+    const TaskResource = require('./TaskResource');
+
+    // Offsets are relative to the workflow start; fall back to its creation date
+    const baseDate = workflow.startDate || workflow.createdAt;
+    const tasks = await KanbanTask.findByWorkflowId(workflow.id);
+
+    // findByWorkflowId returns newest first – templates keep creation order
+    tasks.sort((a, b) => a.createdAt - b.createdAt);
+
+    const template = new WorkflowTemplate({
+      workspaceId: workflow.workspaceId,
+      name: name || workflow.name,
+      description: description !== undefined ? description : workflow.description,
+      sourceWorkflowId: workflow.id,
+      durationDays: workflow.expectedEndDate ? dayOffset(baseDate, workflow.expectedEndDate) : null,
+      createdBy: performedBy
+    });
+
+    for (const [index, task] of tasks.entries()) {
+      const resources = await TaskResource.findByTaskId(task.id);
+      template.tasks.push({
+        id: uuidv4(),
+        title: task.title,
+        description: task.description,
+        priority: task.priority,
+        tags: task.tags,
+        dueOffsetDays: task.dueDate ? dayOffset(baseDate, task.dueDate) : null,
+        orderIndex: index,
+        resources: resources.map(resource => ({
+          type: resource.type,
+          title: resource.title,
+          content: resource.content,
+          url: resource.url,
+          fileName: resource.fileName,
+          fileSize: resource.fileSize,
+          mimeType: resource.mimeType
+        }))
+      });
+    }
+
+    await db.transaction(async () => {
+      await template.insert();
+    });
+
+    await ActivityLogger.log('workflow_template', template.id, 'created', performedBy, {
+      name: template.name,
+      sourceWorkflowId: workflow.id,
+      tasks: template.tasks.length
+    });
+
+    return template;
+  }
+
+  async insert() {
+    const db = getDatabase();
+
+    await db.run(`
+      INSERT INTO workflow_templates (
+        id, workspace_id, name, description, source_workflow_id, duration_days, created_by, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      this.id, this.workspaceId, this.name, this.description, this.sourceWorkflowId,
+      this.durationDays, this.createdBy, this.createdAt.toISOString(), this.updatedAt.toISOString()
+    ]);
+
+    for (const task of this.tasks) {
+      await db.run(`
+        INSERT INTO workflow_template_tasks (
+          id, template_id, title, description, priority, tags, due_offset_days, order_index, resources
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        task.id, this.id, task.title, task.description, task.priority,
+        JSON.stringify(task.tags || []), task.dueOffsetDays, task.orderIndex,
+        JSON.stringify(task.resources || [])
+      ]);
+    }
+  }
+
+  async update({ name, description }, performedBy = null) {
+    const db = getDatabase();
+    this.name = name;
+    this.description = description;
+    this.updatedAt = new Date();
+
+    await db.run(`
+      UPDATE workflow_templates
+      SET name = ?, description = ?, updated_at = ?
+      WHERE id = ?
+    `, [this.name, this.description, this.updatedAt.toISOString(), this.id]);
+
+    await ActivityLogger.log('workflow_template', this.id, 'updated', performedBy, {
+      name: this.name
+    });
+
+    return this;
+  }
+
+  async delete(performedBy = null) {
+    const db = getDatabase();
+    await db.run('DELETE FROM workflow_templates WHERE id = ?', [this.id]);
+
+    await ActivityLogger.log('workflow_template', this.id, 'deleted', performedBy, {
+      name: this.name
+    });
+  }
+
+  // Create a new workflow for a client, computing every due date from the start date
+  async instantiate({ clientId, startDate, name }, performedBy = null) {
+    const db = getDatabase();
+    const Workflow = require('./Workflow');
+    const KanbanTask = require('./KanbanTask');
+    const TaskResource = require('./TaskResource');
+
+    const start = startDate ? new Date(startDate) : new Date();
+
+    const workflow = new Workflow({
+      name: name || this.name,
+      description: this.description,
+      clientId,
+      workspaceId: this.workspaceId,
+      status: 'active',
+      startDate: start,
+      expectedEndDate: this.durationDays !== null && this.durationDays !== undefined
+        ? addDays(start, this.durationDays)
+        : null
+    });
+
+    await db.transaction(async () => {
+      await workflow.save(performedBy);
+
+      for (const templateTask of this.tasks) {
+        const task = new KanbanTask({
+          title: templateTask.title,
+          description: templateTask.description,
+          workflowId: workflow.id,
+          workspaceId: this.workspaceId,
+          priority: templateTask.priority,
+          status: 'todo',
+          tags: templateTask.tags,
+          dueDate: templateTask.dueOffsetDays !== null && templateTask.dueOffsetDays !== undefined
+            ? addDays(start, templateTask.dueOffsetDays)
+            : null
+        });
+        await task.save(performedBy);
+
+        for (const resourceData of templateTask.resources) {
+          const resource = new TaskResource({ ...resourceData, taskId: task.id });
+          await resource.save(performedBy);
+        }
+      }
+    });
+
+    await ActivityLogger.log('workflow_template', this.id, 'instantiated', performedBy, {
+      workflowId: workflow.id,
+      clientId,
+      startDate: start.toISOString()
+    });
+
+    return workflow;
+  }
+
+  static taskFromDatabase(row) {
+    return {
+      id: row.id,
+      title: row.title,
+      description: row.description,
+      priority: row.priority,
+      tags: JSON.parse(row.tags || '[]'),
+      dueOffsetDays: row.due_offset_days,
+      orderIndex: row.order_index,
+      resources: JSON.parse(row.resources || '[]')
+    };
+  }
+
+  static fromDatabase(row) {
+    const template = new WorkflowTemplate({
+      id: row.id,
+      workspaceId: row.workspace_id,
+      name: row.name,
+      description: row.description,
+      sourceWorkflowId: row.source_workflow_id,
+      durationDays: row.duration_days,
+      createdBy: row.created_by,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    });
+
+    if (row.created_by_name) {
+      template.createdByName = row.created_by_name;
+    }
+    if (row.task_count !== undefined) {
+      template.taskCount = row.task_count;
+    }
+
+    return template;
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      workspaceId: this.workspaceId,
+      name: this.name,
+      description: this.description,
+      sourceWorkflowId: this.sourceWorkflowId,
+      durationDays: this.durationDays,
+      createdBy: this.createdBy,
+      createdByName: this.createdByName,
+      taskCount: this.taskCount !== undefined ? this.taskCount : this.tasks.length,
+      tasks: this.tasks,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt
+    };
+  }
+}
+
+module.exports = WorkflowTemplate;
@@ -9,6 +9,7 @@ class Workspace {
     this.description = data.description;
     this.ownerId = data.ownerId; // User who created the workspace
     this.inviteCode = data.inviteCode || this.generateInviteCode();
+    this.inviteRole = data.inviteRole || 'viewer'; // role of those who join with the invite code
     this.isActive = data.isActive !== undefined ? data.isActive : true;
     this.createdAt = data.createdAt || new Date();
     this.updatedAt = data.updatedAt || new Date();
@@ -88,11 +89,18 @@ class Workspace {
       ORDER BY wm.joined_at DESC
     `, [this.id]);
     
-    return rows;
+    return rows.map(row => ({
+      id: row.id,
+      email: row.email,
+      name: row.name,
+      userRole: row.user_role,
+      workspaceRole: row.workspace_role,
+      joinedAt: row.joined_at
+    }));
   }
 
   // Add member to workspace
-  async addMember(userId, role = 'member', performedBy = null) {
+  async addMember(userId, role = 'contributor', performedBy = null) {
     const db = getDatabase();
     
     // Check if already a member
@@ -183,14 +191,15 @@ class Workspace {
       while (attempts < 10) {
         try {
           await db.run(`
-            INSERT INTO workspaces (id, name, description, owner_id, invite_code, is_active, created_at, updated_at)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+            INSERT INTO workspaces (id, name, description, owner_id, invite_code, invite_role, is_active, created_at, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
           `, [
             this.id, 
             this.name, 
             this.description, 
             this.ownerId,
             this.inviteCode,
+            this.inviteRole,
             this.isActive, 
             this.createdAt.toISOString(), 
             this.updatedAt.toISOString()
@@ -211,8 +220,8 @@ class Workspace {
         throw new Error('Failed to generate unique invite code after 10 attempts');
       }
 
-      // Add owner as admin
-      await this.addMember(this.ownerId, 'admin', this.ownerId);
+      // Add the creator with the owner role
+      await this.addMember(this.ownerId, 'owner', this.ownerId);
 
       // Skip activity logging for workspace operations (see above TODO)
     } else {
@@ -220,12 +229,13 @@ class Workspace {
       
       await db.run(`
         UPDATE workspaces 
-        SET name = ?, description = ?, invite_code = ?, is_active = ?, updated_at = ?
+        SET name = ?, description = ?, invite_code = ?, invite_role = ?, is_active = ?, updated_at = ?
         WHERE id = ?
       `, [
         this.name, 
         this.description, 
         this.inviteCode,
+        this.inviteRole,
         this.isActive,
         this.updatedAt.toISOString(), 
         this.id
@@ -258,6 +268,7 @@ class Workspace {
       description: row.description,
       ownerId: row.owner_id,
       inviteCode: row.invite_code,
+      inviteRole: row.invite_role,
       isActive: Boolean(row.is_active),
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at)
@@ -272,6 +283,7 @@ class Workspace {
       description: this.description,
       ownerId: this.ownerId,
       inviteCode: this.inviteCode,
+      inviteRole: this.inviteRole,
       isActive: this.isActive,
       createdAt: this.createdAt,
       updatedAt: this.updatedAt
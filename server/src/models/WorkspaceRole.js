@@ -0,0 +1,188 @@
+const { getDatabase } = require('../config/database');
+const ActivityLogger = require('./ActivityLogger');
+
+// Roles in the order they are offered, most privileged first
+const ROLES = ['owner', 'admin', 'manager', 'contributor', 'viewer', 'client_guest'];
+
+// Resources and the actions a role can be granted on them ("<resource>:<action>").
+// time_entries:manage covers other members' time (timesheet review); tasks:comment is separate
+// from tasks:update so read-only roles can still discuss work.
+const RESOURCES = {
+  clients: ['view', 'create', 'update', 'delete'],
+  workflows: ['view', 'create', 'update', 'delete'],
+  tasks: ['view', 'create', 'update', 'delete', 'comment'],
+  time_entries: ['view', 'create', 'update', 'delete', 'manage'],
+  invoices: ['view', 'create', 'update', 'delete'],
+  settings: ['view', 'manage']
+};
+
+const ALL_PERMISSIONS = Object.entries(RESOURCES)
+  .flatMap(([resource, actions]) => actions.map(action => `${resource}:${action}`));
+
+// Owners and admins always hold every permission so a workspace cannot lock itself out
+const FIXED_ROLES = ['owner', 'admin'];
+
+const DEFAULT_PERMISSIONS = {
+  owner: ALL_PERMISSIONS,
+  admin: ALL_PERMISSIONS,
+  manager: [
+    'clients:view', 'clients:create', 'clients:update', 'clients:delete',
+    'workflows:view', 'workflows:create', 'workflows:update', 'workflows:delete',
+    'tasks:view', 'tasks:create', 'tasks:update', 'tasks:delete', 'tasks:comment',
+    'time_entries:view', 'time_entries:create', 'time_entries:update', 'time_entries:delete', 'time_entries:manage',
+    'invoices:view', 'invoices:create', 'invoices:update',
+    'settings:view'
+  ],
+  contributor: [
+    'clients:view',
+    'workflows:view',
+    'tasks:view', 'tasks:create', 'tasks:update', 'tasks:comment',
+    'time_entries:view', 'time_entries:create', 'time_entries:update', 'time_entries:delete'
+  ],
+  viewer: [
+    'clients:view',
+    'workflows:view',
+    'tasks:view'
+  ],
+  client_guest: [
+    'workflows:view',
+    'tasks:view', 'tasks:comment'
+  ]
+};
+
+class WorkspaceRole {
+  constructor(data = {}) {
+    this.workspaceId = data.workspaceId;
+    this.role = data.role;
+    this.permissions = data.permissions || [];
+    this.isCustomized = data.isCustomized || false;
+    this.updatedAt = data.updatedAt || null;
+  }
+
+  static isValidRole(role) {
+    return ROLES.includes(role);
+  }
+
+  // Owners and admins; they manage members and may moderate other people's content
+  static isAdminRole(role) {
+    return FIXED_ROLES.includes(role);
+  }
+
+  // Every role of a workspace with its effective permissions
+  static async findAllForWorkspace(workspaceId) {
+    const db = getDatabase();
+    const rows = await db.all(
+      'SELECT * FROM workspace_role_permissions WHERE workspace_id = ?',
+      [workspaceId]
+    );
+
+    return ROLES.map(role => {
+      const row = rows.find(item => item.role === role);
+      return row && !FIXED_ROLES.includes(role)
+        ? WorkspaceRole.fromDatabase(row)
+        : new WorkspaceRole({ workspaceId, role, permissions: DEFAULT_PERMISSIONS[role] });
+    });
+  }
+
+  static async find(workspaceId, role) {
+    if (!ROLES.includes(role)) return null;
+    if (FIXED_ROLES.includes(role)) {
+      return new WorkspaceRole({ workspaceId, role, permissions: DEFAULT_PERMISSIONS[role] });
+    }
+
+    const db = getDatabase();
+    const row = await db.get(
+      'SELECT * FROM workspace_role_permissions WHERE workspace_id = ? AND role = ?',
+      [workspaceId, role]
+    );
+    return row
+      ? WorkspaceRole.fromDatabase(row)
+      : new WorkspaceRole({ workspaceId, role, permissions: DEFAULT_PERMISSIONS[role] });
+  }
+
+  // Effective permissions of a user in a workspace; empty when they are not a member
+  static async permissionsForUser(userId, workspaceId) {
+    const db = getDatabase();
+    const member = await db.get(
+      'SELECT role FROM workspace_members WHERE user_id = ? AND workspace_id = ?',
+      [userId, workspaceId]
+    );
+    if (!member) return { role: null, permissions: [] };
+
+    const workspaceRole = await WorkspaceRole.find(workspaceId, member.role);
+    return { role: member.role, permissions: workspaceRole ? workspaceRole.permissions : [] };
+  }
+
+  static async userCan(userId, workspaceId, permission) {
+    const { permissions } = await WorkspaceRole.permissionsForUser(userId, workspaceId);
+    return permissions.includes(permission);
+  }
+
+  // Replace the permissions of a configurable role; unknown permissions are dropped
+  async update(permissions, performedBy = null) {
+    if (FIXED_ROLES.includes(this.role)) {
+      throw new Error(`The ${this.role} role cannot be changed`);
+    }
+
+    this.permissions = ALL_PERMISSIONS.filter(permission => permissions.includes(permission));
+    this.isCustomized = true;
+    this.updatedAt = new Date();
+
+    await getDatabase().run(`
+      INSERT INTO workspace_role_permissions (workspace_id, role, permissions, updated_at, updated_by)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(workspace_id, role) DO UPDATE SET
+        permissions = excluded.permissions, updated_at = excluded.updated_at, updated_by = excluded.updated_by
+    `, [this.workspaceId, this.role, JSON.stringify(this.permissions), this.updatedAt.toISOString(), performedBy]);
+
+    await ActivityLogger.log('workspace', this.workspaceId, 'role_permissions_updated', performedBy, {
+      role: this.role,
+      permissions: this.permissions
+    });
+
+    return this;
+  }
+
+  // Back to the built-in permissions of the role
+  async reset(performedBy = null) {
+    await getDatabase().run(
+      'DELETE FROM workspace_role_permissions WHERE workspace_id = ? AND role = ?',
+      [this.workspaceId, this.role]
+    );
+
+    this.permissions = DEFAULT_PERMISSIONS[this.role];
+    this.isCustomized = false;
+    this.updatedAt = null;
+
+    await ActivityLogger.log('workspace', this.workspaceId, 'role_permissions_reset', performedBy, { role: this.role });
+
+    return this;
+  }
+
+  static fromDatabase(row) {
+    return new WorkspaceRole({
+      workspaceId: row.workspace_id,
+      role: row.role,
+      permissions: JSON.parse(row.permissions || '[]'),
+      isCustomized: true,
+      updatedAt: row.updated_at ? new Date(row.updated_at) : null
+    });
+  }
+
+  toJSON() {
+    return {
+      role: this.role,
+      permissions: this.permissions,
+      isCustomized: this.isCustomized,
+      editable: !FIXED_ROLES.includes(this.role),
+      updatedAt: this.updatedAt
+    };
+  }
+}
+
+WorkspaceRole.ROLES = ROLES;
+WorkspaceRole.RESOURCES = RESOURCES;
+WorkspaceRole.ALL_PERMISSIONS = ALL_PERMISSIONS;
+WorkspaceRole.DEFAULT_PERMISSIONS = DEFAULT_PERMISSIONS;
+
+module.exports = WorkspaceRole;
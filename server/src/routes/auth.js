@@ -1,9 +1,12 @@
 const express = require('express');
-const { body, validationResult } = require('express-validator');
+const { body, query, validationResult } = require('express-validator');
 const { google } = require('googleapis');
 const qrcode = require('qrcode');
 const helmet = require('helmet');
 const User = require('../models/User');
+const Session = require('../models/Session');
+const SecurityEvent = require('../models/SecurityEvent');
+const ActivityLogger = require('../models/ActivityLogger');
 const { createAuthRateLimit, authenticate } = require('../middleware/auth');
 const emailService = require('../services/emailService');
 const router = express.Router();
@@ -34,10 +37,9 @@ const resetPasswordRateLimit = createAuthRateLimit(60 * 60 * 1000, 5); // 5 atte
 
 // Account lockout tracking (in production, use Redis)
 const accountLockouts = new Map();
-const deviceSessions = new Map(); // Track device sessions
 
-// Session revocation store (in production, use Redis)
-const revokedTokens = new Set();
+// Most rows a single security log export may contain
+const SECURITY_LOG_EXPORT_LIMIT = 10000;
 
 // Check for account lockout
 const checkAccountLockout = async (email) => {
@@ -50,7 +52,9 @@ const checkAccountLockout = async (email) => {
 };
 
 // Track failed login attempts
-const trackFailedLogin = async (email, ip, userAgent) => {
+const trackFailedLogin = async (email, req) => {
+  const ip = req.ip;
+  const userAgent = req.headers['user-agent'];
   const key = `failed_${email}`;
   const attempts = accountLockouts.get(key) || { count: 0, firstAttempt: Date.now(), ips: new Set() };
   attempts.count++;
@@ -64,6 +68,13 @@ const trackFailedLogin = async (email, ip, userAgent) => {
     
     // Send security alert email
     const user = await User.findByEmail(email);
+    await SecurityEvent.record(req, {
+      type: 'account_locked',
+      user,
+      email,
+      success: false,
+      details: { attempts: attempts.count }
+    });
     if (user) {
       try {
         await emailService.sendSecurityAlertEmail(
@@ -88,32 +99,35 @@ const clearFailedLogins = (email) => {
   accountLockouts.delete(email);
 };
 
-// Device fingerprinting helper
-const generateDeviceFingerprint = (req) => {
-  const userAgent = req.headers['user-agent'] || '';
-  const acceptLanguage = req.headers['accept-language'] || '';
-  const acceptEncoding = req.headers['accept-encoding'] || '';
-  const ip = req.ip || req.connection.remoteAddress;
-  
-  return Buffer.from(`${userAgent}:${acceptLanguage}:${acceptEncoding}:${ip}`).toString('base64');
+// Start a session for a completed sign-in and issue its token pair
+const startSession = async (user, req, rememberMe = false) => {
+  const session = Session.fromRequest(user.id, req, { rememberMe });
+  const tokenPair = user.generateTokenPair(rememberMe, session.id);
+
+  session.refreshTokenId = tokenPair.refreshTokenId;
+  session.expiresAt = tokenPair.refreshTokenExpires;
+  await session.save();
+
+  return tokenPair;
 };
 
-// Token blacklist middleware
-const checkTokenBlacklist = (req, res, next) => {
-  const authHeader = req.headers.authorization;
-  if (authHeader && authHeader.startsWith('Bearer ')) {
-    const token = authHeader.substring(7);
-    if (revokedTokens.has(token)) {
-      return res.status(401).json({ error: 'Token has been revoked' });
-    }
+// Audit an OAuth sign-in; the first one with a provider on an existing account links that provider
+const recordOAuthLogin = async (req, user, provider, isNewUser) => {
+  if (!isNewUser && !(await SecurityEvent.exists(user.id, 'login', 'method', provider))) {
+    await SecurityEvent.record(req, { type: 'oauth_linked', user, details: { provider } });
   }
-  next();
+  await SecurityEvent.record(req, { type: 'login', user, details: { method: provider, newAccount: isNewUser } });
 };
 
-// Apply token blacklist check to protected routes
-router.use('/me', checkTokenBlacklist);
-router.use('/2fa/*', checkTokenBlacklist);
-router.use('/revoke-token', checkTokenBlacklist);
+// Response body shared by every sign-in method
+const sessionResponse = (user, tokenPair, extra = {}) => ({
+  user: user.toSafeJSON(),
+  accessToken: tokenPair.accessToken,
+  refreshToken: tokenPair.refreshToken,
+  accessTokenExpires: tokenPair.accessTokenExpires.toISOString(),
+  refreshTokenExpires: tokenPair.refreshTokenExpires.toISOString(),
+  ...extra
+});
 
 // Google OAuth configuration
 const googleConfig = {
@@ -180,14 +194,21 @@ router.post('/login', loginRateLimit, validateLogin, async (req, res) => {
     // Find user by email
     const user = await User.findByEmail(email);
     if (!user) {
+      await SecurityEvent.record(req, {
+        type: 'login', email, success: false, details: { method: 'password', reason: 'unknown_email' }
+      });
       return res.status(401).json({ error: 'Invalid email or password' });
     }
 
     // Verify password
     const isValidPassword = await user.verifyPassword(password);
     if (!isValidPassword) {
+      await SecurityEvent.record(req, {
+        type: 'login', user, success: false, details: { method: 'password', reason: 'invalid_password' }
+      });
+
       // Track failed login attempt
-      await trackFailedLogin(email, req.ip, req.headers['user-agent']);
+      await trackFailedLogin(email, req);
       return res.status(401).json({ error: 'Invalid email or password' });
     }
 
@@ -205,8 +226,8 @@ router.post('/login', loginRateLimit, validateLogin, async (req, res) => {
     // Regular login flow (no 2FA)
     await user.updateLastLogin();
 
-    // Generate token pair with appropriate expiration
-    const tokenPair = user.generateTokenPair(rememberMe);
+    // Start a session with appropriate expiration
+    const tokenPair = await startSession(user, req, rememberMe);
 
     // Clear rate limit attempts on successful login
     if (req.clearAuthAttempts) {
@@ -216,14 +237,9 @@ router.post('/login', loginRateLimit, validateLogin, async (req, res) => {
     // Clear failed login attempts on successful login
     clearFailedLogins(email);
 
-    res.json({
-      user: user.toSafeJSON(),
-      accessToken: tokenPair.accessToken,
-      refreshToken: tokenPair.refreshToken,
-      accessTokenExpires: tokenPair.accessTokenExpires.toISOString(),
-      refreshTokenExpires: tokenPair.refreshTokenExpires.toISOString(),
-      rememberMe: rememberMe
-    });
+    await SecurityEvent.record(req, { type: 'login', user, details: { method: 'password', rememberMe } });
+
+    res.json(sessionResponse(user, tokenPair, { rememberMe }));
   } catch (error) {
     console.error('Login error:', error);
     res.status(500).json({ error: 'Login failed' });
@@ -268,6 +284,8 @@ router.post('/magic-link', magicLinkRateLimit, validateMagicLink, async (req, re
     
     const magicLink = `${process.env.FRONTEND_URL || 'http://localhost:5173'}${magicLinkPath}`;
 
+    await SecurityEvent.record(req, { type: 'magic_link_requested', user });
+
     try {
       // Send professional magic link email
       await emailService.sendMagicLinkEmail(user.email, magicLink, user.name);
@@ -309,6 +327,9 @@ router.post('/verify-magic-link', async (req, res) => {
     // Verify token
     const decoded = User.verifyToken(token);
     if (!decoded || decoded.type !== 'magic-link') {
+      await SecurityEvent.record(req, {
+        type: 'magic_link_used', success: false, details: { reason: 'invalid_or_expired' }
+      });
       return res.status(401).json({ error: 'Invalid or expired magic link' });
     }
 
@@ -318,6 +339,8 @@ router.post('/verify-magic-link', async (req, res) => {
       return res.status(401).json({ error: 'User not found' });
     }
 
+    await SecurityEvent.record(req, { type: 'magic_link_used', user });
+
     // Check if 2FA is enabled
     if (user.twoFactorEnabled) {
       // Don't update last login yet - wait for 2FA verification
@@ -333,16 +356,12 @@ router.post('/verify-magic-link', async (req, res) => {
     // Regular magic link login (no 2FA)
     await user.updateLastLogin();
 
-    // Generate new token pair
-    const tokenPair = user.generateTokenPair();
+    // Start a new session
+    const tokenPair = await startSession(user, req);
 
-    res.json({
-      user: user.toSafeJSON(),
-      accessToken: tokenPair.accessToken,
-      refreshToken: tokenPair.refreshToken,
-      accessTokenExpires: tokenPair.accessTokenExpires.toISOString(),
-      refreshTokenExpires: tokenPair.refreshTokenExpires.toISOString()
-    });
+    await SecurityEvent.record(req, { type: 'login', user, details: { method: 'magic_link' } });
+
+    res.json(sessionResponse(user, tokenPair));
   } catch (error) {
     console.error('Magic link verification error:', error);
     res.status(500).json({ error: 'Magic link verification failed' });
@@ -376,14 +395,10 @@ router.post('/register', validateRegister, async (req, res) => {
 
     await user.save();
 
-    // Generate token
-    const token = user.generateToken();
+    // Start a session
+    const tokenPair = await startSession(user, req);
 
-    res.status(201).json({
-      user: user.toSafeJSON(),
-      token,
-      expires: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString()
-    });
+    res.status(201).json(sessionResponse(user, tokenPair));
   } catch (error) {
     console.error('Registration error:', error);
     res.status(500).json({ error: 'Registration failed' });
@@ -391,38 +406,32 @@ router.post('/register', validateRegister, async (req, res) => {
 });
 
 // GET /auth/me - Get current user
-router.get('/me', async (req, res) => {
+router.get('/me', authenticate, async (req, res) => {
   try {
-    const authHeader = req.headers.authorization;
-    
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({ error: 'Access token required' });
-    }
-
-    const token = authHeader.substring(7);
-    const decoded = User.verifyToken(token);
-    
-    if (!decoded) {
-      return res.status(401).json({ error: 'Invalid or expired token' });
-    }
-
-    const user = await User.findById(decoded.id);
-    if (!user) {
-      return res.status(401).json({ error: 'User not found' });
-    }
-
-    res.json(user.toSafeJSON());
+    res.json(req.user.toSafeJSON());
   } catch (error) {
     console.error('Get current user error:', error);
     res.status(500).json({ error: 'Failed to get user data' });
   }
 });
 
-// POST /auth/logout - Logout (client-side token removal)
+// POST /auth/logout - Logout, ending the session of the access token (or of `refreshToken` once it has expired)
 router.post('/logout', async (req, res) => {
   try {
-    // In a more advanced implementation, you could blacklist tokens
-    // For now, we rely on client-side token removal
+    const authHeader = req.headers.authorization;
+    const decoded = (authHeader && authHeader.startsWith('Bearer ') && User.verifyToken(authHeader.substring(7)))
+      || (req.body && req.body.refreshToken && User.verifyRefreshToken(req.body.refreshToken));
+
+    if (decoded && decoded.sid) {
+      const session = await Session.findById(decoded.sid);
+      if (session && session.userId === decoded.id && session.isActive) {
+        await session.revoke('logout', decoded.id);
+        await SecurityEvent.record(req, {
+          type: 'logout', user: decoded, details: { sessionId: session.id }
+        });
+      }
+    }
+
     res.json({ message: 'Logged out successfully' });
   } catch (error) {
     console.error('Logout error:', error);
@@ -528,14 +537,12 @@ router.post('/callback/google', async (req, res) => {
       }
     }
 
-    // Generate JWT token
-    const token = user.generateToken();
+    // Start a session
+    const tokenPair = await startSession(user, req);
 
-    res.json({
-      user: user.toSafeJSON(),
-      token,
-      expires: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString()
-    });
+    await recordOAuthLogin(req, user, 'google', isNewUser);
+
+    res.json(sessionResponse(user, tokenPair));
   } catch (error) {
     console.error('❌ Google OAuth callback error:', error);
     
@@ -688,14 +695,12 @@ router.post('/callback/github', async (req, res) => {
       }
     }
 
-    // Generate JWT token
-    const token = user.generateToken();
+    // Start a session
+    const tokenPair = await startSession(user, req);
 
-    res.json({
-      user: user.toSafeJSON(),
-      token,
-      expires: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString()
-    });
+    await recordOAuthLogin(req, user, 'github', isNewUser);
+
+    res.json(sessionResponse(user, tokenPair));
   } catch (error) {
     console.error('❌ GitHub OAuth callback error:', error);
     
@@ -727,17 +732,31 @@ router.post('/refresh', [
 
     const { refreshToken } = req.body;
     
-    // Check if token is blacklisted
-    if (revokedTokens.has(refreshToken)) {
-      return res.status(401).json({ error: 'Refresh token has been revoked' });
-    }
-    
     // Verify refresh token
     const decoded = User.verifyRefreshToken(refreshToken);
     if (!decoded) {
       return res.status(401).json({ error: 'Invalid or expired refresh token' });
     }
 
+    // Refresh tokens issued before sessions existed cannot be revoked, so they are not accepted
+    if (!decoded.sid) {
+      return res.status(401).json({ error: 'Please sign in again' });
+    }
+
+    const session = await Session.findById(decoded.sid);
+    if (!session || !session.isActive || session.userId !== decoded.id) {
+      return res.status(401).json({ error: 'Session has been revoked' });
+    }
+
+    // A rotated-out refresh token was replayed, so someone may hold a copy: end the session
+    if (session.refreshTokenId !== decoded.tokenId) {
+      await session.revoke('refresh_token_reuse', decoded.id);
+      await SecurityEvent.record(req, {
+        type: 'refresh_token_reuse', user: decoded, success: false, details: { sessionId: session.id }
+      });
+      return res.status(401).json({ error: 'Refresh token has already been used' });
+    }
+
     // Find user
     const user = await User.findById(decoded.id);
     if (!user) {
@@ -749,25 +768,17 @@ router.post('/refresh', [
       return res.status(401).json({ error: 'Account is deactivated' });
     }
 
-    // Generate new token pair
-    const tokenPair = user.generateTokenPair();
-    
-    // Optionally revoke the old refresh token (token rotation)
-    revokedTokens.add(refreshToken);
+    // Generate new token pair; the old refresh token stops working (token rotation)
+    const tokenPair = user.generateTokenPair(session.rememberMe, session.id);
+    await session.rotate(tokenPair.refreshTokenId, tokenPair.refreshTokenExpires, req);
     
     // Log token refresh activity
     await ActivityLogger.log('user', user.id, 'token_refreshed', user.id, {
       email: user.email,
-      tokenId: decoded.tokenId
+      sessionId: session.id
     });
 
-    res.json({
-      user: user.toSafeJSON(),
-      accessToken: tokenPair.accessToken,
-      refreshToken: tokenPair.refreshToken,
-      accessTokenExpires: tokenPair.accessTokenExpires.toISOString(),
-      refreshTokenExpires: tokenPair.refreshTokenExpires.toISOString()
-    });
+    res.json(sessionResponse(user, tokenPair));
   } catch (error) {
     console.error('Token refresh error:', error);
     res.status(500).json({ error: 'Token refresh failed' });
@@ -834,6 +845,7 @@ router.post('/2fa/enable', authenticate, [
 
     // Enable 2FA and get backup codes
     const backupCodes = await user.enable2FA(token);
+    await SecurityEvent.record(req, { type: 'two_factor_enabled', user });
 
     // Send 2FA enabled notification email
     try {
@@ -881,6 +893,7 @@ router.post('/2fa/disable', authenticate, [
 
     // Disable 2FA
     await user.disable2FA(token);
+    await SecurityEvent.record(req, { type: 'two_factor_disabled', user });
 
     // Send 2FA disabled notification email
     try {
@@ -927,6 +940,7 @@ router.post('/2fa/regenerate-backup-codes', authenticate, [
 
     // Regenerate backup codes
     const backupCodes = await user.regenerateBackupCodes(token);
+    await SecurityEvent.record(req, { type: 'backup_codes_regenerated', user });
 
     res.json({
       message: 'Backup codes regenerated successfully',
@@ -1018,22 +1032,35 @@ router.post('/2fa/verify', twoFARate, [
 
     // Verify 2FA token
     console.log(`🔢 Verifying 2FA token: ${token} for user: ${email}`);
+    const unusedBackupCodes = user.twoFactorBackupCodes;
     const is2FAValid = user.verify2FAToken(token);
     console.log(`🔢 2FA verification result: ${is2FAValid}`);
     
+    const method = loginType === 'magic-link' ? 'magic_link' : 'password';
     if (!is2FAValid) {
       console.log('❌ Invalid 2FA token for user:', email);
+      await SecurityEvent.record(req, {
+        type: 'login', user, success: false, details: { method, twoFactor: true, reason: 'invalid_2fa_code' }
+      });
       return res.status(400).json({ error: 'Invalid 2FA code' });
     }
 
+    // verify2FAToken consumes a backup code when the TOTP code did not match
+    const usedBackupCode = user.twoFactorBackupCodes !== unusedBackupCodes;
+    if (usedBackupCode) {
+      await SecurityEvent.record(req, {
+        type: 'backup_code_used', user, details: { remaining: JSON.parse(user.twoFactorBackupCodes).length }
+      });
+    }
+
     console.log('✅ 2FA token verified successfully for user:', email);
 
     // Update last login and save 2FA usage
     await user.updateLastLogin();
     await user.save();
 
-    // Generate JWT token
-    const authToken = user.generateToken();
+    // Start a session
+    const tokenPair = await startSession(user, req);
 
     // Clear rate limit attempts on successful login
     if (req.clearAuthAttempts) {
@@ -1045,11 +1072,9 @@ router.post('/2fa/verify', twoFARate, [
 
     console.log('✅ 2FA verification completed successfully for user:', email);
 
-    res.json({
-      user: user.toSafeJSON(),
-      token: authToken,
-      expires: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString()
-    });
+    await SecurityEvent.record(req, { type: 'login', user, details: { method, twoFactor: true } });
+
+    res.json(sessionResponse(user, tokenPair));
   } catch (error) {
     console.error('❌ 2FA verification error:', error);
     res.status(500).json({ error: '2FA verification failed' });
@@ -1080,6 +1105,7 @@ router.post('/forgot-password', forgotPasswordRateLimit, [
 
     // Generate password reset token (expires in 1 hour)
     const resetToken = user.generatePasswordResetToken();
+    await SecurityEvent.record(req, { type: 'password_reset_requested', user });
     
     const resetLink = `${process.env.FRONTEND_URL || 'http://localhost:5173'}/reset-password?token=${resetToken}`;
 
@@ -1140,6 +1166,10 @@ router.post('/reset-password', resetPasswordRateLimit, [
     user.password = password;
     await user.save();
 
+    // Whoever knew the old password must not stay signed in
+    const revoked = await Session.revokeAllForUser(user.id, { reason: 'password_reset', performedBy: user.id });
+    await SecurityEvent.record(req, { type: 'password_reset', user, details: { sessionsRevoked: revoked } });
+
     // Send password reset confirmation email
     try {
       await emailService.sendPasswordResetConfirmationEmail(user.email, user.name);
@@ -1191,17 +1221,13 @@ router.post('/validate-reset-token', [
   }
 });
 
-// POST /auth/revoke-token - Revoke current token
+// POST /auth/revoke-token - Revoke the session of the current token
 router.post('/revoke-token', authenticate, async (req, res) => {
   try {
-    const authHeader = req.headers.authorization;
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      const token = authHeader.substring(7);
-      revokedTokens.add(token);
-      
-      // In production, store in Redis with TTL matching token expiration
-      console.log(`Token revoked for user ${req.user.id}`);
-    }
+    await req.authSession.revoke('revoked', req.user.id);
+    await SecurityEvent.record(req, {
+      type: 'session_revoked', user: req.user, details: { sessionId: req.authSession.id, device: req.authSession.device }
+    });
 
     res.json({ 
       message: 'Token revoked successfully',
@@ -1213,41 +1239,55 @@ router.post('/revoke-token', authenticate, async (req, res) => {
   }
 });
 
-// GET /auth/sessions - Get active sessions (placeholder for future implementation)
+// GET /auth/sessions - Get the current user's active sessions
 router.get('/sessions', authenticate, async (req, res) => {
   try {
-    const user = await User.findById(req.user.id);
-    if (!user) {
-      return res.status(404).json({ error: 'User not found' });
-    }
-
-    // In production, implement proper session tracking
-    const sessions = [
-      {
-        id: '1',
-        deviceFingerprint: generateDeviceFingerprint(req),
-        lastActive: new Date(),
-        isCurrent: true,
-        location: 'Unknown', // Would use IP geolocation in production
-        userAgent: req.headers['user-agent'] || 'Unknown'
-      }
-    ];
+    const currentSessionId = req.authSession.id;
+    const sessions = await Session.findActiveForUser(req.user.id);
 
-    res.json({ sessions });
+    res.json({ sessions: sessions.map(session => session.toJSON(currentSessionId)) });
   } catch (error) {
     console.error('Get sessions error:', error);
     res.status(500).json({ error: 'Failed to get sessions' });
   }
 });
 
-// POST /auth/revoke-all-sessions - Revoke all sessions except current
+// DELETE /auth/sessions/:id - Revoke one of the current user's sessions
+router.delete('/sessions/:id', authenticate, async (req, res) => {
+  try {
+    const session = await Session.findById(req.params.id);
+    if (!session || session.userId !== req.user.id || !session.isActive) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    await session.revoke('revoked', req.user.id);
+    await SecurityEvent.record(req, {
+      type: 'session_revoked', user: req.user, details: { sessionId: session.id, device: session.device }
+    });
+
+    res.json({ 
+      message: 'Session revoked successfully',
+      success: true 
+    });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({ error: 'Failed to revoke session' });
+  }
+});
+
+// POST /auth/revoke-all-sessions - Revoke all sessions except current (`includeCurrent: true` signs out everywhere)
 router.post('/revoke-all-sessions', authenticate, async (req, res) => {
   try {
-    // In production, implement proper session revocation
-    // For now, just return success
+    const includeCurrent = req.body && req.body.includeCurrent === true;
+    const revoked = await Session.revokeAllForUser(req.user.id, {
+      exceptId: includeCurrent ? null : req.authSession.id,
+      performedBy: req.user.id
+    });
+    await SecurityEvent.record(req, { type: 'sessions_revoked', user: req.user, details: { revoked, includeCurrent } });
     
     res.json({ 
-      message: 'All other sessions revoked successfully',
+      message: includeCurrent ? 'All sessions revoked successfully' : 'All other sessions revoked successfully',
+      revoked,
       success: true 
     });
   } catch (error) {
@@ -1256,31 +1296,89 @@ router.post('/revoke-all-sessions', authenticate, async (req, res) => {
   }
 });
 
-// GET /auth/security-logs - Get security activity logs
-router.get('/security-logs', authenticate, async (req, res) => {
+// Filters of the security log; only admins may look beyond their own account (`scope=all`, `email`)
+const validateSecurityLogQuery = [
+  query('type').optional().isIn(SecurityEvent.TYPES).withMessage('Invalid event type'),
+  query('success').optional().isBoolean().withMessage('success must be true or false'),
+  query('from').optional().isISO8601().withMessage('from must be a date'),
+  query('to').optional().isISO8601().withMessage('to must be a date'),
+  query('scope').optional().isIn(['me', 'all']).withMessage('scope must be me or all'),
+  query('email').optional().isString()
+];
+
+const securityLogFilters = (req) => {
+  const { type, success, from, to, scope, email } = req.query;
+  const allAccounts = scope === 'all' && req.user.role === 'admin';
+
+  return {
+    userId: allAccounts ? null : req.user.id,
+    email: allAccounts ? email : null,
+    type,
+    success: success === undefined ? undefined : success === 'true',
+    from,
+    to
+  };
+};
+
+// GET /auth/security-logs - Get security activity logs (paginated, newest first)
+router.get('/security-logs', authenticate, [
+  ...validateSecurityLogQuery,
+  query('page').optional().isInt({ min: 1 }).withMessage('page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 200 }).withMessage('limit must be between 1 and 200')
+], async (req, res) => {
   try {
-    const user = await User.findById(req.user.id);
-    if (!user) {
-      return res.status(404).json({ error: 'User not found' });
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
     }
 
-    // In production, implement proper security logging
-    const logs = [
-      {
-        id: '1',
-        type: 'login',
-        timestamp: user.lastLogin || new Date(),
-        ip: req.ip,
-        userAgent: req.headers['user-agent'] || 'Unknown',
-        success: true
-      }
-    ];
+    if (req.query.scope === 'all' && req.user.role !== 'admin') {
+      return res.status(403).json({ error: 'Insufficient permissions' });
+    }
 
-    res.json({ logs });
+    const page = parseInt(req.query.page, 10) || 1;
+    const limit = parseInt(req.query.limit, 10) || 25;
+    const filters = securityLogFilters(req);
+
+    const [events, total] = await Promise.all([
+      SecurityEvent.find(filters, { limit, offset: (page - 1) * limit }),
+      SecurityEvent.count(filters)
+    ]);
+
+    res.json({
+      logs: events.map(event => event.toJSON()),
+      total,
+      page,
+      limit
+    });
   } catch (error) {
     console.error('Get security logs error:', error);
     res.status(500).json({ error: 'Failed to get security logs' });
   }
 });
 
+// GET /auth/security-logs/export - Download the filtered security log as CSV
+router.get('/security-logs/export', authenticate, validateSecurityLogQuery, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (req.query.scope === 'all' && req.user.role !== 'admin') {
+      return res.status(403).json({ error: 'Insufficient permissions' });
+    }
+
+    const events = await SecurityEvent.find(securityLogFilters(req), { limit: SECURITY_LOG_EXPORT_LIMIT });
+    const filename = `security-log-${new Date().toISOString().slice(0, 10)}.csv`;
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(SecurityEvent.toCSV(events));
+  } catch (error) {
+    console.error('Export security logs error:', error);
+    res.status(500).json({ error: 'Failed to export security logs' });
+  }
+});
+
 module.exports = router;
\ No newline at end of file
@@ -0,0 +1,126 @@
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const BoardView = require('../models/BoardView');
+const { authenticate } = require('../middleware/auth');
+const { requireWorkspace, requirePermission } = require('../middleware/workspace');
+const router = express.Router();
+
+const configValidator = (value) => {
+  BoardView.normalizeConfig(value);
+  return true;
+};
+
+// Validation middleware
+const validateView = [
+  body('name').trim().notEmpty().withMessage('Name is required').isLength({ max: 100 }).withMessage('Name is too long'),
+  body('config').optional().custom(configValidator),
+  body('isShared').optional().isBoolean()
+];
+
+const validateViewUpdate = [
+  body('name').optional().trim().notEmpty().withMessage('Name cannot be empty').isLength({ max: 100 }).withMessage('Name is too long'),
+  body('config').optional().custom(configValidator),
+  body('isShared').optional().isBoolean()
+];
+
+router.use(authenticate, requireWorkspace, requirePermission('tasks:view'));
+
+// GET /api/board-views - Get the user's saved board views and those shared in the workspace
+router.get('/', async (req, res) => {
+  try {
+    const views = await BoardView.findVisibleTo(req.user.id, req.workspaceId);
+    res.json(views.map(view => view.toJSON()));
+  } catch (error) {
+    console.error('Error fetching board views:', error);
+    res.status(500).json({ error: 'Failed to fetch board views' });
+  }
+});
+
+// GET /api/board-views/:id - Get a board view (own or shared)
+router.get('/:id', async (req, res) => {
+  try {
+    const view = await BoardView.findById(req.params.id, req.workspaceId);
+    if (!view || (!view.isShared && !view.canEdit(req.user.id))) {
+      return res.status(404).json({ error: 'Board view not found' });
+    }
+
+    res.json(view.toJSON());
+  } catch (error) {
+    console.error('Error fetching board view:', error);
+    res.status(500).json({ error: 'Failed to fetch board view' });
+  }
+});
+
+// POST /api/board-views - Save the board's current layout as a named view
+router.post('/', validateView, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const view = new BoardView({
+      workspaceId: req.workspaceId,
+      userId: req.user.id,
+      ownerName: req.user.name,
+      name: req.body.name,
+      config: BoardView.normalizeConfig(req.body.config || {}),
+      isShared: req.body.isShared
+    });
+    await view.save();
+
+    res.status(201).json(view.toJSON());
+  } catch (error) {
+    console.error('Error creating board view:', error);
+    res.status(500).json({ error: 'Failed to create board view' });
+  }
+});
+
+// PUT /api/board-views/:id - Rename, change or (un)share a view; only its owner can
+router.put('/:id', validateViewUpdate, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const view = await BoardView.findById(req.params.id, req.workspaceId);
+    if (!view || (!view.isShared && !view.canEdit(req.user.id))) {
+      return res.status(404).json({ error: 'Board view not found' });
+    }
+    if (!view.canEdit(req.user.id)) {
+      return res.status(403).json({ error: 'Only the owner can change a shared view' });
+    }
+
+    if (req.body.name !== undefined) view.name = req.body.name;
+    if (req.body.config !== undefined) view.config = BoardView.normalizeConfig(req.body.config);
+    if (req.body.isShared !== undefined) view.isShared = Boolean(req.body.isShared);
+    await view.save();
+
+    res.json(view.toJSON());
+  } catch (error) {
+    console.error('Error updating board view:', error);
+    res.status(500).json({ error: 'Failed to update board view' });
+  }
+});
+
+// DELETE /api/board-views/:id - Delete a view; only its owner can
+router.delete('/:id', async (req, res) => {
+  try {
+    const view = await BoardView.findById(req.params.id, req.workspaceId);
+    if (!view || (!view.isShared && !view.canEdit(req.user.id))) {
+      return res.status(404).json({ error: 'Board view not found' });
+    }
+    if (!view.canEdit(req.user.id)) {
+      return res.status(403).json({ error: 'Only the owner can delete a shared view' });
+    }
+
+    await view.delete();
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting board view:', error);
+    res.status(500).json({ error: 'Failed to delete board view' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,147 @@
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const Budget = require('../models/Budget');
+const { authenticate } = require('../middleware/auth');
+const { requireWorkspace, requirePermission } = require('../middleware/workspace');
+const { getDatabase } = require('../config/database');
+const router = express.Router();
+
+// Validation middleware
+const validateBudget = [
+  body('hours').optional({ nullable: true }).isFloat({ gt: 0 }).withMessage('Hour budget must be a positive number'),
+  body('amount').optional({ nullable: true }).isFloat({ gt: 0 }).withMessage('Money budget must be a positive number'),
+  body('currency').optional().trim().isLength({ min: 3, max: 3 }).withMessage('Currency must be a 3-letter code'),
+  body('period').optional().isIn(Budget.PERIODS).withMessage('Period must be total or monthly'),
+  body('alertThresholds').optional().isArray({ max: 10 }).withMessage('Alert thresholds must be a list'),
+  body('alertThresholds.*').isInt({ min: 1, max: 1000 }).withMessage('Alert thresholds must be percentages'),
+];
+
+router.use(authenticate, requireWorkspace);
+
+// Budgets are addressed by the workflow or client they belong to
+const ENTITY_ROUTES = {
+  workflows: { entityType: 'workflow', table: 'workflows', label: 'Workflow' },
+  clients: { entityType: 'client', table: 'clients', label: 'Client' }
+};
+
+const findEntity = (route, entityId, workspaceId) => getDatabase().get(
+  `SELECT id FROM ${route.table} WHERE id = ? AND workspace_id = ?`,
+  [entityId, workspaceId]
+);
+
+// GET /api/budgets - Get all budgets for workspace with their current burn
+router.get('/', requirePermission('invoices:view'), async (req, res) => {
+  try {
+    const budgets = await Budget.findAll(req.workspaceId, req.query.entityType || null);
+    await Promise.all(budgets.map(budget => budget.computeBurn()));
+    res.json(budgets.map(budget => budget.toJSON()));
+  } catch (error) {
+    console.error('Error fetching budgets:', error);
+    res.status(500).json({ error: 'Failed to fetch budgets' });
+  }
+});
+
+// GET /api/budgets/alerts - Get budget threshold alerts (undismissed unless ?all=true)
+router.get('/alerts', requirePermission('invoices:view'), async (req, res) => {
+  try {
+    const alerts = await Budget.findAlerts(req.workspaceId, { includeDismissed: req.query.all === 'true' });
+    res.json(alerts);
+  } catch (error) {
+    console.error('Error fetching budget alerts:', error);
+    res.status(500).json({ error: 'Failed to fetch budget alerts' });
+  }
+});
+
+// PATCH /api/budgets/alerts/:id/dismiss - Dismiss a budget alert
+router.patch('/alerts/:id/dismiss', requirePermission('invoices:view'), async (req, res) => {
+  try {
+    const dismissed = await Budget.dismissAlert(req.params.id, req.workspaceId);
+    if (!dismissed) {
+      return res.status(404).json({ error: 'Budget alert not found' });
+    }
+
+    res.json({ message: 'Budget alert dismissed' });
+  } catch (error) {
+    console.error('Error dismissing budget alert:', error);
+    res.status(500).json({ error: 'Failed to dismiss budget alert' });
+  }
+});
+
+// GET /api/budgets/:entity/:entityId - Get the budget of a workflow or client with its burn
+router.get('/:entity(workflows|clients)/:entityId', requirePermission('invoices:view'), async (req, res) => {
+  try {
+    const route = ENTITY_ROUTES[req.params.entity];
+    const budget = await Budget.findForEntity(req.workspaceId, route.entityType, req.params.entityId);
+    if (!budget) {
+      return res.status(404).json({ error: 'Budget not found' });
+    }
+
+    await budget.computeBurn();
+    res.json(budget.toJSON());
+  } catch (error) {
+    console.error('Error fetching budget:', error);
+    res.status(500).json({ error: 'Failed to fetch budget' });
+  }
+});
+
+// PUT /api/budgets/:entity/:entityId - Create or update the budget of a workflow or client
+router.put('/:entity(workflows|clients)/:entityId', requirePermission('invoices:update'), validateBudget, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const route = ENTITY_ROUTES[req.params.entity];
+    const { entityId } = req.params;
+    if (!(await findEntity(route, entityId, req.workspaceId))) {
+      return res.status(404).json({ error: `${route.label} not found` });
+    }
+
+    const { hours = null, amount = null, currency, period, alertThresholds } = req.body;
+    if (!hours && !amount) {
+      return res.status(400).json({ error: 'Set an hour budget, a money budget or both' });
+    }
+
+    const existing = await Budget.findForEntity(req.workspaceId, route.entityType, entityId);
+    const budget = existing || new Budget({ workspaceId: req.workspaceId, entityType: route.entityType, entityId });
+    budget.hours = hours ? parseFloat(hours) : null;
+    budget.amount = amount ? parseFloat(amount) : null;
+    if (currency) budget.currency = currency.toUpperCase();
+    if (period) budget.period = period;
+    if (alertThresholds) {
+      budget.alertThresholds = [...new Set(alertThresholds.map(Number))].sort((a, b) => a - b);
+    }
+
+    await budget.save(req.user.id);
+
+    // Raising a limit does not re-arm alerts already fired, lowering one may fire new ones straight away
+    const saved = await Budget.findForEntity(req.workspaceId, route.entityType, entityId);
+    await saved.computeBurn();
+    await saved.checkAlerts();
+
+    res.status(existing ? 200 : 201).json(saved.toJSON());
+  } catch (error) {
+    console.error('Error saving budget:', error);
+    res.status(500).json({ error: 'Failed to save budget' });
+  }
+});
+
+// DELETE /api/budgets/:entity/:entityId - Remove the budget of a workflow or client
+router.delete('/:entity(workflows|clients)/:entityId', requirePermission('invoices:update'), async (req, res) => {
+  try {
+    const route = ENTITY_ROUTES[req.params.entity];
+    const budget = await Budget.findForEntity(req.workspaceId, route.entityType, req.params.entityId);
+    if (!budget) {
+      return res.status(404).json({ error: 'Budget not found' });
+    }
+
+    await budget.delete(req.user.id);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting budget:', error);
+    res.status(500).json({ error: 'Failed to delete budget' });
+  }
+});
+
+module.exports = router;
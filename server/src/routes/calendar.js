@@ -1,50 +1,374 @@
 const express = require('express');
+const crypto = require('crypto');
 const { v4: uuidv4 } = require('uuid');
 const { getDatabase } = require('../config/database');
 const { authenticate } = require('../middleware/auth');
-const Workspace = require('../models/Workspace');
+const { requireWorkspace, requirePermission } = require('../middleware/workspace');
+const WorkspaceRole = require('../models/WorkspaceRole');
+const Meeting = require('../models/Meeting');
+const realtime = require('../services/realtime');
+const recurrence = require('../services/recurrence');
+const ical = require('../services/ical');
+const calendarEvents = require('../services/calendarEvents');
 
 const router = express.Router();
 
-// Apply authentication middleware to all routes
-router.use(authenticate);
-
-// Helper function to get user's workspace ID
-const getUserWorkspaceId = async (req) => {
-  let workspaceId = req.headers['x-workspace-id'] || req.query.workspace_id;
-  
-  if (workspaceId) {
-    const isMember = await Workspace.isUserMember(req.user.id, workspaceId);
-    if (isMember) {
-      return workspaceId;
+// GET /api/calendar/feed/:token.ics - Calendar subscription feed; the secret token in the URL
+// stands in for authentication, since calendar apps cannot sign in
+router.get('/feed/:token', async (req, res) => {
+  try {
+    const feed = await findFeed(req.params.token.replace(/\.ics$/i, ''));
+    if (!feed) {
+      return res.status(404).json({ error: 'Calendar feed not found' });
     }
+
+    const body = await buildFeed(feed);
+    await getDatabase().run('UPDATE calendar_feeds SET last_accessed_at = CURRENT_TIMESTAMP WHERE id = ?', [feed.id]);
+
+    res.set('Content-Type', 'text/calendar; charset=utf-8');
+    res.set('Content-Disposition', 'inline; filename="calendar.ics"');
+    res.set('Cache-Control', 'private, max-age=300');
+    res.send(body);
+  } catch (error) {
+    console.error('Error building calendar feed:', error);
+    res.status(500).json({ error: 'Failed to build calendar feed' });
   }
-  
-  const userWorkspaces = await Workspace.findForUser(req.user.id);
-  if (userWorkspaces.length > 0) {
-    return userWorkspaces[0].id;
+});
+
+// Apply authentication and workspace middleware to all other routes. The calendar shows the workspace's
+// tasks and meetings next to the user's own events, so it needs tasks:view; client guests only get the portal
+router.use(authenticate, requireWorkspace);
+
+// Calendar events are private, so changes only go to the owner's other tabs and devices
+const publishEventChange = (req, type, data) => {
+  realtime.broadcast(type, data, realtime.originOf(req, { userId: req.user.id }));
+};
+
+// ===============================
+// RECURRENCE HELPERS
+// ===============================
+
+const EDIT_SCOPES = ['this', 'following', 'all'];
+
+const SELECT_EVENTS = `
+  SELECT
+    ce.*,
+    kt.title as task_title,
+    kt.description as task_description,
+    kt.priority as task_priority
+  FROM calendar_events ce
+  LEFT JOIN kanban_tasks kt ON ce.task_id = kt.id
+`;
+
+// API shape of an event row. Occurrences of a series keep the series id and carry their own
+// times; occurrenceStart identifies the occurrence when editing or deleting it.
+const formatEvent = (row, occurrence = null) => {
+  const isSeries = Boolean(row.recurrence_rule);
+  const isOverride = Boolean(row.recurrence_parent_id);
+
+  return {
+    id: row.id,
+    title: row.title,
+    startTime: occurrence ? occurrence.start.toISOString() : row.start_time,
+    endTime: occurrence ? occurrence.end.toISOString() : row.end_time,
+    allDay: row.all_day,
+    taskId: row.task_id,
+    taskTitle: row.task_title,
+    taskPriority: row.task_priority,
+    description: row.description,
+    eventType: row.event_type,
+    color: row.color,
+    recurrenceRule: row.recurrence_rule || null,
+    seriesId: isOverride ? row.recurrence_parent_id : (isSeries ? row.id : null),
+    occurrenceStart: occurrence
+      ? occurrence.start.toISOString()
+      : (isOverride ? row.original_start_time : (isSeries ? new Date(row.start_time).toISOString() : null)),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+};
+
+// The occurrences of a series row that overlap [from, to]
+const expandSeries = (row, from, to) => {
+  const start = new Date(row.start_time);
+  const durationMs = new Date(row.end_time).getTime() - start.getTime();
+  return recurrence.expand(row.recurrence_rule, start, { from, to, durationMs, exceptions: calendarEvents.parseExceptions(row) })
+    .map(occurrenceStart => ({ start: occurrenceStart, end: new Date(occurrenceStart.getTime() + durationMs) }));
+};
+
+// Whether `at` is an occurrence of the series (exceptions included)
+const isOccurrenceOf = (row, at) => {
+  const date = new Date(at);
+  if (isNaN(date.getTime())) return false;
+  const [match] = recurrence.expand(row.recurrence_rule, new Date(row.start_time), { from: date, to: date });
+  return Boolean(match) && match.getTime() === date.getTime();
+};
+
+// The date range a list request covers: startDate/endDate (an endDate without a time includes that
+// whole day) or the day, week or month of startDate; null without a startDate
+const requestedRange = ({ startDate, endDate, view = 'month' }) => {
+  if (!startDate) return null;
+  const from = new Date(startDate);
+  if (isNaN(from.getTime())) return null;
+
+  let to;
+  if (endDate) {
+    to = new Date(endDate);
+    if (/^\d{4}-\d{2}-\d{2}$/.test(endDate)) to = new Date(to.getTime() + 24 * 60 * 60 * 1000 - 1);
+  } else if (view === 'day') {
+    to = new Date(from.getTime() + 24 * 60 * 60 * 1000 - 1);
+  } else if (view === 'week') {
+    to = new Date(from.getTime() + 7 * 24 * 60 * 60 * 1000 - 1);
+  } else {
+    from.setUTCDate(1);
+    to = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth() + 1, 1) - 1);
   }
-  
-  throw new Error('No accessible workspace found for user');
+
+  return isNaN(to.getTime()) ? null : { from, to };
+};
+
+// Column values for the event fields present in a request body
+const eventColumns = ({ title, startTime, endTime, allDay, taskId, description, eventType, color, recurrenceRule }) => {
+  const columns = {};
+  if (title) columns.title = title;
+  if (startTime) columns.start_time = startTime;
+  if (endTime) columns.end_time = endTime;
+  if (allDay !== undefined) columns.all_day = allDay;
+  if (taskId !== undefined) columns.task_id = taskId || null;
+  if (description !== undefined) columns.description = description;
+  if (eventType) columns.event_type = eventType;
+  if (color) columns.color = color;
+  if (recurrenceRule !== undefined) columns.recurrence_rule = recurrenceRule || null;
+  return columns;
 };
 
 // ===============================
-// CALENDAR EVENTS CRUD ENDPOINTS
+// ICS FEED AND IMPORT
 // ===============================
 
-// GET /api/calendar - Get calendar events with filters
-router.get('/', async (req, res) => {
+// Events that ended longer ago than this are left out of the feed (series are always included)
+const FEED_HISTORY_DAYS = 180;
+
+// UID of an exported event: the UID it was imported with, or one made from its id
+const exportUid = (row) => row.ical_uid || `${row.id}@benders-workflow`;
+
+const feedUrl = (req, token) => `${req.protocol}://${req.get('host')}/api/calendar/feed/${token}.ics`;
+
+const formatFeed = (req, feed) => ({
+  url: feedUrl(req, feed.token),
+  createdAt: feed.created_at,
+  lastAccessedAt: feed.last_accessed_at
+});
+
+// The feed of a token, while its user is active and still belongs to the workspace
+async function findFeed(token) {
+  return getDatabase().get(`
+    SELECT cf.*, w.name as workspace_name
+    FROM calendar_feeds cf
+    JOIN users u ON u.id = cf.user_id
+    JOIN workspaces w ON w.id = cf.workspace_id
+    JOIN workspace_members wm ON wm.user_id = cf.user_id AND wm.workspace_id = cf.workspace_id
+    WHERE cf.token = ? AND u.is_active = 1 AND wm.role != 'client_guest'
+  `, [token]);
+}
+
+/**
+ * The ICS of a feed: the user's calendar events, the workspace's client meetings (with
+ * clients:view) and the due dates of tasks assigned to the user (with tasks:view)
+ */
+async function buildFeed(feed) {
+  const db = getDatabase();
+  const { permissions } = await WorkspaceRole.permissionsForUser(feed.user_id, feed.workspace_id);
+  const since = new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const events = [];
+
+  const rows = await db.all(`
+    SELECT * FROM calendar_events
+    WHERE user_id = ? AND workspace_id = ? AND (recurrence_rule IS NOT NULL OR end_time >= ?)
+    ORDER BY start_time ASC
+  `, [feed.user_id, feed.workspace_id, since]);
+  const rowsById = new Map(rows.map(row => [row.id, row]));
+
+  for (const row of rows) {
+    // Edited occurrences share the UID of their series and name the occurrence they replace
+    const series = row.recurrence_parent_id ? rowsById.get(row.recurrence_parent_id) : null;
+    if (row.recurrence_parent_id && !series) continue;
+
+    events.push({
+      uid: exportUid(series || row),
+      start: row.start_time,
+      end: row.end_time,
+      allDay: Boolean(row.all_day),
+      summary: row.title,
+      description: row.description,
+      rrule: row.recurrence_rule,
+      exdates: row.recurrence_rule ? calendarEvents.parseExceptions(row) : [],
+      recurrenceId: series ? row.original_start_time : null,
+      categories: [row.event_type]
+    });
+  }
+
+  if (permissions.includes('clients:view')) {
+    const meetingRows = await db.all(`
+      SELECT cm.*, c.name as client_name, c.company as client_company
+      FROM client_meetings cm
+      JOIN clients c ON cm.client_id = c.id
+      WHERE c.workspace_id = ? AND (cm.recurrence_rule IS NOT NULL OR cm.meeting_date >= ?)
+      ORDER BY cm.meeting_date ASC
+    `, [feed.workspace_id, since]);
+
+    for (const meeting of meetingRows.map(row => Meeting.fromDatabase(row))) {
+      const client = meeting.client && (meeting.client.company || meeting.client.name);
+      events.push({
+        uid: `meeting-${meeting.id}@benders-workflow`,
+        start: meeting.meetingDate,
+        end: new Date(meeting.meetingDate.getTime() + meeting.durationMinutes * 60000),
+        summary: client ? `${meeting.title} (${client})` : meeting.title,
+        description: meeting.description,
+        location: meeting.location,
+        status: meeting.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+        rrule: meeting.recurrenceRule,
+        exdates: meeting.recurrenceRule ? meeting.recurrenceExceptions : [],
+        categories: ['meeting']
+      });
+    }
+  }
+
+  if (permissions.includes('tasks:view')) {
+    const tasks = await db.all(`
+      SELECT kt.id, kt.title, kt.description, kt.due_date, kt.priority
+      FROM kanban_tasks kt
+      JOIN task_assignments ta ON ta.task_id = kt.id
+      LEFT JOIN workflows w ON kt.workflow_id = w.id
+      WHERE COALESCE(kt.workspace_id, w.workspace_id) = ? AND ta.member_id = ? AND kt.due_date IS NOT NULL
+        AND kt.status != 'done' AND kt.due_date >= ?
+    `, [feed.workspace_id, feed.user_id, since]);
+
+    for (const task of tasks) {
+      const due = new Date(task.due_date);
+      if (isNaN(due.getTime())) continue;
+      events.push({
+        uid: `task-${task.id}@benders-workflow`,
+        start: new Date(Date.UTC(due.getUTCFullYear(), due.getUTCMonth(), due.getUTCDate())),
+        allDay: true,
+        summary: `Due: ${task.title}`,
+        description: task.description,
+        categories: ['task', task.priority]
+      });
+    }
+  }
+
+  return ical.serialize({ name: feed.workspace_name, events });
+}
+
+// GET /api/calendar/feed-url - Get the user's calendar subscription URL (null until created)
+router.get('/feed-url', requirePermission('tasks:view'), async (req, res) => {
+  try {
+    const workspaceId = req.workspaceId;
+
+    const feed = await getDatabase().get(
+      'SELECT * FROM calendar_feeds WHERE user_id = ? AND workspace_id = ?',
+      [req.user.id, workspaceId]
+    );
+    res.json({ feed: feed ? formatFeed(req, feed) : null });
+  } catch (error) {
+    console.error('Error fetching calendar feed:', error);
+    res.status(500).json({ error: 'Failed to fetch calendar feed' });
+  }
+});
+
+// POST /api/calendar/feed-url - Create the calendar subscription URL, or replace it with a new one
+// (the old URL stops working)
+router.post('/feed-url', requirePermission('tasks:view'), async (req, res) => {
   try {
     const db = getDatabase();
+    const workspaceId = req.workspaceId;
+
+    const token = crypto.randomBytes(24).toString('hex');
+    const existing = await db.get(
+      'SELECT id FROM calendar_feeds WHERE user_id = ? AND workspace_id = ?',
+      [req.user.id, workspaceId]
+    );
+    if (existing) {
+      await db.run(`
+        UPDATE calendar_feeds SET token = ?, created_at = CURRENT_TIMESTAMP, last_accessed_at = NULL
+        WHERE id = ?
+      `, [token, existing.id]);
+    } else {
+      await db.run(
+        'INSERT INTO calendar_feeds (id, user_id, workspace_id, token) VALUES (?, ?, ?, ?)',
+        [uuidv4(), req.user.id, workspaceId, token]
+      );
+    }
+
+    const feed = await db.get('SELECT * FROM calendar_feeds WHERE token = ?', [token]);
+    res.status(existing ? 200 : 201).json({ feed: formatFeed(req, feed) });
+  } catch (error) {
+    console.error('Error creating calendar feed:', error);
+    res.status(500).json({ error: 'Failed to create calendar feed' });
+  }
+});
+
+// DELETE /api/calendar/feed-url - Revoke the calendar subscription URL
+router.delete('/feed-url', requirePermission('tasks:view'), async (req, res) => {
+  try {
+    const workspaceId = req.workspaceId;
+
+    await getDatabase().run(
+      'DELETE FROM calendar_feeds WHERE user_id = ? AND workspace_id = ?',
+      [req.user.id, workspaceId]
+    );
+    res.json({ message: 'Calendar feed revoked' });
+  } catch (error) {
+    console.error('Error revoking calendar feed:', error);
+    res.status(500).json({ error: 'Failed to revoke calendar feed' });
+  }
+});
+
+// POST /api/calendar/import - Import the events of an ICS file ({ ics, timeZone }). Events whose UID
+// is already in the calendar are counted as duplicates; events that cannot be represented are skipped.
+// `timeZone` (IANA name) applies to times without a time zone and to the weekdays of repeat rules.
+router.post('/import', requirePermission('tasks:view'), async (req, res) => {
+  try {
     const userId = req.user.id;
-    
-    // Get user's workspace ID
-    let workspaceId;
+    const workspaceId = req.workspaceId;
+
+    const { ics, timeZone } = req.body;
+    if (!ics || typeof ics !== 'string') {
+      return res.status(400).json({ error: 'The ICS file content is required' });
+    }
+
+    let parsed;
     try {
-      workspaceId = await getUserWorkspaceId(req);
+      parsed = ical.parse(ics, { timeZone: typeof timeZone === 'string' ? timeZone : null });
     } catch (error) {
-      return res.status(400).json({ error: 'No accessible workspace found. Please select a workspace first.' });
+      return res.status(400).json({ error: error.message });
     }
+
+    const result = await calendarEvents.importEvents(userId, workspaceId, parsed);
+
+    if (result.imported > 0) {
+      publishEventChange(req, 'calendar_event.created', { imported: result.imported });
+    }
+    res.status(result.imported > 0 ? 201 : 200).json(result);
+  } catch (error) {
+    console.error('Error importing calendar events:', error);
+    res.status(500).json({ error: 'Failed to import calendar events' });
+  }
+});
+
+// ===============================
+// CALENDAR EVENTS CRUD ENDPOINTS
+// ===============================
+
+// GET /api/calendar - Get calendar events with filters; recurring events are expanded into their occurrences in the range
+router.get('/', requirePermission('tasks:view'), async (req, res) => {
+  try {
+    const db = getDatabase();
+    const userId = req.user.id;
+    
+    // Get user's workspace ID
+    const workspaceId = req.workspaceId;
     
     const {
       startDate,
@@ -56,25 +380,11 @@ router.get('/', async (req, res) => {
       offset = 0
     } = req.query;
 
+    const range = requestedRange(req.query);
+
     let whereConditions = ['ce.user_id = ?', 'ce.workspace_id = ?'];
     let params = [userId, workspaceId];
 
-    // Add date filters based on view
-    if (startDate && endDate) {
-      whereConditions.push('(ce.start_time <= ? AND ce.end_time >= ?)');
-      params.push(endDate, startDate);
-    } else if (view === 'day' && startDate) {
-      whereConditions.push('DATE(ce.start_time) = ?');
-      params.push(startDate);
-    } else if (view === 'week' && startDate) {
-      whereConditions.push('DATE(ce.start_time) BETWEEN ? AND DATE(?, "+6 days")');
-      params.push(startDate, startDate);
-    } else if (view === 'month' && startDate) {
-      // Get first and last day of month
-      whereConditions.push('strftime("%Y-%m", ce.start_time) = strftime("%Y-%m", ?)');
-      params.push(startDate);
-    }
-
     if (eventType) {
       whereConditions.push('ce.event_type = ?');
       params.push(eventType);
@@ -85,47 +395,44 @@ router.get('/', async (req, res) => {
       params.push(taskId);
     }
 
-    const whereClause = whereConditions.join(' AND ');
+    // One-off events (and edited occurrences) overlapping the range
+    const oneOffConditions = [...whereConditions];
+    const oneOffParams = [...params];
+    if (range) {
+      oneOffConditions.push('ce.recurrence_rule IS NULL', '(ce.start_time <= ? AND ce.end_time >= ?)');
+      oneOffParams.push(range.to.toISOString(), range.from.toISOString());
+    }
 
-    // Get calendar events with task info
     const events = await db.all(`
-      SELECT 
-        ce.*,
-        kt.title as task_title,
-        kt.description as task_description,
-        kt.priority as task_priority
-      FROM calendar_events ce
-      LEFT JOIN kanban_tasks kt ON ce.task_id = kt.id
-      WHERE ${whereClause}
+      ${SELECT_EVENTS}
+      WHERE ${oneOffConditions.join(' AND ')}
       ORDER BY ce.start_time ASC
       LIMIT ? OFFSET ?
-    `, [...params, parseInt(limit), parseInt(offset)]);
-
-    // Get total count for pagination
-    const totalResult = await db.get(`
-      SELECT COUNT(*) as total
-      FROM calendar_events ce
-      WHERE ${whereConditions.join(' AND ')}
-    `, params.slice(0, -2)); // Remove limit/offset params
+    `, [...oneOffParams, parseInt(limit), parseInt(offset)]);
+
+    const formatted = events.map(event => formatEvent(event));
+
+    // Series that started before the end of the range
+    if (range) {
+      const seriesRows = await db.all(`
+        ${SELECT_EVENTS}
+        WHERE ${whereConditions.join(' AND ')} AND ce.recurrence_rule IS NOT NULL AND ce.start_time <= ?
+      `, [...params, range.to.toISOString()]);
+
+      for (const series of seriesRows) {
+        try {
+          expandSeries(series, range.from, range.to).forEach(occurrence => formatted.push(formatEvent(series, occurrence)));
+        } catch (error) {
+          console.error(`Error expanding recurring event ${series.id}:`, error);
+        }
+      }
+      formatted.sort((a, b) => new Date(a.startTime) - new Date(b.startTime));
+    }
 
     res.json({
-      events: events.map(event => ({
-        id: event.id,
-        title: event.title,
-        startTime: event.start_time,
-        endTime: event.end_time,
-        allDay: event.all_day,
-        taskId: event.task_id,
-        taskTitle: event.task_title,
-        taskPriority: event.task_priority,
-        description: event.description,
-        eventType: event.event_type,
-        color: event.color,
-        createdAt: event.created_at,
-        updatedAt: event.updated_at
-      })),
+      events: formatted,
       pagination: {
-        total: events.length,
+        total: formatted.length,
         limit: parseInt(limit),
         offset: parseInt(offset),
         hasMore: false
@@ -139,41 +446,57 @@ router.get('/', async (req, res) => {
   }
 });
 
-// GET /api/calendar/upcoming - Get upcoming events (next 7 days)
-router.get('/upcoming', async (req, res) => {
+// GET /api/calendar/upcoming - Get upcoming events (next 7 days), including occurrences of recurring events
+router.get('/upcoming', requirePermission('tasks:view'), async (req, res) => {
   try {
     const db = getDatabase();
     const userId = req.user.id;
-    const workspaceId = req.user.workspaceId || 'default-workspace';
+    const workspaceId = req.workspaceId;
     
     const { limit = 10 } = req.query;
+    const from = new Date();
+    const to = new Date(from.getTime() + 7 * 24 * 60 * 60 * 1000);
 
     const events = await db.all(`
-      SELECT 
-        ce.*,
-        kt.title as task_title,
-        kt.priority as task_priority
-      FROM calendar_events ce
-      LEFT JOIN kanban_tasks kt ON ce.task_id = kt.id
-      WHERE ce.user_id = ? AND ce.workspace_id = ? 
+      ${SELECT_EVENTS}
+      WHERE ce.user_id = ? AND ce.workspace_id = ? AND ce.recurrence_rule IS NULL
         AND datetime(ce.start_time) >= datetime('now')
         AND datetime(ce.start_time) <= datetime('now', '+7 days')
       ORDER BY ce.start_time ASC
       LIMIT ?
     `, [userId, workspaceId, parseInt(limit)]);
 
+    const seriesRows = await db.all(`
+      ${SELECT_EVENTS}
+      WHERE ce.user_id = ? AND ce.workspace_id = ? AND ce.recurrence_rule IS NOT NULL AND ce.start_time <= ?
+    `, [userId, workspaceId, to.toISOString()]);
+
+    const upcoming = events.map(event => formatEvent(event));
+    for (const series of seriesRows) {
+      try {
+        expandSeries(series, from, to)
+          .filter(occurrence => occurrence.start >= from)
+          .forEach(occurrence => upcoming.push(formatEvent(series, occurrence)));
+      } catch (error) {
+        console.error(`Error expanding recurring event ${series.id}:`, error);
+      }
+    }
+    upcoming.sort((a, b) => new Date(a.startTime) - new Date(b.startTime));
+
     res.json({
-      upcomingEvents: events.map(event => ({
+      upcomingEvents: upcoming.slice(0, parseInt(limit)).map(event => ({
         id: event.id,
         title: event.title,
-        startTime: event.start_time,
-        endTime: event.end_time,
-        allDay: event.all_day,
-        taskId: event.task_id,
-        taskTitle: event.task_title,
-        taskPriority: event.task_priority,
-        eventType: event.event_type,
-        color: event.color
+        startTime: event.startTime,
+        endTime: event.endTime,
+        allDay: event.allDay,
+        taskId: event.taskId,
+        taskTitle: event.taskTitle,
+        taskPriority: event.taskPriority,
+        eventType: event.eventType,
+        color: event.color,
+        recurrenceRule: event.recurrenceRule,
+        occurrenceStart: event.occurrenceStart
       }))
     });
   } catch (error) {
@@ -183,11 +506,11 @@ router.get('/upcoming', async (req, res) => {
 });
 
 // POST /api/calendar - Create new calendar event
-router.post('/', async (req, res) => {
+router.post('/', requirePermission('tasks:view'), async (req, res) => {
   try {
     const db = getDatabase();
     const userId = req.user.id;
-    const workspaceId = req.user.workspaceId || 'default-workspace';
+    const workspaceId = req.workspaceId;
     
     const {
       title,
@@ -197,7 +520,8 @@ router.post('/', async (req, res) => {
       taskId,
       description,
       eventType = 'task',
-      color = '#3b82f6'
+      color = '#3b82f6',
+      recurrenceRule
     } = req.body;
 
     // Validate required fields
@@ -215,6 +539,13 @@ router.post('/', async (req, res) => {
       });
     }
 
+    if (recurrenceRule) {
+      const ruleError = recurrence.validate(recurrenceRule);
+      if (ruleError) {
+        return res.status(400).json({ error: ruleError });
+      }
+    }
+
     // Validate date range
     const start = new Date(startTime);
     const end = new Date(endTime);
@@ -227,7 +558,9 @@ router.post('/', async (req, res) => {
     // Validate task exists if provided
     if (taskId) {
       const task = await db.get(`
-        SELECT id FROM kanban_tasks WHERE id = ? AND workspace_id = ?
+        SELECT kt.id FROM kanban_tasks kt
+        LEFT JOIN workflows w ON kt.workflow_id = w.id
+        WHERE kt.id = ? AND COALESCE(kt.workspace_id, w.workspace_id) = ?
       `, [taskId, workspaceId]);
       
       if (!task) {
@@ -244,43 +577,27 @@ router.post('/', async (req, res) => {
     `, [userId, workspaceId, startTime, startTime, endTime, endTime]);
 
     // Create calendar event
-    const eventId = uuidv4();
-    await db.run(`
-      INSERT INTO calendar_events (
-        id, user_id, workspace_id, title, start_time, end_time, all_day,
-        task_id, description, event_type, color
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `, [
-      eventId, userId, workspaceId, title, startTime, endTime, allDay,
-      taskId, description, eventType, color
-    ]);
+    const eventId = await calendarEvents.insertEvent(db, {
+      user_id: userId,
+      workspace_id: workspaceId,
+      title,
+      start_time: startTime,
+      end_time: endTime,
+      all_day: allDay,
+      task_id: taskId,
+      description,
+      event_type: eventType,
+      color,
+      recurrence_rule: recurrenceRule || null
+    });
 
     // Get the created event with task info
-    const newEvent = await db.get(`
-      SELECT 
-        ce.*,
-        kt.title as task_title,
-        kt.priority as task_priority
-      FROM calendar_events ce
-      LEFT JOIN kanban_tasks kt ON ce.task_id = kt.id
-      WHERE ce.id = ?
-    `, [eventId]);
+    const event = formatEvent(await db.get(`${SELECT_EVENTS} WHERE ce.id = ?`, [eventId]));
 
+    publishEventChange(req, 'calendar_event.created', event);
     res.status(201).json({
       message: 'Calendar event created successfully',
-      event: {
-        id: newEvent.id,
-        title: newEvent.title,
-        startTime: newEvent.start_time,
-        endTime: newEvent.end_time,
-        allDay: newEvent.all_day,
-        taskId: newEvent.task_id,
-        taskTitle: newEvent.task_title,
-        taskPriority: newEvent.task_priority,
-        description: newEvent.description,
-        eventType: newEvent.event_type,
-        color: newEvent.color
-      },
+      event,
       conflicts: conflictingEvents.length > 0 ? {
         hasConflicts: true,
         conflictingEvents: conflictingEvents.map(e => ({
@@ -295,23 +612,22 @@ router.post('/', async (req, res) => {
   }
 });
 
-// PUT /api/calendar/:id - Update calendar event
-router.put('/:id', async (req, res) => {
+// PUT /api/calendar/:id - Update calendar event. For recurring events, `scope` ('this', 'following' or 'all')
+// and `occurrenceStart` choose the occurrences the change applies to
+router.put('/:id', requirePermission('tasks:view'), async (req, res) => {
   try {
     const db = getDatabase();
     const userId = req.user.id;
-    const workspaceId = req.user.workspaceId || 'default-workspace';
+    const workspaceId = req.workspaceId;
     const { id } = req.params;
     
     const {
-      title,
       startTime,
       endTime,
-      allDay,
       taskId,
-      description,
       eventType,
-      color
+      recurrenceRule,
+      scope = 'all'
     } = req.body;
 
     // Check if event exists and belongs to user
@@ -323,6 +639,10 @@ router.put('/:id', async (req, res) => {
       return res.status(404).json({ error: 'Calendar event not found' });
     }
 
+    if (!EDIT_SCOPES.includes(scope)) {
+      return res.status(400).json({ error: 'Invalid scope. Must be one of: this, following, all' });
+    }
+
     // Validate date range if both times provided
     if (startTime && endTime) {
       const start = new Date(startTime);
@@ -334,48 +654,17 @@ router.put('/:id', async (req, res) => {
       }
     }
 
-    // Build update query dynamically
-    const updates = [];
-    const params = [];
-
-    if (title) {
-      updates.push('title = ?');
-      params.push(title);
-    }
-
-    if (startTime) {
-      updates.push('start_time = ?');
-      params.push(startTime);
-    }
-
-    if (endTime) {
-      updates.push('end_time = ?');
-      params.push(endTime);
-    }
-
-    if (allDay !== undefined) {
-      updates.push('all_day = ?');
-      params.push(allDay);
-    }
-
-    if (taskId !== undefined) {
-      if (taskId) {
-        // Validate task exists
-        const task = await db.get(`
-          SELECT id FROM kanban_tasks WHERE id = ? AND workspace_id = ?
-        `, [taskId, workspaceId]);
-        
-        if (!task) {
-          return res.status(404).json({ error: 'Task not found' });
-        }
+    if (taskId) {
+      // Validate task exists
+      const task = await db.get(`
+        SELECT kt.id FROM kanban_tasks kt
+        LEFT JOIN workflows w ON kt.workflow_id = w.id
+        WHERE kt.id = ? AND COALESCE(kt.workspace_id, w.workspace_id) = ?
+      `, [taskId, workspaceId]);
+      
+      if (!task) {
+        return res.status(404).json({ error: 'Task not found' });
       }
-      updates.push('task_id = ?');
-      params.push(taskId);
-    }
-
-    if (description !== undefined) {
-      updates.push('description = ?');
-      params.push(description);
     }
 
     if (eventType) {
@@ -385,54 +674,50 @@ router.put('/:id', async (req, res) => {
           error: 'Invalid event type. Must be one of: task, meeting, break, personal' 
         });
       }
-      updates.push('event_type = ?');
-      params.push(eventType);
     }
 
-    if (color) {
-      updates.push('color = ?');
-      params.push(color);
+    if (recurrenceRule) {
+      const ruleError = recurrence.validate(recurrenceRule);
+      if (ruleError) {
+        return res.status(400).json({ error: ruleError });
+      }
     }
 
-    if (updates.length === 0) {
+    const changes = eventColumns(req.body);
+    if (Object.keys(changes).length === 0) {
       return res.status(400).json({ error: 'No fields to update' });
     }
 
-    updates.push('updated_at = CURRENT_TIMESTAMP');
-    params.push(id, userId, workspaceId);
+    // An occurrence edited earlier stands for its series when the edit reaches further than itself
+    let series = existingEvent.recurrence_rule ? existingEvent : null;
+    let occurrenceStart = req.body.occurrenceStart || null;
+    if (existingEvent.recurrence_parent_id && scope !== 'this') {
+      series = await db.get('SELECT * FROM calendar_events WHERE id = ?', [existingEvent.recurrence_parent_id]);
+      occurrenceStart = existingEvent.original_start_time;
+    }
 
-    await db.run(`
-      UPDATE calendar_events 
-      SET ${updates.join(', ')}
-      WHERE id = ? AND user_id = ? AND workspace_id = ?
-    `, params);
+    if (series && scope !== 'all' && !(occurrenceStart && isOccurrenceOf(series, occurrenceStart))) {
+      return res.status(400).json({ error: 'occurrenceStart must be an occurrence of the recurring event' });
+    }
+
+    let updatedId = id;
+    if (series) {
+      updatedId = await calendarEvents.editSeries(series, scope, occurrenceStart, changes);
+    } else {
+      if (existingEvent.recurrence_parent_id) {
+        // An edited occurrence cannot start a series of its own
+        delete changes.recurrence_rule;
+      }
+      await calendarEvents.updateEvent(db, id, changes);
+    }
 
     // Get updated event
-    const updatedEvent = await db.get(`
-      SELECT 
-        ce.*,
-        kt.title as task_title,
-        kt.priority as task_priority
-      FROM calendar_events ce
-      LEFT JOIN kanban_tasks kt ON ce.task_id = kt.id
-      WHERE ce.id = ?
-    `, [id]);
+    const event = formatEvent(await db.get(`${SELECT_EVENTS} WHERE ce.id = ?`, [updatedId]));
 
+    publishEventChange(req, 'calendar_event.updated', event);
     res.json({
       message: 'Calendar event updated successfully',
-      event: {
-        id: updatedEvent.id,
-        title: updatedEvent.title,
-        startTime: updatedEvent.start_time,
-        endTime: updatedEvent.end_time,
-        allDay: updatedEvent.all_day,
-        taskId: updatedEvent.task_id,
-        taskTitle: updatedEvent.task_title,
-        taskPriority: updatedEvent.task_priority,
-        description: updatedEvent.description,
-        eventType: updatedEvent.event_type,
-        color: updatedEvent.color
-      }
+      event
     });
   } catch (error) {
     console.error('Error updating calendar event:', error);
@@ -440,13 +725,15 @@ router.put('/:id', async (req, res) => {
   }
 });
 
-// DELETE /api/calendar/:id - Delete calendar event
-router.delete('/:id', async (req, res) => {
+// DELETE /api/calendar/:id - Delete calendar event. For recurring events, the `scope` and
+// `occurrenceStart` query parameters choose the occurrences to delete
+router.delete('/:id', requirePermission('tasks:view'), async (req, res) => {
   try {
     const db = getDatabase();
     const userId = req.user.id;
-    const workspaceId = req.user.workspaceId || 'default-workspace';
+    const workspaceId = req.workspaceId;
     const { id } = req.params;
+    const { scope = 'all' } = req.query;
 
     // Check if event exists and belongs to user
     const existingEvent = await db.get(`
@@ -457,10 +744,31 @@ router.delete('/:id', async (req, res) => {
       return res.status(404).json({ error: 'Calendar event not found' });
     }
 
-    await db.run(`
-      DELETE FROM calendar_events WHERE id = ? AND user_id = ? AND workspace_id = ?
-    `, [id, userId, workspaceId]);
+    if (!EDIT_SCOPES.includes(scope)) {
+      return res.status(400).json({ error: 'Invalid scope. Must be one of: this, following, all' });
+    }
+
+    let series = existingEvent.recurrence_rule ? existingEvent : null;
+    let occurrenceStart = req.query.occurrenceStart || null;
+    if (existingEvent.recurrence_parent_id && scope !== 'this') {
+      series = await db.get('SELECT * FROM calendar_events WHERE id = ?', [existingEvent.recurrence_parent_id]);
+      occurrenceStart = existingEvent.original_start_time;
+    }
+
+    if (series && scope !== 'all' && !(occurrenceStart && isOccurrenceOf(series, occurrenceStart))) {
+      return res.status(400).json({ error: 'occurrenceStart must be an occurrence of the recurring event' });
+    }
 
+    if (series) {
+      await calendarEvents.deleteFromSeries(series, scope, occurrenceStart);
+    } else {
+      // Deleting an edited occurrence keeps it out of its series: its start is already an exception
+      await db.run(`
+        DELETE FROM calendar_events WHERE id = ? AND user_id = ? AND workspace_id = ?
+      `, [id, userId, workspaceId]);
+    }
+
+    publishEventChange(req, 'calendar_event.deleted', { id: series ? series.id : id, scope, occurrenceStart });
     res.json({ message: 'Calendar event deleted successfully' });
   } catch (error) {
     console.error('Error deleting calendar event:', error);
@@ -469,11 +777,11 @@ router.delete('/:id', async (req, res) => {
 });
 
 // POST /api/calendar/bulk-create - Create multiple events (e.g., recurring events)
-router.post('/bulk-create', async (req, res) => {
+router.post('/bulk-create', requirePermission('tasks:view'), async (req, res) => {
   try {
     const db = getDatabase();
     const userId = req.user.id;
-    const workspaceId = req.user.workspaceId || 'default-workspace';
+    const workspaceId = req.workspaceId;
     
     const { events } = req.body;
 
@@ -516,7 +824,9 @@ router.post('/bulk-create', async (req, res) => {
         // Validate task exists if provided
         if (taskId) {
           const task = await db.get(`
-            SELECT id FROM kanban_tasks WHERE id = ? AND workspace_id = ?
+            SELECT kt.id FROM kanban_tasks kt
+            LEFT JOIN workflows w ON kt.workflow_id = w.id
+            WHERE kt.id = ? AND COALESCE(kt.workspace_id, w.workspace_id) = ?
           `, [taskId, workspaceId]);
           
           if (!task) {
@@ -559,6 +869,7 @@ router.post('/bulk-create', async (req, res) => {
       }
     }
 
+    createdEvents.forEach(event => publishEventChange(req, 'calendar_event.created', event));
     res.status(201).json({
       message: `Successfully created ${createdEvents.length} events`,
       createdEvents,
@@ -576,19 +887,14 @@ router.post('/bulk-create', async (req, res) => {
 });
 
 // PATCH /api/calendar/events/:id/complete - Mark calendar event as completed
-router.patch('/events/:id/complete', async (req, res) => {
+router.patch('/events/:id/complete', requirePermission('tasks:view'), async (req, res) => {
   try {
     const db = getDatabase();
     const userId = req.user.id;
     const { id } = req.params;
     
     // Get user's workspace ID
-    let workspaceId;
-    try {
-      workspaceId = await getUserWorkspaceId(req);
-    } catch (error) {
-      return res.status(400).json({ error: 'No accessible workspace found. Please select a workspace first.' });
-    }
+    const workspaceId = req.workspaceId;
 
     // Check if event exists and belongs to user
     const existingEvent = await db.get(`
@@ -617,10 +923,12 @@ router.patch('/events/:id/complete', async (req, res) => {
       await db.run(`
         UPDATE kanban_tasks 
         SET status = 'done', updated_at = CURRENT_TIMESTAMP
-        WHERE id = ? AND workspace_id = ?
+        WHERE id = ? AND COALESCE(workspace_id, (SELECT workspace_id FROM workflows WHERE id = kanban_tasks.workflow_id)) = ?
       `, [existingEvent.task_id, workspaceId]);
+      realtime.publish(workspaceId, 'task.updated', { id: existingEvent.task_id, status: 'done' }, realtime.originOf(req));
     }
 
+    publishEventChange(req, 'calendar_event.updated', { id, completed: true });
     res.json({ 
       message: 'Calendar event marked as completed successfully',
       completed: true
@@ -632,18 +940,13 @@ router.patch('/events/:id/complete', async (req, res) => {
 });
 
 // GET /api/calendar/events/completed-count - Get count of completed events
-router.get('/events/completed-count', async (req, res) => {
+router.get('/events/completed-count', requirePermission('tasks:view'), async (req, res) => {
   try {
     const db = getDatabase();
     const userId = req.user.id;
     
     // Get user's workspace ID
-    let workspaceId;
-    try {
-      workspaceId = await getUserWorkspaceId(req);
-    } catch (error) {
-      return res.status(400).json({ error: 'No accessible workspace found. Please select a workspace first.' });
-    }
+    const workspaceId = req.workspaceId;
 
     const { start_date, end_date } = req.query;
     
@@ -664,10 +967,11 @@ router.get('/events/completed-count', async (req, res) => {
     // Count completed kanban tasks for same period
     const kanbanCompleted = await db.get(`
       SELECT COUNT(*) as count
-      FROM kanban_tasks
-      WHERE workspace_id = ?
-        AND status = 'done'
-        AND updated_at >= ? AND updated_at <= ?
+      FROM kanban_tasks kt
+      LEFT JOIN workflows w ON kt.workflow_id = w.id
+      WHERE COALESCE(kt.workspace_id, w.workspace_id) = ?
+        AND kt.status = 'done'
+        AND kt.updated_at >= ? AND kt.updated_at <= ?
     `, [workspaceId, startDate, endDate]);
 
     const totalCompleted = (calendarCompleted.count || 0) + (kanbanCompleted.count || 0);
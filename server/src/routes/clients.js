@@ -2,8 +2,11 @@ const express = require('express');
 const crypto = require('crypto');
 const { body, validationResult } = require('express-validator');
 const Client = require('../models/Client');
+const ClientContact = require('../models/ClientContact');
+const WorkflowTemplate = require('../models/WorkflowTemplate');
 const { authenticate } = require('../middleware/auth');
-const { requireWorkspace } = require('../middleware/workspace');
+const { requireWorkspace, requirePermission } = require('../middleware/workspace');
+const emailService = require('../services/emailService');
 const router = express.Router();
 const { getDatabase } = require('../config/database');
 
@@ -13,10 +16,17 @@ const validateClient = [
   body('email').isEmail().withMessage('Valid email is required'),
   body('company').optional().trim(),
   body('phone').optional().trim(),
+  body('templateId').optional(),
+  body('templateStartDate').optional().isISO8601(),
+];
+
+const validateContact = [
+  body('email').optional().isEmail().withMessage('Valid email is required'),
+  body('name').optional().trim().isLength({ max: 100 }).withMessage('Name must be less than 100 characters'),
 ];
 
 // GET /api/clients - Get all clients for workspace
-router.get('/', authenticate, requireWorkspace, async (req, res) => {
+router.get('/', authenticate, requireWorkspace, requirePermission('clients:view'), async (req, res) => {
   try {
     const includeInactive = req.query.include_inactive === 'true';
     
@@ -46,7 +56,7 @@ router.get('/', authenticate, requireWorkspace, async (req, res) => {
 });
 
 // GET /api/clients/:id - Get client by ID
-router.get('/:id', authenticate, requireWorkspace, async (req, res) => {
+router.get('/:id', authenticate, requireWorkspace, requirePermission('clients:view'), async (req, res) => {
   try {
     const { id } = req.params;
     
@@ -71,7 +81,7 @@ router.get('/:id', authenticate, requireWorkspace, async (req, res) => {
 });
 
 // GET /api/clients/:id/workflows - Get client workflows
-router.get('/:id/workflows', async (req, res) => {
+router.get('/:id/workflows', authenticate, requireWorkspace, requirePermission('workflows:view'), async (req, res) => {
   try {
     const { id } = req.params;
     
@@ -99,7 +109,7 @@ router.get('/:id/workflows', async (req, res) => {
 });
 
 // GET /api/clients/:id/meetings - Get client meetings
-router.get('/:id/meetings', async (req, res) => {
+router.get('/:id/meetings', authenticate, requireWorkspace, requirePermission('clients:view'), async (req, res) => {
   try {
     const { id } = req.params;
     
@@ -131,7 +141,7 @@ router.get('/:id/meetings', async (req, res) => {
 });
 
 // GET /api/clients/:id/tasks - Get client tasks
-router.get('/:id/tasks', async (req, res) => {
+router.get('/:id/tasks', authenticate, requireWorkspace, requirePermission('tasks:view'), async (req, res) => {
   try {
     const { id } = req.params;
     
@@ -172,14 +182,23 @@ router.get('/:id/tasks', async (req, res) => {
 });
 
 // POST /api/clients - Create new client
-router.post('/', authenticate, requireWorkspace, validateClient, async (req, res) => {
+router.post('/', authenticate, requireWorkspace, requirePermission('clients:create'), validateClient, async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const { name, company, email, phone, isActive = true } = req.body;
+    const { name, company, email, phone, isActive = true, templateId, templateStartDate } = req.body;
+
+    // Resolve the onboarding template up front so a bad ID doesn't leave a half-created client
+    let template = null;
+    if (templateId) {
+      template = await WorkflowTemplate.findById(templateId, req.workspaceId);
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
+    }
     
     const clientId = crypto.randomUUID();
     
@@ -199,6 +218,14 @@ router.post('/', authenticate, requireWorkspace, validateClient, async (req, res
       FROM clients 
       WHERE id = ? AND workspace_id = ?
     `, [clientId, req.workspaceId]);
+
+    // Onboard the client with a workflow built from the chosen template
+    if (template) {
+      await template.instantiate({
+        clientId,
+        startDate: templateStartDate || new Date().toISOString()
+      }, req.user.id);
+    }
     
     res.status(201).json(client);
   } catch (error) {
@@ -208,7 +235,7 @@ router.post('/', authenticate, requireWorkspace, validateClient, async (req, res
 });
 
 // PUT /api/clients/:id - Update client
-router.put('/:id', async (req, res) => {
+router.put('/:id', authenticate, requireWorkspace, requirePermission('clients:update'), async (req, res) => {
   try {
     const { id } = req.params;
     const { name, company, email, phone, isActive } = req.body;
@@ -217,8 +244,8 @@ router.put('/:id', async (req, res) => {
     const result = await db.run(`
       UPDATE clients 
       SET name = ?, company = ?, email = ?, phone = ?, is_active = ?, updated_at = datetime('now')
-      WHERE id = ?
-    `, [name, company || '', email, phone || null, isActive ? 1 : 0, id]);
+      WHERE id = ? AND workspace_id = ?
+    `, [name, company || '', email, phone || null, isActive ? 1 : 0, id, req.workspaceId]);
     
     if (result.changes === 0) {
       return res.status(404).json({ error: 'Client not found' });
@@ -241,7 +268,7 @@ router.put('/:id', async (req, res) => {
 });
 
 // PATCH /api/clients/:id/status - Update client status
-router.patch('/:id/status', async (req, res) => {
+router.patch('/:id/status', authenticate, requireWorkspace, requirePermission('clients:update'), async (req, res) => {
   try {
     const { id } = req.params;
     const { isActive } = req.body;
@@ -250,8 +277,8 @@ router.patch('/:id/status', async (req, res) => {
     const result = await db.run(`
       UPDATE clients 
       SET is_active = ?, updated_at = datetime('now')
-      WHERE id = ?
-    `, [isActive ? 1 : 0, id]);
+      WHERE id = ? AND workspace_id = ?
+    `, [isActive ? 1 : 0, id, req.workspaceId]);
     
     if (result.changes === 0) {
       return res.status(404).json({ error: 'Client not found' });
@@ -273,24 +300,97 @@ router.patch('/:id/status', async (req, res) => {
   }
 });
 
+// GET /api/clients/:id/contacts - Get the client's portal contacts
+router.get('/:id/contacts', authenticate, requireWorkspace, requirePermission('clients:view'), async (req, res) => {
+  try {
+    const db = getDatabase();
+    const client = await db.get('SELECT id FROM clients WHERE id = ? AND workspace_id = ?', [req.params.id, req.workspaceId]);
+    if (!client) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    res.json(await ClientContact.findByClient(client.id, req.workspaceId));
+  } catch (error) {
+    console.error('Error fetching client contacts:', error);
+    res.status(500).json({ error: 'Failed to fetch client contacts' });
+  }
+});
+
+// POST /api/clients/:id/contacts - Invite a contact to the client portal (defaults to the client's email)
+router.post('/:id/contacts', authenticate, requireWorkspace, requirePermission('clients:update'), validateContact, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const db = getDatabase();
+    const row = await db.get('SELECT * FROM clients WHERE id = ? AND workspace_id = ?', [req.params.id, req.workspaceId]);
+    if (!row) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    const client = Client.fromDatabase(row);
+    const contact = await ClientContact.invite({
+      client,
+      workspaceId: req.workspaceId,
+      email: req.body.email || client.email,
+      name: req.body.name,
+      invitedBy: req.user.id
+    });
+
+    try {
+      await emailService.sendClientPortalInviteEmail(contact.email, contact.name, {
+        clientName: client.company || client.name,
+        workspaceName: req.workspace.name,
+        inviterName: req.user.name
+      });
+    } catch (emailError) {
+      console.error(`Failed to email portal invitation to ${contact.email}:`, emailError.message);
+    }
+
+    res.status(201).json(contact);
+  } catch (error) {
+    if (ClientContact.INVITE_ERRORS.includes(error.message)) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error inviting client contact:', error);
+    res.status(500).json({ error: 'Failed to invite client contact' });
+  }
+});
+
+// DELETE /api/clients/:id/contacts/:contactId - Revoke a contact's portal access
+router.delete('/:id/contacts/:contactId', authenticate, requireWorkspace, requirePermission('clients:update'), async (req, res) => {
+  try {
+    const contact = await ClientContact.findById(req.params.contactId);
+    if (!contact || contact.clientId !== req.params.id || contact.workspaceId !== req.workspaceId) {
+      return res.status(404).json({ error: 'Contact not found' });
+    }
+
+    await contact.revoke(req.user.id);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error revoking client contact:', error);
+    res.status(500).json({ error: 'Failed to revoke client contact' });
+  }
+});
+
 // DELETE /api/clients/:id - Delete client
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', authenticate, requireWorkspace, requirePermission('clients:delete'), async (req, res) => {
   try {
     const { id } = req.params;
     
     const db = getDatabase();
     
     // Check if client exists
-    const client = await db.get('SELECT id FROM clients WHERE id = ?', [id]);
+    const client = await db.get('SELECT id FROM clients WHERE id = ? AND workspace_id = ?', [id, req.workspaceId]);
     
     if (!client) {
       return res.status(404).json({ error: 'Client not found' });
     }
     
     // Start transaction to delete all related data
-    await db.beginTransaction();
-    
-    try {
+    await db.transaction(async () => {
       // Delete task assignments for tasks in client workflows
       await db.run(`
         DELETE FROM task_assignments 
@@ -330,19 +430,23 @@ router.delete('/:id', async (req, res) => {
       
       // Delete client meetings
       await db.run('DELETE FROM client_meetings WHERE client_id = ?', [id]);
+
+      // Remove the portal access of the client's contacts
+      await db.run(`
+        DELETE FROM workspace_members
+        WHERE role = 'client_guest' AND workspace_id = ? AND user_id IN (
+          SELECT user_id FROM client_contacts WHERE client_id = ?
+        )
+      `, [req.workspaceId, id]);
+      await db.run('DELETE FROM client_contacts WHERE client_id = ?', [id]);
       
       // Delete activity logs for this client
       await db.run('DELETE FROM activity_log WHERE entity_id = ?', [id]);
       
       // Finally delete the client
       await db.run('DELETE FROM clients WHERE id = ?', [id]);
-      
-      await db.commit();
-      res.status(204).send();
-    } catch (error) {
-      await db.rollback();
-      throw error;
-    }
+    });
+    res.status(204).send();
   } catch (error) {
     console.error('Error deleting client:', error);
     res.status(500).json({ error: 'Failed to delete client' });
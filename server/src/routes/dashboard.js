@@ -1,37 +1,84 @@
 const express = require('express');
+const { query, validationResult } = require('express-validator');
 const { getDatabase } = require('../config/database');
 const ActivityLogger = require('../models/ActivityLogger');
+const { authenticate } = require('../middleware/auth');
+const { requireWorkspace, requirePermission } = require('../middleware/workspace');
+const taskMetrics = require('../services/taskMetrics');
 const router = express.Router();
 
-// GET /api/dashboard/stats - Get dashboard statistics
-router.get('/stats', async (req, res) => {
+router.use(authenticate, requireWorkspace, requirePermission('clients:view'));
+
+// Date range of the endpoints that report on a period (`from`/`to` are inclusive dates)
+const validateRange = [
+  query('from').optional().isISO8601().withMessage('from must be a date'),
+  query('to').optional().isISO8601().withMessage('to must be a date'),
+  query('groupBy').optional().isIn(taskMetrics.GROUPINGS).withMessage(`groupBy must be one of ${taskMetrics.GROUPINGS.join(', ')}`)
+];
+
+// The requested range, or null after answering 400
+const requestedRange = (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return null;
+  }
+  try {
+    return taskMetrics.resolveRange(req.query);
+  } catch (error) {
+    res.status(400).json({ error: error.message });
+    return null;
+  }
+};
+
+// Start and end (exclusive) of a range as ISO timestamps, for SQL comparisons
+const rangeBounds = (range) => [
+  new Date(`${range.from}T00:00:00.000Z`).toISOString(),
+  new Date(new Date(`${range.to}T00:00:00.000Z`).getTime() + 24 * 60 * 60 * 1000).toISOString()
+];
+
+// GET /api/dashboard/stats - Get dashboard statistics; completedTasks counts the tasks finished in the range
+router.get('/stats', validateRange, async (req, res) => {
   try {
+    const range = requestedRange(req, res);
+    if (!range) return;
+
     const db = getDatabase();
-    
-    // Get basic counts (removed team_members reference)
+    const workspaceId = req.workspaceId;
+    const now = new Date().toISOString();
+    const nextWeek = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
+
     const [
       clientsResult,
       workflowsResult,
-      tasksResult,
       overdueResult,
-      meetingsResult
+      meetingsResult,
+      membersResult,
+      timelines
     ] = await Promise.all([
-      db.get('SELECT COUNT(*) as count FROM clients WHERE is_active = 1'),
-      db.get('SELECT COUNT(*) as count FROM workflows WHERE status = "active"'),
-      db.get('SELECT COUNT(*) as count FROM kanban_tasks WHERE status = "done"'),
-      db.get(`SELECT COUNT(*) as count FROM kanban_tasks 
-              WHERE due_date < datetime('now') AND status != 'done'`),
-      db.get(`SELECT COUNT(*) as count FROM client_meetings 
-              WHERE meeting_date >= datetime('now') AND meeting_date <= datetime('now', '+7 days') 
-              AND status = 'scheduled'`)
+      db.get('SELECT COUNT(*) as count FROM clients WHERE is_active = 1 AND workspace_id = ?', [workspaceId]),
+      db.get(`SELECT COUNT(*) as count FROM workflows WHERE status = 'active' AND workspace_id = ?`, [workspaceId]),
+      db.get(`SELECT COUNT(*) as count FROM kanban_tasks kt
+              LEFT JOIN workflows w ON kt.workflow_id = w.id
+              WHERE kt.due_date < ? AND kt.status != 'done'
+              AND COALESCE(kt.workspace_id, w.workspace_id) = ?`, [now, workspaceId]),
+      db.get(`SELECT COUNT(*) as count FROM client_meetings cm
+              JOIN clients c ON cm.client_id = c.id
+              WHERE cm.meeting_date >= ? AND cm.meeting_date <= ?
+              AND cm.status = 'scheduled' AND c.workspace_id = ?`, [now, nextWeek, workspaceId]),
+      db.get(`SELECT COUNT(*) as count FROM workspace_members
+              WHERE workspace_id = ? AND role != 'client_guest'`, [workspaceId]),
+      taskMetrics.loadTaskTimelines(workspaceId)
     ]);
 
     const stats = {
       totalClients: clientsResult.count,
       activeWorkflows: workflowsResult.count,
-      completedTasks: tasksResult.count,
+      completedTasks: taskMetrics.measure(timelines, range.from, range.to).throughput,
+      teamMembers: membersResult.count,
       overdueItems: overdueResult.count,
-      upcomingMeetings: meetingsResult.count
+      upcomingMeetings: meetingsResult.count,
+      range: { from: range.from, to: range.to }
     };
 
     res.json(stats);
@@ -41,11 +88,23 @@ router.get('/stats', async (req, res) => {
   }
 });
 
-// GET /api/dashboard/recent-activity - Get recent activity
-router.get('/recent-activity', async (req, res) => {
+// GET /api/dashboard/recent-activity - Get recent activity in the workspace (optionally between from and to)
+router.get('/recent-activity', [
+  query('from').optional().isISO8601().withMessage('from must be a date'),
+  query('to').optional().isISO8601().withMessage('to must be a date')
+], async (req, res) => {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
     const limit = parseInt(req.query.limit) || 20;
-    const activities = await ActivityLogger.getRecentActivities(limit);
+    const activities = await ActivityLogger.getWorkspaceActivities(req.workspaceId, {
+      limit,
+      from: req.query.from || null,
+      to: req.query.to || null
+    });
     res.json(activities);
   } catch (error) {
     console.error('Error fetching recent activity:', error);
@@ -53,17 +112,21 @@ router.get('/recent-activity', async (req, res) => {
   }
 });
 
-// GET /api/dashboard/task-distribution - Get task distribution by status
+// GET /api/dashboard/task-distribution - Get the workspace's current tasks by status
 router.get('/task-distribution', async (req, res) => {
   try {
     const db = getDatabase();
     const distribution = await db.all(`
       SELECT kc.title as status, kc.color, COUNT(kt.id) as count
       FROM kanban_columns kc
-      LEFT JOIN kanban_tasks kt ON kc.id = kt.status
+      LEFT JOIN (
+        SELECT kt.id, kt.status FROM kanban_tasks kt
+        LEFT JOIN workflows w ON kt.workflow_id = w.id
+        WHERE COALESCE(kt.workspace_id, w.workspace_id) = ?
+      ) kt ON kc.id = kt.status
       GROUP BY kc.id, kc.title, kc.color
       ORDER BY kc.order_index
-    `);
+    `, [req.workspaceId]);
     
     res.json(distribution);
   } catch (error) {
@@ -83,11 +146,11 @@ router.get('/workflow-progress', async (req, res) => {
       FROM workflows w
       LEFT JOIN clients c ON w.client_id = c.id
       LEFT JOIN workflow_steps ws ON w.id = ws.workflow_id
-      WHERE w.status = 'active'
+      WHERE w.status = 'active' AND w.workspace_id = ?
       GROUP BY w.id, w.name, w.status, c.name
       ORDER BY w.created_at DESC
       LIMIT 10
-    `);
+    `, [req.workspaceId]);
 
     const progress = workflows.map(workflow => ({
       id: workflow.id,
@@ -121,11 +184,11 @@ router.get('/upcoming-deadlines', async (req, res) => {
       LEFT JOIN workflows w ON kt.workflow_id = w.id
       LEFT JOIN clients c ON w.client_id = c.id
       WHERE kt.due_date IS NOT NULL 
-        AND kt.due_date BETWEEN datetime('now') AND datetime('now', '+' || ? || ' days')
-        AND kt.status != 'done'
+        AND kt.due_date BETWEEN ? AND ?
+        AND kt.status != 'done' AND COALESCE(kt.workspace_id, w.workspace_id) = ?
       ORDER BY kt.due_date ASC
       LIMIT 20
-    `, [days]);
+    `, [new Date().toISOString(), new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString(), req.workspaceId]);
 
     const formattedDeadlines = deadlines.map(task => ({
       id: task.id,
@@ -161,11 +224,11 @@ router.get('/client-activity', async (req, res) => {
       LEFT JOIN workflows w ON c.id = w.client_id
       LEFT JOIN kanban_tasks kt ON w.id = kt.workflow_id
       LEFT JOIN client_meetings cm ON c.id = cm.client_id
-      WHERE c.is_active = 1
+      WHERE c.is_active = 1 AND c.workspace_id = ?
       GROUP BY c.id, c.name, c.company
       ORDER BY active_workflows DESC, total_workflows DESC
       LIMIT 10
-    `);
+    `, [req.workspaceId]);
 
     const formattedActivity = clientActivity.map(client => ({
       id: client.id,
@@ -186,10 +249,16 @@ router.get('/client-activity', async (req, res) => {
   }
 });
 
-// GET /api/dashboard/performance-metrics - Get performance metrics
-router.get('/performance-metrics', async (req, res) => {
+// GET /api/dashboard/performance-metrics - Get performance metrics for the range (default: last 30 days);
+// overdueTasksRate is the current share of open tasks past their due date
+router.get('/performance-metrics', validateRange, async (req, res) => {
   try {
+    const range = requestedRange(req, res);
+    if (!range) return;
+
     const db = getDatabase();
+    const workspaceId = req.workspaceId;
+    const [rangeStart, rangeEnd] = rangeBounds(range);
     
     // Calculate various performance metrics
     const [
@@ -202,33 +271,38 @@ router.get('/performance-metrics', async (req, res) => {
         SELECT AVG(julianday(actual_end_date) - julianday(start_date)) as avg_duration
         FROM workflows 
         WHERE status = 'completed' AND actual_end_date IS NOT NULL AND start_date IS NOT NULL
-      `),
+          AND workspace_id = ? AND actual_end_date >= ? AND actual_end_date < ?
+      `, [workspaceId, rangeStart, rangeEnd]),
       db.get(`
         SELECT 
-          COUNT(CASE WHEN status = 'done' THEN 1 END) * 100.0 / COUNT(*) as completion_rate
-        FROM kanban_tasks
-        WHERE created_at >= datetime('now', '-30 days')
-      `),
+          COUNT(CASE WHEN kt.status = 'done' THEN 1 END) * 100.0 / COUNT(*) as completion_rate
+        FROM kanban_tasks kt
+        LEFT JOIN workflows w ON kt.workflow_id = w.id
+        WHERE COALESCE(kt.workspace_id, w.workspace_id) = ? AND kt.created_at >= ? AND kt.created_at < ?
+      `, [workspaceId, rangeStart, rangeEnd]),
       db.get(`
         SELECT 
           COUNT(CASE WHEN attendance_status = 'attended' THEN 1 END) * 100.0 / COUNT(*) as attendance_rate
         FROM meeting_attendees ma
         JOIN client_meetings cm ON ma.meeting_id = cm.id
-        WHERE cm.meeting_date >= datetime('now', '-30 days') AND cm.status = 'completed'
-      `),
+        JOIN clients c ON cm.client_id = c.id
+        WHERE c.workspace_id = ? AND cm.meeting_date >= ? AND cm.meeting_date < ? AND cm.status = 'completed'
+      `, [workspaceId, rangeStart, rangeEnd]),
       db.get(`
         SELECT 
-          COUNT(CASE WHEN due_date < datetime('now') THEN 1 END) * 100.0 / COUNT(*) as overdue_rate
-        FROM kanban_tasks
-        WHERE status != 'done' AND due_date IS NOT NULL
-      `)
+          COUNT(CASE WHEN kt.due_date < ? THEN 1 END) * 100.0 / COUNT(*) as overdue_rate
+        FROM kanban_tasks kt
+        LEFT JOIN workflows w ON kt.workflow_id = w.id
+        WHERE kt.status != 'done' AND kt.due_date IS NOT NULL AND COALESCE(kt.workspace_id, w.workspace_id) = ?
+      `, [new Date().toISOString(), workspaceId])
     ]);
 
     const metrics = {
       avgWorkflowDurationDays: avgWorkflowDuration.avg_duration || 0,
       taskCompletionRate: taskCompletionRate.completion_rate || 0,
       meetingAttendanceRate: meetingAttendanceRate.attendance_rate || 0,
-      overdueTasksRate: overdueTasksRate.overdue_rate || 0
+      overdueTasksRate: overdueTasksRate.overdue_rate || 0,
+      range: { from: range.from, to: range.to }
     };
 
     res.json(metrics);
@@ -238,4 +312,30 @@ router.get('/performance-metrics', async (req, res) => {
   }
 });
 
+// GET /api/dashboard/analytics - Throughput, cycle time, lead time and overdue rate of the workspace's
+// tasks over the range, per day, week or month, with the same figures for the period before it
+router.get('/analytics', validateRange, async (req, res) => {
+  try {
+    const range = requestedRange(req, res);
+    if (!range) return;
+
+    const previous = taskMetrics.previousRange(range);
+    const timelines = await taskMetrics.loadTaskTimelines(req.workspaceId);
+
+    res.json({
+      range: { from: range.from, to: range.to, groupBy: range.groupBy },
+      previousRange: { from: previous.from, to: previous.to },
+      summary: {
+        current: taskMetrics.measure(timelines, range.from, range.to),
+        previous: taskMetrics.measure(timelines, previous.from, previous.to)
+      },
+      series: taskMetrics.timeSeries(timelines, range),
+      previousSeries: taskMetrics.timeSeries(timelines, previous)
+    });
+  } catch (error) {
+    console.error('Error fetching dashboard analytics:', error);
+    res.status(500).json({ error: 'Failed to fetch dashboard analytics' });
+  }
+});
+
 module.exports = router;
\ No newline at end of file
@@ -0,0 +1,53 @@
+const express = require('express');
+const TaskResource = require('../models/TaskResource');
+const fileUploads = require('../services/fileUploads');
+const { getStorage } = require('../services/fileStorage');
+const router = express.Router();
+
+// No auth header here: the signed token in the path is the permission, so links work in <img> tags and new tabs
+
+// GET /api/files/:token - Download an uploaded file or its thumbnail
+router.get('/:token', async (req, res) => {
+  try {
+    const link = fileUploads.verifyFileToken(req.params.token);
+    if (!link) {
+      return res.status(404).json({ error: 'This link is invalid or has expired' });
+    }
+
+    const found = await TaskResource.findById(link.resourceId);
+    const resource = found && fileUploads.storedIn(found, link.workspaceId) ? found : null;
+    const isThumbnail = link.variant === 'thumbnail';
+    const key = resource && (isThumbnail ? resource.thumbnailKey : resource.storageKey);
+    if (!key) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    const stream = await getStorage().get(key);
+    if (!stream) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    const mimeType = isThumbnail ? 'image/webp' : resource.mimeType || 'application/octet-stream';
+    const disposition = fileUploads.INLINE_TYPES.includes(mimeType) ? 'inline' : 'attachment';
+    res.set({
+      'Content-Type': mimeType,
+      'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(resource.fileName || 'file')}`,
+      'X-Content-Type-Options': 'nosniff',
+      'Cache-Control': 'private, max-age=3600'
+    });
+    if (!isThumbnail && resource.fileSize) {
+      res.set('Content-Length', String(resource.fileSize));
+    }
+
+    stream.on('error', (error) => {
+      console.error('Error streaming file:', error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  } catch (error) {
+    console.error('Error downloading file:', error);
+    res.status(500).json({ error: 'Failed to download file' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,268 @@
+const express = require('express');
+const { body, query, validationResult } = require('express-validator');
+const Invoice = require('../models/Invoice');
+const BillingRate = require('../models/BillingRate');
+const Workspace = require('../models/Workspace');
+const { authenticate } = require('../middleware/auth');
+const { requireWorkspace, requirePermission } = require('../middleware/workspace');
+const { getDatabase } = require('../config/database');
+const router = express.Router();
+
+// Validation middleware
+const validateRate = [
+  body('clientId').optional({ nullable: true }).isString(),
+  body('userId').optional({ nullable: true }).isString(),
+  body('hourlyRate').isFloat({ min: 0 }).withMessage('Hourly rate must be a positive number'),
+  body('currency').optional().trim().isLength({ min: 3, max: 3 }).withMessage('Currency must be a 3-letter code'),
+];
+
+const validatePeriod = [
+  query('clientId').notEmpty().withMessage('Client ID is required'),
+  query('periodStart').isISO8601().withMessage('Valid period start is required'),
+  query('periodEnd').isISO8601().withMessage('Valid period end is required'),
+];
+
+const validateInvoice = [
+  body('clientId').notEmpty().withMessage('Client ID is required'),
+  body('periodStart').isISO8601().withMessage('Valid period start is required'),
+  body('periodEnd').isISO8601().withMessage('Valid period end is required'),
+  body('dueDate').optional({ nullable: true }).isISO8601().withMessage('Valid due date is required'),
+  body('taxRate').optional().isFloat({ min: 0, max: 100 }).withMessage('Tax rate must be between 0 and 100'),
+  body('notes').optional({ nullable: true }).trim(),
+];
+
+const validateStatus = [
+  body('status').isIn(Invoice.STATUSES).withMessage('Invalid invoice status'),
+];
+
+router.use(authenticate, requireWorkspace);
+
+const findClient = (clientId, workspaceId) => getDatabase().get(
+  'SELECT id FROM clients WHERE id = ? AND workspace_id = ?',
+  [clientId, workspaceId]
+);
+
+// Shared checks for previewing and generating: the period must be valid and every entry priced
+const checkBillable = (billable, periodStart, periodEnd) => {
+  if (new Date(periodStart) > new Date(periodEnd)) {
+    return 'Period start must be before period end';
+  }
+  if (billable.missingRates.length > 0) {
+    const names = billable.missingRates.map(member => member.userName || member.userId).join(', ');
+    return `No hourly rate configured for: ${names}`;
+  }
+  if (billable.currencies.length > 1) {
+    return 'Billing rates for this client use more than one currency';
+  }
+  return null;
+};
+
+// =====================================================================
+// BILLING RATES ENDPOINTS
+// =====================================================================
+
+// GET /api/invoices/rates - Get billing rates (optionally those that apply to one client)
+router.get('/rates', requirePermission('invoices:view'), async (req, res) => {
+  try {
+    const rates = await BillingRate.findAll(req.workspaceId, req.query.clientId || null);
+    res.json(rates.map(rate => rate.toJSON()));
+  } catch (error) {
+    console.error('Error fetching billing rates:', error);
+    res.status(500).json({ error: 'Failed to fetch billing rates' });
+  }
+});
+
+// PUT /api/invoices/rates - Set the rate for a client/member combination
+router.put('/rates', requirePermission('settings:manage'), validateRate, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { clientId = null, userId = null, hourlyRate, currency } = req.body;
+
+    if (clientId && !(await findClient(clientId, req.workspaceId))) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+    if (userId && !(await Workspace.isUserMember(userId, req.workspaceId))) {
+      return res.status(404).json({ error: 'Workspace member not found' });
+    }
+
+    const rate = await BillingRate.findForScope(req.workspaceId, clientId, userId)
+      || new BillingRate({ workspaceId: req.workspaceId, clientId, userId });
+    rate.hourlyRate = parseFloat(hourlyRate);
+    if (currency) rate.currency = currency.toUpperCase();
+
+    await rate.save(req.user.id);
+    res.json(rate.toJSON());
+  } catch (error) {
+    console.error('Error saving billing rate:', error);
+    res.status(500).json({ error: 'Failed to save billing rate' });
+  }
+});
+
+// DELETE /api/invoices/rates/:rateId - Remove a billing rate
+router.delete('/rates/:rateId', requirePermission('settings:manage'), async (req, res) => {
+  try {
+    const rate = await BillingRate.findById(req.params.rateId, req.workspaceId);
+    if (!rate) {
+      return res.status(404).json({ error: 'Billing rate not found' });
+    }
+
+    await rate.delete(req.user.id);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting billing rate:', error);
+    res.status(500).json({ error: 'Failed to delete billing rate' });
+  }
+});
+
+// =====================================================================
+// INVOICES ENDPOINTS
+// =====================================================================
+
+// GET /api/invoices/preview - Preview the line items an invoice would contain
+router.get('/preview', requirePermission('invoices:view'), validatePeriod, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { clientId, periodStart, periodEnd } = req.query;
+    if (!(await findClient(clientId, req.workspaceId))) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    const billable = await Invoice.collectBillable(req.workspaceId, clientId, periodStart, periodEnd);
+    res.json({
+      lineItems: billable.lineItems.map(({ entryIds, ...item }) => ({ ...item, entries: entryIds.length })),
+      subtotal: billable.subtotal,
+      currency: billable.currencies[0] || null,
+      missingRates: billable.missingRates,
+      warning: checkBillable(billable, periodStart, periodEnd)
+    });
+  } catch (error) {
+    console.error('Error previewing invoice:', error);
+    res.status(500).json({ error: 'Failed to preview invoice' });
+  }
+});
+
+// GET /api/invoices - Get invoices for workspace
+router.get('/', requirePermission('invoices:view'), async (req, res) => {
+  try {
+    const invoices = await Invoice.findAll(req.workspaceId, {
+      clientId: req.query.clientId,
+      status: req.query.status
+    });
+    res.json(invoices.map(invoice => invoice.toJSON()));
+  } catch (error) {
+    console.error('Error fetching invoices:', error);
+    res.status(500).json({ error: 'Failed to fetch invoices' });
+  }
+});
+
+// GET /api/invoices/:id - Get invoice with its line items
+router.get('/:id', requirePermission('invoices:view'), async (req, res) => {
+  try {
+    const invoice = await Invoice.findById(req.params.id, req.workspaceId);
+    if (!invoice) {
+      return res.status(404).json({ error: 'Invoice not found' });
+    }
+
+    res.json(invoice.toJSON());
+  } catch (error) {
+    console.error('Error fetching invoice:', error);
+    res.status(500).json({ error: 'Failed to fetch invoice' });
+  }
+});
+
+// POST /api/invoices - Generate a draft invoice from uninvoiced billable time
+router.post('/', requirePermission('invoices:create'), validateInvoice, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { clientId, periodStart, periodEnd, dueDate, taxRate, notes } = req.body;
+    if (!(await findClient(clientId, req.workspaceId))) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    const billable = await Invoice.collectBillable(req.workspaceId, clientId, periodStart, periodEnd);
+    const problem = checkBillable(billable, periodStart, periodEnd);
+    if (problem) {
+      return res.status(400).json({ error: problem });
+    }
+    if (billable.entryIds.length === 0) {
+      return res.status(400).json({ error: 'No uninvoiced billable time for this client in the selected period' });
+    }
+
+    const invoice = await Invoice.generate(billable, {
+      workspaceId: req.workspaceId,
+      clientId,
+      periodStart,
+      periodEnd,
+      dueDate: dueDate || null,
+      taxRate: taxRate !== undefined ? parseFloat(taxRate) : 0,
+      notes
+    }, req.user.id);
+
+    const created = await Invoice.findById(invoice.id, req.workspaceId);
+    res.status(201).json(created.toJSON());
+  } catch (error) {
+    console.error('Error generating invoice:', error);
+    res.status(500).json({ error: 'Failed to generate invoice' });
+  }
+});
+
+// PATCH /api/invoices/:id/status - Mark invoice as sent, paid or void
+router.patch('/:id/status', requirePermission('invoices:update'), validateStatus, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const invoice = await Invoice.findById(req.params.id, req.workspaceId);
+    if (!invoice) {
+      return res.status(404).json({ error: 'Invoice not found' });
+    }
+
+    if (!Invoice.canTransition(invoice.status, req.body.status)) {
+      return res.status(409).json({
+        error: `Cannot change invoice status from ${invoice.status} to ${req.body.status}`
+      });
+    }
+
+    await invoice.updateStatus(req.body.status, req.user.id);
+    res.json(invoice.toJSON());
+  } catch (error) {
+    console.error('Error updating invoice status:', error);
+    res.status(500).json({ error: 'Failed to update invoice status' });
+  }
+});
+
+// DELETE /api/invoices/:id - Delete a draft invoice and release its time entries
+router.delete('/:id', requirePermission('invoices:delete'), async (req, res) => {
+  try {
+    const invoice = await Invoice.findById(req.params.id, req.workspaceId);
+    if (!invoice) {
+      return res.status(404).json({ error: 'Invoice not found' });
+    }
+
+    if (invoice.status !== 'draft') {
+      return res.status(409).json({ error: 'Only draft invoices can be deleted; void it instead' });
+    }
+
+    await invoice.delete(req.user.id);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting invoice:', error);
+    res.status(500).json({ error: 'Failed to delete invoice' });
+  }
+});
+
+module.exports = router;
@@ -1,8 +1,16 @@
 const express = require('express');
 const { body, validationResult } = require('express-validator');
 const Meeting = require('../models/Meeting');
+const { getDatabase } = require('../config/database');
+const realtime = require('../services/realtime');
+const recurrence = require('../services/recurrence');
+const Notification = require('../models/Notification');
+const { authenticate } = require('../middleware/auth');
+const { requireWorkspace, requirePermission } = require('../middleware/workspace');
 const router = express.Router();
 
+router.use(authenticate, requireWorkspace);
+
 // Validation middleware
 const validateMeeting = [
   body('clientId').notEmpty().withMessage('Client ID is required'),
@@ -12,10 +20,50 @@ const validateMeeting = [
   body('durationMinutes').optional().isInt({ min: 1 }).withMessage('Duration must be a positive integer'),
   body('location').optional().trim(),
   body('meetingType').optional().isIn(['in-person', 'video', 'phone']),
+  body('recurrenceRule').optional({ nullable: true }).custom(rule => {
+    const error = recurrence.validate(rule);
+    if (error) throw new Error(error);
+    return true;
+  }),
 ];
 
+// Meetings belong to a workspace through their client
+const findMeetingClient = (meeting) =>
+  getDatabase().get('SELECT name, workspace_id FROM clients WHERE id = ?', [meeting.clientId]);
+
+async function publishMeetingChange(req, type, meeting, data) {
+  try {
+    const client = await findMeetingClient(meeting);
+    realtime.publish(client ? client.workspace_id : null, type, data, realtime.originOf(req));
+  } catch (error) {
+    console.error('Error publishing meeting change:', error);
+  }
+}
+
+// Tell newly invited attendees about the meeting
+async function notifyInvitees(req, meeting, memberIds) {
+  try {
+    const client = await findMeetingClient(meeting);
+    for (const memberId of memberIds) {
+      await Notification.notify({
+        userId: memberId,
+        workspaceId: client ? client.workspace_id : null,
+        type: 'meeting_invited',
+        title: `You are invited to "${meeting.title}"`,
+        body: [new Date(meeting.meetingDate).toUTCString(), client && client.name, meeting.location].filter(Boolean).join(' · '),
+        link: '/app/meetings',
+        entityType: 'meeting',
+        entityId: meeting.id,
+        actorId: req.user ? req.user.id : null
+      });
+    }
+  } catch (error) {
+    console.error('Error notifying meeting invitees:', error);
+  }
+}
+
 // GET /api/meetings - Get all meetings
-router.get('/', async (req, res) => {
+router.get('/', requirePermission('clients:view'), async (req, res) => {
   try {
     const { clientId, upcoming, startDate, endDate } = req.query;
     
@@ -39,7 +87,7 @@ router.get('/', async (req, res) => {
 });
 
 // GET /api/meetings/:id - Get meeting by ID
-router.get('/:id', async (req, res) => {
+router.get('/:id', requirePermission('clients:view'), async (req, res) => {
   try {
     const meeting = await Meeting.findById(req.params.id);
     if (!meeting) {
@@ -53,7 +101,7 @@ router.get('/:id', async (req, res) => {
 });
 
 // GET /api/meetings/:id/attendees - Get meeting attendees
-router.get('/:id/attendees', async (req, res) => {
+router.get('/:id/attendees', requirePermission('clients:view'), async (req, res) => {
   try {
     const meeting = await Meeting.findById(req.params.id);
     if (!meeting) {
@@ -69,7 +117,7 @@ router.get('/:id/attendees', async (req, res) => {
 });
 
 // POST /api/meetings - Create new meeting
-router.post('/', validateMeeting, async (req, res) => {
+router.post('/', requirePermission('clients:update'), validateMeeting, async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -85,7 +133,8 @@ router.post('/', validateMeeting, async (req, res) => {
       location: req.body.location,
       meetingType: req.body.meetingType || 'in-person',
       status: req.body.status || 'scheduled',
-      notes: req.body.notes
+      notes: req.body.notes,
+      recurrenceRule: req.body.recurrenceRule || null
     });
 
     await meeting.save(req.body.performedBy);
@@ -97,6 +146,10 @@ router.post('/', validateMeeting, async (req, res) => {
       }
     }
     
+    publishMeetingChange(req, 'meeting.created', meeting, meeting.toJSON());
+    if (Array.isArray(req.body.attendees)) {
+      notifyInvitees(req, meeting, req.body.attendees);
+    }
     res.status(201).json(meeting);
   } catch (error) {
     console.error('Error creating meeting:', error);
@@ -105,7 +158,7 @@ router.post('/', validateMeeting, async (req, res) => {
 });
 
 // POST /api/meetings/:id/attendees - Add attendee to meeting
-router.post('/:id/attendees', async (req, res) => {
+router.post('/:id/attendees', requirePermission('clients:update'), async (req, res) => {
   try {
     const meeting = await Meeting.findById(req.params.id);
     if (!meeting) {
@@ -117,7 +170,11 @@ router.post('/:id/attendees', async (req, res) => {
       return res.status(400).json({ error: 'Member ID is required' });
     }
 
+    const attendees = await meeting.getAttendees();
     const attendeeId = await meeting.addAttendee(memberId, attendanceStatus);
+    if (!attendees.some(attendee => attendee.member_id === memberId)) {
+      notifyInvitees(req, meeting, [memberId]);
+    }
     res.status(201).json({ id: attendeeId, memberId, attendanceStatus: attendanceStatus || 'invited' });
   } catch (error) {
     console.error('Error adding meeting attendee:', error);
@@ -126,7 +183,7 @@ router.post('/:id/attendees', async (req, res) => {
 });
 
 // PUT /api/meetings/:id - Update meeting
-router.put('/:id', validateMeeting, async (req, res) => {
+router.put('/:id', requirePermission('clients:update'), validateMeeting, async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -147,8 +204,12 @@ router.put('/:id', validateMeeting, async (req, res) => {
     meeting.meetingType = req.body.meetingType || meeting.meetingType;
     meeting.status = req.body.status || meeting.status;
     meeting.notes = req.body.notes;
+    if (req.body.recurrenceRule !== undefined) {
+      meeting.recurrenceRule = req.body.recurrenceRule || null;
+    }
 
     await meeting.save(req.body.performedBy);
+    publishMeetingChange(req, 'meeting.updated', meeting, meeting.toJSON());
     res.json(meeting);
   } catch (error) {
     console.error('Error updating meeting:', error);
@@ -157,7 +218,7 @@ router.put('/:id', validateMeeting, async (req, res) => {
 });
 
 // PATCH /api/meetings/:id/status - Update meeting status
-router.patch('/:id/status', async (req, res) => {
+router.patch('/:id/status', requirePermission('clients:update'), async (req, res) => {
   try {
     const meeting = await Meeting.findById(req.params.id);
     if (!meeting) {
@@ -171,6 +232,7 @@ router.patch('/:id/status', async (req, res) => {
 
     meeting.status = status;
     await meeting.save(req.body.performedBy);
+    publishMeetingChange(req, 'meeting.updated', meeting, meeting.toJSON());
     res.json(meeting);
   } catch (error) {
     console.error('Error updating meeting status:', error);
@@ -179,7 +241,7 @@ router.patch('/:id/status', async (req, res) => {
 });
 
 // PATCH /api/meetings/:id/attendees/:memberId - Update attendee status
-router.patch('/:id/attendees/:memberId', async (req, res) => {
+router.patch('/:id/attendees/:memberId', requirePermission('clients:update'), async (req, res) => {
   try {
     const meeting = await Meeting.findById(req.params.id);
     if (!meeting) {
@@ -199,15 +261,42 @@ router.patch('/:id/attendees/:memberId', async (req, res) => {
   }
 });
 
-// DELETE /api/meetings/:id - Delete meeting
-router.delete('/:id', async (req, res) => {
+// DELETE /api/meetings/:id - Delete meeting. For recurring meetings, `scope` ('this', 'following' or 'all')
+// and `occurrenceDate` query parameters cancel one occurrence or end the series before it
+router.delete('/:id', requirePermission('clients:update'), async (req, res) => {
   try {
     const meeting = await Meeting.findById(req.params.id);
     if (!meeting) {
       return res.status(404).json({ error: 'Meeting not found' });
     }
 
-    await meeting.delete(req.body.performedBy);
+    const { scope = 'all', occurrenceDate } = req.query;
+    if (!['this', 'following', 'all'].includes(scope)) {
+      return res.status(400).json({ error: 'Invalid scope' });
+    }
+
+    if (meeting.recurrenceRule && scope !== 'all') {
+      const date = new Date(occurrenceDate);
+      const [occurrence] = isNaN(date.getTime()) ? [] : meeting.occurrencesBetween(date, date);
+      if (!occurrence) {
+        return res.status(400).json({ error: 'occurrenceDate must be an occurrence of the meeting' });
+      }
+
+      if (scope === 'this') {
+        await meeting.skipOccurrence(date, req.user.id);
+      } else {
+        await meeting.endBefore(date, req.user.id);
+      }
+
+      if (await Meeting.findById(meeting.id)) {
+        publishMeetingChange(req, 'meeting.updated', meeting, meeting.toJSON());
+        return res.status(204).send();
+      }
+    } else {
+      await meeting.delete(req.body.performedBy);
+    }
+
+    publishMeetingChange(req, 'meeting.deleted', meeting, { id: meeting.id });
     res.status(204).send();
   } catch (error) {
     console.error('Error deleting meeting:', error);
@@ -216,7 +305,7 @@ router.delete('/:id', async (req, res) => {
 });
 
 // DELETE /api/meetings/:id/attendees/:memberId - Remove attendee from meeting
-router.delete('/:id/attendees/:memberId', async (req, res) => {
+router.delete('/:id/attendees/:memberId', requirePermission('clients:update'), async (req, res) => {
   try {
     const meeting = await Meeting.findById(req.params.id);
     if (!meeting) {
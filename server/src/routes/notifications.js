@@ -0,0 +1,98 @@
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const Notification = require('../models/Notification');
+const { authenticate } = require('../middleware/auth');
+const { requireWorkspace } = require('../middleware/workspace');
+const router = express.Router();
+
+// Validation middleware
+const validatePreferences = [
+  body().custom(value => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error('Preferences must be an object of notification type to channel');
+    }
+    for (const [type, channel] of Object.entries(value)) {
+      if (!Notification.TYPES.includes(type)) {
+        throw new Error(`Unknown notification type: ${type}`);
+      }
+      if (!Notification.CHANNELS.includes(channel)) {
+        throw new Error(`Channel for ${type} must be one of: ${Notification.CHANNELS.join(', ')}`);
+      }
+    }
+    return true;
+  }),
+];
+
+router.use(authenticate, requireWorkspace);
+
+// GET /api/notifications - Get the current user's notifications (?unread=true, ?limit=)
+router.get('/', async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit, 10) || 50, 200);
+    const [notifications, unreadCount] = await Promise.all([
+      Notification.findForUser(req.user.id, req.workspaceId, { unreadOnly: req.query.unread === 'true', limit }),
+      Notification.countUnread(req.user.id, req.workspaceId)
+    ]);
+
+    res.json({
+      notifications: notifications.map(notification => notification.toJSON()),
+      unreadCount
+    });
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    res.status(500).json({ error: 'Failed to fetch notifications' });
+  }
+});
+
+// GET /api/notifications/preferences - Get the delivery channel for each notification type
+router.get('/preferences', async (req, res) => {
+  try {
+    res.json(await Notification.getPreferences(req.user.id));
+  } catch (error) {
+    console.error('Error fetching notification preferences:', error);
+    res.status(500).json({ error: 'Failed to fetch notification preferences' });
+  }
+});
+
+// PUT /api/notifications/preferences - Choose in_app, email or digest per notification type
+router.put('/preferences', validatePreferences, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    res.json(await Notification.setPreferences(req.user.id, req.body));
+  } catch (error) {
+    console.error('Error saving notification preferences:', error);
+    res.status(500).json({ error: 'Failed to save notification preferences' });
+  }
+});
+
+// PATCH /api/notifications/read-all - Mark all notifications of the workspace as read
+router.patch('/read-all', async (req, res) => {
+  try {
+    const updated = await Notification.markAllRead(req.user.id, req.workspaceId);
+    res.json({ message: 'Notifications marked as read', updated });
+  } catch (error) {
+    console.error('Error marking notifications as read:', error);
+    res.status(500).json({ error: 'Failed to mark notifications as read' });
+  }
+});
+
+// PATCH /api/notifications/:id/read - Mark a notification as read
+router.patch('/:id/read', async (req, res) => {
+  try {
+    const marked = await Notification.markRead(req.params.id, req.user.id);
+    if (!marked) {
+      return res.status(404).json({ error: 'Notification not found' });
+    }
+
+    res.json({ message: 'Notification marked as read' });
+  } catch (error) {
+    console.error('Error marking notification as read:', error);
+    res.status(500).json({ error: 'Failed to mark notification as read' });
+  }
+});
+
+module.exports = router;
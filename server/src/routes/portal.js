@@ -0,0 +1,214 @@
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const KanbanTask = require('../models/KanbanTask');
+const TaskResource = require('../models/TaskResource');
+const Workflow = require('../models/Workflow');
+const Meeting = require('../models/Meeting');
+const Notification = require('../models/Notification');
+const { authenticate } = require('../middleware/auth');
+const { requireClientPortal, requirePermission, can } = require('../middleware/workspace');
+const { getDatabase } = require('../config/database');
+const realtime = require('../services/realtime');
+const fileUploads = require('../services/fileUploads');
+const router = express.Router();
+
+// Validation middleware
+const validateDecision = [
+  body('decision').isIn(['approved', 'changes_requested']).withMessage('Decision must be approved or changes_requested'),
+  body('comment').optional({ nullable: true }).trim().isLength({ max: 2000 }).withMessage('Comment must be less than 2000 characters'),
+];
+
+// Everything here is scoped to the client of the signed-in contact (req.clientContact)
+router.use(authenticate, requireClientPortal);
+
+// Workflows of the contact's client in this workspace
+async function findClientWorkflows(req) {
+  const rows = await getDatabase().all(`
+    SELECT * FROM workflows
+    WHERE client_id = ? AND workspace_id = ? AND status != 'cancelled'
+    ORDER BY created_at DESC
+  `, [req.clientContact.clientId, req.workspaceId]);
+  return rows.map(row => Workflow.fromDatabase(row));
+}
+
+// A task the client may see: shared with them and part of one of their workflows
+async function findClientTask(req, taskId) {
+  const row = await getDatabase().get(`
+    SELECT kt.* FROM kanban_tasks kt
+    JOIN workflows w ON kt.workflow_id = w.id
+    WHERE kt.id = ? AND kt.client_visible = 1 AND w.client_id = ? AND w.workspace_id = ?
+  `, [taskId, req.clientContact.clientId, req.workspaceId]);
+  return row ? KanbanTask.fromDatabase(row) : null;
+}
+
+// What the client sees of a task; internal fields (assignees, hours, tags) stay with the team
+function portalTask(task, extra = {}) {
+  return {
+    id: task.id,
+    title: task.title,
+    description: task.description,
+    status: task.status,
+    startDate: task.startDate,
+    dueDate: task.dueDate,
+    approval: task.clientApproval && {
+      status: task.clientApproval.status,
+      comment: task.clientApproval.comment,
+      updatedAt: task.clientApproval.updatedAt
+    },
+    ...extra
+  };
+}
+
+// GET /api/portal - Overview: the client, their workflows with progress and upcoming meetings
+router.get('/', async (req, res) => {
+  try {
+    const contact = req.clientContact;
+
+    let workflows = [];
+    if (can(req, 'workflows:view')) {
+      workflows = await Promise.all((await findClientWorkflows(req)).map(async workflow => ({
+        id: workflow.id,
+        name: workflow.name,
+        description: workflow.description,
+        status: workflow.status,
+        startDate: workflow.startDate,
+        expectedEndDate: workflow.expectedEndDate,
+        actualEndDate: workflow.actualEndDate,
+        progress: await workflow.getProgress()
+      })));
+    }
+
+    // Recurring meetings count with each of their occurrences in the next year
+    const now = new Date();
+    const upcoming = await Meeting.findByDateRange(now, new Date(now.getTime() + 365 * 24 * 60 * 60 * 1000), {
+      clientId: contact.clientId
+    });
+    const meetings = upcoming.filter(meeting => ['scheduled', 'rescheduled'].includes(meeting.status)).slice(0, 10).map(meeting => ({
+      id: meeting.id,
+      title: meeting.title,
+      description: meeting.description,
+      meetingDate: meeting.meetingDate,
+      durationMinutes: meeting.durationMinutes,
+      location: meeting.location,
+      meetingType: meeting.meetingType,
+      status: meeting.status,
+      recurrenceRule: meeting.recurrenceRule
+    }));
+
+    if (!contact.lastSeenAt) {
+      await contact.markSeen();
+    }
+
+    res.json({
+      client: { id: contact.clientId, ...contact.client },
+      workspace: { id: req.workspace.id, name: req.workspace.name },
+      contact,
+      permissions: req.permissions,
+      workflows,
+      meetings
+    });
+  } catch (error) {
+    console.error('Error fetching client portal:', error);
+    res.status(500).json({ error: 'Failed to fetch client portal' });
+  }
+});
+
+// GET /api/portal/workflows/:id/progress - Get the progress of one of the client's workflows
+router.get('/workflows/:id/progress', requirePermission('workflows:view'), async (req, res) => {
+  try {
+    const workflow = (await findClientWorkflows(req)).find(item => item.id === req.params.id);
+    if (!workflow) {
+      return res.status(404).json({ error: 'Workflow not found' });
+    }
+
+    res.json(await workflow.getProgress());
+  } catch (error) {
+    console.error('Error fetching workflow progress:', error);
+    res.status(500).json({ error: 'Failed to fetch workflow progress' });
+  }
+});
+
+// GET /api/portal/tasks - Get the tasks shared with the client, with their shared resources
+router.get('/tasks', requirePermission('tasks:view'), async (req, res) => {
+  try {
+    const db = getDatabase();
+    const rows = await db.all(`
+      SELECT kt.*, w.name as workflow_name, col.title as status_title
+      FROM kanban_tasks kt
+      JOIN workflows w ON kt.workflow_id = w.id
+      LEFT JOIN kanban_columns col ON kt.status = col.id
+      WHERE kt.client_visible = 1 AND w.client_id = ? AND w.workspace_id = ?
+      ORDER BY kt.due_date IS NULL, kt.due_date ASC, kt.created_at ASC
+    `, [req.clientContact.clientId, req.workspaceId]);
+
+    const taskIds = rows.map(row => row.id);
+    const resourceRows = taskIds.length === 0 ? [] : await db.all(`
+      SELECT * FROM task_resources
+      WHERE shared_with_client = 1 AND task_id IN (${taskIds.map(() => '?').join(', ')})
+      ORDER BY created_at ASC
+    `, taskIds);
+    const resources = resourceRows.map(row => TaskResource.fromDatabase(row));
+
+    res.json(rows.map(row => portalTask(KanbanTask.fromDatabase(row), {
+      statusTitle: row.status_title || row.status,
+      workflow: { id: row.workflow_id, name: row.workflow_name },
+      resources: resources
+        .filter(resource => resource.taskId === row.id)
+        .map(resource => {
+          const { id, type, title, content, url, fileName, fileSize, mimeType, createdAt } = resource;
+          return { id, type, title, content, url, fileName, fileSize, mimeType, createdAt, ...fileUploads.fileLinks(resource, req.workspaceId) };
+        })
+    })));
+  } catch (error) {
+    console.error('Error fetching portal tasks:', error);
+    res.status(500).json({ error: 'Failed to fetch tasks' });
+  }
+});
+
+// POST /api/portal/tasks/:id/approval - Approve a deliverable or request changes
+router.post('/tasks/:id/approval', requirePermission('tasks:comment'), validateDecision, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const task = await findClientTask(req, req.params.id);
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    if (!task.clientApproval) {
+      return res.status(400).json({ error: 'No approval has been requested for this task' });
+    }
+
+    const { decision, comment } = req.body;
+    await task.recordClientDecision(decision, comment, req.user.id);
+
+    // The team sees the decision on the board right away; whoever asked for it is notified
+    realtime.publish(req.workspaceId, 'task.updated', task.toJSON());
+    try {
+      await Notification.notify({
+        userId: task.clientApproval.requestedBy,
+        workspaceId: req.workspaceId,
+        type: 'client_approval',
+        title: decision === 'approved'
+          ? `${req.user.name} approved "${task.title}"`
+          : `${req.user.name} requested changes to "${task.title}"`,
+        body: task.clientApproval.comment,
+        link: '/app/kanban',
+        entityType: 'kanban_task',
+        entityId: task.id,
+        actorId: req.user.id
+      });
+    } catch (error) {
+      console.error('Error notifying about client approval:', error);
+    }
+
+    res.json(portalTask(task));
+  } catch (error) {
+    console.error('Error recording client approval:', error);
+    res.status(500).json({ error: 'Failed to record approval' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,46 @@
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const realtime = require('../services/realtime');
+const { authenticate } = require('../middleware/auth');
+const { requireWorkspace } = require('../middleware/workspace');
+const router = express.Router();
+
+// Validation middleware
+const validatePresence = [
+  body('connectionId').notEmpty().withMessage('Connection ID is required'),
+  body('location').optional({ nullable: true }).isString().isLength({ max: 100 }),
+];
+
+router.use(authenticate, requireWorkspace);
+
+// GET /api/realtime/stream - Open the workspace event stream (Server-Sent Events)
+router.get('/stream', (req, res) => {
+  try {
+    realtime.connect(req, res);
+  } catch (error) {
+    console.error('Error opening realtime stream:', error);
+    res.status(500).json({ error: 'Failed to open realtime stream' });
+  }
+});
+
+// GET /api/realtime/presence - Get the users currently connected to the workspace
+router.get('/presence', (req, res) => {
+  res.json(realtime.getPresence(req.workspaceId));
+});
+
+// PUT /api/realtime/presence - Report which view a connection is on (e.g. 'kanban')
+router.put('/presence', validatePresence, (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+
+  const updated = realtime.setLocation(req.workspaceId, req.body.connectionId, req.user.id, req.body.location);
+  if (!updated) {
+    return res.status(404).json({ error: 'Connection not found' });
+  }
+
+  res.json({ message: 'Presence updated' });
+});
+
+module.exports = router;
@@ -0,0 +1,177 @@
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const RecurringTask = require('../models/RecurringTask');
+const Workflow = require('../models/Workflow');
+const { authenticate } = require('../middleware/auth');
+const { requireWorkspace, requirePermission } = require('../middleware/workspace');
+const { getDatabase } = require('../config/database');
+const recurrence = require('../services/recurrence');
+const router = express.Router();
+
+const recurrenceRuleValidator = (value) => {
+  const error = recurrence.validate(value);
+  if (error) throw new Error(error);
+  return true;
+};
+
+// Validation middleware
+const validateRecurringTask = [
+  body('title').trim().notEmpty().withMessage('Title is required'),
+  body('workflowId').notEmpty().withMessage('Workflow ID is required'),
+  body('status').notEmpty().withMessage('Status is required'),
+  body('description').optional().trim(),
+  body('priority').optional().isIn(['low', 'medium', 'high', 'urgent']),
+  body('tags').optional().isArray(),
+  body('assignedMembers').optional().isArray(),
+  body('estimatedHours').optional({ nullable: true }).isFloat({ min: 0 }),
+  body('recurrenceRule').custom(recurrenceRuleValidator),
+  body('startsAt').isISO8601().withMessage('Valid start date is required'),
+  body('dueAfterDays').optional({ nullable: true }).isInt({ min: 0 }).withMessage('Due after days must be a non-negative integer'),
+  body('isActive').optional().isBoolean(),
+];
+
+// The workflow and column a recurring task creates its tasks in must exist in the workspace
+async function checkTarget(req) {
+  const workflow = await Workflow.findById(req.body.workflowId, req.workspaceId);
+  if (!workflow) return 'Workflow not found';
+
+  const column = await getDatabase().get('SELECT id FROM kanban_columns WHERE id = ?', [req.body.status]);
+  if (!column) return 'Status is not a Kanban column';
+
+  return null;
+}
+
+router.use(authenticate, requireWorkspace);
+
+// GET /api/recurring-tasks - Get all recurring tasks for workspace
+router.get('/', requirePermission('tasks:view'), async (req, res) => {
+  try {
+    const recurringTasks = await RecurringTask.findAll(req.workspaceId);
+    res.json(recurringTasks.map(recurringTask => recurringTask.toJSON()));
+  } catch (error) {
+    console.error('Error fetching recurring tasks:', error);
+    res.status(500).json({ error: 'Failed to fetch recurring tasks' });
+  }
+});
+
+// GET /api/recurring-tasks/:id - Get recurring task by ID
+router.get('/:id', requirePermission('tasks:view'), async (req, res) => {
+  try {
+    const recurringTask = await RecurringTask.findById(req.params.id, req.workspaceId);
+    if (!recurringTask) {
+      return res.status(404).json({ error: 'Recurring task not found' });
+    }
+
+    res.json(recurringTask.toJSON());
+  } catch (error) {
+    console.error('Error fetching recurring task:', error);
+    res.status(500).json({ error: 'Failed to fetch recurring task' });
+  }
+});
+
+// POST /api/recurring-tasks - Create a recurring task
+router.post('/', requirePermission('tasks:create'), validateRecurringTask, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const targetError = await checkTarget(req);
+    if (targetError) {
+      return res.status(400).json({ error: targetError });
+    }
+
+    const recurringTask = new RecurringTask({
+      workspaceId: req.workspaceId,
+      workflowId: req.body.workflowId,
+      title: req.body.title,
+      description: req.body.description,
+      priority: req.body.priority,
+      status: req.body.status,
+      tags: req.body.tags,
+      estimatedHours: req.body.estimatedHours,
+      assignedMembers: req.body.assignedMembers,
+      recurrenceRule: req.body.recurrenceRule,
+      startsAt: new Date(req.body.startsAt),
+      dueAfterDays: req.body.dueAfterDays,
+      isActive: req.body.isActive,
+      createdBy: req.user.id
+    });
+    recurringTask.scheduleNext();
+
+    await recurringTask.save(req.user.id);
+    res.status(201).json(recurringTask.toJSON());
+  } catch (error) {
+    console.error('Error creating recurring task:', error);
+    res.status(500).json({ error: 'Failed to create recurring task' });
+  }
+});
+
+// PUT /api/recurring-tasks/:id - Update a recurring task
+router.put('/:id', requirePermission('tasks:update'), validateRecurringTask, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const recurringTask = await RecurringTask.findById(req.params.id, req.workspaceId);
+    if (!recurringTask) {
+      return res.status(404).json({ error: 'Recurring task not found' });
+    }
+
+    const targetError = await checkTarget(req);
+    if (targetError) {
+      return res.status(400).json({ error: targetError });
+    }
+
+    const startsAt = new Date(req.body.startsAt);
+    const isActive = req.body.isActive !== undefined ? Boolean(req.body.isActive) : recurringTask.isActive;
+    const reschedule = req.body.recurrenceRule !== recurringTask.recurrenceRule ||
+      startsAt.getTime() !== recurringTask.startsAt.getTime() ||
+      isActive !== recurringTask.isActive;
+
+    Object.assign(recurringTask, {
+      workflowId: req.body.workflowId,
+      title: req.body.title,
+      description: req.body.description,
+      priority: req.body.priority || recurringTask.priority,
+      status: req.body.status,
+      tags: req.body.tags || recurringTask.tags,
+      estimatedHours: req.body.estimatedHours ?? null,
+      assignedMembers: req.body.assignedMembers || recurringTask.assignedMembers,
+      recurrenceRule: req.body.recurrenceRule,
+      startsAt,
+      dueAfterDays: req.body.dueAfterDays ?? null,
+      isActive
+    });
+    if (reschedule) {
+      recurringTask.scheduleNext();
+    }
+
+    await recurringTask.save(req.user.id);
+    res.json(recurringTask.toJSON());
+  } catch (error) {
+    console.error('Error updating recurring task:', error);
+    res.status(500).json({ error: 'Failed to update recurring task' });
+  }
+});
+
+// DELETE /api/recurring-tasks/:id - Delete a recurring task (tasks it already created are kept)
+router.delete('/:id', requirePermission('tasks:delete'), async (req, res) => {
+  try {
+    const recurringTask = await RecurringTask.findById(req.params.id, req.workspaceId);
+    if (!recurringTask) {
+      return res.status(404).json({ error: 'Recurring task not found' });
+    }
+
+    await recurringTask.delete(req.user.id);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting recurring task:', error);
+    res.status(500).json({ error: 'Failed to delete recurring task' });
+  }
+});
+
+module.exports = router;
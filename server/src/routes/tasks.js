@@ -1,14 +1,26 @@
 const express = require('express');
-const { body, validationResult } = require('express-validator');
+const multer = require('multer');
+const { body, query, validationResult } = require('express-validator');
 const KanbanTask = require('../models/KanbanTask');
 const TaskResource = require('../models/TaskResource');
 const Workflow = require('../models/Workflow');
-const Client = require('../models/Client');
+const TaskDependency = require('../models/TaskDependency');
+const TaskComment = require('../models/TaskComment');
+const Workspace = require('../models/Workspace');
+const WorkspaceRole = require('../models/WorkspaceRole');
+const ClientContact = require('../models/ClientContact');
 const { authenticate } = require('../middleware/auth');
-const { requireWorkspace } = require('../middleware/workspace');
+const { requireWorkspace, requirePermission } = require('../middleware/workspace');
 const { getDatabase } = require('../config/database');
+const realtime = require('../services/realtime');
+const Notification = require('../models/Notification');
+const emailService = require('../services/emailService');
 const router = express.Router();
 const ActivityLogger = require('../models/ActivityLogger');
+const taskMetrics = require('../services/taskMetrics');
+const columnPolicies = require('../services/columnPolicies');
+const fileUploads = require('../services/fileUploads');
+const collaboration = require('../services/collaboration');
 
 // Validation middleware
 const validateTask = [
@@ -17,21 +29,39 @@ const validateTask = [
   body('description').optional().trim(),
   body('workflowId').optional(),
   body('priority').optional().isIn(['low', 'medium', 'high', 'urgent']),
+  body('startDate').optional({ nullable: true }).isISO8601(),
   body('dueDate').optional().isISO8601(),
+  body('estimatedHours').optional({ nullable: true }).isFloat({ min: 0 }),
+  body('actualHours').optional({ nullable: true }).isFloat({ min: 0 }),
   body('clientId').optional(), // Add clientId for auto-workflow creation
 ];
 
-// Helper function to create auto workflow for client
-async function createAutoWorkflow(clientId, taskTitle) {
+const validateSchedule = [
+  body('startDate').optional({ nullable: true }).isISO8601().withMessage('Valid start date is required'),
+  body('dueDate').optional({ nullable: true }).isISO8601().withMessage('Valid due date is required'),
+];
+
+const validateAnalytics = [
+  query('from').optional().isISO8601().withMessage('from must be a date'),
+  query('to').optional().isISO8601().withMessage('to must be a date'),
+  query('groupBy').optional().isIn(taskMetrics.GROUPINGS).withMessage(`groupBy must be one of ${taskMetrics.GROUPINGS.join(', ')}`),
+  query('workflowId').optional().isString(),
+  query('clientId').optional().isString(),
+  query('assigneeId').optional().isString(),
+  query('tag').optional().isString()
+];
+
+// Helper function to create auto workflow for client; null when the client is not in the workspace
+async function createAutoWorkflow(clientId, taskTitle, workspaceId) {
   try {
-    const client = await Client.findById(clientId);
+    const client = await getDatabase().get('SELECT name, company FROM clients WHERE id = ? AND workspace_id = ?', [clientId, workspaceId]);
     if (!client) {
-      throw new Error('Client not found');
+      return null;
     }
 
     // Check if client already has an active workflow
     const existingWorkflows = await Workflow.findByClientId(clientId);
-    const activeWorkflow = existingWorkflows.find(w => w.status === 'active');
+    const activeWorkflow = existingWorkflows.find(w => w.status === 'active' && w.workspaceId === workspaceId);
     
     if (activeWorkflow) {
       return activeWorkflow;
@@ -42,6 +72,7 @@ async function createAutoWorkflow(clientId, taskTitle) {
       name: `${client.company || client.name} - Project Workflow`,
       description: `Auto-generated workflow for ${client.company || client.name} based on task: ${taskTitle}`,
       clientId: clientId,
+      workspaceId,
       status: 'active',
       startDate: new Date(),
       expectedEndDate: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000) // 90 days from now
@@ -55,20 +86,59 @@ async function createAutoWorkflow(clientId, taskTitle) {
   }
 }
 
+// Tasks created without a workspace_id belong to the workspace of their workflow
+async function workspaceOfTask(task) {
+  if (task.workspaceId) return task.workspaceId;
+  const workflow = await getDatabase().get('SELECT workspace_id FROM workflows WHERE id = ?', [task.workflowId]);
+  return workflow ? workflow.workspace_id : null;
+}
+
+// Push a task change to the task's workspace
+async function publishTaskChange(req, type, task, data) {
+  try {
+    realtime.publish(await workspaceOfTask(task), type, data, realtime.originOf(req));
+  } catch (error) {
+    console.error('Error publishing task change:', error);
+  }
+}
+
+// Tell newly assigned members about the task
+async function notifyAssignees(req, task, memberIds) {
+  try {
+    const workspaceId = await workspaceOfTask(task);
+    const assigner = req.user ? req.user.name : 'Someone';
+    for (const memberId of memberIds) {
+      await Notification.notify({
+        userId: memberId,
+        workspaceId,
+        type: 'task_assigned',
+        title: `${assigner} assigned you to "${task.title}"`,
+        body: task.dueDate ? `Due ${new Date(task.dueDate).toDateString()}` : null,
+        link: '/app/kanban',
+        entityType: 'kanban_task',
+        entityId: task.id,
+        actorId: req.user ? req.user.id : null
+      });
+    }
+  } catch (error) {
+    console.error('Error notifying task assignees:', error);
+  }
+}
+
 // GET /api/tasks - Get all tasks (optionally filtered by workflow)
-router.get('/', async (req, res) => {
+router.get('/', authenticate, requireWorkspace, requirePermission('tasks:view'), async (req, res) => {
   try {
     const { status, workflowId, overdue, priority, clientId } = req.query;
     
     let tasks;
     if (overdue === 'true') {
-      tasks = await KanbanTask.findOverdue();
+      tasks = await KanbanTask.findOverdue(req.workspaceId);
     } else if (status) {
-      tasks = await KanbanTask.findByStatus(status);
+      tasks = await KanbanTask.findByStatus(status, req.workspaceId);
     } else if (workflowId) {
-      tasks = await KanbanTask.findByWorkflowId(workflowId);
+      tasks = await KanbanTask.findByWorkflowId(workflowId, req.workspaceId);
     } else {
-      tasks = await KanbanTask.findAll();
+      tasks = await KanbanTask.findAll(req.workspaceId);
     }
     
     // Filter by priority if specified
@@ -102,9 +172,9 @@ router.get('/', async (req, res) => {
 });
 
 // GET /api/tasks/by-workflow/:workflowId - Get tasks for specific workflow
-router.get('/by-workflow/:workflowId', async (req, res) => {
+router.get('/by-workflow/:workflowId', authenticate, requireWorkspace, requirePermission('tasks:view'), async (req, res) => {
   try {
-    const tasks = await KanbanTask.findByWorkflowId(req.params.workflowId);
+    const tasks = await KanbanTask.findByWorkflowId(req.params.workflowId, req.workspaceId);
     
     // Add assigned members to each task
     const tasksWithMembers = await Promise.all(
@@ -125,14 +195,14 @@ router.get('/by-workflow/:workflowId', async (req, res) => {
 });
 
 // GET /api/tasks/by-client/:clientId - Get tasks for specific client (across all their workflows)
-router.get('/by-client/:clientId', async (req, res) => {
+router.get('/by-client/:clientId', authenticate, requireWorkspace, requirePermission('tasks:view'), async (req, res) => {
   try {
     const clientWorkflows = await Workflow.findByClientId(req.params.clientId);
     const workflowIds = clientWorkflows.map(w => w.id);
     
     let allTasks = [];
     for (const workflowId of workflowIds) {
-      const tasks = await KanbanTask.findByWorkflowId(workflowId);
+      const tasks = await KanbanTask.findByWorkflowId(workflowId, req.workspaceId);
       allTasks = allTasks.concat(tasks);
     }
     
@@ -155,22 +225,92 @@ router.get('/by-client/:clientId', async (req, res) => {
 });
 
 // GET /api/tasks/columns - Get kanban columns for workspace
-router.get('/columns', authenticate, async (req, res) => {
+router.get('/columns', authenticate, requireWorkspace, requirePermission('tasks:view'), async (req, res) => {
   try {
     const db = getDatabase();
     // Remove workspace filtering since kanban_columns doesn't have workspace_id column
     const columns = await db.all('SELECT * FROM kanban_columns ORDER BY order_index');
-    res.json(columns);
+    res.json(columns.map(columnPolicies.columnFromRow));
   } catch (error) {
     console.error('Error fetching kanban columns:', error);
     res.status(500).json({ error: 'Failed to fetch kanban columns' });
   }
 });
 
+// GET /api/tasks/analytics - Cumulative flow, cycle and lead times, aging work and throughput of the
+// workspace's tasks over a range, optionally filtered by workflow, client, assignee or tag
+router.get('/analytics', authenticate, requireWorkspace, requirePermission('tasks:view'), validateAnalytics, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    let range;
+    try {
+      range = taskMetrics.resolveRange(req.query);
+    } catch (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const db = getDatabase();
+    const { workflowId, clientId, assigneeId, tag } = req.query;
+    const [timelines, columns, assignees, taggedTasks] = await Promise.all([
+      taskMetrics.loadTaskTimelines(req.workspaceId, { workflowId, clientId, assigneeId, tag }),
+      db.all('SELECT id, title, color FROM kanban_columns ORDER BY order_index'),
+      db.all(`
+        SELECT DISTINCT u.id, u.name
+        FROM task_assignments ta
+        JOIN users u ON ta.member_id = u.id
+        JOIN kanban_tasks kt ON ta.task_id = kt.id
+        LEFT JOIN workflows w ON kt.workflow_id = w.id
+        WHERE COALESCE(kt.workspace_id, w.workspace_id) = ?
+        ORDER BY u.name
+      `, [req.workspaceId]),
+      db.all(`
+        SELECT kt.tags FROM kanban_tasks kt
+        LEFT JOIN workflows w ON kt.workflow_id = w.id
+        WHERE COALESCE(kt.workspace_id, w.workspace_id) = ? AND kt.tags IS NOT NULL AND kt.tags != '[]'
+      `, [req.workspaceId])
+    ]);
+
+    // Tags used on the workspace's tasks, for the tag filter
+    const tags = new Set();
+    for (const task of taggedTasks) {
+      try {
+        JSON.parse(task.tags).forEach(value => tags.add(value));
+      } catch {
+        // Ignore malformed tag lists
+      }
+    }
+
+    res.json({
+      range: { from: range.from, to: range.to, groupBy: range.groupBy },
+      columns,
+      taskCount: timelines.length,
+      ...taskMetrics.flowAnalysis(timelines, range),
+      filterOptions: { assignees, tags: [...tags].sort() }
+    });
+  } catch (error) {
+    console.error('Error fetching task analytics:', error);
+    res.status(500).json({ error: 'Failed to fetch task analytics' });
+  }
+});
+
+// GET /api/tasks/storage-usage - Get the workspace's uploaded file storage, its quota and the size limit of a file
+router.get('/storage-usage', authenticate, requireWorkspace, requirePermission('tasks:view'), async (req, res) => {
+  try {
+    res.json(await fileUploads.storageSummary(req.workspaceId));
+  } catch (error) {
+    console.error('Error fetching storage usage:', error);
+    res.status(500).json({ error: 'Failed to fetch storage usage' });
+  }
+});
+
 // GET /api/tasks/:id - Get task by ID
-router.get('/:id', async (req, res) => {
+router.get('/:id', authenticate, requireWorkspace, requirePermission('tasks:view'), async (req, res) => {
   try {
-    const task = await KanbanTask.findById(req.params.id);
+    const task = await KanbanTask.findById(req.params.id, req.workspaceId);
     if (!task) {
       return res.status(404).json({ error: 'Task not found' });
     }
@@ -190,9 +330,9 @@ router.get('/:id', async (req, res) => {
 });
 
 // GET /api/tasks/:id/assigned-members - Get task assigned members
-router.get('/:id/assigned-members', async (req, res) => {
+router.get('/:id/assigned-members', authenticate, requireWorkspace, requirePermission('tasks:view'), async (req, res) => {
   try {
-    const task = await KanbanTask.findById(req.params.id);
+    const task = await KanbanTask.findById(req.params.id, req.workspaceId);
     if (!task) {
       return res.status(404).json({ error: 'Task not found' });
     }
@@ -206,7 +346,7 @@ router.get('/:id/assigned-members', async (req, res) => {
 });
 
 // POST /api/tasks - Create new task (with auto-workflow creation)
-router.post('/', validateTask, async (req, res) => {
+router.post('/', authenticate, requireWorkspace, requirePermission('tasks:create'), validateTask, async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -217,7 +357,10 @@ router.post('/', validateTask, async (req, res) => {
     
     // Auto-create workflow if clientId provided but no workflowId
     if (!workflowId && req.body.clientId) {
-      const autoWorkflow = await createAutoWorkflow(req.body.clientId, req.body.title);
+      const autoWorkflow = await createAutoWorkflow(req.body.clientId, req.body.title, req.workspaceId);
+      if (!autoWorkflow) {
+        return res.status(404).json({ error: 'Client not found' });
+      }
       workflowId = autoWorkflow.id;
     }
 
@@ -225,14 +368,22 @@ router.post('/', validateTask, async (req, res) => {
       return res.status(400).json({ error: 'Either workflowId or clientId must be provided' });
     }
 
+    if (!(await Workflow.findById(workflowId, req.workspaceId))) {
+      return res.status(404).json({ error: 'Workflow not found' });
+    }
+
     const task = new KanbanTask({
       title: req.body.title,
       description: req.body.description,
       workflowId: workflowId,
+      workspaceId: req.workspaceId,
       priority: req.body.priority || 'medium',
       status: req.body.status,
       tags: req.body.tags || [],
-      dueDate: req.body.dueDate ? new Date(req.body.dueDate) : null
+      startDate: req.body.startDate ? new Date(req.body.startDate) : null,
+      dueDate: req.body.dueDate ? new Date(req.body.dueDate) : null,
+      estimatedHours: req.body.estimatedHours ?? null,
+      actualHours: req.body.actualHours ?? null
     });
 
     await task.save(req.body.performedBy);
@@ -251,6 +402,8 @@ router.post('/', validateTask, async (req, res) => {
       assignedMembers: assignedMembers.map(member => member.id) || []
     };
     
+    publishTaskChange(req, 'task.created', task, taskWithMembers);
+    notifyAssignees(req, task, taskWithMembers.assignedMembers);
     res.status(201).json(taskWithMembers);
   } catch (error) {
     console.error('Error creating task:', error);
@@ -259,9 +412,9 @@ router.post('/', validateTask, async (req, res) => {
 });
 
 // POST /api/tasks/:id/assign - Assign member to task
-router.post('/:id/assign', async (req, res) => {
+router.post('/:id/assign', authenticate, requireWorkspace, requirePermission('tasks:update'), async (req, res) => {
   try {
-    const task = await KanbanTask.findById(req.params.id);
+    const task = await KanbanTask.findById(req.params.id, req.workspaceId);
     if (!task) {
       return res.status(404).json({ error: 'Task not found' });
     }
@@ -271,7 +424,17 @@ router.post('/:id/assign', async (req, res) => {
       return res.status(400).json({ error: 'Member ID is required' });
     }
 
+    const alreadyAssigned = (await task.getAssignedMembers()).some(member => member.id === memberId);
     const assignmentId = await task.assignMember(memberId);
+    if (!alreadyAssigned) {
+      notifyAssignees(req, task, [memberId]);
+    }
+
+    const assignedMembers = await task.getAssignedMembers();
+    publishTaskChange(req, 'task.updated', task, {
+      ...task.toJSON(),
+      assignedMembers: assignedMembers.map(member => member.id)
+    });
     res.status(201).json({ id: assignmentId, memberId });
   } catch (error) {
     console.error('Error assigning task member:', error);
@@ -279,26 +442,92 @@ router.post('/:id/assign', async (req, res) => {
   }
 });
 
+// Global admins, or admins of the task's workspace, may complete blocked tasks and break column rules
+const canOverrideMoveChecks = async (user, workspaceId) => {
+  if (!user) return false;
+  if (user.role === 'admin') return true;
+  const { role } = await WorkspaceRole.permissionsForUser(user.id, workspaceId);
+  return WorkspaceRole.isAdminRole(role);
+};
+
+/**
+ * Why the task of the request's workspace may not move to `status`, as `{ status, body }` to send,
+ * or null when it may: open predecessors when it enters done, and the column rules. Admins can pass
+ * `override`; overrides are logged.
+ */
+async function refuseStatusChange(req, task, status, override) {
+  // Finish-to-start: a task cannot be done while any predecessor is still open
+  const blockers = status === 'done' && task.status !== 'done'
+    ? await TaskDependency.findOpenPredecessors(task.id)
+    : [];
+  // WIP limits and entry/exit policies of the columns
+  const violations = await columnPolicies.checkMove(task, status, req.workspaceId);
+  if (blockers.length === 0 && violations.length === 0) return null;
+
+  if (!override) {
+    return {
+      status: 409,
+      body: {
+        error: blockers.length > 0 ? 'Task is blocked by unfinished predecessors' : 'Moving the task breaks the column rules',
+        blockers,
+        violations
+      }
+    };
+  }
+  if (!(await canOverrideMoveChecks(req.user, req.workspaceId))) {
+    return { status: 403, body: { error: 'Only admins can override task dependencies and column rules' } };
+  }
+
+  if (blockers.length > 0) {
+    await ActivityLogger.log('kanban_task', task.id, 'dependency_override', req.user.id, {
+      title: task.title,
+      blockers: blockers.map(blocker => blocker.id)
+    });
+  }
+  if (violations.length > 0) {
+    await ActivityLogger.log('kanban_task', task.id, 'column_rule_override', req.user.id, {
+      title: task.title,
+      fromStatus: task.status,
+      toStatus: status,
+      violations: violations.map(violation => violation.message)
+    });
+  }
+  return null;
+}
+
 // PUT /api/tasks/:id - Update task
-router.put('/:id', validateTask, async (req, res) => {
+router.put('/:id', authenticate, requireWorkspace, requirePermission('tasks:update'), validateTask, async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const task = await KanbanTask.findById(req.params.id);
+    const task = await KanbanTask.findById(req.params.id, req.workspaceId);
     if (!task) {
       return res.status(404).json({ error: 'Task not found' });
     }
 
+    if (req.body.workflowId && !(await Workflow.findById(req.body.workflowId, req.workspaceId))) {
+      return res.status(404).json({ error: 'Workflow not found' });
+    }
+
     task.title = req.body.title;
     task.description = req.body.description;
     task.workflowId = req.body.workflowId || task.workflowId;
     task.priority = req.body.priority || task.priority;
-    task.status = req.body.status;
     task.tags = req.body.tags || task.tags;
     task.dueDate = req.body.dueDate ? new Date(req.body.dueDate) : task.dueDate;
+    if (req.body.startDate !== undefined) task.startDate = req.body.startDate ? new Date(req.body.startDate) : null;
+    if (req.body.estimatedHours !== undefined) task.estimatedHours = req.body.estimatedHours;
+    if (req.body.actualHours !== undefined) task.actualHours = req.body.actualHours;
+
+    // A new status is checked like a move, against the updated task
+    const refusal = await refuseStatusChange(req, task, req.body.status, req.body.override);
+    if (refusal) {
+      return res.status(refusal.status).json(refusal.body);
+    }
+    task.status = req.body.status;
 
     await task.save(req.body.performedBy);
     
@@ -309,6 +538,7 @@ router.put('/:id', validateTask, async (req, res) => {
       assignedMembers: assignedMembers.map(member => member.id) || []
     };
     
+    publishTaskChange(req, 'task.updated', task, taskWithMembers);
     res.json(taskWithMembers);
   } catch (error) {
     console.error('Error updating task:', error);
@@ -317,19 +547,24 @@ router.put('/:id', validateTask, async (req, res) => {
 });
 
 // PATCH /api/tasks/:id/move - Move task to different status
-router.patch('/:id/move', async (req, res) => {
+router.patch('/:id/move', authenticate, requireWorkspace, requirePermission('tasks:update'), async (req, res) => {
   try {
-    const task = await KanbanTask.findById(req.params.id);
+    const task = await KanbanTask.findById(req.params.id, req.workspaceId);
     if (!task) {
       return res.status(404).json({ error: 'Task not found' });
     }
 
-    const { status } = req.body;
+    const { status, override } = req.body;
     if (!status) {
       return res.status(400).json({ error: 'Status is required' });
     }
 
-    await task.moveToStatus(status, req.body.performedBy);
+    const refusal = await refuseStatusChange(req, task, status, override);
+    if (refusal) {
+      return res.status(refusal.status).json(refusal.body);
+    }
+
+    await task.moveToStatus(status, req.user ? req.user.id : req.body.performedBy);
     
     // Return task with assigned members
     const assignedMembers = await task.getAssignedMembers();
@@ -338,6 +573,7 @@ router.patch('/:id/move', async (req, res) => {
       assignedMembers: assignedMembers.map(member => member.id) || []
     };
     
+    publishTaskChange(req, 'task.updated', task, taskWithMembers);
     res.json(taskWithMembers);
   } catch (error) {
     console.error('Error moving task:', error);
@@ -345,10 +581,54 @@ router.patch('/:id/move', async (req, res) => {
   }
 });
 
+// PATCH /api/tasks/:id/schedule - Reschedule a task (timeline drag / resize)
+router.patch('/:id/schedule', authenticate, requireWorkspace, requirePermission('tasks:update'), validateSchedule, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const task = await KanbanTask.findById(req.params.id, req.workspaceId);
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+
+    const startDate = req.body.startDate ? new Date(req.body.startDate) : null;
+    const dueDate = req.body.dueDate ? new Date(req.body.dueDate) : null;
+    if (startDate && dueDate && startDate > dueDate) {
+      return res.status(400).json({ error: 'Start date must be before the due date' });
+    }
+
+    const previous = { startDate: task.startDate, dueDate: task.dueDate };
+    task.startDate = startDate;
+    task.dueDate = dueDate;
+    await task.save(req.body.performedBy);
+
+    await ActivityLogger.log('kanban_task', task.id, 'rescheduled', req.body.performedBy, {
+      title: task.title,
+      from: previous,
+      to: { startDate, dueDate }
+    });
+
+    const assignedMembers = await task.getAssignedMembers();
+    const taskWithMembers = {
+      ...task.toJSON(),
+      assignedMembers: assignedMembers.map(member => member.id) || []
+    };
+
+    publishTaskChange(req, 'task.updated', task, taskWithMembers);
+    res.json(taskWithMembers);
+  } catch (error) {
+    console.error('Error rescheduling task:', error);
+    res.status(500).json({ error: 'Failed to reschedule task' });
+  }
+});
+
 // PATCH /api/tasks/:id/priority - Update task priority
-router.patch('/:id/priority', async (req, res) => {
+router.patch('/:id/priority', authenticate, requireWorkspace, requirePermission('tasks:update'), async (req, res) => {
   try {
-    const task = await KanbanTask.findById(req.params.id);
+    const task = await KanbanTask.findById(req.params.id, req.workspaceId);
     if (!task) {
       return res.status(404).json({ error: 'Task not found' });
     }
@@ -360,6 +640,7 @@ router.patch('/:id/priority', async (req, res) => {
 
     task.priority = priority;
     await task.save(req.body.performedBy);
+    publishTaskChange(req, 'task.updated', task, task.toJSON());
     res.json(task);
   } catch (error) {
     console.error('Error updating task priority:', error);
@@ -367,8 +648,16 @@ router.patch('/:id/priority', async (req, res) => {
   }
 });
 
-// POST /api/tasks/columns - Create new kanban column
-router.post('/columns', async (req, res) => {
+// Columns, with their WIP limits and policies, are shared by every workspace, so only global admins change them
+const requireColumnAdmin = (req, res, next) => {
+  if (req.user.role !== 'admin') {
+    return res.status(403).json({ error: 'Only administrators can change the board columns' });
+  }
+  next();
+};
+
+// POST /api/tasks/columns - Create new kanban column, optionally with WIP limits and policies
+router.post('/columns', authenticate, requireWorkspace, requirePermission('settings:manage'), requireColumnAdmin, async (req, res) => {
   try {
     const { id, title, color, orderIndex } = req.body;
     
@@ -376,47 +665,79 @@ router.post('/columns', async (req, res) => {
       return res.status(400).json({ error: 'ID and title are required' });
     }
 
+    let wipLimit, assigneeWipLimit, policies;
+    try {
+      wipLimit = columnPolicies.normalizeLimit(req.body.wipLimit, 'wipLimit');
+      assigneeWipLimit = columnPolicies.normalizeLimit(req.body.assigneeWipLimit, 'assigneeWipLimit');
+      policies = columnPolicies.normalizePolicies(req.body.policies);
+    } catch (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
     const db = getDatabase();
     await db.run(`
-      INSERT INTO kanban_columns (id, title, color, order_index, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?)
+      INSERT INTO kanban_columns (id, title, color, order_index, wip_limit, assignee_wip_limit, policies, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     `, [
       id,
       title,
       color || '#64748b',
       orderIndex || 99,
+      wipLimit,
+      assigneeWipLimit,
+      JSON.stringify(policies),
       new Date().toISOString(),
       new Date().toISOString()
     ]);
 
-    res.status(201).json({ id, title, color: color || '#64748b', orderIndex: orderIndex || 99 });
+    const column = columnPolicies.columnFromRow(await db.get('SELECT * FROM kanban_columns WHERE id = ?', [id]));
+
+    // Columns are shared by every workspace
+    realtime.broadcast('column.created', column, realtime.originOf(req));
+    res.status(201).json({ ...column, orderIndex: column.order_index });
   } catch (error) {
     console.error('Error creating kanban column:', error);
     res.status(500).json({ error: 'Failed to create kanban column' });
   }
 });
 
-// PUT /api/tasks/columns/:id - Update kanban column
-router.put('/columns/:id', async (req, res) => {
+// PUT /api/tasks/columns/:id - Update kanban column; fields left out keep their value
+router.put('/columns/:id', authenticate, requireWorkspace, requirePermission('settings:manage'), requireColumnAdmin, async (req, res) => {
   try {
-    const { title, color, orderIndex } = req.body;
-    
+    const db = getDatabase();
+    const existing = await db.get('SELECT * FROM kanban_columns WHERE id = ?', [req.params.id]);
+    if (!existing) {
+      return res.status(404).json({ error: 'Column not found' });
+    }
+
+    const { title = existing.title, color = existing.color, orderIndex = existing.order_index } = req.body;
     if (!title) {
       return res.status(400).json({ error: 'Title is required' });
     }
 
-    const db = getDatabase();
-    const result = await db.run(`
+    let wipLimit, assigneeWipLimit, policies;
+    try {
+      wipLimit = 'wipLimit' in req.body ? columnPolicies.normalizeLimit(req.body.wipLimit, 'wipLimit') : existing.wip_limit;
+      assigneeWipLimit = 'assigneeWipLimit' in req.body
+        ? columnPolicies.normalizeLimit(req.body.assigneeWipLimit, 'assigneeWipLimit')
+        : existing.assignee_wip_limit;
+      policies = 'policies' in req.body
+        ? columnPolicies.normalizePolicies(req.body.policies)
+        : columnPolicies.parsePolicies(existing.policies);
+    } catch (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    await db.run(`
       UPDATE kanban_columns 
-      SET title = ?, color = ?, order_index = ?, updated_at = ?
+      SET title = ?, color = ?, order_index = ?, wip_limit = ?, assignee_wip_limit = ?, policies = ?, updated_at = ?
       WHERE id = ?
-    `, [title, color, orderIndex, new Date().toISOString(), req.params.id]);
+    `, [title, color, orderIndex, wipLimit, assigneeWipLimit, JSON.stringify(policies), new Date().toISOString(), req.params.id]);
 
-    if (result.changes === 0) {
-      return res.status(404).json({ error: 'Column not found' });
-    }
+    const column = columnPolicies.columnFromRow(await db.get('SELECT * FROM kanban_columns WHERE id = ?', [req.params.id]));
 
-    res.json({ id: req.params.id, title, color, orderIndex });
+    realtime.broadcast('column.updated', column, realtime.originOf(req));
+    res.json({ ...column, orderIndex: column.order_index });
   } catch (error) {
     console.error('Error updating kanban column:', error);
     res.status(500).json({ error: 'Failed to update kanban column' });
@@ -424,14 +745,19 @@ router.put('/columns/:id', async (req, res) => {
 });
 
 // DELETE /api/tasks/:id - Delete task
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', authenticate, requireWorkspace, requirePermission('tasks:delete'), async (req, res) => {
   try {
-    const task = await KanbanTask.findById(req.params.id);
+    const task = await KanbanTask.findById(req.params.id, req.workspaceId);
     if (!task) {
       return res.status(404).json({ error: 'Task not found' });
     }
 
+    // Uploaded files of the task's resources go with it
+    const resources = await TaskResource.findByTaskId(task.id);
     await task.delete(req.body.performedBy);
+    await Promise.all(resources.map(resource => fileUploads.removeStoredFiles(resource)));
+    resources.forEach(resource => collaboration.closeDocument(resource.id, { deleted: true }));
+    publishTaskChange(req, 'task.deleted', task, { id: task.id });
     res.status(204).send();
   } catch (error) {
     console.error('Error deleting task:', error);
@@ -440,14 +766,19 @@ router.delete('/:id', async (req, res) => {
 });
 
 // DELETE /api/tasks/:id/assign/:memberId - Unassign member from task
-router.delete('/:id/assign/:memberId', async (req, res) => {
+router.delete('/:id/assign/:memberId', authenticate, requireWorkspace, requirePermission('tasks:update'), async (req, res) => {
   try {
-    const task = await KanbanTask.findById(req.params.id);
+    const task = await KanbanTask.findById(req.params.id, req.workspaceId);
     if (!task) {
       return res.status(404).json({ error: 'Task not found' });
     }
 
     await task.unassignMember(req.params.memberId);
+    const assignedMembers = await task.getAssignedMembers();
+    publishTaskChange(req, 'task.updated', task, {
+      ...task.toJSON(),
+      assignedMembers: assignedMembers.map(member => member.id)
+    });
     res.status(204).send();
   } catch (error) {
     console.error('Error unassigning task member:', error);
@@ -456,7 +787,7 @@ router.delete('/:id/assign/:memberId', async (req, res) => {
 });
 
 // DELETE /api/tasks/columns/:id - Delete kanban column
-router.delete('/columns/:id', async (req, res) => {
+router.delete('/columns/:id', authenticate, requireWorkspace, requirePermission('settings:manage'), requireColumnAdmin, async (req, res) => {
   try {
     const db = getDatabase();
     
@@ -472,6 +803,7 @@ router.delete('/columns/:id', async (req, res) => {
       return res.status(404).json({ error: 'Column not found' });
     }
 
+    realtime.broadcast('column.deleted', { id: req.params.id }, realtime.originOf(req));
     res.status(204).send();
   } catch (error) {
     console.error('Error deleting kanban column:', error);
@@ -497,17 +829,45 @@ const validateResource = [
   body('mimeType').optional().trim(),
 ];
 
+// Uploaded files are kept in memory until they are checked and stored
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: fileUploads.maxFileSize(), files: 1 }
+});
+
+// Reads the multipart `file` field; refuses files over the size limit before they are read in full
+const receiveFile = (req, res, next) => {
+  upload.single('file')(req, res, (error) => {
+    if (error instanceof multer.MulterError) {
+      return error.code === 'LIMIT_FILE_SIZE'
+        ? res.status(413).json({ error: `Files can be at most ${fileUploads.maxFileSize() / (1024 * 1024)} MB` })
+        : res.status(400).json({ error: error.message });
+    }
+    next(error);
+  });
+};
+
+// The resource of the URL when it belongs to that task, and the task to the request's workspace
+const findTaskResource = async (req) => {
+  const resource = await TaskResource.findById(req.params.resourceId);
+  if (!resource || resource.taskId !== req.params.taskId) return null;
+  return (await KanbanTask.findById(resource.taskId, req.workspaceId)) ? resource : null;
+};
+
+// A resource with signed links to its uploaded file and thumbnail
+const resourceJSON = (resource, workspaceId) => ({ ...resource.toJSON(), ...fileUploads.fileLinks(resource, workspaceId) });
+
 // GET /api/tasks/:id/resources - Get all resources for a task
-router.get('/:id/resources', async (req, res) => {
+router.get('/:id/resources', authenticate, requireWorkspace, requirePermission('tasks:view'), async (req, res) => {
   try {
     // Verify task exists
-    const task = await KanbanTask.findById(req.params.id);
+    const task = await KanbanTask.findById(req.params.id, req.workspaceId);
     if (!task) {
       return res.status(404).json({ error: 'Task not found' });
     }
 
     const resources = await TaskResource.findByTaskId(req.params.id);
-    res.json(resources);
+    res.json(resources.map(resource => resourceJSON(resource, req.workspaceId)));
   } catch (error) {
     console.error('Error fetching task resources:', error);
     res.status(500).json({ error: 'Failed to fetch task resources' });
@@ -515,7 +875,7 @@ router.get('/:id/resources', async (req, res) => {
 });
 
 // POST /api/tasks/:id/resources - Create a new resource for a task
-router.post('/:id/resources', validateResource, async (req, res) => {
+router.post('/:id/resources', authenticate, requireWorkspace, requirePermission('tasks:update'), validateResource, async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -523,7 +883,7 @@ router.post('/:id/resources', validateResource, async (req, res) => {
     }
 
     // Verify task exists
-    const task = await KanbanTask.findById(req.params.id);
+    const task = await KanbanTask.findById(req.params.id, req.workspaceId);
     if (!task) {
       return res.status(404).json({ error: 'Task not found' });
     }
@@ -547,20 +907,50 @@ router.post('/:id/resources', validateResource, async (req, res) => {
   }
 });
 
+// POST /api/tasks/:id/resources/upload - Upload a file (multipart `file`, optional `title`) as a resource of the task
+router.post('/:id/resources/upload', authenticate, requireWorkspace, requirePermission('tasks:update'), receiveFile, async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'A file is required' });
+    }
+
+    const task = await KanbanTask.findById(req.params.id, req.workspaceId);
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+
+    const resource = new TaskResource({
+      taskId: task.id,
+      title: (req.body.title || '').trim() || req.file.originalname
+    });
+    await fileUploads.storeUpload(resource, req.workspaceId, req.file);
+
+    try {
+      await resource.save(req.user.id);
+    } catch (error) {
+      await fileUploads.removeStoredFiles(resource);
+      throw error;
+    }
+
+    res.status(201).json(resourceJSON(resource, req.workspaceId));
+  } catch (error) {
+    if (error instanceof fileUploads.UploadError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error uploading task resource:', error);
+    res.status(500).json({ error: 'Failed to upload file' });
+  }
+});
+
 // GET /api/tasks/:taskId/resources/:resourceId - Get a specific resource
-router.get('/:taskId/resources/:resourceId', async (req, res) => {
+router.get('/:taskId/resources/:resourceId', authenticate, requireWorkspace, requirePermission('tasks:view'), async (req, res) => {
   try {
-    const resource = await TaskResource.findById(req.params.resourceId);
+    const resource = await findTaskResource(req);
     if (!resource) {
       return res.status(404).json({ error: 'Resource not found' });
     }
 
-    // Verify resource belongs to the task
-    if (resource.taskId !== req.params.taskId) {
-      return res.status(404).json({ error: 'Resource not found for this task' });
-    }
-
-    res.json(resource.toJSON());
+    res.json(resourceJSON(resource, req.workspaceId));
   } catch (error) {
     console.error('Error fetching task resource:', error);
     res.status(500).json({ error: 'Failed to fetch task resource' });
@@ -568,34 +958,40 @@ router.get('/:taskId/resources/:resourceId', async (req, res) => {
 });
 
 // PUT /api/tasks/:taskId/resources/:resourceId - Update a resource
-router.put('/:taskId/resources/:resourceId', validateResource, async (req, res) => {
+router.put('/:taskId/resources/:resourceId', authenticate, requireWorkspace, requirePermission('tasks:update'), validateResource, async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const resource = await TaskResource.findById(req.params.resourceId);
+    const resource = await findTaskResource(req);
     if (!resource) {
       return res.status(404).json({ error: 'Resource not found' });
     }
 
-    // Verify resource belongs to the task
-    if (resource.taskId !== req.params.taskId) {
-      return res.status(404).json({ error: 'Resource not found for this task' });
-    }
-
-    // Update resource properties
-    resource.type = req.body.type;
+    // Update resource properties; an uploaded file keeps the type and details of what was stored.
+    // Documents are edited live (see services/collaboration), so a save without content keeps it
+    const previousContent = resource.content;
     resource.title = req.body.title;
-    resource.content = req.body.content;
-    resource.url = req.body.url;
-    resource.fileName = req.body.fileName;
-    resource.fileSize = req.body.fileSize;
-    resource.mimeType = req.body.mimeType;
+    if (req.body.content !== undefined) {
+      resource.content = req.body.content;
+    }
+    if (!resource.storageKey) {
+      resource.type = req.body.type;
+      resource.url = req.body.url;
+      resource.fileName = req.body.fileName;
+      resource.fileSize = req.body.fileSize;
+      resource.mimeType = req.body.mimeType;
+    }
 
-    await resource.save(req.body.performedBy);
-    res.json(resource.toJSON());
+    // The signed-in user is the author of the document revision this save creates
+    await resource.save(req.user.id);
+    if (resource.type === 'document' && resource.content !== previousContent) {
+      await resource.resetCollaboration();
+      collaboration.closeDocument(resource.id);
+    }
+    res.json(resourceJSON(resource, req.workspaceId));
   } catch (error) {
     console.error('Error updating task resource:', error);
     res.status(500).json({ error: 'Failed to update task resource' });
@@ -603,19 +999,16 @@ router.put('/:taskId/resources/:resourceId', validateResource, async (req, res)
 });
 
 // DELETE /api/tasks/:taskId/resources/:resourceId - Delete a resource
-router.delete('/:taskId/resources/:resourceId', async (req, res) => {
+router.delete('/:taskId/resources/:resourceId', authenticate, requireWorkspace, requirePermission('tasks:update'), async (req, res) => {
   try {
-    const resource = await TaskResource.findById(req.params.resourceId);
+    const resource = await findTaskResource(req);
     if (!resource) {
       return res.status(404).json({ error: 'Resource not found' });
     }
 
-    // Verify resource belongs to the task
-    if (resource.taskId !== req.params.taskId) {
-      return res.status(404).json({ error: 'Resource not found for this task' });
-    }
-
     await resource.delete(req.body.performedBy);
+    await fileUploads.removeStoredFiles(resource);
+    collaboration.closeDocument(resource.id, { deleted: true });
     res.status(204).send();
   } catch (error) {
     console.error('Error deleting task resource:', error);
@@ -624,43 +1017,497 @@ router.delete('/:taskId/resources/:resourceId', async (req, res) => {
 });
 
 // =============================================================================
-// SMART TASK SELECTION FOR TIME TRACKING
+// DOCUMENT REVISION ENDPOINTS
 // =============================================================================
 
-router.use(authenticate);
+// The document resource of the URL, or null when it is missing, another type or on another task
+const findTaskDocument = async (req) => {
+  const resource = await findTaskResource(req);
+  return resource && resource.type === 'document' ? resource : null;
+};
 
-// Helper function to get user's workspace ID
-const getUserWorkspaceId = async (req) => {
-  let workspaceId = req.headers['x-workspace-id'] || req.query.workspace_id;
-  
-  if (workspaceId) {
-    const isMember = await Workspace.isUserMember(req.user.id, workspaceId);
-    if (isMember) {
-      return workspaceId;
+// GET /api/tasks/:taskId/resources/:resourceId/revisions - Get the saved versions of a document, newest first
+router.get('/:taskId/resources/:resourceId/revisions', authenticate, requireWorkspace, requirePermission('tasks:view'), async (req, res) => {
+  try {
+    const resource = await findTaskDocument(req);
+    if (!resource) {
+      return res.status(404).json({ error: 'Document not found' });
     }
+
+    res.json(await TaskResource.getRevisions(resource.id));
+  } catch (error) {
+    console.error('Error fetching document revisions:', error);
+    res.status(500).json({ error: 'Failed to fetch document revisions' });
   }
-  
-  const userWorkspaces = await Workspace.findForUser(req.user.id);
-  if (userWorkspaces.length > 0) {
-    return userWorkspaces[0].id;
+});
+
+// GET /api/tasks/:taskId/resources/:resourceId/revisions/:revisionId - Get a revision with its content
+router.get('/:taskId/resources/:resourceId/revisions/:revisionId', authenticate, requireWorkspace, requirePermission('tasks:view'), async (req, res) => {
+  try {
+    const resource = await findTaskDocument(req);
+    const revision = resource && await TaskResource.getRevision(resource.id, req.params.revisionId);
+    if (!revision) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    res.json(revision);
+  } catch (error) {
+    console.error('Error fetching document revision:', error);
+    res.status(500).json({ error: 'Failed to fetch document revision' });
   }
-  
-  throw new Error('No accessible workspace found for user');
-};
+});
+
+// POST /api/tasks/:taskId/resources/:resourceId/revisions/:revisionId/restore - Make a revision the document's content again
+router.post('/:taskId/resources/:resourceId/revisions/:revisionId/restore', authenticate, requireWorkspace, requirePermission('tasks:update'), async (req, res) => {
+  try {
+    const resource = await findTaskDocument(req);
+    const revision = resource && await TaskResource.getRevision(resource.id, req.params.revisionId);
+    if (!revision) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    await resource.restoreRevision(revision, req.user.id);
+    await resource.resetCollaboration();
+    collaboration.closeDocument(resource.id);
+    res.json(resourceJSON(resource, req.workspaceId));
+  } catch (error) {
+    console.error('Error restoring document revision:', error);
+    res.status(500).json({ error: 'Failed to restore document revision' });
+  }
+});
+
+// =============================================================================
+// CLIENT PORTAL SHARING ENDPOINTS
+// =============================================================================
+
+const validateClientVisibility = [
+  body('clientVisible').isBoolean().withMessage('clientVisible must be a boolean'),
+];
+
+const validateResourceSharing = [
+  body('sharedWithClient').isBoolean().withMessage('sharedWithClient must be a boolean'),
+];
+
+// The client whose portal can show the task, or null when its workflow has no client
+async function clientOfTask(task) {
+  if (!task.workflowId) return null;
+  const workflow = await getDatabase().get('SELECT client_id FROM workflows WHERE id = ?', [task.workflowId]);
+  return workflow ? workflow.client_id : null;
+}
+
+// Find a task of the request's workspace that can be shown in a client portal; sends the error response otherwise
+async function findShareableTask(req, res) {
+  const task = await KanbanTask.findById(req.params.id, req.workspaceId);
+  if (!task) {
+    res.status(404).json({ error: 'Task not found' });
+    return null;
+  }
+  if (!(await clientOfTask(task))) {
+    res.status(400).json({ error: 'Only tasks in a client workflow can be shared with the client' });
+    return null;
+  }
+  return task;
+}
+
+// PATCH /api/tasks/:id/client-visibility - Show or hide a task in the client portal
+router.patch('/:id/client-visibility', authenticate, requireWorkspace, requirePermission('tasks:update'), validateClientVisibility, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const task = await findShareableTask(req, res);
+    if (!task) return;
+
+    await task.setClientVisible(req.body.clientVisible, req.user.id);
+    publishTaskChange(req, 'task.updated', task, task.toJSON());
+    res.json(task);
+  } catch (error) {
+    console.error('Error updating task client visibility:', error);
+    res.status(500).json({ error: 'Failed to update task client visibility' });
+  }
+});
+
+// POST /api/tasks/:id/client-approval - Ask the client to approve a deliverable (also shares the task)
+router.post('/:id/client-approval', authenticate, requireWorkspace, requirePermission('tasks:update'), async (req, res) => {
+  try {
+    const task = await findShareableTask(req, res);
+    if (!task) return;
+
+    await task.requestClientApproval(req.user.id);
+    publishTaskChange(req, 'task.updated', task, task.toJSON());
+
+    const contacts = await ClientContact.findByClient(await clientOfTask(task), req.workspaceId);
+    for (const contact of contacts) {
+      try {
+        await emailService.sendClientApprovalRequestEmail(contact.email, contact.name, {
+          taskTitle: task.title,
+          requesterName: req.user.name
+        });
+      } catch (emailError) {
+        console.error(`Failed to email approval request to ${contact.email}:`, emailError.message);
+      }
+    }
+
+    res.json(task);
+  } catch (error) {
+    console.error('Error requesting client approval:', error);
+    res.status(500).json({ error: 'Failed to request client approval' });
+  }
+});
+
+// PATCH /api/tasks/:taskId/resources/:resourceId/sharing - Share a resource with the client, or stop sharing it
+router.patch('/:taskId/resources/:resourceId/sharing', authenticate, requireWorkspace, requirePermission('tasks:update'), validateResourceSharing, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const resource = await findTaskResource(req);
+    if (!resource) {
+      return res.status(404).json({ error: 'Resource not found for this task' });
+    }
+
+    await resource.setSharedWithClient(req.body.sharedWithClient, req.user.id);
+    res.json(resourceJSON(resource, req.workspaceId));
+  } catch (error) {
+    console.error('Error updating resource sharing:', error);
+    res.status(500).json({ error: 'Failed to update resource sharing' });
+  }
+});
+
+// =============================================================================
+// TASK DEPENDENCIES ENDPOINTS
+// =============================================================================
+
+const validateDependency = [
+  body('predecessorId').notEmpty().withMessage('Predecessor task ID is required'),
+  body('type').optional().isIn(TaskDependency.TYPES).withMessage('Invalid dependency type'),
+];
+
+// GET /api/tasks/:id/dependencies - Get predecessors and successors of a task
+router.get('/:id/dependencies', authenticate, requireWorkspace, requirePermission('tasks:view'), async (req, res) => {
+  try {
+    const task = await KanbanTask.findById(req.params.id, req.workspaceId);
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+
+    const { predecessors, successors } = await TaskDependency.findForTask(task.id);
+    res.json({
+      predecessors: predecessors.map(dep => dep.toJSON()),
+      successors: successors.map(dep => dep.toJSON())
+    });
+  } catch (error) {
+    console.error('Error fetching task dependencies:', error);
+    res.status(500).json({ error: 'Failed to fetch task dependencies' });
+  }
+});
+
+// POST /api/tasks/:id/dependencies - Make this task depend on a predecessor
+router.post('/:id/dependencies', authenticate, requireWorkspace, requirePermission('tasks:update'), validateDependency, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const task = await KanbanTask.findById(req.params.id, req.workspaceId);
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+
+    const predecessor = await KanbanTask.findById(req.body.predecessorId, req.workspaceId);
+    if (!predecessor) {
+      return res.status(404).json({ error: 'Predecessor task not found' });
+    }
+
+    if (predecessor.workflowId !== task.workflowId) {
+      return res.status(400).json({ error: 'Dependencies must link tasks of the same workflow' });
+    }
+
+    const { predecessors } = await TaskDependency.findForTask(task.id);
+    if (predecessors.some(dep => dep.predecessorId === predecessor.id)) {
+      return res.status(409).json({ error: 'Dependency already exists' });
+    }
+
+    if (await TaskDependency.wouldCreateCycle(predecessor.id, task.id)) {
+      return res.status(409).json({ error: 'Dependency would create a cycle' });
+    }
+
+    const dependency = new TaskDependency({
+      predecessorId: predecessor.id,
+      successorId: task.id,
+      type: req.body.type,
+      createdBy: req.user.id
+    });
+    await dependency.save(req.user.id);
+
+    res.status(201).json((await TaskDependency.findById(dependency.id)).toJSON());
+  } catch (error) {
+    console.error('Error creating task dependency:', error);
+    res.status(500).json({ error: 'Failed to create task dependency' });
+  }
+});
+
+// DELETE /api/tasks/:id/dependencies/:dependencyId - Remove a dependency
+router.delete('/:id/dependencies/:dependencyId', authenticate, requireWorkspace, requirePermission('tasks:update'), async (req, res) => {
+  try {
+    const task = await KanbanTask.findById(req.params.id, req.workspaceId);
+    const dependency = await TaskDependency.findById(req.params.dependencyId);
+    if (!task || !dependency || (dependency.successorId !== task.id && dependency.predecessorId !== task.id)) {
+      return res.status(404).json({ error: 'Dependency not found' });
+    }
+
+    await dependency.delete(req.user.id);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting task dependency:', error);
+    res.status(500).json({ error: 'Failed to delete task dependency' });
+  }
+});
+
+// =============================================================================
+// TASK COMMENTS ENDPOINTS
+// =============================================================================
+
+const validateComment = [
+  body('content').custom(value => {
+    if (!value || !Array.isArray(value.ops)) {
+      throw new Error('Content must be a Quill delta');
+    }
+    const hasText = value.ops.some(op => typeof op.insert === 'string' && op.insert.trim() !== '');
+    const hasEmbed = value.ops.some(op => op.insert && typeof op.insert === 'object');
+    if (!hasText && !hasEmbed) {
+      throw new Error('Comment cannot be empty');
+    }
+    return true;
+  }),
+  body('mentions').optional().isArray().withMessage('Mentions must be an array of user IDs'),
+  body('parentId').optional({ nullable: true }).isString(),
+];
+
+// Only members of the task's workspace can be mentioned
+async function mentionableUsers(workspaceId, userIds = []) {
+  const unique = [...new Set(userIds.filter(id => typeof id === 'string'))];
+  const members = await Promise.all(unique.map(id => Workspace.isUserMember(id, workspaceId)));
+  return unique.filter((id, index) => members[index]);
+}
+
+async function notifyMentioned(req, task, comment, userIds) {
+  try {
+    const workspaceId = await workspaceOfTask(task);
+    for (const userId of userIds) {
+      await Notification.notify({
+        userId,
+        workspaceId,
+        type: 'mentioned',
+        title: `${req.user.name} mentioned you on "${task.title}"`,
+        body: comment.bodyText.length > 140 ? `${comment.bodyText.slice(0, 140)}…` : comment.bodyText,
+        link: '/app/kanban',
+        entityType: 'kanban_task',
+        entityId: task.id,
+        actorId: req.user.id
+      });
+    }
+  } catch (error) {
+    console.error('Error notifying mentioned users:', error);
+  }
+}
+
+// Push a comment change to the thread's viewers; count changes go to every tab so card badges stay right
+async function publishCommentChange(req, type, task, comment, countChanged = false) {
+  try {
+    const workspaceId = await workspaceOfTask(task);
+    realtime.publish(workspaceId, type, comment.toJSON(), realtime.originOf(req));
+    if (countChanged) {
+      realtime.publish(workspaceId, 'task.updated', { id: task.id, commentCount: await TaskComment.countForTask(task.id) });
+    }
+  } catch (error) {
+    console.error('Error publishing comment change:', error);
+  }
+}
+
+// GET /api/tasks/:id/comments - Get the comment thread of a task
+router.get('/:id/comments', authenticate, requireWorkspace, requirePermission('tasks:view'), async (req, res) => {
+  try {
+    const task = await KanbanTask.findById(req.params.id, req.workspaceId);
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+
+    const comments = await TaskComment.findByTaskId(task.id);
+    res.json(comments.map(comment => comment.toJSON()));
+  } catch (error) {
+    console.error('Error fetching task comments:', error);
+    res.status(500).json({ error: 'Failed to fetch task comments' });
+  }
+});
+
+// POST /api/tasks/:id/comments - Comment on a task or reply to a comment
+router.post('/:id/comments', authenticate, requireWorkspace, requirePermission('tasks:comment'), validateComment, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const task = await KanbanTask.findById(req.params.id, req.workspaceId);
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+
+    let parentId = null;
+    if (req.body.parentId) {
+      const parent = await TaskComment.findById(req.body.parentId);
+      if (!parent || parent.taskId !== task.id) {
+        return res.status(404).json({ error: 'Parent comment not found' });
+      }
+      // Replies to a reply join the same thread
+      parentId = parent.parentId || parent.id;
+    }
+
+    const mentions = await mentionableUsers(await workspaceOfTask(task), req.body.mentions);
+    const comment = new TaskComment({
+      taskId: task.id,
+      parentId,
+      authorId: req.user.id,
+      authorName: req.user.name,
+      content: req.body.content,
+      mentions
+    });
+    await comment.save(req.user.id);
+
+    await notifyMentioned(req, task, comment, mentions);
+    await publishCommentChange(req, 'task_comment.created', task, comment, true);
+
+    res.status(201).json(comment.toJSON());
+  } catch (error) {
+    console.error('Error creating task comment:', error);
+    res.status(500).json({ error: 'Failed to create task comment' });
+  }
+});
+
+// PUT /api/tasks/:id/comments/:commentId - Edit a comment (author only, previous text is kept)
+router.put('/:id/comments/:commentId', authenticate, requireWorkspace, requirePermission('tasks:comment'), validateComment, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const task = await KanbanTask.findById(req.params.id, req.workspaceId);
+    const comment = await TaskComment.findById(req.params.commentId);
+    if (!task || !comment || comment.taskId !== task.id) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+
+    if (comment.deletedAt) {
+      return res.status(400).json({ error: 'Deleted comments cannot be edited' });
+    }
+
+    if (comment.authorId !== req.user.id) {
+      return res.status(403).json({ error: 'Only the author can edit this comment' });
+    }
+
+    const previousMentions = comment.mentions;
+    const mentions = await mentionableUsers(await workspaceOfTask(task), req.body.mentions);
+    await comment.edit(req.body.content, mentions, req.user.id);
+
+    // Only people added by this edit hear about it
+    await notifyMentioned(req, task, comment, mentions.filter(id => !previousMentions.includes(id)));
+    await publishCommentChange(req, 'task_comment.updated', task, comment);
+
+    res.json(comment.toJSON());
+  } catch (error) {
+    console.error('Error updating task comment:', error);
+    res.status(500).json({ error: 'Failed to update task comment' });
+  }
+});
+
+// DELETE /api/tasks/:id/comments/:commentId - Delete a comment (author or workspace admin)
+router.delete('/:id/comments/:commentId', authenticate, requireWorkspace, requirePermission('tasks:comment'), async (req, res) => {
+  try {
+    const task = await KanbanTask.findById(req.params.id, req.workspaceId);
+    const comment = await TaskComment.findById(req.params.commentId);
+    if (!task || !comment || comment.taskId !== task.id || comment.deletedAt) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+
+    if (comment.authorId !== req.user.id) {
+      const { role } = await WorkspaceRole.permissionsForUser(req.user.id, await workspaceOfTask(task));
+      if (!WorkspaceRole.isAdminRole(role)) {
+        return res.status(403).json({ error: 'Only the author or a workspace admin can delete this comment' });
+      }
+    }
+
+    await comment.delete(req.user.id);
+    await publishCommentChange(req, 'task_comment.updated', task, comment, true);
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting task comment:', error);
+    res.status(500).json({ error: 'Failed to delete task comment' });
+  }
+});
+
+// GET /api/tasks/:id/comments/:commentId/history - Get previous versions of a comment, newest first
+router.get('/:id/comments/:commentId/history', authenticate, requireWorkspace, requirePermission('tasks:view'), async (req, res) => {
+  try {
+    const task = await KanbanTask.findById(req.params.id, req.workspaceId);
+    const comment = await TaskComment.findById(req.params.commentId);
+    if (!task || !comment || comment.taskId !== task.id) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+
+    res.json(await TaskComment.getRevisions(comment.id));
+  } catch (error) {
+    console.error('Error fetching comment history:', error);
+    res.status(500).json({ error: 'Failed to fetch comment history' });
+  }
+});
+
+// POST /api/tasks/:id/comments/:commentId/reactions - Toggle the user's reaction on a comment
+router.post('/:id/comments/:commentId/reactions', authenticate, requireWorkspace, requirePermission('tasks:comment'), [
+  body('emoji').isIn(TaskComment.REACTIONS).withMessage(`Emoji must be one of: ${TaskComment.REACTIONS.join(' ')}`),
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const task = await KanbanTask.findById(req.params.id, req.workspaceId);
+    const comment = await TaskComment.findById(req.params.commentId);
+    if (!task || !comment || comment.taskId !== task.id || comment.deletedAt) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+
+    await comment.toggleReaction(req.user.id, req.body.emoji);
+    await publishCommentChange(req, 'task_comment.updated', task, comment);
+
+    res.json(comment.toJSON());
+  } catch (error) {
+    console.error('Error toggling comment reaction:', error);
+    res.status(500).json({ error: 'Failed to update reaction' });
+  }
+});
+
+// =============================================================================
+// SMART TASK SELECTION FOR TIME TRACKING
+// =============================================================================
+
+router.use(authenticate, requireWorkspace);
 
 // GET /api/tasks/for-tracking - Get tasks optimized for time tracking selection
-router.get('/for-tracking', async (req, res) => {
+router.get('/for-tracking', requirePermission('tasks:view'), async (req, res) => {
   try {
     const db = getDatabase();
     const userId = req.user.id;
     
-    // Get user's workspace ID
-    let workspaceId;
-    try {
-      workspaceId = await getUserWorkspaceId(req);
-    } catch (error) {
-      return res.status(400).json({ error: 'No accessible workspace found. Please select a workspace first.' });
-    }
+    const workspaceId = req.workspaceId;
 
     const { 
       status = 'active', 
@@ -717,7 +1564,7 @@ router.get('/for-tracking', async (req, res) => {
       FROM kanban_tasks kt
       LEFT JOIN workflows wf ON kt.workflow_id = wf.id
       LEFT JOIN clients c ON wf.client_id = c.id
-      WHERE kt.workspace_id = ?
+      WHERE COALESCE(kt.workspace_id, wf.workspace_id) = ?
     `;
 
     const params = [userId, userId, userId, workspaceId];
@@ -866,17 +1713,12 @@ router.get('/for-tracking', async (req, res) => {
 });
 
 // GET /api/tasks/recent-tracking - Get recently tracked tasks for quick start
-router.get('/recent-tracking', async (req, res) => {
+router.get('/recent-tracking', requirePermission('tasks:view'), async (req, res) => {
   try {
     const db = getDatabase();
     const userId = req.user.id;
     
-    let workspaceId;
-    try {
-      workspaceId = await getUserWorkspaceId(req);
-    } catch (error) {
-      return res.status(400).json({ error: 'No accessible workspace found. Please select a workspace first.' });
-    }
+    const workspaceId = req.workspaceId;
 
     const { limit = 10 } = req.query;
 
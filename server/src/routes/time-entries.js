@@ -2,45 +2,29 @@ const express = require('express');
 const { v4: uuidv4 } = require('uuid');
 const { getDatabase } = require('../config/database');
 const { authenticate } = require('../middleware/auth');
-const Workspace = require('../models/Workspace');
+const { requireWorkspace, requirePermission } = require('../middleware/workspace');
+const Timesheet = require('../models/Timesheet');
+const Budget = require('../models/Budget');
 
 const router = express.Router();
 
-// Apply authentication middleware to all routes
-router.use(authenticate);
-
-// Helper function to get user's workspace ID
-const getUserWorkspaceId = async (req) => {
-  let workspaceId = req.headers['x-workspace-id'] || req.query.workspace_id;
-  
-  if (workspaceId) {
-    const isMember = await Workspace.isUserMember(req.user.id, workspaceId);
-    if (isMember) {
-      return workspaceId;
-    }
-  }
-  
-  const userWorkspaces = await Workspace.findForUser(req.user.id);
-  if (userWorkspaces.length > 0) {
-    return userWorkspaces[0].id;
-  }
-  
-  throw new Error('No accessible workspace found for user');
-};
+// Apply authentication and workspace middleware to all routes
+router.use(authenticate, requireWorkspace);
+
+// 409 body for entries that fall into a submitted or approved timesheet week
+const timesheetLockedError = (timesheet) => ({
+  error: `Time entries of a ${timesheet.status} timesheet week cannot be changed`,
+  timesheetId: timesheet.id,
+  weekStart: timesheet.weekStart
+});
 
 // GET /api/time-entries - Get time entries with filters
-router.get('/', async (req, res) => {
+router.get('/', requirePermission('time_entries:view'), async (req, res) => {
   try {
     const db = getDatabase();
     const userId = req.user.id;
     
-    // Get user's workspace ID
-    let workspaceId;
-    try {
-      workspaceId = await getUserWorkspaceId(req);
-    } catch (error) {
-      return res.status(400).json({ error: 'No accessible workspace found. Please select a workspace first.' });
-    }
+    const workspaceId = req.workspaceId;
 
     const {
       start_date,
@@ -125,6 +109,7 @@ router.get('/', async (req, res) => {
       description: entry.description,
       isBreak: Boolean(entry.is_break),
       status: entry.status,
+      invoiceId: entry.invoice_id || null,
       createdAt: entry.created_at,
       updatedAt: entry.updated_at
     }));
@@ -137,17 +122,12 @@ router.get('/', async (req, res) => {
 });
 
 // GET /api/time-entries/stats - Get time tracking statistics
-router.get('/stats', async (req, res) => {
+router.get('/stats', requirePermission('time_entries:view'), async (req, res) => {
   try {
     const db = getDatabase();
     const userId = req.user.id;
     
-    let workspaceId;
-    try {
-      workspaceId = await getUserWorkspaceId(req);
-    } catch (error) {
-      return res.status(400).json({ error: 'No accessible workspace found. Please select a workspace first.' });
-    }
+    const workspaceId = req.workspaceId;
 
     const { start_date, end_date } = req.query;
 
@@ -311,17 +291,12 @@ router.get('/stats', async (req, res) => {
 });
 
 // GET /api/time-entries/activities - Get timer activity log for time breakdown
-router.get('/activities', async (req, res) => {
+router.get('/activities', requirePermission('time_entries:view'), async (req, res) => {
   try {
     const db = getDatabase();
     const userId = req.user.id;
     
-    let workspaceId;
-    try {
-      workspaceId = await getUserWorkspaceId(req);
-    } catch (error) {
-      return res.status(400).json({ error: 'No accessible workspace found. Please select a workspace first.' });
-    }
+    const workspaceId = req.workspaceId;
 
     const { start_date, end_date, limit = 100 } = req.query;
 
@@ -451,18 +426,13 @@ router.get('/activities', async (req, res) => {
 });
 
 // GET /api/time-entries/:id - Get specific time entry
-router.get('/:id', async (req, res) => {
+router.get('/:id', requirePermission('time_entries:view'), async (req, res) => {
   try {
     const db = getDatabase();
     const userId = req.user.id;
     const entryId = req.params.id;
     
-    let workspaceId;
-    try {
-      workspaceId = await getUserWorkspaceId(req);
-    } catch (error) {
-      return res.status(400).json({ error: 'No accessible workspace found. Please select a workspace first.' });
-    }
+    const workspaceId = req.workspaceId;
 
     const timeEntry = await db.get(`
       SELECT 
@@ -509,17 +479,12 @@ router.get('/:id', async (req, res) => {
 });
 
 // POST /api/time-entries - Create manual time entry
-router.post('/', async (req, res) => {
+router.post('/', requirePermission('time_entries:create'), async (req, res) => {
   try {
     const db = getDatabase();
     const userId = req.user.id;
     
-    let workspaceId;
-    try {
-      workspaceId = await getUserWorkspaceId(req);
-    } catch (error) {
-      return res.status(400).json({ error: 'No accessible workspace found. Please select a workspace first.' });
-    }
+    const workspaceId = req.workspaceId;
 
     const {
       taskId,
@@ -549,10 +514,17 @@ router.post('/', async (req, res) => {
 
     const duration = Math.floor((end - start) / 1000);
 
+    const lockingTimesheet = await Timesheet.findLocking(workspaceId, userId, start);
+    if (lockingTimesheet) {
+      return res.status(409).json(timesheetLockedError(lockingTimesheet));
+    }
+
     // Validate task if provided
     if (taskId) {
       const task = await db.get(`
-        SELECT id FROM kanban_tasks WHERE id = ? AND workspace_id = ?
+        SELECT kt.id FROM kanban_tasks kt
+        LEFT JOIN workflows w ON kt.workflow_id = w.id
+        WHERE kt.id = ? AND COALESCE(kt.workspace_id, w.workspace_id) = ?
       `, [taskId, workspaceId]);
       
       if (!task) {
@@ -590,6 +562,10 @@ router.post('/', async (req, res) => {
       WHERE te.id = ?
     `, [timeEntryId]);
 
+    // Budget alerts are a side effect – they must not hold up or fail the request
+    Budget.checkForTask(createdEntry.task_id)
+      .catch(error => console.error('Error checking budget alerts:', error));
+
     res.status(201).json({
       message: 'Time entry created successfully',
       timeEntry: {
@@ -616,18 +592,13 @@ router.post('/', async (req, res) => {
 });
 
 // PUT /api/time-entries/:id - Update time entry
-router.put('/:id', async (req, res) => {
+router.put('/:id', requirePermission('time_entries:update'), async (req, res) => {
   try {
     const db = getDatabase();
     const userId = req.user.id;
     const entryId = req.params.id;
     
-    let workspaceId;
-    try {
-      workspaceId = await getUserWorkspaceId(req);
-    } catch (error) {
-      return res.status(400).json({ error: 'No accessible workspace found. Please select a workspace first.' });
-    }
+    const workspaceId = req.workspaceId;
 
     // Check if entry exists and belongs to user
     const existingEntry = await db.get(`
@@ -639,6 +610,19 @@ router.put('/:id', async (req, res) => {
       return res.status(404).json({ error: 'Time entry not found' });
     }
 
+    // Invoiced entries are locked until the invoice is voided or deleted
+    if (existingEntry.invoice_id) {
+      return res.status(409).json({
+        error: 'Time entry has been invoiced and can no longer be edited',
+        invoiceId: existingEntry.invoice_id
+      });
+    }
+
+    const lockingTimesheet = await Timesheet.findLocking(workspaceId, userId, existingEntry.start_time);
+    if (lockingTimesheet) {
+      return res.status(409).json(timesheetLockedError(lockingTimesheet));
+    }
+
     const {
       taskId,
       categoryId,
@@ -668,6 +652,12 @@ router.put('/:id', async (req, res) => {
       duration = Math.floor((end - start) / 1000);
       newStartTime = start.toISOString();
       newEndTime = end.toISOString();
+
+      // Moving an entry into a locked week is just as much a change to that week
+      const targetTimesheet = await Timesheet.findLocking(workspaceId, userId, start);
+      if (targetTimesheet) {
+        return res.status(409).json(timesheetLockedError(targetTimesheet));
+      }
     }
 
     // Update entry
@@ -705,6 +695,9 @@ router.put('/:id', async (req, res) => {
       WHERE te.id = ?
     `, [entryId]);
 
+    Budget.checkForTask(updatedEntry.task_id)
+      .catch(error => console.error('Error checking budget alerts:', error));
+
     res.json({
       message: 'Time entry updated successfully',
       timeEntry: {
@@ -731,18 +724,13 @@ router.put('/:id', async (req, res) => {
 });
 
 // DELETE /api/time-entries/:id - Delete time entry
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', requirePermission('time_entries:delete'), async (req, res) => {
   try {
     const db = getDatabase();
     const userId = req.user.id;
     const entryId = req.params.id;
     
-    let workspaceId;
-    try {
-      workspaceId = await getUserWorkspaceId(req);
-    } catch (error) {
-      return res.status(400).json({ error: 'No accessible workspace found. Please select a workspace first.' });
-    }
+    const workspaceId = req.workspaceId;
 
     // Check if entry exists and belongs to user
     const existingEntry = await db.get(`
@@ -754,6 +742,18 @@ router.delete('/:id', async (req, res) => {
       return res.status(404).json({ error: 'Time entry not found' });
     }
 
+    if (existingEntry.invoice_id) {
+      return res.status(409).json({
+        error: 'Time entry has been invoiced and can no longer be deleted',
+        invoiceId: existingEntry.invoice_id
+      });
+    }
+
+    const lockingTimesheet = await Timesheet.findLocking(workspaceId, userId, existingEntry.start_time);
+    if (lockingTimesheet) {
+      return res.status(409).json(timesheetLockedError(lockingTimesheet));
+    }
+
     // Delete entry
     await db.run(`
       DELETE FROM time_entries WHERE id = ?
@@ -0,0 +1,142 @@
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const Timesheet = require('../models/Timesheet');
+const { authenticate } = require('../middleware/auth');
+const { requireWorkspace, requirePermission, can } = require('../middleware/workspace');
+const router = express.Router();
+
+// Validation middleware
+const validateSubmit = [
+  body('weekStart').isISO8601().withMessage('Valid week start date is required'),
+];
+
+const validateReview = [
+  body('status').isIn(['approved', 'rejected']).withMessage('Status must be approved or rejected'),
+  body('comment').optional({ nullable: true }).trim(),
+  body('comment').if(body('status').equals('rejected')).notEmpty()
+    .withMessage('A comment is required when rejecting a timesheet'),
+];
+
+router.use(authenticate, requireWorkspace);
+
+// GET /api/timesheets/week - Get the current user's timesheet for a week (defaults to this week)
+router.get('/week', requirePermission('time_entries:view'), async (req, res) => {
+  try {
+    const weekStart = Timesheet.weekStartOf(req.query.weekStart || new Date());
+    const timesheet = await Timesheet.findForWeek(req.workspaceId, req.user.id, weekStart)
+      || new Timesheet({ workspaceId: req.workspaceId, userId: req.user.id, weekStart, status: 'open' });
+
+    const entries = await Timesheet.getWeekEntries(req.workspaceId, req.user.id, weekStart);
+
+    res.json({
+      ...timesheet.toJSON(),
+      // Unsubmitted weeks have no row yet; report the live total instead of the submitted one
+      id: timesheet.status === 'open' ? null : timesheet.id,
+      totalSeconds: timesheet.status === 'open'
+        ? entries.filter(entry => !entry.isBreak).reduce((sum, entry) => sum + (entry.duration || 0), 0)
+        : timesheet.totalSeconds,
+      entries
+    });
+  } catch (error) {
+    console.error('Error fetching timesheet week:', error);
+    res.status(500).json({ error: 'Failed to fetch timesheet' });
+  }
+});
+
+// GET /api/timesheets - Get the current user's submitted timesheets
+router.get('/', requirePermission('time_entries:view'), async (req, res) => {
+  try {
+    const timesheets = await Timesheet.findAll(req.workspaceId, { userId: req.user.id });
+    res.json(timesheets.map(timesheet => timesheet.toJSON()));
+  } catch (error) {
+    console.error('Error fetching timesheets:', error);
+    res.status(500).json({ error: 'Failed to fetch timesheets' });
+  }
+});
+
+// GET /api/timesheets/pending - Get other members' submissions waiting for review (reviewers only)
+router.get('/pending', requirePermission('time_entries:manage'), async (req, res) => {
+  try {
+    const timesheets = await Timesheet.findAll(req.workspaceId, { status: 'submitted' });
+    // Reviewers do not review their own weeks
+    res.json(timesheets.filter(timesheet => timesheet.userId !== req.user.id).map(timesheet => timesheet.toJSON()));
+  } catch (error) {
+    console.error('Error fetching pending timesheets:', error);
+    res.status(500).json({ error: 'Failed to fetch pending timesheets' });
+  }
+});
+
+// GET /api/timesheets/:id - Get a timesheet with its time entries (owner or admin)
+router.get('/:id', requirePermission('time_entries:view'), async (req, res) => {
+  try {
+    const timesheet = await Timesheet.findById(req.params.id, req.workspaceId);
+    if (!timesheet) {
+      return res.status(404).json({ error: 'Timesheet not found' });
+    }
+
+    if (timesheet.userId !== req.user.id && !can(req, 'time_entries:manage')) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    timesheet.entries = await Timesheet.getWeekEntries(req.workspaceId, timesheet.userId, timesheet.weekStart);
+    res.json(timesheet.toJSON());
+  } catch (error) {
+    console.error('Error fetching timesheet:', error);
+    res.status(500).json({ error: 'Failed to fetch timesheet' });
+  }
+});
+
+// POST /api/timesheets/submit - Submit the current user's week for approval
+router.post('/submit', requirePermission('time_entries:create'), validateSubmit, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const weekStart = Timesheet.weekStartOf(req.body.weekStart);
+    const existing = await Timesheet.findForWeek(req.workspaceId, req.user.id, weekStart);
+    if (existing && Timesheet.LOCKED_STATUSES.includes(existing.status)) {
+      return res.status(409).json({ error: `Timesheet for this week is already ${existing.status}` });
+    }
+
+    const timesheet = await Timesheet.submit(req.workspaceId, req.user.id, weekStart, req.user.id);
+    timesheet.entries = await Timesheet.getWeekEntries(req.workspaceId, req.user.id, weekStart);
+    res.status(existing ? 200 : 201).json(timesheet.toJSON());
+  } catch (error) {
+    console.error('Error submitting timesheet:', error);
+    res.status(500).json({ error: 'Failed to submit timesheet' });
+  }
+});
+
+// PATCH /api/timesheets/:id/review - Approve or reject a submitted timesheet (reviewers only)
+router.patch('/:id/review', requirePermission('time_entries:manage'), validateReview, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const timesheet = await Timesheet.findById(req.params.id, req.workspaceId);
+    if (!timesheet) {
+      return res.status(404).json({ error: 'Timesheet not found' });
+    }
+
+    if (timesheet.userId === req.user.id) {
+      return res.status(403).json({ error: 'You cannot review your own timesheet' });
+    }
+
+    if (timesheet.status !== 'submitted') {
+      return res.status(409).json({ error: `Timesheet is ${timesheet.status}, not awaiting review` });
+    }
+
+    await timesheet.review(req.body.status, req.body.comment, req.user.id);
+    const reviewed = await Timesheet.findById(timesheet.id, req.workspaceId);
+    res.json(reviewed.toJSON());
+  } catch (error) {
+    console.error('Error reviewing timesheet:', error);
+    res.status(500).json({ error: 'Failed to review timesheet' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,161 @@
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const WorkflowTemplate = require('../models/WorkflowTemplate');
+const Workflow = require('../models/Workflow');
+const { authenticate } = require('../middleware/auth');
+const { requireWorkspace, requirePermission } = require('../middleware/workspace');
+const { getDatabase } = require('../config/database');
+const router = express.Router();
+
+// Validation middleware
+const validateTemplate = [
+  body('workflowId').notEmpty().withMessage('Source workflow ID is required'),
+  body('name').optional().trim().notEmpty().withMessage('Name cannot be empty'),
+  body('description').optional().trim(),
+];
+
+const validateTemplateUpdate = [
+  body('name').trim().notEmpty().withMessage('Name is required'),
+  body('description').optional().trim(),
+];
+
+const validateInstantiate = [
+  body('clientId').notEmpty().withMessage('Client ID is required'),
+  body('startDate').isISO8601().withMessage('Valid start date is required'),
+  body('name').optional().trim(),
+];
+
+router.use(authenticate, requireWorkspace);
+
+// GET /api/workflow-templates - Get all templates for workspace
+router.get('/', requirePermission('workflows:view'), async (req, res) => {
+  try {
+    const templates = await WorkflowTemplate.findAll(req.workspaceId);
+    res.json(templates.map(template => template.toJSON()));
+  } catch (error) {
+    console.error('Error fetching workflow templates:', error);
+    res.status(500).json({ error: 'Failed to fetch workflow templates' });
+  }
+});
+
+// GET /api/workflow-templates/:id - Get template with its tasks
+router.get('/:id', requirePermission('workflows:view'), async (req, res) => {
+  try {
+    const template = await WorkflowTemplate.findById(req.params.id, req.workspaceId);
+    if (!template) {
+      return res.status(404).json({ error: 'Template not found' });
+    }
+
+    res.json(template.toJSON());
+  } catch (error) {
+    console.error('Error fetching workflow template:', error);
+    res.status(500).json({ error: 'Failed to fetch workflow template' });
+  }
+});
+
+// POST /api/workflow-templates - Save an existing workflow as a template
+router.post('/', requirePermission('workflows:create'), validateTemplate, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const workflow = await Workflow.findById(req.body.workflowId, req.workspaceId);
+    if (!workflow) {
+      return res.status(404).json({ error: 'Workflow not found' });
+    }
+
+    const template = await WorkflowTemplate.createFromWorkflow(workflow, {
+      name: req.body.name,
+      description: req.body.description
+    }, req.user.id);
+
+    res.status(201).json(template.toJSON());
+  } catch (error) {
+    console.error('Error creating workflow template:', error);
+    res.status(500).json({ error: 'Failed to create workflow template' });
+  }
+});
+
+// POST /api/workflow-templates/:id/instantiate - Create a workflow for a client from a template
+router.post('/:id/instantiate', requirePermission('workflows:create'), validateInstantiate, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const template = await WorkflowTemplate.findById(req.params.id, req.workspaceId);
+    if (!template) {
+      return res.status(404).json({ error: 'Template not found' });
+    }
+
+    const db = getDatabase();
+    const client = await db.get(
+      'SELECT id FROM clients WHERE id = ? AND workspace_id = ?',
+      [req.body.clientId, req.workspaceId]
+    );
+    if (!client) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+
+    const workflow = await template.instantiate({
+      clientId: req.body.clientId,
+      startDate: req.body.startDate,
+      name: req.body.name
+    }, req.user.id);
+
+    const progress = await workflow.getProgress();
+    res.status(201).json({
+      ...workflow.toJSON(),
+      progress
+    });
+  } catch (error) {
+    console.error('Error instantiating workflow template:', error);
+    res.status(500).json({ error: 'Failed to instantiate workflow template' });
+  }
+});
+
+// PUT /api/workflow-templates/:id - Rename / describe a template
+router.put('/:id', requirePermission('workflows:update'), validateTemplateUpdate, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const template = await WorkflowTemplate.findById(req.params.id, req.workspaceId);
+    if (!template) {
+      return res.status(404).json({ error: 'Template not found' });
+    }
+
+    await template.update({
+      name: req.body.name,
+      description: req.body.description
+    }, req.user.id);
+
+    res.json(template.toJSON());
+  } catch (error) {
+    console.error('Error updating workflow template:', error);
+    res.status(500).json({ error: 'Failed to update workflow template' });
+  }
+});
+
+// DELETE /api/workflow-templates/:id - Delete a template
+router.delete('/:id', requirePermission('workflows:delete'), async (req, res) => {
+  try {
+    const template = await WorkflowTemplate.findById(req.params.id, req.workspaceId);
+    if (!template) {
+      return res.status(404).json({ error: 'Template not found' });
+    }
+
+    await template.delete(req.user.id);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting workflow template:', error);
+    res.status(500).json({ error: 'Failed to delete workflow template' });
+  }
+});
+
+module.exports = router;
@@ -1,8 +1,11 @@
 const express = require('express');
 const { body, validationResult } = require('express-validator');
 const Workflow = require('../models/Workflow');
+const WorkflowStep = require('../models/WorkflowStep');
+const Budget = require('../models/Budget');
 const { authenticate } = require('../middleware/auth');
-const { requireWorkspace } = require('../middleware/workspace');
+const { requireWorkspace, requirePermission } = require('../middleware/workspace');
+const realtime = require('../services/realtime');
 const router = express.Router();
 
 // Validation middleware
@@ -20,7 +23,7 @@ const validateStep = [
 ];
 
 // GET /api/workflows - Get all workflows for workspace
-router.get('/', authenticate, requireWorkspace, async (req, res) => {
+router.get('/', authenticate, requireWorkspace, requirePermission('workflows:view'), async (req, res) => {
   try {
     const { status, clientId } = req.query;
     
@@ -35,13 +38,26 @@ router.get('/', authenticate, requireWorkspace, async (req, res) => {
       workflows = await Workflow.findAll(req.workspaceId);
     }
     
-    // Attach progress details (based on completed tasks) to each workflow
+    const budgets = new Map(
+      (await Budget.findAll(req.workspaceId, 'workflow')).map(budget => [budget.entityId, budget])
+    );
+
+    // Attach progress details (based on completed tasks), the flowchart graph and any budget burn to each workflow
     const workflowsWithProgress = await Promise.all(
       workflows.map(async (workflow) => {
-        const progress = await workflow.getProgress();
+        const budget = budgets.get(workflow.id);
+        const [progress, steps, connections] = await Promise.all([
+          workflow.getProgress(),
+          workflow.getSteps(),
+          workflow.getConnections(),
+          budget ? budget.computeBurn() : null
+        ]);
         return {
           ...workflow.toJSON(),
-          progress
+          steps,
+          connections,
+          progress,
+          budget: budget ? budget.toJSON() : null
         };
       })
     );
@@ -54,17 +70,23 @@ router.get('/', authenticate, requireWorkspace, async (req, res) => {
 });
 
 // GET /api/workflows/:id - Get workflow by ID
-router.get('/:id', authenticate, requireWorkspace, async (req, res) => {
+router.get('/:id', authenticate, requireWorkspace, requirePermission('workflows:view'), async (req, res) => {
   try {
     const workflow = await Workflow.findById(req.params.id, req.workspaceId);
     if (!workflow) {
       return res.status(404).json({ error: 'Workflow not found' });
     }
 
-    // Attach progress computed from tasks
-    const progress = await workflow.getProgress();
+    // Attach progress computed from tasks, plus the flowchart graph
+    const [progress, steps, connections] = await Promise.all([
+      workflow.getProgress(),
+      workflow.getSteps(),
+      workflow.getConnections()
+    ]);
     res.json({
       ...workflow.toJSON(),
+      steps,
+      connections,
       progress
     });
   } catch (error) {
@@ -74,15 +96,80 @@ router.get('/:id', authenticate, requireWorkspace, async (req, res) => {
 });
 
 // GET /api/workflows/:id/steps - Get workflow steps
-// Workflow steps removed – related endpoints return 410
+router.get('/:id/steps', authenticate, requireWorkspace, requirePermission('workflows:view'), async (req, res) => {
+  try {
+    const workflow = await Workflow.findById(req.params.id, req.workspaceId);
+    if (!workflow) {
+      return res.status(404).json({ error: 'Workflow not found' });
+    }
+
+    const steps = await workflow.getSteps();
+    res.json(steps);
+  } catch (error) {
+    console.error('Error fetching workflow steps:', error);
+    res.status(500).json({ error: 'Failed to fetch workflow steps' });
+  }
+});
 
 // GET /api/workflows/:id/connections - Get workflow connections
-router.get('/:id/connections', (req, res) => res.status(410).json({ error: 'Workflow connections removed' }));
+router.get('/:id/connections', authenticate, requireWorkspace, requirePermission('workflows:view'), async (req, res) => {
+  try {
+    const workflow = await Workflow.findById(req.params.id, req.workspaceId);
+    if (!workflow) {
+      return res.status(404).json({ error: 'Workflow not found' });
+    }
+
+    const connections = await workflow.getConnections();
+    res.json(connections);
+  } catch (error) {
+    console.error('Error fetching workflow connections:', error);
+    res.status(500).json({ error: 'Failed to fetch workflow connections' });
+  }
+});
+
+// GET /api/workflows/:id/graph - Get steps and connections together (flowchart canvas)
+router.get('/:id/graph', authenticate, requireWorkspace, requirePermission('workflows:view'), async (req, res) => {
+  try {
+    const workflow = await Workflow.findById(req.params.id, req.workspaceId);
+    if (!workflow) {
+      return res.status(404).json({ error: 'Workflow not found' });
+    }
+
+    const [steps, connections] = await Promise.all([
+      workflow.getSteps(),
+      workflow.getConnections()
+    ]);
+    res.json({ steps, connections });
+  } catch (error) {
+    console.error('Error fetching workflow graph:', error);
+    res.status(500).json({ error: 'Failed to fetch workflow graph' });
+  }
+});
+
+// GET /api/workflows/:id/dependencies - Get task dependencies and the critical path
+router.get('/:id/dependencies', authenticate, requireWorkspace, requirePermission('workflows:view'), async (req, res) => {
+  try {
+    const workflow = await Workflow.findById(req.params.id, req.workspaceId);
+    if (!workflow) {
+      return res.status(404).json({ error: 'Workflow not found' });
+    }
+
+    const dependencies = await workflow.getTaskDependencies();
+    const criticalPath = await workflow.getCriticalPath(dependencies);
+    res.json({
+      dependencies: dependencies.map(dep => dep.toJSON()),
+      criticalPath
+    });
+  } catch (error) {
+    console.error('Error fetching workflow task dependencies:', error);
+    res.status(500).json({ error: 'Failed to fetch workflow task dependencies' });
+  }
+});
 
 // GET /api/workflows/:id/progress - Get workflow progress
-router.get('/:id/progress', async (req, res) => {
+router.get('/:id/progress', authenticate, requireWorkspace, requirePermission('workflows:view'), async (req, res) => {
   try {
-    const workflow = await Workflow.findById(req.params.id);
+    const workflow = await Workflow.findById(req.params.id, req.workspaceId);
     if (!workflow) {
       return res.status(404).json({ error: 'Workflow not found' });
     }
@@ -102,7 +189,7 @@ router.get('/:id/progress', async (req, res) => {
 // Workflow steps removed – related endpoints return 410
 
 // POST /api/workflows - Create new workflow
-router.post('/', authenticate, requireWorkspace, validateWorkflow, async (req, res) => {
+router.post('/', authenticate, requireWorkspace, requirePermission('workflows:create'), validateWorkflow, async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -123,10 +210,9 @@ router.post('/', authenticate, requireWorkspace, validateWorkflow, async (req, r
 
     // Attach initial progress (zero tasks)
     const progress = await workflow.getProgress();
-    res.status(201).json({
-      ...workflow.toJSON(),
-      progress
-    });
+    const created = { ...workflow.toJSON(), progress };
+    realtime.publish(workflow.workspaceId, 'workflow.created', created, realtime.originOf(req));
+    res.status(201).json(created);
   } catch (error) {
     console.error('Error creating workflow:', error);
     res.status(500).json({ error: 'Failed to create workflow' });
@@ -134,23 +220,64 @@ router.post('/', authenticate, requireWorkspace, validateWorkflow, async (req, r
 });
 
 // POST /api/workflows/:id/steps - Add step to workflow
-// Workflow steps removed – related endpoints return 410
+router.post('/:id/steps', authenticate, requireWorkspace, requirePermission('workflows:update'), validateStep, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const workflow = await Workflow.findById(req.params.id, req.workspaceId);
+    if (!workflow) {
+      return res.status(404).json({ error: 'Workflow not found' });
+    }
+
+    const step = new WorkflowStep({
+      workflowId: workflow.id,
+      name: req.body.name,
+      description: req.body.description,
+      type: req.body.type,
+      position: {
+        x: Number(req.body.positionX) || 0,
+        y: Number(req.body.positionY) || 0
+      }
+    });
+
+    await step.save(req.user.id);
+    res.status(201).json(step.toJSON());
+  } catch (error) {
+    console.error('Error creating workflow step:', error);
+    res.status(500).json({ error: 'Failed to create workflow step' });
+  }
+});
 
 // POST /api/workflows/:id/connections - Add connection between steps
-router.post('/:id/connections', async (req, res) => {
+router.post('/:id/connections', authenticate, requireWorkspace, requirePermission('workflows:update'), async (req, res) => {
   try {
-    const workflow = await Workflow.findById(req.params.id);
+    const workflow = await Workflow.findById(req.params.id, req.workspaceId);
     if (!workflow) {
       return res.status(404).json({ error: 'Workflow not found' });
     }
 
-    const { sourceStepId, targetStepId } = req.body;
+    const { sourceStepId, targetStepId, sourceHandle, targetHandle, label } = req.body;
     if (!sourceStepId || !targetStepId) {
       return res.status(400).json({ error: 'Source and target step IDs are required' });
     }
 
-    const connectionId = await workflow.addConnection(sourceStepId, targetStepId);
-    res.status(201).json({ id: connectionId, sourceStepId, targetStepId });
+    let connectionId;
+    try {
+      connectionId = await workflow.addConnection(
+        sourceStepId,
+        targetStepId,
+        { sourceHandle, targetHandle, label },
+        req.user.id
+      );
+    } catch (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const connection = await workflow.getConnection(connectionId);
+    res.status(201).json(connection);
   } catch (error) {
     console.error('Error creating workflow connection:', error);
     res.status(500).json({ error: 'Failed to create workflow connection' });
@@ -161,14 +288,14 @@ router.post('/:id/connections', async (req, res) => {
 // Workflow steps removed – related endpoints return 410
 
 // PUT /api/workflows/:id - Update workflow
-router.put('/:id', validateWorkflow, async (req, res) => {
+router.put('/:id', authenticate, requireWorkspace, requirePermission('workflows:update'), validateWorkflow, async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const workflow = await Workflow.findById(req.params.id);
+    const workflow = await Workflow.findById(req.params.id, req.workspaceId);
     if (!workflow) {
       return res.status(404).json({ error: 'Workflow not found' });
     }
@@ -182,6 +309,7 @@ router.put('/:id', validateWorkflow, async (req, res) => {
     workflow.actualEndDate = req.body.actualEndDate ? new Date(req.body.actualEndDate) : workflow.actualEndDate;
 
     await workflow.save(req.body.performedBy);
+    realtime.publish(workflow.workspaceId, 'workflow.updated', workflow.toJSON(), realtime.originOf(req));
     res.json(workflow);
   } catch (error) {
     console.error('Error updating workflow:', error);
@@ -189,13 +317,104 @@ router.put('/:id', validateWorkflow, async (req, res) => {
   }
 });
 
+// PUT /api/workflows/:id/graph - Save the whole flowchart (steps with positions + connections)
+router.put('/:id/graph', authenticate, requireWorkspace, requirePermission('workflows:update'), async (req, res) => {
+  try {
+    const workflow = await Workflow.findById(req.params.id, req.workspaceId);
+    if (!workflow) {
+      return res.status(404).json({ error: 'Workflow not found' });
+    }
+
+    const { steps, connections } = req.body;
+    if (!Array.isArray(steps) || !Array.isArray(connections)) {
+      return res.status(400).json({ error: 'Steps and connections arrays are required' });
+    }
+
+    const invalidStep = steps.find(step =>
+      !step.id || !step.name || !String(step.name).trim() || !WorkflowStep.TYPES.includes(step.type)
+    );
+    if (invalidStep) {
+      return res.status(400).json({ error: 'Every step needs an id, a name and a valid type' });
+    }
+
+    const graph = await workflow.saveGraph(steps, connections, req.user.id);
+    realtime.publish(workflow.workspaceId, 'workflow.updated', { id: workflow.id, ...graph }, realtime.originOf(req));
+    res.json(graph);
+  } catch (error) {
+    console.error('Error saving workflow graph:', error);
+    res.status(500).json({ error: 'Failed to save workflow graph' });
+  }
+});
+
+// PUT /api/workflows/:id/steps/:stepId - Update a workflow step
+router.put('/:id/steps/:stepId', authenticate, requireWorkspace, requirePermission('workflows:update'), validateStep, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const workflow = await Workflow.findById(req.params.id, req.workspaceId);
+    if (!workflow) {
+      return res.status(404).json({ error: 'Workflow not found' });
+    }
+
+    const step = await WorkflowStep.findById(req.params.stepId);
+    if (!step || step.workflowId !== workflow.id) {
+      return res.status(404).json({ error: 'Step not found' });
+    }
+
+    step.name = req.body.name;
+    step.description = req.body.description;
+    step.type = req.body.type;
+    if (req.body.positionX !== undefined || req.body.positionY !== undefined) {
+      step.position = {
+        x: req.body.positionX !== undefined ? Number(req.body.positionX) || 0 : step.position.x,
+        y: req.body.positionY !== undefined ? Number(req.body.positionY) || 0 : step.position.y
+      };
+    }
+
+    await step.save(req.user.id);
+    res.json(step.toJSON());
+  } catch (error) {
+    console.error('Error updating workflow step:', error);
+    res.status(500).json({ error: 'Failed to update workflow step' });
+  }
+});
+
+// PUT /api/workflows/:id/connections/:connectionId - Update connection handles/label
+router.put('/:id/connections/:connectionId', authenticate, requireWorkspace, requirePermission('workflows:update'), async (req, res) => {
+  try {
+    const workflow = await Workflow.findById(req.params.id, req.workspaceId);
+    if (!workflow) {
+      return res.status(404).json({ error: 'Workflow not found' });
+    }
+
+    const { sourceHandle, targetHandle, label } = req.body;
+    const updated = await workflow.updateConnection(
+      req.params.connectionId,
+      { sourceHandle, targetHandle, label },
+      req.user.id
+    );
+    if (!updated) {
+      return res.status(404).json({ error: 'Connection not found' });
+    }
+
+    const connection = await workflow.getConnection(req.params.connectionId);
+    res.json(connection);
+  } catch (error) {
+    console.error('Error updating workflow connection:', error);
+    res.status(500).json({ error: 'Failed to update workflow connection' });
+  }
+});
+
 // PUT /api/workflows/:workflowId/kanban-columns/:stepId - Update kanban column
 // Workflow steps removed – related endpoints return 410
 
 // PATCH /api/workflows/:id/status - Update workflow status
-router.patch('/:id/status', async (req, res) => {
+router.patch('/:id/status', authenticate, requireWorkspace, requirePermission('workflows:update'), async (req, res) => {
   try {
-    const workflow = await Workflow.findById(req.params.id);
+    const workflow = await Workflow.findById(req.params.id, req.workspaceId);
     if (!workflow) {
       return res.status(404).json({ error: 'Workflow not found' });
     }
@@ -211,6 +430,7 @@ router.patch('/:id/status', async (req, res) => {
     }
 
     await workflow.save(req.body.performedBy);
+    realtime.publish(workflow.workspaceId, 'workflow.updated', workflow.toJSON(), realtime.originOf(req));
     res.json(workflow);
   } catch (error) {
     console.error('Error updating workflow status:', error);
@@ -219,13 +439,13 @@ router.patch('/:id/status', async (req, res) => {
 });
 
 // DELETE /api/workflows/:id - Delete workflow
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', authenticate, requireWorkspace, requirePermission('workflows:delete'), async (req, res) => {
   try {
     const { db } = require('../config/database');
     const { id } = req.params;
     
     // Check if workflow exists
-    const workflow = db.prepare('SELECT id FROM workflows WHERE id = ?').get(id);
+    const workflow = db.prepare('SELECT id, workspace_id FROM workflows WHERE id = ? AND workspace_id = ?').get(id, req.workspaceId);
     
     if (!workflow) {
       return res.status(404).json({ error: 'Workflow not found' });
@@ -259,6 +479,7 @@ router.delete('/:id', async (req, res) => {
     
     deleteTransaction();
     
+    realtime.publish(workflow.workspace_id, 'workflow.deleted', { id }, realtime.originOf(req));
     res.status(204).send();
   } catch (error) {
     console.error('Error deleting workflow:', error);
@@ -266,15 +487,39 @@ router.delete('/:id', async (req, res) => {
   }
 });
 
+// DELETE /api/workflows/:id/steps/:stepId - Delete a workflow step (and its connections)
+router.delete('/:id/steps/:stepId', authenticate, requireWorkspace, requirePermission('workflows:update'), async (req, res) => {
+  try {
+    const workflow = await Workflow.findById(req.params.id, req.workspaceId);
+    if (!workflow) {
+      return res.status(404).json({ error: 'Workflow not found' });
+    }
+
+    const step = await WorkflowStep.findById(req.params.stepId);
+    if (!step || step.workflowId !== workflow.id) {
+      return res.status(404).json({ error: 'Step not found' });
+    }
+
+    await step.delete(req.user.id);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting workflow step:', error);
+    res.status(500).json({ error: 'Failed to delete workflow step' });
+  }
+});
+
 // DELETE /api/workflows/:id/connections/:connectionId - Delete connection
-router.delete('/:id/connections/:connectionId', async (req, res) => {
+router.delete('/:id/connections/:connectionId', authenticate, requireWorkspace, requirePermission('workflows:update'), async (req, res) => {
   try {
-    const workflow = await Workflow.findById(req.params.id);
+    const workflow = await Workflow.findById(req.params.id, req.workspaceId);
     if (!workflow) {
       return res.status(404).json({ error: 'Workflow not found' });
     }
 
-    await workflow.removeConnection(req.params.connectionId);
+    const removed = await workflow.removeConnection(req.params.connectionId, req.user.id);
+    if (!removed) {
+      return res.status(404).json({ error: 'Connection not found' });
+    }
     res.status(204).send();
   } catch (error) {
     console.error('Error deleting workflow connection:', error);
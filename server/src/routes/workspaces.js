@@ -2,9 +2,17 @@ const express = require('express');
 const { body, validationResult } = require('express-validator');
 const Workspace = require('../models/Workspace');
 const User = require('../models/User');
+const WorkspaceRole = require('../models/WorkspaceRole');
 const { authenticate } = require('../middleware/auth');
 const router = express.Router();
 
+// The owner role belongs to the workspace creator and cannot be handed out
+const ASSIGNABLE_ROLES = WorkspaceRole.ROLES.filter(role => role !== 'owner');
+const isAssignableRole = (role) => ASSIGNABLE_ROLES.includes(role);
+
+// Roles the invite code can grant; client guests are invited through the client portal
+const INVITE_ROLES = ASSIGNABLE_ROLES.filter(role => role !== 'client_guest');
+
 // Validation middleware
 const validateCreateWorkspace = [
   body('name').trim().isLength({ min: 2, max: 100 }).withMessage('Workspace name must be between 2 and 100 characters'),
@@ -18,13 +26,39 @@ const validateJoinWorkspace = [
 const validateUpdateWorkspace = [
   body('name').optional().trim().isLength({ min: 2, max: 100 }).withMessage('Workspace name must be between 2 and 100 characters'),
   body('description').optional().trim().isLength({ max: 500 }).withMessage('Description must be less than 500 characters'),
+  body('inviteRole').optional().isIn(INVITE_ROLES).withMessage(`Invite role must be one of: ${INVITE_ROLES.join(', ')}`),
 ];
 
+const validateRolePermissions = [
+  body('permissions').isArray().withMessage('Permissions must be an array'),
+  body('permissions.*').isIn(WorkspaceRole.ALL_PERMISSIONS).withMessage('Unknown permission'),
+];
+
+// Workspace JSON with the caller's role and effective permissions, so the UI can hide what they cannot do.
+// Only those who manage the workspace see the invite code and the role it grants; client guests never do,
+// joining with it would take them out of the portal
+const withAccess = async (workspace, userId) => {
+  const { role, permissions } = await WorkspaceRole.permissionsForUser(userId, workspace.id);
+  const { inviteCode, inviteRole, ...details } = workspace.toJSON();
+  const canInvite = role !== 'client_guest' && permissions.includes('settings:manage');
+  return { ...details, ...(canInvite && { inviteCode, inviteRole }), userRole: role, permissions };
+};
+
+// Whether the member is an admin the caller may not change: custom roles can be given settings:manage,
+// but only owners and admins manage admins
+const isAdminProtected = async (callerId, memberId, workspaceId) => {
+  const [callerRole, memberRole] = await Promise.all([
+    Workspace.getUserRole(callerId, workspaceId),
+    Workspace.getUserRole(memberId, workspaceId)
+  ]);
+  return WorkspaceRole.isAdminRole(memberRole) && !WorkspaceRole.isAdminRole(callerRole);
+};
+
 // GET /workspaces - Get user's workspaces
 router.get('/', authenticate, async (req, res) => {
   try {
     const workspaces = await Workspace.findForUser(req.user.id);
-    res.json(workspaces);
+    res.json(await Promise.all(workspaces.map(workspace => withAccess(workspace, req.user.id))));
   } catch (error) {
     console.error('Get workspaces error:', error);
     res.status(500).json({ error: 'Failed to fetch workspaces' });
@@ -41,19 +75,17 @@ router.get('/:id', authenticate, async (req, res) => {
     }
 
     // Check if user is a member of this workspace
-    const isMember = await Workspace.isUserMember(req.user.id, workspace.id);
-    if (!isMember) {
+    const details = await withAccess(workspace, req.user.id);
+    if (!details.userRole) {
       return res.status(403).json({ error: 'Access denied' });
     }
 
-    // Get workspace members
-    const members = await workspace.getMembers();
-    const userRole = await Workspace.getUserRole(req.user.id, workspace.id);
+    // Get workspace members; client guests do not see the team
+    const members = details.userRole === 'client_guest' ? [] : await workspace.getMembers();
 
     res.json({
-      ...workspace.toJSON(),
-      members,
-      userRole
+      ...details,
+      members
     });
   } catch (error) {
     console.error('Get workspace error:', error);
@@ -79,7 +111,7 @@ router.post('/', authenticate, validateCreateWorkspace, async (req, res) => {
 
     await workspace.save();
 
-    res.status(201).json(workspace.toJSON());
+    res.status(201).json(await withAccess(workspace, req.user.id));
   } catch (error) {
     console.error('Create workspace error:', error);
     console.error('Error details:', {
@@ -110,18 +142,23 @@ router.post('/join', authenticate, validateJoinWorkspace, async (req, res) => {
       return res.status(404).json({ error: 'Invalid invite code' });
     }
 
+    // Client contacts stay in the portal; the code does not make them members of the team
+    const currentRole = await Workspace.getUserRole(req.user.id, workspace.id);
+    if (currentRole === 'client_guest') {
+      return res.status(403).json({ error: 'Client contacts can only use the client portal' });
+    }
+
     // Check if user is already a member
-    const isMember = await Workspace.isUserMember(req.user.id, workspace.id);
-    if (isMember) {
+    if (currentRole) {
       return res.status(400).json({ error: 'You are already a member of this workspace' });
     }
 
-    // Add user to workspace
-    await workspace.addMember(req.user.id, 'member', req.user.id);
+    // Add user to workspace, with the role the invite code grants
+    await workspace.addMember(req.user.id, workspace.inviteRole, req.user.id);
 
     res.json({
       message: 'Successfully joined workspace',
-      workspace: workspace.toJSON()
+      workspace: await withAccess(workspace, req.user.id)
     });
   } catch (error) {
     console.error('Join workspace error:', error);
@@ -143,20 +180,25 @@ router.put('/:id', authenticate, validateUpdateWorkspace, async (req, res) => {
       return res.status(404).json({ error: 'Workspace not found' });
     }
 
-    // Check if user is admin of this workspace
-    const userRole = await Workspace.getUserRole(req.user.id, workspace.id);
-    if (userRole !== 'admin') {
-      return res.status(403).json({ error: 'Only workspace admins can update workspace details' });
+    // Check if the user's role may manage this workspace
+    if (!(await WorkspaceRole.userCan(req.user.id, workspace.id, 'settings:manage'))) {
+      return res.status(403).json({ error: 'Your workspace role does not allow you to update workspace details' });
     }
 
-    const { name, description } = req.body;
+    const { name, description, inviteRole } = req.body;
+
+    // Only owners and admins may hand out the admin role, also through the invite code
+    if (inviteRole === 'admin' && !WorkspaceRole.isAdminRole(await Workspace.getUserRole(req.user.id, workspace.id))) {
+      return res.status(403).json({ error: 'Only workspace owners and admins can grant the admin role' });
+    }
     
     if (name !== undefined) workspace.name = name;
     if (description !== undefined) workspace.description = description;
+    if (inviteRole !== undefined) workspace.inviteRole = inviteRole;
 
     await workspace.save();
 
-    res.json(workspace.toJSON());
+    res.json(await withAccess(workspace, req.user.id));
   } catch (error) {
     console.error('Update workspace error:', error);
     res.status(500).json({ error: 'Failed to update workspace' });
@@ -172,10 +214,9 @@ router.post('/:id/regenerate-invite', authenticate, async (req, res) => {
       return res.status(404).json({ error: 'Workspace not found' });
     }
 
-    // Check if user is admin of this workspace
-    const userRole = await Workspace.getUserRole(req.user.id, workspace.id);
-    if (userRole !== 'admin') {
-      return res.status(403).json({ error: 'Only workspace admins can regenerate invite codes' });
+    // Check if the user's role may manage this workspace
+    if (!(await WorkspaceRole.userCan(req.user.id, workspace.id, 'settings:manage'))) {
+      return res.status(403).json({ error: 'Your workspace role does not allow you to regenerate invite codes' });
     }
 
     const newInviteCode = await workspace.regenerateInviteCode(req.user.id);
@@ -193,22 +234,30 @@ router.post('/:id/regenerate-invite', authenticate, async (req, res) => {
 // POST /workspaces/:id/members - Add member to workspace
 router.post('/:id/members', authenticate, async (req, res) => {
   try {
-    const { email, role = 'member' } = req.body;
+    const { email, role = 'contributor' } = req.body;
 
     if (!email) {
       return res.status(400).json({ error: 'Email is required' });
     }
 
+    if (!isAssignableRole(role)) {
+      return res.status(400).json({ error: `Role must be one of: ${ASSIGNABLE_ROLES.join(', ')}` });
+    }
+
     const workspace = await Workspace.findById(req.params.id);
     
     if (!workspace) {
       return res.status(404).json({ error: 'Workspace not found' });
     }
 
-    // Check if user is admin of this workspace
-    const userRole = await Workspace.getUserRole(req.user.id, workspace.id);
-    if (userRole !== 'admin') {
-      return res.status(403).json({ error: 'Only workspace admins can add members' });
+    // Check if the user's role may manage this workspace
+    if (!(await WorkspaceRole.userCan(req.user.id, workspace.id, 'settings:manage'))) {
+      return res.status(403).json({ error: 'Your workspace role does not allow you to add members' });
+    }
+
+    // Only owners and admins may make someone an admin
+    if (role === 'admin' && !WorkspaceRole.isAdminRole(await Workspace.getUserRole(req.user.id, workspace.id))) {
+      return res.status(403).json({ error: 'Only workspace owners and admins can grant the admin role' });
     }
 
     // Find user by email
@@ -247,10 +296,9 @@ router.delete('/:id/members/:userId', authenticate, async (req, res) => {
       return res.status(404).json({ error: 'Workspace not found' });
     }
 
-    // Check if user is admin of this workspace
-    const userRole = await Workspace.getUserRole(req.user.id, workspace.id);
-    if (userRole !== 'admin') {
-      return res.status(403).json({ error: 'Only workspace admins can remove members' });
+    // Check if the user's role may manage this workspace
+    if (!(await WorkspaceRole.userCan(req.user.id, workspace.id, 'settings:manage'))) {
+      return res.status(403).json({ error: 'Your workspace role does not allow you to remove members' });
     }
 
     // Can't remove the workspace owner
@@ -258,6 +306,11 @@ router.delete('/:id/members/:userId', authenticate, async (req, res) => {
       return res.status(400).json({ error: 'Cannot remove workspace owner' });
     }
 
+    // Only owners and admins may remove an admin
+    if (await isAdminProtected(req.user.id, req.params.userId, workspace.id)) {
+      return res.status(403).json({ error: 'Only workspace owners and admins can remove an admin' });
+    }
+
     await workspace.removeMember(req.params.userId, req.user.id);
 
     res.json({ message: 'Member removed successfully' });
@@ -272,8 +325,8 @@ router.put('/:id/members/:userId/role', authenticate, async (req, res) => {
   try {
     const { role } = req.body;
 
-    if (!role || !['admin', 'member'].includes(role)) {
-      return res.status(400).json({ error: 'Valid role is required (admin or member)' });
+    if (!isAssignableRole(role)) {
+      return res.status(400).json({ error: `Role must be one of: ${ASSIGNABLE_ROLES.join(', ')}` });
     }
 
     const workspace = await Workspace.findById(req.params.id);
@@ -282,10 +335,14 @@ router.put('/:id/members/:userId/role', authenticate, async (req, res) => {
       return res.status(404).json({ error: 'Workspace not found' });
     }
 
-    // Check if user is admin of this workspace
-    const userRole = await Workspace.getUserRole(req.user.id, workspace.id);
-    if (userRole !== 'admin') {
-      return res.status(403).json({ error: 'Only workspace admins can update member roles' });
+    // Check if the user's role may manage this workspace
+    if (!(await WorkspaceRole.userCan(req.user.id, workspace.id, 'settings:manage'))) {
+      return res.status(403).json({ error: 'Your workspace role does not allow you to update member roles' });
+    }
+
+    // Only owners and admins may make someone an admin
+    if (role === 'admin' && !WorkspaceRole.isAdminRole(await Workspace.getUserRole(req.user.id, workspace.id))) {
+      return res.status(403).json({ error: 'Only workspace owners and admins can grant the admin role' });
     }
 
     // Can't change the workspace owner's role
@@ -293,6 +350,11 @@ router.put('/:id/members/:userId/role', authenticate, async (req, res) => {
       return res.status(400).json({ error: 'Cannot change workspace owner role' });
     }
 
+    // Only owners and admins may change an admin's role
+    if (await isAdminProtected(req.user.id, req.params.userId, workspace.id)) {
+      return res.status(403).json({ error: 'Only workspace owners and admins can change an admin\'s role' });
+    }
+
     await workspace.updateMemberRole(req.params.userId, role, req.user.id);
 
     res.json({ message: 'Member role updated successfully' });
@@ -302,6 +364,98 @@ router.put('/:id/members/:userId/role', authenticate, async (req, res) => {
   }
 });
 
+// GET /workspaces/:id/roles - Get the permission matrix of every role
+router.get('/:id/roles', authenticate, async (req, res) => {
+  try {
+    const workspace = await Workspace.findById(req.params.id);
+
+    if (!workspace) {
+      return res.status(404).json({ error: 'Workspace not found' });
+    }
+
+    if (!(await Workspace.isUserMember(req.user.id, workspace.id))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const roles = await WorkspaceRole.findAllForWorkspace(workspace.id);
+
+    res.json({
+      resources: WorkspaceRole.RESOURCES,
+      roles: roles.map(role => role.toJSON())
+    });
+  } catch (error) {
+    console.error('Get workspace roles error:', error);
+    res.status(500).json({ error: 'Failed to fetch workspace roles' });
+  }
+});
+
+// PUT /workspaces/:id/roles/:role - Replace the permissions of a configurable role
+router.put('/:id/roles/:role', authenticate, validateRolePermissions, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const workspace = await Workspace.findById(req.params.id);
+
+    if (!workspace) {
+      return res.status(404).json({ error: 'Workspace not found' });
+    }
+
+    // Check if the user's role may manage this workspace
+    if (!(await WorkspaceRole.userCan(req.user.id, workspace.id, 'settings:manage'))) {
+      return res.status(403).json({ error: 'Your workspace role does not allow you to change role permissions' });
+    }
+
+    const role = await WorkspaceRole.find(workspace.id, req.params.role);
+    if (!role) {
+      return res.status(404).json({ error: 'Role not found' });
+    }
+    if (WorkspaceRole.isAdminRole(role.role)) {
+      return res.status(400).json({ error: `The ${role.role} role always has every permission` });
+    }
+
+    await role.update(req.body.permissions, req.user.id);
+
+    res.json(role.toJSON());
+  } catch (error) {
+    console.error('Update role permissions error:', error);
+    res.status(500).json({ error: 'Failed to update role permissions' });
+  }
+});
+
+// DELETE /workspaces/:id/roles/:role - Reset a role to its default permissions
+router.delete('/:id/roles/:role', authenticate, async (req, res) => {
+  try {
+    const workspace = await Workspace.findById(req.params.id);
+
+    if (!workspace) {
+      return res.status(404).json({ error: 'Workspace not found' });
+    }
+
+    // Check if the user's role may manage this workspace
+    if (!(await WorkspaceRole.userCan(req.user.id, workspace.id, 'settings:manage'))) {
+      return res.status(403).json({ error: 'Your workspace role does not allow you to change role permissions' });
+    }
+
+    const role = await WorkspaceRole.find(workspace.id, req.params.role);
+    if (!role) {
+      return res.status(404).json({ error: 'Role not found' });
+    }
+    if (WorkspaceRole.isAdminRole(role.role)) {
+      return res.status(400).json({ error: `The ${role.role} role always has every permission` });
+    }
+
+    await role.reset(req.user.id);
+
+    res.json(role.toJSON());
+  } catch (error) {
+    console.error('Reset role permissions error:', error);
+    res.status(500).json({ error: 'Failed to reset role permissions' });
+  }
+});
+
 // DELETE /workspaces/:id - Delete workspace (admin only)
 router.delete('/:id', authenticate, async (req, res) => {
   try {
@@ -11,6 +11,12 @@ const cleanupDatabase = async () => {
     console.log('🗑️  Clearing all existing data...');
     
     const clearQueries = [
+      'DELETE FROM board_views',
+      'DELETE FROM client_contacts',
+      'DELETE FROM recurring_tasks',
+      'DELETE FROM calendar_feeds',
+      'DELETE FROM task_resource_collab_states',
+      'DELETE FROM task_resource_revisions',
       'DELETE FROM task_resources',
       'DELETE FROM task_assignments', 
       'DELETE FROM meeting_attendees',
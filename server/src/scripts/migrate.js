@@ -0,0 +1,81 @@
+require('dotenv').config();
+const migrations = require('../migrations');
+
+const USAGE = `Usage: node src/scripts/migrate.js <command>
+
+Commands:
+  status              List the migrations and whether they are applied
+  up [version]        Apply the pending migrations, up to and including [version]
+  rollback [steps]    Undo the last [steps] applied migrations (default 1)
+  rollback --to <v>   Undo the migrations applied after version <v> (0 undoes all)
+  create <name>       Add an empty migration to src/migrations`;
+
+const migrationCount = (count) => `${count} ${count === 1 ? 'migration' : 'migrations'}`;
+
+const parseNumber = (value, what) => {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) {
+    throw new migrations.MigrationError(`${what} must be a whole number, got "${value}"`);
+  }
+  return number;
+};
+
+async function printStatus() {
+  const entries = await migrations.status();
+  if (await migrations.needsAdoption()) {
+    console.log('ℹ️  This database was created before versioned migrations; migrate adopts it.\n');
+  }
+  if (entries.length === 0) {
+    console.log('No migrations found.');
+    return;
+  }
+  for (const entry of entries) {
+    const label = entry.file || `${String(entry.version).padStart(3, '0')}_${entry.name}.js`;
+    const applied = entry.appliedAt ? ` (applied ${entry.appliedAt})` : '';
+    console.log(`${entry.state.padEnd(8)} ${label}${applied}`);
+  }
+}
+
+async function run([command, ...args]) {
+  switch (command) {
+    case 'status':
+      await printStatus();
+      break;
+
+    case 'up': {
+      const to = args[0] === undefined ? undefined : parseNumber(args[0], 'The version');
+      const applied = await migrations.migrate({ to });
+      console.log(applied.length === 0 ? 'The database is up to date.' : `🎉 Applied ${migrationCount(applied.length)}.`);
+      break;
+    }
+
+    case 'rollback': {
+      const options = args[0] === '--to'
+        ? { to: parseNumber(args[1], 'The version') }
+        : { steps: args[0] === undefined ? 1 : parseNumber(args[0], 'The number of steps') };
+      const rolledBack = await migrations.rollback(options);
+      console.log(rolledBack.length === 0 ? 'Nothing to roll back.' : `Rolled back ${migrationCount(rolledBack.length)}.`);
+      break;
+    }
+
+    case 'create':
+      console.log(`📝 Created ${migrations.createMigration(args.join(' '))}`);
+      break;
+
+    default:
+      console.log(USAGE);
+      process.exitCode = command ? 1 : 0;
+  }
+}
+
+// Run the command if this script is executed directly
+if (require.main === module) {
+  run(process.argv.slice(2))
+    .then(() => process.exit())
+    .catch((error) => {
+      console.error(error instanceof migrations.MigrationError ? `❌ ${error.message}` : error);
+      process.exit(1);
+    });
+}
+
+module.exports = { run };
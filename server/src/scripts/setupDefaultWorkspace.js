@@ -43,7 +43,7 @@ async function setupDefaultWorkspace() {
         await db.run(`
           INSERT INTO workspace_members (id, workspace_id, user_id, role, joined_at)
           VALUES (?, ?, ?, ?, datetime('now'))
-        `, [uuidv4(), 'default-workspace', user.id, 'member']);
+        `, [uuidv4(), 'default-workspace', user.id, 'contributor']);
       } else {
         console.log(`✓ ${user.name} already in default workspace`);
       }
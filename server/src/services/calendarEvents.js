@@ -0,0 +1,327 @@
+/**
+ * Calendar event rows: recurring series with their edited occurrences, and ICS import.
+ *
+ * A series is a row with a recurrence_rule; occurrences it skips are in recurrence_exceptions.
+ * An occurrence edited on its own is a row with recurrence_parent_id set to the series and
+ * original_start_time set to the start it replaces. Changes that touch several rows run in a
+ * transaction.
+ */
+
+const { v4: uuidv4 } = require('uuid');
+const { getDatabase } = require('../config/database');
+const recurrence = require('./recurrence');
+const ical = require('./ical');
+
+const parseExceptions = (row) => JSON.parse(row.recurrence_exceptions || '[]');
+
+const insertEvent = async (db, columns) => {
+  const id = uuidv4();
+  const names = Object.keys(columns);
+  await db.run(`
+    INSERT INTO calendar_events (id, ${names.join(', ')})
+    VALUES (?, ${names.map(() => '?').join(', ')})
+  `, [id, ...names.map(name => columns[name])]);
+  return id;
+};
+
+const updateEvent = async (db, id, columns) => {
+  const names = Object.keys(columns);
+  await db.run(`
+    UPDATE calendar_events
+    SET ${names.map(name => `${name} = ?`).join(', ')}, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `, [...names.map(name => columns[name]), id]);
+};
+
+// The fields an edited occurrence or a split-off series copies from its series
+const SERIES_FIELDS = ['user_id', 'workspace_id', 'title', 'all_day', 'task_id', 'description', 'event_type', 'color'];
+
+const seriesFields = (series) => Object.fromEntries(SERIES_FIELDS.map(name => [name, series[name]]));
+
+// editSeries, on a connection that is in a transaction
+async function applySeriesEdit(db, series, scope, occurrenceStart, changes) {
+  const occurrence = occurrenceStart ? new Date(occurrenceStart) : new Date(series.start_time);
+  const durationMs = new Date(series.end_time).getTime() - new Date(series.start_time).getTime();
+  const occurrenceTimes = {
+    start_time: occurrence.toISOString(),
+    end_time: new Date(occurrence.getTime() + durationMs).toISOString()
+  };
+
+  if (scope === 'this') {
+    // The occurrence becomes a row of its own; the series skips its original start
+    const exceptions = parseExceptions(series);
+    await updateEvent(db, series.id, {
+      recurrence_exceptions: JSON.stringify([...exceptions, occurrence.toISOString()])
+    });
+    const overrideChanges = { ...changes };
+    delete overrideChanges.recurrence_rule;
+    return insertEvent(db, {
+      ...seriesFields(series),
+      ...occurrenceTimes,
+      ...overrideChanges,
+      recurrence_parent_id: series.id,
+      original_start_time: occurrence.toISOString()
+    });
+  }
+
+  // Moving the occurrence moves the whole (remaining) series by the same amount
+  const startShift = changes.start_time ? new Date(changes.start_time).getTime() - occurrence.getTime() : 0;
+  const endShift = changes.end_time ? new Date(changes.end_time).getTime() - new Date(occurrenceTimes.end_time).getTime() : 0;
+  const timesChanged = startShift !== 0 || endShift !== 0;
+
+  const split = scope === 'following' ? recurrence.splitAt(series.recurrence_rule, series.start_time, occurrence) : null;
+
+  if (split && split.before) {
+    // End the series before the occurrence and continue it as a new series from there
+    const laterExceptions = parseExceptions(series).filter(value => new Date(value) >= occurrence);
+    await updateEvent(db, series.id, {
+      recurrence_rule: split.before,
+      recurrence_exceptions: JSON.stringify(parseExceptions(series).filter(value => new Date(value) < occurrence))
+    });
+
+    const rule = changes.recurrence_rule !== undefined ? changes.recurrence_rule : split.after;
+    const newSeriesId = await insertEvent(db, {
+      ...seriesFields(series),
+      ...changes,
+      start_time: new Date(occurrence.getTime() + startShift).toISOString(),
+      end_time: new Date(new Date(occurrenceTimes.end_time).getTime() + endShift).toISOString(),
+      recurrence_rule: rule,
+      recurrence_exceptions: JSON.stringify(timesChanged || !rule ? [] : laterExceptions)
+    });
+
+    // Edited occurrences from here on follow the new series, unless its times moved away from theirs
+    if (timesChanged || !rule) {
+      await db.run(
+        'DELETE FROM calendar_events WHERE recurrence_parent_id = ? AND original_start_time >= ?',
+        [series.id, occurrence.toISOString()]
+      );
+    } else {
+      await db.run(
+        'UPDATE calendar_events SET recurrence_parent_id = ? WHERE recurrence_parent_id = ? AND original_start_time >= ?',
+        [newSeriesId, series.id, occurrence.toISOString()]
+      );
+    }
+    return newSeriesId;
+  }
+
+  // Every occurrence: shift the series start and keep edited occurrences in line with it
+  const seriesChanges = { ...changes };
+  delete seriesChanges.start_time;
+  delete seriesChanges.end_time;
+  if (timesChanged) {
+    seriesChanges.start_time = new Date(new Date(series.start_time).getTime() + startShift).toISOString();
+    seriesChanges.end_time = new Date(new Date(series.end_time).getTime() + endShift).toISOString();
+  }
+  const stopsRecurring = seriesChanges.recurrence_rule === null;
+  if (timesChanged || stopsRecurring) {
+    seriesChanges.recurrence_exceptions = '[]';
+    await db.run('DELETE FROM calendar_events WHERE recurrence_parent_id = ?', [series.id]);
+  }
+  await updateEvent(db, series.id, seriesChanges);
+
+  // Field edits (title, colour, ...) also apply to occurrences edited on their own
+  const fieldChanges = Object.fromEntries(
+    Object.entries(changes).filter(([name]) => SERIES_FIELDS.includes(name))
+  );
+  if (!timesChanged && !stopsRecurring && Object.keys(fieldChanges).length > 0) {
+    const names = Object.keys(fieldChanges);
+    await db.run(`
+      UPDATE calendar_events SET ${names.map(name => `${name} = ?`).join(', ')}, updated_at = CURRENT_TIMESTAMP
+      WHERE recurrence_parent_id = ?
+    `, [...names.map(name => fieldChanges[name]), series.id]);
+  }
+  return series.id;
+}
+
+// deleteFromSeries, on a connection that is in a transaction
+async function applySeriesDelete(db, series, scope, occurrenceStart) {
+  const occurrence = occurrenceStart ? new Date(occurrenceStart) : new Date(series.start_time);
+
+  if (scope === 'this') {
+    await updateEvent(db, series.id, {
+      recurrence_exceptions: JSON.stringify([...parseExceptions(series), occurrence.toISOString()])
+    });
+    await db.run(
+      'DELETE FROM calendar_events WHERE recurrence_parent_id = ? AND original_start_time = ?',
+      [series.id, occurrence.toISOString()]
+    );
+    return;
+  }
+
+  const split = scope === 'following' ? recurrence.splitAt(series.recurrence_rule, series.start_time, occurrence) : null;
+  if (split && split.before) {
+    await updateEvent(db, series.id, { recurrence_rule: split.before });
+    await db.run(
+      'DELETE FROM calendar_events WHERE recurrence_parent_id = ? AND original_start_time >= ?',
+      [series.id, occurrence.toISOString()]
+    );
+    return;
+  }
+
+  await db.run('DELETE FROM calendar_events WHERE recurrence_parent_id = ?', [series.id]);
+  await db.run('DELETE FROM calendar_events WHERE id = ?', [series.id]);
+}
+
+// The occurrence of a series closest to `at` (within 12 hours), so dates written in another
+// time zone (e.g. across a daylight saving change) still match the occurrences evaluated in UTC
+const matchOccurrence = (rule, start, at) => {
+  const window = 12 * 60 * 60 * 1000;
+  const candidates = recurrence.expand(rule, start, {
+    from: new Date(at.getTime() - window),
+    to: new Date(at.getTime() + window)
+  });
+  if (candidates.length === 0) return at;
+  return candidates.reduce((closest, candidate) =>
+    Math.abs(candidate - at) < Math.abs(closest - at) ? candidate : closest
+  );
+};
+
+/**
+ * Apply an edit to a series: only the occurrence at `occurrenceStart` ('this'), that
+ * occurrence and all later ones ('following'), or every occurrence ('all').
+ * @returns {Promise<string>} the id of the row that now holds the edited occurrence
+ */
+async function editSeries(series, scope, occurrenceStart, changes) {
+  const db = getDatabase();
+  return db.transaction(() => applySeriesEdit(db, series, scope, occurrenceStart, changes));
+}
+
+/**
+ * Delete the occurrence at `occurrenceStart` ('this'), it and all later ones ('following')
+ * or the whole series ('all')
+ */
+async function deleteFromSeries(series, scope, occurrenceStart) {
+  const db = getDatabase();
+  await db.transaction(() => applySeriesDelete(db, series, scope, occurrenceStart));
+}
+
+/**
+ * Add the events parsed from an ICS file (services/ical) to the user's calendar, all or none.
+ * Events whose UID is already in the calendar are counted as duplicates; events that cannot
+ * be represented are skipped with the reason.
+ * @returns {Promise<{imported: number, duplicates: number, skipped: object[]}>}
+ */
+async function importEvents(userId, workspaceId, parsed) {
+  const db = getDatabase();
+  const result = { imported: 0, duplicates: 0, skipped: [] };
+  const skip = (event, reason) => result.skipped.push({ uid: event.uid, summary: event.summary, reason });
+
+  const findByUid = (uid) => {
+    const ownId = /^(.+)@benders-workflow$/.exec(uid);
+    return db.get(`
+      SELECT * FROM calendar_events
+      WHERE user_id = ? AND workspace_id = ? AND recurrence_parent_id IS NULL AND (ical_uid = ? OR id = ?)
+    `, [userId, workspaceId, uid, ownId ? ownId[1] : null]);
+  };
+
+  await db.transaction(async () => {
+    // Series first, so edited occurrences (RECURRENCE-ID) find the series they belong to
+    const seriesByUid = new Map();
+    const ordered = [...parsed.filter(event => !event.recurrenceId), ...parsed.filter(event => event.recurrenceId)];
+
+    for (const event of ordered) {
+      if (event.error) {
+        skip(event, event.error);
+        continue;
+      }
+      if (!event.uid) {
+        skip(event, 'Missing UID');
+        continue;
+      }
+
+      if (event.recurrenceId) {
+        const series = seriesByUid.get(event.uid) || await findByUid(event.uid);
+        if (!series || !series.recurrence_rule) {
+          skip(event, 'Edited occurrence of a recurring event that is not in the calendar');
+          continue;
+        }
+
+        const occurrence = matchOccurrence(series.recurrence_rule, new Date(series.start_time), event.recurrenceId).toISOString();
+        const override = await db.get(
+          'SELECT id FROM calendar_events WHERE recurrence_parent_id = ? AND original_start_time = ?',
+          [series.id, occurrence]
+        );
+        const exceptions = parseExceptions(series);
+        if (override || (event.status === 'CANCELLED' && exceptions.includes(occurrence))) {
+          result.duplicates++;
+          continue;
+        }
+
+        if (!exceptions.includes(occurrence)) {
+          exceptions.push(occurrence);
+          await updateEvent(db, series.id, { recurrence_exceptions: JSON.stringify(exceptions) });
+          series.recurrence_exceptions = JSON.stringify(exceptions);
+        }
+        if (event.status !== 'CANCELLED') {
+          await insertEvent(db, {
+            ...seriesFields(series),
+            title: event.summary,
+            description: event.description,
+            start_time: event.start.toISOString(),
+            end_time: event.end.toISOString(),
+            all_day: event.allDay,
+            recurrence_parent_id: series.id,
+            original_start_time: occurrence,
+            ical_uid: event.uid
+          });
+        }
+        result.imported++;
+        continue;
+      }
+
+      if (event.status === 'CANCELLED') {
+        skip(event, 'Cancelled');
+        continue;
+      }
+
+      const existing = await findByUid(event.uid);
+      if (existing) {
+        seriesByUid.set(event.uid, existing);
+        result.duplicates++;
+        continue;
+      }
+
+      let rule = null;
+      if (event.rrule) {
+        const ruleError = recurrence.validate(event.rrule);
+        if (ruleError) {
+          skip(event, `Unsupported repeat rule: ${ruleError}`);
+          continue;
+        }
+        // Rules repeat on the weekdays of the event's time zone; the server evaluates them in UTC
+        rule = recurrence.shiftDays(event.rrule, ical.utcDayShift(event.start, event.tzid));
+      }
+
+      const exceptions = rule
+        ? event.exdates.map(exdate => matchOccurrence(rule, event.start, exdate).toISOString())
+        : [];
+
+      const id = await insertEvent(db, {
+        user_id: userId,
+        workspace_id: workspaceId,
+        title: event.summary,
+        description: event.description,
+        start_time: event.start.toISOString(),
+        end_time: event.end.toISOString(),
+        all_day: event.allDay,
+        event_type: 'meeting',
+        recurrence_rule: rule,
+        recurrence_exceptions: JSON.stringify(exceptions),
+        ical_uid: event.uid
+      });
+      seriesByUid.set(event.uid, await db.get('SELECT * FROM calendar_events WHERE id = ?', [id]));
+      result.imported++;
+    }
+  });
+
+  return result;
+}
+
+module.exports = {
+  parseExceptions,
+  insertEvent,
+  updateEvent,
+  editSeries,
+  deleteFromSeries,
+  importEvents
+};
@@ -0,0 +1,380 @@
+const { WebSocketServer, WebSocket } = require('ws');
+const Y = require('yjs');
+const syncProtocol = require('y-protocols/sync');
+const awarenessProtocol = require('y-protocols/awareness');
+const encoding = require('lib0/encoding');
+const decoding = require('lib0/decoding');
+const { QuillDeltaToHtmlConverter } = require('quill-delta-to-html');
+const { getDatabase } = require('../config/database');
+const { resolveSession } = require('../middleware/auth');
+const User = require('../models/User');
+const WorkspaceRole = require('../models/WorkspaceRole');
+const TaskResource = require('../models/TaskResource');
+
+/**
+ * Collaborative editing of task documents
+ * Editors of a document connect to ws(s)://<host>/api/collab/<resourceId> and share one Yjs
+ * document in the y-websocket protocol (sync and awareness messages), which the Quill editors
+ * bind to. The server keeps a room per open document, stores its Yjs state a moment after every
+ * change together with the HTML it renders to in task_resources.content, and records a revision
+ * when the last editor leaves (or every REVISION_INTERVAL_MS while it is edited).
+ *
+ * The state belongs to a generation of the document. Saving content over the REST API or
+ * restoring a revision starts a new one: the room is closed with CLOSE_REPLACED and the editors
+ * load the document again.
+ */
+
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+
+// Wait after a change before it is stored, so bursts of typing are written once
+const PERSIST_DELAY_MS = 2000;
+
+// A document edited for a long time still gets a revision this often
+const REVISION_INTERVAL_MS = 10 * 60 * 1000;
+
+// Connections that do not answer a ping within this time are dropped
+const PING_INTERVAL_MS = 30 * 1000;
+
+const MAX_MESSAGE_BYTES = 10 * 1024 * 1024;
+
+// Close codes the client acts on; y-websocket does not reconnect after codes 4400-4499
+const CLOSE_UNAUTHORIZED = 4401; // the access token expired: refresh it and reconnect
+const CLOSE_FORBIDDEN = 4403;
+const CLOSE_NOT_FOUND = 4404;
+const CLOSE_REPLACED = 4409; // the content was replaced: load the document again
+
+const PATH_PATTERN = /^\/api\/collab\/([^/?]+)(?:\?|$)/;
+
+// The HTML the editors show, in the markup the Quill editor writes
+const documentHtml = (doc) =>
+  new QuillDeltaToHtmlConverter(doc.getText('quill').toDelta(), { multiLineParagraph: false }).convert();
+
+const send = (ws, message) => {
+  if (ws.readyState !== WebSocket.OPEN) return;
+  ws.send(message, error => {
+    if (error) ws.terminate();
+  });
+};
+
+class DocumentRoom {
+  constructor(resource) {
+    this.resource = resource;
+    this.generation = resource.collabGeneration;
+    this.doc = new Y.Doc();
+    this.awareness = new awarenessProtocol.Awareness(this.doc);
+    this.awareness.setLocalState(null);
+    // ws -> { user, readOnly, clientIds }
+    this.connections = new Map();
+    this.destroyed = false;
+
+    this.persistTimer = null;
+    this.saving = Promise.resolve();
+    this.dirty = false; // changed since last stored
+    this.unrecorded = false; // changed since the last revision
+    this.lastEditorId = null;
+    this.lastRevisionAt = Date.now();
+
+    this.doc.on('update', (update, origin) => {
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_SYNC);
+      syncProtocol.writeUpdate(encoder, update);
+      const message = encoding.toUint8Array(encoder);
+      this.connections.forEach((connection, ws) => {
+        if (ws !== origin) send(ws, message);
+      });
+
+      const editor = this.connections.get(origin);
+      if (editor) {
+        this.lastEditorId = editor.user.id;
+        this.dirty = true;
+        this.unrecorded = true;
+        this.schedulePersist();
+      }
+    });
+
+    this.awareness.on('update', ({ added, updated, removed }, origin) => {
+      const connection = this.connections.get(origin);
+      if (connection) {
+        added.forEach(clientId => connection.clientIds.add(clientId));
+        removed.forEach(clientId => connection.clientIds.delete(clientId));
+      }
+
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+      encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(this.awareness, added.concat(updated, removed)));
+      const message = encoding.toUint8Array(encoder);
+      this.connections.forEach((_, ws) => send(ws, message));
+    });
+
+    this.ready = this.load();
+  }
+
+  async load() {
+    const state = await TaskResource.getCollabState(this.resource.id, this.generation);
+    if (state) {
+      Y.applyUpdate(this.doc, new Uint8Array(state));
+    }
+  }
+
+  join(ws, user, readOnly) {
+    const connection = { user, readOnly, clientIds: new Set() };
+    this.connections.set(ws, connection);
+
+    ws.on('message', data => this.receive(ws, connection, new Uint8Array(data)));
+
+    let alive = true;
+    ws.on('pong', () => {
+      alive = true;
+    });
+    const ping = setInterval(() => {
+      if (!alive) return ws.terminate();
+      alive = false;
+      ws.ping();
+    }, PING_INTERVAL_MS);
+    ws.on('close', () => {
+      clearInterval(ping);
+      this.leave(ws);
+    });
+
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeSyncStep1(encoder, this.doc);
+    send(ws, encoding.toUint8Array(encoder));
+
+    const states = this.awareness.getStates();
+    if (states.size > 0) {
+      const awarenessEncoder = encoding.createEncoder();
+      encoding.writeVarUint(awarenessEncoder, MESSAGE_AWARENESS);
+      encoding.writeVarUint8Array(awarenessEncoder, awarenessProtocol.encodeAwarenessUpdate(this.awareness, Array.from(states.keys())));
+      send(ws, encoding.toUint8Array(awarenessEncoder));
+    }
+  }
+
+  receive(ws, connection, message) {
+    if (this.destroyed) return;
+    try {
+      const decoder = decoding.createDecoder(message);
+      const encoder = encoding.createEncoder();
+      const messageType = decoding.readVarUint(decoder);
+
+      if (messageType === MESSAGE_SYNC) {
+        // Viewers may ask for the document but their changes are not taken
+        if (connection.readOnly && decoding.peekVarUint(decoder) !== syncProtocol.messageYjsSyncStep1) return;
+
+        encoding.writeVarUint(encoder, MESSAGE_SYNC);
+        syncProtocol.readSyncMessage(decoder, encoder, this.doc, ws);
+        if (encoding.length(encoder) > 1) {
+          send(ws, encoding.toUint8Array(encoder));
+        }
+      } else if (messageType === MESSAGE_AWARENESS) {
+        awarenessProtocol.applyAwarenessUpdate(this.awareness, decoding.readVarUint8Array(decoder), ws);
+      }
+    } catch (error) {
+      console.error('Error handling collaboration message:', error);
+      ws.close(1003, 'Invalid message');
+    }
+  }
+
+  leave(ws) {
+    const connection = this.connections.get(ws);
+    if (!connection) return;
+
+    this.connections.delete(ws);
+    if (this.destroyed) return;
+    awarenessProtocol.removeAwarenessStates(this.awareness, Array.from(connection.clientIds), null);
+  }
+
+  schedulePersist() {
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persist();
+    }, PERSIST_DELAY_MS);
+  }
+
+  // Store pending changes, and record a revision when asked or when the last one is old enough
+  persist({ revision = false } = {}) {
+    clearTimeout(this.persistTimer);
+    this.persistTimer = null;
+
+    this.saving = this.saving.then(async () => {
+      if (this.destroyed) return;
+      try {
+        if (this.dirty) {
+          this.dirty = false;
+          const saved = await this.resource.saveCollabState(this.generation, Y.encodeStateAsUpdate(this.doc), documentHtml(this.doc));
+          // Replaced meanwhile; the room is about to be closed
+          if (!saved) return;
+        }
+
+        if (this.unrecorded && (revision || Date.now() - this.lastRevisionAt >= REVISION_INTERVAL_MS)) {
+          this.unrecorded = false;
+          this.lastRevisionAt = Date.now();
+          // The title may have been renamed since the room opened
+          const current = await TaskResource.findById(this.resource.id);
+          if (!current) return;
+          this.resource.title = current.title;
+          await this.resource.recordRevision(this.lastEditorId);
+        }
+      } catch (error) {
+        console.error(`Error saving collaborative document ${this.resource.id}:`, error);
+        this.dirty = true;
+        this.unrecorded = true;
+      }
+    });
+    return this.saving;
+  }
+
+  destroy() {
+    this.destroyed = true;
+    clearTimeout(this.persistTimer);
+    this.persistTimer = null;
+    this.awareness.destroy();
+    this.doc.destroy();
+  }
+}
+
+class CollaborationService {
+  constructor() {
+    // resourceId -> DocumentRoom
+    this.rooms = new Map();
+    this.server = null;
+  }
+
+  /**
+   * Accept collaboration connections on an HTTP server
+   */
+  attach(httpServer) {
+    this.server = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+
+    httpServer.on('upgrade', (req, socket, head) => {
+      const match = PATH_PATTERN.exec(req.url);
+      let resourceId;
+      try {
+        resourceId = match && decodeURIComponent(match[1]);
+      } catch (error) {
+        // Malformed escapes in the path
+        resourceId = null;
+      }
+      if (!resourceId) {
+        socket.destroy();
+        return;
+      }
+
+      this.server.handleUpgrade(req, socket, head, ws => {
+        this.connect(ws, req, resourceId).catch(error => {
+          console.error('Error opening collaboration connection:', error);
+          ws.close(1011, 'Failed to open the document');
+        });
+      });
+    });
+  }
+
+  async connect(ws, req, resourceId) {
+    // Keep what the client sends while its access is checked
+    const early = [];
+    const hold = data => early.push(data);
+    ws.on('message', hold);
+
+    const access = await this.authorize(req, resourceId);
+    if (access.error) {
+      ws.close(access.error.code, access.error.reason);
+      return;
+    }
+
+    let room = this.rooms.get(resourceId);
+    if (room && room.generation !== access.resource.collabGeneration) {
+      this.closeDocument(resourceId);
+      room = null;
+    }
+    if (!room) {
+      room = new DocumentRoom(access.resource);
+      this.rooms.set(resourceId, room);
+    }
+    await room.ready;
+
+    ws.off('message', hold);
+    if (ws.readyState !== WebSocket.OPEN || room.destroyed) {
+      ws.close(CLOSE_REPLACED, 'The document was replaced');
+      return;
+    }
+
+    room.join(ws, access.user, access.readOnly);
+    ws.on('close', () => this.release(room));
+    early.forEach(data => ws.emit('message', data));
+  }
+
+  // The user and the document of a connection, or the close code to refuse it with
+  async authorize(req, resourceId) {
+    const params = new URL(req.url, 'http://localhost').searchParams;
+    const refuse = (code, reason) => ({ error: { code, reason } });
+
+    const decoded = User.verifyToken(params.get('token') || '');
+    if (!decoded || !(await resolveSession(decoded, req))) {
+      return refuse(CLOSE_UNAUTHORIZED, 'Invalid or expired token');
+    }
+    const user = await User.findById(decoded.id);
+    if (!user) {
+      return refuse(CLOSE_UNAUTHORIZED, 'User not found');
+    }
+
+    const workspaceId = params.get('workspace_id');
+    const { role, permissions } = await WorkspaceRole.permissionsForUser(user.id, workspaceId);
+    if (!role || role === 'client_guest' || !permissions.includes('tasks:view')) {
+      return refuse(CLOSE_FORBIDDEN, 'Access denied to this workspace');
+    }
+
+    const resource = await TaskResource.findById(resourceId);
+    const task = resource && await getDatabase().get(`
+      SELECT COALESCE(kt.workspace_id, w.workspace_id) as workspace_id
+      FROM kanban_tasks kt
+      LEFT JOIN workflows w ON kt.workflow_id = w.id
+      WHERE kt.id = ?
+    `, [resource.taskId]);
+    if (!resource || resource.type !== 'document' || !task || task.workspace_id !== workspaceId) {
+      return refuse(CLOSE_NOT_FOUND, 'Document not found');
+    }
+
+    if (Number(params.get('generation')) !== resource.collabGeneration) {
+      return refuse(CLOSE_REPLACED, 'The document was replaced');
+    }
+
+    return { user, resource, readOnly: !permissions.includes('tasks:update') };
+  }
+
+  // Store the document once its last editor left, and close the room unless someone came back
+  async release(room) {
+    if (room.connections.size > 0 || room.destroyed) return;
+
+    await room.persist({ revision: true });
+    if (room.connections.size === 0 && this.rooms.get(room.resource.id) === room) {
+      this.rooms.delete(room.resource.id);
+      room.destroy();
+    }
+  }
+
+  /**
+   * Close a document's room without storing it, after its content was replaced or it was deleted
+   */
+  closeDocument(resourceId, { deleted = false } = {}) {
+    const room = this.rooms.get(resourceId);
+    if (!room) return;
+
+    this.rooms.delete(resourceId);
+    room.destroy();
+    room.connections.forEach((_, ws) => {
+      if (deleted) ws.close(CLOSE_NOT_FOUND, 'The document was deleted');
+      else ws.close(CLOSE_REPLACED, 'The document was replaced');
+    });
+  }
+
+  /**
+   * Store every open document, for shutdown
+   */
+  async flushAll() {
+    await Promise.all(Array.from(this.rooms.values()).map(room => room.persist({ revision: true })));
+  }
+}
+
+module.exports = new CollaborationService();
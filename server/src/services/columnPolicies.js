@@ -0,0 +1,179 @@
+/**
+ * WIP limits and entry/exit policies of Kanban columns.
+ *
+ * A column may limit how many of a workspace's tasks it holds (`wip_limit`) and how many of them
+ * one assignee may have (`assignee_wip_limit`). Its policies list what a task needs to enter the
+ * column and to leave it, e.g. an assignee or an estimate to leave the backlog, or a resource to
+ * enter done. Columns are shared by every workspace; limits count the tasks of the moved task's
+ * workspace.
+ */
+
+const { getDatabase } = require('../config/database');
+const TaskResource = require('../models/TaskResource');
+
+// What a policy can require of a task, with the wording of a violation
+const POLICY_RULES = {
+  assignee: 'an assignee',
+  estimate: 'an estimate',
+  due_date: 'a due date',
+  description: 'a description',
+  resource: 'a resource'
+};
+
+const emptyPolicies = () => ({ entry: [], exit: [] });
+
+// Stored policies, ignoring rules that are no longer known
+function parsePolicies(value) {
+  let stored;
+  try {
+    stored = JSON.parse(value || '{}');
+  } catch {
+    return emptyPolicies();
+  }
+  const rules = (list) => (Array.isArray(list) ? list.filter(rule => POLICY_RULES[rule]) : []);
+  return { entry: rules(stored.entry), exit: rules(stored.exit) };
+}
+
+// Policies from a request; throws on unknown rules
+function normalizePolicies(input) {
+  if (input === null || input === undefined) return emptyPolicies();
+  if (typeof input !== 'object') throw new Error('policies must be an object');
+
+  const policies = emptyPolicies();
+  for (const key of ['entry', 'exit']) {
+    const list = input[key] || [];
+    if (!Array.isArray(list)) throw new Error(`policies.${key} must be a list`);
+    const unknown = list.filter(rule => !POLICY_RULES[rule]);
+    if (unknown.length > 0) {
+      throw new Error(`Unknown column rules: ${unknown.join(', ')}. Use ${Object.keys(POLICY_RULES).join(', ')}`);
+    }
+    policies[key] = [...new Set(list)];
+  }
+  return policies;
+}
+
+// Positive whole number, or null for no limit; throws on anything else
+function normalizeLimit(value, name) {
+  if (value === null || value === undefined || value === '') return null;
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1) throw new Error(`${name} must be a whole number of at least 1`);
+  return limit;
+}
+
+// A kanban_columns row as the API returns it
+const columnFromRow = (row) => ({
+  id: row.id,
+  title: row.title,
+  color: row.color,
+  order_index: row.order_index,
+  order: row.order_index,
+  wipLimit: row.wip_limit ?? null,
+  assigneeWipLimit: row.assignee_wip_limit ?? null,
+  policies: parsePolicies(row.policies)
+});
+
+// The policy's requirements the task does not meet
+async function missingRequirements(task, rules, assignedMembers) {
+  const missing = [];
+  for (const rule of rules) {
+    let met;
+    switch (rule) {
+      case 'assignee':
+        met = assignedMembers.length > 0;
+        break;
+      case 'estimate':
+        met = Number(task.estimatedHours) > 0;
+        break;
+      case 'due_date':
+        met = Boolean(task.dueDate);
+        break;
+      case 'description':
+        met = Boolean(task.description && task.description.trim());
+        break;
+      case 'resource':
+        met = (await TaskResource.findByTaskId(task.id)).length > 0;
+        break;
+      default:
+        met = true;
+    }
+    if (!met) missing.push(rule);
+  }
+  return missing;
+}
+
+/**
+ * The rules moving `task` of the workspace to the `status` column would break: exit policies of
+ * its column, entry policies and WIP limits of the new one, counted over the workspace's tasks.
+ * Each violation has a `rule` ('exit_policy', 'entry_policy', 'wip_limit' or
+ * 'assignee_wip_limit') and a `message`.
+ */
+async function checkMove(task, status, workspaceId) {
+  if (task.status === status) return [];
+
+  const db = getDatabase();
+  const [fromRow, toRow] = await Promise.all([
+    db.get('SELECT * FROM kanban_columns WHERE id = ?', [task.status]),
+    db.get('SELECT * FROM kanban_columns WHERE id = ?', [status])
+  ]);
+  if (!toRow) return [];
+
+  const from = fromRow ? columnFromRow(fromRow) : null;
+  const to = columnFromRow(toRow);
+  const assignedMembers = await task.getAssignedMembers();
+  const violations = [];
+
+  if (from && from.policies.exit.length > 0) {
+    const missing = await missingRequirements(task, from.policies.exit, assignedMembers);
+    for (const rule of missing) {
+      violations.push({ rule: 'exit_policy', column: from.id, message: `Tasks need ${POLICY_RULES[rule]} to leave ${from.title}` });
+    }
+  }
+
+  if (to.policies.entry.length > 0) {
+    const missing = await missingRequirements(task, to.policies.entry, assignedMembers);
+    for (const rule of missing) {
+      violations.push({ rule: 'entry_policy', column: to.id, message: `Tasks need ${POLICY_RULES[rule]} to enter ${to.title}` });
+    }
+  }
+
+  if (to.wipLimit !== null) {
+    const { count } = await db.get(`
+      SELECT COUNT(*) as count FROM kanban_tasks kt
+      LEFT JOIN workflows w ON kt.workflow_id = w.id
+      WHERE kt.status = ? AND COALESCE(kt.workspace_id, w.workspace_id) = ? AND kt.id != ?
+    `, [to.id, workspaceId, task.id]);
+    if (count >= to.wipLimit) {
+      violations.push({ rule: 'wip_limit', column: to.id, message: `${to.title} already holds ${count} tasks (WIP limit ${to.wipLimit})` });
+    }
+  }
+
+  if (to.assigneeWipLimit !== null) {
+    for (const member of assignedMembers) {
+      const { count } = await db.get(`
+        SELECT COUNT(*) as count FROM kanban_tasks kt
+        JOIN task_assignments ta ON ta.task_id = kt.id
+        LEFT JOIN workflows w ON kt.workflow_id = w.id
+        WHERE kt.status = ? AND COALESCE(kt.workspace_id, w.workspace_id) = ? AND kt.id != ? AND ta.member_id = ?
+      `, [to.id, workspaceId, task.id, member.id]);
+      if (count >= to.assigneeWipLimit) {
+        violations.push({
+          rule: 'assignee_wip_limit',
+          column: to.id,
+          memberId: member.id,
+          message: `${member.name} already has ${count} tasks in ${to.title} (limit ${to.assigneeWipLimit} per person)`
+        });
+      }
+    }
+  }
+
+  return violations;
+}
+
+module.exports = {
+  POLICY_RULES,
+  parsePolicies,
+  normalizePolicies,
+  normalizeLimit,
+  columnFromRow,
+  checkMove
+};
@@ -241,6 +241,87 @@ class EmailService {
     return this.sendEmail(to, subject, html);
   }
 
+  /**
+   * Send budget threshold alert email
+   */
+  async sendBudgetAlertEmail(email, userName, alert) {
+    const emailHtml = this.generateBudgetAlertTemplate(userName, alert);
+    const emailText = this.generateBudgetAlertText(userName, alert);
+
+    return await this.sendEmail({
+      to: email,
+      subject: `Budget alert: ${alert.entityName} reached ${alert.threshold}% of its ${alert.metric === 'hours' ? 'hour' : 'money'} budget`,
+      html: emailHtml,
+      text: emailText
+    });
+  }
+
+  /**
+   * Send a single notification (task assignment, mention, meeting invitation, due date reminder)
+   */
+  async sendNotificationEmail(email, userName, notification) {
+    return await this.sendEmail({
+      to: email,
+      subject: notification.title,
+      html: this.generateNotificationTemplate(userName, [notification]),
+      text: this.generateNotificationText(userName, [notification])
+    });
+  }
+
+  /**
+   * Send the daily summary of notifications a user chose to receive as a digest
+   */
+  async sendNotificationDigestEmail(email, userName, notifications) {
+    return await this.sendEmail({
+      to: email,
+      subject: `Your daily summary: ${notifications.length} notification${notifications.length === 1 ? '' : 's'}`,
+      html: this.generateNotificationTemplate(userName, notifications, true),
+      text: this.generateNotificationText(userName, notifications, true)
+    });
+  }
+
+  /**
+   * Invite a client contact to the client portal; they sign in with a magic link
+   */
+  async sendClientPortalInviteEmail(email, contactName, { clientName, workspaceName, inviterName }) {
+    const message = {
+      title: 'Client Portal',
+      heading: `${inviterName || 'Your project team'} invited you to follow your projects`,
+      body: `You now have access to the ${workspaceName} client portal for ${clientName}. Follow the progress of your projects, see shared files and upcoming meetings, and approve deliverables.`,
+      note: 'Sign in with this email address and we will send you a magic link - no password needed.',
+      buttonLabel: 'Open Client Portal',
+      link: `/login?mode=magic-link&email=${encodeURIComponent(email)}`
+    };
+
+    return await this.sendEmail({
+      to: email,
+      subject: `${inviterName || workspaceName} invited you to the client portal`,
+      html: this.generateClientPortalTemplate(contactName, message),
+      text: this.generateClientPortalText(contactName, message)
+    });
+  }
+
+  /**
+   * Ask a client contact to approve a deliverable in the client portal
+   */
+  async sendClientApprovalRequestEmail(email, contactName, { taskTitle, requesterName }) {
+    const message = {
+      title: 'Approval Requested',
+      heading: `Please review "${taskTitle}"`,
+      body: `${requesterName || 'Your project team'} asked you to approve this deliverable. You can approve it or request changes in the client portal.`,
+      note: null,
+      buttonLabel: 'Review Deliverable',
+      link: `/login?mode=magic-link&email=${encodeURIComponent(email)}`
+    };
+
+    return await this.sendEmail({
+      to: email,
+      subject: `Approval requested: ${taskTitle}`,
+      html: this.generateClientPortalTemplate(contactName, message),
+      text: this.generateClientPortalText(contactName, message)
+    });
+  }
+
   /**
    * Security alert email template
    */
@@ -319,6 +400,268 @@ class EmailService {
     `;
   }
 
+  /**
+   * Format the used/limit figures of a budget alert
+   */
+  formatBudgetFigures(alert) {
+    const format = (value) => alert.metric === 'hours'
+      ? `${value}h`
+      : `${Number(value).toFixed(2)} ${alert.currency}`;
+    return { used: format(alert.used), limit: format(alert.limit) };
+  }
+
+  /**
+   * Budget alert email template
+   */
+  generateBudgetAlertTemplate(userName, alert) {
+    const { used, limit } = this.formatBudgetFigures(alert);
+    const overBudget = alert.threshold >= 100;
+
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1">
+          <title>Budget Alert</title>
+          <style>
+              ${this.getEmailStyles()}
+          </style>
+      </head>
+      <body>
+          <div class="email-container">
+              <div class="header">
+                  <div class="logo">
+                      <div class="logo-icon">📊</div>
+                      <div>
+                          <h1>Budget Alert</h1>
+                          <p>Benders Workflow</p>
+                      </div>
+                  </div>
+              </div>
+
+              <div class="content">
+                  <div class="greeting">
+                      <h2>Hello ${userName || 'there'},</h2>
+                  </div>
+
+                  <div class="alert-box" style="background: ${overBudget ? '#fef2f2' : '#fffbeb'}; border: 1px solid ${overBudget ? '#fecaca' : '#fde68a'}; color: ${overBudget ? '#991b1b' : '#92400e'}; padding: 16px; border-radius: 8px; margin: 20px 0;">
+                      <strong>${alert.entityName}</strong> has used ${alert.threshold}% of its ${alert.metric === 'hours' ? 'hour' : 'money'} budget.
+                  </div>
+
+                  <div style="background: #f9fafb; border: 1px solid #e5e7eb; border-radius: 8px; padding: 16px; margin: 20px 0;">
+                      <p style="margin: 0; color: #6b7280; font-size: 14px;"><strong>${alert.entityType === 'client' ? 'Client retainer' : 'Workflow'}:</strong> ${alert.entityName}</p>
+                      <p style="margin: 8px 0 0 0; color: #6b7280; font-size: 14px;"><strong>Used:</strong> ${used}</p>
+                      <p style="margin: 8px 0 0 0; color: #6b7280; font-size: 14px;"><strong>Budget:</strong> ${limit}</p>
+                  </div>
+
+                  <div class="button-container">
+                      <a href="${process.env.FRONTEND_URL || 'http://localhost:5173'}/app/dashboard" class="security-button">View Dashboard</a>
+                  </div>
+              </div>
+
+              <div class="footer">
+                  <p>You are receiving this because you are an admin of this workspace.</p>
+                  <p style="margin-top: 20px; font-size: 12px; color: #9ca3af;">
+                      © 2024 Benders Workflow. All rights reserved.
+                  </p>
+              </div>
+          </div>
+      </body>
+      </html>
+    `;
+  }
+
+  /**
+   * Budget alert plain text version
+   */
+  generateBudgetAlertText(userName, alert) {
+    const { used, limit } = this.formatBudgetFigures(alert);
+
+    return `
+Budget Alert - Benders Workflow
+
+Hello ${userName || 'there'},
+
+${alert.entityName} has used ${alert.threshold}% of its ${alert.metric === 'hours' ? 'hour' : 'money'} budget.
+
+Used: ${used}
+Budget: ${limit}
+
+View the dashboard: ${process.env.FRONTEND_URL || 'http://localhost:5173'}/app/dashboard
+
+You are receiving this because you are an admin of this workspace.
+    `.trim();
+  }
+
+  /**
+   * Escape user-provided text (task and meeting titles) for HTML emails
+   */
+  escapeHtml(value) {
+    return String(value ?? '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  /**
+   * Notification email template – one notification, or a list for the digest
+   */
+  generateNotificationTemplate(userName, notifications, isDigest = false) {
+    const appUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+    const items = notifications.map(notification => `
+                  <div style="background: #f9fafb; border: 1px solid #e5e7eb; border-radius: 8px; padding: 16px; margin: 12px 0;">
+                      <p style="margin: 0; color: #111827; font-size: 15px;"><strong>${this.escapeHtml(notification.title)}</strong></p>
+                      ${notification.body ? `<p style="margin: 8px 0 0 0; color: #6b7280; font-size: 14px;">${this.escapeHtml(notification.body)}</p>` : ''}
+                      ${notification.link ? `<p style="margin: 8px 0 0 0; font-size: 14px;"><a href="${appUrl}${notification.link}" style="color: #2563eb;">Open in Benders Workflow</a></p>` : ''}
+                  </div>`).join('');
+
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1">
+          <title>${isDigest ? 'Daily Summary' : 'Notification'}</title>
+          <style>
+              ${this.getEmailStyles()}
+          </style>
+      </head>
+      <body>
+          <div class="email-container">
+              <div class="header">
+                  <div class="logo">
+                      <div class="logo-icon">🔔</div>
+                      <div>
+                          <h1>${isDigest ? 'Daily Summary' : 'Notification'}</h1>
+                          <p>Benders Workflow</p>
+                      </div>
+                  </div>
+              </div>
+
+              <div class="content">
+                  <div class="greeting">
+                      <h2>Hello ${this.escapeHtml(userName || 'there')},</h2>
+                  </div>
+
+                  ${isDigest ? `<p style="color: #374151; line-height: 1.6; margin: 16px 0;">Here is what happened since your last summary:</p>` : ''}
+                  ${items}
+              </div>
+
+              <div class="footer">
+                  <p>You can choose which notifications are emailed in the notification settings of the app.</p>
+                  <p style="margin-top: 20px; font-size: 12px; color: #9ca3af;">
+                      © 2024 Benders Workflow. All rights reserved.
+                  </p>
+              </div>
+          </div>
+      </body>
+      </html>
+    `;
+  }
+
+  /**
+   * Notification plain text version
+   */
+  generateNotificationText(userName, notifications, isDigest = false) {
+    const appUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+    const items = notifications.map(notification => [
+      `- ${notification.title}`,
+      notification.body ? `  ${notification.body}` : null,
+      notification.link ? `  ${appUrl}${notification.link}` : null
+    ].filter(Boolean).join('\n')).join('\n\n');
+
+    return `
+${isDigest ? 'Daily Summary' : 'Notification'} - Benders Workflow
+
+Hello ${userName || 'there'},
+
+${isDigest ? 'Here is what happened since your last summary:\n\n' : ''}${items}
+
+You can choose which notifications are emailed in the notification settings of the app.
+    `.trim();
+  }
+
+  /**
+   * Client portal email template (invitations and approval requests)
+   */
+  generateClientPortalTemplate(contactName, message) {
+    const appUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1">
+          <title>${message.title}</title>
+          <style>
+              ${this.getEmailStyles()}
+          </style>
+      </head>
+      <body>
+          <div class="email-container">
+              <div class="header">
+                  <div class="logo">
+                      <div class="logo-icon">🤝</div>
+                      <div>
+                          <h1>${message.title}</h1>
+                          <p>Benders Workflow</p>
+                      </div>
+                  </div>
+              </div>
+
+              <div class="content">
+                  <div class="greeting">
+                      <h2>Hello ${this.escapeHtml(contactName || 'there')},</h2>
+                  </div>
+
+                  <div style="background: #f9fafb; border: 1px solid #e5e7eb; border-radius: 8px; padding: 16px; margin: 20px 0;">
+                      <p style="margin: 0; color: #111827; font-size: 15px;"><strong>${this.escapeHtml(message.heading)}</strong></p>
+                      <p style="margin: 8px 0 0 0; color: #6b7280; font-size: 14px;">${this.escapeHtml(message.body)}</p>
+                  </div>
+
+                  <div class="button-container">
+                      <a href="${appUrl}${message.link}" class="security-button">${message.buttonLabel}</a>
+                  </div>
+
+                  ${message.note ? `<p style="color: #6b7280; font-size: 14px; line-height: 1.6;">${this.escapeHtml(message.note)}</p>` : ''}
+              </div>
+
+              <div class="footer">
+                  <p>You are receiving this because you are a client contact of this project team.</p>
+                  <p style="margin-top: 20px; font-size: 12px; color: #9ca3af;">
+                      © 2024 Benders Workflow. All rights reserved.
+                  </p>
+              </div>
+          </div>
+      </body>
+      </html>
+    `;
+  }
+
+  /**
+   * Client portal plain text version
+   */
+  generateClientPortalText(contactName, message) {
+    const appUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+    return `
+${message.title} - Benders Workflow
+
+Hello ${contactName || 'there'},
+
+${message.heading}
+
+${message.body}
+
+${message.buttonLabel}: ${appUrl}${message.link}
+${message.note ? `\n${message.note}\n` : ''}
+You are receiving this because you are a client contact of this project team.
+    `.trim();
+  }
+
   /**
    * Send magic link email template matching your exact login page UI
    */
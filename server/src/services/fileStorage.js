@@ -0,0 +1,131 @@
+const fs = require('fs');
+const path = require('path');
+const { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } = require('@aws-sdk/client-s3');
+
+/**
+ * Storage of uploaded files
+ * Objects are addressed by a key such as `<workspaceId>/<resourceId>/original`. The backend is
+ * picked by STORAGE_DRIVER: `local` (default) keeps them under UPLOADS_DIR, `s3` in an
+ * S3-compatible bucket (AWS S3, or MinIO with S3_ENDPOINT=http://localhost:9000).
+ */
+
+// Keys are generated by the server, but never let one escape its directory
+const assertSafeKey = (key) => {
+  if (!key || key.split('/').some(part => part === '' || part === '.' || part === '..')) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+};
+
+class LocalDiskStorage {
+  constructor(rootDir) {
+    this.name = 'local';
+    this.rootDir = rootDir;
+  }
+
+  pathOf(key) {
+    assertSafeKey(key);
+    return path.join(this.rootDir, ...key.split('/'));
+  }
+
+  async put(key, buffer) {
+    const filePath = this.pathOf(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, buffer);
+  }
+
+  // Readable stream of the object, or null when it does not exist
+  async get(key) {
+    const filePath = this.pathOf(key);
+    try {
+      await fs.promises.access(filePath);
+    } catch {
+      return null;
+    }
+    return fs.createReadStream(filePath);
+  }
+
+  async remove(key) {
+    await fs.promises.rm(this.pathOf(key), { force: true });
+  }
+}
+
+class S3Storage {
+  constructor({ bucket, endpoint, region, accessKeyId, secretAccessKey }) {
+    this.name = 's3';
+    this.bucket = bucket;
+    this.client = new S3Client({
+      region,
+      endpoint,
+      // MinIO and most self-hosted S3 servers only support path-style bucket addressing
+      forcePathStyle: Boolean(endpoint),
+      credentials: accessKeyId ? { accessKeyId, secretAccessKey } : undefined
+    });
+  }
+
+  async put(key, buffer, contentType) {
+    assertSafeKey(key);
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: buffer,
+      ContentType: contentType
+    }));
+  }
+
+  async get(key) {
+    assertSafeKey(key);
+    try {
+      const result = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      return result.Body;
+    } catch (error) {
+      if (error.name === 'NoSuchKey' || error.$metadata?.httpStatusCode === 404) return null;
+      throw error;
+    }
+  }
+
+  async remove(key) {
+    assertSafeKey(key);
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
+
+const createStorage = () => {
+  const driver = process.env.STORAGE_DRIVER || 'local';
+
+  if (driver === 's3') {
+    if (!process.env.S3_BUCKET) {
+      throw new Error('S3_BUCKET environment variable is required when STORAGE_DRIVER=s3');
+    }
+    return new S3Storage({
+      bucket: process.env.S3_BUCKET,
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      region: process.env.S3_REGION || 'us-east-1',
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY
+    });
+  }
+  if (driver !== 'local') {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}". Use local or s3`);
+  }
+
+  // Relative directories are resolved from the server root, like DB_PATH
+  const serverRoot = path.resolve(__dirname, '../..');
+  return new LocalDiskStorage(path.resolve(serverRoot, process.env.UPLOADS_DIR || 'data/uploads'));
+};
+
+let storage = null;
+
+// The configured storage backend, created on first use
+const getStorage = () => {
+  if (!storage) {
+    storage = createStorage();
+    console.log(`📦 File storage: ${storage.name}`);
+  }
+  return storage;
+};
+
+module.exports = {
+  getStorage,
+  LocalDiskStorage,
+  S3Storage
+};
@@ -0,0 +1,247 @@
+/**
+ * Uploaded task resource files: type detection, size limits, workspace quotas, image thumbnails
+ * and signed download links.
+ *
+ * The type of a file is read from its first bytes, never from the name or the browser's claim,
+ * and decides whether it is stored as an `image` (with a thumbnail) or a `file`. Programs are
+ * refused. Every workspace may store up to WORKSPACE_STORAGE_QUOTA_MB of files, each at most
+ * UPLOAD_MAX_FILE_MB. Downloads go through /api/files/<token>, where the token is a short-lived
+ * signature of the resource, so links work in <img> tags and new tabs without the auth header.
+ */
+
+const path = require('path');
+const jwt = require('jsonwebtoken');
+const sharp = require('sharp');
+const { getDatabase } = require('../config/database');
+const { getStorage } = require('./fileStorage');
+
+const MB = 1024 * 1024;
+
+const maxFileSize = () => Number(process.env.UPLOAD_MAX_FILE_MB || 25) * MB;
+const workspaceQuota = () => Number(process.env.WORKSPACE_STORAGE_QUOTA_MB || 1024) * MB;
+
+// How long a download link works
+const LINK_TTL = '1h';
+
+const THUMBNAIL_SIZE = 320;
+
+// Leading bytes of the types we recognize; `offset` skips container headers
+const SIGNATURES = [
+  { mimeType: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  { mimeType: 'image/webp', bytes: [0x57, 0x45, 0x42, 0x50], offset: 8 },
+  { mimeType: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  { mimeType: 'application/zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { mimeType: 'application/x-ole-storage', bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1] },
+  { mimeType: 'application/gzip', bytes: [0x1f, 0x8b] },
+  { mimeType: 'application/x-7z-compressed', bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+  { mimeType: 'audio/mpeg', bytes: [0x49, 0x44, 0x33] },
+  { mimeType: 'video/mp4', bytes: [0x66, 0x74, 0x79, 0x70], offset: 4 },
+  { mimeType: 'application/x-msdownload', bytes: [0x4d, 0x5a] },
+  { mimeType: 'application/x-executable', bytes: [0x7f, 0x45, 0x4c, 0x46] },
+  { mimeType: 'application/x-mach-binary', bytes: [0xcf, 0xfa, 0xed, 0xfe] }
+];
+
+// Office documents are zip (or, before 2007, OLE) containers told apart by their extension
+const CONTAINER_TYPES = {
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  '.odt': 'application/vnd.oasis.opendocument.text',
+  '.ods': 'application/vnd.oasis.opendocument.spreadsheet',
+  '.doc': 'application/msword',
+  '.xls': 'application/vnd.ms-excel',
+  '.ppt': 'application/vnd.ms-powerpoint'
+};
+
+const TEXT_TYPES = {
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+  '.md': 'text/markdown'
+};
+
+const BLOCKED_TYPES = ['application/x-msdownload', 'application/x-executable', 'application/x-mach-binary'];
+
+// Types a browser may show inline; anything else is downloaded as an attachment
+const INLINE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'application/pdf'];
+
+const THUMBNAIL_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+class UploadError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.name = 'UploadError';
+    this.status = status;
+  }
+}
+
+const matches = (buffer, { bytes, offset = 0 }) =>
+  buffer.length >= offset + bytes.length && bytes.every((byte, i) => buffer[offset + i] === byte);
+
+// Text when the sample decodes as UTF-8 without control characters other than whitespace
+const looksLikeText = (buffer) => {
+  const sample = buffer.subarray(0, 8192);
+  if (sample.includes(0)) return false;
+  const text = sample.toString('utf8');
+  // A multi-byte character cut at the end of the sample decodes to one replacement character
+  const replacements = (text.match(/\uFFFD/g) || []).length;
+  return replacements <= 1 && !/[\x00-\x08\x0e-\x1f\x7f]/.test(text);
+};
+
+/**
+ * The MIME type of a file from its content; the extension only tells apart formats that share a
+ * container (Office documents in zip) or plain text flavours
+ */
+function sniffMimeType(buffer, fileName = '') {
+  const extension = path.extname(fileName).toLowerCase();
+  const signature = SIGNATURES.find(candidate => matches(buffer, candidate));
+
+  if (signature) {
+    if (signature.mimeType === 'image/webp' && !matches(buffer, { bytes: [0x52, 0x49, 0x46, 0x46] })) {
+      return 'application/octet-stream';
+    }
+    if ((signature.mimeType === 'application/zip' || signature.mimeType === 'application/x-ole-storage') && CONTAINER_TYPES[extension]) {
+      return CONTAINER_TYPES[extension];
+    }
+    return signature.mimeType === 'application/x-ole-storage' ? 'application/octet-stream' : signature.mimeType;
+  }
+  if (buffer.length > 0 && looksLikeText(buffer)) {
+    // Markup is kept as plain text so it can never run as a page of the app
+    return TEXT_TYPES[extension] || 'text/plain';
+  }
+  return 'application/octet-stream';
+}
+
+// Bytes of uploaded files (with their thumbnails) stored for a workspace
+async function workspaceUsage(workspaceId) {
+  const row = await getDatabase().get(`
+    SELECT COALESCE(SUM(COALESCE(tr.file_size, 0) + COALESCE(tr.thumbnail_size, 0)), 0) as used
+    FROM task_resources tr
+    JOIN kanban_tasks kt ON tr.task_id = kt.id
+    LEFT JOIN workflows w ON kt.workflow_id = w.id
+    WHERE COALESCE(kt.workspace_id, w.workspace_id) = ? AND tr.storage_key IS NOT NULL
+  `, [workspaceId]);
+  return row.used;
+}
+
+async function storageSummary(workspaceId) {
+  return {
+    used: await workspaceUsage(workspaceId),
+    quota: workspaceQuota(),
+    maxFileSize: maxFileSize()
+  };
+}
+
+async function makeThumbnail(buffer) {
+  return sharp(buffer)
+    .rotate() // follow EXIF orientation
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toBuffer();
+}
+
+/**
+ * Check an uploaded file and store it (and its thumbnail) for `resource`.
+ * Sets the resource's type, file fields and storage keys; the caller saves it.
+ * @throws {UploadError} 413 over the size limit or quota, 415 for programs
+ */
+async function storeUpload(resource, workspaceId, file) {
+  if (file.size > maxFileSize()) {
+    throw new UploadError(413, `Files can be at most ${maxFileSize() / MB} MB`);
+  }
+
+  const mimeType = sniffMimeType(file.buffer, file.originalname);
+  if (BLOCKED_TYPES.includes(mimeType)) {
+    throw new UploadError(415, 'Programs cannot be uploaded');
+  }
+
+  let thumbnail = null;
+  if (THUMBNAIL_TYPES.includes(mimeType)) {
+    try {
+      thumbnail = await makeThumbnail(file.buffer);
+    } catch (error) {
+      // Still keep an image that cannot be decoded, as a plain file
+      console.error('Error creating thumbnail:', error.message);
+    }
+  }
+
+  const used = await workspaceUsage(workspaceId);
+  const size = file.size + (thumbnail ? thumbnail.length : 0);
+  if (used + size > workspaceQuota()) {
+    const free = Math.max(0, workspaceQuota() - used);
+    throw new UploadError(413, `Not enough storage left in this workspace (${(free / MB).toFixed(1)} MB free)`);
+  }
+
+  const storage = getStorage();
+  const storageKey = `${workspaceId}/${resource.id}/original`;
+  await storage.put(storageKey, file.buffer, mimeType);
+  if (thumbnail) {
+    await storage.put(`${workspaceId}/${resource.id}/thumbnail`, thumbnail, 'image/webp');
+  }
+
+  resource.type = thumbnail ? 'image' : 'file';
+  resource.fileName = path.basename(file.originalname || 'file');
+  resource.fileSize = file.size;
+  resource.mimeType = mimeType;
+  resource.url = null;
+  resource.storageKey = storageKey;
+  resource.thumbnailKey = thumbnail ? `${workspaceId}/${resource.id}/thumbnail` : null;
+  resource.thumbnailSize = thumbnail ? thumbnail.length : null;
+  return resource;
+}
+
+// Remove the stored objects of a resource; failures are logged, the resource is gone anyway
+async function removeStoredFiles(resource) {
+  const storage = getStorage();
+  for (const key of [resource.storageKey, resource.thumbnailKey].filter(Boolean)) {
+    try {
+      await storage.remove(key);
+    } catch (error) {
+      console.error(`Error removing stored file ${key}:`, error.message);
+    }
+  }
+}
+
+const secret = () => process.env.JWT_SECRET || 'dev-secret-key';
+
+// Whether a resource is an upload stored for the workspace; storage keys start with the workspace id
+function storedIn(resource, workspaceId) {
+  return Boolean(resource.storageKey && workspaceId && resource.storageKey.startsWith(`${workspaceId}/`));
+}
+
+// Signed download (and thumbnail) paths of an upload of the workspace, under /api; links only open it there
+function fileLinks(resource, workspaceId) {
+  if (!storedIn(resource, workspaceId)) return {};
+
+  const sign = (variant) => jwt.sign({ type: 'file-download', resourceId: resource.id, workspaceId, variant }, secret(), { expiresIn: LINK_TTL });
+  return {
+    downloadUrl: `/api/files/${sign('original')}`,
+    thumbnailUrl: resource.thumbnailKey ? `/api/files/${sign('thumbnail')}` : null
+  };
+}
+
+// The resource id, workspace and variant of a download token, or null when it is invalid or expired
+function verifyFileToken(token) {
+  try {
+    const payload = jwt.verify(token, secret());
+    return payload.type === 'file-download'
+      ? { resourceId: payload.resourceId, workspaceId: payload.workspaceId, variant: payload.variant }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+module.exports = {
+  UploadError,
+  INLINE_TYPES,
+  maxFileSize,
+  sniffMimeType,
+  storageSummary,
+  storeUpload,
+  removeStoredFiles,
+  storedIn,
+  fileLinks,
+  verifyFileToken
+};
@@ -0,0 +1,381 @@
+/**
+ * iCalendar (RFC 5545) reading and writing for the calendar subscription feed and ICS import.
+ *
+ * Parsed events carry UTC dates. Times with a TZID are converted with the IANA time zone of
+ * that name, or with the file's VTIMEZONE definition when the name is not an IANA zone (as
+ * Outlook's "W. Europe Standard Time"). Floating times use the importer's time zone.
+ */
+
+const PRODID = '-//Benders Workflow//Calendar//EN';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// ===============================
+// WRITING
+// ===============================
+
+const escapeText = (value) => String(value)
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r?\n/g, '\\n');
+
+const formatDateTime = (date) => new Date(date).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const formatDate = (date) => new Date(date).toISOString().slice(0, 10).replace(/-/g, '');
+
+// Content lines are folded at 75 octets, continuation lines starting with a space
+function foldLine(line) {
+  const chunks = [];
+  let chunk = '';
+  let chunkBytes = 0;
+
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char);
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (chunkBytes + charBytes > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      chunkBytes = 0;
+    }
+    chunk += char;
+    chunkBytes += charBytes;
+  }
+  chunks.push(chunk);
+
+  return chunks.join('\r\n ');
+}
+
+/**
+ * Write a VCALENDAR. Events are `{ uid, start, end, allDay, summary, description, location,
+ * status, rrule, exdates, recurrenceId, categories }`; all-day events use their
+ * UTC dates and an exclusive end.
+ */
+function serialize({ name, events }) {
+  const now = formatDateTime(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH'
+  ];
+  if (name) lines.push(`X-WR-CALNAME:${escapeText(name)}`);
+
+  for (const event of events) {
+    lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${now}`);
+
+    if (event.allDay) {
+      const end = event.end && formatDate(event.end) > formatDate(event.start)
+        ? event.end
+        : new Date(new Date(event.start).getTime() + DAY_MS);
+      lines.push(`DTSTART;VALUE=DATE:${formatDate(event.start)}`, `DTEND;VALUE=DATE:${formatDate(end)}`);
+    } else {
+      lines.push(`DTSTART:${formatDateTime(event.start)}`, `DTEND:${formatDateTime(event.end || event.start)}`);
+    }
+
+    if (event.recurrenceId) {
+      lines.push(event.allDay
+        ? `RECURRENCE-ID;VALUE=DATE:${formatDate(event.recurrenceId)}`
+        : `RECURRENCE-ID:${formatDateTime(event.recurrenceId)}`);
+    }
+    if (event.rrule) lines.push(`RRULE:${event.rrule}`);
+    for (const exdate of event.exdates || []) {
+      lines.push(event.allDay ? `EXDATE;VALUE=DATE:${formatDate(exdate)}` : `EXDATE:${formatDateTime(exdate)}`);
+    }
+
+    lines.push(`SUMMARY:${escapeText(event.summary || '')}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.status) lines.push(`STATUS:${event.status}`);
+    if (event.categories && event.categories.length > 0) {
+      lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// ===============================
+// READING
+// ===============================
+
+const unescapeText = (value) => value.replace(/\\([\\;,nN])/g, (match, char) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// "DTSTART;TZID=Europe/Berlin:20261019T090000" -> { name, params: { TZID }, value }
+function parseContentLine(line) {
+  let inQuotes = false;
+  let valueStart = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      valueStart = i;
+      break;
+    }
+  }
+  if (valueStart === -1) return null;
+
+  const [name, ...paramParts] = line.slice(0, valueStart).split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const params = {};
+  for (const part of paramParts) {
+    const [key, ...rest] = part.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(valueStart + 1) };
+}
+
+// Nested components of the file: { name, props: { NAME: [{ params, value }] }, components: [] }
+function parseComponents(text) {
+  const lines = text.replace(/\r\n/g, '\n').replace(/\r/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const root = { name: 'ROOT', props: {}, components: [] };
+  const stack = [root];
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    const property = parseContentLine(line);
+    if (!property) continue;
+
+    const current = stack[stack.length - 1];
+    if (property.name === 'BEGIN') {
+      const component = { name: property.value.toUpperCase(), props: {}, components: [] };
+      current.components.push(component);
+      stack.push(component);
+    } else if (property.name === 'END') {
+      if (stack.length > 1) stack.pop();
+    } else {
+      (current.props[property.name] = current.props[property.name] || []).push(property);
+    }
+  }
+
+  return root;
+}
+
+const firstProp = (component, name) => (component.props[name] || [])[0] || null;
+
+// "+0130" -> 90
+const parseOffset = (value) => {
+  const match = /^([+-])(\d{2})(\d{2})(\d{2})?$/.exec(value.trim());
+  if (!match) return 0;
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return match[1] === '-' ? -minutes : minutes;
+};
+
+// Wall-clock fields of a DATE-TIME or DATE value, as a UTC timestamp of the same fields
+function parseWallTime(value) {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds = '0', utc] = match;
+  return {
+    wall: Date.UTC(+year, +month - 1, +day, +(hours || 0), +(minutes || 0), +seconds),
+    isDate: hours === undefined,
+    isUtc: Boolean(utc)
+  };
+}
+
+const isIanaTimeZone = (timeZone) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Minutes `timeZone` is ahead of UTC at `date`
+function ianaOffset(timeZone, date) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit'
+  }).formatToParts(date);
+  const field = (type) => Number(parts.find(part => part.type === type).value);
+  const asUtc = Date.UTC(field('year'), field('month') - 1, field('day'), field('hour'), field('minute'), field('second'));
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+// Onset of a VTIMEZONE observance (STANDARD/DAYLIGHT) in `year`, in wall time; only
+// FREQ=YEARLY;BYMONTH=..;BYDAY=.. rules (what calendar apps write) are evaluated
+function observanceOnset(observance, year) {
+  const dtstart = firstProp(observance, 'DTSTART');
+  const start = dtstart && parseWallTime(dtstart.value);
+  if (!start) return null;
+
+  const rrule = firstProp(observance, 'RRULE');
+  if (!rrule) return new Date(start.wall).getUTCFullYear() <= year ? start.wall : null;
+
+  const parts = Object.fromEntries(rrule.value.split(';').map(part => part.split('=')));
+  const month = Number(parts.BYMONTH) - 1;
+  const byDay = /^([+-]?\d)?([A-Z]{2})$/.exec(parts.BYDAY || '');
+  if (Number.isNaN(month) || !byDay) return null;
+
+  const weekday = WEEKDAYS.indexOf(byDay[2]);
+  const ordinal = byDay[1] ? Number(byDay[1]) : 1;
+  const timeOfDay = start.wall % DAY_MS;
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  let day;
+  if (ordinal > 0) {
+    const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+    day = 1 + ((weekday - firstWeekday + 7) % 7) + (ordinal - 1) * 7;
+  } else {
+    const lastWeekday = new Date(Date.UTC(year, month, daysInMonth)).getUTCDay();
+    day = daysInMonth - ((lastWeekday - weekday + 7) % 7) + (ordinal + 1) * 7;
+  }
+  return Date.UTC(year, month, day) + timeOfDay;
+}
+
+// Minutes ahead of UTC at wall time `wall`, from a VTIMEZONE: the observance that started last
+function vtimezoneOffset(vtimezone, wall) {
+  const year = new Date(wall).getUTCFullYear();
+  let latest = null;
+
+  for (const observance of vtimezone.components) {
+    for (const onset of [observanceOnset(observance, year - 1), observanceOnset(observance, year)]) {
+      if (onset !== null && onset <= wall && (!latest || onset > latest.onset)) {
+        latest = { onset, observance };
+      }
+    }
+  }
+
+  const observance = latest ? latest.observance : vtimezone.components[0];
+  const offset = observance && firstProp(observance, 'TZOFFSETTO');
+  return offset ? parseOffset(offset.value) : 0;
+}
+
+/**
+ * Convert a DATE-TIME or DATE property to { date, allDay }. `context` has the file's
+ * `timezones` (VTIMEZONE by TZID) and the importer's `timeZone` for floating times.
+ */
+function parseDateProperty(property, context) {
+  const parsed = parseWallTime(property.value);
+  if (!parsed) return null;
+  if (parsed.isDate || property.params.VALUE === 'DATE') return { date: new Date(parsed.wall), allDay: true };
+  if (parsed.isUtc) return { date: new Date(parsed.wall), allDay: false };
+
+  const tzid = property.params.TZID;
+  let offsetAt;
+  if (tzid && isIanaTimeZone(tzid)) {
+    offsetAt = (date) => ianaOffset(tzid, date);
+  } else if (tzid && context.timezones[tzid]) {
+    const vtimezone = context.timezones[tzid];
+    return { date: new Date(parsed.wall - vtimezoneOffset(vtimezone, parsed.wall) * 60000), allDay: false };
+  } else if (context.timeZone && isIanaTimeZone(context.timeZone)) {
+    offsetAt = (date) => ianaOffset(context.timeZone, date);
+  } else {
+    return { date: new Date(parsed.wall), allDay: false };
+  }
+
+  // The offset at the wall time read as UTC is close; check it once at the result (DST changes)
+  const guess = parsed.wall - offsetAt(new Date(parsed.wall)) * 60000;
+  return { date: new Date(parsed.wall - offsetAt(new Date(guess)) * 60000), allDay: false };
+}
+
+// "P1DT2H30M", "PT45M", "P2W" -> milliseconds
+function parseDuration(value) {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, sign, weeks = 0, days = 0, hours = 0, minutes = 0, seconds = 0] = match;
+  const ms = (((Number(weeks) * 7 + Number(days)) * 24 + Number(hours)) * 60 + Number(minutes)) * 60000 + Number(seconds) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+/**
+ * Read the VEVENTs of an ICS file. Each event is `{ uid, summary, description, location,
+ * status, start, end, allDay, rrule, exdates, recurrenceId, tzid }` with UTC dates; events
+ * without a valid DTSTART are returned with an `error`.
+ * @param {string} text ICS file content
+ * @param {{ timeZone?: string }} options time zone of floating times (default UTC)
+ */
+function parse(text, { timeZone = null } = {}) {
+  const root = parseComponents(text);
+  const calendars = root.components.filter(component => component.name === 'VCALENDAR');
+  if (calendars.length === 0) throw new Error('Not an iCalendar file: no VCALENDAR found');
+
+  const events = [];
+  for (const calendar of calendars) {
+    const timezones = {};
+    for (const component of calendar.components.filter(child => child.name === 'VTIMEZONE')) {
+      const tzid = firstProp(component, 'TZID');
+      if (tzid) timezones[tzid.value] = component;
+    }
+    const context = { timezones, timeZone };
+
+    for (const component of calendar.components.filter(child => child.name === 'VEVENT')) {
+      const text = (name) => {
+        const property = firstProp(component, name);
+        return property ? unescapeText(property.value) : null;
+      };
+      const uid = text('UID');
+      const summary = text('SUMMARY') || '(No title)';
+
+      const dtstart = firstProp(component, 'DTSTART');
+      const start = dtstart && parseDateProperty(dtstart, context);
+      if (!start) {
+        events.push({ uid, summary, error: 'Missing or invalid DTSTART' });
+        continue;
+      }
+
+      let end = null;
+      const dtend = firstProp(component, 'DTEND');
+      const duration = firstProp(component, 'DURATION');
+      if (dtend) {
+        const parsedEnd = parseDateProperty(dtend, context);
+        end = parsedEnd && parsedEnd.date;
+      } else if (duration) {
+        const durationMs = parseDuration(duration.value);
+        end = durationMs !== null ? new Date(start.date.getTime() + durationMs) : null;
+      }
+      if (!end || end < start.date) {
+        end = new Date(start.date.getTime() + (start.allDay ? DAY_MS : 0));
+      }
+
+      const exdates = [];
+      for (const property of component.props.EXDATE || []) {
+        for (const value of property.value.split(',')) {
+          const exdate = parseDateProperty({ ...property, value }, context);
+          if (exdate) exdates.push(exdate.date);
+        }
+      }
+
+      const recurrenceIdProperty = firstProp(component, 'RECURRENCE-ID');
+      const recurrenceId = recurrenceIdProperty ? parseDateProperty(recurrenceIdProperty, context) : null;
+      const rrule = firstProp(component, 'RRULE');
+
+      events.push({
+        uid,
+        summary,
+        description: text('DESCRIPTION'),
+        location: text('LOCATION'),
+        status: (text('STATUS') || '').toUpperCase() || null,
+        start: start.date,
+        end,
+        allDay: start.allDay,
+        rrule: rrule ? rrule.value.trim() : null,
+        exdates,
+        recurrenceId: recurrenceId ? recurrenceId.date : null,
+        tzid: start.allDay ? null : dtstart.params.TZID || (dtstart.value.endsWith('Z') ? null : timeZone)
+      });
+    }
+  }
+
+  return events;
+}
+
+// The date of `date` in `timeZone` minus its UTC date, in days (-1, 0 or 1)
+function utcDayShift(date, timeZone) {
+  if (!timeZone || !isIanaTimeZone(timeZone)) return 0;
+  const local = new Date(date.getTime() + ianaOffset(timeZone, date) * 60000);
+  return Math.round((Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()) -
+    Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate())) / DAY_MS);
+}
+
+module.exports = {
+  serialize,
+  parse,
+  utcDayShift
+};
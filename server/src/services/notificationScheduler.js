@@ -0,0 +1,56 @@
+const Notification = require('../models/Notification');
+
+const CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+// Local hour at which digest emails go out
+const DIGEST_HOUR = parseInt(process.env.NOTIFICATION_DIGEST_HOUR || '8', 10);
+
+/**
+ * Periodic notification jobs: due date reminders and the daily digest email
+ */
+class NotificationScheduler {
+  constructor() {
+    this.timer = null;
+    this.running = false;
+  }
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(), CHECK_INTERVAL_MS);
+    // Do not keep the process alive just for reminders
+    if (typeof this.timer.unref === 'function') this.timer.unref();
+    this.tick();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  async tick(now = new Date()) {
+    // A slow run (many emails) must not overlap the next one
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const reminders = await Notification.notifyDueSoon();
+      if (reminders > 0) {
+        console.log(`🔔 Sent ${reminders} due date reminder(s)`);
+      }
+
+      // Sent notifications are marked, so later runs in the same hour only pick up new ones
+      if (now.getHours() === DIGEST_HOUR) {
+        const digests = await Notification.sendDigests();
+        if (digests > 0) {
+          console.log(`📬 Sent ${digests} notification digest(s)`);
+        }
+      }
+    } catch (error) {
+      console.error('Error running notification jobs:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+module.exports = new NotificationScheduler();
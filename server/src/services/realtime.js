@@ -0,0 +1,178 @@
+const { v4: uuidv4 } = require('uuid');
+const Session = require('../models/Session');
+const Workspace = require('../models/Workspace');
+
+// Comment line sent periodically so proxies keep idle streams open
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+/**
+ * Real-time push channel
+ * Keeps one Server-Sent Events stream per open browser tab, grouped by workspace,
+ * and broadcasts change and presence events to them
+ */
+class RealtimeService {
+  constructor() {
+    // workspaceId -> Map<connectionId, connection>
+    this.workspaces = new Map();
+  }
+
+  /**
+   * Open an event stream for an authenticated request (expects req.user, req.authSession,
+   * req.workspaceId and req.workspaceRole)
+   */
+  connect(req, res) {
+    const connection = {
+      id: uuidv4(),
+      workspaceId: req.workspaceId,
+      user: { id: req.user.id, name: req.user.name, email: req.user.email },
+      sessionId: req.authSession.id,
+      role: req.workspaceRole,
+      location: req.query.location || null,
+      connectedAt: new Date().toISOString(),
+      res
+    };
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+
+    if (!this.workspaces.has(connection.workspaceId)) {
+      this.workspaces.set(connection.workspaceId, new Map());
+    }
+    this.workspaces.get(connection.workspaceId).set(connection.id, connection);
+
+    this.send(connection, 'ready', { connectionId: connection.id, presence: this.getPresence(connection.workspaceId) });
+    this.broadcastPresence(connection.workspaceId);
+
+    // The stream is only checked when it opens, so it ends once that check would fail;
+    // the client reconnects and is checked again
+    const heartbeat = setInterval(async () => {
+      try {
+        if (await this.isStillAllowed(connection)) {
+          this.write(connection, ': heartbeat\n\n');
+        } else {
+          res.end();
+        }
+      } catch (error) {
+        console.error('Failed to check realtime stream access:', error.message);
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      this.disconnect(connection);
+    });
+
+    return connection;
+  }
+
+  // Whether the session of a connection is still active and its user still has the same role
+  async isStillAllowed(connection) {
+    const session = await Session.findById(connection.sessionId);
+    if (!session || !session.isActive || session.userId !== connection.user.id) return false;
+
+    return await Workspace.getUserRole(connection.user.id, connection.workspaceId) === connection.role;
+  }
+
+  disconnect(connection) {
+    const connections = this.workspaces.get(connection.workspaceId);
+    if (!connections || !connections.delete(connection.id)) return;
+
+    if (connections.size === 0) {
+      this.workspaces.delete(connection.workspaceId);
+    }
+    this.broadcastPresence(connection.workspaceId);
+  }
+
+  write(connection, chunk) {
+    try {
+      connection.res.write(chunk);
+      // The compression middleware buffers output until flushed
+      if (typeof connection.res.flush === 'function') connection.res.flush();
+    } catch (error) {
+      console.error('Failed to write to realtime stream:', error.message);
+    }
+  }
+
+  send(connection, event, data) {
+    this.write(connection, `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  /**
+   * Send a change event to every connection of a workspace
+   * @param {string} workspaceId
+   * @param {string} type - e.g. 'task.updated'
+   * @param {object} data - the changed entity, or { id } for deletions
+   * @param {object} options - originClientId tags the sender's own tab, userId limits delivery to one user
+   */
+  publish(workspaceId, type, data, { originClientId = null, userId = null } = {}) {
+    const connections = workspaceId ? this.workspaces.get(workspaceId) : null;
+    if (!connections) return;
+
+    const payload = { type, data, originClientId, at: new Date().toISOString() };
+    for (const connection of connections.values()) {
+      if (userId && connection.user.id !== userId) continue;
+      this.send(connection, 'change', payload);
+    }
+  }
+
+  /**
+   * Send a change event to every workspace, for data that is not workspace-scoped
+   * (kanban columns, or a user's own calendar events when combined with userId)
+   */
+  broadcast(type, data, options = {}) {
+    for (const workspaceId of this.workspaces.keys()) {
+      this.publish(workspaceId, type, data, options);
+    }
+  }
+
+  /**
+   * Options for a change caused by an API request; the sender's tab is identified by X-Client-Id
+   */
+  originOf(req, options = {}) {
+    return { ...options, originClientId: req.headers['x-client-id'] || null };
+  }
+
+  /**
+   * Update where in the app a connection's user currently is (e.g. 'kanban')
+   */
+  setLocation(workspaceId, connectionId, userId, location) {
+    const connection = this.workspaces.get(workspaceId)?.get(connectionId);
+    if (!connection || connection.user.id !== userId) return false;
+
+    connection.location = location || null;
+    this.broadcastPresence(workspaceId);
+    return true;
+  }
+
+  /**
+   * Users connected to a workspace, one entry per user with every location they have open
+   */
+  getPresence(workspaceId) {
+    const users = new Map();
+
+    for (const connection of this.workspaces.get(workspaceId)?.values() || []) {
+      if (!users.has(connection.user.id)) {
+        users.set(connection.user.id, { ...connection.user, locations: [], connectedAt: connection.connectedAt });
+      }
+      const user = users.get(connection.user.id);
+      if (connection.location && !user.locations.includes(connection.location)) {
+        user.locations.push(connection.location);
+      }
+    }
+
+    return [...users.values()];
+  }
+
+  broadcastPresence(workspaceId) {
+    const presence = this.getPresence(workspaceId);
+    for (const connection of this.workspaces.get(workspaceId)?.values() || []) {
+      this.send(connection, 'presence', presence);
+    }
+  }
+}
+
+module.exports = new RealtimeService();
@@ -0,0 +1,278 @@
+/**
+ * RFC 5545 recurrence rules (RRULE) for calendar events, meetings and recurring tasks.
+ *
+ * Supported: FREQ=DAILY|WEEKLY|MONTHLY, INTERVAL, BYDAY (weekdays; with an ordinal such as
+ * 2TU or -1FR for monthly rules), BYMONTHDAY, UNTIL and COUNT. Rules are evaluated in UTC from
+ * the series start, so an occurrence keeps the UTC time of the first one.
+ */
+
+const FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY'];
+
+// Rule parts that are understood; WKST is accepted but weeks always start on Monday
+const KNOWN_PARTS = ['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'UNTIL', 'COUNT', 'WKST'];
+
+// Indexed like Date#getUTCDay()
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Guards against rules that never produce a match (e.g. BYMONTHDAY=31 with FREQ=MONTHLY;INTERVAL=12 from April)
+const MAX_PERIODS = 50000;
+
+// Upper bound on the occurrences returned by one expansion
+const MAX_OCCURRENCES = 1000;
+
+const invalid = (reason) => new Error(`Invalid recurrence rule: ${reason}`);
+
+// "20261231T235959Z" or "20261231"
+function parseUntil(value) {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  if (!match) throw invalid(`UNTIL "${value}" is not a date`);
+  const [, year, month, day, hours = '23', minutes = '59', seconds = '59'] = match;
+  return new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds));
+}
+
+function formatUntil(date) {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Parse "FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10" (an "RRULE:" prefix is allowed).
+ * @throws {Error} "Invalid recurrence rule: ..." when the rule is malformed or unsupported
+ */
+function parse(rule) {
+  if (typeof rule !== 'string' || !rule.trim()) throw invalid('empty rule');
+
+  const parts = {};
+  for (const part of rule.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined || value === '') throw invalid(`"${part}" is not KEY=VALUE`);
+    if (!KNOWN_PARTS.includes(key.toUpperCase())) throw invalid(`${key.toUpperCase()} is not supported`);
+    parts[key.toUpperCase()] = value.toUpperCase();
+  }
+
+  if (!FREQUENCIES.includes(parts.FREQ)) {
+    throw invalid(`FREQ must be one of ${FREQUENCIES.join(', ')}`);
+  }
+
+  const interval = parts.INTERVAL ? Number(parts.INTERVAL) : 1;
+  if (!Number.isInteger(interval) || interval < 1) throw invalid('INTERVAL must be a positive integer');
+
+  const count = parts.COUNT ? Number(parts.COUNT) : null;
+  if (count !== null && (!Number.isInteger(count) || count < 1)) throw invalid('COUNT must be a positive integer');
+  if (count !== null && parts.UNTIL) throw invalid('COUNT and UNTIL cannot be combined');
+
+  const byDay = parts.BYDAY ? parts.BYDAY.split(',').map(value => {
+    const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(value);
+    if (!match) throw invalid(`BYDAY "${value}" is not a weekday`);
+    const ordinal = match[1] ? Number(match[1]) : null;
+    if (ordinal !== null && (ordinal === 0 || Math.abs(ordinal) > 5 || parts.FREQ !== 'MONTHLY')) {
+      throw invalid(`BYDAY "${value}" is not supported`);
+    }
+    return { weekday: WEEKDAYS.indexOf(match[2]), ordinal };
+  }) : [];
+
+  const byMonthDay = parts.BYMONTHDAY ? parts.BYMONTHDAY.split(',').map(value => {
+    const day = Number(value);
+    if (!Number.isInteger(day) || day === 0 || Math.abs(day) > 31) throw invalid(`BYMONTHDAY "${value}" is not a day`);
+    return day;
+  }) : [];
+
+  return {
+    freq: parts.FREQ,
+    interval,
+    byDay,
+    byMonthDay,
+    until: parts.UNTIL ? parseUntil(parts.UNTIL) : null,
+    count
+  };
+}
+
+// The error message for a rule, or null when it is valid
+function validate(rule) {
+  try {
+    parse(rule);
+    return null;
+  } catch (error) {
+    return error.message;
+  }
+}
+
+function stringify(parsed) {
+  const parts = [`FREQ=${parsed.freq}`];
+  if (parsed.interval > 1) parts.push(`INTERVAL=${parsed.interval}`);
+  if (parsed.byDay.length > 0) {
+    parts.push(`BYDAY=${parsed.byDay.map(({ weekday, ordinal }) => `${ordinal ?? ''}${WEEKDAYS[weekday]}`).join(',')}`);
+  }
+  if (parsed.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${parsed.byMonthDay.join(',')}`);
+  if (parsed.until) parts.push(`UNTIL=${formatUntil(parsed.until)}`);
+  if (parsed.count) parts.push(`COUNT=${parsed.count}`);
+  return parts.join(';');
+}
+
+const daysInMonth = (year, month) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// Candidate occurrences of one period (a day, week or month), in order
+function candidatesOf(parsed, start, period) {
+  const timeOfDay = start.getTime() - Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate());
+  const atDay = (year, month, day) => new Date(Date.UTC(year, month, day) + timeOfDay);
+
+  if (parsed.freq === 'DAILY') {
+    const day = new Date(start.getTime() + period * parsed.interval * DAY_MS);
+    const matchesDay = parsed.byDay.length === 0 || parsed.byDay.some(({ weekday }) => weekday === day.getUTCDay());
+    const monthLength = daysInMonth(day.getUTCFullYear(), day.getUTCMonth());
+    const matchesMonthDay = parsed.byMonthDay.length === 0 || parsed.byMonthDay.some(value =>
+      (value > 0 ? value : monthLength + value + 1) === day.getUTCDate()
+    );
+    return matchesDay && matchesMonthDay ? [day] : [];
+  }
+
+  if (parsed.freq === 'WEEKLY') {
+    // Weeks start on Monday (the RFC 5545 default WKST)
+    const mondayOffset = (start.getUTCDay() + 6) % 7;
+    const weekStart = new Date(start.getTime() - mondayOffset * DAY_MS + period * parsed.interval * 7 * DAY_MS);
+    const weekdays = parsed.byDay.length > 0 ? parsed.byDay.map(({ weekday }) => weekday) : [start.getUTCDay()];
+    return [...new Set(weekdays)]
+      .map(weekday => new Date(weekStart.getTime() + ((weekday + 6) % 7) * DAY_MS))
+      .sort((a, b) => a - b);
+  }
+
+  // MONTHLY
+  const monthIndex = start.getUTCMonth() + period * parsed.interval;
+  const year = start.getUTCFullYear() + Math.floor(monthIndex / 12);
+  const month = ((monthIndex % 12) + 12) % 12;
+  const monthLength = daysInMonth(year, month);
+  const days = new Set();
+
+  if (parsed.byMonthDay.length > 0) {
+    for (const value of parsed.byMonthDay) {
+      const day = value > 0 ? value : monthLength + value + 1;
+      if (day >= 1 && day <= monthLength) days.add(day);
+    }
+  } else if (parsed.byDay.length > 0) {
+    const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+    for (const { weekday, ordinal } of parsed.byDay) {
+      const first = 1 + ((weekday - firstWeekday + 7) % 7);
+      const matches = [];
+      for (let day = first; day <= monthLength; day += 7) matches.push(day);
+      if (ordinal === null) {
+        matches.forEach(day => days.add(day));
+      } else {
+        const day = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+        if (day) days.add(day);
+      }
+    }
+  } else if (start.getUTCDate() <= monthLength) {
+    // Months without the start's day (the 31st, say) are skipped, as RFC 5545 requires
+    days.add(start.getUTCDate());
+  }
+
+  return [...days].sort((a, b) => a - b).map(day => atDay(year, month, day));
+}
+
+/**
+ * Occurrence start dates of a series beginning at `start`, limited to those overlapping
+ * [from, to] when they last `durationMs`. `exceptions` (dates or ISO strings) are left out;
+ * like EXDATE they still count towards COUNT.
+ */
+function expand(rule, start, { from = start, to, durationMs = 0, exceptions = [] } = {}) {
+  const parsed = typeof rule === 'string' ? parse(rule) : rule;
+  const seriesStart = new Date(start);
+  const rangeStart = new Date(from);
+  const rangeEnd = to ? new Date(to) : null;
+  const excluded = new Set(exceptions.map(value => new Date(value).getTime()));
+
+  if (!rangeEnd && !parsed.until && !parsed.count) {
+    throw new Error('An end of the range is required to expand an endless rule');
+  }
+
+  const occurrences = [];
+  let produced = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const candidate of candidatesOf(parsed, seriesStart, period)) {
+      if (candidate < seriesStart) continue;
+      if ((parsed.until && candidate > parsed.until) || (rangeEnd && candidate > rangeEnd)) return occurrences;
+
+      produced++;
+      if (candidate.getTime() + durationMs >= rangeStart.getTime() && !excluded.has(candidate.getTime())) {
+        occurrences.push(candidate);
+        if (occurrences.length >= MAX_OCCURRENCES) return occurrences;
+      }
+      if (parsed.count && produced >= parsed.count) return occurrences;
+    }
+  }
+
+  return occurrences;
+}
+
+// The first occurrence strictly after `after`, or null when the series has ended
+function nextOccurrence(rule, start, after) {
+  const from = new Date(new Date(after).getTime() + 1);
+  const parsed = typeof rule === 'string' ? parse(rule) : rule;
+  // Look ahead far enough for any supported rule to produce its next occurrence
+  const to = new Date(Math.max(from.getTime(), new Date(start).getTime()) + (parsed.interval * 366 + 31) * DAY_MS);
+  const [next] = expand(parsed, start, { from, to });
+  return next || null;
+}
+
+/**
+ * Split a series at one of its occurrences ("this and following"). Returns the rule for
+ * the part before `at` (null when `at` is the first occurrence) and the rule for the new
+ * series that starts at `at`; COUNT is shared between the two.
+ */
+function splitAt(rule, start, at) {
+  const parsed = parse(rule);
+  const splitDate = new Date(at);
+  const before = expand(parsed, start, { from: start, to: new Date(splitDate.getTime() - 1) });
+
+  if (before.length === 0) {
+    return { before: null, after: stringify(parsed) };
+  }
+
+  // Occurrences removed as exceptions still used up part of the count
+  const after = { ...parsed };
+  if (parsed.count) {
+    after.count = Math.max(parsed.count - before.length, 1);
+  }
+
+  return {
+    before: stringify({ ...parsed, count: null, until: new Date(splitDate.getTime() - 1000) }),
+    after: stringify(after)
+  };
+}
+
+/**
+ * Move the weekdays and month days of a rule by `days`. Used for rules written in a time zone
+ * where the series start falls on another date than in UTC (e.g. Monday 20:00 in New York is
+ * Tuesday in UTC, so BYDAY=MO becomes BYDAY=TU).
+ */
+function shiftDays(rule, days) {
+  const parsed = parse(rule);
+  if (!days) return stringify(parsed);
+
+  return stringify({
+    ...parsed,
+    byDay: parsed.byDay.map(({ weekday, ordinal }) => ({ weekday: (weekday + days + 7) % 7, ordinal })),
+    // The day before the 1st is the last day of the month before, the day after the last is the 1st
+    byMonthDay: parsed.byMonthDay.map(day => {
+      const shifted = day + days;
+      if (shifted === 0) return day > 0 ? -1 : 1;
+      if (shifted > 31) return 1;
+      if (shifted < -31) return -1;
+      return shifted;
+    })
+  });
+}
+
+module.exports = {
+  WEEKDAYS,
+  MAX_OCCURRENCES,
+  parse,
+  validate,
+  stringify,
+  expand,
+  nextOccurrence,
+  splitAt,
+  shiftDays
+};
@@ -0,0 +1,66 @@
+const RecurringTask = require('../models/RecurringTask');
+const Notification = require('../models/Notification');
+const realtime = require('./realtime');
+
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Creates the Kanban tasks of recurring tasks when their next occurrence is due
+ */
+class RecurringTaskScheduler {
+  constructor() {
+    this.timer = null;
+    this.running = false;
+  }
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(), CHECK_INTERVAL_MS);
+    // Do not keep the process alive just for recurring tasks
+    if (typeof this.timer.unref === 'function') this.timer.unref();
+    this.tick();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  async tick(now = new Date()) {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const created = await RecurringTask.runDue(now);
+      for (const { recurringTask, task } of created) {
+        realtime.publish(recurringTask.workspaceId, 'task.created', {
+          ...task.toJSON(),
+          assignedMembers: recurringTask.assignedMembers
+        });
+
+        for (const memberId of recurringTask.assignedMembers) {
+          await Notification.notify({
+            userId: memberId,
+            workspaceId: recurringTask.workspaceId,
+            type: 'task_assigned',
+            title: `New recurring task "${task.title}"`,
+            body: task.dueDate ? `Due ${new Date(task.dueDate).toDateString()}` : null,
+            link: '/app/kanban',
+            entityType: 'kanban_task',
+            entityId: task.id
+          });
+        }
+      }
+
+      if (created.length > 0) {
+        console.log(`🔁 Created ${created.length} recurring task(s)`);
+      }
+    } catch (error) {
+      console.error('Error creating recurring tasks:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+module.exports = new RecurringTaskScheduler();
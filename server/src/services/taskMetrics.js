@@ -0,0 +1,339 @@
+/**
+ * Task flow metrics: throughput, cycle time, lead time and overdue rate over a date range, grouped
+ * by day, week or month, for the dashboard; and cumulative flow, work in progress, aging work and
+ * throughput histograms for the Kanban analytics page.
+ *
+ * Which column a task was in, and when it started and finished, is read from its activity log (the
+ * status recorded when it was created, updated or moved). Tasks from before the log have only their
+ * created and updated times, and are counted in their current column since they were created.
+ */
+
+const { getDatabase } = require('../config/database');
+
+const GROUPINGS = ['day', 'week', 'month'];
+
+// Range used when a request gives none
+const DEFAULT_RANGE_DAYS = 30;
+
+// Longest range a request may ask for
+const MAX_RANGE_DAYS = 3 * 366;
+
+// Tasks in this column have not started yet; tasks in DONE_STATUS are finished
+const BACKLOG_STATUS = 'todo';
+const DONE_STATUS = 'done';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (value) => Math.round(value * 100) / 100;
+
+const toDateString = (date) => new Date(date).toISOString().split('T')[0];
+
+const addDays = (dateString, days) =>
+  toDateString(new Date(`${dateString}T00:00:00.000Z`).getTime() + days * DAY_MS);
+
+const daysBetween = (from, to) =>
+  Math.round((new Date(`${to}T00:00:00.000Z`) - new Date(`${from}T00:00:00.000Z`)) / DAY_MS);
+
+// Stored times are ISO strings, SQLite CURRENT_TIMESTAMPs ("2026-10-19 08:00:00", UTC) or dates
+const parseTimestamp = (value) => {
+  if (!value) return null;
+  if (value instanceof Date) return value;
+  const text = String(value);
+  const date = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}(:\d{2})?$/.test(text) ? new Date(`${text.replace(' ', 'T')}Z`) : new Date(text);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * The range of a request: `from` and `to` (inclusive, yyyy-MM-dd) and the `groupBy` of its time
+ * series. Defaults to the last 30 days, grouped by day up to two months and by week after that.
+ * Throws on ranges that end before they start or are too long.
+ */
+function resolveRange({ from, to, groupBy } = {}, now = new Date()) {
+  const end = to ? toDateString(to) : toDateString(now);
+  const start = from ? toDateString(from) : addDays(end, -(DEFAULT_RANGE_DAYS - 1));
+
+  const days = daysBetween(start, end) + 1;
+  if (days < 1) throw new Error('The range must end on or after its start');
+  if (days > MAX_RANGE_DAYS) throw new Error(`The range cannot be longer than ${MAX_RANGE_DAYS} days`);
+
+  const grouping = groupBy || (days > 62 ? 'week' : 'day');
+  if (!GROUPINGS.includes(grouping)) throw new Error(`groupBy must be one of ${GROUPINGS.join(', ')}`);
+
+  return { from: start, to: end, days, groupBy: grouping };
+}
+
+// The range of the same length just before `range`
+const previousRange = (range) => ({
+  ...range,
+  from: addDays(range.from, -range.days),
+  to: addDays(range.from, -1)
+});
+
+// First day of the day, week (Monday) or month containing `dateString`
+function periodStart(dateString, groupBy) {
+  if (groupBy === 'month') return `${dateString.slice(0, 7)}-01`;
+  if (groupBy === 'week') {
+    const weekday = new Date(`${dateString}T00:00:00.000Z`).getUTCDay();
+    return addDays(dateString, -((weekday + 6) % 7));
+  }
+  return dateString;
+}
+
+// The periods covering the range; the first and last may be cut off by it
+function periodsOf(range) {
+  const periods = [];
+  let start = periodStart(range.from, range.groupBy);
+  while (start <= range.to) {
+    const next = range.groupBy === 'month'
+      ? toDateString(Date.UTC(Number(start.slice(0, 4)), Number(start.slice(5, 7)), 1))
+      : addDays(start, range.groupBy === 'week' ? 7 : 1);
+    periods.push({
+      period: start,
+      from: start < range.from ? range.from : start,
+      to: addDays(next, -1) > range.to ? range.to : addDays(next, -1)
+    });
+    start = next;
+  }
+  return periods;
+}
+
+const parseTags = (value) => {
+  try {
+    const tags = JSON.parse(value || '[]');
+    return Array.isArray(tags) ? tags : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * When each task of the workspace was created, started (first left the backlog) and completed
+ * (last entered done, for tasks that are done now), its due date and its status changes.
+ * Optionally limited to a workflow, a client's workflows, an assignee or a tag.
+ */
+async function loadTaskTimelines(workspaceId, { workflowId, clientId, assigneeId, tag } = {}) {
+  const db = getDatabase();
+  const conditions = ['COALESCE(kt.workspace_id, w.workspace_id) = ?'];
+  const params = [workspaceId];
+  if (workflowId) {
+    conditions.push('kt.workflow_id = ?');
+    params.push(workflowId);
+  }
+  if (clientId) {
+    conditions.push('w.client_id = ?');
+    params.push(clientId);
+  }
+  if (assigneeId) {
+    conditions.push('EXISTS (SELECT 1 FROM task_assignments ta WHERE ta.task_id = kt.id AND ta.member_id = ?)');
+    params.push(assigneeId);
+  }
+
+  const rows = await db.all(`
+    SELECT kt.id, kt.title, kt.status, kt.tags, kt.created_at, kt.updated_at, kt.due_date
+    FROM kanban_tasks kt
+    LEFT JOIN workflows w ON kt.workflow_id = w.id
+    WHERE ${conditions.join(' AND ')}
+  `, params);
+  const tasks = tag ? rows.filter(task => parseTags(task.tags).includes(tag)) : rows;
+
+  const logs = await db.all(`
+    SELECT al.entity_id, al.action, al.details, al.created_at
+    FROM activity_log al
+    JOIN kanban_tasks kt ON kt.id = al.entity_id
+    LEFT JOIN workflows w ON kt.workflow_id = w.id
+    WHERE al.entity_type = 'kanban_task' AND al.action IN ('created', 'updated', 'moved')
+      AND COALESCE(kt.workspace_id, w.workspace_id) = ?
+    ORDER BY al.created_at ASC
+  `, [workspaceId]);
+
+  // Status changes per task, in order
+  const history = new Map();
+  for (const log of logs) {
+    let details;
+    try {
+      details = JSON.parse(log.details || '{}');
+    } catch {
+      continue;
+    }
+    const status = log.action === 'moved' ? details.toStatus : details.status;
+    const at = parseTimestamp(log.created_at);
+    if (!status || !at) continue;
+
+    const changes = history.get(log.entity_id) || [];
+    if (changes.length === 0 || changes[changes.length - 1].status !== status) {
+      changes.push({ status, at });
+    }
+    history.set(log.entity_id, changes);
+  }
+
+  return tasks.map(task => {
+    const createdAt = parseTimestamp(task.created_at);
+    const changes = history.get(task.id) || [];
+
+    const started = changes.find(change => change.status !== BACKLOG_STATUS);
+    let completedAt = null;
+    if (task.status === DONE_STATUS) {
+      const lastDone = [...changes].reverse().find(change => change.status === DONE_STATUS);
+      completedAt = lastDone ? lastDone.at : parseTimestamp(task.updated_at);
+    }
+
+    return {
+      id: task.id,
+      title: task.title,
+      status: task.status,
+      createdAt,
+      startedAt: started ? started.at : (completedAt ? createdAt : null),
+      completedAt,
+      dueDate: parseTimestamp(task.due_date),
+      history: changes
+    };
+  });
+}
+
+const inDays = (from, to) => (to.getTime() - from.getTime()) / DAY_MS;
+
+const average = (values) => (values.length > 0 ? round2(values.reduce((sum, value) => sum + value, 0) / values.length) : null);
+
+/**
+ * Metrics of the tasks completed, and due, from `from` to `to` (inclusive dates):
+ * throughput, average cycle time (started to done) and lead time (created to done) in days, and
+ * the share of tasks due in the period (and already due) that were not done by their due date
+ */
+function measure(timelines, from, to, now = new Date()) {
+  const start = new Date(`${from}T00:00:00.000Z`);
+  const end = new Date(new Date(`${to}T00:00:00.000Z`).getTime() + DAY_MS);
+
+  const completed = timelines.filter(task => task.completedAt && task.completedAt >= start && task.completedAt < end);
+  const due = timelines.filter(task => task.dueDate && task.dueDate >= start && task.dueDate < end && task.dueDate <= now);
+  const missed = due.filter(task => !task.completedAt || task.completedAt > task.dueDate);
+
+  return {
+    throughput: completed.length,
+    cycleTimeDays: average(completed.filter(task => task.startedAt).map(task => inDays(task.startedAt, task.completedAt))),
+    leadTimeDays: average(completed.filter(task => task.createdAt).map(task => inDays(task.createdAt, task.completedAt))),
+    dueTasks: due.length,
+    overdueTasks: missed.length,
+    overdueRate: due.length > 0 ? round2((missed.length / due.length) * 100) : null
+  };
+}
+
+// The metrics of each period of the range
+const timeSeries = (timelines, range, now = new Date()) =>
+  periodsOf(range).map(({ period, from, to }) => ({ period, from, to, ...measure(timelines, from, to, now) }));
+
+// The column a task was in at `instant`, or null if it did not exist yet
+function statusAt(task, instant) {
+  if (task.createdAt && task.createdAt > instant) return null;
+  let status = task.history.length > 0 ? task.history[0].status : task.status;
+  for (const change of task.history) {
+    if (change.at > instant) break;
+    status = change.status;
+  }
+  return status;
+}
+
+const isInProgress = (status) => status !== BACKLOG_STATUS && status !== DONE_STATUS;
+
+// Nearest-rank percentile of a list of numbers
+function percentile(values, p) {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return round2(sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)]);
+}
+
+/**
+ * Kanban flow analysis of the range:
+ * - `cumulativeFlow`: tasks per column at the end of each period, and how many of them were in progress
+ * - `completed`: the tasks finished in the range with their cycle and lead times
+ * - `cycleTime` and `leadTime`: 50th, 85th and 95th percentiles of those, in days
+ * - `aging`: tasks in progress now, oldest first, with days since they started and in their column
+ * - `throughput` per period and `throughputHistogram`: how many periods finished 0, 1, 2... tasks
+ */
+function flowAnalysis(timelines, range, now = new Date()) {
+  const periods = periodsOf(range);
+
+  const cumulativeFlow = periods.map(({ period, to }) => {
+    const endOfPeriod = new Date(new Date(`${to}T00:00:00.000Z`).getTime() + DAY_MS - 1);
+    const instant = endOfPeriod < now ? endOfPeriod : now;
+    const counts = {};
+    for (const task of timelines) {
+      const status = statusAt(task, instant);
+      if (status) counts[status] = (counts[status] || 0) + 1;
+    }
+    const wip = Object.entries(counts)
+      .filter(([status]) => isInProgress(status))
+      .reduce((sum, [, count]) => sum + count, 0);
+    return { period, counts, wip };
+  });
+
+  const start = new Date(`${range.from}T00:00:00.000Z`);
+  const end = new Date(new Date(`${range.to}T00:00:00.000Z`).getTime() + DAY_MS);
+  const completed = timelines
+    .filter(task => task.completedAt && task.completedAt >= start && task.completedAt < end)
+    .sort((a, b) => a.completedAt - b.completedAt)
+    .map(task => ({
+      id: task.id,
+      title: task.title,
+      completedAt: task.completedAt.toISOString(),
+      cycleTimeDays: task.startedAt ? round2(inDays(task.startedAt, task.completedAt)) : null,
+      leadTimeDays: task.createdAt ? round2(inDays(task.createdAt, task.completedAt)) : null
+    }));
+
+  const percentiles = (values) => ({ p50: percentile(values, 50), p85: percentile(values, 85), p95: percentile(values, 95) });
+  const cycleTimes = completed.map(task => task.cycleTimeDays).filter(value => value !== null);
+  const leadTimes = completed.map(task => task.leadTimeDays).filter(value => value !== null);
+
+  const aging = timelines
+    .filter(task => isInProgress(task.status))
+    .map(task => {
+      const lastChange = task.history[task.history.length - 1];
+      const startedAt = task.startedAt || task.createdAt;
+      const enteredColumnAt = lastChange && lastChange.status === task.status ? lastChange.at : task.createdAt;
+      return {
+        id: task.id,
+        title: task.title,
+        status: task.status,
+        startedAt: startedAt ? startedAt.toISOString() : null,
+        ageDays: startedAt ? round2(inDays(startedAt, now)) : null,
+        daysInColumn: enteredColumnAt ? round2(inDays(enteredColumnAt, now)) : null
+      };
+    })
+    .sort((a, b) => (b.ageDays ?? 0) - (a.ageDays ?? 0));
+
+  const throughput = periods.map(({ period, from, to }) => ({
+    period,
+    completed: completed.filter(task => {
+      const day = task.completedAt.slice(0, 10);
+      return day >= from && day <= to;
+    }).length
+  }));
+  const most = Math.max(0, ...throughput.map(entry => entry.completed));
+  const throughputHistogram = Array.from({ length: most + 1 }, (_, completedCount) => ({
+    completed: completedCount,
+    periods: throughput.filter(entry => entry.completed === completedCount).length
+  }));
+
+  return {
+    cumulativeFlow,
+    completed,
+    cycleTime: percentiles(cycleTimes),
+    leadTime: percentiles(leadTimes),
+    aging,
+    throughput,
+    throughputHistogram
+  };
+}
+
+module.exports = {
+  GROUPINGS,
+  DONE_STATUS,
+  toDateString,
+  parseTimestamp,
+  resolveRange,
+  previousRange,
+  periodsOf,
+  loadTaskTimelines,
+  measure,
+  timeSeries,
+  flowAnalysis
+};
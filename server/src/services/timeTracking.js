@@ -0,0 +1,388 @@
+/**
+ * The time tracker: one timer per user that becomes a time entry when it stops.
+ *
+ * A timer is `running` or `paused` while it is in active_timers and `stopped` once it is a time
+ * entry (time_entries.timer_id); a user without one is `idle`. Every pause is a timer_pauses row
+ * with the reason it was given, which moves to the time entry when the timer stops.
+ *
+ * Commands are idempotent so a retried or doubled request does no harm: pausing a paused timer or
+ * resuming a running one returns it unchanged, and a command that names its timer (`timerId`)
+ * after that timer stopped gets a conflict – or, when stopping, the time entry it became. A start
+ * may bring its own timer id to be safely retried the same way.
+ */
+
+const { v4: uuidv4 } = require('uuid');
+const { getDatabase } = require('../config/database');
+const ActivityLogger = require('../models/ActivityLogger');
+const Budget = require('../models/Budget');
+const Timesheet = require('../models/Timesheet');
+
+const MAX_REASON_LENGTH = 200;
+
+const IDLE = Object.freeze({ state: 'idle', hasActiveTimer: false, timer: null });
+
+class TimeTrackingError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.name = 'TimeTrackingError';
+    this.status = status;
+  }
+}
+
+const secondsBetween = (from, to) => Math.max(0, Math.floor((new Date(to) - new Date(from)) / 1000));
+
+const pausedSeconds = (pauses, at) =>
+  pauses.reduce((sum, pause) => sum + secondsBetween(pause.started_at, pause.ended_at || at), 0);
+
+const pauseJSON = (pause) => ({
+  id: pause.id,
+  reason: pause.reason,
+  startedAt: pause.started_at,
+  endedAt: pause.ended_at,
+  duration: pause.ended_at ? secondsBetween(pause.started_at, pause.ended_at) : null
+});
+
+function timerJSON(timer, pauses, at) {
+  const openPause = pauses.find(pause => !pause.ended_at);
+  const paused = pausedSeconds(pauses, at);
+
+  return {
+    id: timer.id,
+    state: openPause ? 'paused' : 'running',
+    taskId: timer.task_id,
+    taskTitle: timer.task_title,
+    taskPriority: timer.task_priority,
+    workflowName: timer.workflow_name,
+    clientName: timer.client_name,
+    startTime: timer.start_time,
+    description: timer.description,
+    isBreak: Boolean(timer.is_break),
+    elapsedSeconds: Math.max(0, secondsBetween(timer.start_time, at) - paused),
+    totalPausedDuration: paused,
+    isPaused: Boolean(openPause),
+    pauseReason: openPause ? openPause.reason : null,
+    pausedAt: openPause ? openPause.started_at : null,
+    currentPauseDuration: openPause ? secondsBetween(openPause.started_at, at) : 0,
+    pauses: pauses.map(pauseJSON),
+    createdAt: timer.created_at
+  };
+}
+
+// Pauses of a timer that has not stopped yet
+const timerPauses = (db, timerId) => db.all(`
+  SELECT * FROM timer_pauses WHERE timer_id = ? AND time_entry_id IS NULL ORDER BY started_at
+`, [timerId]);
+
+async function timeEntryJSON(db, timeEntryId) {
+  const entry = await db.get(`
+    SELECT te.*, kt.title as task_title, tc.name as category_name
+    FROM time_entries te
+    LEFT JOIN kanban_tasks kt ON te.task_id = kt.id
+    LEFT JOIN time_categories tc ON te.category_id = tc.id
+    WHERE te.id = ?
+  `, [timeEntryId]);
+  const pauses = await db.all('SELECT * FROM timer_pauses WHERE time_entry_id = ? ORDER BY started_at', [timeEntryId]);
+
+  return {
+    id: entry.id,
+    timerId: entry.timer_id,
+    taskId: entry.task_id,
+    taskTitle: entry.task_title,
+    categoryId: entry.category_id,
+    categoryName: entry.category_name,
+    startTime: entry.start_time,
+    endTime: entry.end_time,
+    duration: entry.duration_seconds,
+    description: entry.description,
+    isBreak: Boolean(entry.is_break),
+    pausedDuration: pausedSeconds(pauses, entry.end_time),
+    pauses: pauses.map(pauseJSON)
+  };
+}
+
+const optionalString = (value, field) => {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'string') {
+    throw new TimeTrackingError(400, `${field} must be a string`);
+  }
+  return value.trim() || null;
+};
+
+const notFound = () => new TimeTrackingError(404, 'No active timer found');
+const alreadyStopped = () => new TimeTrackingError(409, 'This timer has already been stopped');
+
+/**
+ * The user's running or paused timer in the workspace, which must be `timerId` when one is named
+ * @throws {TimeTrackingError} 404 without a timer, 409 when the named timer is no longer active
+ */
+async function activeTimer(db, userId, workspaceId, timerId) {
+  const timer = await db.get('SELECT * FROM active_timers WHERE user_id = ? AND workspace_id = ?', [userId, workspaceId]);
+  if (timerId && (!timer || timer.id !== timerId)) throw alreadyStopped();
+  if (!timer) throw notFound();
+  return timer;
+}
+
+// The category a stopped timer is booked on: Break, Development for task work, else Administrative
+async function categoryFor(db, timer) {
+  const [name, fallbackId] = timer.is_break
+    ? ['Break', 'break']
+    : timer.task_id ? ['Development', 'dev-work'] : ['Administrative', 'admin'];
+
+  const category = await db.get(
+    'SELECT id FROM time_categories WHERE workspace_id = ? AND name = ?',
+    [timer.workspace_id, name]
+  );
+  return category ? category.id : fallbackId;
+}
+
+/**
+ * The user's timer in the workspace with its pauses, or the idle state
+ */
+async function getStatus(userId, workspaceId) {
+  const db = getDatabase();
+  const timer = await db.get(`
+    SELECT
+      at.*,
+      kt.title as task_title,
+      kt.priority as task_priority,
+      wf.name as workflow_name,
+      c.name as client_name
+    FROM active_timers at
+    LEFT JOIN kanban_tasks kt ON at.task_id = kt.id
+    LEFT JOIN workflows wf ON kt.workflow_id = wf.id
+    LEFT JOIN clients c ON wf.client_id = c.id
+    WHERE at.user_id = ? AND at.workspace_id = ?
+  `, [userId, workspaceId]);
+  if (!timer) return { ...IDLE };
+
+  const json = timerJSON(timer, await timerPauses(db, timer.id), new Date());
+  return { state: json.state, hasActiveTimer: true, timer: json };
+}
+
+/**
+ * Start a timer, optionally on a task of the workspace; a start retried with the same
+ * `timerId` returns the timer it started
+ * @throws {TimeTrackingError} 409 when the user already has a timer, 404 for an unknown task
+ */
+async function start(userId, workspaceId, { timerId, taskId, description, isBreak = false } = {}) {
+  const db = getDatabase();
+  const id = optionalString(timerId, 'timerId') || uuidv4();
+  taskId = optionalString(taskId, 'taskId');
+  description = optionalString(description, 'description');
+
+  const current = await db.get('SELECT id, workspace_id FROM active_timers WHERE user_id = ?', [userId]);
+  if (current && current.id === id) {
+    return getStatus(userId, workspaceId);
+  }
+  if (current) {
+    throw new TimeTrackingError(409, current.workspace_id === workspaceId
+      ? 'You already have an active timer. Please stop it first.'
+      : 'You already have an active timer in another workspace. Please stop it first.');
+  }
+  if (await db.get('SELECT 1 FROM time_entries WHERE timer_id = ?', [id])) {
+    throw alreadyStopped();
+  }
+
+  if (taskId) {
+    const task = await db.get(`
+      SELECT kt.id FROM kanban_tasks kt
+      LEFT JOIN workflows w ON kt.workflow_id = w.id
+      WHERE kt.id = ? AND COALESCE(kt.workspace_id, w.workspace_id) = ?
+    `, [taskId, workspaceId]);
+    if (!task) {
+      throw new TimeTrackingError(404, 'Task not found');
+    }
+  }
+
+  const startTime = new Date().toISOString();
+  try {
+    await db.run(`
+      INSERT INTO active_timers (id, user_id, workspace_id, task_id, start_time, description, is_break)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [id, userId, workspaceId, taskId, startTime, description, isBreak ? 1 : 0]);
+  } catch (error) {
+    if (error.code !== 'SQLITE_CONSTRAINT') throw error;
+
+    // A concurrent start got there first, which is fine when it was this same start
+    const winner = await db.get('SELECT id FROM active_timers WHERE user_id = ?', [userId]);
+    if (winner && winner.id === id) return getStatus(userId, workspaceId);
+    throw new TimeTrackingError(409, 'You already have an active timer. Please stop it first.');
+  }
+
+  await ActivityLogger.log('timer', id, 'started', userId, {
+    taskId,
+    description,
+    isBreak: Boolean(isBreak),
+    startTime,
+    workspaceId
+  });
+
+  return getStatus(userId, workspaceId);
+}
+
+/**
+ * Pause the running timer for `reason` (one of the pause reasons of the timer widget, or the
+ * user's own words); a paused timer stays paused with its first reason
+ * @throws {TimeTrackingError}
+ */
+async function pause(userId, workspaceId, { timerId, reason } = {}) {
+  const db = getDatabase();
+  reason = optionalString(reason, 'reason');
+  if (reason && reason.length > MAX_REASON_LENGTH) {
+    throw new TimeTrackingError(400, `The reason can be at most ${MAX_REASON_LENGTH} characters`);
+  }
+
+  const timer = await activeTimer(db, userId, workspaceId, optionalString(timerId, 'timerId'));
+  const pausedAt = new Date().toISOString();
+
+  // Only while the timer still exists and is not paused already
+  const { changes } = await db.run(`
+    INSERT INTO timer_pauses (id, timer_id, user_id, reason, started_at)
+    SELECT ?, ?, ?, ?, ?
+    WHERE EXISTS (SELECT 1 FROM active_timers WHERE id = ?)
+      AND NOT EXISTS (SELECT 1 FROM timer_pauses WHERE timer_id = ? AND time_entry_id IS NULL AND ended_at IS NULL)
+  `, [uuidv4(), timer.id, userId, reason, pausedAt, timer.id, timer.id]);
+
+  if (changes > 0) {
+    await ActivityLogger.log('timer', timer.id, 'paused', userId, { reason, pausedAt, workspaceId });
+  }
+  return getStatus(userId, workspaceId);
+}
+
+/**
+ * Resume the paused timer; a running timer is left as it is
+ * @throws {TimeTrackingError}
+ */
+async function resume(userId, workspaceId, { timerId } = {}) {
+  const db = getDatabase();
+  const timer = await activeTimer(db, userId, workspaceId, optionalString(timerId, 'timerId'));
+
+  const openPause = (await timerPauses(db, timer.id)).find(pause => !pause.ended_at);
+  if (openPause) {
+    const resumedAt = new Date().toISOString();
+    const { changes } = await db.run(
+      'UPDATE timer_pauses SET ended_at = ? WHERE id = ? AND ended_at IS NULL',
+      [resumedAt, openPause.id]
+    );
+
+    if (changes > 0) {
+      await ActivityLogger.log('timer', timer.id, 'resumed', userId, {
+        reason: openPause.reason,
+        pausedDuration: secondsBetween(openPause.started_at, resumedAt),
+        totalPausedDuration: pausedSeconds(await timerPauses(db, timer.id), resumedAt),
+        workspaceId
+      });
+    }
+  }
+  return getStatus(userId, workspaceId);
+}
+
+/**
+ * Stop the timer and book its time, less its pauses, as a time entry. Stopping a timer named by
+ * `timerId` that has already stopped returns the same entry.
+ * @returns {Promise<object>} the idle state with the `timeEntry`
+ * @throws {TimeTrackingError}
+ */
+async function stop(userId, workspaceId, { timerId } = {}) {
+  const db = getDatabase();
+  timerId = optionalString(timerId, 'timerId');
+
+  let timer;
+  try {
+    timer = await activeTimer(db, userId, workspaceId, timerId);
+  } catch (error) {
+    const entry = timerId && await db.get(
+      'SELECT id FROM time_entries WHERE timer_id = ? AND user_id = ?',
+      [timerId, userId]
+    );
+    if (!entry) throw error;
+    return { ...(await getStatus(userId, workspaceId)), timeEntry: await timeEntryJSON(db, entry.id) };
+  }
+
+  // The entry belongs to the week the timer started in, which a submitted or approved timesheet locks
+  const lockingTimesheet = await Timesheet.findLocking(timer.workspace_id, userId, timer.start_time);
+  if (lockingTimesheet) {
+    throw new TimeTrackingError(409,
+      `The timer started in a ${lockingTimesheet.status} timesheet week and cannot become a time entry; discard it instead`);
+  }
+
+  const endTime = new Date().toISOString();
+  const paused = pausedSeconds(await timerPauses(db, timer.id), endTime);
+  const duration = Math.max(1, secondsBetween(timer.start_time, endTime) - paused);
+  const categoryId = await categoryFor(db, timer);
+  const timeEntryId = uuidv4();
+
+  const stopped = await db.transaction(async () => {
+    // Whoever removes the timer stops it; a concurrent stop returns the entry this one made
+    const { changes } = await db.run('DELETE FROM active_timers WHERE id = ?', [timer.id]);
+    if (changes === 0) return false;
+
+    await db.run(`
+      INSERT INTO time_entries (
+        id, user_id, workspace_id, task_id, category_id, timer_id, start_time, end_time,
+        duration_seconds, status, description, is_break
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      timeEntryId, userId, timer.workspace_id, timer.task_id, categoryId, timer.id,
+      timer.start_time, endTime, duration, 'completed', timer.description, timer.is_break
+    ]);
+
+    // Stopping ends a pause that is still open
+    await db.run(`
+      UPDATE timer_pauses SET ended_at = COALESCE(ended_at, ?), time_entry_id = ?
+      WHERE timer_id = ? AND time_entry_id IS NULL
+    `, [endTime, timeEntryId, timer.id]);
+    return true;
+  });
+  if (!stopped) return stop(userId, workspaceId, { timerId: timer.id });
+
+  await ActivityLogger.log('timer', timer.id, 'stopped', userId, {
+    totalDuration: duration,
+    pausedDuration: paused,
+    timeEntryId,
+    taskId: timer.task_id,
+    workspaceId
+  });
+
+  // Budget alerts are a side effect – they must not hold up or fail the request
+  Budget.checkForTask(timer.task_id)
+    .catch(error => console.error('Error checking budget alerts:', error));
+
+  return { ...IDLE, timeEntry: await timeEntryJSON(db, timeEntryId) };
+}
+
+/**
+ * Throw the timer away without booking any time; discarding a named timer that is gone already
+ * returns the idle state
+ * @throws {TimeTrackingError}
+ */
+async function discard(userId, workspaceId, { timerId } = {}) {
+  const db = getDatabase();
+  timerId = optionalString(timerId, 'timerId');
+
+  let timer;
+  try {
+    timer = await activeTimer(db, userId, workspaceId, timerId);
+  } catch (error) {
+    if (timerId && error.status === 409) return getStatus(userId, workspaceId);
+    throw error;
+  }
+
+  await db.transaction(async () => {
+    await db.run('DELETE FROM timer_pauses WHERE timer_id = ? AND time_entry_id IS NULL', [timer.id]);
+    await db.run('DELETE FROM active_timers WHERE id = ?', [timer.id]);
+  });
+
+  await ActivityLogger.log('timer', timer.id, 'discarded', userId, { workspaceId });
+  return getStatus(userId, workspaceId);
+}
+
+module.exports = {
+  TimeTrackingError,
+  getStatus,
+  start,
+  pause,
+  resume,
+  stop,
+  discard
+};
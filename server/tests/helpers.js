@@ -0,0 +1,65 @@
+const fs = require('fs');
+const request = require('supertest');
+const app = require('../src/index');
+const { getDatabase } = require('../src/config/database');
+const { initDatabase } = require('../src/scripts/initDatabase');
+const Workspace = require('../src/models/Workspace');
+
+const PASSWORD = 'Passw0rd!23';
+
+let userCount = 0;
+
+const setupDatabase = () => initDatabase({ migrate: true });
+
+async function closeDatabase() {
+  const db = getDatabase();
+  await db.close();
+  for (const suffix of ['', '-wal', '-shm']) {
+    fs.rmSync(db.dbPath + suffix, { force: true });
+  }
+}
+
+// Headers for a request by `user` in a workspace (their own by default)
+const as = (user, workspaceId = user.workspaceId) => ({
+  Authorization: `Bearer ${user.accessToken}`,
+  'X-Workspace-Id': workspaceId
+});
+
+/**
+ * Register a user and create a workspace they own
+ * @returns {Promise<{id, email, accessToken, refreshToken, workspaceId}>}
+ */
+async function registerUser(name = 'Test User') {
+  userCount += 1;
+  const email = `user${userCount}@example.com`;
+
+  const registered = await request(app).post('/api/auth/register').send({ email, password: PASSWORD, name });
+  if (registered.status !== 201) {
+    throw new Error(`Registration failed: ${JSON.stringify(registered.body)}`);
+  }
+
+  const { user, accessToken, refreshToken } = registered.body;
+  const workspace = await request(app)
+    .post('/api/workspaces')
+    .set('Authorization', `Bearer ${accessToken}`)
+    .send({ name: `${name}'s workspace` });
+
+  return { id: user.id, email, accessToken, refreshToken, workspaceId: workspace.body.id };
+}
+
+// Add `user` to the workspace of `owner` with `role`
+async function addMember(owner, user, role) {
+  const workspace = await Workspace.findById(owner.workspaceId);
+  await workspace.addMember(user.id, role, owner.id);
+}
+
+module.exports = {
+  app,
+  request,
+  PASSWORD,
+  as,
+  setupDatabase,
+  closeDatabase,
+  registerUser,
+  addMember
+};
@@ -0,0 +1,104 @@
+const { app, request, as, setupDatabase, closeDatabase, registerUser, addMember } = require('./helpers');
+
+describe('workspace permissions', () => {
+  let owner;
+  const members = {};
+
+  beforeAll(async () => {
+    await setupDatabase();
+    owner = await registerUser('Owner');
+    for (const role of ['admin', 'manager', 'contributor', 'viewer']) {
+      members[role] = await registerUser(role);
+      await addMember(owner, members[role], role);
+    }
+  });
+
+  afterAll(closeDatabase);
+
+  const inWorkspace = (user) => as(user, owner.workspaceId);
+
+  it.each([
+    ['owner', 201],
+    ['admin', 201],
+    ['manager', 201],
+    ['contributor', 403],
+    ['viewer', 403]
+  ])('lets a %s create clients only with clients:create (%i)', async (role, status) => {
+    const user = role === 'owner' ? owner : members[role];
+    const res = await request(app)
+      .post('/api/clients')
+      .set(inWorkspace(user))
+      .send({ name: `Client of ${role}`, email: `${role}@client.example.com` });
+
+    expect(res.status).toBe(status);
+  });
+
+  it('lets every member role read clients', async () => {
+    for (const user of Object.values(members)) {
+      const res = await request(app).get('/api/clients').set(inWorkspace(user));
+      expect(res.status).toBe(200);
+    }
+  });
+
+  it('refuses roles without the permission a route needs', async () => {
+    const invoices = await request(app).get('/api/invoices').set(inWorkspace(members.contributor));
+    expect(invoices.status).toBe(403);
+
+    const deleteInvoice = await request(app).delete('/api/invoices/any-id').set(inWorkspace(members.manager));
+    expect(deleteInvoice.status).toBe(403);
+
+    const settings = await request(app)
+      .put(`/api/workspaces/${owner.workspaceId}`)
+      .set(inWorkspace(members.manager))
+      .send({ name: 'Renamed' });
+    expect(settings.status).toBe(403);
+  });
+
+  it('refuses users who are not members of the workspace', async () => {
+    const outsider = await registerUser('Outsider');
+    const res = await request(app).get('/api/clients').set(inWorkspace(outsider));
+
+    expect(res.status).toBe(403);
+  });
+
+  it('only shows the invite code to members who manage the workspace', async () => {
+    const asOwner = await request(app).get(`/api/workspaces/${owner.workspaceId}`).set(inWorkspace(owner));
+    const asViewer = await request(app).get(`/api/workspaces/${owner.workspaceId}`).set(inWorkspace(members.viewer));
+
+    expect(asOwner.body.inviteCode).toHaveLength(6);
+    expect(asOwner.body.inviteRole).toBe('viewer');
+    expect(asViewer.status).toBe(200);
+    expect(asViewer.body).not.toHaveProperty('inviteCode');
+  });
+
+  it('protects admins from members who manage the workspace without being admins', async () => {
+    const grant = await request(app)
+      .put(`/api/workspaces/${owner.workspaceId}/roles/manager`)
+      .set(inWorkspace(owner))
+      .send({ permissions: ['clients:view', 'settings:view', 'settings:manage'] });
+    expect(grant.status).toBe(200);
+
+    const demote = await request(app)
+      .put(`/api/workspaces/${owner.workspaceId}/members/${members.admin.id}/role`)
+      .set(inWorkspace(members.manager))
+      .send({ role: 'viewer' });
+    expect(demote.status).toBe(403);
+
+    const promote = await request(app)
+      .put(`/api/workspaces/${owner.workspaceId}/members/${members.viewer.id}/role`)
+      .set(inWorkspace(members.manager))
+      .send({ role: 'admin' });
+    expect(promote.status).toBe(403);
+
+    const remove = await request(app)
+      .delete(`/api/workspaces/${owner.workspaceId}/members/${members.admin.id}`)
+      .set(inWorkspace(members.manager));
+    expect(remove.status).toBe(403);
+
+    const byOwner = await request(app)
+      .put(`/api/workspaces/${owner.workspaceId}/members/${members.contributor.id}/role`)
+      .set(inWorkspace(owner))
+      .send({ role: 'viewer' });
+    expect(byOwner.status).toBe(200);
+  });
+});
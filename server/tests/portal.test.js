@@ -0,0 +1,100 @@
+const { app, request, as, setupDatabase, closeDatabase, registerUser } = require('./helpers');
+
+describe('client portal', () => {
+  let owner;
+  let guest;
+  const clients = {};
+
+  // A client with a workflow and a task shared with the client
+  async function createClient(name) {
+    const client = await request(app)
+      .post('/api/clients')
+      .set(as(owner))
+      .send({ name, email: `${name.toLowerCase()}@client.example.com` });
+    const workflow = await request(app)
+      .post('/api/workflows')
+      .set(as(owner))
+      .send({ name: `${name} website`, clientId: client.body.id });
+    const task = await request(app)
+      .post('/api/tasks')
+      .set(as(owner))
+      .send({ title: `${name} homepage`, status: 'todo', workflowId: workflow.body.id });
+    await request(app)
+      .patch(`/api/tasks/${task.body.id}/client-visibility`)
+      .set(as(owner))
+      .send({ clientVisible: true });
+
+    return { id: client.body.id, workflowId: workflow.body.id, taskId: task.body.id };
+  }
+
+  beforeAll(async () => {
+    await setupDatabase();
+    owner = await registerUser('Agency Owner');
+    clients.acme = await createClient('Acme');
+    clients.globex = await createClient('Globex');
+
+    guest = await registerUser('Acme Contact');
+    const invited = await request(app)
+      .post(`/api/clients/${clients.acme.id}/contacts`)
+      .set(as(owner))
+      .send({ email: guest.email, name: 'Acme Contact' });
+    expect(invited.status).toBe(201);
+  });
+
+  afterAll(closeDatabase);
+
+  const asGuest = () => as(guest, owner.workspaceId);
+
+  it('shows the contact their own client and workflows only', async () => {
+    const res = await request(app).get('/api/portal').set(asGuest());
+
+    expect(res.status).toBe(200);
+    expect(res.body.client.id).toBe(clients.acme.id);
+    expect(res.body.workflows.map(workflow => workflow.id)).toEqual([clients.acme.workflowId]);
+  });
+
+  it('lists only the tasks shared from the contact\'s client', async () => {
+    const res = await request(app).get('/api/portal/tasks').set(asGuest());
+
+    expect(res.status).toBe(200);
+    expect(res.body.map(task => task.id)).toEqual([clients.acme.taskId]);
+  });
+
+  it('hides the workflows and tasks of other clients', async () => {
+    const progress = await request(app)
+      .get(`/api/portal/workflows/${clients.globex.workflowId}/progress`)
+      .set(asGuest());
+    expect(progress.status).toBe(404);
+
+    const approval = await request(app)
+      .post(`/api/portal/tasks/${clients.globex.taskId}/approval`)
+      .set(asGuest())
+      .send({ decision: 'approved' });
+    expect(approval.status).toBe(404);
+  });
+
+  it('refuses the contact outside the portal', async () => {
+    for (const path of ['/api/clients', '/api/tasks', `/api/clients/${clients.acme.id}`, '/api/time-tracker/status']) {
+      const res = await request(app).get(path).set(asGuest());
+      expect(res.status).toBe(403);
+    }
+  });
+
+  it('refuses team members in the portal', async () => {
+    const res = await request(app).get('/api/portal').set(as(owner));
+
+    expect(res.status).toBe(403);
+  });
+
+  it('keeps the invite code from the contact and refuses their join', async () => {
+    const workspace = await request(app).get(`/api/workspaces/${owner.workspaceId}`).set(as(owner));
+    const asContact = await request(app).get(`/api/workspaces/${owner.workspaceId}`).set(asGuest());
+    expect(asContact.body).not.toHaveProperty('inviteCode');
+
+    const join = await request(app)
+      .post('/api/workspaces/join')
+      .set(asGuest())
+      .send({ inviteCode: workspace.body.inviteCode });
+    expect(join.status).toBe(403);
+  });
+});
@@ -0,0 +1,84 @@
+const jwt = require('jsonwebtoken');
+const { app, request, PASSWORD, setupDatabase, closeDatabase, registerUser } = require('./helpers');
+
+describe('auth sessions', () => {
+  let user;
+
+  beforeAll(async () => {
+    await setupDatabase();
+    user = await registerUser('Session User');
+  });
+
+  afterAll(closeDatabase);
+
+  const login = async () => {
+    const res = await request(app).post('/api/auth/login').send({ email: user.email, password: PASSWORD });
+    expect(res.status).toBe(200);
+    return res.body;
+  };
+
+  const me = (accessToken) => request(app).get('/api/auth/me').set('Authorization', `Bearer ${accessToken}`);
+
+  const refresh = (refreshToken) => request(app).post('/api/auth/refresh').send({ refreshToken });
+
+  it('rotates the refresh token and keeps the session', async () => {
+    const session = await login();
+
+    const first = await refresh(session.refreshToken);
+    expect(first.status).toBe(200);
+    expect(first.body.refreshToken).not.toBe(session.refreshToken);
+
+    const second = await refresh(first.body.refreshToken);
+    expect(second.status).toBe(200);
+    expect((await me(second.body.accessToken)).status).toBe(200);
+  });
+
+  it('revokes the session when a rotated-out refresh token is replayed', async () => {
+    const session = await login();
+    const rotated = await refresh(session.refreshToken);
+
+    const replay = await refresh(session.refreshToken);
+    expect(replay.status).toBe(401);
+
+    expect((await refresh(rotated.body.refreshToken)).status).toBe(401);
+    expect((await me(rotated.body.accessToken)).status).toBe(401);
+  });
+
+  it('stops accepting the tokens of a session that logged out', async () => {
+    const session = await login();
+    expect((await me(session.accessToken)).status).toBe(200);
+
+    await request(app).post('/api/auth/logout').set('Authorization', `Bearer ${session.accessToken}`);
+
+    expect((await me(session.accessToken)).status).toBe(401);
+    expect((await refresh(session.refreshToken)).status).toBe(401);
+  });
+
+  it('revokes another session, or all other sessions', async () => {
+    const current = await login();
+    const other = await login();
+    const auth = { Authorization: `Bearer ${current.accessToken}` };
+
+    const sessions = await request(app).get('/api/auth/sessions').set(auth);
+    const otherSession = sessions.body.sessions.find(session => !session.isCurrent && session.id === jwt.decode(other.accessToken).sid);
+    expect(otherSession).toBeDefined();
+
+    const revoked = await request(app).delete(`/api/auth/sessions/${otherSession.id}`).set(auth);
+    expect(revoked.status).toBe(200);
+    expect((await me(other.accessToken)).status).toBe(401);
+
+    const third = await login();
+    const all = await request(app).post('/api/auth/revoke-all-sessions').set(auth).send({});
+    expect(all.status).toBe(200);
+    expect((await me(third.accessToken)).status).toBe(401);
+    expect((await me(current.accessToken)).status).toBe(200);
+  });
+
+  it('rejects tokens that do not belong to a session', async () => {
+    const withoutSession = jwt.sign({ id: user.id, email: user.email, role: 'user' }, process.env.JWT_SECRET, { expiresIn: '15m' });
+    const magicLink = jwt.sign({ id: user.id, email: user.email, type: 'magic-link' }, process.env.JWT_SECRET, { expiresIn: '15m' });
+
+    expect((await me(withoutSession)).status).toBe(401);
+    expect((await me(magicLink)).status).toBe(401);
+  });
+});
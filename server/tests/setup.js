@@ -0,0 +1,13 @@
+// Runs before each test file: every file gets a database of its own
+const os = require('os');
+const path = require('path');
+const crypto = require('crypto');
+
+process.env.NODE_ENV = 'test';
+process.env.JWT_SECRET = 'test-secret';
+process.env.DB_PATH = path.join(os.tmpdir(), `benders-workflow-test-${crypto.randomUUID()}.db`);
+
+// Without an email provider nothing is sent (dotenv does not override variables that are set)
+for (const name of ['AWS_SES_ACCESS_KEY', 'SENDGRID_API_KEY', 'GMAIL_USER', 'SMTP_HOST']) {
+  process.env[name] = '';
+}
@@ -0,0 +1,87 @@
+const { app, request, as, setupDatabase, closeDatabase, registerUser } = require('./helpers');
+const Timesheet = require('../src/models/Timesheet');
+
+describe('time tracker', () => {
+  let user;
+
+  beforeAll(setupDatabase);
+  afterAll(closeDatabase);
+
+  beforeEach(async () => {
+    user = await registerUser('Tracker');
+  });
+
+  const command = (name, body = {}) => request(app).post(`/api/time-tracker/${name}`).set(as(user)).send(body);
+
+  it('returns the same timer when a start is retried', async () => {
+    const first = await command('start', { timerId: 'timer-1', description: 'Design' });
+    const retried = await command('start', { timerId: 'timer-1', description: 'Design' });
+
+    expect(first.status).toBe(201);
+    expect(retried.status).toBe(201);
+    expect(retried.body.timer.id).toBe('timer-1');
+
+    const another = await command('start', { timerId: 'timer-2' });
+    expect(another.status).toBe(409);
+  });
+
+  it('pauses and resumes idempotently', async () => {
+    await command('start');
+
+    const paused = await command('pause', { reason: 'Lunch' });
+    const pausedAgain = await command('pause', { reason: 'Meeting' });
+    expect(paused.body.state).toBe('paused');
+    expect(pausedAgain.body.state).toBe('paused');
+    expect(pausedAgain.body.timer.pauses).toHaveLength(1);
+    expect(pausedAgain.body.timer.pauses[0].reason).toBe('Lunch');
+
+    const resumed = await command('resume');
+    const resumedAgain = await command('resume');
+    expect(resumed.body.state).toBe('running');
+    expect(resumedAgain.body.state).toBe('running');
+    expect(resumedAgain.body.timer.pauses).toHaveLength(1);
+    expect(resumedAgain.body.timer.pauses[0].endedAt).not.toBeNull();
+  });
+
+  it('books one time entry when a stop is doubled or retried', async () => {
+    const started = await command('start');
+    const timerId = started.body.timer.id;
+
+    const [first, second] = await Promise.all([command('stop', { timerId }), command('stop', { timerId })]);
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(200);
+    expect(second.body.timeEntry.id).toBe(first.body.timeEntry.id);
+
+    const retried = await command('stop', { timerId });
+    expect(retried.body.timeEntry.id).toBe(first.body.timeEntry.id);
+
+    const entries = await request(app).get('/api/time-entries').set(as(user));
+    const booked = (entries.body.timeEntries || entries.body).filter(entry => entry.id === first.body.timeEntry.id);
+    expect(booked).toHaveLength(1);
+
+    expect((await command('pause', { timerId })).status).toBe(409);
+    expect((await command('stop')).status).toBe(404);
+  });
+
+  it('refuses to stop a timer into a locked timesheet week, but lets it be discarded', async () => {
+    await command('start');
+    const submitted = await request(app)
+      .post('/api/timesheets/submit')
+      .set(as(user))
+      .send({ weekStart: Timesheet.weekStartOf(new Date()) });
+    expect(submitted.status).toBe(201);
+
+    const stopped = await command('stop');
+    expect(stopped.status).toBe(409);
+
+    const entry = await request(app)
+      .post('/api/time-entries')
+      .set(as(user))
+      .send({ startTime: new Date(Date.now() - 3600000).toISOString(), endTime: new Date().toISOString() });
+    expect(entry.status).toBe(409);
+
+    const discarded = await command('discard');
+    expect(discarded.status).toBe(200);
+    expect(discarded.body.state).toBe('idle');
+  });
+});
@@ -0,0 +1,71 @@
+const { app, request, as, setupDatabase, closeDatabase, registerUser } = require('./helpers');
+const { getDatabase } = require('../src/config/database');
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+describe('database transactions', () => {
+  let db;
+
+  beforeAll(async () => {
+    await setupDatabase();
+    db = getDatabase();
+    await db.run('CREATE TABLE test_items (name TEXT NOT NULL)');
+  });
+
+  afterAll(closeDatabase);
+
+  beforeEach(() => db.run('DELETE FROM test_items'));
+
+  const names = async () => (await db.all('SELECT name FROM test_items ORDER BY name')).map(row => row.name);
+
+  it('runs overlapping transactions one after the other', async () => {
+    await Promise.all(['a', 'b', 'c', 'd'].map(name => db.transaction(async () => {
+      await db.run('INSERT INTO test_items (name) VALUES (?)', [`${name}1`]);
+      await tick();
+      await db.run('INSERT INTO test_items (name) VALUES (?)', [`${name}2`]);
+    })));
+
+    expect(await names()).toEqual(['a1', 'a2', 'b1', 'b2', 'c1', 'c2', 'd1', 'd2']);
+  });
+
+  it('keeps writes made outside a transaction that rolls back', async () => {
+    const failing = db.transaction(async () => {
+      await db.run('INSERT INTO test_items (name) VALUES (?)', ['undone']);
+      await tick();
+      throw new Error('Something went wrong');
+    });
+    const outside = db.run('INSERT INTO test_items (name) VALUES (?)', ['kept']);
+
+    await expect(failing).rejects.toThrow('Something went wrong');
+    await outside;
+    expect(await names()).toEqual(['kept']);
+  });
+
+  it('joins a transaction started inside another', async () => {
+    await expect(db.transaction(async () => {
+      await db.run('INSERT INTO test_items (name) VALUES (?)', ['outer']);
+      await db.transaction(() => db.run('INSERT INTO test_items (name) VALUES (?)', ['inner']));
+      throw new Error('Undo both');
+    })).rejects.toThrow('Undo both');
+
+    expect(await names()).toEqual([]);
+  });
+
+  it('saves concurrent workflow graphs', async () => {
+    const owner = await registerUser('Graph Owner');
+    const client = await request(app).post('/api/clients').set(as(owner)).send({ name: 'Client', email: 'client@example.com' });
+    const workflow = await request(app).post('/api/workflows').set(as(owner)).send({ name: 'Flow', clientId: client.body.id });
+
+    const saves = await Promise.all([1, 2, 3, 4].map(n => request(app)
+      .put(`/api/workflows/${workflow.body.id}/graph`)
+      .set(as(owner))
+      .send({
+        steps: [{ id: `start-${n}`, name: 'Start', type: 'start-end' }, { id: `work-${n}`, name: 'Work', type: 'process' }],
+        connections: [{ source: `start-${n}`, target: `work-${n}` }]
+      })));
+
+    expect(saves.map(res => res.status)).toEqual([200, 200, 200, 200]);
+    const steps = await db.all('SELECT id FROM workflow_steps WHERE workflow_id = ?', [workflow.body.id]);
+    expect(steps).toHaveLength(2);
+  });
+});
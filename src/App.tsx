@@ -3,6 +3,7 @@ import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-d
 
 // Context
 import { AppProvider } from './context/AppContext';
+import { RealtimeProvider } from './context/RealtimeContext';
 import { AuthProvider } from './context/AuthContext';
 import { WorkspaceProvider, useWorkspace } from './context/WorkspaceContext';
 import { useAppContext } from './hooks/useAppContext';
@@ -21,9 +22,13 @@ import { ResetPasswordPage } from './pages/ResetPasswordPage';
 import { OAuthCallbackPage } from './pages/OAuthCallbackPage';
 import { MagicLinkVerificationPage } from './pages/MagicLinkVerificationPage';
 import { SecurityPage } from './pages/SecurityPage';
+import { ClientPortalPage } from './pages/ClientPortalPage';
 import DashboardPage from './pages/DashboardPage';
 import WorkflowsPage from './pages/WorkflowsPage';
 import KanbanPage from './pages/KanbanPage';
+import GanttPage from './pages/GanttPage';
+import KanbanAnalyticsPage from './pages/KanbanAnalyticsPage';
+import TimesheetsPage from './pages/TimesheetsPage';
 import TeamPage from './pages/TeamPage';
 import ClientsPage from './pages/ClientsPage';
 import MeetingsPage from './pages/MeetingsPage';
@@ -99,6 +104,21 @@ const AppLayout: React.FC = () => {
                 <KanbanPage />
               </ProtectedRoute>
             } />
+            <Route path="timeline" element={
+              <ProtectedRoute>
+                <GanttPage />
+              </ProtectedRoute>
+            } />
+            <Route path="analytics" element={
+              <ProtectedRoute>
+                <KanbanAnalyticsPage />
+              </ProtectedRoute>
+            } />
+            <Route path="timesheets" element={
+              <ProtectedRoute>
+                <TimesheetsPage />
+              </ProtectedRoute>
+            } />
             <Route path="team" element={
               <ProtectedRoute>
                 <TeamPage />
@@ -133,6 +153,27 @@ const AppLayout: React.FC = () => {
   );
 };
 
+// Client contacts only get the client portal; everyone else gets the full app
+const AppShell: React.FC = () => {
+  const { currentWorkspace } = useWorkspace();
+
+  if (currentWorkspace?.userRole === 'client_guest') {
+    return (
+      <ProtectedRoute>
+        <ClientPortalPage />
+      </ProtectedRoute>
+    );
+  }
+
+  return (
+    <RealtimeProvider>
+      <AppProvider>
+        <AppLayout />
+      </AppProvider>
+    </RealtimeProvider>
+  );
+};
+
 export default function App() {
   return (
     <AuthProvider>
@@ -152,11 +193,7 @@ export default function App() {
             <Route path="/oauth/callback/github" element={<OAuthCallbackPage />} />
             
             {/* Protected Routes (With Sidebar and App Context) */}
-            <Route path="/app/*" element={
-              <AppProvider>
-                <AppLayout />
-              </AppProvider>
-            } />
+            <Route path="/app/*" element={<AppShell />} />
           </Routes>
         </Router>
       </WorkspaceProvider>
@@ -0,0 +1,193 @@
+import { useState, useEffect } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Activity, AlertTriangle, Check, LogOut, Monitor, Smartphone } from 'lucide-react';
+import { authService, type AuthSession } from '../services/authService';
+import { useAuth } from '../hooks/useAuth';
+
+const isMobile = (session: AuthSession) => /iOS|Android/.test(session.device || '');
+
+export function ActiveSessions() {
+  const { signOutEverywhere } = useAuth();
+  const [sessions, setSessions] = useState<AuthSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    fetchSessions();
+  }, []);
+
+  const fetchSessions = async () => {
+    try {
+      setSessions(await authService.getSessions());
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load sessions');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const revokeSession = async (session: AuthSession) => {
+    setBusyId(session.id);
+    setError('');
+    setSuccess('');
+
+    try {
+      await authService.revokeSession(session.id);
+      setSessions(prev => prev.filter(item => item.id !== session.id));
+      setSuccess(`Signed out ${session.device || 'the device'}.`);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to revoke session');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const revokeOtherSessions = async () => {
+    setBusyId('others');
+    setError('');
+    setSuccess('');
+
+    try {
+      const revoked = await authService.revokeOtherSessions();
+      setSessions(prev => prev.filter(item => item.isCurrent));
+      setSuccess(`Signed out ${revoked} other session${revoked === 1 ? '' : 's'}.`);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to revoke sessions');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    if (!confirm('Sign out of every device, including this one?')) return;
+
+    setBusyId('all');
+    try {
+      await signOutEverywhere();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to revoke sessions');
+      setBusyId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const hasOtherSessions = sessions.some(session => !session.isCurrent);
+
+  return (
+    <div className="max-w-2xl mx-auto p-6">
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200">
+        {/* Header */}
+        <div className="border-b border-gray-200 p-6">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
+              <Activity className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Active Sessions</h2>
+              <p className="text-sm text-gray-600">Manage devices logged into your account</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6">
+          {/* Status messages */}
+          {error && (
+            <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+              <div className="flex items-start gap-2">
+                <AlertTriangle className="w-4 h-4 mt-0.5 text-red-500 flex-shrink-0" />
+                <p className="text-sm text-red-700">{error}</p>
+              </div>
+            </div>
+          )}
+
+          {success && (
+            <div className="mb-4 p-4 bg-green-50 border border-green-200 rounded-lg">
+              <div className="flex items-start gap-2">
+                <Check className="w-4 h-4 mt-0.5 text-green-500 flex-shrink-0" />
+                <p className="text-sm text-green-700">{success}</p>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-4">
+            {sessions.map(session => {
+              const DeviceIcon = isMobile(session) ? Smartphone : Monitor;
+              return (
+                <div key={session.id} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <div className={`w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0 ${
+                      session.isCurrent ? 'bg-green-100' : 'bg-gray-100'
+                    }`}>
+                      <DeviceIcon className={`w-4 h-4 ${session.isCurrent ? 'text-green-600' : 'text-gray-600'}`} />
+                    </div>
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate" title={session.userAgent || undefined}>
+                        {session.device || 'Unknown device'}
+                      </p>
+                      <p className="text-sm text-gray-600">
+                        {session.ip || 'Unknown IP'} · {session.isCurrent
+                          ? 'Active now'
+                          : `Last active ${formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}`}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        Signed in {formatDistanceToNow(new Date(session.createdAt), { addSuffix: true })}
+                        {session.rememberMe && ' · Remembered'}
+                      </p>
+                    </div>
+                  </div>
+                  {session.isCurrent ? (
+                    <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded-full">
+                      Current
+                    </span>
+                  ) : (
+                    <button
+                      onClick={() => revokeSession(session)}
+                      disabled={busyId !== null}
+                      className="text-sm text-red-600 hover:text-red-700 font-medium disabled:opacity-50"
+                    >
+                      {busyId === session.id ? 'Revoking...' : 'Revoke'}
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+
+            {sessions.length === 0 && (
+              <div className="text-center py-8 text-gray-500">
+                <Activity className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+                <p>No active sessions</p>
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-3 mt-6 pt-6 border-t border-gray-200">
+            <button
+              onClick={revokeOtherSessions}
+              disabled={!hasOtherSessions || busyId !== null}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              {busyId === 'others' ? 'Signing out...' : 'Sign out other sessions'}
+            </button>
+            <button
+              onClick={handleSignOutEverywhere}
+              disabled={busyId !== null}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+            >
+              <LogOut className="w-4 h-4" />
+              Sign out everywhere
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
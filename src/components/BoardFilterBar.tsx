@@ -0,0 +1,307 @@
+import React, { useState } from 'react';
+import { Search, Save, Share2, Trash2, Link as LinkIcon, X, Rows, ArrowUpDown } from 'lucide-react';
+import { BoardView, BoardViewConfig, BoardSwimlane, BoardSort, BoardDueWindow, TeamMember, Workflow, Client } from '../types';
+import { boardViewService, ApiError } from '../services';
+import {
+  BOARD_SWIMLANE_LABELS,
+  BOARD_SORT_LABELS,
+  BOARD_DUE_LABELS,
+  DEFAULT_BOARD_VIEW_CONFIG,
+  sameBoardConfig
+} from '../services/boardViewService';
+
+interface BoardFilterBarProps {
+  config: BoardViewConfig;
+  onConfigChange: (config: BoardViewConfig) => void;
+  views: BoardView[];
+  activeView: BoardView | null;
+  onViewSelect: (view: BoardView | null) => void;
+  onViewsChange: (views: BoardView[]) => void;
+  currentUserId?: string;
+  teamMembers: TeamMember[];
+  workflows: Workflow[];
+  clients: Client[];
+  tags: string[];
+  actions?: React.ReactNode;
+}
+
+// The API explains refusals (a missing name, someone else's view) in an { error } or { errors } body
+const apiErrorMessage = (err: unknown, fallback: string) => {
+  if (!(err instanceof ApiError) || (err.status !== 400 && err.status !== 403)) return fallback;
+  try {
+    const body = JSON.parse(err.message) as { error?: string; errors?: { msg: string }[] };
+    return body.error || body.errors?.[0]?.msg || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const selectClass = 'form-input lg:max-w-[200px]';
+
+// Filters, swimlanes and sorting of the Kanban board, and the saved views that remember them
+export const BoardFilterBar: React.FC<BoardFilterBarProps> = ({
+  config,
+  onConfigChange,
+  views,
+  activeView,
+  onViewSelect,
+  onViewsChange,
+  currentUserId,
+  teamMembers,
+  workflows,
+  clients,
+  tags,
+  actions
+}) => {
+  const [newViewName, setNewViewName] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const ownView = activeView && activeView.ownerId === currentUserId ? activeView : null;
+  const isModified = activeView !== null && !sameBoardConfig(activeView.config, config);
+  const hasFilters = !sameBoardConfig(config, DEFAULT_BOARD_VIEW_CONFIG);
+  const myViews = views.filter(view => view.ownerId === currentUserId);
+  const sharedViews = views.filter(view => view.ownerId !== currentUserId);
+  const clientWorkflows = config.clientId ? workflows.filter(w => w.clientId === config.clientId) : workflows;
+
+  const update = (changes: Partial<BoardViewConfig>) => {
+    onConfigChange({ ...config, ...changes });
+  };
+
+  // Picking a workflow also picks its client; picking a client clears a workflow of another client
+  const handleClientChange = (clientId: string) => {
+    const workflow = workflows.find(w => w.id === config.workflowId);
+    update({ clientId: clientId || undefined, workflowId: workflow && workflow.clientId === clientId ? workflow.id : undefined });
+  };
+
+  const handleWorkflowChange = (workflowId: string) => {
+    const workflow = workflows.find(w => w.id === workflowId);
+    update({ workflowId: workflowId || undefined, clientId: workflow ? workflow.clientId : config.clientId });
+  };
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      await action();
+    } catch (err) {
+      setMessage({ type: 'error', text: apiErrorMessage(err, fallback) });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newViewName?.trim();
+    if (!name) return;
+
+    run(async () => {
+      const view = await boardViewService.create({ name, config });
+      onViewsChange([...views, view]);
+      onViewSelect(view);
+      setNewViewName(null);
+      setMessage({ type: 'success', text: `Saved view "${view.name}"` });
+    }, 'Failed to save the view');
+  };
+
+  const replaceView = (view: BoardView) => {
+    onViewsChange(views.map(other => (other.id === view.id ? view : other)));
+    onViewSelect(view);
+  };
+
+  const handleUpdate = () => {
+    if (!ownView) return;
+    run(async () => {
+      replaceView(await boardViewService.update(ownView.id, { config }));
+      setMessage({ type: 'success', text: `Updated view "${ownView.name}"` });
+    }, 'Failed to update the view');
+  };
+
+  const handleShareToggle = () => {
+    if (!ownView) return;
+    run(async () => {
+      const view = await boardViewService.update(ownView.id, { isShared: !ownView.isShared });
+      // Sharing keeps the board as it is, even with unsaved changes
+      onViewsChange(views.map(other => (other.id === view.id ? view : other)));
+      setMessage({ type: 'success', text: view.isShared ? 'Shared with the workspace' : 'No longer shared' });
+    }, 'Failed to share the view');
+  };
+
+  const handleDelete = () => {
+    if (!ownView || !window.confirm(`Delete the view "${ownView.name}"?`)) return;
+    run(async () => {
+      await boardViewService.delete(ownView.id);
+      onViewsChange(views.filter(view => view.id !== ownView.id));
+      onViewSelect(null);
+    }, 'Failed to delete the view');
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setMessage({ type: 'success', text: 'Link copied to clipboard' });
+    } catch {
+      setMessage({ type: 'error', text: 'Failed to copy the link' });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col lg:flex-row lg:flex-wrap gap-3">
+        <div className="relative flex-1 lg:min-w-[220px]">
+          <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="search"
+            value={config.search || ''}
+            onChange={(e) => update({ search: e.target.value || undefined })}
+            placeholder="Search tasks..."
+            className="form-input pl-9"
+          />
+        </div>
+
+        <select value={config.clientId || ''} onChange={(e) => handleClientChange(e.target.value)} className={selectClass}>
+          <option value="">All clients</option>
+          {clients.map(client => (
+            <option key={client.id} value={client.id}>{client.company || client.name}</option>
+          ))}
+        </select>
+
+        <select value={config.workflowId || ''} onChange={(e) => handleWorkflowChange(e.target.value)} className={selectClass}>
+          <option value="">{config.clientId ? 'All client workflows' : 'All workflows'}</option>
+          {clientWorkflows.map(workflow => (
+            <option key={workflow.id} value={workflow.id}>{workflow.name}</option>
+          ))}
+        </select>
+
+        <select value={config.assigneeId || ''} onChange={(e) => update({ assigneeId: e.target.value || undefined })} className={selectClass}>
+          <option value="">Anyone</option>
+          <option value="none">Unassigned</option>
+          {teamMembers.map(member => (
+            <option key={member.id} value={member.id}>{member.name}</option>
+          ))}
+        </select>
+
+        <select value={config.tag || ''} onChange={(e) => update({ tag: e.target.value || undefined })} className={selectClass}>
+          <option value="">All tags</option>
+          {tags.map(tag => (
+            <option key={tag} value={tag}>{tag}</option>
+          ))}
+        </select>
+
+        <select
+          value={config.due || ''}
+          onChange={(e) => update({ due: (e.target.value || undefined) as BoardDueWindow | undefined })}
+          className={selectClass}
+        >
+          <option value="">Any due date</option>
+          {(Object.keys(BOARD_DUE_LABELS) as BoardDueWindow[]).map(key => (
+            <option key={key} value={key}>{BOARD_DUE_LABELS[key]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-col lg:flex-row lg:items-center gap-3">
+        <div className="flex items-center gap-2">
+          <Rows className="w-4 h-4 text-gray-400 flex-shrink-0" />
+          <select value={config.swimlane} onChange={(e) => update({ swimlane: e.target.value as BoardSwimlane })} className={selectClass}>
+            {(Object.keys(BOARD_SWIMLANE_LABELS) as BoardSwimlane[]).map(key => (
+              <option key={key} value={key}>{BOARD_SWIMLANE_LABELS[key]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center gap-2">
+          <ArrowUpDown className="w-4 h-4 text-gray-400 flex-shrink-0" />
+          <select value={config.sort} onChange={(e) => update({ sort: e.target.value as BoardSort })} className={selectClass}>
+            {(Object.keys(BOARD_SORT_LABELS) as BoardSort[]).map(key => (
+              <option key={key} value={key}>Sort: {BOARD_SORT_LABELS[key]}</option>
+            ))}
+          </select>
+        </div>
+        {hasFilters && (
+          <button onClick={() => onConfigChange(DEFAULT_BOARD_VIEW_CONFIG)} className="text-sm text-gray-500 hover:text-gray-700 flex items-center gap-1">
+            <X className="w-4 h-4" />
+            Clear
+          </button>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2 lg:ml-auto">
+          <select
+            value={activeView?.id || ''}
+            onChange={(e) => onViewSelect(views.find(view => view.id === e.target.value) || null)}
+            className={selectClass}
+          >
+            <option value="">{activeView ? 'No saved view' : 'Saved views...'}</option>
+            {myViews.length > 0 && (
+              <optgroup label="My views">
+                {myViews.map(view => (
+                  <option key={view.id} value={view.id}>{view.name}{view.isShared ? ' (shared)' : ''}</option>
+                ))}
+              </optgroup>
+            )}
+            {sharedViews.length > 0 && (
+              <optgroup label="Shared with the workspace">
+                {sharedViews.map(view => (
+                  <option key={view.id} value={view.id}>{view.name}{view.ownerName ? ` – ${view.ownerName}` : ''}</option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+
+          {newViewName !== null ? (
+            <form onSubmit={handleCreate} className="flex items-center gap-2">
+              <input
+                autoFocus
+                value={newViewName}
+                onChange={(e) => setNewViewName(e.target.value)}
+                placeholder="View name"
+                maxLength={100}
+                className="form-input max-w-[180px]"
+              />
+              <button type="submit" disabled={isSaving || !newViewName.trim()} className="btn-primary disabled:opacity-50">
+                Save
+              </button>
+              <button type="button" onClick={() => setNewViewName(null)} className="btn-outline">Cancel</button>
+            </form>
+          ) : (
+            <>
+              {ownView && isModified && (
+                <button onClick={handleUpdate} disabled={isSaving} className="btn-primary disabled:opacity-50">
+                  <Save className="w-4 h-4" />
+                  Update view
+                </button>
+              )}
+              <button onClick={() => setNewViewName('')} className="btn-outline" title="Save the board's filters and layout as a new view">
+                <Save className="w-4 h-4" />
+                Save as
+              </button>
+              {ownView && (
+                <>
+                  <button
+                    onClick={handleShareToggle}
+                    disabled={isSaving}
+                    className={`btn-outline ${ownView.isShared ? 'text-primary' : ''}`}
+                    title={ownView.isShared ? 'Stop sharing with the workspace' : 'Share with the workspace'}
+                  >
+                    <Share2 className="w-4 h-4" />
+                  </button>
+                  <button onClick={handleDelete} disabled={isSaving} className="btn-outline" title="Delete view">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </>
+              )}
+            </>
+          )}
+          <button onClick={copyLink} className="btn-outline" title="Copy a link to this board">
+            <LinkIcon className="w-4 h-4" />
+          </button>
+          {actions}
+        </div>
+      </div>
+
+      {message && (
+        <p className={`text-sm ${message.type === 'error' ? 'text-red-600' : 'text-green-600'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+};
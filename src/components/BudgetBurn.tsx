@@ -0,0 +1,148 @@
+import React from 'react';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { BudgetBurn, BudgetMetric } from '../types';
+
+const CHART_WIDTH = 300;
+
+const formatValue = (value: number, metric: BudgetMetric, currency: string) =>
+  metric === 'hours'
+    ? `${Math.round(value * 10) / 10}h`
+    : new Intl.NumberFormat(undefined, { style: 'currency', currency, maximumFractionDigits: 0 }).format(value);
+
+const formatDay = (date: string) => format(parseISO(date), 'MMM d');
+
+const meterColor = (percent: number) => {
+  if (percent >= 100) return 'bg-red-500';
+  if (percent >= 75) return 'bg-amber-500';
+  return 'bg-green-500';
+};
+
+interface BudgetMeterProps {
+  burn: BudgetBurn;
+  metric: BudgetMetric;
+  currency: string;
+}
+
+// Used vs. limit bar for one budget metric
+export const BudgetMeter: React.FC<BudgetMeterProps> = ({ burn, metric, currency }) => {
+  const { used, limit, percent } = burn[metric];
+  if (limit === null || percent === null) return null;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between text-xs mb-1">
+        <span className="text-gray-600">
+          {formatValue(used, metric, currency)} of {formatValue(limit, metric, currency)}
+        </span>
+        <span className={`font-bold ${percent >= 100 ? 'text-red-600' : 'text-gray-900'}`}>{Math.round(percent)}%</span>
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-2">
+        <div
+          className={`h-2 rounded-full ${meterColor(percent)} transition-all duration-500`}
+          style={{ width: `${Math.min(percent, 100)}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+interface BudgetForecastProps {
+  burn: BudgetBurn;
+  metric: BudgetMetric;
+  currency: string;
+}
+
+// One-line forecast: projected total at the period end and when the budget runs out
+export const BudgetForecast: React.FC<BudgetForecastProps> = ({ burn, metric, currency }) => {
+  const { remaining, exhaustedOn } = burn[metric];
+  const projected = metric === 'hours' ? burn.forecast.projectedHours : burn.forecast.projectedAmount;
+  const parts: string[] = [];
+
+  if (projected !== null && burn.forecast.endDate) {
+    parts.push(`~${formatValue(projected, metric, currency)} by ${formatDay(burn.forecast.endDate)}`);
+  }
+  if (exhaustedOn) {
+    parts.push(remaining !== null && remaining <= 0
+      ? `exhausted ${formatDay(exhaustedOn)}`
+      : `runs out ~${formatDay(exhaustedOn)}`);
+  }
+  if (parts.length === 0) return null;
+
+  return <div className="text-xs text-gray-500">Forecast: {parts.join(' · ')}</div>;
+};
+
+interface BurnDownChartProps {
+  burn: BudgetBurn;
+  metric: BudgetMetric;
+  height?: number;
+}
+
+// Remaining budget over time, with the ideal line to the period end and the forecast from today.
+// Plain SVG – the budget views only need this one small chart.
+export const BurnDownChart: React.FC<BurnDownChartProps> = ({ burn, metric, height = 80 }) => {
+  const { limit, used } = burn[metric];
+  if (limit === null) return null;
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const start = burn.periodStart || burn.series[0]?.date || today;
+  const end = burn.periodEnd && burn.periodEnd > today ? burn.periodEnd : today;
+  const totalDays = Math.max(1, differenceInCalendarDays(parseISO(end), parseISO(start)));
+  const projected = metric === 'hours' ? burn.forecast.projectedHours : burn.forecast.projectedAmount;
+
+  const points = [
+    { date: start, remaining: limit },
+    ...burn.series
+      .filter(point => point.date >= start)
+      .map(point => ({ date: point.date, remaining: limit - point[metric] })),
+    { date: today, remaining: limit - used }
+  ];
+  const forecastEnd = burn.periodEnd && projected !== null && end > today
+    ? { date: end, remaining: limit - projected }
+    : null;
+
+  const lowest = Math.min(0, ...points.map(point => point.remaining), forecastEnd?.remaining ?? 0);
+  const x = (date: string) =>
+    (Math.max(0, differenceInCalendarDays(parseISO(date), parseISO(start))) / totalDays) * CHART_WIDTH;
+  const y = (value: number) => height - ((value - lowest) / (limit - lowest)) * height;
+  const path = (series: { date: string; remaining: number }[]) =>
+    series.map(point => `${x(point.date).toFixed(1)},${y(point.remaining).toFixed(1)}`).join(' ');
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${height}`}
+      preserveAspectRatio="none"
+      className="w-full"
+      style={{ height }}
+      role="img"
+      aria-label={`Remaining ${metric} budget over time`}
+    >
+      <line x1={0} x2={CHART_WIDTH} y1={y(0)} y2={y(0)} stroke="#e5e7eb" vectorEffect="non-scaling-stroke" />
+      {burn.periodEnd && (
+        <polyline
+          points={path([{ date: start, remaining: limit }, { date: burn.periodEnd, remaining: 0 }])}
+          fill="none"
+          stroke="#d1d5db"
+          strokeDasharray="4 4"
+          vectorEffect="non-scaling-stroke"
+        />
+      )}
+      {forecastEnd && (
+        <polyline
+          points={path([points[points.length - 1], forecastEnd])}
+          fill="none"
+          stroke={forecastEnd.remaining < 0 ? '#ef4444' : '#f59e0b'}
+          strokeDasharray="4 3"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+      )}
+      <polyline
+        points={path(points)}
+        fill="none"
+        stroke={used >= limit ? '#ef4444' : '#3b82f6'}
+        strokeWidth={2}
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  );
+};
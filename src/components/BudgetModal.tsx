@@ -0,0 +1,265 @@
+import React, { useState, useEffect } from 'react';
+import { X, PiggyBank, Trash2 } from 'lucide-react';
+import { Budget, BudgetEntityType, BudgetMetric, BudgetPeriod } from '../types';
+import { budgetService, ApiError } from '../services';
+import { BudgetMeter, BudgetForecast, BurnDownChart } from './BudgetBurn';
+
+interface BudgetModalProps {
+  entityType: BudgetEntityType;
+  entityId: string;
+  entityName: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved?: () => void;
+}
+
+interface BudgetFormData {
+  hours: string;
+  amount: string;
+  currency: string;
+  period: BudgetPeriod;
+  alertThresholds: string;
+}
+
+// The API explains refusals (nothing to budget, bad thresholds) in an { error } or { errors } body
+const apiErrorMessage = (err: unknown, fallback: string) => {
+  if (!(err instanceof ApiError) || err.status !== 400) return fallback;
+  try {
+    const body = JSON.parse(err.message) as { error?: string; errors?: { msg: string }[] };
+    return body.error || body.errors?.[0]?.msg || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const toFormData = (budget: Budget | null, entityType: BudgetEntityType): BudgetFormData => ({
+  hours: budget?.hours ? String(budget.hours) : '',
+  amount: budget?.amount ? String(budget.amount) : '',
+  currency: budget?.currency || 'USD',
+  period: budget?.period || (entityType === 'client' ? 'monthly' : 'total'),
+  alertThresholds: (budget?.alertThresholds || [75, 100]).join(', ')
+});
+
+export const BudgetModal: React.FC<BudgetModalProps> = ({
+  entityType,
+  entityId,
+  entityName,
+  isOpen,
+  onClose,
+  onSaved
+}) => {
+  const [budget, setBudget] = useState<Budget | null>(null);
+  const [formData, setFormData] = useState<BudgetFormData>(toFormData(null, entityType));
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const loadBudget = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const existing = await budgetService.get(entityType, entityId);
+        setBudget(existing);
+        setFormData(toFormData(existing, entityType));
+      } catch (err) {
+        // No budget yet is the normal case for a fresh workflow or client
+        if (!(err instanceof ApiError && err.status === 404)) {
+          setError('Failed to load budget');
+        }
+        setBudget(null);
+        setFormData(toFormData(null, entityType));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadBudget();
+  }, [isOpen, entityType, entityId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const thresholds = formData.alertThresholds
+      .split(',')
+      .map(value => parseInt(value.trim(), 10))
+      .filter(value => !isNaN(value));
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = await budgetService.set(entityType, entityId, {
+        hours: formData.hours ? parseFloat(formData.hours) : null,
+        amount: formData.amount ? parseFloat(formData.amount) : null,
+        currency: formData.currency,
+        period: formData.period,
+        alertThresholds: thresholds
+      });
+      setBudget(saved);
+      onSaved?.();
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to save budget'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`Remove the budget for ${entityName}?`)) return;
+
+    setIsSaving(true);
+    try {
+      await budgetService.delete(entityType, entityId);
+      setBudget(null);
+      setFormData(toFormData(null, entityType));
+      onSaved?.();
+    } catch {
+      setError('Failed to remove budget');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const metrics: BudgetMetric[] = budget?.burn
+    ? (['hours', 'amount'] as BudgetMetric[]).filter(metric => budget.burn?.[metric].limit !== null)
+    : [];
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-gradient-to-r from-primary to-accent text-white">
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <PiggyBank className="w-5 h-5" />
+            {entityType === 'client' ? 'Retainer' : 'Budget'} – {entityName}
+          </h2>
+          <button onClick={onClose} className="p-1.5 hover:bg-white/10 rounded-lg transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center p-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="flex-1 overflow-y-auto p-6 space-y-5">
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 text-red-700 rounded-xl text-sm">{error}</div>
+            )}
+
+            {budget?.burn && metrics.length > 0 && (
+              <div className="space-y-4 p-4 bg-gray-50 rounded-xl">
+                {metrics.map(metric => (
+                  <div key={metric} className="space-y-2">
+                    <div className="text-xs font-semibold text-gray-500 uppercase">
+                      {metric === 'hours' ? 'Hours' : 'Money'}
+                      {budget.period === 'monthly' && ` · ${budget.burn?.periodKey}`}
+                    </div>
+                    <BudgetMeter burn={budget.burn!} metric={metric} currency={budget.currency} />
+                    <BurnDownChart burn={budget.burn!} metric={metric} />
+                    <BudgetForecast burn={budget.burn!} metric={metric} currency={budget.currency} />
+                  </div>
+                ))}
+                {budget.amount !== null && budget.burn.unpricedHours > 0 && (
+                  <p className="text-xs text-amber-700">
+                    {budget.burn.unpricedHours}h tracked by members without a billing rate are not counted in the money budget.
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="form-label">Hour budget</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={formData.hours}
+                  onChange={(e) => setFormData({ ...formData, hours: e.target.value })}
+                  className="form-input"
+                  placeholder="e.g. 120"
+                />
+              </div>
+              <div>
+                <label className="form-label">Money budget</label>
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.amount}
+                    onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                    className="form-input flex-1 min-w-0"
+                    placeholder="e.g. 12000"
+                  />
+                  <input
+                    type="text"
+                    maxLength={3}
+                    value={formData.currency}
+                    onChange={(e) => setFormData({ ...formData, currency: e.target.value.toUpperCase() })}
+                    className="form-input w-20"
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <label className="form-label">Period</label>
+              <select
+                value={formData.period}
+                onChange={(e) => setFormData({ ...formData, period: e.target.value as BudgetPeriod })}
+                className="form-input"
+              >
+                <option value="total">Total – for the whole {entityType}</option>
+                <option value="monthly">Monthly – resets every month (retainer)</option>
+              </select>
+            </div>
+
+            <div>
+              <label className="form-label">Alert at (% of budget)</label>
+              <input
+                type="text"
+                value={formData.alertThresholds}
+                onChange={(e) => setFormData({ ...formData, alertThresholds: e.target.value })}
+                className="form-input"
+                placeholder="75, 100"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Workspace admins get an in-app alert and an email when burn crosses each threshold.
+              </p>
+            </div>
+
+            <div className="flex items-center justify-between pt-2">
+              {budget ? (
+                <button
+                  type="button"
+                  onClick={handleDelete}
+                  disabled={isSaving}
+                  className="flex items-center gap-1 text-sm text-red-600 hover:text-red-700"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Remove budget
+                </button>
+              ) : <span />}
+              <div className="flex gap-2">
+                <button type="button" onClick={onClose} className="btn-outline">Close</button>
+                <button
+                  type="submit"
+                  disabled={isSaving || (!formData.hours && !formData.amount)}
+                  className="btn-primary disabled:opacity-50"
+                >
+                  {isSaving ? 'Saving...' : 'Save budget'}
+                </button>
+              </div>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,545 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, FileText, Plus, Printer, Send, CheckCircle, Ban, Trash2, DollarSign } from 'lucide-react';
+import { BillingRate, Client, Invoice, InvoicePreview, InvoiceStatus, WorkspaceMember } from '../types';
+import { invoiceService, workspaceService, ApiError } from '../services';
+import { useWorkspace } from '../context/WorkspaceContext';
+
+interface ClientInvoicesModalProps {
+  client: Client | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type Panel = 'invoice' | 'new' | 'rates';
+
+const statusStyles: Record<InvoiceStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  sent: 'bg-blue-100 text-blue-700',
+  paid: 'bg-green-100 text-green-700',
+  void: 'bg-red-100 text-red-700 line-through'
+};
+
+const formatMoney = (amount: number, currency: string) =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+
+const formatDate = (date: string | null) => (date ? new Date(date).toLocaleDateString() : '—');
+
+const toDateInput = (date: Date) => date.toISOString().split('T')[0];
+
+// The API explains refusals (missing rates, nothing to bill) in an { error } body
+const apiErrorMessage = (err: unknown, fallback: string) => {
+  if (!(err instanceof ApiError) || err.status !== 400) return fallback;
+  try {
+    return (JSON.parse(err.message) as { error?: string }).error || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+// Printable invoice – the .print-area class makes it the only thing on the printed page
+const InvoiceDocument: React.FC<{ invoice: Invoice }> = ({ invoice }) => (
+  <div className="print-area bg-white p-8 border border-gray-200 rounded-xl text-sm text-gray-800">
+    <div className="flex items-start justify-between mb-8">
+      <div>
+        <h3 className="text-2xl font-bold text-gray-900">Invoice {invoice.number}</h3>
+        <p className="text-gray-600">{invoice.workspaceName}</p>
+      </div>
+      <span className={`px-3 py-1 rounded-full text-xs font-bold uppercase ${statusStyles[invoice.status]}`}>
+        {invoice.status}
+      </span>
+    </div>
+
+    <div className="grid grid-cols-2 gap-6 mb-8">
+      <div>
+        <div className="text-xs font-semibold text-gray-500 uppercase mb-1">Bill to</div>
+        <div className="font-semibold">{invoice.client?.company}</div>
+        <div>{invoice.client?.name}</div>
+        {invoice.client?.email && <div className="text-gray-600">{invoice.client.email}</div>}
+      </div>
+      <div className="text-right space-y-0.5">
+        <div><span className="text-gray-500">Issued:</span> {formatDate(invoice.issueDate)}</div>
+        <div><span className="text-gray-500">Due:</span> {formatDate(invoice.dueDate)}</div>
+        <div>
+          <span className="text-gray-500">Period:</span> {formatDate(invoice.periodStart)} – {formatDate(invoice.periodEnd)}
+        </div>
+      </div>
+    </div>
+
+    <table className="w-full mb-6">
+      <thead>
+        <tr className="border-b-2 border-gray-300 text-left text-xs uppercase text-gray-500">
+          <th className="py-2">Description</th>
+          <th className="py-2 text-right">Hours</th>
+          <th className="py-2 text-right">Rate</th>
+          <th className="py-2 text-right">Amount</th>
+        </tr>
+      </thead>
+      <tbody>
+        {invoice.lineItems.map((item, index) => {
+          const showWorkflow = item.workflowName &&
+            (index === 0 || invoice.lineItems[index - 1].workflowName !== item.workflowName);
+          return (
+            <React.Fragment key={item.id || index}>
+              {showWorkflow && (
+                <tr>
+                  <td colSpan={4} className="pt-4 pb-1 font-semibold text-gray-900">{item.workflowName}</td>
+                </tr>
+              )}
+              <tr className="border-b border-gray-100">
+                <td className="py-2 pl-3">{item.description}</td>
+                <td className="py-2 text-right">{item.hours.toFixed(2)}</td>
+                <td className="py-2 text-right">{formatMoney(item.rate, invoice.currency)}</td>
+                <td className="py-2 text-right">{formatMoney(item.amount, invoice.currency)}</td>
+              </tr>
+            </React.Fragment>
+          );
+        })}
+      </tbody>
+    </table>
+
+    <div className="ml-auto w-64 space-y-1">
+      <div className="flex justify-between">
+        <span className="text-gray-500">Subtotal</span>
+        <span>{formatMoney(invoice.subtotal, invoice.currency)}</span>
+      </div>
+      {invoice.taxRate > 0 && (
+        <div className="flex justify-between">
+          <span className="text-gray-500">Tax ({invoice.taxRate}%)</span>
+          <span>{formatMoney(invoice.taxAmount, invoice.currency)}</span>
+        </div>
+      )}
+      <div className="flex justify-between pt-2 border-t border-gray-300 text-base font-bold">
+        <span>Total</span>
+        <span>{formatMoney(invoice.total, invoice.currency)}</span>
+      </div>
+    </div>
+
+    {invoice.notes && (
+      <div className="mt-8 pt-4 border-t border-gray-200 text-gray-600 whitespace-pre-line">{invoice.notes}</div>
+    )}
+  </div>
+);
+
+export const ClientInvoicesModal: React.FC<ClientInvoicesModalProps> = ({ client, isOpen, onClose }) => {
+  const { currentWorkspace } = useWorkspace();
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
+  const [panel, setPanel] = useState<Panel>('new');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // New invoice form – defaults to last month
+  const today = new Date();
+  const [periodStart, setPeriodStart] = useState(toDateInput(new Date(today.getFullYear(), today.getMonth() - 1, 1)));
+  const [periodEnd, setPeriodEnd] = useState(toDateInput(new Date(today.getFullYear(), today.getMonth(), 0)));
+  const [dueDate, setDueDate] = useState('');
+  const [taxRate, setTaxRate] = useState('0');
+  const [notes, setNotes] = useState('');
+  const [preview, setPreview] = useState<InvoicePreview | null>(null);
+
+  // Rates
+  const [rates, setRates] = useState<BillingRate[]>([]);
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [rateScope, setRateScope] = useState<'client' | 'workspace'>('client');
+  const [rateUserId, setRateUserId] = useState('');
+  const [hourlyRate, setHourlyRate] = useState('');
+  const [currency, setCurrency] = useState('USD');
+
+  const loadInvoices = useCallback(async () => {
+    if (!client) return;
+    try {
+      setInvoices(await invoiceService.getAll({ clientId: client.id }));
+    } catch (err) {
+      console.error('Failed to load invoices:', err);
+      setError('Failed to load invoices');
+    }
+  }, [client]);
+
+  const loadRates = useCallback(async () => {
+    if (!client) return;
+    try {
+      setRates(await invoiceService.getRates(client.id));
+    } catch (err) {
+      console.error('Failed to load billing rates:', err);
+      setError('Failed to load billing rates');
+    }
+  }, [client]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadInvoices();
+      setSelectedInvoice(null);
+      setPanel('new');
+      setError(null);
+    }
+  }, [isOpen, loadInvoices]);
+
+  useEffect(() => {
+    if (!isOpen || !currentWorkspace) return;
+    workspaceService.getWorkspace(currentWorkspace.id)
+      .then(workspace => setMembers(workspace.members || []))
+      .catch(err => console.error('Failed to load workspace members:', err));
+  }, [isOpen, currentWorkspace]);
+
+  // Refresh the preview whenever the period changes
+  useEffect(() => {
+    if (!isOpen || !client || panel !== 'new' || !periodStart || !periodEnd) return;
+    let cancelled = false;
+
+    invoiceService.preview({ clientId: client.id, periodStart, periodEnd })
+      .then(result => {
+        if (!cancelled) setPreview(result);
+      })
+      .catch(err => {
+        console.error('Failed to preview invoice:', err);
+        if (!cancelled) setPreview(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, client, panel, periodStart, periodEnd]);
+
+  useEffect(() => {
+    if (isOpen && panel === 'rates') loadRates();
+  }, [isOpen, panel, loadRates]);
+
+  const handleSelect = async (invoiceId: string) => {
+    try {
+      setSelectedInvoice(await invoiceService.getById(invoiceId));
+      setPanel('invoice');
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load invoice:', err);
+      setError('Failed to load invoice');
+    }
+  };
+
+  const handleGenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!client) return;
+
+    try {
+      setIsSubmitting(true);
+      const invoice = await invoiceService.generate({
+        clientId: client.id,
+        periodStart,
+        periodEnd,
+        dueDate: dueDate || null,
+        taxRate: parseFloat(taxRate) || 0,
+        notes: notes.trim() || undefined
+      });
+      setSelectedInvoice(invoice);
+      setPanel('invoice');
+      setNotes('');
+      setError(null);
+      await loadInvoices();
+    } catch (err) {
+      console.error('Failed to generate invoice:', err);
+      setError(apiErrorMessage(err, 'Failed to generate invoice'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleStatus = async (status: InvoiceStatus) => {
+    if (!selectedInvoice) return;
+    if (status === 'void' && !window.confirm(`Void invoice ${selectedInvoice.number}? Its time entries become billable again.`)) {
+      return;
+    }
+
+    try {
+      const updated = await invoiceService.updateStatus(selectedInvoice.id, status);
+      setSelectedInvoice({ ...selectedInvoice, ...updated });
+      setError(null);
+      await loadInvoices();
+    } catch (err) {
+      console.error('Failed to update invoice status:', err);
+      setError('Failed to update invoice status');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedInvoice || !window.confirm(`Delete draft invoice ${selectedInvoice.number}?`)) return;
+
+    try {
+      await invoiceService.delete(selectedInvoice.id);
+      setSelectedInvoice(null);
+      setPanel('new');
+      await loadInvoices();
+    } catch (err) {
+      console.error('Failed to delete invoice:', err);
+      setError('Failed to delete invoice');
+    }
+  };
+
+  const handleSaveRate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!client || hourlyRate === '') return;
+
+    try {
+      await invoiceService.setRate({
+        clientId: rateScope === 'client' ? client.id : null,
+        userId: rateUserId || null,
+        hourlyRate: parseFloat(hourlyRate),
+        currency
+      });
+      setHourlyRate('');
+      setError(null);
+      await loadRates();
+    } catch (err) {
+      console.error('Failed to save billing rate:', err);
+      setError('Failed to save billing rate');
+    }
+  };
+
+  const handleDeleteRate = async (rate: BillingRate) => {
+    try {
+      await invoiceService.deleteRate(rate.id);
+      await loadRates();
+    } catch (err) {
+      console.error('Failed to delete billing rate:', err);
+      setError('Failed to delete billing rate');
+    }
+  };
+
+  if (!isOpen || !client) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-6xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-gradient-to-r from-primary to-accent text-white">
+          <h2 className="text-xl font-semibold">Invoices – {client.company}</h2>
+          <button onClick={onClose} className="p-1.5 hover:bg-white/10 rounded-lg transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded-xl text-sm">{error}</div>
+        )}
+
+        <div className="flex-1 grid grid-cols-1 md:grid-cols-4 min-h-0">
+          {/* Invoice list */}
+          <div className="border-r border-gray-200 overflow-y-auto p-4 space-y-2">
+            <div className="flex gap-2 mb-3">
+              <button
+                onClick={() => setPanel('new')}
+                className={`flex-1 flex items-center justify-center gap-1 ${panel === 'new' ? 'btn-primary' : 'btn-outline'}`}
+              >
+                <Plus className="w-4 h-4" />
+                New
+              </button>
+              <button
+                onClick={() => setPanel('rates')}
+                className={`flex-1 flex items-center justify-center gap-1 ${panel === 'rates' ? 'btn-primary' : 'btn-outline'}`}
+              >
+                <DollarSign className="w-4 h-4" />
+                Rates
+              </button>
+            </div>
+
+            {invoices.length === 0 ? (
+              <p className="text-sm text-gray-500">No invoices for this client yet.</p>
+            ) : (
+              invoices.map(invoice => (
+                <div
+                  key={invoice.id}
+                  onClick={() => handleSelect(invoice.id)}
+                  className={`p-3 rounded-xl border cursor-pointer transition-colors duration-200 ${
+                    panel === 'invoice' && selectedInvoice?.id === invoice.id
+                      ? 'border-secondary bg-secondary/5'
+                      : 'border-gray-200 hover:border-gray-300'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="flex items-center gap-1.5 font-semibold text-gray-900">
+                      <FileText className="w-4 h-4 text-gray-400" />
+                      {invoice.number}
+                    </span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${statusStyles[invoice.status]}`}>
+                      {invoice.status}
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-between mt-1 text-xs text-gray-500">
+                    <span>{formatDate(invoice.periodStart)} – {formatDate(invoice.periodEnd)}</span>
+                    <span className="font-semibold text-gray-700">{formatMoney(invoice.total, invoice.currency)}</span>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="md:col-span-3 overflow-y-auto p-6">
+            {panel === 'invoice' && selectedInvoice && (
+              <div className="space-y-4">
+                <div className="flex flex-wrap items-center justify-end gap-2">
+                  {selectedInvoice.status === 'draft' && (
+                    <>
+                      <button onClick={handleDelete} className="btn-outline flex items-center gap-1.5 text-red-600">
+                        <Trash2 className="w-4 h-4" />
+                        Delete
+                      </button>
+                      <button onClick={() => handleStatus('sent')} className="btn-outline flex items-center gap-1.5">
+                        <Send className="w-4 h-4" />
+                        Mark as sent
+                      </button>
+                    </>
+                  )}
+                  {selectedInvoice.status === 'sent' && (
+                    <button onClick={() => handleStatus('paid')} className="btn-outline flex items-center gap-1.5">
+                      <CheckCircle className="w-4 h-4" />
+                      Mark as paid
+                    </button>
+                  )}
+                  {(selectedInvoice.status === 'draft' || selectedInvoice.status === 'sent') && (
+                    <button onClick={() => handleStatus('void')} className="btn-outline flex items-center gap-1.5">
+                      <Ban className="w-4 h-4" />
+                      Void
+                    </button>
+                  )}
+                  <button onClick={() => window.print()} className="btn-primary flex items-center gap-1.5">
+                    <Printer className="w-4 h-4" />
+                    Print / PDF
+                  </button>
+                </div>
+                <InvoiceDocument invoice={selectedInvoice} />
+              </div>
+            )}
+
+            {panel === 'new' && (
+              <form onSubmit={handleGenerate} className="space-y-5">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <div>
+                    <label className="form-label">Period Start *</label>
+                    <input type="date" value={periodStart} onChange={(e) => setPeriodStart(e.target.value)} className="form-input" required />
+                  </div>
+                  <div>
+                    <label className="form-label">Period End *</label>
+                    <input type="date" value={periodEnd} onChange={(e) => setPeriodEnd(e.target.value)} className="form-input" required />
+                  </div>
+                  <div>
+                    <label className="form-label">Due Date</label>
+                    <input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} className="form-input" />
+                  </div>
+                  <div>
+                    <label className="form-label">Tax Rate (%)</label>
+                    <input type="number" min="0" max="100" step="0.01" value={taxRate} onChange={(e) => setTaxRate(e.target.value)} className="form-input" />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="form-label">Notes</label>
+                  <textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} className="form-input" placeholder="Payment instructions, references..." />
+                </div>
+
+                <div>
+                  <h4 className="text-sm font-semibold text-gray-700 mb-2">Uninvoiced billable time</h4>
+                  {preview?.warning && (
+                    <div className="mb-3 p-3 bg-amber-50 border border-amber-200 text-amber-800 rounded-xl text-sm">{preview.warning}</div>
+                  )}
+                  {!preview || preview.lineItems.length === 0 ? (
+                    <p className="text-sm text-gray-500">No billable time entries for this client in the selected period.</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {preview.lineItems.map((item, index) => (
+                        <div key={index} className="flex items-center justify-between p-3 bg-gray-50 rounded-xl text-sm">
+                          <div className="min-w-0">
+                            <div className="font-medium text-gray-900 truncate">{item.description}</div>
+                            <div className="text-xs text-gray-500">
+                              {item.workflowName} · {item.entries} {item.entries === 1 ? 'entry' : 'entries'}
+                            </div>
+                          </div>
+                          <div className="text-right flex-shrink-0 ml-3">
+                            <div className="font-semibold">{formatMoney(item.amount, preview.currency || 'USD')}</div>
+                            <div className="text-xs text-gray-500">
+                              {item.hours.toFixed(2)} h × {formatMoney(item.rate, preview.currency || 'USD')}
+                            </div>
+                          </div>
+                        </div>
+                      ))}
+                      <div className="flex justify-end pt-2 text-sm font-bold text-gray-900">
+                        Subtotal: {formatMoney(preview.subtotal, preview.currency || 'USD')}
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex items-center justify-end gap-3 pt-2">
+                  <button type="button" onClick={onClose} className="btn-outline">Cancel</button>
+                  <button
+                    type="submit"
+                    disabled={isSubmitting || !preview || preview.lineItems.length === 0 || Boolean(preview.warning)}
+                    className="btn-primary disabled:opacity-50"
+                  >
+                    {isSubmitting ? 'Generating...' : 'Generate Draft Invoice'}
+                  </button>
+                </div>
+              </form>
+            )}
+
+            {panel === 'rates' && (
+              <div className="space-y-5">
+                <p className="text-sm text-gray-600">
+                  The most specific rate wins: member on this client, this client, member, then the workspace default.
+                </p>
+
+                <form onSubmit={handleSaveRate} className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+                  <div>
+                    <label className="form-label">Applies to</label>
+                    <select value={rateScope} onChange={(e) => setRateScope(e.target.value as 'client' | 'workspace')} className="form-input">
+                      <option value="client">{client.company}</option>
+                      <option value="workspace">All clients</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="form-label">Member</label>
+                    <select value={rateUserId} onChange={(e) => setRateUserId(e.target.value)} className="form-input">
+                      <option value="">Everyone</option>
+                      {members.map(member => (
+                        <option key={member.id} value={member.id}>{member.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="form-label">Hourly Rate *</label>
+                    <input type="number" min="0" step="0.01" value={hourlyRate} onChange={(e) => setHourlyRate(e.target.value)} className="form-input" required />
+                  </div>
+                  <div>
+                    <label className="form-label">Currency</label>
+                    <input type="text" maxLength={3} value={currency} onChange={(e) => setCurrency(e.target.value.toUpperCase())} className="form-input" />
+                  </div>
+                  <button type="submit" className="btn-primary">Save Rate</button>
+                </form>
+
+                <div className="space-y-2">
+                  {rates.length === 0 ? (
+                    <p className="text-sm text-gray-500">No billing rates configured.</p>
+                  ) : (
+                    rates.map(rate => (
+                      <div key={rate.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-xl text-sm">
+                        <div>
+                          <span className="font-medium text-gray-900">{rate.clientId ? client.company : 'All clients'}</span>
+                          <span className="text-gray-500"> · {rate.userName || 'Everyone'}</span>
+                        </div>
+                        <div className="flex items-center gap-3">
+                          <span className="font-semibold">{formatMoney(rate.hourlyRate, rate.currency)}/h</span>
+                          <button
+                            onClick={() => handleDeleteRate(rate)}
+                            className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
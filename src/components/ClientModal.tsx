@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import { X, Building, Mail, Phone, User } from 'lucide-react';
-import { Client } from '../types';
+import { X, Building, Mail, Phone, User, Copy } from 'lucide-react';
+import { Client, WorkflowTemplate } from '../types';
+import { workflowTemplateService } from '../services';
 
 interface ClientModalProps {
   client?: Client;
@@ -15,6 +16,8 @@ interface CreateClientData {
   email: string;
   phone?: string;
   isActive: boolean;
+  templateId?: string;
+  templateStartDate?: string;
 }
 
 export function ClientModal({ client, isOpen, onClose, onSubmit }: ClientModalProps) {
@@ -28,6 +31,15 @@ export function ClientModal({ client, isOpen, onClose, onSubmit }: ClientModalPr
   
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [templates, setTemplates] = useState<WorkflowTemplate[]>([]);
+
+  // Onboarding templates are only offered when creating a client
+  useEffect(() => {
+    if (!isOpen || client) return;
+    workflowTemplateService.getAll()
+      .then(setTemplates)
+      .catch(error => console.error('Failed to load workflow templates:', error));
+  }, [isOpen, client]);
 
   // Reset form when client changes
   useEffect(() => {
@@ -45,7 +57,9 @@ export function ClientModal({ client, isOpen, onClose, onSubmit }: ClientModalPr
         company: '',
         email: '',
         phone: '',
-        isActive: true
+        isActive: true,
+        templateId: '',
+        templateStartDate: new Date().toISOString().split('T')[0]
       });
     }
     setErrors({});
@@ -100,7 +114,10 @@ export function ClientModal({ client, isOpen, onClose, onSubmit }: ClientModalPr
 
     setIsSubmitting(true);
     try {
-      await onSubmit(formData);
+      const { templateId, templateStartDate, ...clientData } = formData;
+      await onSubmit(templateId
+        ? { ...clientData, templateId, templateStartDate: templateStartDate && new Date(templateStartDate).toISOString() }
+        : clientData);
       onClose();
     } catch (error) {
       console.error('Error saving client:', error);
@@ -223,6 +240,47 @@ export function ClientModal({ client, isOpen, onClose, onSubmit }: ClientModalPr
             </div>
           </div>
           
+          {!client && templates.length > 0 && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <label htmlFor="templateId" className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                  <Copy size={16} className="text-gray-400" />
+                  Onboarding Template
+                </label>
+                <select
+                  id="templateId"
+                  value={formData.templateId}
+                  onChange={e => handleInputChange('templateId', e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all duration-200"
+                  disabled={isSubmitting}
+                >
+                  <option value="">No template</option>
+                  {templates.map(template => (
+                    <option key={template.id} value={template.id}>
+                      {template.name} ({template.taskCount} tasks)
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {formData.templateId && (
+                <div className="space-y-2">
+                  <label htmlFor="templateStartDate" className="text-sm font-medium text-gray-700">
+                    Workflow Start Date
+                  </label>
+                  <input
+                    id="templateStartDate"
+                    type="date"
+                    value={formData.templateStartDate}
+                    onChange={e => handleInputChange('templateStartDate', e.target.value)}
+                    className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all duration-200"
+                    disabled={isSubmitting}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+          
           <div className="space-y-2">
             <label className="flex items-center gap-3">
               <input
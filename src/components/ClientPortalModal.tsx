@@ -0,0 +1,174 @@
+import React, { useState, useEffect } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { X, UserCheck, Send, Trash2 } from 'lucide-react';
+import { Client, ClientContact } from '../types';
+import { clientService, ApiError } from '../services';
+
+interface ClientPortalModalProps {
+  client: Client | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// The API explains refused invitations (already a member, invited elsewhere) in an { error } or { errors } body
+const apiErrorMessage = (err: unknown, fallback: string) => {
+  if (!(err instanceof ApiError) || err.status !== 400) return fallback;
+  try {
+    const body = JSON.parse(err.message) as { error?: string; errors?: { msg: string }[] };
+    return body.error || body.errors?.[0]?.msg || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+// Who at the client can sign in to the client portal, and inviting more contacts
+export const ClientPortalModal: React.FC<ClientPortalModalProps> = ({ client, isOpen, onClose }) => {
+  const [contacts, setContacts] = useState<ClientContact[]>([]);
+  const [email, setEmail] = useState('');
+  const [name, setName] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !client) return;
+
+    setIsLoading(true);
+    setError(null);
+    setSuccess(null);
+    setEmail(client.email);
+    setName('');
+    clientService.getContacts(client.id)
+      .then(setContacts)
+      .catch(() => setError('Failed to load portal contacts'))
+      .finally(() => setIsLoading(false));
+  }, [isOpen, client]);
+
+  if (!isOpen || !client) return null;
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusyId('invite');
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const contact = await clientService.inviteContact(client.id, { email: email.trim(), name: name.trim() || undefined });
+      setContacts(prev => [...prev, contact]);
+      setSuccess(`Invitation sent to ${contact.email}.`);
+      setEmail('');
+      setName('');
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to invite contact'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRevoke = async (contact: ClientContact) => {
+    if (!confirm(`Remove portal access for ${contact.email}?`)) return;
+
+    setBusyId(contact.id);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      await clientService.revokeContact(client.id, contact.id);
+      setContacts(prev => prev.filter(item => item.id !== contact.id));
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to revoke access'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-gradient-to-r from-primary to-accent text-white">
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <UserCheck className="w-5 h-5" />
+            Client Portal – {client.company || client.name}
+          </h2>
+          <button onClick={onClose} className="p-1.5 hover:bg-white/10 rounded-lg transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          <p className="text-sm text-gray-600">
+            Contacts sign in with a magic link and only see this client's project progress, the tasks and
+            files you share with them, and upcoming meetings. They can approve deliverables you send for review.
+          </p>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 text-red-700 rounded-xl text-sm">{error}</div>
+          )}
+          {success && (
+            <div className="p-3 bg-green-50 border border-green-200 text-green-700 rounded-xl text-sm">{success}</div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center p-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary" />
+            </div>
+          ) : contacts.length === 0 ? (
+            <p className="text-sm text-gray-500">Nobody at this client has portal access yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 border border-gray-200 rounded-xl">
+              {contacts.map(contact => (
+                <li key={contact.id} className="flex items-center justify-between gap-3 p-3">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{contact.name}</p>
+                    <p className="text-sm text-gray-600 truncate">{contact.email}</p>
+                    <p className="text-xs text-gray-500">
+                      {contact.lastSeenAt
+                        ? `Last opened ${formatDistanceToNow(new Date(contact.lastSeenAt), { addSuffix: true })}`
+                        : `Invited ${formatDistanceToNow(new Date(contact.invitedAt), { addSuffix: true })}`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRevoke(contact)}
+                    disabled={busyId !== null}
+                    className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-50"
+                    title="Revoke access"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={handleInvite} className="space-y-3 pt-4 border-t border-gray-100">
+            <h3 className="text-sm font-semibold text-gray-900">Invite a contact</h3>
+            <input
+              type="email"
+              required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="contact@client.com"
+              className="w-full px-4 py-2 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary"
+            />
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name (optional)"
+              className="w-full px-4 py-2 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary"
+            />
+            <button
+              type="submit"
+              disabled={busyId !== null || !email.trim()}
+              className="w-full inline-flex items-center justify-center gap-2 px-4 py-2 bg-primary hover:bg-primary/90 text-white rounded-xl font-medium disabled:opacity-50"
+            >
+              <Send className="w-4 h-4" />
+              {busyId === 'invite' ? 'Sending...' : 'Send invitation'}
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -15,9 +15,16 @@ import {
   Workflow as WorkflowIcon,
   AlertCircle,
   Star,
-  ArrowUpRight
+  ArrowUpRight,
+  Receipt,
+  PiggyBank,
+  UserCheck
 } from 'lucide-react';
 import { Client, Workflow, KanbanTask, TeamMember } from '../types';
+import { ClientInvoicesModal } from './ClientInvoicesModal';
+import { BudgetModal } from './BudgetModal';
+import { ClientPortalModal } from './ClientPortalModal';
+import { usePermissions } from '../hooks/usePermissions';
 
 interface ClientsViewProps {
   clients: Client[];
@@ -34,7 +41,12 @@ interface ClientCardProps {
   clientWorkflows: Workflow[];
   clientTasks: KanbanTask[];
   onEdit: (client: Client) => void;
+  onInvoices: (client: Client) => void;
+  onRetainer: (client: Client) => void;
+  onPortal: (client: Client) => void;
   onStatusChange: (clientId: string, isActive: boolean) => void;
+  canEdit: boolean;
+  canViewInvoices: boolean;
 }
 
 interface ClientStatsProps {
@@ -47,7 +59,12 @@ const ClientCard: React.FC<ClientCardProps> = ({
   clientWorkflows, 
   clientTasks,
   onEdit, 
+  onInvoices,
+  onRetainer,
+  onPortal,
   onStatusChange,
+  canEdit,
+  canViewInvoices,
 }) => {
   const activeWorkflows = clientWorkflows.filter(w => w.status === 'active').length;
   const completedWorkflows = clientWorkflows.filter(w => w.status === 'completed').length;
@@ -101,15 +118,53 @@ const ClientCard: React.FC<ClientCardProps> = ({
         </div>
         
         <div className="flex items-center gap-2">
-          <button 
-            className="w-8 h-8 bg-gray-100 hover:bg-primary hover:text-white rounded-lg flex items-center justify-center transition-all duration-200 opacity-0 group-hover:opacity-100"
-            onClick={(e) => {
-              e.stopPropagation();
-              onEdit(client);
-            }}
-          >
-            <Edit3 size={14} />
-          </button>
+          {canViewInvoices && (
+            <>
+              <button 
+                className="w-8 h-8 bg-gray-100 hover:bg-primary hover:text-white rounded-lg flex items-center justify-center transition-all duration-200 opacity-0 group-hover:opacity-100"
+                title="Invoices"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onInvoices(client);
+                }}
+              >
+                <Receipt size={14} />
+              </button>
+              <button 
+                className="w-8 h-8 bg-gray-100 hover:bg-primary hover:text-white rounded-lg flex items-center justify-center transition-all duration-200 opacity-0 group-hover:opacity-100"
+                title="Retainer budget"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRetainer(client);
+                }}
+              >
+                <PiggyBank size={14} />
+              </button>
+            </>
+          )}
+          {canEdit && (
+            <>
+              <button 
+                className="w-8 h-8 bg-gray-100 hover:bg-primary hover:text-white rounded-lg flex items-center justify-center transition-all duration-200 opacity-0 group-hover:opacity-100"
+                title="Client portal access"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onPortal(client);
+                }}
+              >
+                <UserCheck size={14} />
+              </button>
+              <button 
+                className="w-8 h-8 bg-gray-100 hover:bg-primary hover:text-white rounded-lg flex items-center justify-center transition-all duration-200 opacity-0 group-hover:opacity-100"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onEdit(client);
+                }}
+              >
+                <Edit3 size={14} />
+              </button>
+            </>
+          )}
         </div>
       </div>
 
@@ -321,6 +376,11 @@ export function ClientsView({
   const [statusFilter, setStatusFilter] = useState('all');
   const [projectFilter, setProjectFilter] = useState('all');
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
+  const [invoiceClient, setInvoiceClient] = useState<Client | null>(null);
+  const [retainerClient, setRetainerClient] = useState<Client | null>(null);
+  const [portalClient, setPortalClient] = useState<Client | null>(null);
+  const { can } = usePermissions();
+  const canCreate = can('clients:create');
 
   const filteredClients = clients.filter(client => {
     const matchesSearch = client.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -390,13 +450,15 @@ export function ClientsView({
               </div>
             </div>
             
-            <button
-              onClick={onClientCreate}
-              className="flex items-center gap-2 px-6 py-3 bg-tertiary hover:bg-tertiary/90 text-primary rounded-2xl font-semibold transition-all duration-200 shadow-xl hover:scale-105"
-            >
-              <Plus className="w-5 h-5" />
-              Add Client
-            </button>
+            {canCreate && (
+              <button
+                onClick={onClientCreate}
+                className="flex items-center gap-2 px-6 py-3 bg-tertiary hover:bg-tertiary/90 text-primary rounded-2xl font-semibold transition-all duration-200 shadow-xl hover:scale-105"
+              >
+                <Plus className="w-5 h-5" />
+                Add Client
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -489,7 +551,12 @@ export function ClientsView({
                 clientWorkflows={clientWorkflows}
                 clientTasks={clientTasks}
                 onEdit={onClientEdit}
+                onInvoices={setInvoiceClient}
+                onRetainer={setRetainerClient}
+                onPortal={setPortalClient}
                 onStatusChange={onClientStatusChange}
+                canEdit={can('clients:update')}
+                canViewInvoices={can('invoices:view')}
               />
             );
           })}
@@ -508,7 +575,7 @@ export function ClientsView({
                 : 'Start building your client base by adding your first client'
               }
             </p>
-            {!searchTerm && statusFilter === 'all' && projectFilter === 'all' && (
+            {canCreate && !searchTerm && statusFilter === 'all' && projectFilter === 'all' && (
               <button 
                 className="btn-primary"
                 onClick={onClientCreate}
@@ -520,6 +587,28 @@ export function ClientsView({
           </div>
         )}
       </div>
+
+      <ClientInvoicesModal
+        client={invoiceClient}
+        isOpen={invoiceClient !== null}
+        onClose={() => setInvoiceClient(null)}
+      />
+
+      <ClientPortalModal
+        client={portalClient}
+        isOpen={portalClient !== null}
+        onClose={() => setPortalClient(null)}
+      />
+
+      {retainerClient && (
+        <BudgetModal
+          entityType="client"
+          entityId={retainerClient.id}
+          entityName={retainerClient.company || retainerClient.name}
+          isOpen={!!retainerClient}
+          onClose={() => setRetainerClient(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,246 @@
+import React, { useEffect, useRef, useState } from 'react';
+import Quill from 'quill';
+import QuillCursors from 'quill-cursors';
+import * as Y from 'yjs';
+import { QuillBinding } from 'y-quill';
+import { WebsocketProvider } from 'y-websocket';
+import { IndexeddbPersistence } from 'y-indexeddb';
+import 'react-quill/dist/quill.snow.css';
+import '../styles/quill-custom.css';
+import { TaskResource } from '../services/taskResourceService';
+import { apiSocketUrl } from '../services/api';
+import { authService } from '../services/authService';
+import { useAuth } from '../hooks/useAuth';
+import { useWorkspace } from '../context/WorkspaceContext';
+
+Quill.register('modules/cursors', QuillCursors);
+
+interface CollaborativeDocumentProps {
+  document: TaskResource;
+  readOnly: boolean;
+  // The content was replaced (a restored revision or a save elsewhere): load the document again
+  onReplaced: () => void;
+}
+
+type ConnectionState = 'connecting' | 'connected' | 'offline' | 'denied';
+
+interface Collaborator {
+  clientId: number;
+  name: string;
+  color: string;
+}
+
+const TOOLBAR = [
+  [{ header: ['1', '2', '3', false] }],
+  ['bold', 'italic', 'underline'],
+  [{ list: 'ordered' }, { list: 'bullet' }],
+  ['blockquote', 'code-block'],
+  ['link', 'image'],
+  [{ align: [] }],
+  [{ color: [] }, { background: [] }],
+  ['clean']
+];
+
+const CURSOR_COLORS = ['#2563eb', '#db2777', '#16a34a', '#ea580c', '#7c3aed', '#0891b2', '#ca8a04', '#dc2626'];
+
+// Server close codes, see server/src/services/collaboration.js
+const CLOSE_UNAUTHORIZED = 4401;
+const CLOSE_NOT_FOUND = 4404;
+const CLOSE_REPLACED = 4409;
+
+const colorOf = (userId: string) => {
+  let hash = 0;
+  for (const char of userId) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return CURSOR_COLORS[Math.abs(hash) % CURSOR_COLORS.length];
+};
+
+// This device's copy of a generation of the document, where offline edits wait for the server
+const localStorageName = (documentId: string, generation: number) => `task-document-${documentId}-${generation}`;
+
+// The saved HTML becomes the shared document's first content. Every editor that finds the
+// document empty writes it the same way, under client id 0, so concurrent first edits merge
+// into a single copy instead of repeating the text
+const seedDocument = (doc: Y.Doc, quill: Quill, html: string) => {
+  const seed = new Y.Doc();
+  seed.clientID = 0;
+  seed.transact(() => {
+    seed.getText('quill').applyDelta(quill.clipboard.convert({ html }).ops);
+    seed.getMap('meta').set('seeded', true);
+  });
+  Y.applyUpdate(doc, Y.encodeStateAsUpdate(seed));
+  seed.destroy();
+};
+
+// A task document edited live with everyone who has it open; changes are saved by the server
+export const CollaborativeDocument: React.FC<CollaborativeDocumentProps> = ({ document, readOnly, onReplaced }) => {
+  const { user } = useAuth();
+  const { currentWorkspace } = useWorkspace();
+  const hostRef = useRef<HTMLDivElement>(null);
+  const [connection, setConnection] = useState<ConnectionState>('connecting');
+  const [loaded, setLoaded] = useState(false);
+  const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+
+  const onReplacedRef = useRef(onReplaced);
+  onReplacedRef.current = onReplaced;
+
+  // Only the content at mount: later it comes from the shared document
+  const initialContent = useRef(document.content || '');
+
+  const documentId = document.id;
+  const generation = document.collabGeneration || 0;
+  const workspaceId = currentWorkspace?.id || localStorage.getItem('current-workspace-id') || '';
+  const userId = user?.id || '';
+  const userName = user?.name || user?.email || 'Someone';
+
+  useEffect(() => {
+    const host = hostRef.current;
+    if (!host) return;
+    let active = true;
+
+    const editorElement = window.document.createElement('div');
+    host.appendChild(editorElement);
+    const quill = new Quill(editorElement, {
+      theme: 'snow',
+      readOnly: true, // until the document is loaded
+      placeholder: readOnly ? '' : 'Start writing…',
+      modules: {
+        toolbar: readOnly ? false : TOOLBAR,
+        cursors: true,
+        history: { userOnly: true }
+      }
+    });
+
+    const doc = new Y.Doc();
+    const meta = doc.getMap('meta');
+    if (generation > 0) {
+      window.indexedDB.deleteDatabase(localStorageName(documentId, generation - 1));
+    }
+    const local = new IndexeddbPersistence(localStorageName(documentId, generation), doc);
+    const provider = new WebsocketProvider(apiSocketUrl('/collab'), documentId, doc, {
+      params: {
+        token: localStorage.getItem('auth-token') || '',
+        workspace_id: workspaceId,
+        generation: String(generation)
+      }
+    });
+    provider.awareness.setLocalStateField('user', { name: userName, color: colorOf(userId) });
+    const binding = new QuillBinding(doc.getText('quill'), quill, provider.awareness);
+
+    // Editing starts once the document is known, from this device's copy or from the server
+    const startEditing = () => {
+      if (!active || !meta.get('seeded')) return;
+      setLoaded(true);
+      quill.enable(!readOnly);
+    };
+    local.whenSynced.then(startEditing);
+
+    provider.on('sync', isSynced => {
+      if (!isSynced || !active) return;
+      if (!meta.get('seeded')) seedDocument(doc, quill, initialContent.current);
+      startEditing();
+    });
+
+    provider.on('status', ({ status }) => {
+      if (!active) return;
+      setConnection(current => (current === 'denied' ? current : status === 'connected' ? 'connected' : status === 'connecting' ? 'connecting' : 'offline'));
+    });
+
+    // Reconnect with the newest access token
+    provider.on('connection-close', () => {
+      provider.params.token = localStorage.getItem('auth-token') || '';
+    });
+
+    provider.on('closed', ({ code }) => {
+      if (!active) return;
+      if (code === CLOSE_UNAUTHORIZED) {
+        authService.refreshAccessToken().then(refreshed => {
+          if (!active) return;
+          if (refreshed) {
+            provider.params.token = localStorage.getItem('auth-token') || '';
+            provider.connect();
+          } else {
+            setConnection('denied');
+          }
+        });
+      } else if (code === CLOSE_REPLACED) {
+        local.clearData();
+        onReplacedRef.current();
+      } else {
+        if (code === CLOSE_NOT_FOUND) local.clearData();
+        setConnection('denied');
+        quill.enable(false);
+      }
+    });
+
+    const updateCollaborators = () => {
+      const others: Collaborator[] = [];
+      provider.awareness.getStates().forEach((state, clientId) => {
+        if (clientId !== doc.clientID && state.user) {
+          others.push({ clientId, name: state.user.name, color: state.user.color });
+        }
+      });
+      setCollaborators(others);
+    };
+    provider.awareness.on('change', updateCollaborators);
+
+    return () => {
+      active = false;
+      provider.awareness.off('change', updateCollaborators);
+      binding.destroy();
+      provider.destroy();
+      local.destroy();
+      doc.destroy();
+      host.innerHTML = '';
+    };
+  }, [documentId, generation, workspaceId, userId, userName, readOnly]);
+
+  // The same person in two tabs is listed once
+  const names = Array.from(new Map(collaborators.map(collaborator => [collaborator.name, collaborator])).values());
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="flex flex-wrap items-center gap-3 px-4 py-2 border-b border-gray-200 text-sm text-gray-600">
+        {connection === 'connected' ? (
+          <span className="flex items-center gap-2">
+            <span className="w-2 h-2 rounded-full bg-green-500"></span>
+            {readOnly ? 'Live · view only' : 'Live · changes are saved automatically'}
+          </span>
+        ) : connection === 'denied' ? (
+          <span className="flex items-center gap-2 text-red-700">
+            <span className="w-2 h-2 rounded-full bg-red-500"></span>
+            This document can no longer be edited here
+          </span>
+        ) : loaded ? (
+          <span className="flex items-center gap-2 text-amber-700">
+            <span className="w-2 h-2 rounded-full bg-amber-500"></span>
+            Offline · your changes are kept on this device and merged when the connection is back
+          </span>
+        ) : (
+          <span className="flex items-center gap-2">
+            <span className="w-2 h-2 rounded-full bg-gray-400"></span>
+            Connecting…
+          </span>
+        )}
+        {names.length > 0 && (
+          <div className="flex items-center gap-1 ml-auto" title={`Also editing: ${names.map(collaborator => collaborator.name).join(', ')}`}>
+            {names.slice(0, 5).map(collaborator => (
+              <span
+                key={collaborator.clientId}
+                className="w-7 h-7 rounded-full flex items-center justify-center text-xs font-bold text-white border-2 border-white shadow-sm"
+                style={{ backgroundColor: collaborator.color }}
+              >
+                {collaborator.name.charAt(0).toUpperCase()}
+              </span>
+            ))}
+            <span className="ml-1 text-xs text-gray-500">
+              {names.length === 1 ? `${names[0].name} is editing` : `${names.length} others editing`}
+            </span>
+          </div>
+        )}
+      </div>
+      <div className="flex-1 overflow-hidden">
+        <div ref={hostRef} className="quill-editor-container collab-document h-full flex flex-col" />
+      </div>
+    </div>
+  );
+};
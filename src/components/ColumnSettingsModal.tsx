@@ -0,0 +1,156 @@
+import React, { useState, useEffect } from 'react';
+import { X, SlidersHorizontal } from 'lucide-react';
+import { KanbanColumn, ColumnPolicies, ColumnPolicyRule } from '../types';
+import { taskService, ApiError } from '../services';
+import { COLUMN_POLICY_LABELS } from '../services/taskService';
+
+interface ColumnSettingsModalProps {
+  column: KanbanColumn | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved?: () => void;
+}
+
+// The API explains refusals (bad limits, unknown rules) in an { error } or { errors } body
+const apiErrorMessage = (err: unknown, fallback: string) => {
+  if (!(err instanceof ApiError) || err.status !== 400) return fallback;
+  try {
+    const body = JSON.parse(err.message) as { error?: string; errors?: { msg: string }[] };
+    return body.error || body.errors?.[0]?.msg || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const RULES = Object.keys(COLUMN_POLICY_LABELS) as ColumnPolicyRule[];
+
+// WIP limits and entry/exit policies of a board column; columns are shared by every workspace
+export const ColumnSettingsModal: React.FC<ColumnSettingsModalProps> = ({ column, isOpen, onClose, onSaved }) => {
+  const [wipLimit, setWipLimit] = useState('');
+  const [assigneeWipLimit, setAssigneeWipLimit] = useState('');
+  const [policies, setPolicies] = useState<ColumnPolicies>({ entry: [], exit: [] });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !column) return;
+    setWipLimit(column.wipLimit ? String(column.wipLimit) : '');
+    setAssigneeWipLimit(column.assigneeWipLimit ? String(column.assigneeWipLimit) : '');
+    setPolicies(column.policies || { entry: [], exit: [] });
+    setError(null);
+  }, [isOpen, column]);
+
+  const toggleRule = (key: keyof ColumnPolicies, rule: ColumnPolicyRule) => {
+    setPolicies(current => ({
+      ...current,
+      [key]: current[key].includes(rule) ? current[key].filter(other => other !== rule) : [...current[key], rule]
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!column) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await taskService.updateColumn(column.id, {
+        wipLimit: wipLimit ? Number(wipLimit) : null,
+        assigneeWipLimit: assigneeWipLimit ? Number(assigneeWipLimit) : null,
+        policies
+      });
+      onSaved?.();
+      onClose();
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to save column settings'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen || !column) return null;
+
+  const ruleList = (key: keyof ColumnPolicies, label: string, hint: string) => (
+    <div>
+      <label className="form-label">{label}</label>
+      <p className="text-xs text-gray-500 mb-2">{hint}</p>
+      <div className="grid grid-cols-2 gap-2">
+        {RULES.map(rule => (
+          <label key={rule} className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={policies[key].includes(rule)}
+              onChange={() => toggleRule(key, rule)}
+              className="rounded border-gray-300 text-primary focus:ring-primary"
+            />
+            {COLUMN_POLICY_LABELS[rule]}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-gradient-to-r from-primary to-accent text-white">
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <SlidersHorizontal className="w-5 h-5" />
+            Column rules – {column.title}
+          </h2>
+          <button onClick={onClose} className="p-1.5 hover:bg-white/10 rounded-lg transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="flex-1 overflow-y-auto p-6 space-y-5">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 text-red-700 rounded-xl text-sm">{error}</div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="form-label">WIP limit</label>
+              <input
+                type="number"
+                min="1"
+                step="1"
+                value={wipLimit}
+                onChange={(e) => setWipLimit(e.target.value)}
+                className="form-input"
+                placeholder="No limit"
+              />
+            </div>
+            <div>
+              <label className="form-label">Per assignee</label>
+              <input
+                type="number"
+                min="1"
+                step="1"
+                value={assigneeWipLimit}
+                onChange={(e) => setAssigneeWipLimit(e.target.value)}
+                className="form-input"
+                placeholder="No limit"
+              />
+            </div>
+          </div>
+
+          {ruleList('entry', 'To enter this column a task needs', 'Checked when a task is moved here.')}
+          {ruleList('exit', 'To leave this column a task needs', 'Checked when a task is moved out.')}
+
+          <p className="text-xs text-gray-500">
+            Limits count the tasks of each workspace. Moves that break these rules are refused; workspace admins
+            can override them, and the override is logged on the task.
+          </p>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <button type="button" onClick={onClose} className="btn-outline">Close</button>
+            <button type="submit" disabled={isSaving} className="btn-primary disabled:opacity-50">
+              {isSaving ? 'Saving...' : 'Save rules'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -11,75 +11,75 @@ import {
   ArrowDownRight,
   Target,
   Star,
-  Eye
+  Eye,
+  PiggyBank,
+  X
 } from 'lucide-react';
-import { DashboardStats, Client, TeamMember, Workflow } from '../types';
+import { DashboardStats, Client, TeamMember, Workflow, Budget, BudgetAlert, BudgetMetric, DashboardAnalytics, DashboardRange } from '../types';
+import { BudgetMeter, BudgetForecast, BurnDownChart } from './BudgetBurn';
+import { DeliveryTrends } from './DeliveryTrends';
 
 interface DashboardProps {
   stats: DashboardStats;
   recentClients: Client[];
   activeWorkflows: Workflow[];
   teamMembers: TeamMember[];
+  budgets?: Budget[];
+  budgetAlerts?: BudgetAlert[];
+  analytics?: DashboardAnalytics | null;
+  analyticsRange: DashboardRange;
+  analyticsLoading?: boolean;
+  onAnalyticsRangeChange: (range: DashboardRange) => void;
   onViewChange: (view: string) => void;
   onClientSelect?: (clientId: string) => void;
+  onDismissBudgetAlert?: (alertId: string) => void;
 }
 
+const formatAlertFigure = (alert: BudgetAlert, value: number) =>
+  alert.metric === 'hours'
+    ? `${Math.round(value * 10) / 10}h`
+    : new Intl.NumberFormat(undefined, { style: 'currency', currency: alert.currency, maximumFractionDigits: 0 }).format(value);
+
 export function Dashboard({ 
   stats, 
   recentClients, 
   activeWorkflows, 
   teamMembers, 
+  budgets = [],
+  budgetAlerts = [],
+  analytics = null,
+  analyticsRange,
+  analyticsLoading = false,
+  onAnalyticsRangeChange,
   onViewChange,
-  onClientSelect
+  onClientSelect,
+  onDismissBudgetAlert
 }: DashboardProps) {
-  // Calculate trends based on actual data relationships
-  const calculateTrends = () => {
-    const activeClients = recentClients?.filter(client => client.isActive).length || 0;
-    const clientUtilization = stats.totalClients > 0 ? (activeClients / stats.totalClients) * 100 : 0;
-    
-    const workflowsWithProgress = activeWorkflows?.filter(workflow => {
-      const steps = workflow.steps || [];
-      return steps.some(step => step.status === 'completed');
-    }).length || 0;
-    const workflowProgress = stats.activeWorkflows > 0 ? (workflowsWithProgress / stats.activeWorkflows) * 100 : 0;
-    
-    // TODO: Temporarily handle teamMembers as empty array for user auth implementation
-    const activeTeamMembers = (teamMembers || []).filter(member => member.isActive).length;
-    const teamUtilization = stats.teamMembers > 0 ? (activeTeamMembers / stats.teamMembers) * 100 : 0;
-    
-    const tasksPerWorkflow = stats.activeWorkflows > 0 ? stats.completedTasks / stats.activeWorkflows : 0;
-    
-    return {
-      clients: {
-        value: `+${Math.round(clientUtilization >= 75 ? 12 : -5)}%`,
-        isPositive: clientUtilization >= 75
-      },
-      workflows: {
-        value: `+${Math.round(workflowProgress >= 60 ? 8 : -3)}%`,
-        isPositive: workflowProgress >= 60
-      },
-      tasks: {
-        value: `+${tasksPerWorkflow >= 3 ? '15' : '5'}%`,
-        isPositive: tasksPerWorkflow >= 3
-      },
-      team: {
-        value: `+${Math.round(teamUtilization >= 80 ? 10 : -2)}%`,
-        isPositive: teamUtilization >= 80
-      }
-    };
-  };
-
-  const trends = calculateTrends();
+  // Completed tasks in the selected range against the period before it
+  const completedTrend = (() => {
+    if (!analytics) return null;
+    const { current, previous } = analytics.summary;
+    if (previous.throughput === 0) return null;
+    const change = Math.round(((current.throughput - previous.throughput) / previous.throughput) * 100);
+    return { value: `${change >= 0 ? '+' : ''}${change}%`, isPositive: change >= 0 };
+  })();
 
-  const statCards = [
+  const statCards: {
+    title: string;
+    subtitle: string;
+    value: number;
+    icon: typeof Building2;
+    gradient: string;
+    trend?: string;
+    trendUp?: boolean;
+    action: () => void;
+  }[] = [
     {
       title: 'Total Clients',
       subtitle: 'Active partnerships',
       value: stats.totalClients,
       icon: Building2,
       gradient: 'from-blue-500 to-blue-600',
-      trend: trends.clients.value,
-      trendUp: trends.clients.isPositive,
       action: () => onViewChange('clients')
     },
     {
@@ -88,28 +88,24 @@ export function Dashboard({
       value: stats.activeWorkflows,
       icon: Activity,
       gradient: 'from-green-500 to-green-600',
-      trend: trends.workflows.value,
-      trendUp: trends.workflows.isPositive,
       action: () => onViewChange('workflows')
     },
     {
       title: 'Completed Tasks',
-      subtitle: 'This month',
-      value: stats.completedTasks,
+      subtitle: analytics ? 'In the selected range' : 'Last 30 days',
+      value: analytics ? analytics.summary.current.throughput : stats.completedTasks,
       icon: CheckCircle,
       gradient: 'from-purple-500 to-purple-600',
-      trend: trends.tasks.value,
-      trendUp: trends.tasks.isPositive,
+      trend: completedTrend?.value,
+      trendUp: completedTrend?.isPositive,
       action: () => onViewChange('kanban')
     },
     {
       title: 'Team Members',
       subtitle: 'Active collaborators',
-      value: stats.teamMembers,
+      value: stats.teamMembers || teamMembers.length,
       icon: Users,
       gradient: 'from-orange-500 to-orange-600',
-      trend: trends.team.value,
-      trendUp: trends.team.isPositive,
       action: () => onViewChange('team')
     }
   ];
@@ -173,12 +169,17 @@ export function Dashboard({
                     <div className={`w-12 h-12 bg-gradient-to-br ${card.gradient} rounded-xl flex items-center justify-center shadow-md group-hover:scale-110 transition-transform duration-300`}>
                       <Icon size={20} className="text-white" />
                     </div>
-                    <div className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium ${
-                      card.trendUp ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
-                    }`}>
-                      <TrendIcon size={12} />
-                      {card.trend}
-                    </div>
+                    {card.trend && (
+                      <div
+                        className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium ${
+                          card.trendUp ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+                        }`}
+                        title="Compared with the previous period"
+                      >
+                        <TrendIcon size={12} />
+                        {card.trend}
+                      </div>
+                    )}
                   </div>
                   
                   <div className="space-y-1">
@@ -221,6 +222,52 @@ export function Dashboard({
             </div>
           )}
 
+          {/* Budget Alerts */}
+          {budgetAlerts.length > 0 && (
+            <div className="mb-8 space-y-3">
+              {budgetAlerts.map((alert) => (
+                <div
+                  key={alert.id}
+                  className={`flex items-center gap-4 p-4 rounded-2xl border shadow-sm ${
+                    alert.threshold >= 100 ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'
+                  }`}
+                >
+                  <div className={`w-10 h-10 rounded-xl flex items-center justify-center flex-shrink-0 ${
+                    alert.threshold >= 100 ? 'bg-red-500' : 'bg-amber-500'
+                  }`}>
+                    <PiggyBank size={18} className="text-white" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <h3 className="font-bold text-gray-900 truncate">
+                      {alert.entityName} reached {alert.threshold}% of its {alert.metric === 'hours' ? 'hour' : 'money'} budget
+                    </h3>
+                    <p className="text-gray-600 text-sm">
+                      {formatAlertFigure(alert, alert.burn)} of {formatAlertFigure(alert, alert.limit)}
+                      {alert.entityType === 'client' ? ' retainer' : ''}
+                      {alert.periodKey ? ` in ${alert.periodKey}` : ''}
+                    </p>
+                  </div>
+                  {onDismissBudgetAlert && (
+                    <button
+                      onClick={() => onDismissBudgetAlert(alert.id)}
+                      className="p-2 text-gray-400 hover:text-gray-700 hover:bg-white rounded-lg transition-colors"
+                      title="Dismiss"
+                    >
+                      <X size={16} />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <DeliveryTrends
+            analytics={analytics}
+            range={analyticsRange}
+            loading={analyticsLoading}
+            onRangeChange={onAnalyticsRangeChange}
+          />
+
           {/* Main Content Grid - Better responsive layout */}
           <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
             {/* Recent Clients */}
@@ -365,6 +412,41 @@ export function Dashboard({
               </div>
             </div>
           </div>
+
+          {/* Budgets */}
+          {budgets.length > 0 && (
+            <div className="mt-6 bg-white rounded-2xl shadow-lg border border-gray-100">
+              <div className="p-5 border-b border-gray-100">
+                <h2 className="text-xl font-bold text-gray-900">Budgets</h2>
+                <p className="text-gray-600 text-sm">Burn against workflow budgets and client retainers</p>
+              </div>
+
+              <div className="p-5 grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+                {budgets.map((budget) => {
+                  const metrics = (['hours', 'amount'] as BudgetMetric[])
+                    .filter(metric => budget.burn?.[metric].limit !== null);
+                  if (!budget.burn || metrics.length === 0) return null;
+
+                  return (
+                    <div key={budget.id} className="p-4 rounded-xl border border-gray-100 space-y-3">
+                      <div className="flex items-start justify-between gap-2">
+                        <h4 className="font-semibold text-gray-900 truncate">{budget.entityName}</h4>
+                        <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700 flex-shrink-0">
+                          {budget.entityType === 'client' ? 'Retainer' : 'Workflow'}
+                          {budget.period === 'monthly' ? ' · monthly' : ''}
+                        </span>
+                      </div>
+                      {metrics.map(metric => (
+                        <BudgetMeter key={metric} burn={budget.burn!} metric={metric} currency={budget.currency} />
+                      ))}
+                      <BurnDownChart burn={budget.burn} metric={metrics[0]} height={56} />
+                      <BudgetForecast burn={budget.burn} metric={metrics[0]} currency={budget.currency} />
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,249 @@
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ArrowUpRight, ArrowDownRight, TrendingUp } from 'lucide-react';
+import { DashboardAnalytics, DashboardRange, AnalyticsGrouping, TaskFlowPeriod } from '../types';
+import { DASHBOARD_RANGE_PRESETS, DashboardRangePreset, presetRange } from '../services/dashboardService';
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 96;
+
+type MetricKey = 'throughput' | 'cycleTimeDays' | 'leadTimeDays' | 'overdueRate';
+
+interface MetricDefinition {
+  key: MetricKey;
+  title: string;
+  format: (value: number) => string;
+  // Whether a rise is an improvement (throughput) or not (times, overdue rate)
+  higherIsBetter: boolean;
+  color: string;
+}
+
+const METRICS: MetricDefinition[] = [
+  { key: 'throughput', title: 'Throughput', format: value => `${value} done`, higherIsBetter: true, color: '#3b82f6' },
+  { key: 'cycleTimeDays', title: 'Cycle time', format: value => `${value.toFixed(1)} d`, higherIsBetter: false, color: '#8b5cf6' },
+  { key: 'leadTimeDays', title: 'Lead time', format: value => `${value.toFixed(1)} d`, higherIsBetter: false, color: '#10b981' },
+  { key: 'overdueRate', title: 'Overdue rate', format: value => `${Math.round(value)}%`, higherIsBetter: false, color: '#f97316' }
+];
+
+const formatPeriod = (period: string, groupBy: AnalyticsGrouping) =>
+  format(parseISO(period), groupBy === 'month' ? 'MMM yyyy' : 'MMM d');
+
+const inputClassName = 'px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+interface TrendChartProps {
+  series: TaskFlowPeriod[];
+  previousSeries: TaskFlowPeriod[];
+  metric: MetricDefinition;
+}
+
+// One metric per period as bars (throughput) or a line, with the previous period dashed behind it.
+// Plain SVG like the budget burn-down; periods without data leave a gap in the line.
+const TrendChart: React.FC<TrendChartProps> = ({ series, previousSeries, metric }) => {
+  const values = series.map(period => period[metric.key]);
+  const previousValues = previousSeries.slice(0, series.length).map(period => period[metric.key]);
+  const highest = Math.max(1, ...values.map(value => value ?? 0), ...previousValues.map(value => value ?? 0));
+  const step = CHART_WIDTH / Math.max(1, series.length);
+
+  const x = (index: number) => step * index + step / 2;
+  const y = (value: number) => CHART_HEIGHT - (value / highest) * (CHART_HEIGHT - 4);
+
+  // Runs of consecutive values, so missing periods break the line
+  const segments = (list: (number | null)[]) => {
+    const runs: string[][] = [[]];
+    list.forEach((value, index) => {
+      if (value === null) {
+        runs.push([]);
+      } else {
+        runs[runs.length - 1].push(`${x(index).toFixed(1)},${y(value).toFixed(1)}`);
+      }
+    });
+    return runs.filter(run => run.length > 0);
+  };
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      preserveAspectRatio="none"
+      className="w-full"
+      style={{ height: CHART_HEIGHT }}
+      role="img"
+      aria-label={`${metric.title} per period`}
+    >
+      <line x1={0} x2={CHART_WIDTH} y1={CHART_HEIGHT} y2={CHART_HEIGHT} stroke="#e5e7eb" vectorEffect="non-scaling-stroke" />
+      {segments(previousValues).map((run, index) => (
+        <polyline
+          key={`previous-${index}`}
+          points={run.length === 1 ? `${run[0]} ${run[0]}` : run.join(' ')}
+          fill="none"
+          stroke="#d1d5db"
+          strokeDasharray="4 3"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+      ))}
+      {metric.key === 'throughput'
+        ? values.map((value, index) => value !== null && value > 0 && (
+            <rect
+              key={series[index].period}
+              x={x(index) - step * 0.3}
+              width={step * 0.6}
+              y={y(value)}
+              height={CHART_HEIGHT - y(value)}
+              fill={metric.color}
+              opacity={0.8}
+            >
+              <title>{`${series[index].period}: ${metric.format(value)}`}</title>
+            </rect>
+          ))
+        : segments(values).map((run, index) => (
+            <polyline
+              key={`current-${index}`}
+              points={run.length === 1 ? `${run[0]} ${run[0]}` : run.join(' ')}
+              fill="none"
+              stroke={metric.color}
+              strokeWidth={2}
+              strokeLinecap="round"
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+    </svg>
+  );
+};
+
+// Change against the previous period, coloured by whether it is an improvement
+const Comparison: React.FC<{ current: number | null; previous: number | null; metric: MetricDefinition }> = ({
+  current,
+  previous,
+  metric
+}) => {
+  if (current === null || previous === null) {
+    return <span className="text-xs text-gray-400">No comparison</span>;
+  }
+  if (current === previous) {
+    return <span className="text-xs text-gray-500">Same as previous period</span>;
+  }
+
+  const rising = current > previous;
+  const improved = rising === metric.higherIsBetter;
+  const change = previous === 0 ? null : Math.round(((current - previous) / previous) * 100);
+  const Icon = rising ? ArrowUpRight : ArrowDownRight;
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${
+        improved ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+      }`}
+      title={`Previous period: ${metric.format(previous)}`}
+    >
+      <Icon size={12} />
+      {change === null ? `from ${metric.format(previous)}` : `${change > 0 ? '+' : ''}${change}%`}
+    </span>
+  );
+};
+
+interface DeliveryTrendsProps {
+  analytics: DashboardAnalytics | null;
+  range: DashboardRange;
+  onRangeChange: (range: DashboardRange) => void;
+  loading?: boolean;
+}
+
+// Dashboard section charting how the workspace's tasks flow over the chosen range
+export const DeliveryTrends: React.FC<DeliveryTrendsProps> = ({ analytics, range, onRangeChange, loading = false }) => {
+  const [preset, setPreset] = useState<DashboardRangePreset | 'custom'>('30d');
+
+  const handlePresetChange = (value: string) => {
+    setPreset(value as DashboardRangePreset | 'custom');
+    if (value !== 'custom') onRangeChange(presetRange(value as DashboardRangePreset));
+  };
+
+  const handleDateChange = (changes: Partial<DashboardRange>) => {
+    const next = { ...range, ...changes };
+    if (next.from && next.to && next.from <= next.to) onRangeChange(next);
+  };
+
+  return (
+    <div className="mb-8 bg-white rounded-2xl shadow-lg border border-gray-100">
+      <div className="p-5 border-b border-gray-100 flex flex-col lg:flex-row lg:items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-purple-500 rounded-xl flex items-center justify-center">
+            <TrendingUp size={18} className="text-white" />
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Delivery Trends</h2>
+            <p className="text-gray-600 text-sm">
+              {analytics
+                ? `${format(parseISO(analytics.range.from), 'MMM d, yyyy')} – ${format(parseISO(analytics.range.to), 'MMM d, yyyy')}; dashed lines show the period before`
+                : 'How work moves through your board'}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={preset} onChange={(e) => handlePresetChange(e.target.value)} className={inputClassName}>
+            {(Object.keys(DASHBOARD_RANGE_PRESETS) as DashboardRangePreset[]).map(key => (
+              <option key={key} value={key}>{DASHBOARD_RANGE_PRESETS[key]}</option>
+            ))}
+            <option value="custom">Custom range</option>
+          </select>
+          {preset === 'custom' && (
+            <>
+              <input
+                type="date"
+                value={range.from}
+                max={range.to}
+                onChange={(e) => handleDateChange({ from: e.target.value })}
+                className={inputClassName}
+              />
+              <span className="text-gray-400 text-sm">to</span>
+              <input
+                type="date"
+                value={range.to}
+                min={range.from}
+                onChange={(e) => handleDateChange({ to: e.target.value })}
+                className={inputClassName}
+              />
+            </>
+          )}
+          <select
+            value={range.groupBy}
+            onChange={(e) => onRangeChange({ ...range, groupBy: e.target.value as AnalyticsGrouping })}
+            className={inputClassName}
+          >
+            <option value="day">By day</option>
+            <option value="week">By week</option>
+            <option value="month">By month</option>
+          </select>
+        </div>
+      </div>
+
+      <div className={`p-5 grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4 ${loading ? 'opacity-60' : ''}`}>
+        {METRICS.map(metric => {
+          const current = analytics ? analytics.summary.current[metric.key] : null;
+          const previous = analytics ? analytics.summary.previous[metric.key] : null;
+
+          return (
+            <div key={metric.key} className="p-4 rounded-xl border border-gray-100 space-y-3">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <p className="text-sm font-semibold text-gray-800">{metric.title}</p>
+                  <p className="text-2xl font-bold text-gray-900">{current === null ? '—' : metric.format(current)}</p>
+                </div>
+                <Comparison current={current} previous={previous} metric={metric} />
+              </div>
+              {analytics && analytics.series.length > 0 && (
+                <>
+                  <TrendChart series={analytics.series} previousSeries={analytics.previousSeries} metric={metric} />
+                  <div className="flex justify-between text-xs text-gray-400">
+                    <span>{formatPeriod(analytics.series[0].period, analytics.range.groupBy)}</span>
+                    <span>{formatPeriod(analytics.series[analytics.series.length - 1].period, analytics.range.groupBy)}</span>
+                  </div>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
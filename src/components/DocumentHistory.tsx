@@ -0,0 +1,182 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { formatDistanceToNow, format } from 'date-fns';
+import { History, RotateCcw, X } from 'lucide-react';
+import { taskResourceService, TaskResource, DocumentRevision } from '../services/taskResourceService';
+import { htmlDiff } from '../services/htmlDiff';
+
+interface DocumentHistoryProps {
+  taskId: string;
+  document: TaskResource;
+  onRestored: (document: TaskResource) => void;
+  onClose: () => void;
+}
+
+// Saved versions of a document: pick one to see what changed against an earlier one, and restore it
+export const DocumentHistory: React.FC<DocumentHistoryProps> = ({ taskId, document, onRestored, onClose }) => {
+  const [revisions, setRevisions] = useState<DocumentRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // The revision the selected one is compared with; null compares with the one before it
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [contents, setContents] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    taskResourceService.getRevisions(taskId, document.id)
+      .then(list => {
+        if (cancelled) return;
+        setRevisions(list);
+        setSelectedId(list[0]?.id || null);
+        setBaseId(null);
+      })
+      .catch(err => {
+        console.error('Failed to load document history:', err);
+        if (!cancelled) setError('Failed to load the history');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [taskId, document.id, document.revisionNumber]);
+
+  const selected = revisions.find(revision => revision.id === selectedId) || null;
+  const base = baseId
+    ? revisions.find(revision => revision.id === baseId) || null
+    : selected && revisions.find(revision => revision.number < selected.number) || null;
+
+  // Load the content of the two compared revisions the first time they are needed
+  useEffect(() => {
+    const missing = [selected, base].filter((revision): revision is DocumentRevision => revision !== null && !(revision.id in contents));
+    if (missing.length === 0) return;
+
+    Promise.all(missing.map(revision => taskResourceService.getRevision(taskId, document.id, revision.id)))
+      .then(loaded => setContents(prev => ({
+        ...prev,
+        ...Object.fromEntries(loaded.map(revision => [revision.id, revision.content || '']))
+      })))
+      .catch(err => {
+        console.error('Failed to load revision:', err);
+        setError('Failed to load the revision');
+      });
+  }, [selected, base, contents, taskId, document.id]);
+
+  const diff = useMemo(() => {
+    if (!selected || !(selected.id in contents)) return null;
+    if (base && !(base.id in contents)) return null;
+    return htmlDiff(base ? contents[base.id] : '', contents[selected.id]);
+  }, [selected, base, contents]);
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    if (!window.confirm(`Restore revision ${selected.number}? It is saved as a new revision and replaces the document for everyone editing it.`)) return;
+
+    setIsRestoring(true);
+    setError(null);
+    try {
+      onRestored(await taskResourceService.restoreRevision(taskId, document.id, selected.id));
+    } catch (err) {
+      console.error('Failed to restore revision:', err);
+      setError('Failed to restore the revision');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const authorOf = (revision: DocumentRevision) => revision.createdByName || (revision.createdBy ? 'Former member' : 'Unknown');
+
+  return (
+    <div className="flex-1 flex min-h-0">
+      <div className="w-64 shrink-0 border-r border-gray-200 flex flex-col">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+          <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+            <History className="w-4 h-4" />
+            History
+          </h3>
+          <button onClick={onClose} className="p-1 text-gray-500 hover:bg-gray-100 rounded-lg" title="Back to the document">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-2 space-y-1">
+          {loading ? (
+            <div className="flex justify-center py-6"><div className="loading-spinner"></div></div>
+          ) : revisions.length === 0 ? (
+            <p className="text-sm text-gray-500 p-2">No saved versions yet.</p>
+          ) : (
+            revisions.map((revision, index) => (
+              <button
+                key={revision.id}
+                onClick={() => {
+                  setSelectedId(revision.id);
+                  if (baseId === revision.id) setBaseId(null);
+                }}
+                className={`w-full text-left px-3 py-2 rounded-lg text-sm ${
+                  revision.id === selectedId ? 'bg-primary text-white' : 'hover:bg-gray-100 text-gray-700'
+                }`}
+              >
+                <div className="font-medium">
+                  Revision {revision.number}
+                  {index === 0 && <span className="ml-1 text-xs opacity-75">(current)</span>}
+                </div>
+                <div className={`text-xs ${revision.id === selectedId ? 'text-white/75' : 'text-gray-500'}`}>
+                  {authorOf(revision)} · {formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true })}
+                </div>
+                {revision.restoredFrom && (
+                  <div className={`text-xs ${revision.id === selectedId ? 'text-white/75' : 'text-gray-500'}`}>
+                    Restored from revision {revision.restoredFrom}
+                  </div>
+                )}
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 flex flex-col min-w-0">
+        {selected && (
+          <div className="flex flex-wrap items-center gap-3 px-4 py-3 border-b border-gray-200">
+            <div className="text-sm text-gray-700">
+              <span className="font-medium">Revision {selected.number}</span>
+              {' by '}{authorOf(selected)}, {format(new Date(selected.createdAt), 'MMM d, yyyy HH:mm')}
+            </div>
+            <select
+              value={baseId || ''}
+              onChange={(e) => setBaseId(e.target.value || null)}
+              className="form-input max-w-[220px] text-sm"
+            >
+              <option value="">Compared with the previous revision</option>
+              {revisions.filter(revision => revision.id !== selected.id).map(revision => (
+                <option key={revision.id} value={revision.id}>Compared with revision {revision.number}</option>
+              ))}
+            </select>
+            {diff && (
+              <span className="text-xs">
+                <span className="text-green-700">+{diff.added}</span>{' '}
+                <span className="text-red-700">−{diff.removed}</span> words
+              </span>
+            )}
+            {selected.id !== revisions[0]?.id && (
+              <button onClick={handleRestore} disabled={isRestoring} className="btn-outline text-sm ml-auto disabled:opacity-50">
+                <RotateCcw className="w-4 h-4" />
+                Restore this version
+              </button>
+            )}
+          </div>
+        )}
+        {error && <p className="px-4 pt-3 text-sm text-red-600">{error}</p>}
+        <div className="flex-1 overflow-y-auto ql-snow">
+          {diff ? (
+            // The diff is rebuilt from allowlisted tags only, see services/htmlDiff
+            <div className="ql-editor document-diff" dangerouslySetInnerHTML={{ __html: diff.html }} />
+          ) : selected ? (
+            <div className="flex justify-center py-10"><div className="loading-spinner"></div></div>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  );
+};
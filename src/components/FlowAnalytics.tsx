@@ -0,0 +1,322 @@
+import React from 'react';
+import { format, parseISO, differenceInCalendarDays } from 'date-fns';
+import { KanbanAnalytics, TimePercentiles, AnalyticsGrouping } from '../types';
+
+const CHART_WIDTH = 400;
+const CHART_HEIGHT = 160;
+
+// Colour of statuses that are no longer a board column
+const FALLBACK_COLOR = '#94a3b8';
+
+const formatPeriod = (period: string, groupBy: AnalyticsGrouping) =>
+  format(parseISO(period), groupBy === 'month' ? 'MMM yyyy' : 'MMM d');
+
+const formatDays = (value: number | null) => (value === null ? '—' : `${value.toFixed(1)} d`);
+
+// First and last period under a chart
+const PeriodAxis: React.FC<{ periods: string[]; groupBy: AnalyticsGrouping }> = ({ periods, groupBy }) =>
+  periods.length > 0 ? (
+    <div className="flex justify-between text-xs text-gray-400 mt-1">
+      <span>{formatPeriod(periods[0], groupBy)}</span>
+      <span>{formatPeriod(periods[periods.length - 1], groupBy)}</span>
+    </div>
+  ) : null;
+
+// Board columns in order, followed by any other status a task was in during the range
+const chartColumns = (analytics: KanbanAnalytics) => {
+  const known = new Set(analytics.columns.map(column => column.id));
+  const others = new Set<string>();
+  analytics.cumulativeFlow.forEach(point => {
+    Object.keys(point.counts).forEach(status => {
+      if (!known.has(status)) others.add(status);
+    });
+  });
+  return [
+    ...analytics.columns,
+    ...[...others].map(status => ({ id: status, title: status, color: FALLBACK_COLOR }))
+  ];
+};
+
+// Tasks per column at the end of each period, stacked with the last column (done) at the bottom
+export const CumulativeFlowChart: React.FC<{ analytics: KanbanAnalytics }> = ({ analytics }) => {
+  const { cumulativeFlow } = analytics;
+  const columns = chartColumns(analytics);
+  if (cumulativeFlow.length === 0) return null;
+
+  const highest = Math.max(1, ...cumulativeFlow.map(point => Object.values(point.counts).reduce((sum, count) => sum + count, 0)));
+  const x = (index: number) => (cumulativeFlow.length === 1 ? CHART_WIDTH / 2 : (index / (cumulativeFlow.length - 1)) * CHART_WIDTH);
+  const y = (value: number) => CHART_HEIGHT - (value / highest) * (CHART_HEIGHT - 4);
+
+  // Running totals from the bottom of the stack up
+  const stacked = [...columns].reverse();
+  const bands = stacked.map((column, level) => {
+    const below = stacked.slice(0, level);
+    const lower = cumulativeFlow.map(point => below.reduce((sum, other) => sum + (point.counts[other.id] || 0), 0));
+    const upper = cumulativeFlow.map((point, index) => lower[index] + (point.counts[column.id] || 0));
+    const top = upper.map((value, index) => `${x(index).toFixed(1)},${y(value).toFixed(1)}`);
+    const bottom = lower.map((value, index) => `${x(index).toFixed(1)},${y(value).toFixed(1)}`).reverse();
+    return { column, points: [...top, ...bottom].join(' ') };
+  });
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full"
+        style={{ height: CHART_HEIGHT }}
+        role="img"
+        aria-label="Cumulative flow per column"
+      >
+        {bands.map(({ column, points }) => (
+          <polygon key={column.id} points={points} fill={column.color} opacity={0.75} stroke="#ffffff" strokeWidth={1} vectorEffect="non-scaling-stroke">
+            <title>{column.title}</title>
+          </polygon>
+        ))}
+      </svg>
+      <PeriodAxis periods={cumulativeFlow.map(point => point.period)} groupBy={analytics.range.groupBy} />
+      <div className="flex flex-wrap gap-3 mt-3 text-xs text-gray-600">
+        {columns.map(column => (
+          <span key={column.id} className="flex items-center gap-1.5">
+            <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: column.color }} />
+            {column.title}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Tasks in progress (neither in the backlog nor done) at the end of each period
+export const WipChart: React.FC<{ analytics: KanbanAnalytics }> = ({ analytics }) => {
+  const { cumulativeFlow } = analytics;
+  if (cumulativeFlow.length === 0) return null;
+
+  const highest = Math.max(1, ...cumulativeFlow.map(point => point.wip));
+  const x = (index: number) => (cumulativeFlow.length === 1 ? CHART_WIDTH / 2 : (index / (cumulativeFlow.length - 1)) * CHART_WIDTH);
+  const y = (value: number) => CHART_HEIGHT - (value / highest) * (CHART_HEIGHT - 4);
+  const points = cumulativeFlow.map((point, index) => `${x(index).toFixed(1)},${y(point.wip).toFixed(1)}`);
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full"
+        style={{ height: CHART_HEIGHT }}
+        role="img"
+        aria-label="Work in progress over time"
+      >
+        <line x1={0} x2={CHART_WIDTH} y1={CHART_HEIGHT} y2={CHART_HEIGHT} stroke="#e5e7eb" vectorEffect="non-scaling-stroke" />
+        <polyline
+          points={points.length === 1 ? `${points[0]} ${points[0]}` : points.join(' ')}
+          fill="none"
+          stroke="#8b5cf6"
+          strokeWidth={2}
+          strokeLinecap="round"
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      <PeriodAxis periods={cumulativeFlow.map(point => point.period)} groupBy={analytics.range.groupBy} />
+      <p className="text-xs text-gray-500 mt-2">Peak of {highest} tasks in progress</p>
+    </div>
+  );
+};
+
+// How many periods finished 0, 1, 2... tasks
+export const ThroughputHistogram: React.FC<{ analytics: KanbanAnalytics }> = ({ analytics }) => {
+  const { throughputHistogram, range } = analytics;
+  if (throughputHistogram.length === 0) return null;
+
+  const highest = Math.max(1, ...throughputHistogram.map(bin => bin.periods));
+  const step = CHART_WIDTH / throughputHistogram.length;
+  const y = (value: number) => CHART_HEIGHT - (value / highest) * (CHART_HEIGHT - 4);
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full"
+        style={{ height: CHART_HEIGHT }}
+        role="img"
+        aria-label={`Tasks completed per ${range.groupBy}`}
+      >
+        <line x1={0} x2={CHART_WIDTH} y1={CHART_HEIGHT} y2={CHART_HEIGHT} stroke="#e5e7eb" vectorEffect="non-scaling-stroke" />
+        {throughputHistogram.map((bin, index) => bin.periods > 0 && (
+          <rect
+            key={bin.completed}
+            x={step * index + step * 0.15}
+            width={step * 0.7}
+            y={y(bin.periods)}
+            height={CHART_HEIGHT - y(bin.periods)}
+            fill="#3b82f6"
+            opacity={0.8}
+          >
+            <title>{`${bin.periods} × ${bin.completed} done`}</title>
+          </rect>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-gray-400 mt-1">
+        <span>0 done</span>
+        <span>{throughputHistogram.length - 1} done per {range.groupBy}</span>
+      </div>
+    </div>
+  );
+};
+
+interface CycleTimeScatterProps {
+  analytics: KanbanAnalytics;
+}
+
+// Cycle time of each task by the day it was finished, with the 50th and 85th percentiles
+export const CycleTimeScatter: React.FC<CycleTimeScatterProps> = ({ analytics }) => {
+  const { completed, cycleTime, range } = analytics;
+  const points = completed.filter(task => task.cycleTimeDays !== null);
+  if (points.length === 0) {
+    return <p className="text-sm text-gray-500 py-8 text-center">No tasks were finished in this range</p>;
+  }
+
+  const totalDays = Math.max(1, differenceInCalendarDays(parseISO(range.to), parseISO(range.from)) + 1);
+  const highest = Math.max(1, ...points.map(task => task.cycleTimeDays ?? 0));
+  const x = (date: string) => ((differenceInCalendarDays(parseISO(date), parseISO(range.from)) + 0.5) / totalDays) * CHART_WIDTH;
+  const y = (value: number) => CHART_HEIGHT - (value / highest) * (CHART_HEIGHT - 8) - 4;
+
+  const guides: { label: string; value: number | null; color: string }[] = [
+    { label: '50%', value: cycleTime.p50, color: '#10b981' },
+    { label: '85%', value: cycleTime.p85, color: '#f97316' }
+  ];
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full"
+        style={{ height: CHART_HEIGHT }}
+        role="img"
+        aria-label="Cycle time of finished tasks"
+      >
+        <line x1={0} x2={CHART_WIDTH} y1={CHART_HEIGHT} y2={CHART_HEIGHT} stroke="#e5e7eb" vectorEffect="non-scaling-stroke" />
+        {guides.map(guide => guide.value !== null && (
+          <line
+            key={guide.label}
+            x1={0}
+            x2={CHART_WIDTH}
+            y1={y(guide.value)}
+            y2={y(guide.value)}
+            stroke={guide.color}
+            strokeDasharray="4 3"
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        {points.map(task => (
+          <line
+            key={task.id}
+            x1={x(task.completedAt)}
+            x2={x(task.completedAt)}
+            y1={y(task.cycleTimeDays ?? 0)}
+            y2={y(task.cycleTimeDays ?? 0)}
+            stroke="#3b82f6"
+            strokeWidth={8}
+            strokeLinecap="round"
+            vectorEffect="non-scaling-stroke"
+          >
+            <title>{`${task.title}: ${formatDays(task.cycleTimeDays)}`}</title>
+          </line>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-gray-400 mt-1">
+        <span>{format(parseISO(range.from), 'MMM d')}</span>
+        <span>{format(parseISO(range.to), 'MMM d')}</span>
+      </div>
+      <div className="flex gap-4 mt-2 text-xs text-gray-600">
+        {guides.map(guide => (
+          <span key={guide.label} className="flex items-center gap-1.5">
+            <span className="w-4 h-0.5" style={{ backgroundColor: guide.color }} />
+            {guide.label} within {formatDays(guide.value)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Per-task cycle and lead times of the tasks finished in the range, latest first
+export const CompletedTasksTable: React.FC<{ analytics: KanbanAnalytics }> = ({ analytics }) => {
+  if (analytics.completed.length === 0) {
+    return <p className="text-sm text-gray-500 py-4 text-center">No tasks were finished in this range</p>;
+  }
+
+  return (
+    <div className="max-h-80 overflow-y-auto">
+      <table className="w-full text-sm">
+        <thead className="text-left text-xs text-gray-500 uppercase sticky top-0 bg-white">
+          <tr>
+            <th className="py-2 pr-3 font-medium">Task</th>
+            <th className="py-2 pr-3 font-medium">Finished</th>
+            <th className="py-2 pr-3 font-medium text-right">Cycle time</th>
+            <th className="py-2 font-medium text-right">Lead time</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {[...analytics.completed].reverse().map(task => (
+            <tr key={task.id}>
+              <td className="py-2 pr-3 text-gray-900 truncate max-w-xs">{task.title}</td>
+              <td className="py-2 pr-3 text-gray-600 whitespace-nowrap">{format(parseISO(task.completedAt), 'MMM d, yyyy')}</td>
+              <td className="py-2 pr-3 text-right text-gray-900">{formatDays(task.cycleTimeDays)}</td>
+              <td className="py-2 text-right text-gray-900">{formatDays(task.leadTimeDays)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+interface AgingWorkListProps {
+  analytics: KanbanAnalytics;
+}
+
+// How old the work in progress is, against the cycle times of the range
+const ageColor = (ageDays: number | null, cycleTime: TimePercentiles) => {
+  if (ageDays === null) return 'text-gray-500';
+  if (cycleTime.p85 !== null && ageDays > cycleTime.p85) return 'text-red-600';
+  if (cycleTime.p50 !== null && ageDays > cycleTime.p50) return 'text-amber-600';
+  return 'text-green-600';
+};
+
+// Tasks in progress now, oldest first; older than most finished tasks took is a warning sign
+export const AgingWorkList: React.FC<AgingWorkListProps> = ({ analytics }) => {
+  const { aging, columns, cycleTime } = analytics;
+  if (aging.length === 0) {
+    return <p className="text-sm text-gray-500 py-4 text-center">No tasks are in progress</p>;
+  }
+
+  const columnTitle = (status: string) => columns.find(column => column.id === status)?.title || status;
+
+  return (
+    <div className="max-h-80 overflow-y-auto">
+      <table className="w-full text-sm">
+        <thead className="text-left text-xs text-gray-500 uppercase sticky top-0 bg-white">
+          <tr>
+            <th className="py-2 pr-3 font-medium">Task</th>
+            <th className="py-2 pr-3 font-medium">Column</th>
+            <th className="py-2 pr-3 font-medium text-right">In column</th>
+            <th className="py-2 font-medium text-right">Age</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {aging.map(task => (
+            <tr key={task.id}>
+              <td className="py-2 pr-3 text-gray-900 truncate max-w-xs">{task.title}</td>
+              <td className="py-2 pr-3 text-gray-600">{columnTitle(task.status)}</td>
+              <td className="py-2 pr-3 text-right text-gray-600">{formatDays(task.daysInColumn)}</td>
+              <td className={`py-2 text-right font-semibold ${ageColor(task.ageDays, cycleTime)}`}>{formatDays(task.ageDays)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
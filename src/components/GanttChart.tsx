@@ -0,0 +1,407 @@
+import React, { useState, useMemo, useCallback, useEffect } from 'react';
+import { CalendarPlus } from 'lucide-react';
+import { KanbanTask, Workflow, TaskDependency } from '../types';
+
+export type GanttZoom = 'day' | 'week';
+
+interface GanttChartProps {
+  workflows: Workflow[];
+  tasks: KanbanTask[];
+  dependencies: TaskDependency[];
+  criticalTaskIds?: string[];
+  zoom: GanttZoom;
+  onReschedule: (task: KanbanTask, startDate: Date, dueDate: Date) => Promise<void>;
+  onTaskClick?: (task: KanbanTask) => void;
+}
+
+type GanttRow =
+  | { type: 'workflow'; workflow: Workflow }
+  | { type: 'task'; task: KanbanTask };
+
+type DragMode = 'move' | 'resize-start' | 'resize-end';
+
+interface DragState {
+  taskId: string;
+  mode: DragMode;
+  originX: number;
+  deltaDays: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ROW_HEIGHT = 40;
+const HEADER_HEIGHT = 48;
+const LABEL_WIDTH = 280;
+const DAY_WIDTH: Record<GanttZoom, number> = { day: 40, week: 16 };
+
+const startOfDay = (date: Date | string) => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+const addDays = (date: Date, days: number) => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+const diffDays = (from: Date, to: Date) => Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS);
+
+// Tasks without a start date are drawn as a one-day bar ending on the due date
+const getTaskSpan = (task: KanbanTask): { start: Date; end: Date } | null => {
+  if (!task.dueDate) return null;
+  const end = startOfDay(task.dueDate);
+  const start = task.startDate ? startOfDay(task.startDate) : end;
+  return { start: start > end ? end : start, end };
+};
+
+const applyDrag = (span: { start: Date; end: Date }, mode: DragMode, deltaDays: number) => {
+  if (mode === 'move') {
+    return { start: addDays(span.start, deltaDays), end: addDays(span.end, deltaDays) };
+  }
+  if (mode === 'resize-start') {
+    const start = addDays(span.start, deltaDays);
+    return { start: start > span.end ? span.end : start, end: span.end };
+  }
+  const end = addDays(span.end, deltaDays);
+  return { start: span.start, end: end < span.start ? span.start : end };
+};
+
+const statusColors: Record<string, string> = {
+  'todo': 'bg-gray-400',
+  'in-progress': 'bg-blue-500',
+  'review': 'bg-purple-500',
+  'done': 'bg-green-500'
+};
+
+export const GanttChart: React.FC<GanttChartProps> = ({
+  workflows,
+  tasks,
+  dependencies,
+  criticalTaskIds = [],
+  zoom,
+  onReschedule,
+  onTaskClick
+}) => {
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const dayWidth = DAY_WIDTH[zoom];
+
+  // Workflow header row followed by its tasks, ordered by start date
+  const rows: GanttRow[] = useMemo(() => {
+    return workflows.flatMap(workflow => {
+      const workflowTasks = tasks
+        .filter(task => task.workflowId === workflow.id)
+        .sort((a, b) => {
+          const aSpan = getTaskSpan(a);
+          const bSpan = getTaskSpan(b);
+          if (!aSpan) return 1;
+          if (!bSpan) return -1;
+          return aSpan.start.getTime() - bSpan.start.getTime();
+        });
+      return [
+        { type: 'workflow' as const, workflow },
+        ...workflowTasks.map(task => ({ type: 'task' as const, task }))
+      ];
+    });
+  }, [workflows, tasks]);
+
+  // Visible range covers every workflow and task date, padded by a few days
+  const range = useMemo(() => {
+    const dates: Date[] = [startOfDay(new Date())];
+    workflows.forEach(workflow => {
+      if (workflow.startDate) dates.push(startOfDay(workflow.startDate));
+      if (workflow.expectedEndDate) dates.push(startOfDay(workflow.expectedEndDate));
+    });
+    tasks.forEach(task => {
+      const span = getTaskSpan(task);
+      if (span) dates.push(span.start, span.end);
+    });
+
+    const min = new Date(Math.min(...dates.map(date => date.getTime())));
+    const max = new Date(Math.max(...dates.map(date => date.getTime())));
+    const start = addDays(min, -3);
+    return { start, days: diffDays(start, max) + 8 };
+  }, [workflows, tasks]);
+
+  const rowIndexByTask = useMemo(() => {
+    const index = new Map<string, number>();
+    rows.forEach((row, i) => {
+      if (row.type === 'task') index.set(row.task.id, i);
+    });
+    return index;
+  }, [rows]);
+
+  const spanFor = useCallback((task: KanbanTask) => {
+    const span = getTaskSpan(task);
+    if (!span || !drag || drag.taskId !== task.id) return span;
+    return applyDrag(span, drag.mode, drag.deltaDays);
+  }, [drag]);
+
+  const xFor = (date: Date) => diffDays(range.start, date) * dayWidth;
+
+  // Pointer tracking lives on the window so the drag survives leaving the bar
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMove = (e: MouseEvent) => {
+      const deltaDays = Math.round((e.clientX - drag.originX) / dayWidth);
+      if (deltaDays !== drag.deltaDays) {
+        setDrag(current => current && { ...current, deltaDays });
+      }
+    };
+
+    const handleUp = () => {
+      const task = tasks.find(t => t.id === drag.taskId);
+      const span = task && getTaskSpan(task);
+      setDrag(null);
+      if (task && span && drag.deltaDays !== 0) {
+        const next = applyDrag(span, drag.mode, drag.deltaDays);
+        onReschedule(task, next.start, next.end);
+      } else if (task && drag.deltaDays === 0 && onTaskClick) {
+        onTaskClick(task);
+      }
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [drag, dayWidth, tasks, onReschedule, onTaskClick]);
+
+  const startDrag = (e: React.MouseEvent, task: KanbanTask, mode: DragMode) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDrag({ taskId: task.id, mode, originX: e.clientX, deltaDays: 0 });
+  };
+
+  const scheduleToday = (task: KanbanTask) => {
+    const today = startOfDay(new Date());
+    onReschedule(task, today, addDays(today, 1));
+  };
+
+  // Finish-to-start arrows: from the end of the predecessor bar to the start of the successor bar
+  const arrows = dependencies.flatMap(dep => {
+    const fromIndex = rowIndexByTask.get(dep.predecessorId);
+    const toIndex = rowIndexByTask.get(dep.successorId);
+    const predecessor = tasks.find(task => task.id === dep.predecessorId);
+    const successor = tasks.find(task => task.id === dep.successorId);
+    if (fromIndex === undefined || toIndex === undefined || !predecessor || !successor) return [];
+
+    const fromSpan = spanFor(predecessor);
+    const toSpan = spanFor(successor);
+    if (!fromSpan || !toSpan) return [];
+
+    const x1 = xFor(fromSpan.end) + dayWidth;
+    const y1 = fromIndex * ROW_HEIGHT + ROW_HEIGHT / 2;
+    const x2 = xFor(toSpan.start);
+    const y2 = toIndex * ROW_HEIGHT + ROW_HEIGHT / 2;
+    const bend = Math.max(x1 + 8, Math.min(x2 - 8, x1 + 16));
+    const isViolated = toSpan.start < fromSpan.end;
+    const isCritical = criticalTaskIds.includes(dep.predecessorId) && criticalTaskIds.includes(dep.successorId);
+
+    return [{
+      id: dep.id,
+      d: `M ${x1} ${y1} H ${bend} V ${y2} H ${x2}`,
+      color: isViolated ? '#f97316' : isCritical ? '#ef4444' : '#64748b'
+    }];
+  });
+
+  const today = startOfDay(new Date());
+  const gridWidth = range.days * dayWidth;
+  const headerDays = Array.from({ length: range.days }, (_, i) => addDays(range.start, i));
+
+  if (rows.length === 0) {
+    return (
+      <div className="p-12 text-center text-gray-500">
+        No workflows match the current filters.
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex border border-gray-200 rounded-2xl bg-white overflow-hidden select-none">
+      {/* Row labels */}
+      <div className="flex-shrink-0 border-r border-gray-200" style={{ width: LABEL_WIDTH }}>
+        <div className="flex items-center px-4 text-xs font-semibold text-gray-500 uppercase border-b border-gray-200" style={{ height: HEADER_HEIGHT }}>
+          Workflow / Task
+        </div>
+        {rows.map(row => row.type === 'workflow' ? (
+          <div
+            key={`wf-${row.workflow.id}`}
+            className="flex items-center px-4 bg-gray-50 border-b border-gray-100 font-semibold text-gray-900 text-sm truncate"
+            style={{ height: ROW_HEIGHT }}
+            title={row.workflow.name}
+          >
+            {row.workflow.name}
+          </div>
+        ) : (
+          <div
+            key={row.task.id}
+            className="flex items-center gap-2 pl-8 pr-4 border-b border-gray-100 text-sm text-gray-700 cursor-pointer hover:bg-gray-50"
+            style={{ height: ROW_HEIGHT }}
+            onClick={() => onTaskClick?.(row.task)}
+          >
+            <span className={`w-2 h-2 rounded-full flex-shrink-0 ${statusColors[row.task.status] || 'bg-gray-400'}`} />
+            <span className="truncate" title={row.task.title}>{row.task.title}</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Timeline grid */}
+      <div className="flex-1 overflow-x-auto">
+        <div className="relative" style={{ width: gridWidth }}>
+          <div className="flex border-b border-gray-200" style={{ height: HEADER_HEIGHT }}>
+            {headerDays.map(day => {
+              const isWeekStart = day.getDay() === 1;
+              const showLabel = zoom === 'day' || isWeekStart;
+              return (
+                <div
+                  key={day.toISOString()}
+                  className={`flex-shrink-0 flex flex-col items-center justify-center text-[10px] border-r ${
+                    isWeekStart ? 'border-gray-300' : 'border-gray-100'
+                  } ${day.getDay() === 0 || day.getDay() === 6 ? 'bg-gray-50' : ''}`}
+                  style={{ width: dayWidth }}
+                >
+                  {showLabel && (
+                    <>
+                      <span className="text-gray-400">{day.toLocaleDateString(undefined, { month: 'short' })}</span>
+                      <span className="font-semibold text-gray-700">{day.getDate()}</span>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="relative" style={{ height: rows.length * ROW_HEIGHT }}>
+            {/* Row stripes */}
+            {rows.map((row, i) => (
+              <div
+                key={row.type === 'workflow' ? `wf-row-${row.workflow.id}` : `row-${row.task.id}`}
+                className={`absolute left-0 right-0 border-b border-gray-100 ${row.type === 'workflow' ? 'bg-gray-50' : ''}`}
+                style={{ top: i * ROW_HEIGHT, height: ROW_HEIGHT }}
+              />
+            ))}
+
+            {/* Today marker */}
+            {today >= range.start && (
+              <div
+                className="absolute top-0 bottom-0 w-px bg-red-400 z-10"
+                style={{ left: xFor(today) + dayWidth / 2 }}
+                title="Today"
+              />
+            )}
+
+            {/* Dependency arrows */}
+            <svg className="absolute inset-0 pointer-events-none z-20" width={gridWidth} height={rows.length * ROW_HEIGHT}>
+              <defs>
+                {['#64748b', '#ef4444', '#f97316'].map(color => (
+                  <marker
+                    key={color}
+                    id={`gantt-arrow-${color.slice(1)}`}
+                    viewBox="0 0 10 10"
+                    refX="9"
+                    refY="5"
+                    markerWidth="6"
+                    markerHeight="6"
+                    orient="auto-start-reverse"
+                  >
+                    <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+                  </marker>
+                ))}
+              </defs>
+              {arrows.map(arrow => (
+                <path
+                  key={arrow.id}
+                  d={arrow.d}
+                  fill="none"
+                  stroke={arrow.color}
+                  strokeWidth={1.5}
+                  markerEnd={`url(#gantt-arrow-${arrow.color.slice(1)})`}
+                />
+              ))}
+            </svg>
+
+            {/* Bars */}
+            {rows.map((row, i) => {
+              if (row.type === 'workflow') {
+                const { startDate, expectedEndDate } = row.workflow;
+                if (!startDate || !expectedEndDate) return null;
+                const start = startOfDay(startDate);
+                const end = startOfDay(expectedEndDate);
+                return (
+                  <div
+                    key={`wf-bar-${row.workflow.id}`}
+                    className="absolute rounded-md bg-primary/20 border border-primary/40 z-10"
+                    style={{
+                      top: i * ROW_HEIGHT + 12,
+                      height: ROW_HEIGHT - 24,
+                      left: xFor(start),
+                      width: (diffDays(start, end) + 1) * dayWidth
+                    }}
+                    title={`${row.workflow.name}: ${start.toLocaleDateString()} – ${end.toLocaleDateString()}`}
+                  >
+                    {row.workflow.progress && (
+                      <div
+                        className="h-full bg-primary/40 rounded-md"
+                        style={{ width: `${row.workflow.progress.percentage}%` }}
+                      />
+                    )}
+                  </div>
+                );
+              }
+
+              const { task } = row;
+              const span = spanFor(task);
+              if (!span) {
+                return (
+                  <button
+                    key={`bar-${task.id}`}
+                    onClick={() => scheduleToday(task)}
+                    className="absolute flex items-center gap-1 px-2 text-xs text-gray-500 border border-dashed border-gray-300 rounded-md hover:border-primary hover:text-primary bg-white z-10"
+                    style={{ top: i * ROW_HEIGHT + 8, height: ROW_HEIGHT - 16, left: xFor(today) }}
+                    title="No due date – click to schedule from today"
+                  >
+                    <CalendarPlus className="w-3 h-3" />
+                    Schedule
+                  </button>
+                );
+              }
+
+              const isCritical = criticalTaskIds.includes(task.id);
+              const isDragging = drag?.taskId === task.id;
+              return (
+                <div
+                  key={`bar-${task.id}`}
+                  onMouseDown={(e) => startDrag(e, task, 'move')}
+                  className={`group absolute rounded-md text-white text-xs flex items-center shadow-sm z-30 ${
+                    statusColors[task.status] || 'bg-gray-400'
+                  } ${isCritical ? 'ring-2 ring-red-400' : ''} ${isDragging ? 'opacity-80 cursor-grabbing' : 'cursor-grab'}`}
+                  style={{
+                    top: i * ROW_HEIGHT + 8,
+                    height: ROW_HEIGHT - 16,
+                    left: xFor(span.start),
+                    width: (diffDays(span.start, span.end) + 1) * dayWidth
+                  }}
+                  title={`${task.title}: ${span.start.toLocaleDateString()} – ${span.end.toLocaleDateString()}`}
+                >
+                  <div
+                    onMouseDown={(e) => startDrag(e, task, 'resize-start')}
+                    className="absolute left-0 top-0 bottom-0 w-2 cursor-ew-resize rounded-l-md group-hover:bg-black/20"
+                  />
+                  <span className="px-2 truncate pointer-events-none">{task.title}</span>
+                  <div
+                    onMouseDown={(e) => startDrag(e, task, 'resize-end')}
+                    className="absolute right-0 top-0 bottom-0 w-2 cursor-ew-resize rounded-r-md group-hover:bg-black/20"
+                  />
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
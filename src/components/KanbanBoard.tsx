@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useMemo } from 'react';
 import { useDrag, useDrop, DndProvider } from 'react-dnd';
 import { HTML5Backend } from 'react-dnd-html5-backend';
 import { 
@@ -10,9 +10,20 @@ import {
   Users,
   Clock,
   Edit3,
-  FileText
+  FileText,
+  MessageSquare,
+  SlidersHorizontal,
+  AlertTriangle,
+  ChevronDown,
+  ChevronRight
 } from 'lucide-react';
-import { KanbanTask, KanbanColumn, TeamMember, Workflow, Client } from '../types';
+import { KanbanTask, KanbanColumn, ColumnPolicyRule, TeamMember, Workflow, Client, PresenceUser, BoardViewConfig } from '../types';
+import { PresenceAvatars } from './PresenceAvatars';
+import { ColumnSettingsModal } from './ColumnSettingsModal';
+import { COLUMN_POLICY_LABELS } from '../services/taskService';
+import { filterBoardTasks, sortBoardTasks, boardSwimlanes } from '../services/boardViewService';
+import { usePermissions } from '../hooks/usePermissions';
+import { useAuth } from '../hooks/useAuth';
 
 interface KanbanBoardProps {
   columns: KanbanColumn[];
@@ -25,10 +36,10 @@ interface KanbanBoardProps {
   onTaskEdit: (task: KanbanTask) => void;
   onTaskResourcesOpen: (task: KanbanTask) => void;
   onRefresh: () => void;
-  selectedWorkflow?: string;
-  selectedClient?: string;
-  onWorkflowChange?: (workflowId: string) => void;
-  onClientChange?: (clientId: string) => void;
+  // Filters, swimlanes and sorting of the board
+  view: BoardViewConfig;
+  filterBar?: React.ReactNode;
+  viewers?: PresenceUser[];
 }
 
 interface TaskCardProps {
@@ -36,28 +47,67 @@ interface TaskCardProps {
   teamMembers: TeamMember[];
   onEdit: (task: KanbanTask) => void;
   onResourcesOpen: (task: KanbanTask) => void;
+  canMove: boolean;
+}
+
+// Tasks a column holds across the whole board, whatever the filters, for its WIP limits
+interface ColumnLoad {
+  total: number;
+  // Assignees with more tasks in the column than its per-assignee limit
+  overloadedMembers: string[];
+}
+
+interface ColumnHeaderProps {
+  column: KanbanColumn;
+  taskCount: number;
+  load: ColumnLoad;
+  teamMembers: TeamMember[];
+  onCreate?: () => void;
+  onSettingsOpen?: (column: KanbanColumn) => void;
+}
+
+interface TaskDropZoneProps {
+  columnId: string;
+  tasks: KanbanTask[];
+  teamMembers: TeamMember[];
+  onTaskMove: (taskId: string, newStatus: string) => void;
+  onTaskEdit: (task: KanbanTask) => void;
+  onTaskResourcesOpen: (task: KanbanTask) => void;
+  canMove: boolean;
+  className?: string;
+  emptyState?: React.ReactNode;
 }
 
 interface ColumnProps {
   column: KanbanColumn;
   tasks: KanbanTask[];
+  load: ColumnLoad;
   teamMembers: TeamMember[];
-  selectedWorkflow: Workflow | null;
-  selectedClient: Client | null;
   onTaskMove: (taskId: string, newStatus: string) => void;
-  onTaskCreate: (columnId: string, workflowId?: string, clientId?: string) => void;
+  onCreate?: () => void;
   onTaskEdit: (task: KanbanTask) => void;
   onTaskResourcesOpen: (task: KanbanTask) => void;
+  canMove: boolean;
+  onSettingsOpen?: (column: KanbanColumn) => void;
 }
 
-const TaskCard: React.FC<TaskCardProps> = ({ task, teamMembers, onEdit, onResourcesOpen }) => {
+const policySummary = (column: KanbanColumn) => {
+  const describe = (rules: ColumnPolicyRule[]) => rules.map(rule => COLUMN_POLICY_LABELS[rule].toLowerCase()).join(', ');
+  return [
+    column.policies?.entry.length ? `Entry: ${describe(column.policies.entry)}` : null,
+    column.policies?.exit.length ? `Exit: ${describe(column.policies.exit)}` : null
+  ].filter(Boolean).join(' · ');
+};
+
+const TaskCard: React.FC<TaskCardProps> = ({ task, teamMembers, onEdit, onResourcesOpen, canMove }) => {
   const [{ isDragging }, drag] = useDrag(() => ({
     type: 'task',
     item: { id: task.id },
+    canDrag: canMove,
     collect: (monitor) => ({
       isDragging: monitor.isDragging(),
     }),
-  }));
+  }), [canMove]);
 
   // TODO: Add null checks for teamMembers during user auth implementation
   const assignedMemberNames = task.assignedMembers && teamMembers && Array.isArray(teamMembers)
@@ -111,7 +161,7 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, teamMembers, onEdit, onResour
           <button
             onClick={handleEditClick}
             className="w-6 h-6 bg-gray-100 hover:bg-primary hover:text-white text-gray-500 rounded-lg flex items-center justify-center transition-all duration-200 opacity-0 group-hover:opacity-100 hover:scale-110"
-            title="Edit task"
+            title={canMove ? 'Edit task' : 'Open task'}
           >
             <Edit3 className="w-3 h-3" />
           </button>
@@ -156,6 +206,16 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, teamMembers, onEdit, onResour
         </div>
         
         <div className="flex items-center gap-2">
+          {!!task.commentCount && (
+            <button
+              onClick={handleEditClick}
+              className="flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-medium bg-gray-100 text-gray-600 hover:bg-primary/10 hover:text-primary transition-colors duration-200"
+              title={`${task.commentCount} comment${task.commentCount === 1 ? '' : 's'}`}
+            >
+              <MessageSquare className="w-3 h-3" />
+              <span>{task.commentCount}</span>
+            </button>
+          )}
           {dueDate && (
             <div className={`flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-medium ${
               isOverdue 
@@ -176,197 +236,279 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, teamMembers, onEdit, onResour
   );
 };
 
-const Column: React.FC<ColumnProps> = ({ 
-  column, 
-  tasks, 
-  teamMembers, 
-  selectedWorkflow,
-  selectedClient,
-  onTaskMove, 
-  onTaskCreate, 
+const ColumnHeader: React.FC<ColumnHeaderProps> = ({
+  column,
+  taskCount,
+  load,
+  teamMembers,
+  onCreate,
+  onSettingsOpen
+}) => {
+  const wipLimit = column.wipLimit ?? null;
+  const overLimit = wipLimit !== null && load.total > wipLimit;
+  const atLimit = wipLimit !== null && load.total === wipLimit;
+  const policies = policySummary(column);
+  const memberName = (id: string) => teamMembers.find(member => member.id === id)?.name;
+
+  return (
+    <div className="p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-3">
+          <div className="w-4 h-4 rounded-full shadow-sm" style={{ backgroundColor: column.color }}></div>
+          <h3 className="font-bold text-gray-900 text-lg">{column.title}</h3>
+        </div>
+        <div className="flex items-center gap-1">
+          {onSettingsOpen && (
+            <button
+              className="w-8 h-8 bg-gray-100 hover:bg-gray-200 text-gray-600 rounded-xl flex items-center justify-center transition-all duration-200 shadow-sm"
+              onClick={() => onSettingsOpen(column)}
+              title="WIP limits and policies"
+            >
+              <SlidersHorizontal className="w-4 h-4" />
+            </button>
+          )}
+          {onCreate && (
+            <button
+              className="w-8 h-8 bg-gray-100 hover:bg-primary hover:text-white text-gray-600 rounded-xl flex items-center justify-center transition-all duration-200 shadow-sm hover:scale-105"
+              onClick={onCreate}
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+        <span className="px-3 py-1 bg-gray-100 rounded-full text-sm font-bold text-gray-700 whitespace-nowrap">
+          {taskCount} {taskCount === 1 ? 'task' : 'tasks'}
+        </span>
+        {wipLimit !== null && (
+          <span
+            className={`px-3 py-1 rounded-full text-sm font-bold whitespace-nowrap ${
+              overLimit ? 'bg-red-100 text-red-700' : atLimit ? 'bg-amber-100 text-amber-700' : 'bg-green-100 text-green-700'
+            }`}
+            title="Tasks in this column across the board, against its WIP limit"
+          >
+            {load.total}/{wipLimit}
+          </span>
+        )}
+        {(wipLimit !== null || taskCount > 0) && (
+          <div className="flex-1 bg-gray-200 rounded-full h-2 min-w-0">
+            <div
+              className={`h-2 rounded-full transition-all duration-500 ${
+                overLimit ? 'bg-red-500' : 'bg-gradient-to-r from-primary to-accent'
+              }`}
+              style={{ width: `${Math.min(100, (wipLimit !== null ? load.total / wipLimit : taskCount / 10) * 100)}%` }}
+            />
+          </div>
+        )}
+      </div>
+      {overLimit && (
+        <p className="flex items-center gap-1.5 mt-2 text-xs font-semibold text-red-600">
+          <AlertTriangle className="w-3.5 h-3.5" />
+          WIP limit exceeded by {load.total - (wipLimit ?? 0)}
+        </p>
+      )}
+      {load.overloadedMembers.length > 0 && (
+        <p className="flex items-center gap-1.5 mt-2 text-xs font-semibold text-red-600">
+          <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" />
+          {load.overloadedMembers.every(memberName)
+            ? `Over ${column.assigneeWipLimit} per person: ${load.overloadedMembers.map(memberName).join(', ')}`
+            : `${load.overloadedMembers.length} ${load.overloadedMembers.length === 1 ? 'person is' : 'people are'} over ${column.assigneeWipLimit} per person`}
+        </p>
+      )}
+      {policies && <p className="mt-2 text-xs text-gray-500">{policies}</p>}
+    </div>
+  );
+};
+
+// Where the tasks of a column (or of one swimlane in it) are listed and dropped
+const TaskDropZone: React.FC<TaskDropZoneProps> = ({
+  columnId,
+  tasks,
+  teamMembers,
+  onTaskMove,
   onTaskEdit,
-  onTaskResourcesOpen
+  onTaskResourcesOpen,
+  canMove,
+  className,
+  emptyState
 }) => {
   const [{ isOver }, drop] = useDrop(() => ({
     accept: 'task',
+    canDrop: () => canMove,
     drop: (item: { id: string }) => {
-      onTaskMove(item.id, column.id);
+      onTaskMove(item.id, columnId);
     },
     collect: (monitor) => ({
-      isOver: monitor.isOver(),
+      isOver: monitor.isOver() && monitor.canDrop(),
     }),
-  }));
-
-  const handleCreateTask = () => {
-    onTaskCreate(
-      column.id, 
-      selectedWorkflow?.id, 
-      selectedClient?.id
-    );
-  };
+  }), [canMove, onTaskMove, columnId]);
+
+  return (
+    <div
+      ref={drop}
+      className={`p-4 space-y-3 transition-all duration-300 ${className || ''} ${isOver ? 'ring-2 ring-primary/30 bg-primary/5' : ''}`}
+    >
+      {tasks.map((task) => (
+        <TaskCard
+          key={task.id}
+          task={task}
+          teamMembers={teamMembers}
+          onEdit={onTaskEdit}
+          onResourcesOpen={onTaskResourcesOpen}
+          canMove={canMove}
+        />
+      ))}
+      {tasks.length === 0 && emptyState}
+    </div>
+  );
+};
+
+const Column: React.FC<ColumnProps> = ({
+  column,
+  tasks,
+  load,
+  teamMembers,
+  onTaskMove,
+  onCreate,
+  onTaskEdit,
+  onTaskResourcesOpen,
+  canMove,
+  onSettingsOpen
+}) => {
+  const overLimit = column.wipLimit != null && load.total > column.wipLimit;
 
   return (
     <div className="flex-shrink-0 w-80">
-      <div 
-        ref={drop} 
-        className={`bg-white rounded-2xl shadow-lg border border-gray-100 min-h-[600px] transition-all duration-300 ${
-          isOver ? 'ring-2 ring-primary/30 bg-primary/5' : ''
+      <div
+        className={`bg-white rounded-2xl shadow-lg border min-h-[600px] flex flex-col ${
+          overLimit ? 'border-red-300' : 'border-gray-100'
         }`}
       >
-        <div className="p-4 border-b border-gray-100">
-          <div className="flex items-center justify-between mb-3">
-            <div className="flex items-center gap-3">
-              <div className="w-4 h-4 rounded-full shadow-sm" style={{ backgroundColor: column.color }}></div>
-              <h3 className="font-bold text-gray-900 text-lg">{column.title}</h3>
-            </div>
-            <button 
-              className="w-8 h-8 bg-gray-100 hover:bg-primary hover:text-white text-gray-600 rounded-xl flex items-center justify-center transition-all duration-200 shadow-sm hover:scale-105"
-              onClick={handleCreateTask}
-            >
-              <Plus className="w-4 h-4" />
-            </button>
-          </div>
-          <div className="flex flex-col sm:flex-row sm:items-center gap-2">
-            <span className="px-3 py-1 bg-gray-100 rounded-full text-sm font-bold text-gray-700 whitespace-nowrap">
-              {tasks.length} {tasks.length === 1 ? 'task' : 'tasks'}
-            </span>
-            {tasks.length > 0 && (
-              <div className="flex-1 bg-gray-200 rounded-full h-2 min-w-0">
-                <div 
-                  className="h-2 rounded-full bg-gradient-to-r from-primary to-accent transition-all duration-500"
-                  style={{ width: `${Math.min(100, (tasks.length / 10) * 100)}%` }}
-                />
-              </div>
-            )}
-          </div>
+        <div className="border-b border-gray-100">
+          <ColumnHeader
+            column={column}
+            taskCount={tasks.length}
+            load={load}
+            teamMembers={teamMembers}
+            onCreate={onCreate}
+            onSettingsOpen={onSettingsOpen}
+          />
         </div>
-        
-        <div className="p-4 space-y-3 max-h-[520px] overflow-y-auto nav-scrollbar-hide">
-          {tasks.map((task) => (
-            <TaskCard
-              key={task.id}
-              task={task}
-              teamMembers={teamMembers}
-              onEdit={onTaskEdit}
-              onResourcesOpen={onTaskResourcesOpen}
-            />
-          ))}
-          
-          {tasks.length === 0 && (
+
+        <TaskDropZone
+          columnId={column.id}
+          tasks={tasks}
+          teamMembers={teamMembers}
+          onTaskMove={onTaskMove}
+          onTaskEdit={onTaskEdit}
+          onTaskResourcesOpen={onTaskResourcesOpen}
+          canMove={canMove}
+          className="flex-1 rounded-b-2xl max-h-[520px] overflow-y-auto nav-scrollbar-hide"
+          emptyState={
             <div className="text-center py-12">
               <div className="w-16 h-16 bg-gray-100 rounded-2xl flex items-center justify-center mx-auto mb-4">
                 <Plus className="w-8 h-8 text-gray-400" />
               </div>
               <p className="text-sm text-gray-500 mb-4 font-medium">No tasks yet</p>
-              <button 
-                className="btn-primary"
-                onClick={handleCreateTask}
-              >
-                <Plus className="w-4 h-4" />
-                Add first task
-              </button>
+              {onCreate && (
+                <button
+                  className="btn-primary"
+                  onClick={onCreate}
+                >
+                  <Plus className="w-4 h-4" />
+                  Add first task
+                </button>
+              )}
             </div>
-          )}
-        </div>
+          }
+        />
       </div>
     </div>
   );
 };
 
-export function KanbanBoard({ 
-  columns, 
-  tasks, 
-  teamMembers, 
+export function KanbanBoard({
+  columns,
+  tasks,
+  teamMembers,
   workflows,
   clients,
-  onTaskMove, 
-  onTaskCreate, 
+  onTaskMove,
+  onTaskCreate,
   onTaskEdit,
   onTaskResourcesOpen,
-  selectedWorkflow: globalSelectedWorkflow,
-  selectedClient: globalSelectedClient,
-  onWorkflowChange,
-  onClientChange
+  onRefresh,
+  view,
+  filterBar,
+  viewers = []
 }: KanbanBoardProps) {
-  const [selectedWorkflow, setSelectedWorkflow] = useState<string>(globalSelectedWorkflow || 'all');
-  const [selectedClient, setSelectedClient] = useState<string>(globalSelectedClient || 'all');
-  const [workflowTasks, setWorkflowTasks] = useState<KanbanTask[]>([]);
-  const [loading, setLoading] = useState(false);
+  const [settingsColumn, setSettingsColumn] = useState<KanbanColumn | null>(null);
+  const [collapsedLanes, setCollapsedLanes] = useState<Set<string>>(new Set());
+  const { can } = usePermissions();
+  const { user } = useAuth();
+  const canCreate = can('tasks:create');
+  const canMove = can('tasks:update');
+  // Columns are shared by all workspaces; the server lets only global admins change them
+  const canManageColumns = can('settings:manage') && user?.role === 'admin';
 
   // Get current workflow and client
-  const currentWorkflow = selectedWorkflow !== 'all' 
-    ? workflows.find(w => w.id === selectedWorkflow) || null 
-    : null;
-  const currentClient = selectedClient !== 'all' 
-    ? clients.find(c => c.id === selectedClient) || null 
-    : null;
-
-  // Filter workflows based on selected client
-  const clientWorkflows = useMemo(() => {
-    if (selectedClient === 'all') {
-      return workflows;
-    }
-    return workflows.filter(w => w.clientId === selectedClient);
-  }, [workflows, selectedClient]);
-
-  // Combine regular tasks and workflow steps
-  useEffect(() => {
-    const filterTasks = () => {
-      setLoading(true);
-      let allItems: KanbanTask[] = [...tasks];
-      
-      // Filter by workflow and client
-      if (selectedWorkflow !== 'all' || selectedClient !== 'all') {
-        const filteredItems = allItems.filter(item => {
-          const matchesWorkflow = selectedWorkflow === 'all' || item.workflowId === selectedWorkflow;
-          const matchesClient = selectedClient === 'all' || 
-            workflows.find(w => w.id === item.workflowId)?.clientId === selectedClient;
-          return matchesWorkflow && matchesClient;
-        });
-        allItems = filteredItems;
-      }
-      
-      setWorkflowTasks(allItems);
-      setLoading(false);
-    };
-
-    filterTasks();
-  }, [selectedWorkflow, selectedClient, tasks, workflows]);
-
-  // Handle workflow selection
-  const handleWorkflowChange = (workflowId: string) => {
-    setSelectedWorkflow(workflowId);
-    onWorkflowChange?.(workflowId);
-    if (workflowId !== 'all') {
-      // Find the client for this workflow and set it
-      const workflow = workflows.find(w => w.id === workflowId);
-      if (workflow) {
-        setSelectedClient(workflow.clientId);
-        onClientChange?.(workflow.clientId);
-      }
-    }
-  };
+  const currentWorkflow = view.workflowId ? workflows.find(w => w.id === view.workflowId) || null : null;
+  const currentClient = view.clientId ? clients.find(c => c.id === view.clientId) || null : null;
+  const isFiltered = Boolean(view.clientId || view.workflowId || view.assigneeId || view.tag || view.due || view.search);
 
-  // Handle client selection
-  const handleClientChange = (clientId: string) => {
-    setSelectedClient(clientId);
-    onClientChange?.(clientId);
-    if (clientId !== 'all') {
-      // Reset workflow selection when client changes
-      setSelectedWorkflow('all');
-      onWorkflowChange?.('all');
-    }
-  };
+  const visibleTasks = useMemo(
+    () => sortBoardTasks(filterBoardTasks(tasks, view, workflows), view.sort),
+    [tasks, view, workflows]
+  );
+
+  const swimlanes = useMemo(
+    () => boardSwimlanes(visibleTasks, view.swimlane, { teamMembers, workflows, clients }),
+    [visibleTasks, view.swimlane, teamMembers, workflows, clients]
+  );
 
   // Use the standard kanban columns (not workflow steps as columns)
   const kanbanColumns = useMemo(() => {
     return columns.sort((a, b) => (a.order || a.order_index || 0) - (b.order || b.order_index || 0));
   }, [columns]);
 
+  // WIP limits count every task on the board, not only the filtered ones
+  const columnLoads = useMemo(() => {
+    const loads: Record<string, ColumnLoad> = {};
+    for (const column of columns) {
+      const columnTasks = tasks.filter(task => task.status === column.id);
+      const perMember = new Map<string, number>();
+      columnTasks.forEach(task => (task.assignedMembers || []).forEach(memberId => {
+        perMember.set(memberId, (perMember.get(memberId) || 0) + 1);
+      }));
+      const limit = column.assigneeWipLimit ?? null;
+      loads[column.id] = {
+        total: columnTasks.length,
+        overloadedMembers: limit === null ? [] : [...perMember].filter(([, count]) => count > limit).map(([memberId]) => memberId)
+      };
+    }
+    return loads;
+  }, [columns, tasks]);
+
+  const columnTasks = (columnId: string, list: KanbanTask[] = visibleTasks) => list.filter(task => task.status === columnId);
+  const loadOf = (columnId: string) => columnLoads[columnId] || { total: columnTasks(columnId).length, overloadedMembers: [] };
+  const createIn = (columnId: string) => (canCreate
+    ? () => onTaskCreate(columnId, currentWorkflow?.id, currentClient?.id)
+    : undefined);
+
+  const toggleLane = (key: string) => {
+    setCollapsedLanes(current => {
+      const next = new Set(current);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
   // Calculate stats
-  const totalTasks = workflowTasks.length;
-  const activeTasks = workflowTasks.filter(t => t.status === 'in-progress').length;
-  const completedTasks = workflowTasks.filter(t => t.status === 'done').length;
+  const totalTasks = visibleTasks.length;
+  const activeTasks = visibleTasks.filter(t => t.status === 'in-progress').length;
+  const completedTasks = visibleTasks.filter(t => t.status === 'done').length;
 
   return (
     <DndProvider backend={HTML5Backend}>
@@ -375,7 +517,7 @@ export function KanbanBoard({
         <div className="relative overflow-hidden bg-gradient-to-r from-primary via-accent to-primary text-white pt-16 lg:pt-0">
           <div className="absolute inset-0 bg-gradient-to-br from-white/5 to-black/10 pointer-events-none"></div>
           <div className="absolute -top-10 -right-10 w-32 h-32 bg-tertiary/10 rounded-full blur-2xl pointer-events-none"></div>
-          
+
           <div className="relative z-10 px-6 py-8">
             <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
               <div>
@@ -403,47 +545,22 @@ export function KanbanBoard({
                   </div>
                 </div>
               </div>
+              <PresenceAvatars users={viewers} />
             </div>
           </div>
         </div>
 
         <div className="px-6 pb-6">
           {/* Filters Section */}
-          <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6 -mt-6 mb-6 relative z-10">
-            <div className="flex flex-col lg:flex-row gap-4">
-              <select 
-                value={selectedClient}
-                onChange={(e) => handleClientChange(e.target.value)}
-                className="px-4 py-3 border border-gray-300 rounded-xl text-sm text-gray-900 bg-white transition-all duration-200 focus:outline-none focus:border-secondary focus:ring-2 focus:ring-secondary/10 flex-1 lg:flex-none lg:min-w-[200px]"
-              >
-                <option value="all" className="text-gray-900">All Clients</option>
-                {clients.map(client => (
-                  <option key={client.id} value={client.id} className="text-gray-900">
-                    {client.company || client.name}
-                  </option>
-                ))}
-              </select>
-
-              <select 
-                value={selectedWorkflow}
-                onChange={(e) => handleWorkflowChange(e.target.value)}
-                className="px-4 py-3 border border-gray-300 rounded-xl text-sm text-gray-900 bg-white transition-all duration-200 focus:outline-none focus:border-secondary focus:ring-2 focus:ring-secondary/10 flex-1 lg:flex-none lg:min-w-[250px]"
-              >
-                <option value="all" className="text-gray-900">
-                  {selectedClient === 'all' ? 'All Workflows' : 'All Client Workflows'}
-                </option>
-                {clientWorkflows.map(workflow => (
-                  <option key={workflow.id} value={workflow.id} className="text-gray-900">
-                    {workflow.name}
-                  </option>
-                ))}
-              </select>
+          {filterBar && (
+            <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6 -mt-6 mb-6 relative z-10">
+              {filterBar}
             </div>
-          </div>
+          )}
 
           {/* Workflow Info */}
           {currentWorkflow && (
-            <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6 -mt-6 mb-6 relative z-10">
+            <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6 mb-6">
               <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
                 <div>
                   <h3 className="text-xl font-bold text-gray-900 mb-2">{currentWorkflow.name}</h3>
@@ -469,70 +586,122 @@ export function KanbanBoard({
             </div>
           )}
 
-          {/* Loading State */}
-          {loading ? (
-            <div className="flex items-center justify-center py-12">
-              <div className="flex items-center gap-3">
-                <div className="loading-spinner"></div>
-                <span className="text-gray-600 font-medium">Loading tasks...</span>
-              </div>
+          {view.swimlane === 'none' ? (
+            <div className="flex gap-6 overflow-x-auto pb-4">
+              {kanbanColumns.map((column) => (
+                <Column
+                  key={column.id}
+                  column={column}
+                  tasks={columnTasks(column.id)}
+                  load={loadOf(column.id)}
+                  teamMembers={teamMembers}
+                  onTaskMove={onTaskMove}
+                  onCreate={createIn(column.id)}
+                  onTaskEdit={onTaskEdit}
+                  onTaskResourcesOpen={onTaskResourcesOpen}
+                  canMove={canMove}
+                  onSettingsOpen={canManageColumns ? setSettingsColumn : undefined}
+                />
+              ))}
             </div>
           ) : (
-            <div className="flex gap-6 overflow-x-auto pb-4">
-              {kanbanColumns.map((column) => {
-                const columnItems = workflowTasks.filter(item => {
-                  if ('status' in item) {
-                    return item.status === column.id;
-                  }
-                  return false;
-                });
-                
-                return (
-                  <Column
-                    key={column.id}
-                    column={column}
-                    tasks={columnItems}
-                    teamMembers={teamMembers}
-                    selectedWorkflow={currentWorkflow}
-                    selectedClient={currentClient}
-                    onTaskMove={onTaskMove}
-                    onTaskCreate={onTaskCreate}
-                    onTaskEdit={onTaskEdit}
-                    onTaskResourcesOpen={onTaskResourcesOpen}
-                  />
-                );
-              })}
+            // One row of drop zones per lane under a shared row of column headers; moving a card
+            // between lanes only changes its column
+            <div className="overflow-x-auto pb-4">
+              <div className="inline-flex flex-col gap-4 min-w-full">
+                <div className="flex gap-6">
+                  {kanbanColumns.map(column => (
+                    <div
+                      key={column.id}
+                      className={`flex-shrink-0 w-80 bg-white rounded-2xl shadow-lg border ${
+                        column.wipLimit != null && loadOf(column.id).total > column.wipLimit ? 'border-red-300' : 'border-gray-100'
+                      }`}
+                    >
+                      <ColumnHeader
+                        column={column}
+                        taskCount={columnTasks(column.id).length}
+                        load={loadOf(column.id)}
+                        teamMembers={teamMembers}
+                        onCreate={createIn(column.id)}
+                        onSettingsOpen={canManageColumns ? setSettingsColumn : undefined}
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                {swimlanes.map(lane => {
+                  const collapsed = collapsedLanes.has(lane.key);
+                  return (
+                    <div key={lane.key}>
+                      <button
+                        onClick={() => toggleLane(lane.key)}
+                        className="sticky left-0 flex items-center gap-2 mb-2 text-sm font-bold text-gray-700 hover:text-primary"
+                      >
+                        {collapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                        {lane.label}
+                        <span className="px-2 py-0.5 bg-gray-200 rounded-full text-xs text-gray-600">{lane.tasks.length}</span>
+                      </button>
+                      {!collapsed && (
+                        <div className="flex gap-6">
+                          {kanbanColumns.map(column => (
+                            <TaskDropZone
+                              key={column.id}
+                              columnId={column.id}
+                              tasks={columnTasks(column.id, lane.tasks)}
+                              teamMembers={teamMembers}
+                              onTaskMove={onTaskMove}
+                              onTaskEdit={onTaskEdit}
+                              onTaskResourcesOpen={onTaskResourcesOpen}
+                              canMove={canMove}
+                              className="flex-shrink-0 w-80 min-h-[120px] bg-white/60 rounded-2xl border border-dashed border-gray-200"
+                            />
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
             </div>
           )}
 
           {/* Empty State */}
-          {!loading && workflowTasks.length === 0 && (
+          {visibleTasks.length === 0 && (
             <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-12 text-center">
               <div className="w-24 h-24 bg-gray-100 rounded-3xl flex items-center justify-center mx-auto mb-6">
                 <WorkflowIcon className="w-12 h-12 text-gray-400" />
               </div>
               <h3 className="text-2xl font-bold text-gray-900 mb-2">No tasks found</h3>
               <p className="text-gray-600 mb-6 max-w-md mx-auto">
-                {selectedWorkflow !== 'all' || selectedClient !== 'all'
-                  ? 'No tasks for this selection. Create your first task to get started!'
+                {isFiltered
+                  ? 'No tasks match these filters. Change them or create a task to get started!'
                   : 'Create your first task to organize your workflow processes.'
                 }
               </p>
-              <button 
-                className="btn-primary"
-                onClick={() => onTaskCreate(
-                  kanbanColumns[0]?.id || 'todo', 
-                  currentWorkflow?.id, 
-                  currentClient?.id
-                )}
-              >
-                <Plus className="w-5 h-5" />
-                Create First Task
-              </button>
+              {canCreate && (
+                <button
+                  className="btn-primary"
+                  onClick={() => onTaskCreate(
+                    kanbanColumns[0]?.id || 'todo',
+                    currentWorkflow?.id,
+                    currentClient?.id
+                  )}
+                >
+                  <Plus className="w-5 h-5" />
+                  Create First Task
+                </button>
+              )}
             </div>
           )}
         </div>
       </div>
+
+      <ColumnSettingsModal
+        column={settingsColumn}
+        isOpen={settingsColumn !== null}
+        onClose={() => setSettingsColumn(null)}
+        onSaved={onRefresh}
+      />
     </DndProvider>
   );
-}
\ No newline at end of file
+}
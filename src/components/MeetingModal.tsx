@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { X, Calendar, Clock, Video, Phone, MapPin, Building, Users } from 'lucide-react';
 import { Meeting, Client, TeamMember } from '../types';
+import { RecurrenceOptions, buildRecurrenceRule, parseRecurrenceRule } from '../services/recurrence';
+import { RecurrenceEditor } from './RecurrenceEditor';
 
 interface MeetingModalProps {
   meeting?: Meeting;
@@ -20,6 +22,7 @@ interface CreateMeetingData {
   description?: string;
   location?: string;
   attendeeIds: string[];
+  recurrenceRule?: string | null;
 }
 
 export function MeetingModal({ meeting, clients, teamMembers, isOpen, onClose, onSubmit }: MeetingModalProps) {
@@ -34,6 +37,7 @@ export function MeetingModal({ meeting, clients, teamMembers, isOpen, onClose, o
     attendeeIds: []
   });
   
+  const [recurrence, setRecurrence] = useState<RecurrenceOptions | null>(null);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -53,6 +57,7 @@ export function MeetingModal({ meeting, clients, teamMembers, isOpen, onClose, o
         location: meeting.location || '',
         attendeeIds: meeting.attendeeIds || []
       });
+      setRecurrence(parseRecurrenceRule(meeting.recurrenceRule, meetingDate));
     } else {
       // Set default date to next hour
       const now = new Date();
@@ -70,6 +75,7 @@ export function MeetingModal({ meeting, clients, teamMembers, isOpen, onClose, o
         location: '',
         attendeeIds: []
       });
+      setRecurrence(null);
     }
     setErrors({});
   }, [meeting, isOpen, clients]);
@@ -140,7 +146,10 @@ export function MeetingModal({ meeting, clients, teamMembers, isOpen, onClose, o
 
     setIsSubmitting(true);
     try {
-      await onSubmit(formData);
+      await onSubmit({
+        ...formData,
+        recurrenceRule: recurrence ? buildRecurrenceRule(recurrence, new Date(formData.scheduledDate)) : null
+      });
       onClose();
     } catch (error) {
       console.error('Error saving meeting:', error);
@@ -306,6 +315,15 @@ export function MeetingModal({ meeting, clients, teamMembers, isOpen, onClose, o
             </div>
           </div>
 
+          {formData.scheduledDate && (
+            <RecurrenceEditor
+              value={recurrence}
+              start={new Date(formData.scheduledDate)}
+              onChange={setRecurrence}
+              disabled={isSubmitting}
+            />
+          )}
+
           {formData.type === 'in-person' && (
             <div className="space-y-2">
               <label htmlFor="location" className="flex items-center gap-2 text-sm font-medium text-gray-700">
@@ -12,9 +12,11 @@ import {
   CheckCircle,
   XCircle,
   AlertCircle,
-  Search
+  Search,
+  Repeat
 } from 'lucide-react';
 import { meetingService, Meeting } from '../services';
+import { describeRecurrence } from '../services/recurrence';
 
 interface Client {
   id: string;
@@ -318,6 +320,12 @@ export function MeetingView({
                         <span>{meeting.duration} minutes</span>
                       </div>
                     )}
+                    {meeting.recurrenceRule && (
+                      <div className="flex items-center gap-2 text-sm text-gray-600">
+                        <Repeat className="w-4 h-4 text-gray-400" />
+                        <span>{describeRecurrence(meeting.recurrenceRule, meetingDate)}</span>
+                      </div>
+                    )}
                   </div>
 
                   {/* Footer */}
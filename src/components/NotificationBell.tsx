@@ -0,0 +1,128 @@
+import React, { useEffect, useRef } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Bell, CheckCheck, Settings, UserPlus, AtSign, CalendarClock, AlarmClock, BadgeCheck } from 'lucide-react';
+import { AppNotification, NotificationType } from '../types';
+
+interface NotificationBellProps {
+  notifications: AppNotification[];
+  unreadCount: number;
+  isOpen: boolean;
+  onToggle: () => void;
+  onClose: () => void;
+  onOpenNotification: (notification: AppNotification) => void;
+  onMarkAllRead: () => void;
+  onOpenPreferences: () => void;
+}
+
+const TYPE_ICONS: Record<NotificationType, React.ElementType> = {
+  task_assigned: UserPlus,
+  mentioned: AtSign,
+  meeting_invited: CalendarClock,
+  task_due_soon: AlarmClock,
+  client_approval: BadgeCheck
+};
+
+// Bell with unread badge and a dropdown of recent notifications
+export const NotificationBell: React.FC<NotificationBellProps> = ({
+  notifications,
+  unreadCount,
+  isOpen,
+  onToggle,
+  onClose,
+  onOpenNotification,
+  onMarkAllRead,
+  onOpenPreferences
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        onClose();
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen, onClose]);
+
+  return (
+    <div ref={containerRef}>
+      <button
+        onClick={onToggle}
+        className="relative p-2 text-white/80 hover:text-white hover:bg-white/10 rounded-lg transition-colors duration-200"
+        title="Notifications"
+      >
+        <Bell size={18} />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 px-1 min-w-[18px] h-[18px] bg-tertiary text-primary text-[10px] font-bold rounded-full flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full left-3 right-3 mt-1 bg-white rounded-xl shadow-xl border border-gray-200 overflow-hidden z-50 text-gray-900">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+            <span className="text-sm font-semibold">Notifications</span>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={onMarkAllRead}
+                disabled={unreadCount === 0}
+                className="p-1.5 text-gray-500 hover:text-primary hover:bg-primary/10 rounded-lg transition-colors disabled:opacity-40"
+                title="Mark all as read"
+              >
+                <CheckCheck size={16} />
+              </button>
+              <button
+                onClick={onOpenPreferences}
+                className="p-1.5 text-gray-500 hover:text-primary hover:bg-primary/10 rounded-lg transition-colors"
+                title="Notification settings"
+              >
+                <Settings size={16} />
+              </button>
+            </div>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.length === 0 ? (
+              <div className="px-4 py-8 text-center text-sm text-gray-500">You are all caught up</div>
+            ) : (
+              notifications.map(notification => {
+                const Icon = TYPE_ICONS[notification.type] || Bell;
+                return (
+                  <button
+                    key={notification.id}
+                    onClick={() => onOpenNotification(notification)}
+                    className={`w-full flex items-start gap-3 px-4 py-3 text-left border-b border-gray-50 hover:bg-gray-50 transition-colors ${
+                      notification.readAt ? '' : 'bg-primary/5'
+                    }`}
+                  >
+                    <div className="w-7 h-7 flex-shrink-0 bg-primary/10 text-primary rounded-lg flex items-center justify-center">
+                      <Icon size={14} />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className={`text-sm ${notification.readAt ? 'text-gray-600' : 'font-medium text-gray-900'}`}>
+                        {notification.title}
+                      </div>
+                      {notification.body && (
+                        <div className="text-xs text-gray-500 truncate mt-0.5">{notification.body}</div>
+                      )}
+                      <div className="text-xs text-gray-400 mt-1">
+                        {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                      </div>
+                    </div>
+                    {!notification.readAt && (
+                      <span className="w-2 h-2 mt-2 flex-shrink-0 bg-secondary rounded-full"></span>
+                    )}
+                  </button>
+                );
+              })
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import React, { useState, useEffect } from 'react';
+import { X, Bell } from 'lucide-react';
+import { NotificationChannel, NotificationPreferences, NotificationType } from '../types';
+import { notificationService } from '../services';
+
+interface NotificationPreferencesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const TYPE_LABELS: { type: NotificationType; label: string; description: string }[] = [
+  { type: 'task_assigned', label: 'Task assignments', description: 'Someone assigns you to a task' },
+  { type: 'mentioned', label: 'Mentions', description: 'Someone mentions you' },
+  { type: 'meeting_invited', label: 'Meeting invitations', description: 'You are added to a meeting' },
+  { type: 'task_due_soon', label: 'Due date reminders', description: 'A task assigned to you is due within 24 hours' },
+  { type: 'client_approval', label: 'Client approvals', description: 'A client approves or requests changes to a deliverable you sent' }
+];
+
+const CHANNEL_OPTIONS: { value: NotificationChannel; label: string }[] = [
+  { value: 'in_app', label: 'In-app only' },
+  { value: 'email', label: 'In-app + email' },
+  { value: 'digest', label: 'In-app + daily digest' }
+];
+
+export const NotificationPreferencesModal: React.FC<NotificationPreferencesModalProps> = ({ isOpen, onClose }) => {
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setError(null);
+    notificationService.getPreferences()
+      .then(setPreferences)
+      .catch(() => setError('Failed to load notification settings'));
+  }, [isOpen]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!preferences) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      setPreferences(await notificationService.setPreferences(preferences));
+      onClose();
+    } catch {
+      setError('Failed to save notification settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-gradient-to-r from-primary to-accent text-white">
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <Bell className="w-5 h-5" />
+            Notification settings
+          </h2>
+          <button onClick={onClose} className="p-1.5 hover:bg-white/10 rounded-lg transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {!preferences && !error ? (
+          <div className="flex items-center justify-center p-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="flex-1 overflow-y-auto p-6 space-y-5">
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 text-red-700 rounded-xl text-sm">{error}</div>
+            )}
+
+            {preferences && TYPE_LABELS.map(({ type, label, description }) => (
+              <div key={type} className="flex items-center justify-between gap-4">
+                <div>
+                  <div className="text-sm font-medium text-gray-900">{label}</div>
+                  <div className="text-xs text-gray-500">{description}</div>
+                </div>
+                <select
+                  value={preferences[type]}
+                  onChange={(e) => setPreferences({ ...preferences, [type]: e.target.value as NotificationChannel })}
+                  className="form-input w-48"
+                >
+                  {CHANNEL_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+
+            <div className="flex justify-end gap-2 pt-2">
+              <button type="button" onClick={onClose} className="btn-outline">Close</button>
+              <button type="submit" disabled={isSaving || !preferences} className="btn-primary disabled:opacity-50">
+                {isSaving ? 'Saving...' : 'Save settings'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import React from 'react';
+import { PresenceUser } from '../types';
+
+interface PresenceAvatarsProps {
+  users: PresenceUser[];
+  max?: number;
+}
+
+// Stacked initials of the teammates currently looking at the same view
+export const PresenceAvatars: React.FC<PresenceAvatarsProps> = ({ users, max = 5 }) => {
+  if (users.length === 0) return null;
+
+  const names = users.map(user => user.name || user.email);
+
+  return (
+    <div className="flex items-center gap-3" title={`Also viewing: ${names.join(', ')}`}>
+      <span className="relative flex h-2.5 w-2.5">
+        <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-green-400 opacity-75"></span>
+        <span className="relative inline-flex rounded-full h-2.5 w-2.5 bg-green-400"></span>
+      </span>
+      <div className="flex items-center -space-x-2">
+        {names.slice(0, max).map((name, index) => (
+          <div
+            key={users[index].id}
+            className="w-9 h-9 bg-gradient-to-br from-tertiary to-secondary rounded-full flex items-center justify-center text-sm font-bold text-primary border-2 border-white shadow-sm"
+            title={name}
+          >
+            {name.charAt(0).toUpperCase()}
+          </div>
+        ))}
+        {users.length > max && (
+          <div className="w-9 h-9 bg-white/20 rounded-full flex items-center justify-center text-xs font-bold text-white border-2 border-white shadow-sm">
+            +{users.length - max}
+          </div>
+        )}
+      </div>
+      <span className="text-sm text-white/80">
+        {users.length === 1 ? `${names[0]} is here` : `${users.length} teammates here`}
+      </span>
+    </div>
+  );
+};
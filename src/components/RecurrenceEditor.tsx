@@ -0,0 +1,158 @@
+import React from 'react';
+import { Repeat } from 'lucide-react';
+import {
+  RecurrenceOptions,
+  RecurrenceFrequency,
+  WEEKDAY_LABELS,
+  defaultRecurrence,
+  describeMonthlyMode
+} from '../services/recurrence';
+
+interface RecurrenceEditorProps {
+  value: RecurrenceOptions | null;
+  // Start of the series; weekly and monthly defaults follow it
+  start: Date;
+  onChange: (value: RecurrenceOptions | null) => void;
+  disabled?: boolean;
+}
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+  DAILY: 'day(s)',
+  WEEKLY: 'week(s)',
+  MONTHLY: 'month(s)'
+};
+
+const inputClassName = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors text-sm';
+
+// "Repeat" settings shared by calendar events, meetings and recurring tasks
+export const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ value, start, onChange, disabled = false }) => {
+  const update = (changes: Partial<RecurrenceOptions>) => {
+    if (value) onChange({ ...value, ...changes });
+  };
+
+  const handleFrequencyChange = (freq: string) => {
+    if (freq === 'NONE') {
+      onChange(null);
+    } else {
+      onChange({ ...(value || defaultRecurrence(start)), freq: freq as RecurrenceFrequency });
+    }
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    if (!value) return;
+    const weekdays = value.weekdays.includes(weekday)
+      ? value.weekdays.filter(day => day !== weekday)
+      : [...value.weekdays, weekday];
+    // A weekly rule needs at least one day
+    update({ weekdays: weekdays.length > 0 ? weekdays : [start.getDay()] });
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+        <Repeat size={16} className="text-gray-500" />
+        Repeat
+      </label>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={value ? value.freq : 'NONE'}
+          onChange={(e) => handleFrequencyChange(e.target.value)}
+          disabled={disabled}
+          className={inputClassName}
+        >
+          <option value="NONE">Does not repeat</option>
+          <option value="DAILY">Daily</option>
+          <option value="WEEKLY">Weekly</option>
+          <option value="MONTHLY">Monthly</option>
+        </select>
+
+        {value && (
+          <>
+            <span className="text-sm text-gray-600">every</span>
+            <input
+              type="number"
+              min={1}
+              value={value.interval}
+              onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+              disabled={disabled}
+              className={`${inputClassName} w-20`}
+            />
+            <span className="text-sm text-gray-600">{FREQUENCY_UNITS[value.freq]}</span>
+          </>
+        )}
+      </div>
+
+      {value?.freq === 'WEEKLY' && (
+        <div className="flex flex-wrap gap-1">
+          {WEEKDAY_LABELS.map((label, weekday) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleWeekday(weekday)}
+              disabled={disabled}
+              className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors ${
+                value.weekdays.includes(weekday)
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'bg-white text-gray-600 border-gray-300 hover:border-blue-400'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {value?.freq === 'MONTHLY' && (
+        <select
+          value={value.monthlyMode}
+          onChange={(e) => update({ monthlyMode: e.target.value as RecurrenceOptions['monthlyMode'] })}
+          disabled={disabled}
+          className={inputClassName}
+        >
+          <option value="day">Monthly {describeMonthlyMode('day', start)}</option>
+          <option value="weekday">Monthly {describeMonthlyMode('weekday', start)}</option>
+        </select>
+      )}
+
+      {value && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-gray-600">Ends</span>
+          <select
+            value={value.end}
+            onChange={(e) => update({ end: e.target.value as RecurrenceOptions['end'] })}
+            disabled={disabled}
+            className={inputClassName}
+          >
+            <option value="never">Never</option>
+            <option value="until">On date</option>
+            <option value="count">After</option>
+          </select>
+          {value.end === 'until' && (
+            <input
+              type="date"
+              value={value.until}
+              onChange={(e) => update({ until: e.target.value })}
+              disabled={disabled}
+              className={inputClassName}
+              required
+            />
+          )}
+          {value.end === 'count' && (
+            <>
+              <input
+                type="number"
+                min={1}
+                value={value.count}
+                onChange={(e) => update({ count: Math.max(1, Number(e.target.value) || 1) })}
+                disabled={disabled}
+                className={`${inputClassName} w-20`}
+              />
+              <span className="text-sm text-gray-600">occurrences</span>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,394 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, Plus, Trash2, Repeat, CalendarClock } from 'lucide-react';
+import { KanbanColumn, RecurringTask, Workflow } from '../types';
+import { recurringTaskService } from '../services';
+import { RecurrenceOptions, buildRecurrenceRule, defaultRecurrence, describeRecurrence, parseRecurrenceRule } from '../services/recurrence';
+import { usePermissions } from '../hooks/usePermissions';
+import { RecurrenceEditor } from './RecurrenceEditor';
+
+interface RecurringTasksModalProps {
+  workflows: Workflow[];
+  columns: KanbanColumn[];
+  defaultWorkflowId?: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface RecurringTaskForm {
+  title: string;
+  description: string;
+  workflowId: string;
+  status: string;
+  priority: RecurringTask['priority'];
+  tags: string;
+  startsAt: string; // yyyy-MM-ddTHH:mm, local time
+  dueAfterDays: string;
+  isActive: boolean;
+}
+
+const toLocalInput = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
+// Tomorrow at 9:00, a sensible first run for a new recurring task
+const defaultStart = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  date.setHours(9, 0, 0, 0);
+  return date;
+};
+
+// Recurring tasks: templates that put a task on the board on a schedule
+export const RecurringTasksModal: React.FC<RecurringTasksModalProps> = ({
+  workflows,
+  columns,
+  defaultWorkflowId,
+  isOpen,
+  onClose
+}) => {
+  const { can } = usePermissions();
+  const [recurringTasks, setRecurringTasks] = useState<RecurringTask[]>([]);
+  const [selected, setSelected] = useState<RecurringTask | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [form, setForm] = useState<RecurringTaskForm | null>(null);
+  const [recurrence, setRecurrence] = useState<RecurrenceOptions | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRecurringTasks = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setRecurringTasks(await recurringTaskService.getAll());
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load recurring tasks:', err);
+      setError('Failed to load recurring tasks');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadRecurringTasks();
+      setSelected(null);
+      setIsEditing(false);
+    }
+  }, [isOpen, loadRecurringTasks]);
+
+  const openForm = (recurringTask: RecurringTask | null) => {
+    const start = recurringTask ? new Date(recurringTask.startsAt) : defaultStart();
+    setSelected(recurringTask);
+    setIsEditing(true);
+    setError(null);
+    setForm({
+      title: recurringTask?.title || '',
+      description: recurringTask?.description || '',
+      workflowId: recurringTask?.workflowId || defaultWorkflowId || workflows[0]?.id || '',
+      status: recurringTask?.status || columns[0]?.id || '',
+      priority: recurringTask?.priority || 'medium',
+      tags: recurringTask?.tags.join(', ') || '',
+      startsAt: toLocalInput(start),
+      dueAfterDays: recurringTask?.dueAfterDays !== null && recurringTask?.dueAfterDays !== undefined
+        ? String(recurringTask.dueAfterDays)
+        : '',
+      isActive: recurringTask ? recurringTask.isActive : true
+    });
+    setRecurrence(recurringTask ? parseRecurrenceRule(recurringTask.recurrenceRule, start) : defaultRecurrence(start));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    if (!form.title.trim() || !form.workflowId || !form.status) {
+      setError('Title, workflow and column are required');
+      return;
+    }
+    if (!recurrence) {
+      setError('Choose how often the task repeats');
+      return;
+    }
+
+    const startsAt = new Date(form.startsAt);
+    try {
+      setIsSubmitting(true);
+      const data = {
+        title: form.title.trim(),
+        description: form.description.trim(),
+        workflowId: form.workflowId,
+        status: form.status,
+        priority: form.priority,
+        tags: form.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+        estimatedHours: selected?.estimatedHours ?? null,
+        assignedMembers: selected?.assignedMembers || [],
+        recurrenceRule: buildRecurrenceRule(recurrence, startsAt),
+        startsAt: startsAt.toISOString(),
+        dueAfterDays: form.dueAfterDays === '' ? null : Number(form.dueAfterDays),
+        isActive: form.isActive
+      };
+      const saved = selected
+        ? await recurringTaskService.update(selected.id, data)
+        : await recurringTaskService.create(data);
+      await loadRecurringTasks();
+      setSelected(saved);
+      setIsEditing(false);
+    } catch (err) {
+      console.error('Failed to save recurring task:', err);
+      setError('Failed to save recurring task');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (recurringTask: RecurringTask) => {
+    if (!window.confirm(`Delete recurring task "${recurringTask.title}"? Tasks it already created are kept.`)) return;
+    try {
+      await recurringTaskService.delete(recurringTask.id);
+      if (selected?.id === recurringTask.id) {
+        setSelected(null);
+        setIsEditing(false);
+      }
+      await loadRecurringTasks();
+    } catch (err) {
+      console.error('Failed to delete recurring task:', err);
+      setError('Failed to delete recurring task');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const canEdit = selected ? can('tasks:update') : can('tasks:create');
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-gradient-to-r from-primary to-accent text-white">
+          <h2 className="text-xl font-semibold">Recurring Tasks</h2>
+          <button onClick={onClose} className="p-1.5 hover:bg-white/10 rounded-lg transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded-xl text-sm">{error}</div>
+        )}
+
+        <div className="flex-1 grid grid-cols-1 md:grid-cols-5 min-h-0">
+          {/* Recurring task list */}
+          <div className="md:col-span-2 border-r border-gray-200 overflow-y-auto p-4 space-y-2">
+            {can('tasks:create') && (
+              <button onClick={() => openForm(null)} className="btn-outline w-full justify-center">
+                <Plus className="w-4 h-4" />
+                New recurring task
+              </button>
+            )}
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading recurring tasks...</p>
+            ) : recurringTasks.length === 0 ? (
+              <p className="text-sm text-gray-500">No recurring tasks yet.</p>
+            ) : (
+              recurringTasks.map(recurringTask => (
+                <div
+                  key={recurringTask.id}
+                  onClick={() => openForm(recurringTask)}
+                  className={`p-3 rounded-xl border cursor-pointer transition-colors duration-200 ${
+                    selected?.id === recurringTask.id
+                      ? 'border-secondary bg-secondary/5'
+                      : 'border-gray-200 hover:border-gray-300'
+                  } ${recurringTask.isActive ? '' : 'opacity-60'}`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <h3 className="font-semibold text-gray-900 truncate">{recurringTask.title}</h3>
+                      {recurringTask.workflow && (
+                        <p className="text-xs text-gray-600 truncate">{recurringTask.workflow.name}</p>
+                      )}
+                    </div>
+                    {can('tasks:delete') && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDelete(recurringTask);
+                        }}
+                        className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                  <div className="mt-2 space-y-1 text-xs text-gray-500">
+                    <div className="flex items-center gap-1">
+                      <Repeat className="w-3.5 h-3.5" />
+                      {describeRecurrence(recurringTask.recurrenceRule, new Date(recurringTask.startsAt))}
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <CalendarClock className="w-3.5 h-3.5" />
+                      {!recurringTask.isActive
+                        ? 'Paused'
+                        : recurringTask.nextRunAt
+                          ? `Next task ${new Date(recurringTask.nextRunAt).toLocaleString()}`
+                          : 'Ended'}
+                    </div>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* Recurring task form */}
+          <div className="md:col-span-3 overflow-y-auto p-6">
+            {isEditing && form ? (
+              <form onSubmit={handleSubmit} className="space-y-5">
+                <div>
+                  <label className="form-label">Title *</label>
+                  <input
+                    type="text"
+                    value={form.title}
+                    onChange={(e) => setForm({ ...form, title: e.target.value })}
+                    className="form-input"
+                    placeholder="Weekly status report"
+                    disabled={!canEdit}
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="form-label">Description</label>
+                  <textarea
+                    value={form.description}
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                    className="form-input"
+                    rows={2}
+                    disabled={!canEdit}
+                  />
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="form-label">Workflow *</label>
+                    <select
+                      value={form.workflowId}
+                      onChange={(e) => setForm({ ...form, workflowId: e.target.value })}
+                      className="form-input"
+                      disabled={!canEdit}
+                    >
+                      <option value="">Select a workflow</option>
+                      {workflows.map(workflow => (
+                        <option key={workflow.id} value={workflow.id}>{workflow.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="form-label">Column *</label>
+                    <select
+                      value={form.status}
+                      onChange={(e) => setForm({ ...form, status: e.target.value })}
+                      className="form-input"
+                      disabled={!canEdit}
+                    >
+                      {columns.map(column => (
+                        <option key={column.id} value={column.id}>{column.title}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="form-label">Priority</label>
+                    <select
+                      value={form.priority}
+                      onChange={(e) => setForm({ ...form, priority: e.target.value as RecurringTask['priority'] })}
+                      className="form-input"
+                      disabled={!canEdit}
+                    >
+                      <option value="low">Low</option>
+                      <option value="medium">Medium</option>
+                      <option value="high">High</option>
+                      <option value="urgent">Urgent</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="form-label">Tags</label>
+                    <input
+                      type="text"
+                      value={form.tags}
+                      onChange={(e) => setForm({ ...form, tags: e.target.value })}
+                      className="form-input"
+                      placeholder="report, weekly"
+                      disabled={!canEdit}
+                    />
+                  </div>
+                  <div>
+                    <label className="form-label">First task on *</label>
+                    <input
+                      type="datetime-local"
+                      value={form.startsAt}
+                      onChange={(e) => setForm({ ...form, startsAt: e.target.value })}
+                      className="form-input"
+                      disabled={!canEdit}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="form-label">Due after (days)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      value={form.dueAfterDays}
+                      onChange={(e) => setForm({ ...form, dueAfterDays: e.target.value })}
+                      className="form-input"
+                      placeholder="No due date"
+                      disabled={!canEdit}
+                    />
+                  </div>
+                </div>
+
+                {form.startsAt && (
+                  <RecurrenceEditor
+                    value={recurrence}
+                    start={new Date(form.startsAt)}
+                    onChange={setRecurrence}
+                    disabled={!canEdit}
+                  />
+                )}
+
+                <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.isActive}
+                    onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+                    className="rounded border-gray-300 text-primary focus:ring-primary"
+                    disabled={!canEdit}
+                  />
+                  Active (uncheck to pause)
+                </label>
+
+                {selected?.lastRunAt && (
+                  <p className="text-xs text-gray-500">
+                    Last task created for {new Date(selected.lastRunAt).toLocaleString()}
+                  </p>
+                )}
+
+                <div className="flex items-center justify-end gap-3 pt-2">
+                  <button type="button" onClick={() => setIsEditing(false)} className="btn-outline">
+                    Cancel
+                  </button>
+                  {canEdit && (
+                    <button type="submit" disabled={isSubmitting} className="btn-primary">
+                      {isSubmitting ? 'Saving...' : selected ? 'Save Changes' : 'Create Recurring Task'}
+                    </button>
+                  )}
+                </div>
+              </form>
+            ) : (
+              <div className="h-full flex flex-col items-center justify-center text-center text-gray-500">
+                <Repeat className="w-10 h-10 mb-3 text-gray-300" />
+                <p>Recurring tasks add a task to the board on a schedule, such as a weekly report or a monthly invoice run.</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
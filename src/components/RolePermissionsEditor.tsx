@@ -0,0 +1,164 @@
+import { useState, useEffect } from 'react';
+import { AlertTriangle, Lock, RotateCcw } from 'lucide-react';
+import { workspaceService, WORKSPACE_ROLE_LABELS, type WorkspaceRoleMatrix } from '../services/workspaceService';
+import { Permission, WorkspaceRolePermissions } from '../types';
+
+interface RolePermissionsEditorProps {
+  workspaceId: string;
+  canManage: boolean;
+  onChange?: () => void;
+}
+
+const RESOURCE_LABELS: Record<string, string> = {
+  clients: 'Clients',
+  workflows: 'Workflows',
+  tasks: 'Tasks',
+  time_entries: 'Time entries',
+  invoices: 'Invoices',
+  settings: 'Settings'
+};
+
+const ACTION_LABELS: Record<string, string> = {
+  view: 'View',
+  create: 'Create',
+  update: 'Edit',
+  delete: 'Delete',
+  comment: 'Comment',
+  manage: 'Manage'
+};
+
+// Permission matrix of the workspace roles; owner and admin always have everything
+export function RolePermissionsEditor({ workspaceId, canManage, onChange }: RolePermissionsEditorProps) {
+  const [matrix, setMatrix] = useState<WorkspaceRoleMatrix | null>(null);
+  const [busyRole, setBusyRole] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setMatrix(null);
+    workspaceService.getRoles(workspaceId)
+      .then(setMatrix)
+      .catch(error => setError(error instanceof Error ? error.message : 'Failed to load roles'));
+  }, [workspaceId]);
+
+  const replaceRole = (updated: WorkspaceRolePermissions) => {
+    setMatrix(prev => prev && {
+      ...prev,
+      roles: prev.roles.map(role => (role.role === updated.role ? updated : role))
+    });
+    onChange?.();
+  };
+
+  const togglePermission = async (role: WorkspaceRolePermissions, permission: Permission) => {
+    const permissions = role.permissions.includes(permission)
+      ? role.permissions.filter(item => item !== permission)
+      : [...role.permissions, permission];
+
+    setBusyRole(role.role);
+    setError('');
+    try {
+      replaceRole(await workspaceService.updateRolePermissions(workspaceId, role.role, permissions));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to update role');
+    } finally {
+      setBusyRole(null);
+    }
+  };
+
+  const resetRole = async (role: WorkspaceRolePermissions) => {
+    setBusyRole(role.role);
+    setError('');
+    try {
+      replaceRole(await workspaceService.resetRole(workspaceId, role.role));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to reset role');
+    } finally {
+      setBusyRole(null);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-900 mb-1">Roles & Permissions</h3>
+      <p className="text-xs text-gray-500 mb-3">
+        {canManage
+          ? 'Choose what each role can do in this workspace. Owners and admins always have full access.'
+          : 'What each role can do in this workspace.'}
+      </p>
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg flex items-start gap-2">
+          <AlertTriangle className="w-4 h-4 mt-0.5 text-red-500 flex-shrink-0" />
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {!matrix ? (
+        !error && (
+          <div className="flex items-center justify-center p-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          </div>
+        )
+      ) : (
+        <div className="overflow-x-auto border border-gray-200 rounded-lg">
+          <table className="min-w-full text-xs">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Permission</th>
+                {matrix.roles.map(role => (
+                  <th key={role.role} className="px-2 py-2 text-center font-medium text-gray-700 whitespace-nowrap">
+                    <div className="flex items-center justify-center gap-1">
+                      {WORKSPACE_ROLE_LABELS[role.role]}
+                      {!role.editable && <Lock className="w-3 h-3 text-gray-400" />}
+                      {canManage && role.isCustomized && (
+                        <button
+                          type="button"
+                          onClick={() => resetRole(role)}
+                          disabled={busyRole !== null}
+                          className="text-gray-400 hover:text-blue-600 disabled:opacity-50"
+                          title="Reset to defaults"
+                        >
+                          <RotateCcw className="w-3 h-3" />
+                        </button>
+                      )}
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {Object.entries(matrix.resources).map(([resource, actions]) => (
+                actions.map((action, index) => {
+                  const permission = `${resource}:${action}`;
+                  return (
+                    <tr key={permission} className={index === 0 ? 'border-t border-gray-200' : ''}>
+                      <td className="px-3 py-1.5 text-gray-700 whitespace-nowrap">
+                        {index === 0 && (
+                          <span className="font-medium text-gray-900 mr-1">{RESOURCE_LABELS[resource] || resource}</span>
+                        )}
+                        <span className={index === 0 ? 'text-gray-500' : 'pl-3 text-gray-500'}>
+                          {ACTION_LABELS[action] || action}
+                        </span>
+                      </td>
+                      {matrix.roles.map(role => (
+                        <td key={role.role} className="px-2 py-1.5 text-center">
+                          <input
+                            type="checkbox"
+                            checked={role.permissions.includes(permission)}
+                            onChange={() => togglePermission(role, permission)}
+                            disabled={!canManage || !role.editable || busyRole !== null}
+                            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500 disabled:opacity-50"
+                            aria-label={`${WORKSPACE_ROLE_LABELS[role.role]}: ${permission}`}
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
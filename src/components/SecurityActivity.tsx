@@ -0,0 +1,288 @@
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, CheckCircle, ChevronLeft, ChevronRight, Download, Key, XCircle } from 'lucide-react';
+import {
+  authService,
+  type SecurityEvent,
+  type SecurityEventType,
+  type SecurityLogFilters
+} from '../services/authService';
+import { useAuth } from '../hooks/useAuth';
+
+const PAGE_SIZE = 25;
+
+const EVENT_LABELS: Record<SecurityEventType, string> = {
+  login: 'Sign-in',
+  logout: 'Sign-out',
+  account_locked: 'Account locked',
+  magic_link_requested: 'Magic link requested',
+  magic_link_used: 'Magic link used',
+  oauth_linked: 'OAuth provider linked',
+  two_factor_enabled: '2FA enabled',
+  two_factor_disabled: '2FA disabled',
+  backup_code_used: 'Backup code used',
+  backup_codes_regenerated: 'Backup codes regenerated',
+  password_reset_requested: 'Password reset requested',
+  password_reset: 'Password reset',
+  session_revoked: 'Session revoked',
+  sessions_revoked: 'Sessions revoked',
+  refresh_token_reuse: 'Reused refresh token blocked'
+};
+
+const METHOD_LABELS: Record<string, string> = {
+  password: 'password',
+  magic_link: 'magic link',
+  google: 'Google',
+  github: 'GitHub'
+};
+
+// One-line summary of the details recorded with an event
+function describeDetails(event: SecurityEvent): string {
+  const { method, reason, twoFactor, provider, device, revoked, remaining } = event.details as Record<string, string | number | boolean | undefined>;
+  const parts: string[] = [];
+
+  if (method) parts.push(`via ${METHOD_LABELS[String(method)] || method}${twoFactor ? ' + 2FA' : ''}`);
+  if (provider) parts.push(METHOD_LABELS[String(provider)] || String(provider));
+  if (device) parts.push(String(device));
+  if (revoked !== undefined) parts.push(`${revoked} revoked`);
+  if (remaining !== undefined) parts.push(`${remaining} backup codes left`);
+  if (reason) parts.push(String(reason).replace(/_/g, ' '));
+
+  return parts.join(' · ');
+}
+
+export function SecurityActivity() {
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin';
+
+  const [filters, setFilters] = useState<SecurityLogFilters>({});
+  const [page, setPage] = useState(1);
+  const [events, setEvents] = useState<SecurityEvent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchEvents = useCallback(async () => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const result = await authService.getSecurityLogs(filters, page, PAGE_SIZE);
+      setEvents(result.logs);
+      setTotal(result.total);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load security log');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters, page]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  const updateFilter = (changes: Partial<SecurityLogFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+    setPage(1);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError('');
+
+    try {
+      await authService.exportSecurityLogs(filters);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to export security log');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const showAccount = filters.scope === 'all';
+
+  return (
+    <div className="max-w-4xl mx-auto p-6">
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200">
+        {/* Header */}
+        <div className="border-b border-gray-200 p-6">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-purple-100 rounded-lg flex items-center justify-center">
+                <Key className="w-5 h-5 text-purple-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">Security Activity</h2>
+                <p className="text-sm text-gray-600">Monitor recent security events on your account</p>
+              </div>
+            </div>
+            <button
+              onClick={handleExport}
+              disabled={isExporting || total === 0}
+              className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" />
+              {isExporting ? 'Exporting...' : 'Export CSV'}
+            </button>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="border-b border-gray-200 p-4 flex flex-wrap items-end gap-3">
+          <label className="text-sm text-gray-600">
+            Event
+            <select
+              value={filters.type || ''}
+              onChange={(e) => updateFilter({ type: (e.target.value || undefined) as SecurityEventType | undefined })}
+              className="block mt-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+            >
+              <option value="">All events</option>
+              {(Object.keys(EVENT_LABELS) as SecurityEventType[]).map(type => (
+                <option key={type} value={type}>{EVENT_LABELS[type]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-600">
+            Outcome
+            <select
+              value={filters.success === undefined ? '' : String(filters.success)}
+              onChange={(e) => updateFilter({ success: e.target.value === '' ? undefined : e.target.value === 'true' })}
+              className="block mt-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+            >
+              <option value="">Any</option>
+              <option value="true">Succeeded</option>
+              <option value="false">Failed</option>
+            </select>
+          </label>
+          <label className="text-sm text-gray-600">
+            From
+            <input
+              type="date"
+              value={filters.from?.slice(0, 10) || ''}
+              onChange={(e) => updateFilter({ from: e.target.value ? new Date(`${e.target.value}T00:00:00`).toISOString() : undefined })}
+              className="block mt-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+            />
+          </label>
+          <label className="text-sm text-gray-600">
+            To
+            <input
+              type="date"
+              value={filters.to?.slice(0, 10) || ''}
+              onChange={(e) => updateFilter({ to: e.target.value ? new Date(`${e.target.value}T23:59:59.999`).toISOString() : undefined })}
+              className="block mt-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+            />
+          </label>
+          {isAdmin && (
+            <>
+              <label className="text-sm text-gray-600">
+                Accounts
+                <select
+                  value={filters.scope || 'me'}
+                  onChange={(e) => updateFilter({ scope: e.target.value as 'me' | 'all', email: undefined })}
+                  className="block mt-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+                >
+                  <option value="me">My account</option>
+                  <option value="all">All accounts</option>
+                </select>
+              </label>
+              {showAccount && (
+                <label className="text-sm text-gray-600">
+                  Email
+                  <input
+                    type="search"
+                    value={filters.email || ''}
+                    onChange={(e) => updateFilter({ email: e.target.value || undefined })}
+                    placeholder="Filter by email"
+                    className="block mt-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+                  />
+                </label>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="p-6">
+          {error && (
+            <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+              <div className="flex items-start gap-2">
+                <AlertTriangle className="w-4 h-4 mt-0.5 text-red-500 flex-shrink-0" />
+                <p className="text-sm text-red-700">{error}</p>
+              </div>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center p-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : events.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <Key className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+              <p>No security events to display</p>
+            </div>
+          ) : (
+            <ol className="divide-y divide-gray-100">
+              {events.map(event => {
+                const details = describeDetails(event);
+                return (
+                  <li key={event.id} className="flex items-start gap-3 py-3">
+                    {event.success ? (
+                      <CheckCircle className="w-5 h-5 mt-0.5 text-green-500 flex-shrink-0" />
+                    ) : (
+                      <XCircle className="w-5 h-5 mt-0.5 text-red-500 flex-shrink-0" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center justify-between gap-3">
+                        <p className="font-medium text-gray-900">
+                          {EVENT_LABELS[event.type] || event.type}
+                          {!event.success && <span className="ml-2 text-xs text-red-600">Failed</span>}
+                        </p>
+                        <time className="text-xs text-gray-500 whitespace-nowrap" dateTime={event.createdAt}>
+                          {format(new Date(event.createdAt), 'MMM d, yyyy HH:mm:ss')}
+                        </time>
+                      </div>
+                      {showAccount && <p className="text-sm text-gray-700">{event.email || 'Unknown account'}</p>}
+                      {details && <p className="text-sm text-gray-600">{details}</p>}
+                      <p className="text-xs text-gray-500 truncate" title={event.userAgent || undefined}>
+                        {event.ip || 'Unknown IP'}{event.userAgent && ` · ${event.userAgent}`}
+                      </p>
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+
+          {/* Pagination */}
+          {total > PAGE_SIZE && (
+            <div className="flex items-center justify-between mt-4 pt-4 border-t border-gray-200">
+              <p className="text-sm text-gray-600">
+                {total} events · page {page} of {pageCount}
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setPage(prev => prev - 1)}
+                  disabled={page <= 1 || isLoading}
+                  className="p-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                  title="Previous page"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setPage(prev => prev + 1)}
+                  disabled={page >= pageCount || isLoading}
+                  className="p-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                  title="Next page"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
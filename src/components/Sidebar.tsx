@@ -3,6 +3,12 @@ import { useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../hooks/useAuth';
 import { useWorkspace } from '../context/WorkspaceContext';
 import { WorkspaceManagementModal } from './WorkspaceManagementModal';
+import { NotificationBell } from './NotificationBell';
+import { NotificationPreferencesModal } from './NotificationPreferencesModal';
+import { useNotifications } from '../hooks/useNotifications';
+import { usePermissions } from '../hooks/usePermissions';
+import { WORKSPACE_ROLE_LABELS } from '../services/workspaceService';
+import { AppNotification } from '../types';
 import { 
   LayoutDashboard, 
   Workflow, 
@@ -14,6 +20,9 @@ import {
   Plus,
   CheckSquare,
   Calendar,
+  GanttChartSquare,
+  BarChart3,
+  ClipboardCheck,
   Menu,
   X,
   ChevronRight,
@@ -42,6 +51,10 @@ export function Sidebar({ onNewTask }: SidebarProps) {
   const [showWorkspaceModal, setShowWorkspaceModal] = useState(false);
   const [workspaceModalMode, setWorkspaceModalMode] = useState<'create' | 'edit' | 'manage'>('create');
   const [selectedWorkspaceForEdit, setSelectedWorkspaceForEdit] = useState<any>(null);
+  const [isNotificationsOpen, setIsNotificationsOpen] = useState(false);
+  const [showNotificationPreferences, setShowNotificationPreferences] = useState(false);
+  const { notifications, unreadCount, markRead, markAllRead } = useNotifications();
+  const { role, can } = usePermissions();
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   // Get current view from URL path
@@ -66,6 +79,20 @@ export function Sidebar({ onNewTask }: SidebarProps) {
     setIsMobileMenuOpen(false);
   };
 
+  const handleOpenNotification = (notification: AppNotification) => {
+    markRead(notification);
+    setIsNotificationsOpen(false);
+    if (notification.link) {
+      navigate(notification.link);
+      setIsMobileMenuOpen(false);
+    }
+  };
+
+  const handleOpenNotificationPreferences = () => {
+    setIsNotificationsOpen(false);
+    setShowNotificationPreferences(true);
+  };
+
   const handleNewWorkflow = () => {
     navigate('/app/workflows');
     setIsMobileMenuOpen(false);
@@ -127,19 +154,36 @@ export function Sidebar({ onNewTask }: SidebarProps) {
       id: 'dashboard', 
       label: 'Dashboard', 
       icon: LayoutDashboard, 
-      badge: null
+      badge: null,
+      permission: 'clients:view'
     },
     { 
       id: 'workflows', 
       label: 'Workflows', 
       icon: Workflow, 
-      badge: '3'
+      badge: '3',
+      permission: 'workflows:view'
     },
     { 
       id: 'kanban', 
       label: 'Kanban', 
       icon: Kanban, 
-      badge: '12'
+      badge: '12',
+      permission: 'tasks:view'
+    },
+    { 
+      id: 'timeline', 
+      label: 'Timeline', 
+      icon: GanttChartSquare, 
+      badge: null,
+      permission: 'tasks:view'
+    },
+    { 
+      id: 'analytics', 
+      label: 'Flow Analytics', 
+      icon: BarChart3, 
+      badge: null,
+      permission: 'tasks:view'
     },
     { 
       id: 'calendar', 
@@ -147,11 +191,19 @@ export function Sidebar({ onNewTask }: SidebarProps) {
       icon: Calendar, 
       badge: null
     },
+    { 
+      id: 'timesheets', 
+      label: 'Timesheets', 
+      icon: ClipboardCheck, 
+      badge: null,
+      permission: 'time_entries:view'
+    },
     { 
       id: 'meetings', 
       label: 'Meetings', 
       icon: Users, 
-      badge: null
+      badge: null,
+      permission: 'clients:view'
     },
     { 
       id: 'team', 
@@ -163,14 +215,15 @@ export function Sidebar({ onNewTask }: SidebarProps) {
       id: 'clients', 
       label: 'Clients', 
       icon: Building2, 
-      badge: '8'
+      badge: '8',
+      permission: 'clients:view'
     },
-  ];
+  ].filter(item => !item.permission || can(item.permission));
 
   const SidebarContent = () => (
     <div className="flex flex-col h-full">
       {/* Header */}
-      <div className="p-5 border-b border-white/10">
+      <div className="p-5 border-b border-white/10 relative">
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-2">
             <div className="w-8 h-8 bg-gradient-to-br from-tertiary to-secondary rounded-xl flex items-center justify-center shadow-lg">
@@ -182,13 +235,25 @@ export function Sidebar({ onNewTask }: SidebarProps) {
               </h1>
             </div>
           </div>
-          {/* Mobile close button */}
-          <button
-            className="lg:hidden p-2 text-white/80 hover:text-white hover:bg-white/10 rounded-lg transition-colors duration-200"
-            onClick={() => setIsMobileMenuOpen(false)}
-          >
-            <X size={18} />
-          </button>
+          <div className="flex items-center gap-1">
+            <NotificationBell
+              notifications={notifications}
+              unreadCount={unreadCount}
+              isOpen={isNotificationsOpen}
+              onToggle={() => setIsNotificationsOpen(open => !open)}
+              onClose={() => setIsNotificationsOpen(false)}
+              onOpenNotification={handleOpenNotification}
+              onMarkAllRead={markAllRead}
+              onOpenPreferences={handleOpenNotificationPreferences}
+            />
+            {/* Mobile close button */}
+            <button
+              className="lg:hidden p-2 text-white/80 hover:text-white hover:bg-white/10 rounded-lg transition-colors duration-200"
+              onClick={() => setIsMobileMenuOpen(false)}
+            >
+              <X size={18} />
+            </button>
+          </div>
         </div>
       </div>
 
@@ -237,13 +302,15 @@ export function Sidebar({ onNewTask }: SidebarProps) {
                       )}
                     </div>
                     <div className="flex items-center justify-between px-4 py-2 gap-2">
-                      <button
-                        onClick={() => handleOpenWorkspaceModal('edit', currentWorkspace)}
-                        className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-gray-700 hover:text-primary hover:bg-primary/10 rounded-lg transition-colors"
-                      >
-                        <Edit size={12} />
-                        Edit Details
-                      </button>
+                      {can('settings:manage') && (
+                        <button
+                          onClick={() => handleOpenWorkspaceModal('edit', currentWorkspace)}
+                          className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-gray-700 hover:text-primary hover:bg-primary/10 rounded-lg transition-colors"
+                        >
+                          <Edit size={12} />
+                          Edit Details
+                        </button>
+                      )}
                       <button
                         onClick={() => handleOpenWorkspaceModal('manage', currentWorkspace)}
                         className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-gray-700 hover:text-primary hover:bg-primary/10 rounded-lg transition-colors"
@@ -318,7 +385,7 @@ export function Sidebar({ onNewTask }: SidebarProps) {
         </div>
         
         {/* Quick Task Button */}
-        {onNewTask && (
+        {onNewTask && can('tasks:create') && (
           <button 
             className="w-full group flex items-center gap-3 px-4 py-3 mt-2 bg-tertiary hover:bg-tertiary/90 text-primary rounded-xl font-medium transition-all duration-200 hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-tertiary/30"
             onClick={handleNewTask}
@@ -388,7 +455,7 @@ export function Sidebar({ onNewTask }: SidebarProps) {
               {user?.name || 'User'}
             </div>
             <div className="text-xs text-white/60 capitalize">
-              {user?.role || 'Member'}
+              {role ? WORKSPACE_ROLE_LABELS[role] : user?.role || 'Member'}
             </div>
           </div>
           <div className="w-2 h-2 bg-green-400 rounded-full flex-shrink-0"></div>
@@ -497,6 +564,12 @@ export function Sidebar({ onNewTask }: SidebarProps) {
         mode={workspaceModalMode}
         workspace={selectedWorkspaceForEdit}
       />
+
+      {/* Notification Preferences Modal */}
+      <NotificationPreferencesModal
+        isOpen={showNotificationPreferences}
+        onClose={() => setShowNotificationPreferences(false)}
+      />
     </>
   );
 }
\ No newline at end of file
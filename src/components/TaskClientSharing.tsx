@@ -0,0 +1,106 @@
+import React, { useState, useEffect } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { UserCheck, Send } from 'lucide-react';
+import { KanbanTask, ClientApproval, ClientApprovalStatus } from '../types';
+import { taskService } from '../services';
+import { usePermissions } from '../hooks/usePermissions';
+
+interface TaskClientSharingProps {
+  task: KanbanTask;
+}
+
+const APPROVAL_LABELS: Record<ClientApprovalStatus, { label: string; className: string }> = {
+  pending: { label: 'Awaiting client approval', className: 'bg-amber-100 text-amber-800' },
+  approved: { label: 'Approved by client', className: 'bg-green-100 text-green-800' },
+  changes_requested: { label: 'Client requested changes', className: 'bg-red-100 text-red-800' }
+};
+
+// Whether the client sees the task in their portal, and asking them to sign it off
+export const TaskClientSharing: React.FC<TaskClientSharingProps> = ({ task }) => {
+  const { can } = usePermissions();
+  const [clientVisible, setClientVisible] = useState(Boolean(task.clientVisible));
+  const [approval, setApproval] = useState<ClientApproval | null>(task.clientApproval || null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setClientVisible(Boolean(task.clientVisible));
+    setApproval(task.clientApproval || null);
+  }, [task.clientVisible, task.clientApproval]);
+
+  const canEdit = can('tasks:update');
+
+  const handleToggle = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const updated = await taskService.setClientVisible(task.id, !clientVisible);
+      setClientVisible(Boolean(updated.clientVisible));
+    } catch {
+      setError('Failed to update client visibility');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRequestApproval = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const updated = await taskService.requestClientApproval(task.id);
+      setClientVisible(Boolean(updated.clientVisible));
+      setApproval(updated.clientApproval || null);
+    } catch {
+      setError('Failed to request approval');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const badge = approval && APPROVAL_LABELS[approval.status];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <input
+            type="checkbox"
+            checked={clientVisible}
+            onChange={handleToggle}
+            disabled={!canEdit || isSaving}
+            className="rounded border-gray-300 text-primary focus:ring-primary"
+          />
+          <UserCheck className="w-4 h-4 text-gray-500" />
+          Visible in client portal
+        </label>
+        {canEdit && (
+          <button
+            type="button"
+            onClick={handleRequestApproval}
+            disabled={isSaving || approval?.status === 'pending'}
+            className="inline-flex items-center gap-2 px-3 py-1.5 text-sm bg-primary hover:bg-primary/90 text-white rounded-lg disabled:opacity-50"
+          >
+            <Send className="w-4 h-4" />
+            {approval ? 'Request approval again' : 'Request approval'}
+          </button>
+        )}
+      </div>
+
+      {badge && approval && (
+        <div className="p-3 bg-gray-50 rounded-xl text-sm space-y-1">
+          <div className="flex items-center gap-2">
+            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${badge.className}`}>{badge.label}</span>
+            {approval.updatedAt && (
+              <span className="text-xs text-gray-500">
+                {formatDistanceToNow(new Date(approval.updatedAt), { addSuffix: true })}
+              </span>
+            )}
+          </div>
+          {approval.comment && <p className="text-gray-700 whitespace-pre-wrap">{approval.comment}</p>}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,552 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import ReactQuill from 'react-quill';
+import Quill from 'quill';
+import 'react-quill/dist/quill.snow.css';
+import '../styles/quill-custom.css';
+import { formatDistanceToNow } from 'date-fns';
+import { MessageSquare, Reply, Edit3, Trash2, History, SmilePlus, Send, X } from 'lucide-react';
+import { QuillDelta, TaskComment, TaskCommentRevision } from '../types';
+import { taskService, workspaceService } from '../services';
+import { useAuth } from '../hooks/useAuth';
+import { useWorkspace } from '../context/WorkspaceContext';
+import { useRealtime } from '../hooks/useRealtime';
+import { usePermissions } from '../hooks/usePermissions';
+
+interface TaskCommentsProps {
+  taskId: string;
+}
+
+interface MentionableMember {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface CommentEditorProps {
+  members: MentionableMember[];
+  initialContent?: QuillDelta;
+  initialMentions?: string[];
+  placeholder?: string;
+  submitLabel: string;
+  onSubmit: (content: QuillDelta, mentions: string[]) => Promise<void>;
+  onCancel?: () => void;
+}
+
+// Keep in sync with TaskComment.REACTIONS on the server
+const REACTIONS = ['👍', '❤️', '🎉', '😄', '👀', '🚀'];
+
+// Quill also turns "- ", "1. " and "> " typed at a line start into lists and quotes
+const EDITOR_MODULES = {
+  toolbar: [
+    ['bold', 'italic', 'code'],
+    [{ list: 'ordered' }, { list: 'bullet' }],
+    ['blockquote', 'code-block', 'link'],
+    ['clean']
+  ]
+};
+
+const EDITOR_FORMATS = ['bold', 'italic', 'code', 'list', 'blockquote', 'code-block', 'link'];
+
+// "@query" directly before the cursor
+const MENTION_PATTERN = /(^|\s)@([\w.-]*)$/;
+
+// Renders stored deltas through a read-only Quill, so comment HTML is never injected directly
+const CommentContent: React.FC<{ content: QuillDelta }> = ({ content }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const target = document.createElement('div');
+    container.appendChild(target);
+    const quill = new Quill(target, { readOnly: true, modules: { toolbar: false } });
+    quill.setContents(content.ops);
+
+    return () => {
+      container.removeChild(target);
+    };
+  }, [content]);
+
+  return <div ref={containerRef} className="comment-content" />;
+};
+
+const CommentEditor: React.FC<CommentEditorProps> = ({
+  members,
+  initialContent,
+  initialMentions = [],
+  placeholder = 'Write a comment… Use @ to mention someone',
+  submitLabel,
+  onSubmit,
+  onCancel
+}) => {
+  const quillRef = useRef<ReactQuill>(null);
+  const [mentionQuery, setMentionQuery] = useState<{ start: number; query: string } | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [mentions, setMentions] = useState<Map<string, string>>(() => new Map(
+    initialMentions
+      .map(id => members.find(member => member.id === id))
+      .filter((member): member is MentionableMember => !!member)
+      .map(member => [member.id, member.name])
+  ));
+  const [isEmpty, setIsEmpty] = useState(!initialContent);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Only the content at mount – live updates of the comment must not reset an edit in progress
+  const initialContentRef = useRef(initialContent);
+
+  useEffect(() => {
+    const editor = quillRef.current?.getEditor();
+    if (!editor || !initialContentRef.current) return;
+
+    editor.setContents(initialContentRef.current.ops);
+    editor.setSelection(editor.getLength(), 0);
+  }, []);
+
+  const suggestions = mentionQuery
+    ? members
+        .filter(member => member.name.toLowerCase().includes(mentionQuery.query.toLowerCase()))
+        .slice(0, 6)
+    : [];
+
+  const handleChange = (_value: string, _delta: unknown, _source: unknown, editor: ReactQuill.UnprivilegedEditor) => {
+    setIsEmpty(editor.getText().trim() === '');
+
+    const selection = editor.getSelection();
+    if (!selection) {
+      setMentionQuery(null);
+      return;
+    }
+
+    const match = editor.getText(0, selection.index).match(MENTION_PATTERN);
+    if (match) {
+      setMentionQuery({ start: selection.index - match[2].length - 1, query: match[2] });
+      setActiveIndex(0);
+    } else {
+      setMentionQuery(null);
+    }
+  };
+
+  const insertMention = (member: MentionableMember) => {
+    const editor = quillRef.current?.getEditor();
+    if (!editor || !mentionQuery) return;
+
+    const text = `@${member.name}`;
+    editor.deleteText(mentionQuery.start, mentionQuery.query.length + 1, 'user');
+    editor.insertText(mentionQuery.start, text, { bold: true }, 'user');
+    editor.insertText(mentionQuery.start + text.length, ' ', { bold: false }, 'user');
+    editor.setSelection(mentionQuery.start + text.length + 1, 0);
+
+    setMentions(prev => new Map(prev).set(member.id, member.name));
+    setMentionQuery(null);
+  };
+
+  // Runs in the capture phase so the suggestion list gets arrow keys and Enter before Quill does
+  const handleKeyDownCapture = (e: React.KeyboardEvent) => {
+    if (suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      e.stopPropagation();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex(index => (index + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      e.stopPropagation();
+      insertMention(suggestions[activeIndex] || suggestions[0]);
+    } else if (e.key === 'Escape') {
+      e.stopPropagation();
+      setMentionQuery(null);
+    }
+  };
+
+  const handleSubmit = async () => {
+    const editor = quillRef.current?.getEditor();
+    if (!editor || isEmpty) return;
+
+    // Mentions whose name was deleted from the text no longer count
+    const text = editor.getText();
+    const mentioned = [...mentions.entries()]
+      .filter(([, name]) => text.includes(`@${name}`))
+      .map(([id]) => id);
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit({ ops: editor.getContents().ops as QuillDelta['ops'] }, mentioned);
+      editor.setContents([]);
+      setMentions(new Map());
+      setIsEmpty(true);
+    } catch (error) {
+      console.error('Error saving comment:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="relative" onKeyDownCapture={handleKeyDownCapture}>
+      <div className="comment-editor border border-gray-200 rounded-xl overflow-hidden focus-within:border-primary focus-within:ring-2 focus-within:ring-primary/20">
+        <ReactQuill
+          ref={quillRef}
+          theme="snow"
+          modules={EDITOR_MODULES}
+          formats={EDITOR_FORMATS}
+          placeholder={placeholder}
+          onChange={handleChange}
+        />
+      </div>
+
+      {suggestions.length > 0 && (
+        <div className="absolute left-0 right-0 mt-1 bg-white rounded-xl shadow-xl border border-gray-200 overflow-hidden z-10">
+          {suggestions.map((member, index) => (
+            <button
+              key={member.id}
+              type="button"
+              onMouseDown={(e) => {
+                // Keep the editor's selection while picking
+                e.preventDefault();
+                insertMention(member);
+              }}
+              className={`w-full flex items-center gap-3 px-3 py-2 text-left text-sm transition-colors ${
+                index === activeIndex ? 'bg-primary/10' : 'hover:bg-gray-50'
+              }`}
+            >
+              <div className="w-6 h-6 bg-gradient-to-br from-primary to-accent rounded-full flex items-center justify-center text-xs font-bold text-white">
+                {member.name.charAt(0)}
+              </div>
+              <span className="font-medium text-gray-900">{member.name}</span>
+              <span className="text-xs text-gray-500 truncate">{member.email}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2 mt-2">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors duration-200"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={handleSubmit}
+          disabled={isEmpty || isSubmitting}
+          className="px-3 py-1.5 text-sm bg-primary hover:bg-primary/90 disabled:bg-primary/50 text-white rounded-lg transition-colors duration-200 flex items-center gap-1.5"
+        >
+          <Send size={14} />
+          {isSubmitting ? 'Saving...' : submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Threaded discussion of a task with mentions, reactions and edit history
+export const TaskComments: React.FC<TaskCommentsProps> = ({ taskId }) => {
+  const { user } = useAuth();
+  const { currentWorkspace } = useWorkspace();
+  const { subscribe } = useRealtime();
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [members, setMembers] = useState<MentionableMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [pickingReaction, setPickingReaction] = useState<string | null>(null);
+  const [history, setHistory] = useState<{ commentId: string; revisions: TaskCommentRevision[] } | null>(null);
+  const workspaceId = currentWorkspace?.id;
+  const { role, can } = usePermissions();
+  const isAdmin = role === 'owner' || role === 'admin';
+  const canComment = can('tasks:comment');
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+    taskService.getComments(taskId)
+      .then(setComments)
+      .catch(() => setError('Failed to load comments'))
+      .finally(() => setLoading(false));
+  }, [taskId]);
+
+  useEffect(() => {
+    if (!workspaceId) return;
+
+    workspaceService.getWorkspace(workspaceId)
+      .then(workspace => setMembers((workspace.members || []).map(({ id, name, email }) => ({ id, name, email }))))
+      .catch(err => console.error('Failed to load workspace members:', err));
+  }, [workspaceId]);
+
+  const upsertComment = useCallback((comment: TaskComment) => {
+    setComments(prev => (prev.some(item => item.id === comment.id)
+      ? prev.map(item => (item.id === comment.id ? comment : item))
+      : [...prev, comment]));
+  }, []);
+
+  useEffect(() => subscribe(({ type, data }) => {
+    if (!type.startsWith('task_comment.')) return;
+
+    const comment = data as unknown as TaskComment;
+    if (comment.taskId === taskId) upsertComment(comment);
+  }), [subscribe, taskId, upsertComment]);
+
+  const handleAdd = async (content: QuillDelta, mentions: string[], parentId: string | null = null) => {
+    upsertComment(await taskService.addComment(taskId, { content, mentions, parentId }));
+    setReplyingTo(null);
+  };
+
+  const handleEdit = async (commentId: string, content: QuillDelta, mentions: string[]) => {
+    upsertComment(await taskService.updateComment(taskId, commentId, { content, mentions }));
+    setEditing(null);
+    setHistory(null);
+  };
+
+  const handleDelete = async (comment: TaskComment) => {
+    if (!window.confirm('Delete this comment?')) return;
+
+    try {
+      await taskService.deleteComment(taskId, comment.id);
+      upsertComment({
+        ...comment,
+        content: { ops: [] },
+        bodyText: '',
+        reactions: [],
+        deletedAt: new Date(),
+        revisionCount: comment.revisionCount + 1
+      });
+    } catch (err) {
+      console.error('Error deleting comment:', err);
+    }
+  };
+
+  const handleReaction = async (comment: TaskComment, emoji: string) => {
+    setPickingReaction(null);
+    try {
+      upsertComment(await taskService.toggleReaction(taskId, comment.id, emoji));
+    } catch (err) {
+      console.error('Error updating reaction:', err);
+    }
+  };
+
+  const toggleHistory = async (commentId: string) => {
+    if (history?.commentId === commentId) {
+      setHistory(null);
+      return;
+    }
+    try {
+      setHistory({ commentId, revisions: await taskService.getCommentHistory(taskId, commentId) });
+    } catch (err) {
+      console.error('Error loading comment history:', err);
+    }
+  };
+
+  const memberName = (userId: string) =>
+    userId === user?.id ? 'You' : members.find(member => member.id === userId)?.name || 'Someone';
+
+  const renderComment = (comment: TaskComment, isReply = false) => {
+    const isAuthor = comment.authorId === user?.id;
+
+    return (
+      <div key={comment.id} className={`flex gap-3 ${isReply ? 'mt-3' : ''}`}>
+        <div className="w-8 h-8 flex-shrink-0 bg-gradient-to-br from-primary to-accent rounded-full flex items-center justify-center text-xs font-bold text-white">
+          {(comment.authorName || '?').charAt(0)}
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="font-semibold text-gray-900">{comment.authorName || 'Former member'}</span>
+            <span className="text-xs text-gray-400">
+              {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+            </span>
+            {comment.revisionCount > 0 && (
+              <button
+                type="button"
+                onClick={() => toggleHistory(comment.id)}
+                className="flex items-center gap-1 text-xs text-gray-400 hover:text-primary"
+                title="Show history"
+              >
+                <History size={12} />
+                {comment.deletedAt ? 'history' : 'edited'}
+              </button>
+            )}
+          </div>
+
+          {comment.deletedAt ? (
+            <p className="text-sm italic text-gray-400 mt-1">This comment was deleted</p>
+          ) : editing === comment.id ? (
+            <div className="mt-2">
+              <CommentEditor
+                members={members}
+                initialContent={comment.content}
+                initialMentions={comment.mentions}
+                submitLabel="Save"
+                onSubmit={(content, mentions) => handleEdit(comment.id, content, mentions)}
+                onCancel={() => setEditing(null)}
+              />
+            </div>
+          ) : (
+            <div className="mt-1 text-sm text-gray-700">
+              <CommentContent content={comment.content} />
+            </div>
+          )}
+
+          {history?.commentId === comment.id && (
+            <div className="mt-2 space-y-2 border-l-2 border-gray-200 pl-3">
+              {history.revisions.map(revision => (
+                <div key={revision.id} className="text-sm text-gray-500">
+                  <div className="text-xs text-gray-400">
+                    Before {revision.editedByName ? `${revision.editedByName}'s` : 'an'} change{' '}
+                    {formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true })}
+                  </div>
+                  <CommentContent content={revision.content} />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {!comment.deletedAt && (
+            <div className="flex flex-wrap items-center gap-1 mt-2">
+              {comment.reactions.map(reaction => (
+                <button
+                  key={reaction.emoji}
+                  type="button"
+                  onClick={() => handleReaction(comment, reaction.emoji)}
+                  title={reaction.userIds.map(memberName).join(', ')}
+                  className={`px-2 py-0.5 rounded-full text-xs border transition-colors ${
+                    user && reaction.userIds.includes(user.id)
+                      ? 'bg-primary/10 border-primary/30 text-primary'
+                      : 'bg-gray-50 border-gray-200 text-gray-600 hover:bg-gray-100'
+                  }`}
+                >
+                  {reaction.emoji} {reaction.userIds.length}
+                </button>
+              ))}
+
+              {canComment && (
+                <>
+                  <div className="relative">
+                    <button
+                      type="button"
+                      onClick={() => setPickingReaction(pickingReaction === comment.id ? null : comment.id)}
+                      className="p-1 text-gray-400 hover:text-primary rounded-lg transition-colors"
+                      title="Add reaction"
+                    >
+                      <SmilePlus size={14} />
+                    </button>
+                    {pickingReaction === comment.id && (
+                      <div className="absolute left-0 bottom-full mb-1 flex gap-1 p-1 bg-white rounded-xl shadow-xl border border-gray-200 z-10">
+                        {REACTIONS.map(emoji => (
+                          <button
+                            key={emoji}
+                            type="button"
+                            onClick={() => handleReaction(comment, emoji)}
+                            className="w-7 h-7 rounded-lg hover:bg-gray-100 transition-colors"
+                          >
+                            {emoji}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  <button
+                    type="button"
+                    onClick={() => setReplyingTo(comment.parentId || comment.id)}
+                    className="flex items-center gap-1 px-1.5 py-1 text-xs text-gray-400 hover:text-primary rounded-lg transition-colors"
+                  >
+                    <Reply size={12} />
+                    Reply
+                  </button>
+                </>
+              )}
+              {isAuthor && (
+                <button
+                  type="button"
+                  onClick={() => setEditing(comment.id)}
+                  className="flex items-center gap-1 px-1.5 py-1 text-xs text-gray-400 hover:text-primary rounded-lg transition-colors"
+                >
+                  <Edit3 size={12} />
+                  Edit
+                </button>
+              )}
+              {(isAuthor || isAdmin) && (
+                <button
+                  type="button"
+                  onClick={() => handleDelete(comment)}
+                  className="flex items-center gap-1 px-1.5 py-1 text-xs text-gray-400 hover:text-red-600 rounded-lg transition-colors"
+                >
+                  <Trash2 size={12} />
+                  Delete
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const threads = comments.filter(comment => !comment.parentId);
+  const activeCount = comments.filter(comment => !comment.deletedAt).length;
+
+  return (
+    <div className="space-y-4">
+      <h3 className="flex items-center gap-2 text-sm font-medium text-gray-700">
+        <MessageSquare size={16} className="text-gray-400" />
+        Comments {activeCount > 0 && <span className="text-gray-400">({activeCount})</span>}
+      </h3>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 text-red-700 rounded-xl text-sm">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : (
+        <div className="space-y-5">
+          {threads.length === 0 && !error && (
+            <p className="text-sm text-gray-500">No comments yet. Start the discussion below.</p>
+          )}
+
+          {threads.map(thread => (
+            <div key={thread.id}>
+              {renderComment(thread)}
+              <div className="ml-11">
+                {comments.filter(comment => comment.parentId === thread.id).map(reply => renderComment(reply, true))}
+                {replyingTo === thread.id && (
+                  <div className="mt-3">
+                    <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+                      <span>Replying to {thread.authorName || 'comment'}</span>
+                      <button type="button" onClick={() => setReplyingTo(null)} className="hover:text-gray-700">
+                        <X size={12} />
+                      </button>
+                    </div>
+                    <CommentEditor
+                      members={members}
+                      placeholder="Write a reply…"
+                      submitLabel="Reply"
+                      onSubmit={(content, mentions) => handleAdd(content, mentions, thread.id)}
+                      onCancel={() => setReplyingTo(null)}
+                    />
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canComment && (
+        <CommentEditor
+          members={members}
+          submitLabel="Comment"
+          onSubmit={(content, mentions) => handleAdd(content, mentions)}
+        />
+      )}
+    </div>
+  );
+};
@@ -9,9 +9,12 @@ import {
   Save,
   Trash2,
   Plus,
-  Check
+  Check,
+  Clock
 } from 'lucide-react';
 import { KanbanTask, TeamMember, Workflow, KanbanColumn } from '../types';
+import { TaskComments } from './TaskComments';
+import { TaskClientSharing } from './TaskClientSharing';
 
 interface TaskEditModalProps {
   task: KanbanTask | null;
@@ -34,7 +37,9 @@ interface TaskFormData {
   priority: 'low' | 'medium' | 'high' | 'urgent';
   status: string;
   tags: string[];
+  startDate: string;
   dueDate: string;
+  estimatedHours: string;
   assignedMembers: string[];
 }
 
@@ -58,7 +63,9 @@ export function TaskEditModal({
     priority: 'medium',
     status: 'todo',
     tags: [],
+    startDate: '',
     dueDate: '',
+    estimatedHours: '',
     assignedMembers: []
   });
   
@@ -77,7 +84,9 @@ export function TaskEditModal({
         priority: task.priority,
         status: task.status,
         tags: task.tags || [],
+        startDate: task.startDate ? new Date(task.startDate).toISOString().split('T')[0] : '',
         dueDate: task.dueDate ? new Date(task.dueDate).toISOString().split('T')[0] : '',
+        estimatedHours: task.estimatedHours != null ? String(task.estimatedHours) : '',
         assignedMembers: task.assignedMembers || []
       });
     } else {
@@ -89,7 +98,9 @@ export function TaskEditModal({
         priority: 'medium',
         status: defaultColumnId || columns[0]?.id || 'todo',
         tags: [],
+        startDate: '',
         dueDate: '',
+        estimatedHours: '',
         assignedMembers: []
       });
     }
@@ -174,7 +185,9 @@ export function TaskEditModal({
         priority: formData.priority,
         status: formData.status,
         tags: formData.tags,
+        startDate: formData.startDate ? new Date(formData.startDate) : undefined,
         dueDate: formData.dueDate ? new Date(formData.dueDate) : undefined,
+        estimatedHours: formData.estimatedHours ? parseFloat(formData.estimatedHours) : null,
         assignedMembers: formData.assignedMembers,
         updatedAt: new Date()
       };
@@ -378,19 +391,55 @@ export function TaskEditModal({
             </div>
           </div>
 
-          <div className="space-y-2">
-            <label htmlFor="dueDate" className="flex items-center gap-2 text-sm font-medium text-gray-700">
-              <Calendar size={16} className="text-gray-400" />
-              Due Date
-            </label>
-            <input
-              id="dueDate"
-              type="date"
-              value={formData.dueDate}
-              onChange={e => handleInputChange('dueDate', e.target.value)}
-              className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all duration-200"
-              disabled={isSubmitting}
-            />
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <label htmlFor="startDate" className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <Calendar size={16} className="text-gray-400" />
+                Start Date
+              </label>
+              <input
+                id="startDate"
+                type="date"
+                value={formData.startDate}
+                max={formData.dueDate || undefined}
+                onChange={e => handleInputChange('startDate', e.target.value)}
+                className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all duration-200"
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="dueDate" className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <Calendar size={16} className="text-gray-400" />
+                Due Date
+              </label>
+              <input
+                id="dueDate"
+                type="date"
+                value={formData.dueDate}
+                onChange={e => handleInputChange('dueDate', e.target.value)}
+                className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all duration-200"
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="estimatedHours" className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <Clock size={16} className="text-gray-400" />
+                Estimated Hours
+              </label>
+              <input
+                id="estimatedHours"
+                type="number"
+                min="0"
+                step="0.5"
+                value={formData.estimatedHours}
+                onChange={e => handleInputChange('estimatedHours', e.target.value)}
+                placeholder="e.g. 4"
+                className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all duration-200"
+                disabled={isSubmitting}
+              />
+            </div>
           </div>
 
           <div className="space-y-4">
@@ -489,6 +538,18 @@ export function TaskEditModal({
             </button>
           </div>
         </form>
+
+        {task && workflows.find(w => w.id === task.workflowId)?.clientId && (
+          <div className="px-6 pt-6 border-t border-gray-100">
+            <TaskClientSharing task={task} />
+          </div>
+        )}
+
+        {task && (
+          <div className="px-6 pb-6 pt-6 border-t border-gray-100">
+            <TaskComments taskId={task.id} />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,5 +1,5 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import  { useMemo, useCallback, useState } from 'react';
+import  { useMemo, useCallback, useState, useEffect } from 'react';
 import {
   ReactFlow,
   Background,
@@ -7,14 +7,18 @@ import {
   MiniMap,
   useNodesState,
   useEdgesState,
+  MarkerType,
   type Node,
   type Edge,
+  type Connection,
 } from '@xyflow/react';
 import '@xyflow/react/dist/style.css';
 import '../flowchart-nodes.css';
 
 import { X, Download, RotateCcw, Maximize2, Minimize2 } from 'lucide-react';
-import { KanbanTask, TeamMember, Workflow } from '../types';
+import { KanbanTask, TeamMember, Workflow, TaskDependency, CriticalPath } from '../types';
+import { taskService, workflowService } from '../services';
+import { ApiError } from '../services/api';
 import { nodeTypes } from '../nodes';
 import type { TaskNodeData } from '../nodes/TaskNode';
 
@@ -67,107 +71,59 @@ const calculateTaskPositions = (tasks: KanbanTask[]) => {
   return positions;
 };
 
-// Create edges based on task workflow progression and logical connections
-const createTaskEdges = (tasks: KanbanTask[]): Edge[] => {
-  const edges: Edge[] = [];
-  
-  // Sort tasks by creation date to establish logical flow
-  const sortedTasks = [...tasks].sort((a, b) => 
-    new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
-  );
-  
-  const statusOrder = ['todo', 'in-progress', 'review', 'done'];
-  const tasksByStatus = tasks.reduce((acc, task) => {
-    if (!acc[task.status]) acc[task.status] = [];
-    acc[task.status].push(task);
-    return acc;
-  }, {} as Record<string, KanbanTask[]>);
+// One edge per finish-to-start dependency (predecessor -> successor)
+const createDependencyEdges = (
+  dependencies: TaskDependency[],
+  tasks: KanbanTask[],
+  criticalDependencyIds: string[]
+): Edge[] => {
+  const statusById = new Map(tasks.map(task => [task.id, task.status]));
 
-  // Strategy 1: Connect tasks within same status (workflow continuation)
-  Object.entries(tasksByStatus).forEach(([status, statusTasks]) => {
-    if (statusTasks.length > 1) {
-      // Sort by creation date within status
-      const sortedStatusTasks = statusTasks.sort((a, b) => 
-        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
-      );
-      
-      for (let i = 0; i < sortedStatusTasks.length - 1; i++) {
-        edges.push({
-          id: `${sortedStatusTasks[i].id}-${sortedStatusTasks[i + 1].id}`,
-          source: sortedStatusTasks[i].id,
-          target: sortedStatusTasks[i + 1].id,
-          type: 'smoothstep',
-          animated: status === 'done',
-          style: { 
-            stroke: status === 'done' ? '#22c55e' : '#94a3b8', 
-            strokeWidth: status === 'done' ? 3 : 2,
-            strokeDasharray: status === 'done' ? '0' : '5,5'
-          }
-        });
-      }
-    }
-  });
+  return dependencies
+    .filter(dep => statusById.has(dep.predecessorId) && statusById.has(dep.successorId))
+    .map(dep => {
+      const isCritical = criticalDependencyIds.includes(dep.id);
+      const isSatisfied = statusById.get(dep.predecessorId) === 'done';
+      const color = isCritical ? '#ef4444' : isSatisfied ? '#22c55e' : '#64748b';
 
-  // Strategy 2: Connect tasks across status progression
-  statusOrder.forEach((status, index) => {
-    if (index < statusOrder.length - 1) {
-      const currentTasks = tasksByStatus[status] || [];
-      const nextTasks = tasksByStatus[statusOrder[index + 1]] || [];
-      
-      if (currentTasks.length > 0 && nextTasks.length > 0) {
-        // Connect tasks based on priority and creation time
-        currentTasks.forEach((currentTask, i) => {
-          const nextTask = nextTasks[i % nextTasks.length]; // Cycle through next status tasks
-          
-          edges.push({
-            id: `flow-${currentTask.id}-${nextTask.id}`,
-            source: currentTask.id,
-            target: nextTask.id,
-            type: 'smoothstep',
-            animated: nextTask.status === 'done',
-            style: { 
-              stroke: nextTask.status === 'done' ? '#22c55e' : '#64748b', 
-              strokeWidth: nextTask.status === 'done' ? 3 : 1.5,
-              opacity: 0.7
-            },
-            label: nextTask.status === 'done' ? '✓' : undefined
-          });
-        });
-      }
-    }
-  });
-
-  // Strategy 3: Connect tasks with same assignees (collaboration flow)
-  tasks.forEach(task => {
-    if (task.assignedMembers.length > 0) {
-      const relatedTasks = tasks.filter(otherTask => 
-        otherTask.id !== task.id && 
-        otherTask.assignedMembers.some(member => task.assignedMembers.includes(member))
-      );
-      
-      relatedTasks.slice(0, 1).forEach(relatedTask => { // Limit to prevent too many edges
-        edges.push({
-          id: `collab-${task.id}-${relatedTask.id}`,
-          source: task.id,
-          target: relatedTask.id,
-          type: 'straight',
-          animated: false,
-          style: { 
-            stroke: '#8b5cf6', 
-            strokeWidth: 1,
-            strokeDasharray: '3,3',
-            opacity: 0.4
-          }
-        });
-      });
-    }
-  });
-
-  return edges;
+      return {
+        id: dep.id,
+        source: dep.predecessorId,
+        target: dep.successorId,
+        type: 'smoothstep',
+        animated: !isSatisfied,
+        markerEnd: { type: MarkerType.ArrowClosed, color },
+        style: {
+          stroke: color,
+          strokeWidth: isCritical ? 3 : 2,
+          strokeDasharray: isSatisfied || isCritical ? '0' : '5,5'
+        }
+      };
+    });
 };
 
+const EMPTY_CRITICAL_PATH: CriticalPath = { taskIds: [], dependencyIds: [], totalHours: 0 };
+
 export function TaskFlowView({ workflow, tasks, teamMembers, onClose }: TaskFlowViewProps) {
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const [dependencies, setDependencies] = useState<TaskDependency[]>([]);
+  const [criticalPath, setCriticalPath] = useState<CriticalPath>(EMPTY_CRITICAL_PATH);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDependencies = useCallback(async () => {
+    try {
+      const result = await workflowService.getTaskDependencies(workflow.id);
+      setDependencies(result.dependencies);
+      setCriticalPath(result.criticalPath);
+    } catch (err) {
+      console.error('Failed to load task dependencies:', err);
+      setError('Failed to load task dependencies');
+    }
+  }, [workflow.id]);
+
+  useEffect(() => {
+    loadDependencies();
+  }, [loadDependencies]);
   
   // Convert tasks to React Flow nodes
   const initialNodes: Node[] = useMemo(() => {
@@ -179,19 +135,60 @@ export function TaskFlowView({ workflow, tasks, teamMembers, onClose }: TaskFlow
       position: positions[index],
       data: {
         task,
-        teamMembers
+        teamMembers,
+        isCritical: criticalPath.taskIds.includes(task.id)
       } satisfies TaskNodeData,
     }));
-  }, [tasks, teamMembers]);
+  }, [tasks, teamMembers, criticalPath]);
 
-  // Create edges between tasks
+  // Create edges from the stored dependencies
   const initialEdges: Edge[] = useMemo(() => {
-    return createTaskEdges(tasks);
-  }, [tasks]);
+    return createDependencyEdges(dependencies, tasks, criticalPath.dependencyIds);
+  }, [dependencies, tasks, criticalPath]);
 
   const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
   const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
 
+  useEffect(() => {
+    setEdges(initialEdges);
+  }, [initialEdges, setEdges]);
+
+  // Keep dragged positions, only refresh the critical-path flag
+  useEffect(() => {
+    setNodes(current => current.map(node => ({
+      ...node,
+      data: { ...node.data, isCritical: criticalPath.taskIds.includes(node.id) }
+    })));
+  }, [criticalPath, setNodes]);
+
+  // Dragging from one task to another makes the target depend on the source
+  const handleConnect = useCallback(async (connection: Connection) => {
+    if (!connection.source || !connection.target) return;
+    try {
+      await taskService.addDependency(connection.target, connection.source);
+      setError(null);
+      await loadDependencies();
+    } catch (err) {
+      console.error('Failed to add task dependency:', err);
+      const message = err instanceof ApiError && err.status === 409
+        ? JSON.parse(err.message).error
+        : 'Failed to add dependency';
+      setError(message);
+    }
+  }, [loadDependencies]);
+
+  const handleEdgesDelete = useCallback(async (deleted: Edge[]) => {
+    try {
+      await Promise.all(deleted.map(edge => taskService.removeDependency(edge.target, edge.id)));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to remove task dependency:', err);
+      setError('Failed to remove dependency');
+    } finally {
+      await loadDependencies();
+    }
+  }, [loadDependencies]);
+
   const handleExport = useCallback(() => {
     const exportData = {
       workflow: workflow.name,
@@ -249,7 +246,10 @@ export function TaskFlowView({ workflow, tasks, teamMembers, onClose }: TaskFlow
         <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-gradient-to-r from-primary to-accent text-white">
           <div>
             <h2 className="text-xl font-semibold">{workflow.name} - Task Flow</h2>
-            <p className="text-white/80 text-sm">Visual representation of {tasks.length} tasks in workflow</p>
+            <p className="text-white/80 text-sm">
+              {tasks.length} tasks, {dependencies.length} dependencies
+              {criticalPath.taskIds.length > 1 && ` · critical path ${criticalPath.totalHours}h across ${criticalPath.taskIds.length} tasks`}
+            </p>
           </div>
           
           <div className="flex items-center gap-1.5">
@@ -303,21 +303,27 @@ export function TaskFlowView({ workflow, tasks, teamMembers, onClose }: TaskFlow
           </div>
           
           <div className="flex items-center gap-4">
-            <span className="font-medium text-gray-700">Connections:</span>
+            <span className="font-medium text-gray-700">Dependencies:</span>
             <div className="flex items-center gap-2">
               <div className="w-4 h-0.5 bg-green-500" />
-              <span className="text-gray-600">Completed</span>
+              <span className="text-gray-600">Satisfied</span>
             </div>
             <div className="flex items-center gap-2">
-              <div className="w-4 h-0.5 bg-gray-400" style={{ backgroundImage: 'repeating-linear-gradient(to right, #94a3b8, #94a3b8 3px, transparent 3px, transparent 6px)' }} />
-              <span className="text-gray-600">In Progress</span>
+              <div className="w-4 h-0.5 bg-gray-400" style={{ backgroundImage: 'repeating-linear-gradient(to right, #64748b, #64748b 3px, transparent 3px, transparent 6px)' }} />
+              <span className="text-gray-600">Blocking</span>
             </div>
             <div className="flex items-center gap-2">
-              <div className="w-4 h-0.5 bg-purple-500" style={{ backgroundImage: 'repeating-linear-gradient(to right, #8b5cf6, #8b5cf6 2px, transparent 2px, transparent 4px)' }} />
-              <span className="text-gray-600">Collaboration</span>
+              <div className="w-4 h-1 bg-red-500" />
+              <span className="text-gray-600">Critical path</span>
             </div>
           </div>
+
+          <span className="text-gray-500">Drag between tasks to add a dependency; select an edge and press Backspace to remove it.</span>
         </div>
+
+        {error && (
+          <div className="px-4 py-2 bg-red-50 border-b border-red-200 text-red-700 text-sm">{error}</div>
+        )}
         
         {/* Flow Viewport */}
         <div className="flex-1 relative">
@@ -327,6 +333,8 @@ export function TaskFlowView({ workflow, tasks, teamMembers, onClose }: TaskFlow
             nodeTypes={nodeTypes}
             onNodesChange={onNodesChange}
             onEdgesChange={onEdgesChange}
+            onConnect={handleConnect}
+            onEdgesDelete={handleEdgesDelete}
             fitView
             attributionPosition="bottom-left"
             proOptions={{ hideAttribution: true }}
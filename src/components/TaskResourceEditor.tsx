@@ -1,5 +1,4 @@
 import React, { useState, useRef, useEffect } from 'react';
-import ReactQuill from 'react-quill';
 import 'react-quill/dist/quill.snow.css';
 import '../styles/quill-custom.css';
 import { 
@@ -7,7 +6,6 @@ import {
   Link2, 
   Image, 
   FileText, 
-  Save, 
   Upload,
   Trash2,
   ExternalLink,
@@ -15,10 +13,16 @@ import {
   Plus,
   Edit2,
   Menu,
-  ChevronLeft
+  ChevronLeft,
+  UserCheck,
+  History
 } from 'lucide-react';
 import { KanbanTask } from '../types';
-import { taskResourceService, TaskResource } from '../services/taskResourceService';
+import { taskResourceService, TaskResource, StorageUsage, fileUrl } from '../services/taskResourceService';
+import { ApiError } from '../services/api';
+import { usePermissions } from '../hooks/usePermissions';
+import { DocumentHistory } from './DocumentHistory';
+import { CollaborativeDocument } from './CollaborativeDocument';
 
 interface TaskResourceEditorProps {
   task: KanbanTask;
@@ -27,11 +31,20 @@ interface TaskResourceEditorProps {
   onSave?: (taskId: string, resources: TaskResource[]) => void;
 }
 
+// The API explains a refused upload (too large, over quota, a program) in an { error } body
+const apiErrorMessage = (err: unknown, fallback: string) => {
+  if (!(err instanceof ApiError) || ![400, 413, 415].includes(err.status)) return fallback;
+  try {
+    const body = JSON.parse(err.message) as { error?: string };
+    return body.error || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
 export function TaskResourceEditor({ task, isOpen, onClose, onSave }: TaskResourceEditorProps) {
   const [resources, setResources] = useState<TaskResource[]>([]);
   const [activeResource, setActiveResource] = useState<TaskResource | null>(null);
-  const [editorContent, setEditorContent] = useState('');
-  const [isEditing, setIsEditing] = useState(false);
   const [isEditingTitle, setIsEditingTitle] = useState(false);
   const [editableTitle, setEditableTitle] = useState('');
   const [editingSidebarResourceId, setEditingSidebarResourceId] = useState<string | null>(null);
@@ -42,29 +55,13 @@ export function TaskResourceEditor({ task, isOpen, onClose, onSave }: TaskResour
   const [showLinkDialog, setShowLinkDialog] = useState(false);
   const [loading, setLoading] = useState(false);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false); // Default to closed on mobile
+  const [uploadingCount, setUploadingCount] = useState(0);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
   
-  const quillRef = useRef<ReactQuill>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-
-  // Quill modules configuration
-  const modules = {
-    toolbar: [
-      [{ 'header': ['1', '2', '3', false] }],
-      ['bold', 'italic', 'underline'],
-      [{ 'list': 'ordered'}, { 'list': 'bullet' }],
-      ['blockquote', 'code-block'],
-      ['link', 'image'],
-      [{ 'align': [] }],
-      [{ 'color': [] }, { 'background': [] }],
-      ['clean']
-    ],
-  };
-
-  const formats = [
-    'header', 'bold', 'italic', 'underline',
-    'list', 'bullet', 'blockquote', 'code-block',
-    'link', 'image', 'align', 'color', 'background'
-  ];
+  const { can } = usePermissions();
 
   // Close sidebar when clicking outside on mobile
   useEffect(() => {
@@ -85,43 +82,23 @@ export function TaskResourceEditor({ task, isOpen, onClose, onSave }: TaskResour
   useEffect(() => {
     if (isOpen && task) {
       loadResources();
+      loadStorageUsage();
     }
   }, [isOpen, task]);
 
-  // Update editor content when active resource changes
-  useEffect(() => {
-    if (activeResource) {
-      setEditorContent(activeResource.content || '');
-    }
-  }, [activeResource]);
+  const documentId = activeResource?.type === 'document' ? activeResource.id : null;
 
-  // Add keyboard shortcut for saving (Cmd+S / Ctrl+S)
+  // The history only belongs to documents
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if ((e.metaKey || e.ctrlKey) && e.key === 's' && activeResource?.type === 'document' && isEditing) {
-        e.preventDefault();
-        handleSaveResource();
-      }
-    };
-
-    if (isOpen) {
-      document.addEventListener('keydown', handleKeyDown);
-      return () => document.removeEventListener('keydown', handleKeyDown);
-    }
-  }, [isOpen, activeResource, isEditing]);
+    if (!documentId) setShowHistory(false);
+  }, [documentId]);
 
   const loadResources = async () => {
     try {
       setLoading(true);
       const taskResources = await taskResourceService.getTaskResources(task.id);
       setResources(taskResources);
-      if (taskResources.length > 0) {
-        setActiveResource(taskResources[0]);
-        setEditorContent(taskResources[0].content || '');
-      } else {
-        setActiveResource(null);
-        setEditorContent('');
-      }
+      setActiveResource(taskResources[0] || null);
     } catch (error) {
       console.error('Failed to load task resources:', error);
     } finally {
@@ -129,54 +106,11 @@ export function TaskResourceEditor({ task, isOpen, onClose, onSave }: TaskResour
     }
   };
 
-  const handleContentChange = (content: string) => {
-    setEditorContent(content);
-    setIsEditing(true);
-  };
-
-  const handleSaveResource = async () => {
-    if (!activeResource) return;
-
+  const loadStorageUsage = async () => {
     try {
-      // Filter out null/undefined values to avoid validation errors
-      const updateData = {
-        type: activeResource.type,
-        title: activeResource.title,
-        content: editorContent,
-        ...(activeResource.url && { url: activeResource.url }),
-        ...(activeResource.fileName && { fileName: activeResource.fileName }),
-        ...(activeResource.fileSize !== undefined && activeResource.fileSize !== null && { fileSize: activeResource.fileSize }),
-        ...(activeResource.mimeType && { mimeType: activeResource.mimeType })
-      };
-      
-      const updatedResource = await taskResourceService.updateTaskResource(
-        task.id,
-        activeResource.id,
-        updateData
-      );
-
-      const updatedResources = resources.map(r => 
-        r.id === activeResource.id ? updatedResource : r
-      );
-
-      setResources(updatedResources);
-      setActiveResource(updatedResource);
-      setIsEditing(false);
-      
-      // Call optional onSave callback
-      onSave?.(task.id, updatedResources);
+      setStorageUsage(await taskResourceService.getStorageUsage());
     } catch (error) {
-      console.error('Failed to save resource:', error);
-      
-      // Show user-friendly error message
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      if (errorMessage.includes('Task not found') || errorMessage.includes('Resource not found')) {
-        alert('Error: This task or resource no longer exists. Please refresh the page and try again.');
-      } else if (errorMessage.includes('request entity too large')) {
-        alert('Error: The document is too large to save. Please reduce the content size.');
-      } else {
-        alert('Error: Failed to save the document. Please try again.');
-      }
+      console.error('Failed to load storage usage:', error);
     }
   };
 
@@ -184,11 +118,11 @@ export function TaskResourceEditor({ task, isOpen, onClose, onSave }: TaskResour
     if (!activeResource || !editableTitle.trim()) return;
 
     try {
-      // Filter out null/undefined values to avoid validation errors
+      // Filter out null/undefined values to avoid validation errors; a document's content is
+      // edited live and left alone
       const updateData = {
         type: activeResource.type,
         title: editableTitle.trim(),
-        ...(activeResource.content && { content: activeResource.content }),
         ...(activeResource.url && { url: activeResource.url }),
         ...(activeResource.fileName && { fileName: activeResource.fileName }),
         ...(activeResource.fileSize !== undefined && activeResource.fileSize !== null && { fileSize: activeResource.fileSize }),
@@ -217,6 +151,26 @@ export function TaskResourceEditor({ task, isOpen, onClose, onSave }: TaskResour
     }
   };
 
+  // A restored revision is saved as the document's newest one; the history stays open on it
+  const handleRevisionRestored = (updatedResource: TaskResource) => {
+    const updatedResources = resources.map(r => (r.id === updatedResource.id ? updatedResource : r));
+    setResources(updatedResources);
+    setActiveResource(updatedResource);
+    onSave?.(task.id, updatedResources);
+  };
+
+  // Someone restored a revision of the open document or saved it outside the live editor
+  const handleDocumentReplaced = async () => {
+    if (!activeResource) return;
+    try {
+      const updatedResource = await taskResourceService.getTaskResource(task.id, activeResource.id);
+      setResources(prev => prev.map(r => (r.id === updatedResource.id ? updatedResource : r)));
+      setActiveResource(current => (current?.id === updatedResource.id ? updatedResource : current));
+    } catch (error) {
+      console.error('Failed to reload document:', error);
+    }
+  };
+
   const handleStartEditingTitle = () => {
     if (activeResource) {
       setEditableTitle(activeResource.title);
@@ -241,11 +195,11 @@ export function TaskResourceEditor({ task, isOpen, onClose, onSave }: TaskResour
       const resource = resources.find(r => r.id === resourceId);
       if (!resource) return;
 
-      // Filter out null/undefined values to avoid validation errors
+      // Filter out null/undefined values to avoid validation errors; a document's content is
+      // edited live and left alone
       const updateData = {
         type: resource.type,
         title: sidebarEditTitle.trim(),
-        ...(resource.content && { content: resource.content }),
         ...(resource.url && { url: resource.url }),
         ...(resource.fileName && { fileName: resource.fileName }),
         ...(resource.fileSize !== undefined && resource.fileSize !== null && { fileSize: resource.fileSize }),
@@ -295,8 +249,6 @@ export function TaskResourceEditor({ task, isOpen, onClose, onSave }: TaskResour
       const updatedResources = [...resources, newResource];
       setResources(updatedResources);
       setActiveResource(newResource);
-      setEditorContent(newResource.content || '');
-      setIsEditing(true);
       setShowAddMenu(false);
       
       // Call optional onSave callback
@@ -331,32 +283,37 @@ export function TaskResourceEditor({ task, isOpen, onClose, onSave }: TaskResour
     }
   };
 
+  // Uploads the selected files one after another; a refused file doesn't stop the others
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    try {
-      // In a real implementation, you'd upload the file to a storage service
-      // and get back a URL. For now, we'll store the file name and metadata
-      const newResource = await taskResourceService.createTaskResource(task.id, {
-        type: 'file',
-        title: file.name,
-        fileName: file.name,
-        fileSize: file.size,
-        mimeType: file.type,
-        // url: fileUploadUrl // This would be the actual file URL from your storage service
-      });
+    const files = Array.from(event.target.files || []);
+    event.target.value = ''; // so the same file can be picked again
+    if (files.length === 0) return;
+
+    setShowAddMenu(false);
+    setUploadError(null);
+    setUploadingCount(files.length);
+
+    let updatedResources = resources;
+    const errors: string[] = [];
+    for (const file of files) {
+      try {
+        const newResource = await taskResourceService.uploadFile(task.id, file);
+        updatedResources = [...updatedResources, newResource];
+        setResources(updatedResources);
+        setActiveResource(newResource);
+      } catch (error) {
+        console.error('Failed to upload file:', error);
+        errors.push(`${file.name}: ${apiErrorMessage(error, 'Upload failed')}`);
+      }
+      setUploadingCount(count => count - 1);
+    }
 
-      const updatedResources = [...resources, newResource];
-      setResources(updatedResources);
-      setActiveResource(newResource);
-      setShowAddMenu(false);
-      
+    if (errors.length > 0) setUploadError(errors.join('\n'));
+    if (updatedResources !== resources) {
       // Call optional onSave callback
       onSave?.(task.id, updatedResources);
-    } catch (error) {
-      console.error('Failed to upload file:', error);
     }
+    loadStorageUsage();
   };
 
   const handleDeleteResource = async (resourceId: string) => {
@@ -368,21 +325,41 @@ export function TaskResourceEditor({ task, isOpen, onClose, onSave }: TaskResour
       
       if (activeResource?.id === resourceId) {
         setActiveResource(updatedResources[0] || null);
-        setEditorContent(updatedResources[0]?.content || '');
       }
       
       // Call optional onSave callback
       onSave?.(task.id, updatedResources);
+      if (resources.find(r => r.id === resourceId)?.isUpload) loadStorageUsage();
     } catch (error) {
       console.error('Failed to delete resource:', error);
     }
   };
 
+  // Shared resources show up in the client portal once the task itself is visible there
+  const handleToggleClientSharing = async (resource: TaskResource) => {
+    try {
+      const updated = await taskResourceService.setSharedWithClient(task.id, resource.id, !resource.sharedWithClient);
+
+      const updatedResources = resources.map(r =>
+        r.id === resource.id ? { ...r, sharedWithClient: updated.sharedWithClient } : r
+      );
+      setResources(updatedResources);
+
+      if (activeResource?.id === resource.id) {
+        setActiveResource({ ...activeResource, sharedWithClient: updated.sharedWithClient });
+      }
+
+      // Call optional onSave callback
+      onSave?.(task.id, updatedResources);
+    } catch (error) {
+      console.error('Failed to update resource sharing:', error);
+    }
+  };
+
   const handleResourceSelect = (resource: TaskResource) => {
     if (editingSidebarResourceId !== resource.id) {
       setActiveResource(resource);
-      setEditorContent(resource.content || '');
-      setIsEditing(false);
+      setShowHistory(false);
       // Close sidebar on mobile after selection
       if (window.innerWidth < 1024) {
         setIsSidebarOpen(false);
@@ -479,6 +456,18 @@ export function TaskResourceEditor({ task, isOpen, onClose, onSave }: TaskResour
             )}
           </div>
 
+          {activeResource?.type === 'document' && (
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              className={`mr-2 h-8 sm:h-10 px-3 rounded-lg sm:rounded-xl flex items-center gap-2 text-sm transition-colors duration-200 shrink-0 ${
+                showHistory ? 'bg-primary text-white' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+              }`}
+              title="Version history"
+            >
+              <History className="w-4 h-4" />
+              <span className="hidden sm:inline">History</span>
+            </button>
+          )}
           <button
             onClick={onClose}
             className="w-8 h-8 sm:w-10 sm:h-10 bg-gray-100 hover:bg-gray-200 rounded-lg sm:rounded-xl flex items-center justify-center transition-colors duration-200 shrink-0"
@@ -545,6 +534,25 @@ export function TaskResourceEditor({ task, isOpen, onClose, onSave }: TaskResour
                   </div>
                 )}
               </div>
+              {uploadingCount > 0 && (
+                <p className="text-xs text-gray-600 mt-3 flex items-center gap-2">
+                  <span className="loading-spinner"></span>
+                  Uploading {uploadingCount} {uploadingCount === 1 ? 'file' : 'files'}...
+                </p>
+              )}
+              {uploadError && (
+                <div className="mt-3 text-xs text-red-600 flex items-start gap-2">
+                  <p className="flex-1 whitespace-pre-line break-words">{uploadError}</p>
+                  <button onClick={() => setUploadError(null)} className="shrink-0 hover:text-red-800" title="Dismiss">
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              )}
+              {storageUsage && (
+                <p className="text-xs text-gray-500 mt-3" title={`Files can be up to ${formatFileSize(storageUsage.maxFileSize)} each`}>
+                  {formatFileSize(storageUsage.used)} of {formatFileSize(storageUsage.quota)} workspace storage used
+                </p>
+              )}
             </div>
 
             <div className="flex-1 overflow-y-auto p-4 space-y-2">
@@ -583,7 +591,11 @@ export function TaskResourceEditor({ task, isOpen, onClose, onSave }: TaskResour
                         <div className={`shrink-0 ${
                           activeResource?.id === resource.id ? 'text-white' : 'text-gray-600'
                         }`}>
-                          {getResourceIcon(resource.type)}
+                          {resource.thumbnailUrl ? (
+                            <img src={fileUrl(resource.thumbnailUrl)} alt="" className="w-8 h-8 rounded object-cover" />
+                          ) : (
+                            getResourceIcon(resource.type)
+                          )}
                         </div>
                         <div className="flex-1 min-w-0">
                           {editingSidebarResourceId === resource.id ? (
@@ -645,7 +657,7 @@ export function TaskResourceEditor({ task, isOpen, onClose, onSave }: TaskResour
                           <p className={`text-xs mt-1 ${
                             activeResource?.id === resource.id ? 'text-white/70' : 'text-gray-500'
                           }`}>
-                            {resource.type === 'file' && resource.fileSize
+                            {(resource.type === 'file' || resource.isUpload) && resource.fileSize
                               ? formatFileSize(resource.fileSize)
                               : new Date(resource.updatedAt).toLocaleDateString()
                             }
@@ -653,6 +665,22 @@ export function TaskResourceEditor({ task, isOpen, onClose, onSave }: TaskResour
                         </div>
                       </div>
                       <div className="flex items-center gap-1 shrink-0">
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleToggleClientSharing(resource);
+                          }}
+                          title={resource.sharedWithClient ? 'Shared with client – click to stop sharing' : 'Share with client'}
+                          className={`transition-opacity duration-200 p-1 rounded-lg ${
+                            resource.sharedWithClient ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+                          } ${
+                            activeResource?.id === resource.id
+                              ? 'text-white hover:bg-white/20'
+                              : resource.sharedWithClient ? 'text-green-600 hover:bg-green-100' : 'text-gray-500 hover:bg-gray-100'
+                          }`}
+                        >
+                          <UserCheck className="w-3 h-3" />
+                        </button>
                         <button
                           onClick={(e) => {
                             e.stopPropagation();
@@ -678,40 +706,21 @@ export function TaskResourceEditor({ task, isOpen, onClose, onSave }: TaskResour
               <>
                 {/* Content Area */}
                 <div className="flex-1 flex flex-col overflow-hidden">
-                  {activeResource.type === 'document' ? (
-                    <div className="flex-1 flex flex-col relative overflow-hidden">
-                      <div className={`flex-1 overflow-hidden ${isEditing ? 'pb-20' : ''}`}>
-                        <div className={`quill-editor-container ${isEditing ? 'h-[calc(100%-80px)]' : 'h-full'} ${isEditing ? 'has-save-button' : ''}`}>
-                          <ReactQuill
-                            ref={quillRef}
-                            theme="snow"
-                            value={editorContent}
-                            onChange={handleContentChange}
-                            modules={modules}
-                            formats={formats}
-                            style={{ 
-                              height: '100%',
-                              display: 'flex',
-                              flexDirection: 'column'
-                            }}
-                          />
-                        </div>
-                      </div>
-                      {isEditing && (
-                        <div className="absolute bottom-0 left-0 right-0 p-3 sm:p-4 border-t border-gray-200 bg-gray-50 shadow-lg z-10 min-h-[60px]">
-                          <div className="flex items-center justify-between">
-                            <span className="text-sm text-gray-600">Unsaved changes</span>
-                            <button
-                              onClick={handleSaveResource}
-                              className="btn-primary text-sm"
-                            >
-                              <Save className="w-4 h-4" />
-                              <span className="hidden sm:inline ml-2">Save Document</span>
-                            </button>
-                          </div>
-                        </div>
-                      )}
-                    </div>
+                  {activeResource.type === 'document' && showHistory ? (
+                    <DocumentHistory
+                      taskId={task.id}
+                      document={activeResource}
+                      onRestored={handleRevisionRestored}
+                      onClose={() => setShowHistory(false)}
+                    />
+                  ) : activeResource.type === 'document' ? (
+                    // Remounted for a new generation, after the content was replaced
+                    <CollaborativeDocument
+                      key={`${activeResource.id}-${activeResource.collabGeneration || 0}`}
+                      document={activeResource}
+                      readOnly={!can('tasks:update')}
+                      onReplaced={handleDocumentReplaced}
+                    />
                   ) : activeResource.type === 'link' ? (
                     <div className="flex-1 flex items-center justify-center p-4 sm:p-6">
                       <div className="text-center max-w-md">
@@ -734,17 +743,39 @@ export function TaskResourceEditor({ task, isOpen, onClose, onSave }: TaskResour
                   ) : (
                     <div className="flex-1 flex items-center justify-center p-4 sm:p-6">
                       <div className="text-center max-w-md">
-                        <div className="w-12 h-12 sm:w-16 sm:h-16 bg-gray-100 rounded-2xl flex items-center justify-center mx-auto mb-4">
-                          {getResourceIcon(activeResource.type)}
-                        </div>
+                        {activeResource.thumbnailUrl && activeResource.downloadUrl ? (
+                          <a href={fileUrl(activeResource.downloadUrl)} target="_blank" rel="noopener noreferrer" className="block mb-4">
+                            <img
+                              src={fileUrl(activeResource.thumbnailUrl)}
+                              alt={activeResource.title}
+                              className="max-h-64 mx-auto rounded-xl shadow"
+                            />
+                          </a>
+                        ) : (
+                          <div className="w-12 h-12 sm:w-16 sm:h-16 bg-gray-100 rounded-2xl flex items-center justify-center mx-auto mb-4">
+                            {getResourceIcon(activeResource.type)}
+                          </div>
+                        )}
                         <h3 className="text-lg sm:text-xl font-bold text-gray-900 mb-2 break-words">{activeResource.title}</h3>
                         {activeResource.fileSize && (
-                          <p className="text-gray-600 mb-6 text-sm sm:text-base">{formatFileSize(activeResource.fileSize)}</p>
+                          <p className="text-gray-600 mb-6 text-sm sm:text-base">
+                            {activeResource.fileName && activeResource.fileName !== activeResource.title && `${activeResource.fileName} · `}
+                            {formatFileSize(activeResource.fileSize)}
+                          </p>
+                        )}
+                        {activeResource.downloadUrl || activeResource.url ? (
+                          <a
+                            href={activeResource.downloadUrl ? fileUrl(activeResource.downloadUrl) : activeResource.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="btn-primary text-sm sm:text-base"
+                          >
+                            <Download className="w-4 h-4" />
+                            <span className="ml-2">Download</span>
+                          </a>
+                        ) : (
+                          <p className="text-sm text-gray-500">Only the details of this file were saved; upload it again to store it.</p>
                         )}
-                        <button className="btn-primary text-sm sm:text-base">
-                          <Download className="w-4 h-4" />
-                          <span className="ml-2">Download</span>
-                        </button>
                       </div>
                     </div>
                   )}
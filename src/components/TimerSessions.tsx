@@ -82,6 +82,7 @@ export const TimerSessions: React.FC = () => {
       case 'resumed': return 'Resumed';
       case 'paused': return 'Paused';
       case 'stopped': return 'Stopped';
+      case 'discarded': return 'Discarded';
       default: return action;
     }
   };
@@ -10,8 +10,12 @@ import {
   Edit2,
   Trash2,
   Workflow as WorkflowIcon,
+  GitBranch,
+  Copy,
+  PiggyBank,
 } from 'lucide-react';
-import { Workflow, Client, KanbanTask } from '../types';
+import { Workflow, Client, KanbanTask, BudgetMetric } from '../types';
+import { BudgetMeter, BudgetForecast, BurnDownChart } from './BudgetBurn';
 
 interface WorkflowCardProps {
   workflow: Workflow;
@@ -20,6 +24,9 @@ interface WorkflowCardProps {
   onEdit: (workflow: Workflow) => void;
   onDelete: (workflow: Workflow) => void;
   onViewFlow: (workflow: Workflow) => void;
+  onDesignFlowchart: (workflow: Workflow) => void;
+  onSaveAsTemplate: (workflow: Workflow) => void;
+  onBudget: (workflow: Workflow) => void;
   onStatusChange: (workflowId: string, status: string) => void;
 }
 
@@ -30,6 +37,9 @@ export const WorkflowCard: React.FC<WorkflowCardProps> = ({
   onEdit,
   onDelete,
   onViewFlow,
+  onDesignFlowchart,
+  onSaveAsTemplate,
+  onBudget,
   onStatusChange
 }) => {
   const totalTasks = tasks.length;
@@ -64,6 +74,11 @@ export const WorkflowCard: React.FC<WorkflowCardProps> = ({
     }
   };
 
+  const budget = workflow.budget;
+  const budgetMetrics = budget?.burn
+    ? (['hours', 'amount'] as BudgetMetric[]).filter(metric => budget.burn?.[metric].limit !== null)
+    : [];
+
   const daysActive = Math.ceil((new Date().getTime() - new Date(workflow.createdAt).getTime()) / (1000 * 60 * 60 * 24));
 
   return (
@@ -124,6 +139,21 @@ export const WorkflowCard: React.FC<WorkflowCardProps> = ({
         </div>
       </div>
 
+      {/* Budget Section */}
+      {budget?.burn && budgetMetrics.length > 0 && (
+        <div className="p-6 border-b border-gray-100 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-700">Budget</span>
+            {budget.period === 'monthly' && <span className="text-xs text-gray-500">this month</span>}
+          </div>
+          {budgetMetrics.map(metric => (
+            <BudgetMeter key={metric} burn={budget.burn!} metric={metric} currency={budget.currency} />
+          ))}
+          <BurnDownChart burn={budget.burn} metric={budgetMetrics[0]} height={48} />
+          <BudgetForecast burn={budget.burn} metric={budgetMetrics[0]} currency={budget.currency} />
+        </div>
+      )}
+
       {/* Dates and Stats */}
       <div className="p-6">
         {/* Dates */}
@@ -151,7 +181,7 @@ export const WorkflowCard: React.FC<WorkflowCardProps> = ({
             <div className="text-xs text-gray-500 font-medium">Tasks</div>
           </div>
           <div className="text-center bg-gray-50 rounded-xl p-3">
-            <div className="text-xl font-bold text-gray-900">{workflow.connections?.length || 0}</div>
+            <div className="text-xl font-bold text-gray-900">{workflow.steps?.length || 0}</div>
             <div className="text-xs text-gray-500 font-medium">Steps</div>
           </div>
           <div className="text-center bg-gray-50 rounded-xl p-3">
@@ -182,6 +212,36 @@ export const WorkflowCard: React.FC<WorkflowCardProps> = ({
             <WorkflowIcon className="w-4 h-4" />
             <span className="hidden sm:inline">Flow</span>
           </button>
+          <button 
+            onClick={(e) => {
+              e.stopPropagation();
+              onDesignFlowchart(workflow);
+            }}
+            className="flex-1 flex items-center justify-center gap-2 px-3 py-2.5 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-xl text-sm font-medium transition-colors duration-200"
+          >
+            <GitBranch className="w-4 h-4" />
+            <span className="hidden sm:inline">Diagram</span>
+          </button>
+          <button 
+            onClick={(e) => {
+              e.stopPropagation();
+              onBudget(workflow);
+            }}
+            title="Budget"
+            className="p-2.5 text-gray-400 hover:text-secondary hover:bg-gray-100 rounded-xl transition-colors duration-200"
+          >
+            <PiggyBank className="w-4 h-4" />
+          </button>
+          <button 
+            onClick={(e) => {
+              e.stopPropagation();
+              onSaveAsTemplate(workflow);
+            }}
+            title="Save as template"
+            className="p-2.5 text-gray-400 hover:text-secondary hover:bg-gray-100 rounded-xl transition-colors duration-200"
+          >
+            <Copy className="w-4 h-4" />
+          </button>
           <button 
             onClick={(e) => {
               e.stopPropagation();
@@ -3,19 +3,22 @@ import {
   Plus,
   Workflow as WorkflowIcon,
   BarChart3,
-  Zap
+  Zap,
+  Copy
 } from 'lucide-react';
 
 interface WorkflowHeaderProps {
   totalWorkflows: number;
   activeWorkflows: number;
   onCreateWorkflow: () => void;
+  onOpenTemplates: () => void;
 }
 
 export const WorkflowHeader: React.FC<WorkflowHeaderProps> = ({
   totalWorkflows,
   activeWorkflows,
-  onCreateWorkflow
+  onCreateWorkflow,
+  onOpenTemplates
 }) => {
   return (
     <div className="relative overflow-hidden bg-gradient-to-r from-primary via-accent to-primary text-white pt-16 lg:pt-0">
@@ -50,6 +53,13 @@ export const WorkflowHeader: React.FC<WorkflowHeaderProps> = ({
           </div>
           
           <div className="flex items-center gap-3">
+            <button 
+              onClick={onOpenTemplates}
+              className="flex items-center gap-2 px-6 py-3 bg-white/10 hover:bg-white/20 text-white rounded-2xl font-semibold transition-all duration-200"
+            >
+              <Copy className="w-5 h-5" />
+              Templates
+            </button>
             <button 
               onClick={onCreateWorkflow}
               className="flex items-center gap-2 px-6 py-3 bg-tertiary hover:bg-tertiary/90 text-primary rounded-2xl font-semibold transition-all duration-200 shadow-xl hover:scale-105"
@@ -0,0 +1,358 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, Copy, Trash2, Calendar, ListChecks, Paperclip } from 'lucide-react';
+import { Client, Workflow, WorkflowTemplate } from '../types';
+import { workflowTemplateService } from '../services';
+
+interface WorkflowTemplatesModalProps {
+  clients: Client[];
+  isOpen: boolean;
+  onClose: () => void;
+  onInstantiated: (workflow: Workflow) => void;
+}
+
+interface SaveTemplateModalProps {
+  workflow: Workflow;
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: (template: WorkflowTemplate) => void;
+}
+
+const formatOffset = (days: number | null) => {
+  if (days === null) return 'No due date';
+  if (days === 0) return 'Due on start day';
+  return days > 0 ? `Due day +${days}` : `Due ${Math.abs(days)} days before start`;
+};
+
+const addDays = (isoDate: string, days: number) => {
+  const date = new Date(isoDate);
+  date.setDate(date.getDate() + days);
+  return date.toLocaleDateString();
+};
+
+export const WorkflowTemplatesModal: React.FC<WorkflowTemplatesModalProps> = ({
+  clients,
+  isOpen,
+  onClose,
+  onInstantiated
+}) => {
+  const [templates, setTemplates] = useState<WorkflowTemplate[]>([]);
+  const [selectedTemplate, setSelectedTemplate] = useState<WorkflowTemplate | null>(null);
+  const [clientId, setClientId] = useState('');
+  const [startDate, setStartDate] = useState(new Date().toISOString().split('T')[0]);
+  const [workflowName, setWorkflowName] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setTemplates(await workflowTemplateService.getAll());
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load workflow templates:', err);
+      setError('Failed to load templates');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadTemplates();
+      setSelectedTemplate(null);
+    }
+  }, [isOpen, loadTemplates]);
+
+  const handleSelect = async (templateId: string) => {
+    try {
+      const template = await workflowTemplateService.getById(templateId);
+      setSelectedTemplate(template);
+      setWorkflowName(template.name);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load workflow template:', err);
+      setError('Failed to load template');
+    }
+  };
+
+  const handleDelete = async (template: WorkflowTemplate) => {
+    if (!window.confirm(`Delete template "${template.name}"?`)) return;
+    try {
+      await workflowTemplateService.delete(template.id);
+      if (selectedTemplate?.id === template.id) setSelectedTemplate(null);
+      await loadTemplates();
+    } catch (err) {
+      console.error('Failed to delete workflow template:', err);
+      setError('Failed to delete template');
+    }
+  };
+
+  const handleInstantiate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedTemplate) return;
+    if (!clientId) {
+      setError('Client selection is required');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const workflow = await workflowTemplateService.instantiate(selectedTemplate.id, {
+        clientId,
+        startDate: new Date(startDate).toISOString(),
+        name: workflowName.trim() || undefined
+      });
+      onInstantiated(workflow);
+      onClose();
+    } catch (err) {
+      console.error('Failed to instantiate workflow template:', err);
+      setError('Failed to create workflow from template');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-gradient-to-r from-primary to-accent text-white">
+          <h2 className="text-xl font-semibold">Workflow Templates</h2>
+          <button onClick={onClose} className="p-1.5 hover:bg-white/10 rounded-lg transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded-xl text-sm">{error}</div>
+        )}
+
+        <div className="flex-1 grid grid-cols-1 md:grid-cols-5 min-h-0">
+          {/* Template list */}
+          <div className="md:col-span-2 border-r border-gray-200 overflow-y-auto p-4 space-y-2">
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading templates...</p>
+            ) : templates.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No templates yet. Use "Save as template" on a workflow card to create one.
+              </p>
+            ) : (
+              templates.map(template => (
+                <div
+                  key={template.id}
+                  onClick={() => handleSelect(template.id)}
+                  className={`p-3 rounded-xl border cursor-pointer transition-colors duration-200 ${
+                    selectedTemplate?.id === template.id
+                      ? 'border-secondary bg-secondary/5'
+                      : 'border-gray-200 hover:border-gray-300'
+                  }`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <h3 className="font-semibold text-gray-900 truncate">{template.name}</h3>
+                      {template.description && (
+                        <p className="text-xs text-gray-600 line-clamp-2">{template.description}</p>
+                      )}
+                    </div>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(template);
+                      }}
+                      className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <div className="flex items-center gap-3 mt-2 text-xs text-gray-500">
+                    <span className="flex items-center gap-1">
+                      <ListChecks className="w-3.5 h-3.5" />
+                      {template.taskCount} tasks
+                    </span>
+                    {template.durationDays !== null && (
+                      <span className="flex items-center gap-1">
+                        <Calendar className="w-3.5 h-3.5" />
+                        {template.durationDays} days
+                      </span>
+                    )}
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* Template detail + instantiate form */}
+          <div className="md:col-span-3 overflow-y-auto p-6">
+            {selectedTemplate ? (
+              <form onSubmit={handleInstantiate} className="space-y-5">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="form-label">Client *</label>
+                    <select
+                      value={clientId}
+                      onChange={(e) => setClientId(e.target.value)}
+                      className="form-input"
+                    >
+                      <option value="">Select a client</option>
+                      {clients.filter(c => c.isActive).map(client => (
+                        <option key={client.id} value={client.id}>
+                          {client.company} - {client.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="form-label">Start Date *</label>
+                    <input
+                      type="date"
+                      value={startDate}
+                      onChange={(e) => setStartDate(e.target.value)}
+                      className="form-input"
+                      required
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="form-label">Workflow Name</label>
+                  <input
+                    type="text"
+                    value={workflowName}
+                    onChange={(e) => setWorkflowName(e.target.value)}
+                    className="form-input"
+                  />
+                </div>
+
+                <div>
+                  <h4 className="text-sm font-semibold text-gray-700 mb-2">
+                    Tasks ({selectedTemplate.tasks.length})
+                  </h4>
+                  <div className="space-y-2 max-h-72 overflow-y-auto">
+                    {selectedTemplate.tasks.map(task => (
+                      <div key={task.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-xl text-sm">
+                        <div className="min-w-0">
+                          <div className="font-medium text-gray-900 truncate">{task.title}</div>
+                          <div className="flex items-center gap-2 text-xs text-gray-500">
+                            <span className="capitalize">{task.priority}</span>
+                            {task.tags.length > 0 && <span>{task.tags.join(', ')}</span>}
+                            {task.resources.length > 0 && (
+                              <span className="flex items-center gap-1">
+                                <Paperclip className="w-3 h-3" />
+                                {task.resources.length}
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                        <div className="text-xs text-gray-600 text-right flex-shrink-0 ml-3">
+                          <div>{formatOffset(task.dueOffsetDays)}</div>
+                          {task.dueOffsetDays !== null && startDate && (
+                            <div className="text-gray-400">{addDays(startDate, task.dueOffsetDays)}</div>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-end gap-3 pt-2">
+                  <button type="button" onClick={onClose} className="btn-outline">
+                    Cancel
+                  </button>
+                  <button type="submit" disabled={isSubmitting} className="btn-primary">
+                    {isSubmitting ? 'Creating...' : 'Create Workflow'}
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <div className="h-full flex flex-col items-center justify-center text-center text-gray-500">
+                <Copy className="w-10 h-10 mb-3 text-gray-300" />
+                <p>Select a template to preview its tasks and create a workflow for a client.</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const SaveTemplateModal: React.FC<SaveTemplateModalProps> = ({ workflow, isOpen, onClose, onSaved }) => {
+  const [name, setName] = useState(workflow.name);
+  const [description, setDescription] = useState(workflow.description || '');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError('Template name is required');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const template = await workflowTemplateService.createFromWorkflow({
+        workflowId: workflow.id,
+        name: name.trim(),
+        description: description.trim()
+      });
+      onSaved(template);
+      onClose();
+    } catch (err) {
+      console.error('Failed to save workflow template:', err);
+      setError('Failed to save template');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-gradient-to-r from-primary to-accent text-white rounded-t-2xl">
+          <h2 className="text-xl font-semibold">Save as Template</h2>
+          <button onClick={onClose} className="p-1.5 hover:bg-white/10 rounded-lg transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          <p className="text-sm text-gray-600">
+            Tasks, tags, priorities, resources and due dates (relative to the workflow start) are copied into the template.
+          </p>
+          <div>
+            <label className="form-label">Template Name *</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={`form-input ${error ? 'form-input-error' : ''}`}
+            />
+            {error && <span className="form-error">{error}</span>}
+          </div>
+          <div>
+            <label className="form-label">Description</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              className="form-input resize-none"
+            />
+          </div>
+          <div className="flex items-center justify-end gap-3">
+            <button type="button" onClick={onClose} className="btn-outline">
+              Cancel
+            </button>
+            <button type="submit" disabled={isSubmitting} className="btn-primary">
+              {isSubmitting ? 'Saving...' : 'Save Template'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
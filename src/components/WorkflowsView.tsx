@@ -1,5 +1,5 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import {
   ReactFlow,
   Background,
@@ -18,15 +18,29 @@ import '../flowchart-nodes.css';
 
 import { 
   AlertTriangle,
+  Plus,
+  Trash2,
   X,
 } from 'lucide-react';
-import { Workflow, Client, TeamMember, WorkflowStep, KanbanTask } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Workflow,
+  Client,
+  TeamMember,
+  WorkflowStep,
+  WorkflowStepType,
+  WorkflowConnection,
+  KanbanTask
+} from '../types';
+import { workflowService } from '../services';
 import { nodeTypes } from '../nodes';
 import { TaskFlowView } from './TaskFlowView';
 import { WorkflowHeader } from './WorkflowHeader';
 import { WorkflowFilters } from './WorkflowFilters';
 import { WorkflowCard } from './WorkflowCard';
 import { EmptyState } from './EmptyState';
+import { WorkflowTemplatesModal, SaveTemplateModal } from './WorkflowTemplatesModal';
+import { BudgetModal } from './BudgetModal';
 
 interface WorkflowsViewProps {
   workflows: Workflow[];
@@ -37,6 +51,9 @@ interface WorkflowsViewProps {
   onWorkflowEdit: (workflow: Workflow) => void;
   onWorkflowDelete: (workflowId: string) => void;
   onWorkflowStatusChange: (workflowId: string, status: string) => void;
+  onWorkflowGraphSaved: () => void;
+  onTemplateInstantiated: () => void;
+  onBudgetSaved: () => void;
   initialClientFilter?: string;
 }
 
@@ -67,72 +84,167 @@ interface DeleteModalProps {
 interface FlowchartViewProps {
   workflow: Workflow;
   onClose: () => void;
-  onWorkflowUpdate: (workflow: Workflow) => void;
+  onSaved: () => void;
 }
 
-const FlowchartView: React.FC<FlowchartViewProps> = ({ workflow, onClose, onWorkflowUpdate }) => {
-  // Handle workflows without steps/connections data from API
-  const steps = workflow.steps || [];
-  const connections = workflow.connections || [];
-  
-  // Convert workflow steps to React Flow nodes
-  const initialNodes: Node[] = steps.map((step) => ({
-    id: step.id,
-    type: step.type || 'process',
-    position: step.position || { x: 0, y: 0 },
-    data: { 
-      label: step.name,
-      description: step.description 
-    },
-  }));
+const STEP_TYPE_OPTIONS: { type: WorkflowStepType; label: string }[] = [
+  { type: 'start-end', label: 'Start / End' },
+  { type: 'process', label: 'Process' },
+  { type: 'decision', label: 'Decision' },
+  { type: 'input-output', label: 'Input / Output' },
+];
+
+// Decision nodes expose "yes" (right) and "no" (bottom) source handles
+const getDecisionLabel = (sourceHandle?: string | null) => {
+  if (sourceHandle === 'yes') return 'Yes';
+  if (sourceHandle === 'no') return 'No';
+  return undefined;
+};
 
-  // Convert workflow connections to React Flow edges
-  const initialEdges: Edge[] = connections.map((conn) => ({
-    id: conn.id,
-    source: conn.source,
-    target: conn.target,
-    sourceHandle: conn.sourceHandle,
-    targetHandle: conn.targetHandle,
-    label: conn.label,
-  }));
+const toNode = (step: WorkflowStep): Node => ({
+  id: step.id,
+  type: step.type || 'process',
+  position: step.position || { x: 0, y: 0 },
+  data: {
+    label: step.name,
+    description: step.description
+  },
+});
+
+const toEdge = (conn: WorkflowConnection): Edge => ({
+  id: conn.id,
+  source: conn.source,
+  target: conn.target,
+  sourceHandle: conn.sourceHandle,
+  targetHandle: conn.targetHandle,
+  label: conn.label,
+});
+
+const FlowchartView: React.FC<FlowchartViewProps> = ({ workflow, onClose, onSaved }) => {
+  const [nodes, setNodes, onNodesChange] = useNodesState<Node>([]);
+  const [edges, setEdges, onEdgesChange] = useEdgesState<Edge>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the persisted graph when the editor opens
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadGraph = async () => {
+      try {
+        setIsLoading(true);
+        const graph = await workflowService.getGraph(workflow.id);
+        if (cancelled) return;
+        setNodes(graph.steps.map(toNode));
+        setEdges(graph.connections.map(toEdge));
+        setError(null);
+      } catch (err) {
+        console.error('Failed to load workflow flowchart:', err);
+        if (!cancelled) setError('Failed to load flowchart');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
 
-  const [nodes, onNodesChange] = useNodesState(initialNodes);
-  const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
+    loadGraph();
+    return () => {
+      cancelled = true;
+    };
+  }, [workflow.id, setNodes, setEdges]);
+
+  const selectedNode = nodes.find(node => node.selected);
+  const selectedEdge = edges.find(edge => edge.selected);
 
   const onConnect: OnConnect = useCallback(
-    (connection) => setEdges((edges) => addEdge(connection, edges)),
-    [setEdges]
+    (connection) => {
+      const sourceNode = nodes.find(node => node.id === connection.source);
+      const label = sourceNode?.type === 'decision' ? getDecisionLabel(connection.sourceHandle) : undefined;
+      setEdges((edges) => addEdge({ ...connection, id: uuidv4(), label }, edges));
+    },
+    [nodes, setEdges]
   );
 
-  const handleSave = useCallback(() => {
-    // Convert back to workflow format and save
-    const updatedSteps: WorkflowStep[] = nodes.map((node) => {
-      const originalStep = steps.find(s => s.id === node.id);
+  const handleAddStep = useCallback((type: WorkflowStepType) => {
+    const option = STEP_TYPE_OPTIONS.find(o => o.type === type);
+    const offset = nodes.length * 30;
+    setNodes((current) => [
+      ...current.map(node => ({ ...node, selected: false })),
+      {
+        id: uuidv4(),
+        type,
+        position: { x: 250 + offset, y: 50 + offset },
+        data: { label: option?.label || 'New Step', description: '' },
+        selected: true,
+      },
+    ]);
+  }, [nodes.length, setNodes]);
+
+  const updateSelectedNode = useCallback((changes: { label?: string; description?: string; type?: WorkflowStepType }) => {
+    setNodes((current) => current.map(node => {
+      if (!node.selected) return node;
       return {
-        ...originalStep!,
-        position: node.position,
-        name: (node.data as any).label,
-        description: (node.data as any).description || '',
+        ...node,
+        type: changes.type ?? node.type,
+        data: {
+          ...node.data,
+          ...(changes.label !== undefined && { label: changes.label }),
+          ...(changes.description !== undefined && { description: changes.description }),
+        },
       };
-    });
-
-    const updatedWorkflow: Workflow = {
-      ...workflow,
-      steps: updatedSteps,
-      connections: edges.map((edge) => ({
-        id: edge.id,
-        source: edge.source,
-        target: edge.target,
-        sourceHandle: edge.sourceHandle,
-        targetHandle: edge.targetHandle,
-        label: edge.label,
-      })),
-      updatedAt: new Date(),
-    };
+    }));
+  }, [setNodes]);
+
+  const updateSelectedEdgeLabel = useCallback((label: string) => {
+    setEdges((current) => current.map(edge => edge.selected ? { ...edge, label } : edge));
+  }, [setEdges]);
+
+  const handleDeleteSelection = useCallback(() => {
+    const removedNodeIds = new Set(nodes.filter(node => node.selected).map(node => node.id));
+    setNodes((current) => current.filter(node => !node.selected));
+    setEdges((current) => current.filter(edge =>
+      !edge.selected && !removedNodeIds.has(edge.source) && !removedNodeIds.has(edge.target)
+    ));
+  }, [nodes, setNodes, setEdges]);
+
+  const handleSave = useCallback(async () => {
+    const emptyNode = nodes.find(node => !String(node.data.label || '').trim());
+    if (emptyNode) {
+      setError('Every step needs a name');
+      return;
+    }
 
-    onWorkflowUpdate(updatedWorkflow);
-    onClose();
-  }, [nodes, edges, workflow, steps, onWorkflowUpdate, onClose]);
+    // Convert React Flow state back to workflow steps/connections
+    const steps: WorkflowStep[] = nodes.map((node) => ({
+      id: node.id,
+      name: String(node.data.label).trim(),
+      description: String(node.data.description || ''),
+      type: (node.type || 'process') as WorkflowStepType,
+      position: { x: Math.round(node.position.x), y: Math.round(node.position.y) },
+    }));
+
+    const connections: WorkflowConnection[] = edges.map((edge) => ({
+      id: edge.id,
+      source: edge.source,
+      target: edge.target,
+      sourceHandle: edge.sourceHandle ?? undefined,
+      targetHandle: edge.targetHandle ?? undefined,
+      label: typeof edge.label === 'string' && edge.label.trim() ? edge.label.trim() : undefined,
+    }));
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      await workflowService.saveGraph(workflow.id, { steps, connections });
+      onSaved();
+      onClose();
+    } catch (err) {
+      console.error('Failed to save workflow flowchart:', err);
+      setError('Failed to save flowchart');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [nodes, edges, workflow.id, onSaved, onClose]);
 
   return (
     <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
@@ -140,7 +252,7 @@ const FlowchartView: React.FC<FlowchartViewProps> = ({ workflow, onClose, onWork
         <div className="flex items-center justify-between p-6 border-b border-gray-200 bg-gradient-to-r from-primary to-accent text-white">
           <div>
             <h2 className="text-2xl font-bold">{workflow.name} - Flowchart</h2>
-            <p className="text-white/80">Design and visualize your workflow steps</p>
+            <p className="text-white/80">{error || 'Design and visualize your workflow steps'}</p>
           </div>
           <div className="flex items-center gap-3">
             <button 
@@ -151,40 +263,125 @@ const FlowchartView: React.FC<FlowchartViewProps> = ({ workflow, onClose, onWork
             </button>
             <button 
               onClick={handleSave}
-              className="px-6 py-2 bg-tertiary hover:bg-tertiary/90 text-primary rounded-xl font-semibold transition-colors duration-200"
+              disabled={isLoading || isSaving}
+              className="px-6 py-2 bg-tertiary hover:bg-tertiary/90 text-primary rounded-xl font-semibold transition-colors duration-200 disabled:opacity-50"
             >
-              Save Changes
+              {isSaving ? 'Saving...' : 'Save Changes'}
             </button>
           </div>
         </div>
+
+        <div className="flex items-center gap-2 px-6 py-3 border-b border-gray-200 bg-gray-50">
+          <span className="text-sm font-medium text-gray-600 mr-2">Add step:</span>
+          {STEP_TYPE_OPTIONS.map(option => (
+            <button
+              key={option.type}
+              onClick={() => handleAddStep(option.type)}
+              className="flex items-center gap-1 px-3 py-1.5 bg-white border border-gray-200 hover:border-secondary text-gray-700 rounded-lg text-sm transition-colors duration-200"
+            >
+              <Plus className="w-3.5 h-3.5" />
+              {option.label}
+            </button>
+          ))}
+          {(selectedNode || selectedEdge) && (
+            <button
+              onClick={handleDeleteSelection}
+              className="ml-auto flex items-center gap-1 px-3 py-1.5 text-red-600 hover:bg-red-50 rounded-lg text-sm transition-colors duration-200"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+              Delete selected
+            </button>
+          )}
+        </div>
         
-        <div className="flex-1 relative">
-          <ReactFlow
-            nodes={nodes}
-            nodeTypes={nodeTypes}
-            onNodesChange={onNodesChange}
-            edges={edges}
-            onEdgesChange={onEdgesChange}
-            onConnect={onConnect}
-            fitView
-            attributionPosition="bottom-left"
-          >
-            <Background color="#f1f5f9" />
-            <MiniMap 
-              nodeColor={(node) => {
-                switch (node.type) {
-                  case 'start-end': return '#22c55e';
-                  case 'process': return '#3b82f6';
-                  case 'decision': return '#f59e0b';
-                  case 'input-output': return '#8b5cf6';
-                  default: return '#6b7280';
-                }
-              }}
-              maskColor="rgba(255, 255, 255, 0.2)"
-              position="bottom-right"
-            />
-            <Controls position="bottom-right" style={{ bottom: 100 }} />
-          </ReactFlow>
+        <div className="flex-1 flex min-h-0">
+          <div className="flex-1 relative">
+            {isLoading ? (
+              <div className="flex items-center justify-center h-full text-gray-500">Loading flowchart...</div>
+            ) : (
+              <ReactFlow
+                nodes={nodes}
+                nodeTypes={nodeTypes}
+                onNodesChange={onNodesChange}
+                edges={edges}
+                onEdgesChange={onEdgesChange}
+                onConnect={onConnect}
+                fitView
+                attributionPosition="bottom-left"
+              >
+                <Background color="#f1f5f9" />
+                <MiniMap 
+                  nodeColor={(node) => {
+                    switch (node.type) {
+                      case 'start-end': return '#22c55e';
+                      case 'process': return '#3b82f6';
+                      case 'decision': return '#f59e0b';
+                      case 'input-output': return '#8b5cf6';
+                      default: return '#6b7280';
+                    }
+                  }}
+                  maskColor="rgba(255, 255, 255, 0.2)"
+                  position="bottom-right"
+                />
+                <Controls position="bottom-right" style={{ bottom: 100 }} />
+              </ReactFlow>
+            )}
+          </div>
+
+          {(selectedNode || selectedEdge) && (
+            <div className="w-72 border-l border-gray-200 p-4 space-y-4 overflow-y-auto">
+              {selectedNode && (
+                <>
+                  <h3 className="font-semibold text-gray-900">Step</h3>
+                  <div>
+                    <label className="form-label">Name</label>
+                    <input
+                      type="text"
+                      value={String(selectedNode.data.label || '')}
+                      onChange={(e) => updateSelectedNode({ label: e.target.value })}
+                      className="form-input"
+                    />
+                  </div>
+                  <div>
+                    <label className="form-label">Type</label>
+                    <select
+                      value={selectedNode.type}
+                      onChange={(e) => updateSelectedNode({ type: e.target.value as WorkflowStepType })}
+                      className="form-input"
+                    >
+                      {STEP_TYPE_OPTIONS.map(option => (
+                        <option key={option.type} value={option.type}>{option.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="form-label">Description</label>
+                    <textarea
+                      value={String(selectedNode.data.description || '')}
+                      onChange={(e) => updateSelectedNode({ description: e.target.value })}
+                      rows={3}
+                      className="form-input resize-none"
+                    />
+                  </div>
+                </>
+              )}
+              {!selectedNode && selectedEdge && (
+                <>
+                  <h3 className="font-semibold text-gray-900">Connection</h3>
+                  <div>
+                    <label className="form-label">Label</label>
+                    <input
+                      type="text"
+                      value={typeof selectedEdge.label === 'string' ? selectedEdge.label : ''}
+                      onChange={(e) => updateSelectedEdgeLabel(e.target.value)}
+                      placeholder="e.g. Yes / No"
+                      className="form-input"
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -382,6 +579,9 @@ export function WorkflowsView({
   onWorkflowEdit,
   onWorkflowDelete,
   onWorkflowStatusChange,
+  onWorkflowGraphSaved,
+  onTemplateInstantiated,
+  onBudgetSaved,
   initialClientFilter 
 }: WorkflowsViewProps) {
   const [searchTerm, setSearchTerm] = useState('');
@@ -391,6 +591,10 @@ export function WorkflowsView({
   const [editingWorkflow, setEditingWorkflow] = useState<Workflow | null>(null);
   const [deletingWorkflow, setDeletingWorkflow] = useState<Workflow | null>(null);
   const [taskFlowWorkflow, setTaskFlowWorkflow] = useState<Workflow | null>(null);
+  const [flowchartWorkflow, setFlowchartWorkflow] = useState<Workflow | null>(null);
+  const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
+  const [templateSourceWorkflow, setTemplateSourceWorkflow] = useState<Workflow | null>(null);
+  const [budgetWorkflow, setBudgetWorkflow] = useState<Workflow | null>(null);
 
   // Update client filter when initialClientFilter prop changes
   React.useEffect(() => {
@@ -440,6 +644,7 @@ export function WorkflowsView({
         totalWorkflows={workflows.length}
         activeWorkflows={statusCounts.active || 0}
         onCreateWorkflow={() => setIsCreateModalOpen(true)}
+        onOpenTemplates={() => setIsTemplatesOpen(true)}
       />
 
       <div className="px-6 pb-6">
@@ -472,6 +677,9 @@ export function WorkflowsView({
                   onEdit={setEditingWorkflow}
                   onDelete={setDeletingWorkflow}
                   onViewFlow={setTaskFlowWorkflow}
+                  onDesignFlowchart={setFlowchartWorkflow}
+                  onSaveAsTemplate={setTemplateSourceWorkflow}
+                  onBudget={setBudgetWorkflow}
                   onStatusChange={onWorkflowStatusChange}
                 />
               );
@@ -512,6 +720,41 @@ export function WorkflowsView({
           onClose={() => setTaskFlowWorkflow(null)}
         />
       )}
+
+      {flowchartWorkflow && (
+        <FlowchartView
+          workflow={flowchartWorkflow}
+          onClose={() => setFlowchartWorkflow(null)}
+          onSaved={onWorkflowGraphSaved}
+        />
+      )}
+
+      <WorkflowTemplatesModal
+        clients={clients}
+        isOpen={isTemplatesOpen}
+        onClose={() => setIsTemplatesOpen(false)}
+        onInstantiated={onTemplateInstantiated}
+      />
+
+      {templateSourceWorkflow && (
+        <SaveTemplateModal
+          workflow={templateSourceWorkflow}
+          isOpen={!!templateSourceWorkflow}
+          onClose={() => setTemplateSourceWorkflow(null)}
+          onSaved={() => setIsTemplatesOpen(true)}
+        />
+      )}
+
+      {budgetWorkflow && (
+        <BudgetModal
+          entityType="workflow"
+          entityId={budgetWorkflow.id}
+          entityName={budgetWorkflow.name}
+          isOpen={!!budgetWorkflow}
+          onClose={() => setBudgetWorkflow(null)}
+          onSaved={onBudgetSaved}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -13,10 +13,19 @@ import {
 } from '@heroicons/react/24/outline'
 import { useWorkspace } from '../context/WorkspaceContext'
 import { useAuth } from '../hooks/useAuth'
-import { workspaceService, type AddMemberData } from '../services/workspaceService'
+import { workspaceService, WORKSPACE_ROLE_LABELS, type AddMemberData } from '../services/workspaceService'
 import { ErrorMessage } from './ErrorMessage'
 import { LoadingSpinner } from './LoadingSpinner'
-import type { Workspace, WorkspaceMember } from '../types'
+import { RolePermissionsEditor } from './RolePermissionsEditor'
+import type { Workspace, WorkspaceMember, WorkspaceRole } from '../types'
+
+type AssignableRole = Exclude<WorkspaceRole, 'owner'>
+
+const ROLE_BADGES: Partial<Record<WorkspaceRole, string>> = {
+  owner: 'bg-purple-100 text-purple-800',
+  admin: 'bg-blue-100 text-blue-800',
+  manager: 'bg-green-100 text-green-800'
+}
 
 interface WorkspaceManagementModalProps {
   isOpen: boolean
@@ -46,7 +55,7 @@ export function WorkspaceManagementModal({ isOpen, onClose, mode, workspace }: W
   // Member invitation state
   const [inviteForm, setInviteForm] = useState({
     email: '',
-    role: 'member' as 'admin' | 'member'
+    role: 'contributor' as AssignableRole
   })
   const [showInviteForm, setShowInviteForm] = useState(false)
   const [isInviting, setIsInviting] = useState(false)
@@ -146,7 +155,7 @@ export function WorkspaceManagementModal({ isOpen, onClose, mode, workspace }: W
       })
       
       setSuccess(`Invitation sent to ${inviteForm.email}`)
-      setInviteForm({ email: '', role: 'member' })
+      setInviteForm({ email: '', role: 'contributor' })
       setShowInviteForm(false)
       await loadWorkspaceDetails(workspaceDetails.id)
     } catch (err) {
@@ -170,7 +179,7 @@ export function WorkspaceManagementModal({ isOpen, onClose, mode, workspace }: W
     }
   }
 
-  const handleUpdateMemberRole = async (userId: string, newRole: 'admin' | 'member') => {
+  const handleUpdateMemberRole = async (userId: string, newRole: AssignableRole) => {
     if (!workspaceDetails) return
 
     try {
@@ -183,6 +192,19 @@ export function WorkspaceManagementModal({ isOpen, onClose, mode, workspace }: W
     }
   }
 
+  const handleUpdateInviteRole = async (inviteRole: NonNullable<Workspace['inviteRole']>) => {
+    if (!workspaceDetails) return
+
+    try {
+      setError(null)
+      await workspaceService.updateWorkspace(workspaceDetails.id, { inviteRole })
+      setSuccess('Invite role updated successfully')
+      await loadWorkspaceDetails(workspaceDetails.id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update invite role')
+    }
+  }
+
   const handleRegenerateInviteCode = async () => {
     if (!workspaceDetails) return
 
@@ -231,8 +253,12 @@ export function WorkspaceManagementModal({ isOpen, onClose, mode, workspace }: W
   if (!isOpen) return null
 
   const isOwner = workspaceDetails?.ownerId === user?.id
-  const isAdmin = workspaceDetails?.userRole === 'admin' || isOwner
-  const canEdit = mode === 'create' || isAdmin
+  const canManage = Boolean(workspaceDetails?.permissions?.includes('settings:manage')) || isOwner
+  const canEdit = mode === 'create' || canManage
+  // Only owners and admins may hand out the admin role
+  const assignableRoles = (Object.keys(WORKSPACE_ROLE_LABELS) as WorkspaceRole[])
+    .filter((role): role is AssignableRole => role !== 'owner')
+    .filter(role => role !== 'admin' || workspaceDetails?.userRole === 'owner' || workspaceDetails?.userRole === 'admin')
 
   const getModalTitle = () => {
     switch (mode) {
@@ -364,8 +390,8 @@ export function WorkspaceManagementModal({ isOpen, onClose, mode, workspace }: W
                 )}
               </div>
 
-              {/* Invite Code Section (only for existing workspaces) */}
-              {(mode === 'edit' || mode === 'manage') && workspaceDetails && (
+              {/* Invite Code Section (only for existing workspaces, and only members who manage it get the code) */}
+              {(mode === 'edit' || mode === 'manage') && workspaceDetails?.inviteCode && (
                 <div>
                   <h3 className="text-sm font-medium text-gray-900 mb-3">Invite Code</h3>
                   <div className="flex items-center space-x-3">
@@ -379,7 +405,7 @@ export function WorkspaceManagementModal({ isOpen, onClose, mode, workspace }: W
                       <ClipboardDocumentIcon className="w-4 h-4 mr-1" />
                       Copy
                     </button>
-                    {isAdmin && (
+                    {canManage && (
                       <button
                         onClick={handleRegenerateInviteCode}
                         className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
@@ -389,9 +415,25 @@ export function WorkspaceManagementModal({ isOpen, onClose, mode, workspace }: W
                       </button>
                     )}
                   </div>
-                  <p className="mt-2 text-xs text-gray-500">
-                    Anyone with this code can join your workspace.
-                  </p>
+                  <div className="mt-2 flex items-center space-x-2 text-xs text-gray-500">
+                    <label htmlFor="inviteRole">Anyone with this code can join your workspace as</label>
+                    <select
+                      id="inviteRole"
+                      value={workspaceDetails.inviteRole}
+                      onChange={(e) => handleUpdateInviteRole(e.target.value as NonNullable<Workspace['inviteRole']>)}
+                      disabled={!canManage}
+                      className="text-xs border border-gray-300 rounded px-2 py-1"
+                    >
+                      {assignableRoles
+                        .filter((role): role is NonNullable<Workspace['inviteRole']> => role !== 'client_guest')
+                        .map(role => (
+                          <option key={role} value={role}>{WORKSPACE_ROLE_LABELS[role]}</option>
+                        ))}
+                      {workspaceDetails.inviteRole === 'admin' && !assignableRoles.includes('admin') && (
+                        <option value="admin">{WORKSPACE_ROLE_LABELS.admin}</option>
+                      )}
+                    </select>
+                  </div>
                 </div>
               )}
 
@@ -400,7 +442,7 @@ export function WorkspaceManagementModal({ isOpen, onClose, mode, workspace }: W
                 <div>
                   <div className="flex items-center justify-between mb-3">
                     <h3 className="text-sm font-medium text-gray-900">Members ({members.length})</h3>
-                    {isAdmin && (
+                    {canManage && (
                       <button
                         onClick={() => setShowInviteForm(true)}
                         className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700"
@@ -436,11 +478,12 @@ export function WorkspaceManagementModal({ isOpen, onClose, mode, workspace }: W
                           <select
                             id="role"
                             value={inviteForm.role}
-                            onChange={(e) => setInviteForm(prev => ({ ...prev, role: e.target.value as 'admin' | 'member' }))}
+                            onChange={(e) => setInviteForm(prev => ({ ...prev, role: e.target.value as AssignableRole }))}
                             className="mt-1 block px-3 py-2 border border-blue-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
                           >
-                            <option value="member">Member</option>
-                            <option value="admin">Admin</option>
+                            {assignableRoles.map(role => (
+                              <option key={role} value={role}>{WORKSPACE_ROLE_LABELS[role]}</option>
+                            ))}
                           </select>
                         </div>
                         <button
@@ -454,7 +497,7 @@ export function WorkspaceManagementModal({ isOpen, onClose, mode, workspace }: W
                           type="button"
                           onClick={() => {
                             setShowInviteForm(false)
-                            setInviteForm({ email: '', role: 'member' })
+                            setInviteForm({ email: '', role: 'contributor' })
                           }}
                           className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
                         >
@@ -481,23 +524,22 @@ export function WorkspaceManagementModal({ isOpen, onClose, mode, workspace }: W
                         </div>
                         <div className="flex items-center space-x-2">
                           <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                            member.id === workspaceDetails.ownerId
-                              ? 'bg-purple-100 text-purple-800'
-                              : member.workspaceRole === 'admin'
-                              ? 'bg-blue-100 text-blue-800'
-                              : 'bg-gray-100 text-gray-800'
+                            ROLE_BADGES[member.workspaceRole] || 'bg-gray-100 text-gray-800'
                           }`}>
-                            {member.id === workspaceDetails.ownerId ? 'Owner' : member.workspaceRole}
+                            {WORKSPACE_ROLE_LABELS[member.workspaceRole] || member.workspaceRole}
                           </span>
-                          {isAdmin && member.id !== workspaceDetails.ownerId && member.id !== user?.id && (
+                          {/* Only owners and admins can change or remove an admin */}
+                          {canManage && member.id !== workspaceDetails.ownerId && member.id !== user?.id &&
+                            (member.workspaceRole !== 'admin' || assignableRoles.includes('admin')) && (
                             <div className="flex items-center space-x-1">
                               <select
                                 value={member.workspaceRole}
-                                onChange={(e) => handleUpdateMemberRole(member.id, e.target.value as 'admin' | 'member')}
+                                onChange={(e) => handleUpdateMemberRole(member.id, e.target.value as AssignableRole)}
                                 className="text-xs border border-gray-300 rounded px-2 py-1"
                               >
-                                <option value="member">Member</option>
-                                <option value="admin">Admin</option>
+                                {assignableRoles.map(role => (
+                                  <option key={role} value={role}>{WORKSPACE_ROLE_LABELS[role]}</option>
+                                ))}
                               </select>
                               <button
                                 onClick={() => setMemberToRemove(member.id)}
@@ -514,6 +556,15 @@ export function WorkspaceManagementModal({ isOpen, onClose, mode, workspace }: W
                 </div>
               )}
 
+              {/* Roles & Permissions (only for manage mode) */}
+              {mode === 'manage' && workspaceDetails && (
+                <RolePermissionsEditor
+                  workspaceId={workspaceDetails.id}
+                  canManage={canManage}
+                  onChange={refreshWorkspaces}
+                />
+              )}
+
               {/* Danger Zone (only for owners in manage mode) */}
               {mode === 'manage' && isOwner && (
                 <div className="border-t border-gray-200 pt-6">
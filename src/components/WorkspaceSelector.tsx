@@ -3,6 +3,7 @@ import { PlusIcon, UsersIcon, BuildingOfficeIcon, CodeBracketIcon } from '@heroi
 import { useWorkspace } from '../context/WorkspaceContext'
 import { ErrorMessage } from './ErrorMessage'
 import { LoadingSpinner } from './LoadingSpinner'
+import { WORKSPACE_ROLE_LABELS } from '../services/workspaceService'
 
 export function WorkspaceSelector() {
   const { 
@@ -118,7 +119,9 @@ export function WorkspaceSelector() {
                             <UsersIcon className="w-4 h-4 mr-1" />
                             {workspace.members?.length || 0} members
                           </span>
-                          <span className="capitalize">{workspace.userRole} access</span>
+                          {workspace.userRole && (
+                            <span>{WORKSPACE_ROLE_LABELS[workspace.userRole]} access</span>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -7,9 +7,10 @@ import listPlugin from '@fullcalendar/list';
 import { CalendarView } from '../../pages/CalendarPage';
 import { CalendarHeader } from './CalendarHeader';
 import { EventModal } from './EventModal';
-import { calendarService } from '../../services/calendarService';
+import { calendarService, RecurrenceEditScope, UpdateCalendarEventData } from '../../services/calendarService';
 import { timeEntriesService } from '../../services/timeTrackingService';
 import { calendarTaskService } from '../../services/calendarTaskService';
+import { useRealtime } from '../../hooks/useRealtime';
 
 // Import components directly to avoid module resolution issues
 
@@ -96,6 +97,10 @@ interface CalendarEvent {
     isCompleted?: boolean;
     isTaskEvent?: boolean;
     isLocalOnly?: boolean;
+    eventId?: string;
+    seriesId?: string | null;
+    occurrenceStart?: string | null;
+    recurrenceRule?: string | null;
   };
 }
 
@@ -110,6 +115,15 @@ export const CalendarContainer: React.FC<CalendarContainerProps> = ({
   const calendarRef = useRef<FullCalendar>(null);
   const [events, setEvents] = useState<CalendarEvent[]>([]);
   const [isLoadingEvents, setIsLoadingEvents] = useState(false);
+  const [eventsRevision, setEventsRevision] = useState(0);
+  const { subscribe } = useRealtime();
+
+  // Refetch when the user changes their calendar from another tab or device
+  useEffect(() => subscribe(({ type }) => {
+    if (type.startsWith('calendar_event.')) {
+      setEventsRevision(revision => revision + 1);
+    }
+  }), [subscribe]);
 
   const [eventModal, setEventModal] = useState<{
     isOpen: boolean;
@@ -181,7 +195,8 @@ export const CalendarContainer: React.FC<CalendarContainerProps> = ({
           
           const colors = getEventColors(event.eventType || 'task', isCompleted);
           allEvents.push({
-            id: event.id,
+            // Occurrences of a recurring event share its id
+            id: event.seriesId && event.occurrenceStart ? `${event.id}::${event.occurrenceStart}` : event.id,
             title: `${event.title}${isCompleted ? ' ✅' : ''}`,
             start: new Date(event.startTime),
             end: new Date(event.endTime),
@@ -193,7 +208,11 @@ export const CalendarContainer: React.FC<CalendarContainerProps> = ({
               taskId: event.taskId,
               description: event.description,
               isCompleted,
-              isTaskEvent: !!event.taskId // True if linked to a task
+              isTaskEvent: !!event.taskId, // True if linked to a task
+              eventId: event.id,
+              seriesId: event.seriesId,
+              occurrenceStart: event.occurrenceStart,
+              recurrenceRule: event.recurrenceRule
             }
           });
         });
@@ -277,7 +296,7 @@ export const CalendarContainer: React.FC<CalendarContainerProps> = ({
     }
     
     fetchEvents(startDate, endDate);
-  }, [view, selectedDate, fetchEvents]);
+  }, [view, selectedDate, fetchEvents, eventsRevision]);
 
   // Convert our view type to FullCalendar view
   const getFullCalendarView = useCallback(() => {
@@ -366,7 +385,8 @@ export const CalendarContainer: React.FC<CalendarContainerProps> = ({
         allDay: eventData.allDay || false,
         taskId: eventData.extendedProps?.taskId,
         description: eventData.extendedProps?.description,
-        eventType: eventData.extendedProps?.type || 'task'
+        eventType: eventData.extendedProps?.type || 'task',
+        recurrenceRule: eventData.extendedProps?.recurrenceRule || null
       };
 
 
@@ -376,12 +396,8 @@ export const CalendarContainer: React.FC<CalendarContainerProps> = ({
       
 
       
-      // Refresh events to show the new one
-      const startDate = new Date(selectedDate);
-      const endDate = new Date(selectedDate);
-      
-      // Refresh current view
-      fetchEvents(startDate, endDate);
+      // Refresh the current view to show the new event (and its repeats)
+      setEventsRevision(revision => revision + 1);
       
       setEventModal({ isOpen: false });
     } catch (error) {
@@ -412,10 +428,46 @@ export const CalendarContainer: React.FC<CalendarContainerProps> = ({
       setEvents(prev => [...prev, newEvent]);
       setEventModal({ isOpen: false });
     }
-  }, [selectedDate, fetchEvents]);
+  }, []);
 
   // Handle event update
-  const handleEventUpdate = useCallback((eventId: string, eventData: Partial<CalendarEvent>) => {
+  const handleEventUpdate = useCallback(async (eventId: string, eventData: Partial<CalendarEvent>, scope?: RecurrenceEditScope) => {
+    const existing = events.find(event => event.id === eventId);
+    const savedId = existing?.extendedProps?.eventId;
+
+    if (existing && savedId) {
+      const updateData: UpdateCalendarEventData = {
+        title: eventData.title,
+        allDay: eventData.allDay,
+        taskId: eventData.extendedProps?.taskId || '',
+        description: eventData.extendedProps?.description,
+        eventType: eventData.extendedProps?.type,
+        scope,
+        occurrenceStart: existing.extendedProps?.occurrenceStart
+      };
+      // Unchanged times are left out so that a recurring series is not shifted
+      if (eventData.start && eventData.start.getTime() !== existing.start.getTime()) {
+        updateData.startTime = eventData.start.toISOString();
+      }
+      if (eventData.end && eventData.end.getTime() !== existing.end?.getTime()) {
+        updateData.endTime = eventData.end.toISOString();
+      }
+      const recurrenceRule = eventData.extendedProps?.recurrenceRule || null;
+      if (recurrenceRule !== (existing.extendedProps?.recurrenceRule || null)) {
+        updateData.recurrenceRule = recurrenceRule;
+      }
+
+      try {
+        await calendarService.updateEvent(savedId, updateData);
+        setEventsRevision(revision => revision + 1);
+        setEventModal({ isOpen: false });
+      } catch (error) {
+        console.error('❌ Failed to update calendar event:', error);
+      }
+      return;
+    }
+
+    // Tasks, time entries and local-only events are only changed here
     setEvents(prev => prev.map(event => {
       if (event.id === eventId) {
         const colors = getEventColors(eventData.extendedProps?.type || event.extendedProps?.type || 'task');
@@ -429,13 +481,27 @@ export const CalendarContainer: React.FC<CalendarContainerProps> = ({
       return event;
     }));
     setEventModal({ isOpen: false });
-  }, []);
+  }, [events]);
 
   // Handle event deletion
-  const handleEventDelete = useCallback((eventId: string) => {
+  const handleEventDelete = useCallback(async (eventId: string, scope?: RecurrenceEditScope) => {
+    const existing = events.find(event => event.id === eventId);
+    const savedId = existing?.extendedProps?.eventId;
+
+    if (existing && savedId) {
+      try {
+        await calendarService.deleteEvent(savedId, scope, existing.extendedProps?.occurrenceStart);
+        setEventsRevision(revision => revision + 1);
+        setEventModal({ isOpen: false });
+      } catch (error) {
+        console.error('❌ Failed to delete calendar event:', error);
+      }
+      return;
+    }
+
     setEvents(prev => prev.filter(event => event.id !== eventId));
     setEventModal({ isOpen: false });
-  }, []);
+  }, [events]);
 
   // Handle task completion
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -542,6 +608,7 @@ export const CalendarContainer: React.FC<CalendarContainerProps> = ({
         selectedDate={selectedDate}
         onDateChange={onDateChange}
         onEventCreate={() => setEventModal({ isOpen: true, selectedDate: new Date() })}
+        onEventsImported={() => setEventsRevision(revision => revision + 1)}
         calendarRef={calendarRef}
       />
       
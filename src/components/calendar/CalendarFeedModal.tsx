@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import { X, Link2, Copy, RefreshCw, Trash2 } from 'lucide-react';
+import { calendarService, CalendarFeed } from '../../services/calendarService';
+
+interface CalendarFeedModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// The secret URL calendar apps subscribe to: the user's events, client meetings and task due dates
+export const CalendarFeedModal: React.FC<CalendarFeedModalProps> = ({ isOpen, onClose }) => {
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setError(null);
+    setSuccess(null);
+    setLoading(true);
+    calendarService.getFeed()
+      .then(setFeed)
+      .catch(() => setError('Failed to load the subscription URL'))
+      .finally(() => setLoading(false));
+  }, [isOpen]);
+
+  const handleGenerate = async () => {
+    if (feed && !window.confirm('Calendar apps subscribed to the current URL will stop receiving updates. Continue?')) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      setFeed(await calendarService.regenerateFeed());
+      setSuccess(feed ? 'A new URL was created; the old one no longer works' : 'Subscription URL created');
+    } catch {
+      setError('Failed to create the subscription URL');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!window.confirm('Calendar apps subscribed to this URL will stop receiving updates. Revoke it?')) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      await calendarService.revokeFeed();
+      setFeed(null);
+      setSuccess('Subscription URL revoked');
+    } catch {
+      setError('Failed to revoke the subscription URL');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const copyUrl = async () => {
+    if (!feed) return;
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      setSuccess('URL copied to clipboard');
+    } catch {
+      setError('Failed to copy the URL');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl border border-gray-100 w-full max-w-lg">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Subscribe to your calendar</h2>
+            <p className="text-sm text-gray-500 mt-1">
+              Add this URL to Google Calendar, Outlook or Apple Calendar
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X size={20} className="text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-gray-600">
+            The feed includes your calendar events, the workspace's client meetings and the due dates of tasks
+            assigned to you. Anyone with the URL can read it, so keep it private.
+          </p>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+          )}
+          {success && (
+            <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">{success}</div>
+          )}
+
+          {feed ? (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={feed.url}
+                  readOnly
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono text-gray-700 bg-gray-50"
+                />
+                <button
+                  type="button"
+                  onClick={copyUrl}
+                  className="p-2 border border-gray-200 hover:bg-gray-100 rounded-lg transition-colors"
+                  aria-label="Copy URL"
+                >
+                  <Copy size={16} className="text-gray-600" />
+                </button>
+              </div>
+              <p className="text-xs text-gray-500">
+                {feed.lastAccessedAt
+                  ? `Last read by a calendar app ${new Date(feed.lastAccessedAt).toLocaleString()}`
+                  : 'Not read by a calendar app yet'}
+              </p>
+              <div className="flex justify-end gap-3">
+                <button
+                  type="button"
+                  onClick={handleRevoke}
+                  disabled={loading}
+                  className="flex items-center gap-2 px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg font-medium transition-colors border border-red-200 disabled:opacity-50"
+                >
+                  <Trash2 size={16} />
+                  Revoke
+                </button>
+                <button
+                  type="button"
+                  onClick={handleGenerate}
+                  disabled={loading}
+                  className="flex items-center gap-2 px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg font-medium transition-colors border border-gray-200 disabled:opacity-50"
+                >
+                  <RefreshCw size={16} />
+                  New URL
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex justify-end">
+              <button
+                type="button"
+                onClick={handleGenerate}
+                disabled={loading}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+              >
+                <Link2 size={16} />
+                Create subscription URL
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,27 +1,79 @@
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import { 
   ChevronLeft, 
   ChevronRight, 
   Calendar,
   Plus,
+  Upload,
+  Link2,
+  X,
 } from 'lucide-react';
 import { CalendarView } from '../../pages/CalendarPage';
+import { calendarService, CalendarImportResult } from '../../services/calendarService';
+import { ApiError } from '../../services/api';
+import { CalendarFeedModal } from './CalendarFeedModal';
 
 interface CalendarHeaderProps {
   view: CalendarView;
   selectedDate: Date;
   onDateChange: (date: Date) => void;
   onEventCreate: () => void;
+  // Called after an ICS import added events
+  onEventsImported: () => void;
   calendarRef: React.RefObject<any>;
 }
 
+// The API explains files it cannot read in an { error } body
+const apiErrorMessage = (err: unknown, fallback: string) => {
+  if (!(err instanceof ApiError) || err.status !== 400) return fallback;
+  try {
+    return (JSON.parse(err.message) as { error?: string }).error || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const describeImport = (result: CalendarImportResult) => {
+  const parts = [`Imported ${result.imported} event${result.imported === 1 ? '' : 's'}`];
+  if (result.duplicates > 0) parts.push(`${result.duplicates} already in your calendar`);
+  if (result.skipped.length > 0) parts.push(`${result.skipped.length} skipped`);
+  return parts.join(', ');
+};
+
 export const CalendarHeader: React.FC<CalendarHeaderProps> = ({
   view,
   selectedDate,
   onDateChange,
   onEventCreate,
+  onEventsImported,
   calendarRef
 }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importing, setImporting] = useState(false);
+  const [importResult, setImportResult] = useState<CalendarImportResult | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isFeedModalOpen, setIsFeedModalOpen] = useState(false);
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again
+    e.target.value = '';
+    if (!file) return;
+
+    setImporting(true);
+    setImportResult(null);
+    setImportError(null);
+    try {
+      const result = await calendarService.importIcs(await file.text());
+      setImportResult(result);
+      if (result.imported > 0) onEventsImported();
+    } catch (err) {
+      setImportError(apiErrorMessage(err, 'Failed to import the calendar file'));
+    } finally {
+      setImporting(false);
+    }
+  };
+
   const formatDateTitle = () => {
     const calendarApi = calendarRef.current?.getApi();
     if (calendarApi) {
@@ -155,6 +207,28 @@ export const CalendarHeader: React.FC<CalendarHeaderProps> = ({
 
           {/* Right side - Actions */}
           <div className="flex items-center justify-center sm:justify-end gap-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".ics,text/calendar"
+              onChange={handleImportFile}
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={importing}
+              className="flex items-center gap-2 px-4 py-2.5 bg-white hover:bg-gray-50 text-gray-700 border border-gray-200 rounded-xl font-medium transition-colors duration-200 shadow-sm disabled:opacity-50"
+            >
+              <Upload size={16} />
+              <span className="hidden sm:inline">{importing ? 'Importing...' : 'Import .ics'}</span>
+            </button>
+            <button
+              onClick={() => setIsFeedModalOpen(true)}
+              className="flex items-center gap-2 px-4 py-2.5 bg-white hover:bg-gray-50 text-gray-700 border border-gray-200 rounded-xl font-medium transition-colors duration-200 shadow-sm"
+            >
+              <Link2 size={16} />
+              <span className="hidden sm:inline">Subscribe</span>
+            </button>
             <button
               onClick={onEventCreate}
               className="flex items-center gap-2 px-4 py-2.5 bg-gradient-to-r from-primary to-accent hover:from-primary/90 hover:to-accent/90 text-white rounded-xl font-medium transition-all duration-200 shadow-lg hover:shadow-xl"
@@ -165,7 +239,35 @@ export const CalendarHeader: React.FC<CalendarHeaderProps> = ({
             </button>
           </div>
         </div>
+
+        {(importResult || importError) && (
+          <div
+            className={`mt-4 flex items-start justify-between gap-3 p-3 rounded-lg border text-sm ${
+              importError ? 'bg-red-50 border-red-200 text-red-700' : 'bg-green-50 border-green-200 text-green-700'
+            }`}
+          >
+            <div>
+              <p>{importError || (importResult && describeImport(importResult))}</p>
+              {importResult && importResult.skipped.length > 0 && (
+                <ul className="mt-1 text-xs text-gray-600 list-disc list-inside">
+                  {importResult.skipped.map((skipped, index) => (
+                    <li key={`${skipped.uid}-${index}`}>{skipped.summary}: {skipped.reason}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            <button
+              onClick={() => { setImportResult(null); setImportError(null); }}
+              className="p-1 hover:bg-white/60 rounded"
+              aria-label="Dismiss"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        )}
       </div>
+
+      <CalendarFeedModal isOpen={isFeedModalOpen} onClose={() => setIsFeedModalOpen(false)} />
     </div>
   );
 };
\ No newline at end of file
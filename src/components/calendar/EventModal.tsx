@@ -10,6 +10,10 @@ import {
 import { taskService } from '../../services/taskService';
 import { calendarTaskService } from '../../services/calendarTaskService';
 import { ApiError } from '../../services/api';
+import { RecurrenceEditScope } from '../../services/calendarService';
+import { RecurrenceOptions, buildRecurrenceRule, parseRecurrenceRule } from '../../services/recurrence';
+import { RecurrenceEditor } from '../RecurrenceEditor';
+import { RecurrenceScopeDialog } from './RecurrenceScopeDialog';
 
 interface Task {
   id: string;
@@ -47,6 +51,11 @@ interface CalendarEvent {
     description?: string;
     isCompleted?: boolean;
     isTaskEvent?: boolean;
+    // Saved calendar events only: the event's id, and for recurring events the series and occurrence
+    eventId?: string;
+    seriesId?: string | null;
+    occurrenceStart?: string | null;
+    recurrenceRule?: string | null;
   };
 }
 
@@ -56,8 +65,8 @@ interface EventModalProps {
   selectedDate?: Date;
   onClose: () => void;
   onCreate: (eventData: Partial<CalendarEvent>) => void;
-  onUpdate: (eventId: string, eventData: Partial<CalendarEvent>) => void;
-  onDelete: (eventId: string) => void;
+  onUpdate: (eventId: string, eventData: Partial<CalendarEvent>, scope?: RecurrenceEditScope) => void;
+  onDelete: (eventId: string, scope?: RecurrenceEditScope) => void;
   onTaskComplete?: (taskId: string) => void;
   tasks: Task[];
   workflows: Workflow[];
@@ -86,6 +95,13 @@ export const EventModal: React.FC<EventModalProps> = ({
     allDay: false,
     taskId: ''
   });
+  const [recurrence, setRecurrence] = useState<RecurrenceOptions | null>(null);
+  const [scopeAction, setScopeAction] = useState<{ action: 'update' | 'delete'; eventData?: Partial<CalendarEvent> } | null>(null);
+
+  const seriesId = event?.extendedProps?.seriesId;
+  // An occurrence edited on its own keeps following the series' rule, which is edited on the series
+  const isEditedOccurrence = Boolean(seriesId && seriesId !== event?.extendedProps?.eventId);
+  const canRepeat = !event || Boolean(event.extendedProps?.eventId && !isEditedOccurrence);
 
   // Initialize form data when modal opens
   useEffect(() => {
@@ -106,6 +122,7 @@ export const EventModal: React.FC<EventModalProps> = ({
           allDay: event.allDay || false,
           taskId: event.extendedProps?.taskId || ''
         });
+        setRecurrence(parseRecurrenceRule(event.extendedProps?.recurrenceRule, startDate));
       } else if (selectedDate) {
         // Create mode
         const date = selectedDate.toISOString().split('T')[0];
@@ -122,7 +139,9 @@ export const EventModal: React.FC<EventModalProps> = ({
           allDay: false,
           taskId: ''
         });
+        setRecurrence(null);
       }
+      setScopeAction(null);
     }
   }, [isOpen, event, selectedDate]);
 
@@ -145,11 +164,14 @@ export const EventModal: React.FC<EventModalProps> = ({
       extendedProps: {
         type: formData.type,
         description: formData.description,
-        taskId: formData.taskId || undefined
+        taskId: formData.taskId || undefined,
+        recurrenceRule: canRepeat && recurrence ? buildRecurrenceRule(recurrence, startDateTime) : null
       }
     };
 
-    if (event) {
+    if (event && seriesId) {
+      setScopeAction({ action: 'update', eventData });
+    } else if (event) {
       onUpdate(event.id, eventData);
     } else {
       onCreate(eventData);
@@ -157,11 +179,29 @@ export const EventModal: React.FC<EventModalProps> = ({
   };
 
   const handleDelete = () => {
-    if (event && window.confirm('Are you sure you want to delete this event?')) {
+    if (event && seriesId) {
+      setScopeAction({ action: 'delete' });
+    } else if (event && window.confirm('Are you sure you want to delete this event?')) {
       onDelete(event.id);
     }
   };
 
+  const handleScopeSelect = (scope: RecurrenceEditScope) => {
+    if (!event || !scopeAction) return;
+    if (scopeAction.action === 'update' && scopeAction.eventData) {
+      onUpdate(event.id, scopeAction.eventData, scope);
+    } else {
+      onDelete(event.id, scope);
+    }
+    setScopeAction(null);
+  };
+
+  // A single occurrence cannot get a repeat rule of its own
+  const ruleChanged = Boolean(
+    scopeAction?.eventData && !isEditedOccurrence &&
+    (scopeAction.eventData.extendedProps?.recurrenceRule || null) !== (event?.extendedProps?.recurrenceRule || null)
+  );
+
   const handleMarkAsDone = async () => {
     if (event && onTaskComplete) {
       try {
@@ -194,6 +234,8 @@ export const EventModal: React.FC<EventModalProps> = ({
 
   if (!isOpen) return null;
 
+  const formStart = new Date(`${formData.startDate}T${formData.allDay ? '00:00' : formData.startTime || '00:00'}`);
+
   return (
     <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
       <div className="bg-white rounded-2xl shadow-2xl border border-gray-100 w-full max-w-2xl max-h-[90vh] flex flex-col">
@@ -345,6 +387,19 @@ export const EventModal: React.FC<EventModalProps> = ({
               </div>
             </div>
 
+            {/* Repeat */}
+            {canRepeat ? (
+              <RecurrenceEditor
+                value={recurrence}
+                start={formStart}
+                onChange={setRecurrence}
+              />
+            ) : isEditedOccurrence && (
+              <p className="text-sm text-gray-500">
+                This occurrence was edited on its own. Choose "All events" when saving to change the whole series.
+              </p>
+            )}
+
             {/* Description */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -414,6 +469,14 @@ export const EventModal: React.FC<EventModalProps> = ({
           </div>
         </div>
       </div>
+
+      <RecurrenceScopeDialog
+        isOpen={scopeAction !== null}
+        action={scopeAction?.action || 'update'}
+        allowThis={!ruleChanged}
+        onSelect={handleScopeSelect}
+        onCancel={() => setScopeAction(null)}
+      />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,87 @@
+import React, { useState, useEffect } from 'react';
+import { Repeat } from 'lucide-react';
+import { RecurrenceEditScope } from '../../services/calendarService';
+
+interface RecurrenceScopeDialogProps {
+  isOpen: boolean;
+  action: 'update' | 'delete';
+  // Changing the repeat rule only makes sense for a run of occurrences
+  allowThis?: boolean;
+  onSelect: (scope: RecurrenceEditScope) => void;
+  onCancel: () => void;
+}
+
+const SCOPE_LABELS: Record<RecurrenceEditScope, string> = {
+  this: 'This event',
+  following: 'This and following events',
+  all: 'All events'
+};
+
+// Asks which occurrences of a recurring event a change or delete applies to
+export const RecurrenceScopeDialog: React.FC<RecurrenceScopeDialogProps> = ({
+  isOpen,
+  action,
+  allowThis = true,
+  onSelect,
+  onCancel
+}) => {
+  const [scope, setScope] = useState<RecurrenceEditScope>('this');
+
+  useEffect(() => {
+    if (isOpen) setScope(allowThis ? 'this' : 'following');
+  }, [isOpen, allowThis]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-[60] p-4">
+      <div className="bg-white rounded-2xl shadow-2xl border border-gray-100 w-full max-w-sm p-6 space-y-4">
+        <div className="flex items-center gap-2">
+          <Repeat size={18} className="text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-900">
+            {action === 'update' ? 'Edit recurring event' : 'Delete recurring event'}
+          </h3>
+        </div>
+
+        <div className="space-y-2">
+          {(Object.keys(SCOPE_LABELS) as RecurrenceEditScope[]).map(option => (
+            <label
+              key={option}
+              className={`flex items-center gap-3 text-sm ${option === 'this' && !allowThis ? 'text-gray-400' : 'text-gray-700'}`}
+            >
+              <input
+                type="radio"
+                name="recurrence-scope"
+                value={option}
+                checked={scope === option}
+                onChange={() => setScope(option)}
+                disabled={option === 'this' && !allowThis}
+                className="text-blue-600 focus:ring-blue-500"
+              />
+              {SCOPE_LABELS[option]}
+            </label>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-3 pt-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg font-medium transition-colors border border-gray-200"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onSelect(scope)}
+            className={`px-4 py-2 text-white rounded-lg font-medium transition-colors ${
+              action === 'delete' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+            }`}
+          >
+            {action === 'update' ? 'Save' : 'Delete'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -2,4 +2,5 @@
 export { CalendarContainer } from './CalendarContainer';
 export { CalendarHeader } from './CalendarHeader';
 export { EventModal } from './EventModal';
-export { TimeStats } from './TimeStats';
\ No newline at end of file
+export { TimeStats } from './TimeStats';
+export { CalendarFeedModal } from './CalendarFeedModal';
\ No newline at end of file
@@ -1,6 +1,7 @@
 import React, { createContext, useMemo, useEffect } from 'react';
 import { useMultipleApi } from '../hooks/useApi';
 import { useWorkspace } from './WorkspaceContext';
+import { useRealtime } from '../hooks/useRealtime';
 import {
   clientService,
   workflowService,
@@ -8,7 +9,7 @@ import {
   dashboardService,
   meetingService,
 } from '../services';
-import { Client, Workflow, KanbanTask, Meeting, DashboardStats, KanbanColumn } from '../types';
+import { Client, Workflow, KanbanTask, Meeting, DashboardStats, KanbanColumn, RealtimeAction } from '../types';
 
 interface AppContextType {
   // Data
@@ -29,6 +30,19 @@ interface AppContextType {
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
+// Merge a pushed change into a loaded list; updates may be partial, so they are spread over the existing item
+function applyChange<T extends { id: string }>(items: T[] | undefined, action: RealtimeAction, data: { id: string }): T[] {
+  const list = items || [];
+  switch (action) {
+    case 'created':
+      return list.some(item => item.id === data.id) ? list : [...list, data as T];
+    case 'updated':
+      return list.map(item => (item.id === data.id ? { ...item, ...data } : item));
+    case 'deleted':
+      return list.filter(item => item.id !== data.id);
+  }
+}
+
 interface AppProviderProps {
   children: React.ReactNode;
 }
@@ -47,7 +61,8 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
   }), []);
 
   // Load all data using our API hook
-  const { data, loading, error, refresh } = useMultipleApi(apiCallFunctions);
+  const { data, loading, error, refresh, mutate } = useMultipleApi(apiCallFunctions);
+  const { subscribe } = useRealtime();
 
   // Refresh data when workspace changes
   useEffect(() => {
@@ -57,6 +72,30 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     }
   }, [workspaceChanged, currentWorkspace, refresh]);
 
+  // Apply teammates' changes live instead of waiting for the next refresh
+  useEffect(() => subscribe(({ type, data: changed }) => {
+    const [entity, action] = type.split('.') as [string, RealtimeAction];
+
+    switch (entity) {
+      case 'task':
+        mutate('kanbanTasks', tasks => applyChange(tasks, action, changed));
+        break;
+      case 'column':
+        mutate('kanbanColumns', columns => applyChange(columns, action, changed));
+        break;
+      case 'workflow':
+        mutate('workflows', workflows => applyChange(workflows, action, changed));
+        if (action === 'deleted') {
+          // Deleting a workflow deletes its tasks too
+          mutate('kanbanTasks', tasks => (tasks || []).filter(task => task.workflowId !== changed.id));
+        }
+        break;
+      case 'meeting':
+        mutate('meetings', meetings => applyChange(meetings, action, changed));
+        break;
+    }
+  }), [subscribe, mutate]);
+
   // Memoize the context value with proper data extraction
   const contextValue: AppContextType = useMemo(() => {
     const clients = data?.clients || [];
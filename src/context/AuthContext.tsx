@@ -12,6 +12,7 @@ interface AuthContextType {
   verifyMagicLink: (token: string) => Promise<AuthUser | TwoFactorRequiredResponse>
   verify2FA: (request: TwoFactorVerificationRequest) => Promise<AuthUser>
   logout: () => Promise<void>
+  signOutEverywhere: () => Promise<void>
   refreshSession: () => Promise<void>
   // 2FA management methods
   setup2FA: () => Promise<{ secret: string; qrCodeDataURL: string; manualEntryKey: string }>
@@ -170,6 +171,15 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }
 
+  // Revokes every session of the account, this one included
+  const signOutEverywhere = async (): Promise<void> => {
+    try {
+      await authService.signOutEverywhere()
+    } finally {
+      setUser(null)
+    }
+  }
+
   const refreshSession = async (): Promise<void> => {
     try {
       const refreshedUser = await authService.refreshSession()
@@ -221,6 +231,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     verifyMagicLink,
     verify2FA,
     logout,
+    signOutEverywhere,
     refreshSession,
     setup2FA,
     enable2FA,
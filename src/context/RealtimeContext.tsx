@@ -0,0 +1,74 @@
+import React, { createContext, useCallback, useEffect, useMemo, useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import { useWorkspace } from './WorkspaceContext';
+import { realtimeService } from '../services';
+import { PresenceUser, RealtimeChange } from '../types';
+
+interface RealtimeContextType {
+  connected: boolean;
+  // Everyone connected to the current workspace, with the views they have open
+  presence: PresenceUser[];
+  // Listen to changes made by other tabs and teammates; returns the unsubscribe function
+  subscribe: (listener: (change: RealtimeChange) => void) => () => void;
+}
+
+const RealtimeContext = createContext<RealtimeContextType | undefined>(undefined);
+
+interface RealtimeProviderProps {
+  children: React.ReactNode;
+}
+
+export const RealtimeProvider: React.FC<RealtimeProviderProps> = ({ children }) => {
+  const { currentWorkspace } = useWorkspace();
+  const workspaceId = currentWorkspace?.id;
+  const { pathname } = useLocation();
+  const [connected, setConnected] = useState(false);
+  const [presence, setPresence] = useState<PresenceUser[]>([]);
+
+  // The app section is the presence location, e.g. /app/kanban -> 'kanban'
+  const view = pathname.split('/')[2] || 'dashboard';
+
+  useEffect(() => {
+    const offStatus = realtimeService.onStatus(setConnected);
+    const offPresence = realtimeService.onPresence(setPresence);
+    return () => {
+      offStatus();
+      offPresence();
+    };
+  }, []);
+
+  useEffect(() => {
+    realtimeService.setLocation(view);
+  }, [view]);
+
+  // One stream per workspace; switching workspaces reconnects
+  useEffect(() => {
+    if (!workspaceId) return;
+
+    realtimeService.connect();
+    return () => {
+      realtimeService.disconnect();
+      setPresence([]);
+    };
+  }, [workspaceId]);
+
+  // Stable across presence updates so subscribers do not resubscribe
+  const subscribe = useCallback(
+    (listener: (change: RealtimeChange) => void) => realtimeService.subscribe(listener),
+    []
+  );
+
+  const contextValue: RealtimeContextType = useMemo(() => ({
+    connected,
+    presence,
+    subscribe,
+  }), [connected, presence, subscribe]);
+
+  return (
+    <RealtimeContext.Provider value={contextValue}>
+      {children}
+    </RealtimeContext.Provider>
+  );
+};
+
+export default RealtimeContext;
@@ -69,7 +69,10 @@ export interface ApiState<T> {
 export function useMultipleApi<T extends Record<string, any>>(
   apiCalls: { [K in keyof T]: () => Promise<T[K]> },
   immediate = true
-): ApiState<T> & { refresh: () => Promise<void> } {
+): ApiState<T> & {
+  refresh: () => Promise<void>;
+  mutate: <K extends keyof T>(key: K, update: (current: T[K]) => T[K]) => void;
+} {
   const [data, setData] = useState<T>({} as T);
   const [loading, setLoading] = useState(immediate);
   const [error, setError] = useState<string | null>(null);
@@ -114,10 +117,16 @@ export function useMultipleApi<T extends Record<string, any>>(
     }
   }, [immediate, fetchData]);
 
+  // Patch one loaded result in place (e.g. from a realtime event) without refetching everything
+  const mutate = useCallback(<K extends keyof T>(key: K, update: (current: T[K]) => T[K]) => {
+    setData(prev => ({ ...prev, [key]: update(prev[key]) }));
+  }, []);
+
   return {
     data,
     loading,
     error,
-    refresh: fetchData
+    refresh: fetchData,
+    mutate
   };
 } 
\ No newline at end of file
@@ -0,0 +1,66 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useWorkspace } from '../context/WorkspaceContext';
+import { useRealtime } from './useRealtime';
+import { notificationService } from '../services';
+import { AppNotification } from '../types';
+
+// Notifications of the current workspace, kept live through the realtime stream
+export const useNotifications = () => {
+  const { currentWorkspace } = useWorkspace();
+  const { subscribe } = useRealtime();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const workspaceId = currentWorkspace?.id;
+
+  const refresh = useCallback(async () => {
+    try {
+      const result = await notificationService.getAll({ limit: 30 });
+      setNotifications(result.notifications);
+      setUnreadCount(result.unreadCount);
+    } catch (error) {
+      console.error('Failed to load notifications:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (workspaceId) refresh();
+  }, [workspaceId, refresh]);
+
+  useEffect(() => subscribe(({ type, data }) => {
+    if (type !== 'notification.created') return;
+
+    const notification = data as unknown as AppNotification;
+    if (notification.workspaceId && notification.workspaceId !== workspaceId) return;
+
+    setNotifications(prev => [notification, ...prev.filter(item => item.id !== notification.id)]);
+    setUnreadCount(count => count + 1);
+  }), [subscribe, workspaceId]);
+
+  const markRead = useCallback(async (notification: AppNotification) => {
+    if (notification.readAt) return;
+
+    setNotifications(prev => prev.map(item =>
+      item.id === notification.id ? { ...item, readAt: new Date() } : item
+    ));
+    setUnreadCount(count => Math.max(0, count - 1));
+    try {
+      await notificationService.markRead(notification.id);
+    } catch (error) {
+      console.error('Failed to mark notification as read:', error);
+      refresh();
+    }
+  }, [refresh]);
+
+  const markAllRead = useCallback(async () => {
+    setNotifications(prev => prev.map(item => (item.readAt ? item : { ...item, readAt: new Date() })));
+    setUnreadCount(0);
+    try {
+      await notificationService.markAllRead();
+    } catch (error) {
+      console.error('Failed to mark notifications as read:', error);
+      refresh();
+    }
+  }, [refresh]);
+
+  return { notifications, unreadCount, markRead, markAllRead, refresh };
+};
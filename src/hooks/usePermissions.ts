@@ -0,0 +1,17 @@
+import { useCallback } from 'react';
+import { useWorkspace } from '../context/WorkspaceContext';
+import { Permission } from '../types';
+
+// What the current user's role allows in the selected workspace, e.g. can('tasks:update')
+export const usePermissions = () => {
+  const { currentWorkspace } = useWorkspace();
+  const permissions = currentWorkspace?.permissions;
+  const role = currentWorkspace?.userRole;
+
+  const can = useCallback(
+    (permission: Permission) => Boolean(permissions?.includes(permission)),
+    [permissions]
+  );
+
+  return { role, can };
+};
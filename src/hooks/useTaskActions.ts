@@ -3,9 +3,31 @@ import { useAppContext } from './useAppContext';
 import {
   taskService,
   CreateTaskRequest,
+  BlockedMoveResponse,
 } from '../services';
+import { ApiError } from '../services/api';
 import { KanbanTask } from '../types';
 
+// Moves and status changes are refused while predecessors are open (moving into "done") or when they
+// break a column's WIP limit or policies; offer the admin override
+const withMoveChecks = async (request: (override: boolean) => Promise<unknown>) => {
+  try {
+    await request(false);
+  } catch (error) {
+    if (!(error instanceof ApiError) || error.status !== 409) throw error;
+
+    const { blockers, violations = [] } = JSON.parse(error.message) as BlockedMoveResponse;
+    const reasons = [
+      ...(blockers.length > 0 ? ['This task is blocked by unfinished tasks:', ...blockers.map(blocker => `• ${blocker.title}`)] : []),
+      ...(violations.length > 0 ? ['This move breaks the column rules:', ...violations.map(violation => `• ${violation.message}`)] : [])
+    ].join('\n');
+    if (!window.confirm(`${reasons}\n\nOverride and move it anyway? (admins only)`)) {
+      throw error;
+    }
+    await request(true);
+  }
+};
+
 export const useTaskActions = () => {
   const { refresh, workflows, kanbanTasks } = useAppContext();
 
@@ -24,14 +46,15 @@ export const useTaskActions = () => {
         // Moving between workflow steps - update stepId
         const targetStep = currentWorkflow.steps.find(step => step.id === newColumnId);
         if (targetStep) {
-          await taskService.update(taskId, {
+          await withMoveChecks(override => taskService.update(taskId, {
             stepId: newColumnId,
-            status: targetStep.status || task.status // Update status to match step status
-          });
+            status: targetStep.status || task.status, // Update status to match step status
+            ...(override && { override })
+          }));
         }
       } else {
         // Moving between generic columns - update status
-        await taskService.move(taskId, newColumnId);
+        await withMoveChecks(override => taskService.move(taskId, newColumnId, override));
       }
       
       // Instead of full refresh, just refresh tasks data
@@ -57,11 +80,13 @@ export const useTaskActions = () => {
           priority: task.priority,
           status: task.status,
           tags: task.tags,
+          startDate: task.startDate ? new Date(task.startDate).toISOString() : null,
           dueDate: task.dueDate ? new Date(task.dueDate).toISOString() : undefined,
+          estimatedHours: task.estimatedHours ?? null,
           assignedMembers: task.assignedMembers
         };
         
-        await taskService.update(task.id, updateData);
+        await withMoveChecks(override => taskService.update(task.id, { ...updateData, ...(override && { override }) }));
       } else {
         // Create new task
         const createData: CreateTaskRequest = {
@@ -72,7 +97,9 @@ export const useTaskActions = () => {
           priority: task.priority,
           status: task.status,
           tags: task.tags || [],
+          startDate: task.startDate ? new Date(task.startDate).toISOString() : null,
           dueDate: task.dueDate ? new Date(task.dueDate).toISOString() : undefined,
+          estimatedHours: task.estimatedHours ?? null,
           assignedMembers: task.assignedMembers || []
         };
         
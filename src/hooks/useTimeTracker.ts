@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { timeTrackerService, timeEntriesService, timeUtils } from '../services';
+import { v4 as uuidv4 } from 'uuid';
+import { timeTrackerService, timeUtils } from '../services';
 import type { ActiveTimer, TimerStatus, StartTimerData, TimeEntry } from '../services';
 
 export interface UseTimeTrackerReturn {
@@ -10,9 +11,10 @@ export interface UseTimeTrackerReturn {
   
   // Timer controls
   startTimer: (data: StartTimerData) => Promise<void>;
-  pauseTimer: () => Promise<void>;
+  pauseTimer: (reason?: string) => Promise<void>;
   resumeTimer: () => Promise<void>;
-  stopTimer: () => Promise<void>;
+  stopTimer: () => Promise<TimeEntry>;
+  discardTimer: () => Promise<void>;
   
   // Current session info
   currentElapsed: number;
@@ -23,6 +25,23 @@ export interface UseTimeTrackerReturn {
   refreshStatus: () => Promise<void>;
 }
 
+// Work time of a timer: frozen while paused, otherwise counted on from its start
+const elapsedOf = (timer: ActiveTimer | null) => {
+  if (!timer) return 0;
+  if (timer.isPaused) return timer.elapsedSeconds;
+
+  const realTimeElapsed = Math.floor((Date.now() - new Date(timer.startTime).getTime()) / 1000);
+  return Math.max(0, realTimeElapsed - timer.totalPausedDuration);
+};
+
+// The timer the commands act on
+const timerIdOf = (status: TimerStatus | null) => {
+  if (!status?.timer) {
+    throw new Error('No active timer');
+  }
+  return status.timer.id;
+};
+
 export const useTimeTracker = () => {
   const [timerStatus, setTimerStatus] = useState<TimerStatus | null>(null);
   const [isLoading, setIsLoading] = useState(false);
@@ -30,57 +49,28 @@ export const useTimeTracker = () => {
   const [currentElapsed, setCurrentElapsed] = useState(0);
   
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
-  const lastUpdateRef = useRef<number>(0);
+
+  // Every timer command answers with the new status
+  const applyStatus = useCallback((status: TimerStatus) => {
+    setTimerStatus(status);
+    setCurrentElapsed(elapsedOf(status.timer));
+  }, []);
 
   // Calculate elapsed time and update every second
   const updateElapsedTime = useCallback(() => {
-    if (!timerStatus?.hasActiveTimer || !timerStatus.timer) {
-      setCurrentElapsed(0);
-      return;
-    }
-
-    const timer = timerStatus.timer;
-    if (timer.isPaused) {
-      // When paused, show the elapsed time at pause
-      setCurrentElapsed(timer.elapsedSeconds);
-      return;
-    }
-
-    const now = Date.now();
-    const startTime = new Date(timer.startTime).getTime();
-    const realTimeElapsed = Math.floor((now - startTime) / 1000);
-    const adjustedElapsed = realTimeElapsed - timer.totalPausedDuration;
-    
-    setCurrentElapsed(Math.max(0, adjustedElapsed));
+    setCurrentElapsed(elapsedOf(timerStatus?.timer ?? null));
   }, [timerStatus]);
 
   // Fetch current timer status
   const refreshStatus = useCallback(async () => {
     try {
       setError(null);
-      const status = await timeTrackerService.getStatus();
-      setTimerStatus(status);
-      
-      // Update elapsed time immediately
-      if (status.hasActiveTimer && status.timer) {
-        const timer = status.timer;
-        if (!timer.isPaused) {
-          const now = Date.now();
-          const startTime = new Date(timer.startTime).getTime();
-          const realTimeElapsed = Math.floor((now - startTime) / 1000);
-          const adjustedElapsed = realTimeElapsed - timer.totalPausedDuration;
-          setCurrentElapsed(Math.max(0, adjustedElapsed));
-        } else {
-          setCurrentElapsed(timer.elapsedSeconds);
-        }
-      } else {
-        setCurrentElapsed(0);
-      }
+      applyStatus(await timeTrackerService.getStatus());
     } catch (err) {
       console.error('Failed to fetch timer status:', err);
       setError(err instanceof Error ? err.message : 'Failed to fetch timer status');
     }
-  }, []);
+  }, [applyStatus]);
 
   // Start timer
   const startTimer = useCallback(async (data: StartTimerData) => {
@@ -88,10 +78,7 @@ export const useTimeTracker = () => {
       setIsLoading(true);
       setError(null);
       
-      const result = await timeTrackerService.startTimer(data);
-      
-      // Refresh status to get updated timer info
-      await refreshStatus();
+      applyStatus(await timeTrackerService.startTimer({ timerId: uuidv4(), ...data }));
     } catch (err) {
       console.error('Failed to start timer:', err);
       setError(err instanceof Error ? err.message : 'Failed to start timer');
@@ -99,7 +86,7 @@ export const useTimeTracker = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [refreshStatus]);
+  }, [applyStatus]);
 
   // Pause timer
   const pauseTimer = useCallback(async (reason?: string) => {
@@ -107,8 +94,7 @@ export const useTimeTracker = () => {
       setIsLoading(true);
       setError(null);
       
-      await timeTrackerService.pauseTimer(reason);
-      await refreshStatus();
+      applyStatus(await timeTrackerService.pauseTimer(timerIdOf(timerStatus), reason));
     } catch (err) {
       console.error('Failed to pause timer:', err);
       setError(err instanceof Error ? err.message : 'Failed to pause timer');
@@ -116,7 +102,7 @@ export const useTimeTracker = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [refreshStatus]);
+  }, [applyStatus, timerStatus]);
 
   // Resume timer
   const resumeTimer = useCallback(async () => {
@@ -124,8 +110,7 @@ export const useTimeTracker = () => {
       setIsLoading(true);
       setError(null);
       
-      await timeTrackerService.resumeTimer();
-      await refreshStatus();
+      applyStatus(await timeTrackerService.resumeTimer(timerIdOf(timerStatus)));
     } catch (err) {
       console.error('Failed to resume timer:', err);
       setError(err instanceof Error ? err.message : 'Failed to resume timer');
@@ -133,7 +118,7 @@ export const useTimeTracker = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [refreshStatus]);
+  }, [applyStatus, timerStatus]);
 
   // Stop timer
   const stopTimer = useCallback(async () => {
@@ -141,13 +126,10 @@ export const useTimeTracker = () => {
       setIsLoading(true);
       setError(null);
       
-      const result = await timeTrackerService.stopTimer();
-      
-      // Clear timer state
-      setTimerStatus({ hasActiveTimer: false, timer: null });
-      setCurrentElapsed(0);
+      const { timeEntry, ...status } = await timeTrackerService.stopTimer(timerIdOf(timerStatus));
+      applyStatus(status);
       
-      return result.timeEntry;
+      return timeEntry;
     } catch (err) {
       console.error('Failed to stop timer:', err);
       setError(err instanceof Error ? err.message : 'Failed to stop timer');
@@ -155,7 +137,23 @@ export const useTimeTracker = () => {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [applyStatus, timerStatus]);
+
+  // Discard timer without a time entry
+  const discardTimer = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      
+      applyStatus(await timeTrackerService.discardTimer(timerIdOf(timerStatus)));
+    } catch (err) {
+      console.error('Failed to discard timer:', err);
+      setError(err instanceof Error ? err.message : 'Failed to discard timer');
+      throw err;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [applyStatus, timerStatus]);
 
   // Set up interval for updating elapsed time
   useEffect(() => {
@@ -198,6 +196,7 @@ export const useTimeTracker = () => {
     pauseTimer,
     resumeTimer,
     stopTimer,
+    discardTimer,
     currentElapsed,
     formattedElapsed,
     formattedElapsedHuman,
@@ -1,14 +1,16 @@
 import { Handle, Position, type NodeProps } from '@xyflow/react';
 import { Calendar, User, Flag, Clock } from 'lucide-react';
 import { KanbanTask, TeamMember } from '../types';
+import { type TaskNode } from './types';
 
-export interface TaskNodeData {
+export type TaskNodeData = {
   task: KanbanTask;
   teamMembers?: TeamMember[];
-}
+  isCritical?: boolean;
+};
 
-export function TaskNode({ data, selected }: NodeProps<TaskNodeData>) {
-  const { task, teamMembers } = data;
+export function TaskNode({ data, selected }: NodeProps<TaskNode>) {
+  const { task, teamMembers, isCritical } = data;
   
   const getPriorityColor = (priority: string) => {
     switch (priority) {
@@ -36,7 +38,11 @@ export function TaskNode({ data, selected }: NodeProps<TaskNodeData>) {
 
   return (
     <div className={`bg-white border-2 rounded-xl p-3 min-w-[200px] max-w-[250px] shadow-lg transition-all duration-300 hover:shadow-xl ${
-      selected ? 'border-primary ring-2 ring-primary/30' : 'border-gray-200 hover:border-gray-300'
+      selected
+        ? 'border-primary ring-2 ring-primary/30'
+        : isCritical
+          ? 'border-red-400 ring-2 ring-red-200'
+          : 'border-gray-200 hover:border-gray-300'
     }`}>
       <div className="flex items-start justify-between mb-2">
         <div className="text-sm font-semibold text-gray-900 leading-tight flex-1 mr-2">
@@ -72,6 +78,13 @@ export function TaskNode({ data, selected }: NodeProps<TaskNodeData>) {
         )}
       </div>
 
+      {task.estimatedHours != null && (
+        <div className={`flex items-center gap-1 text-xs mb-3 ${isCritical ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+          <Clock size={12} />
+          <span>{task.estimatedHours}h estimated{isCritical ? ' · critical path' : ''}</span>
+        </div>
+      )}
+
       {assignedMembers.length > 0 && (
         <div className="flex items-center gap-2 mb-3">
           <User size={12} className="text-gray-400" />
@@ -0,0 +1,360 @@
+import { useState, useEffect, useCallback } from 'react';
+import ReactQuill from 'react-quill';
+import 'react-quill/dist/quill.snow.css';
+import { format } from 'date-fns';
+import {
+  AlertTriangle,
+  BadgeCheck,
+  Calendar,
+  CheckCircle,
+  Download,
+  ExternalLink,
+  FileText,
+  FolderKanban,
+  LogOut,
+  MapPin,
+  MessageSquare
+} from 'lucide-react';
+import { portalService, fileUrl } from '../services';
+import { useAuth } from '../hooks/useAuth';
+import { useWorkspace } from '../context/WorkspaceContext';
+import { ClientApprovalStatus, PortalOverview, PortalResource, PortalTask } from '../types';
+
+const APPROVAL_BADGES: Record<ClientApprovalStatus, { label: string; className: string }> = {
+  pending: { label: 'Awaiting your approval', className: 'bg-amber-100 text-amber-800' },
+  approved: { label: 'Approved', className: 'bg-green-100 text-green-800' },
+  changes_requested: { label: 'Changes requested', className: 'bg-red-100 text-red-800' }
+};
+
+const WORKFLOW_STATUS_LABELS: Record<string, string> = {
+  active: 'In progress',
+  paused: 'Paused',
+  completed: 'Completed'
+};
+
+const formatDate = (date?: Date | string | null) => (date ? format(new Date(date), 'MMM d, yyyy') : null);
+
+function ResourceItem({ resource }: { resource: PortalResource }) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (resource.type === 'document') {
+    return (
+      <li className="border border-gray-200 rounded-lg">
+        <button
+          onClick={() => setIsOpen(prev => !prev)}
+          className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-800 hover:bg-gray-50 text-left"
+        >
+          <FileText className="w-4 h-4 text-blue-600 flex-shrink-0" />
+          <span className="flex-1 truncate">{resource.title}</span>
+          <span className="text-xs text-blue-600">{isOpen ? 'Hide' : 'Read'}</span>
+        </button>
+        {isOpen && (
+          <div className="border-t border-gray-200">
+            <ReactQuill theme="snow" value={resource.content || ''} readOnly modules={{ toolbar: false }} />
+          </div>
+        )}
+      </li>
+    );
+  }
+
+  return (
+    <li>
+      <a
+        href={resource.downloadUrl ? fileUrl(resource.downloadUrl) : resource.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="flex items-center gap-2 px-3 py-2 text-sm text-gray-800 border border-gray-200 rounded-lg hover:bg-gray-50"
+      >
+        {resource.thumbnailUrl ? (
+          <img src={fileUrl(resource.thumbnailUrl)} alt="" className="w-8 h-8 rounded object-cover flex-shrink-0" />
+        ) : resource.downloadUrl ? (
+          <Download className="w-4 h-4 text-blue-600 flex-shrink-0" />
+        ) : (
+          <ExternalLink className="w-4 h-4 text-blue-600 flex-shrink-0" />
+        )}
+        <span className="flex-1 truncate">{resource.title}</span>
+        {resource.fileName && <span className="text-xs text-gray-500 truncate">{resource.fileName}</span>}
+      </a>
+    </li>
+  );
+}
+
+// Approve / request changes form of a deliverable that awaits the client's decision
+function ApprovalForm({ task, onDecided }: { task: PortalTask; onDecided: (task: PortalTask) => void }) {
+  const [comment, setComment] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const submit = async (decision: Exclude<ClientApprovalStatus, 'pending'>) => {
+    if (decision === 'changes_requested' && !comment.trim()) {
+      setError('Please describe the changes you need.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError('');
+    try {
+      onDecided(await portalService.decide(task.id, decision, comment.trim() || undefined));
+      setComment('');
+    } catch {
+      setError('Failed to send your decision');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="mt-3 space-y-2">
+      <textarea
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        rows={2}
+        placeholder="Add a comment (required when requesting changes)"
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      />
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex gap-2">
+        <button
+          onClick={() => submit('approved')}
+          disabled={isSubmitting}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-green-600 text-white text-sm rounded-lg hover:bg-green-700 disabled:opacity-50"
+        >
+          <CheckCircle className="w-4 h-4" />
+          Approve
+        </button>
+        <button
+          onClick={() => submit('changes_requested')}
+          disabled={isSubmitting}
+          className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 text-sm rounded-lg hover:bg-gray-50 disabled:opacity-50"
+        >
+          <MessageSquare className="w-4 h-4" />
+          Request changes
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// What a client contact (client_guest) sees instead of the app: their projects, shared tasks and meetings
+export function ClientPortalPage() {
+  const { user, logout } = useAuth();
+  const { currentWorkspace, workspaces, selectWorkspace } = useWorkspace();
+  const [overview, setOverview] = useState<PortalOverview | null>(null);
+  const [tasks, setTasks] = useState<PortalTask[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const fetchPortal = useCallback(async () => {
+    setIsLoading(true);
+    setError('');
+    try {
+      const portal = await portalService.getOverview();
+      setOverview(portal);
+      setTasks(portal.permissions.includes('tasks:view') ? await portalService.getTasks() : []);
+    } catch {
+      setError('Failed to load the client portal');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPortal();
+  }, [fetchPortal, currentWorkspace?.id]);
+
+  const replaceTask = (updated: PortalTask) => {
+    setTasks(prev => prev.map(task => (task.id === updated.id ? { ...task, approval: updated.approval } : task)));
+  };
+
+  const canDecide = overview?.permissions.includes('tasks:comment') ?? false;
+  const pendingTasks = tasks.filter(task => task.approval?.status === 'pending');
+  const portalWorkspaces = workspaces.filter(workspace => workspace.userRole === 'client_guest');
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200">
+        <div className="max-w-5xl mx-auto px-6 py-4 flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-xl font-bold text-gray-900">
+              {overview ? overview.client.company || overview.client.name : 'Client Portal'}
+            </h1>
+            <p className="text-sm text-gray-600">
+              {overview ? `Projects with ${overview.workspace.name}` : 'Your projects'}
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            {portalWorkspaces.length > 1 && (
+              <select
+                value={currentWorkspace?.id || ''}
+                onChange={(e) => {
+                  const workspace = portalWorkspaces.find(item => item.id === e.target.value);
+                  if (workspace) selectWorkspace(workspace);
+                }}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+              >
+                {portalWorkspaces.map(workspace => (
+                  <option key={workspace.id} value={workspace.id}>{workspace.name}</option>
+                ))}
+              </select>
+            )}
+            <span className="hidden sm:block text-sm text-gray-600">{user?.email}</span>
+            <button
+              onClick={logout}
+              className="inline-flex items-center gap-2 px-3 py-2 border border-gray-300 text-gray-700 text-sm rounded-lg hover:bg-gray-50"
+            >
+              <LogOut className="w-4 h-4" />
+              Sign out
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-6 py-6 space-y-6">
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-2">
+            <AlertTriangle className="w-4 h-4 mt-0.5 text-red-500 flex-shrink-0" />
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center p-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : overview && (
+          <>
+            {/* Deliverables awaiting approval */}
+            {pendingTasks.length > 0 && (
+              <section className="bg-amber-50 border border-amber-200 rounded-xl p-5">
+                <h2 className="flex items-center gap-2 font-semibold text-amber-900 mb-3">
+                  <BadgeCheck className="w-5 h-5" />
+                  Awaiting your approval ({pendingTasks.length})
+                </h2>
+                <ul className="space-y-4">
+                  {pendingTasks.map(task => (
+                    <li key={task.id} className="bg-white border border-amber-200 rounded-lg p-4">
+                      <p className="font-medium text-gray-900">{task.title}</p>
+                      <p className="text-xs text-gray-500">{task.workflow.name}</p>
+                      {task.description && <p className="mt-2 text-sm text-gray-700 whitespace-pre-line">{task.description}</p>}
+                      {task.resources.length > 0 && (
+                        <ul className="mt-3 space-y-2">
+                          {task.resources.map(resource => <ResourceItem key={resource.id} resource={resource} />)}
+                        </ul>
+                      )}
+                      {canDecide && <ApprovalForm task={task} onDecided={replaceTask} />}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            {/* Projects */}
+            <section className="bg-white border border-gray-200 rounded-xl p-5">
+              <h2 className="flex items-center gap-2 font-semibold text-gray-900 mb-4">
+                <FolderKanban className="w-5 h-5 text-blue-600" />
+                Projects
+              </h2>
+              {overview.workflows.length === 0 ? (
+                <p className="text-sm text-gray-500">No projects to show yet.</p>
+              ) : (
+                <ul className="space-y-4">
+                  {overview.workflows.map(workflow => (
+                    <li key={workflow.id}>
+                      <div className="flex items-center justify-between gap-3">
+                        <p className="font-medium text-gray-900">{workflow.name}</p>
+                        <span className="text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-700">
+                          {WORKFLOW_STATUS_LABELS[workflow.status] || workflow.status}
+                        </span>
+                      </div>
+                      <div className="mt-2 flex items-center gap-3">
+                        <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+                          <div className="h-full bg-blue-600 rounded-full" style={{ width: `${workflow.progress.percentage}%` }} />
+                        </div>
+                        <span className="text-sm text-gray-700 w-12 text-right">{workflow.progress.percentage}%</span>
+                      </div>
+                      <p className="mt-1 text-xs text-gray-500">
+                        {workflow.progress.completedTasks} of {workflow.progress.totalTasks} tasks done
+                        {workflow.expectedEndDate && ` · Expected ${formatDate(workflow.expectedEndDate)}`}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            <div className="grid gap-6 md:grid-cols-3">
+              {/* Shared tasks */}
+              <section className="md:col-span-2 bg-white border border-gray-200 rounded-xl p-5">
+                <h2 className="font-semibold text-gray-900 mb-4">Shared with you</h2>
+                {tasks.length === 0 ? (
+                  <p className="text-sm text-gray-500">Nothing has been shared with you yet.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {tasks.map(task => (
+                      <li key={task.id} className="py-3">
+                        <div className="flex items-start justify-between gap-3">
+                          <div className="min-w-0">
+                            <p className="font-medium text-gray-900">{task.title}</p>
+                            <p className="text-xs text-gray-500">
+                              {task.workflow.name}
+                              {task.dueDate && ` · Due ${formatDate(task.dueDate)}`}
+                            </p>
+                          </div>
+                          <div className="flex flex-col items-end gap-1 flex-shrink-0">
+                            <span className="text-xs px-2 py-1 rounded-full bg-blue-50 text-blue-700">{task.statusTitle}</span>
+                            {task.approval && (
+                              <span className={`text-xs px-2 py-1 rounded-full ${APPROVAL_BADGES[task.approval.status].className}`}>
+                                {APPROVAL_BADGES[task.approval.status].label}
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                        {task.approval?.comment && task.approval.status !== 'pending' && (
+                          <p className="mt-1 text-sm text-gray-600 italic">“{task.approval.comment}”</p>
+                        )}
+                        {task.resources.length > 0 && task.approval?.status !== 'pending' && (
+                          <ul className="mt-2 space-y-2">
+                            {task.resources.map(resource => <ResourceItem key={resource.id} resource={resource} />)}
+                          </ul>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+
+              {/* Upcoming meetings */}
+              <section className="bg-white border border-gray-200 rounded-xl p-5">
+                <h2 className="flex items-center gap-2 font-semibold text-gray-900 mb-4">
+                  <Calendar className="w-5 h-5 text-blue-600" />
+                  Upcoming meetings
+                </h2>
+                {overview.meetings.length === 0 ? (
+                  <p className="text-sm text-gray-500">No meetings scheduled.</p>
+                ) : (
+                  <ul className="space-y-3">
+                    {overview.meetings.map(meeting => (
+                      <li key={`${meeting.id}-${meeting.meetingDate}`} className="text-sm">
+                        <p className="font-medium text-gray-900">{meeting.title}</p>
+                        <p className="text-gray-600">
+                          {format(new Date(meeting.meetingDate), 'EEE, MMM d · HH:mm')} · {meeting.durationMinutes} min
+                        </p>
+                        {meeting.location && (
+                          <p className="flex items-center gap-1 text-gray-500">
+                            <MapPin className="w-3 h-3" />
+                            {meeting.location}
+                          </p>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,12 +1,61 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Dashboard } from '../components/Dashboard';
 import { useAppContext } from '../hooks/useAppContext';
+import { useWorkspace } from '../context/WorkspaceContext';
+import { budgetService, dashboardService } from '../services';
+import { presetRange } from '../services/dashboardService';
+import { Budget, BudgetAlert, DashboardAnalytics, DashboardRange } from '../types';
 
 const DashboardPage: React.FC = () => {
   const navigate = useNavigate();
   const { dashboardStats, clients, workflows } = useAppContext(); // TODO: Removed teamMembers for user auth implementation
+  const { currentWorkspace } = useWorkspace();
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [budgetAlerts, setBudgetAlerts] = useState<BudgetAlert[]>([]);
+  const [analyticsRange, setAnalyticsRange] = useState<DashboardRange>(() => presetRange('30d'));
+  const [analytics, setAnalytics] = useState<DashboardAnalytics | null>(null);
+  const [analyticsLoading, setAnalyticsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!currentWorkspace) return;
+
+    const loadBudgets = async () => {
+      try {
+        const [budgetList, alerts] = await Promise.all([
+          budgetService.getAll(),
+          budgetService.getAlerts()
+        ]);
+        setBudgets(budgetList);
+        setBudgetAlerts(alerts);
+      } catch (error) {
+        console.error('Failed to load budgets:', error);
+      }
+    };
+
+    loadBudgets();
+  }, [currentWorkspace]);
+
+  useEffect(() => {
+    if (!currentWorkspace) return;
+
+    // Ignore answers for a range the user has already moved away from
+    let current = true;
+    setAnalyticsLoading(true);
+    dashboardService.getAnalytics(analyticsRange)
+      .then(result => {
+        if (current) setAnalytics(result);
+      })
+      .catch(error => console.error('Failed to load dashboard analytics:', error))
+      .finally(() => {
+        if (current) setAnalyticsLoading(false);
+      });
+
+    return () => {
+      current = false;
+    };
+  }, [currentWorkspace, analyticsRange]);
 
   const handleViewChange = (view: string) => {
     navigate(`/${view}`);
@@ -16,6 +65,15 @@ const DashboardPage: React.FC = () => {
     navigate(`/workflows?client=${clientId}`);
   };
 
+  const handleDismissBudgetAlert = async (alertId: string) => {
+    try {
+      await budgetService.dismissAlert(alertId);
+      setBudgetAlerts(prev => prev.filter(alert => alert.id !== alertId));
+    } catch (error) {
+      console.error('Failed to dismiss budget alert:', error);
+    }
+  };
+
   const activeWorkflows = workflows.filter((w: any) => w.status === 'active');
 
   return (
@@ -24,10 +82,17 @@ const DashboardPage: React.FC = () => {
       recentClients={clients}
       activeWorkflows={activeWorkflows}
       teamMembers={[]} // TODO: Pass empty array for now during user auth implementation
+      budgets={budgets}
+      budgetAlerts={budgetAlerts}
+      analytics={analytics}
+      analyticsRange={analyticsRange}
+      analyticsLoading={analyticsLoading}
+      onAnalyticsRangeChange={setAnalyticsRange}
       onViewChange={handleViewChange}
       onClientSelect={handleClientSelect}
+      onDismissBudgetAlert={handleDismissBudgetAlert}
     />
   );
 };
 
-export default DashboardPage;
\ No newline at end of file
+export default DashboardPage;
@@ -0,0 +1,184 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { GanttChartSquare, Printer, ZoomIn, ZoomOut } from 'lucide-react';
+import { GanttChart, GanttZoom } from '../components/GanttChart';
+import { TaskEditModal } from '../components/TaskEditModal';
+import { useAppContext } from '../hooks/useAppContext';
+import { useTaskActions } from '../hooks/useTaskActions';
+import { taskService, workflowService } from '../services';
+import { KanbanTask, TaskDependency } from '../types';
+
+const GanttPage: React.FC = () => {
+  const { workflows, clients, kanbanTasks, kanbanColumns } = useAppContext();
+  const { saveTask, deleteTask } = useTaskActions();
+
+  const [selectedClient, setSelectedClient] = useState('');
+  const [selectedWorkflow, setSelectedWorkflow] = useState('');
+  const [zoom, setZoom] = useState<GanttZoom>('day');
+  const [localTasks, setLocalTasks] = useState<KanbanTask[]>(kanbanTasks);
+  const [dependencies, setDependencies] = useState<TaskDependency[]>([]);
+  const [criticalTaskIds, setCriticalTaskIds] = useState<string[]>([]);
+  const [editingTask, setEditingTask] = useState<KanbanTask | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Sync local tasks with context tasks when they change
+  useEffect(() => {
+    setLocalTasks(kanbanTasks);
+  }, [kanbanTasks]);
+
+  const visibleWorkflows = useMemo(() => workflows.filter(workflow =>
+    (!selectedClient || workflow.clientId === selectedClient) &&
+    (!selectedWorkflow || workflow.id === selectedWorkflow)
+  ), [workflows, selectedClient, selectedWorkflow]);
+
+  // Dependencies and critical paths are stored per workflow
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all(visibleWorkflows.map(workflow => workflowService.getTaskDependencies(workflow.id)))
+      .then(results => {
+        if (cancelled) return;
+        setDependencies(results.flatMap(result => result.dependencies));
+        setCriticalTaskIds(results.flatMap(result =>
+          result.criticalPath.taskIds.length > 1 ? result.criticalPath.taskIds : []
+        ));
+      })
+      .catch(err => {
+        console.error('Failed to load task dependencies:', err);
+        if (!cancelled) setError('Failed to load task dependencies');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visibleWorkflows]);
+
+  const handleReschedule = useCallback(async (task: KanbanTask, startDate: Date, dueDate: Date) => {
+    // Optimistic update - move the bar immediately
+    setLocalTasks(prevTasks => prevTasks.map(t =>
+      t.id === task.id ? { ...t, startDate, dueDate } : t
+    ));
+
+    try {
+      const updated = await taskService.reschedule(task.id, {
+        startDate: startDate.toISOString(),
+        dueDate: dueDate.toISOString()
+      });
+      setLocalTasks(prevTasks => prevTasks.map(t => (t.id === task.id ? updated : t)));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to reschedule task:', err);
+      setLocalTasks(prevTasks => prevTasks.map(t => (t.id === task.id ? task : t)));
+      setError(`Failed to reschedule "${task.title}"`);
+    }
+  }, []);
+
+  const clientWorkflows = workflows.filter(workflow => !selectedClient || workflow.clientId === selectedClient);
+
+  return (
+    <div className="min-h-full bg-gray-50">
+      <div className="relative overflow-hidden bg-gradient-to-r from-primary via-accent to-primary text-white pt-16 lg:pt-0 print:hidden">
+        <div className="relative z-10 px-6 py-8">
+          <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+            <div>
+              <div className="flex items-center gap-3 mb-3">
+                <div className="w-12 h-12 bg-gradient-to-br from-tertiary to-secondary rounded-2xl flex items-center justify-center shadow-lg">
+                  <GanttChartSquare className="w-7 h-7 text-primary" />
+                </div>
+                <h1 className="text-3xl font-bold text-white">Timeline</h1>
+              </div>
+              <p className="text-lg text-white/90 font-medium">
+                Drag bars to reschedule, drag their edges to change duration
+              </p>
+            </div>
+
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => setZoom(zoom === 'day' ? 'week' : 'day')}
+                className="flex items-center gap-2 px-5 py-3 bg-white/10 hover:bg-white/20 text-white rounded-2xl font-semibold transition-all duration-200"
+              >
+                {zoom === 'day' ? <ZoomOut className="w-5 h-5" /> : <ZoomIn className="w-5 h-5" />}
+                {zoom === 'day' ? 'Weeks' : 'Days'}
+              </button>
+              <button
+                onClick={() => window.print()}
+                className="flex items-center gap-2 px-5 py-3 bg-tertiary hover:bg-tertiary/90 text-primary rounded-2xl font-semibold transition-all duration-200 shadow-xl"
+              >
+                <Printer className="w-5 h-5" />
+                Print
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-4">
+        <div className="flex flex-wrap items-center gap-3 print:hidden">
+          <select
+            value={selectedClient}
+            onChange={(e) => {
+              setSelectedClient(e.target.value);
+              setSelectedWorkflow('');
+            }}
+            className="form-input max-w-xs"
+          >
+            <option value="">All clients</option>
+            {clients.map(client => (
+              <option key={client.id} value={client.id}>
+                {client.company} - {client.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={selectedWorkflow}
+            onChange={(e) => setSelectedWorkflow(e.target.value)}
+            className="form-input max-w-xs"
+          >
+            <option value="">All workflows</option>
+            {clientWorkflows.map(workflow => (
+              <option key={workflow.id} value={workflow.id}>{workflow.name}</option>
+            ))}
+          </select>
+
+          <div className="flex items-center gap-4 ml-auto text-xs text-gray-600">
+            <span className="flex items-center gap-1.5">
+              <span className="w-4 h-2 rounded bg-primary/30 border border-primary/40" /> Workflow plan
+            </span>
+            <span className="flex items-center gap-1.5">
+              <span className="w-4 h-2 rounded bg-blue-500 ring-2 ring-red-400" /> Critical path
+            </span>
+            <span className="flex items-center gap-1.5">
+              <span className="w-4 h-0.5 bg-orange-500" /> Dependency conflict
+            </span>
+          </div>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 text-red-700 rounded-xl text-sm">{error}</div>
+        )}
+
+        <GanttChart
+          workflows={visibleWorkflows}
+          tasks={localTasks}
+          dependencies={dependencies}
+          criticalTaskIds={criticalTaskIds}
+          zoom={zoom}
+          onReschedule={handleReschedule}
+          onTaskClick={setEditingTask}
+        />
+      </div>
+
+      <TaskEditModal
+        task={editingTask}
+        isOpen={editingTask !== null}
+        onClose={() => setEditingTask(null)}
+        onSave={saveTask}
+        onDelete={deleteTask}
+        teamMembers={[]}
+        workflows={workflows}
+        columns={kanbanColumns}
+      />
+    </div>
+  );
+};
+
+export default GanttPage;
@@ -0,0 +1,224 @@
+import React, { useState, useEffect } from 'react';
+import { BarChart3, RefreshCw } from 'lucide-react';
+import { useWorkspace } from '../context/WorkspaceContext';
+import { useAppContext } from '../hooks/useAppContext';
+import { taskService } from '../services';
+import { DASHBOARD_RANGE_PRESETS, DashboardRangePreset, presetRange } from '../services/dashboardService';
+import { KanbanAnalytics, KanbanAnalyticsFilters, DashboardRange, AnalyticsGrouping } from '../types';
+import {
+  CumulativeFlowChart,
+  WipChart,
+  ThroughputHistogram,
+  CycleTimeScatter,
+  CompletedTasksTable,
+  AgingWorkList
+} from '../components/FlowAnalytics';
+
+const Card: React.FC<{ title: string; subtitle: string; children: React.ReactNode }> = ({ title, subtitle, children }) => (
+  <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-5">
+    <h2 className="text-lg font-bold text-gray-900">{title}</h2>
+    <p className="text-sm text-gray-500 mb-4">{subtitle}</p>
+    {children}
+  </div>
+);
+
+const formatDays = (value: number | null) => (value === null ? '—' : `${value.toFixed(1)} d`);
+
+const KanbanAnalyticsPage: React.FC = () => {
+  const { currentWorkspace } = useWorkspace();
+  const { workflows, clients } = useAppContext();
+
+  const [preset, setPreset] = useState<DashboardRangePreset | 'custom'>('90d');
+  const [range, setRange] = useState<DashboardRange>(() => presetRange('90d'));
+  const [filters, setFilters] = useState<KanbanAnalyticsFilters>({});
+  const [analytics, setAnalytics] = useState<KanbanAnalytics | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [revision, setRevision] = useState(0);
+
+  useEffect(() => {
+    if (!currentWorkspace) return;
+
+    let cancelled = false;
+    setLoading(true);
+    taskService.getAnalytics(range, filters)
+      .then(result => {
+        if (cancelled) return;
+        setAnalytics(result);
+        setError(null);
+      })
+      .catch(err => {
+        console.error('Failed to load task analytics:', err);
+        if (!cancelled) setError('Failed to load task analytics');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentWorkspace, range, filters, revision]);
+
+  const handlePresetChange = (value: string) => {
+    setPreset(value as DashboardRangePreset | 'custom');
+    if (value !== 'custom') setRange(presetRange(value as DashboardRangePreset));
+  };
+
+  const handleDateChange = (changes: Partial<DashboardRange>) => {
+    const next = { ...range, ...changes };
+    if (next.from && next.to && next.from <= next.to) setRange(next);
+  };
+
+  const updateFilter = (key: keyof KanbanAnalyticsFilters, value: string) => {
+    setFilters(current => ({ ...current, [key]: value || undefined }));
+  };
+
+  const clientWorkflows = workflows.filter(workflow => !filters.clientId || workflow.clientId === filters.clientId);
+
+  return (
+    <div className="min-h-full bg-gray-50">
+      <div className="relative overflow-hidden bg-gradient-to-r from-primary via-accent to-primary text-white pt-16 lg:pt-0">
+        <div className="relative z-10 px-6 py-8">
+          <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+            <div>
+              <div className="flex items-center gap-3 mb-3">
+                <div className="w-12 h-12 bg-gradient-to-br from-tertiary to-secondary rounded-2xl flex items-center justify-center shadow-lg">
+                  <BarChart3 className="w-7 h-7 text-primary" />
+                </div>
+                <h1 className="text-3xl font-bold text-white">Flow Analytics</h1>
+              </div>
+              <p className="text-lg text-white/90 font-medium">
+                How work moved across the board, for retrospectives and forecasts
+              </p>
+            </div>
+
+            <button
+              onClick={() => setRevision(r => r + 1)}
+              disabled={loading}
+              className="flex items-center gap-2 px-5 py-3 bg-white/10 hover:bg-white/20 text-white rounded-2xl font-semibold transition-all duration-200 disabled:opacity-50"
+            >
+              <RefreshCw className={`w-5 h-5 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <div className="flex flex-wrap items-center gap-3">
+          <select value={preset} onChange={(e) => handlePresetChange(e.target.value)} className="form-input max-w-xs">
+            {(Object.keys(DASHBOARD_RANGE_PRESETS) as DashboardRangePreset[]).map(key => (
+              <option key={key} value={key}>{DASHBOARD_RANGE_PRESETS[key]}</option>
+            ))}
+            <option value="custom">Custom range</option>
+          </select>
+          {preset === 'custom' && (
+            <>
+              <input
+                type="date"
+                value={range.from}
+                max={range.to}
+                onChange={(e) => handleDateChange({ from: e.target.value })}
+                className="form-input max-w-xs"
+              />
+              <span className="text-gray-400 text-sm">to</span>
+              <input
+                type="date"
+                value={range.to}
+                min={range.from}
+                onChange={(e) => handleDateChange({ to: e.target.value })}
+                className="form-input max-w-xs"
+              />
+            </>
+          )}
+          <select
+            value={range.groupBy}
+            onChange={(e) => setRange({ ...range, groupBy: e.target.value as AnalyticsGrouping })}
+            className="form-input max-w-xs"
+          >
+            <option value="day">By day</option>
+            <option value="week">By week</option>
+            <option value="month">By month</option>
+          </select>
+
+          <select
+            value={filters.clientId || ''}
+            onChange={(e) => setFilters(current => ({ ...current, clientId: e.target.value || undefined, workflowId: undefined }))}
+            className="form-input max-w-xs"
+          >
+            <option value="">All clients</option>
+            {clients.map(client => (
+              <option key={client.id} value={client.id}>
+                {client.company} - {client.name}
+              </option>
+            ))}
+          </select>
+          <select value={filters.workflowId || ''} onChange={(e) => updateFilter('workflowId', e.target.value)} className="form-input max-w-xs">
+            <option value="">All workflows</option>
+            {clientWorkflows.map(workflow => (
+              <option key={workflow.id} value={workflow.id}>{workflow.name}</option>
+            ))}
+          </select>
+          <select value={filters.assigneeId || ''} onChange={(e) => updateFilter('assigneeId', e.target.value)} className="form-input max-w-xs">
+            <option value="">Anyone</option>
+            {analytics?.filterOptions.assignees.map(member => (
+              <option key={member.id} value={member.id}>{member.name}</option>
+            ))}
+          </select>
+          <select value={filters.tag || ''} onChange={(e) => updateFilter('tag', e.target.value)} className="form-input max-w-xs">
+            <option value="">All tags</option>
+            {analytics?.filterOptions.tags.map(tag => (
+              <option key={tag} value={tag}>{tag}</option>
+            ))}
+          </select>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 text-red-700 rounded-xl text-sm">{error}</div>
+        )}
+
+        {analytics && (
+          <div className={`space-y-6 ${loading ? 'opacity-60' : ''}`}>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              {[
+                { label: 'Tasks', value: String(analytics.taskCount) },
+                { label: 'Finished in range', value: String(analytics.completed.length) },
+                { label: 'Cycle time (85%)', value: formatDays(analytics.cycleTime.p85) },
+                { label: 'Lead time (85%)', value: formatDays(analytics.leadTime.p85) }
+              ].map(tile => (
+                <div key={tile.label} className="bg-white rounded-2xl shadow-lg border border-gray-100 p-5">
+                  <p className="text-sm font-medium text-gray-500">{tile.label}</p>
+                  <p className="text-2xl font-bold text-gray-900">{tile.value}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+              <Card title="Cumulative flow" subtitle="Tasks in each column at the end of each period">
+                <CumulativeFlowChart analytics={analytics} />
+              </Card>
+              <Card title="Work in progress" subtitle="Tasks that have started but are not done">
+                <WipChart analytics={analytics} />
+              </Card>
+              <Card title="Cycle time" subtitle="Days from starting to finishing each task">
+                <CycleTimeScatter analytics={analytics} />
+              </Card>
+              <Card title="Throughput" subtitle={`How often a ${analytics.range.groupBy} finished each number of tasks`}>
+                <ThroughputHistogram analytics={analytics} />
+              </Card>
+              <Card title="Aging work in progress" subtitle="Amber past the median cycle time, red past the 85th percentile">
+                <AgingWorkList analytics={analytics} />
+              </Card>
+              <Card title="Finished tasks" subtitle="Cycle time from start, lead time from creation">
+                <CompletedTasksTable analytics={analytics} />
+              </Card>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default KanbanAnalyticsPage;
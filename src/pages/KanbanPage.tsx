@@ -1,19 +1,77 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Repeat } from 'lucide-react';
 import { KanbanBoard } from '../components/KanbanBoard';
+import { BoardFilterBar } from '../components/BoardFilterBar';
 import { TaskEditModal } from '../components/TaskEditModal';
 import { TaskResourceEditor } from '../components/TaskResourceEditor';
+import { RecurringTasksModal } from '../components/RecurringTasksModal';
 import { useAppContext } from '../hooks/useAppContext';
 import { useTaskActions } from '../hooks/useTaskActions';
-import { taskService } from '../services';
-import { KanbanTask, WorkflowStep } from '../types';
+import { useRealtime } from '../hooks/useRealtime';
+import { useAuth } from '../hooks/useAuth';
+import { usePermissions } from '../hooks/usePermissions';
+import { useWorkspace } from '../context/WorkspaceContext';
+import { taskService, boardViewService, workspaceService } from '../services';
+import { configFromSearchParams, configToSearchParams } from '../services/boardViewService';
+import { KanbanTask, WorkflowStep, BoardView, BoardViewConfig, TeamMember } from '../types';
 
 const KanbanPage: React.FC = () => {
   const { kanbanColumns, kanbanTasks, workflows, clients, refresh } = useAppContext(); // TODO: Removed teamMembers for user auth implementation
   const { moveTask, saveTask, deleteTask } = useTaskActions();
+  const { presence } = useRealtime();
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const { currentWorkspace } = useWorkspace();
+
+  // Teammates with the board open in any tab
+  const viewers = presence.filter(viewer => viewer.id !== user?.id && viewer.locations.includes('kanban'));
   
-  const [selectedWorkflow, setSelectedWorkflow] = useState<string | undefined>();
-  const [selectedClient, setSelectedClient] = useState<string | undefined>();
-  
+  // The board's filters and layout live in the URL (?view=<saved view>&lane=assignee&q=...), so a
+  // reload or a shared link shows the same board
+  const [searchParams, setSearchParams] = useSearchParams();
+  const boardConfig = useMemo(() => configFromSearchParams(searchParams), [searchParams]);
+  const viewId = searchParams.get('view');
+  const selectedWorkflow = boardConfig.workflowId;
+
+  const [views, setViews] = useState<BoardView[]>([]);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const activeView = views.find(view => view.id === viewId) || null;
+
+  useEffect(() => {
+    if (!currentWorkspace) return;
+
+    boardViewService.getAll()
+      .then(setViews)
+      .catch(err => console.error('Failed to load board views:', err));
+    workspaceService.getWorkspace(currentWorkspace.id)
+      .then(workspace => setMembers((workspace.members || []).map(member => ({
+        id: member.id,
+        name: member.name,
+        email: member.email,
+        role: member.workspaceRole,
+        skills: [],
+        isActive: true,
+        createdAt: member.joinedAt
+      }))))
+      .catch(err => console.error('Failed to load workspace members:', err));
+  }, [currentWorkspace]);
+
+  // A link with only ?view=<id> shows the saved view as it was saved
+  useEffect(() => {
+    if (!activeView || [...searchParams.keys()].some(key => key !== 'view')) return;
+    const params = configToSearchParams(activeView.config, activeView.id);
+    if (params.toString() !== searchParams.toString()) setSearchParams(params, { replace: true });
+  }, [activeView, searchParams, setSearchParams]);
+
+  const handleConfigChange = useCallback((config: BoardViewConfig) => {
+    setSearchParams(configToSearchParams(config, viewId), { replace: true });
+  }, [setSearchParams, viewId]);
+
+  const handleViewSelect = useCallback((view: BoardView | null) => {
+    setSearchParams(view ? configToSearchParams(view.config, view.id) : configToSearchParams(boardConfig));
+  }, [setSearchParams, boardConfig]);
+
   // Local tasks state for optimistic updates
   const [localTasks, setLocalTasks] = useState<KanbanTask[]>(kanbanTasks);
   
@@ -21,6 +79,11 @@ const KanbanPage: React.FC = () => {
   useEffect(() => {
     setLocalTasks(kanbanTasks);
   }, [kanbanTasks]);
+
+  const tags = useMemo(
+    () => [...new Set(localTasks.flatMap(task => task.tags || []))].sort((a, b) => a.localeCompare(b)),
+    [localTasks]
+  );
   
   // Task edit modal state
   const [taskEditModal, setTaskEditModal] = useState<{
@@ -40,6 +103,8 @@ const KanbanPage: React.FC = () => {
     task: null
   });
 
+  const [isRecurringTasksOpen, setIsRecurringTasksOpen] = useState(false);
+
   // New task context
   const [newTaskContext, setNewTaskContext] = useState<{
     columnId?: string;
@@ -124,7 +189,7 @@ const KanbanPage: React.FC = () => {
       <KanbanBoard
         columns={kanbanColumns}
         tasks={localTasks}
-        teamMembers={[]} // TODO: Pass empty array for now during user auth implementation
+        teamMembers={members}
         workflows={workflows}
         clients={clients}
         onTaskMove={handleTaskMove}
@@ -132,10 +197,29 @@ const KanbanPage: React.FC = () => {
         onTaskEdit={handleTaskEdit}
         onTaskResourcesOpen={handleTaskResourcesOpen}
         onRefresh={refresh}
-        selectedWorkflow={selectedWorkflow}
-        selectedClient={selectedClient}
-        onWorkflowChange={setSelectedWorkflow}
-        onClientChange={setSelectedClient}
+        view={boardConfig}
+        filterBar={
+          <BoardFilterBar
+            config={boardConfig}
+            onConfigChange={handleConfigChange}
+            views={views}
+            activeView={activeView}
+            onViewSelect={handleViewSelect}
+            onViewsChange={setViews}
+            currentUserId={user?.id}
+            teamMembers={members}
+            workflows={workflows}
+            clients={clients}
+            tags={tags}
+            actions={can('tasks:view') && (
+              <button onClick={() => setIsRecurringTasksOpen(true)} className="btn-outline">
+                <Repeat className="w-4 h-4" />
+                Recurring tasks
+              </button>
+            )}
+          />
+        }
+        viewers={viewers}
       />
       
       <TaskEditModal
@@ -158,6 +242,14 @@ const KanbanPage: React.FC = () => {
           onClose={handleResourceEditorClose}
         />
       )}
+
+      <RecurringTasksModal
+        workflows={workflows}
+        columns={kanbanColumns}
+        defaultWorkflowId={selectedWorkflow}
+        isOpen={isRecurringTasksOpen}
+        onClose={() => setIsRecurringTasksOpen(false)}
+      />
     </>
   );
 };
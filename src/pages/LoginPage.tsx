@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
+import { useNavigate, useSearchParams, Link } from 'react-router-dom';
 import { useAuth } from '../hooks/useAuth';
 import { TwoFactorVerification } from '../components/TwoFactorVerification';
 import { 
@@ -44,15 +44,19 @@ interface TwoFactorData {
 
 export function LoginPage() {
   const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
   const { loginWithEmail, loginWithGoogle, loginWithGitHub, sendMagicLink, isLoading } = useAuth()
   
+  // Client portal invitations link here with ?mode=magic-link&email=...
   const [formData, setFormData] = useState<LoginFormData>({
-    email: '',
+    email: searchParams.get('email') || '',
     password: ''
   })
   const [showPassword, setShowPassword] = useState(false)
   const [errors, setErrors] = useState<LoginFormErrors>({})
-  const [loginMode, setLoginMode] = useState<'password' | 'magic-link'>('password')
+  const [loginMode, setLoginMode] = useState<'password' | 'magic-link'>(
+    searchParams.get('mode') === 'magic-link' ? 'magic-link' : 'password'
+  )
   const [magicLinkSent, setMagicLinkSent] = useState(false)
   const [touchedFields, setTouchedFields] = useState<Set<string>>(new Set())
   const [isSubmitting, setIsSubmitting] = useState(false)
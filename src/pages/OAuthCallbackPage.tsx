@@ -1,6 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../hooks/useAuth';
+import { authService } from '../services/authService';
 import { LoadingCard } from '../components/LoadingSpinner';
 import { ErrorCard } from '../components/ErrorMessage';
 
@@ -63,9 +64,8 @@ export function OAuthCallbackPage() {
         
 
         
-        // Store authentication data using the same keys as your auth service
-        localStorage.setItem('auth-token', authData.token);
-        localStorage.setItem('auth-user', JSON.stringify(authData.user));
+        // Store authentication data through the auth service
+        authService.setAuthData(authData);
 
         // Refresh the auth context to update the user state
         await refreshSession();
@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
-import { Shield, Lock, Key, Bell, Activity, AlertTriangle } from 'lucide-react';
+import { Shield, Key, Bell, Activity, AlertTriangle } from 'lucide-react';
 import { TwoFactorSettings } from '../components/TwoFactorSettings';
+import { ActiveSessions } from '../components/ActiveSessions';
+import { SecurityActivity } from '../components/SecurityActivity';
 import { useAuth } from '../hooks/useAuth';
 
 export function SecurityPage() {
@@ -40,89 +42,10 @@ export function SecurityPage() {
         return <TwoFactorSettings />;
       
       case 'sessions':
-        return (
-          <div className="max-w-2xl mx-auto p-6">
-            <div className="bg-white rounded-xl shadow-lg border border-gray-200">
-              <div className="border-b border-gray-200 p-6">
-                <div className="flex items-center gap-3">
-                  <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
-                    <Activity className="w-5 h-5 text-blue-600" />
-                  </div>
-                  <div>
-                    <h2 className="text-xl font-bold text-gray-900">Active Sessions</h2>
-                    <p className="text-sm text-gray-600">Manage devices logged into your account</p>
-                  </div>
-                </div>
-              </div>
-              
-              <div className="p-6">
-                <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
-                  <div className="flex items-start gap-2">
-                    <AlertTriangle className="w-4 h-4 mt-0.5 text-blue-600 flex-shrink-0" />
-                    <div className="text-sm text-blue-800">
-                      <p className="font-semibold mb-1">Coming Soon</p>
-                      <p>Session management features are currently being developed and will be available in a future update.</p>
-                    </div>
-                  </div>
-                </div>
-                
-                <div className="space-y-4">
-                  <div className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
-                    <div className="flex items-center gap-3">
-                      <div className="w-8 h-8 bg-green-100 rounded-lg flex items-center justify-center">
-                        <Lock className="w-4 h-4 text-green-600" />
-                      </div>
-                      <div>
-                        <p className="font-medium text-gray-900">Current Session</p>
-                        <p className="text-sm text-gray-600">This device - Active now</p>
-                      </div>
-                    </div>
-                    <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded-full">
-                      Current
-                    </span>
-                  </div>
-                </div>
-              </div>
-            </div>
-          </div>
-        );
+        return <ActiveSessions />;
       
       case 'activity':
-        return (
-          <div className="max-w-2xl mx-auto p-6">
-            <div className="bg-white rounded-xl shadow-lg border border-gray-200">
-              <div className="border-b border-gray-200 p-6">
-                <div className="flex items-center gap-3">
-                  <div className="w-10 h-10 bg-purple-100 rounded-lg flex items-center justify-center">
-                    <Key className="w-5 h-5 text-purple-600" />
-                  </div>
-                  <div>
-                    <h2 className="text-xl font-bold text-gray-900">Security Activity</h2>
-                    <p className="text-sm text-gray-600">Monitor recent security events on your account</p>
-                  </div>
-                </div>
-              </div>
-              
-              <div className="p-6">
-                <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
-                  <div className="flex items-start gap-2">
-                    <AlertTriangle className="w-4 h-4 mt-0.5 text-blue-600 flex-shrink-0" />
-                    <div className="text-sm text-blue-800">
-                      <p className="font-semibold mb-1">Coming Soon</p>
-                      <p>Security activity logging is currently being developed and will be available in a future update.</p>
-                    </div>
-                  </div>
-                </div>
-                
-                <div className="text-center py-8 text-gray-500">
-                  <Key className="w-12 h-12 mx-auto mb-3 text-gray-300" />
-                  <p>No security events to display</p>
-                  <p className="text-sm mt-1">Security activity will appear here once logging is enabled</p>
-                </div>
-              </div>
-            </div>
-          </div>
-        );
+        return <SecurityActivity />;
       
       case 'notifications':
         return (
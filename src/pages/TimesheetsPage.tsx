@@ -0,0 +1,385 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ClipboardCheck, ChevronLeft, ChevronRight, Send, CheckCircle, XCircle, Lock, MessageSquare } from 'lucide-react';
+import { useWorkspace } from '../context/WorkspaceContext';
+import { timesheetService, timeUtils } from '../services';
+import { usePermissions } from '../hooks/usePermissions';
+import { Timesheet, TimesheetEntry, TimesheetStatus } from '../types';
+
+type Tab = 'mine' | 'review';
+
+const statusStyles: Record<TimesheetStatus, string> = {
+  open: 'bg-gray-100 text-gray-700',
+  submitted: 'bg-blue-100 text-blue-700',
+  approved: 'bg-green-100 text-green-700',
+  rejected: 'bg-red-100 text-red-700'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const shiftWeek = (weekStart: string, weeks: number) =>
+  new Date(new Date(`${weekStart}T00:00:00.000Z`).getTime() + weeks * 7 * DAY_MS).toISOString().split('T')[0];
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00.000Z`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const formatWeek = (timesheet: Timesheet) => `${formatDay(timesheet.weekStart)} – ${formatDay(timesheet.weekEnd)}`;
+
+const StatusBadge: React.FC<{ status: TimesheetStatus }> = ({ status }) => (
+  <span className={`px-2.5 py-1 rounded-full text-xs font-bold capitalize ${statusStyles[status]}`}>{status}</span>
+);
+
+// Entries of one week, grouped by (UTC) day
+const EntryList: React.FC<{ entries: TimesheetEntry[] }> = ({ entries }) => {
+  const days = new Map<string, TimesheetEntry[]>();
+  entries.forEach(entry => {
+    const day = entry.startTime.split('T')[0];
+    days.set(day, [...(days.get(day) || []), entry]);
+  });
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500 py-4">No time entries in this week.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {[...days.entries()].map(([day, dayEntries]) => (
+        <div key={day}>
+          <div className="flex items-center justify-between mb-2 text-sm font-semibold text-gray-700">
+            <span>{formatDay(day)}</span>
+            <span>
+              {timeUtils.formatDurationHuman(
+                dayEntries.filter(entry => !entry.isBreak).reduce((sum, entry) => sum + (entry.duration || 0), 0)
+              )}
+            </span>
+          </div>
+          <div className="space-y-1.5">
+            {dayEntries.map(entry => (
+              <div key={entry.id} className={`flex items-center justify-between p-3 rounded-xl text-sm ${entry.isBreak ? 'bg-gray-50 text-gray-400' : 'bg-gray-50'}`}>
+                <div className="flex items-center gap-3 min-w-0">
+                  <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: entry.categoryColor || '#64748b' }} />
+                  <div className="min-w-0">
+                    <div className="font-medium text-gray-900 truncate">
+                      {entry.isBreak ? 'Break' : entry.taskTitle || entry.description || 'Untitled entry'}
+                    </div>
+                    <div className="text-xs text-gray-500 truncate">
+                      {[entry.clientName, entry.workflowName, entry.categoryName].filter(Boolean).join(' · ')}
+                    </div>
+                  </div>
+                </div>
+                <div className="text-right flex-shrink-0 ml-3">
+                  <div className="font-semibold text-gray-900">{timeUtils.formatDurationHuman(entry.duration || 0)}</div>
+                  <div className="text-xs text-gray-500">
+                    {new Date(entry.startTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    {' – '}
+                    {new Date(entry.endTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const TimesheetsPage: React.FC = () => {
+  const { currentWorkspace } = useWorkspace();
+  const [tab, setTab] = useState<Tab>('mine');
+  const { can } = usePermissions();
+  const canReview = can('time_entries:manage');
+  const [error, setError] = useState<string | null>(null);
+
+  // My week
+  const [weekStart, setWeekStart] = useState<string | undefined>(undefined);
+  const [week, setWeek] = useState<Timesheet | null>(null);
+  const [history, setHistory] = useState<Timesheet[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Review
+  const [pending, setPending] = useState<Timesheet[]>([]);
+  const [reviewing, setReviewing] = useState<Timesheet | null>(null);
+  const [comment, setComment] = useState('');
+
+  const loadWeek = useCallback(async () => {
+    try {
+      const [weekData, mine] = await Promise.all([
+        timesheetService.getWeek(weekStart),
+        timesheetService.getMine()
+      ]);
+      setWeek(weekData);
+      setHistory(mine);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load timesheet:', err);
+      setError('Failed to load timesheet');
+    }
+  }, [weekStart]);
+
+  const loadPending = useCallback(async () => {
+    try {
+      setPending(await timesheetService.getPending());
+    } catch (err) {
+      console.error('Failed to load pending timesheets:', err);
+      setError('Failed to load pending timesheets');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadWeek();
+  }, [loadWeek, currentWorkspace]);
+
+  useEffect(() => {
+    if (canReview) loadPending();
+  }, [canReview, loadPending, currentWorkspace]);
+
+  const handleSubmit = async () => {
+    if (!week) return;
+    if (!window.confirm(`Submit ${formatWeek(week)} for approval? Its time entries will be locked until reviewed.`)) return;
+
+    try {
+      setIsSubmitting(true);
+      await timesheetService.submit(week.weekStart);
+      await loadWeek();
+      if (canReview) await loadPending();
+    } catch (err) {
+      console.error('Failed to submit timesheet:', err);
+      setError('Failed to submit timesheet');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleOpenReview = async (timesheet: Timesheet) => {
+    if (!timesheet.id) return;
+    try {
+      setReviewing(await timesheetService.getById(timesheet.id));
+      setComment('');
+    } catch (err) {
+      console.error('Failed to load timesheet:', err);
+      setError('Failed to load timesheet');
+    }
+  };
+
+  const handleReview = async (status: 'approved' | 'rejected') => {
+    if (!reviewing?.id) return;
+    if (status === 'rejected' && !comment.trim()) {
+      setError('Please add a comment explaining the rejection');
+      return;
+    }
+
+    try {
+      await timesheetService.review(reviewing.id, { status, comment: comment.trim() || undefined });
+      setReviewing(null);
+      setComment('');
+      setError(null);
+      await loadPending();
+    } catch (err) {
+      console.error('Failed to review timesheet:', err);
+      setError('Failed to review timesheet');
+    }
+  };
+
+  const isLocked = week?.status === 'submitted' || week?.status === 'approved';
+
+  return (
+    <div className="min-h-full bg-gray-50">
+      <div className="relative overflow-hidden bg-gradient-to-r from-primary via-accent to-primary text-white pt-16 lg:pt-0">
+        <div className="relative z-10 px-6 py-8">
+          <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+            <div>
+              <div className="flex items-center gap-3 mb-3">
+                <div className="w-12 h-12 bg-gradient-to-br from-tertiary to-secondary rounded-2xl flex items-center justify-center shadow-lg">
+                  <ClipboardCheck className="w-7 h-7 text-primary" />
+                </div>
+                <h1 className="text-3xl font-bold text-white">Timesheets</h1>
+              </div>
+              <p className="text-lg text-white/90 font-medium">
+                Submit your week for sign-off; approved weeks are locked
+              </p>
+            </div>
+
+            <div className="flex items-center gap-2 bg-white/10 rounded-2xl p-1">
+              <button
+                onClick={() => setTab('mine')}
+                className={`px-5 py-2.5 rounded-xl font-semibold transition-all duration-200 ${tab === 'mine' ? 'bg-tertiary text-primary shadow-lg' : 'text-white hover:bg-white/10'}`}
+              >
+                My Week
+              </button>
+              {canReview && (
+                <button
+                  onClick={() => setTab('review')}
+                  className={`flex items-center gap-2 px-5 py-2.5 rounded-xl font-semibold transition-all duration-200 ${tab === 'review' ? 'bg-tertiary text-primary shadow-lg' : 'text-white hover:bg-white/10'}`}
+                >
+                  Review
+                  {pending.length > 0 && (
+                    <span className="px-2 py-0.5 bg-red-500 text-white text-xs rounded-full">{pending.length}</span>
+                  )}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 text-red-700 rounded-xl text-sm">{error}</div>
+        )}
+
+        {tab === 'mine' && week && (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+                <div className="flex items-center gap-2">
+                  <button onClick={() => setWeekStart(shiftWeek(week.weekStart, -1))} className="p-2 hover:bg-gray-100 rounded-lg">
+                    <ChevronLeft className="w-5 h-5" />
+                  </button>
+                  <h2 className="text-lg font-bold text-gray-900">{formatWeek(week)}</h2>
+                  <button onClick={() => setWeekStart(shiftWeek(week.weekStart, 1))} className="p-2 hover:bg-gray-100 rounded-lg">
+                    <ChevronRight className="w-5 h-5" />
+                  </button>
+                  {weekStart && (
+                    <button onClick={() => setWeekStart(undefined)} className="text-sm text-primary font-medium hover:underline">
+                      This week
+                    </button>
+                  )}
+                </div>
+                <div className="flex items-center gap-3">
+                  <StatusBadge status={week.status} />
+                  <span className="text-sm font-bold text-gray-900">{timeUtils.formatDurationHuman(week.totalSeconds)}</span>
+                  {isLocked ? (
+                    <span className="flex items-center gap-1.5 text-sm text-gray-500">
+                      <Lock className="w-4 h-4" />
+                      Locked
+                    </span>
+                  ) : (
+                    <button
+                      onClick={handleSubmit}
+                      disabled={isSubmitting || week.entries.length === 0}
+                      className="btn-primary flex items-center gap-1.5 disabled:opacity-50"
+                    >
+                      <Send className="w-4 h-4" />
+                      {week.status === 'rejected' ? 'Resubmit' : 'Submit'}
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {week.status === 'rejected' && week.reviewComment && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-xl text-sm text-red-800">
+                  <div className="flex items-center gap-1.5 font-semibold mb-1">
+                    <MessageSquare className="w-4 h-4" />
+                    Rejected by {week.reviewerName || 'an admin'}
+                  </div>
+                  {week.reviewComment}
+                </div>
+              )}
+              {week.status === 'approved' && (
+                <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-xl text-sm text-green-800">
+                  Approved by {week.reviewerName || 'an admin'}
+                  {week.reviewComment && <> – {week.reviewComment}</>}
+                </div>
+              )}
+
+              <EntryList entries={week.entries} />
+            </div>
+
+            <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
+              <h3 className="text-sm font-bold text-gray-900 mb-3">History</h3>
+              {history.length === 0 ? (
+                <p className="text-sm text-gray-500">No submitted weeks yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {history.map(timesheet => (
+                    <button
+                      key={timesheet.id}
+                      onClick={() => setWeekStart(timesheet.weekStart)}
+                      className="w-full flex items-center justify-between p-3 rounded-xl border border-gray-200 hover:border-gray-300 text-left text-sm"
+                    >
+                      <span className="font-medium text-gray-900">{formatWeek(timesheet)}</span>
+                      <StatusBadge status={timesheet.status} />
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {tab === 'review' && canReview && (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
+              <h3 className="text-sm font-bold text-gray-900 mb-3">Pending submissions</h3>
+              {pending.length === 0 ? (
+                <p className="text-sm text-gray-500">Nothing waiting for review.</p>
+              ) : (
+                <div className="space-y-2">
+                  {pending.map(timesheet => (
+                    <button
+                      key={timesheet.id}
+                      onClick={() => handleOpenReview(timesheet)}
+                      className={`w-full p-3 rounded-xl border text-left text-sm transition-colors duration-200 ${
+                        reviewing?.id === timesheet.id ? 'border-secondary bg-secondary/5' : 'border-gray-200 hover:border-gray-300'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="font-semibold text-gray-900">{timesheet.userName}</span>
+                        <span className="font-bold text-gray-700">{timeUtils.formatDurationHuman(timesheet.totalSeconds)}</span>
+                      </div>
+                      <div className="text-xs text-gray-500 mt-1">{formatWeek(timesheet)}</div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="lg:col-span-2 bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
+              {reviewing ? (
+                <div className="space-y-5">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <h2 className="text-lg font-bold text-gray-900">{reviewing.userName}</h2>
+                      <p className="text-sm text-gray-500">
+                        {formatWeek(reviewing)} · {timeUtils.formatDurationHuman(reviewing.totalSeconds)}
+                      </p>
+                    </div>
+                    <StatusBadge status={reviewing.status} />
+                  </div>
+
+                  <EntryList entries={reviewing.entries} />
+
+                  <div>
+                    <label className="form-label">Comment</label>
+                    <textarea
+                      value={comment}
+                      onChange={(e) => setComment(e.target.value)}
+                      rows={3}
+                      className="form-input"
+                      placeholder="Required when rejecting"
+                    />
+                  </div>
+
+                  <div className="flex items-center justify-end gap-3">
+                    <button onClick={() => handleReview('rejected')} className="btn-outline flex items-center gap-1.5 text-red-600">
+                      <XCircle className="w-4 h-4" />
+                      Reject
+                    </button>
+                    <button onClick={() => handleReview('approved')} className="btn-primary flex items-center gap-1.5">
+                      <CheckCircle className="w-4 h-4" />
+                      Approve
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">Select a submission to review its entries.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TimesheetsPage;
@@ -5,7 +5,7 @@ import { useAppContext } from '../hooks/useAppContext';
 import { useWorkflowActions } from '../hooks/useWorkflowActions';
 
 const WorkflowsPage: React.FC = () => {
-  const { workflows, clients, teamMembers, kanbanTasks } = useAppContext();
+  const { workflows, clients, teamMembers, kanbanTasks, refresh } = useAppContext();
   const { createWorkflow, updateWorkflow, deleteWorkflow, updateWorkflowStatus } = useWorkflowActions();
   const [searchParams] = useSearchParams();
   const [selectedClientId, setSelectedClientId] = useState<string>('');
@@ -28,6 +28,9 @@ const WorkflowsPage: React.FC = () => {
       onWorkflowEdit={updateWorkflow}
       onWorkflowDelete={deleteWorkflow}
       onWorkflowStatusChange={updateWorkflowStatus}
+      onWorkflowGraphSaved={refresh}
+      onTemplateInstantiated={refresh}
+      onBudgetSaved={refresh}
       initialClientFilter={selectedClientId}
     />
   );
@@ -1,4 +1,10 @@
-const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+import { v4 as uuidv4 } from 'uuid';
+import { authService } from './authService';
+
+export const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+// Identifies this browser tab, so realtime events caused by our own requests can be skipped
+export const CLIENT_ID = uuidv4();
 
 console.log('🔧 API_BASE_URL:', API_BASE_URL);
 
@@ -9,7 +15,7 @@ export class ApiError extends Error {
   }
 }
 
-async function apiRequest<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+async function apiRequest<T>(endpoint: string, options: RequestInit = {}, retried = false): Promise<T> {
   const url = `${API_BASE_URL}${endpoint}`;
   
   console.log('🌐 Making API request:', { 
@@ -26,20 +32,32 @@ async function apiRequest<T>(endpoint: string, options: RequestInit = {}): Promi
   try {
     const response = await fetch(url, {
       headers: {
-        'Content-Type': 'application/json',
+        // The browser sets the multipart boundary of a FormData body itself
+        ...(!(options.body instanceof FormData) && { 'Content-Type': 'application/json' }),
         ...(token && { 'Authorization': `Bearer ${token}` }),
         ...(workspaceId && { 'X-Workspace-Id': workspaceId }),
+        'X-Client-Id': CLIENT_ID,
         ...options.headers,
       },
       ...options,
     });
 
+    // The access token expired: refresh it once and replay the request
+    if (response.status === 401 && token && !retried && await authService.refreshAccessToken()) {
+      return apiRequest<T>(endpoint, options, true);
+    }
+
     if (!response.ok) {
       const errorText = await response.text();
       console.error(`❌ API Error ${response.status}:`, errorText);
       throw new ApiError(response.status, errorText || `HTTP ${response.status}: ${response.statusText}`);
     }
 
+    // No Content responses (e.g. DELETE) have no body to parse
+    if (response.status === 204) {
+      return undefined as T;
+    }
+
     const data = await response.json();
     return data;
   } catch (error) {
@@ -68,6 +86,10 @@ export const api = {
   delete: (endpoint: string) => apiRequest(endpoint, {
     method: 'DELETE',
   }),
+  upload: <T>(endpoint: string, form: FormData) => apiRequest<T>(endpoint, {
+    method: 'POST',
+    body: form,
+  }),
 };
 
 export const apiService = {
@@ -76,4 +98,16 @@ export const apiService = {
   put: <T>(endpoint: string, data?: unknown): Promise<T> => api.put<T>(endpoint, data),
   patch: <T>(endpoint: string, data?: unknown): Promise<T> => api.patch<T>(endpoint, data),
   delete: (endpoint: string): Promise<unknown> => api.delete(endpoint),
-};
\ No newline at end of file
+  upload: <T>(endpoint: string, form: FormData): Promise<T> => api.upload<T>(endpoint, form),
+};
+
+// Absolute URL of a path the API returns (such as a signed /api/files/... link) on the API's host
+export const apiAssetUrl = (path: string) =>
+  new URL(path, new URL(API_BASE_URL, window.location.origin)).toString();
+
+// WebSocket URL of an API path such as /collab, on the API's host
+export const apiSocketUrl = (path: string) => {
+  const url = new URL(`${API_BASE_URL}${path}`, window.location.origin);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  return url.toString();
+};
@@ -24,8 +24,71 @@ interface AuthUser {
 
 interface AuthResponse {
   user: AuthUser
-  token: string
-  expires: string
+  accessToken: string
+  refreshToken: string
+  accessTokenExpires: string
+  refreshTokenExpires: string
+  rememberMe?: boolean
+}
+
+// A signed-in device, as listed on the security page
+interface AuthSession {
+  id: string
+  device: string | null
+  ip: string | null
+  userAgent: string | null
+  rememberMe: boolean
+  createdAt: string
+  lastSeenAt: string
+  expiresAt: string
+  isCurrent: boolean
+}
+
+type SecurityEventType =
+  | 'login'
+  | 'logout'
+  | 'account_locked'
+  | 'magic_link_requested'
+  | 'magic_link_used'
+  | 'oauth_linked'
+  | 'two_factor_enabled'
+  | 'two_factor_disabled'
+  | 'backup_code_used'
+  | 'backup_codes_regenerated'
+  | 'password_reset_requested'
+  | 'password_reset'
+  | 'session_revoked'
+  | 'sessions_revoked'
+  | 'refresh_token_reuse'
+
+// An entry of the account security audit log
+interface SecurityEvent {
+  id: string
+  userId: string | null
+  email: string | null
+  type: SecurityEventType
+  success: boolean
+  ip: string | null
+  userAgent: string | null
+  details: Record<string, unknown>
+  createdAt: string
+}
+
+// `scope: 'all'` and `email` are only honoured for admins
+interface SecurityLogFilters {
+  type?: SecurityEventType
+  success?: boolean
+  from?: string
+  to?: string
+  scope?: 'me' | 'all'
+  email?: string
+}
+
+interface SecurityLogPage {
+  logs: SecurityEvent[]
+  total: number
+  page: number
+  limit: number
 }
 
 // New interface for 2FA responses
@@ -49,6 +112,8 @@ class AuthService {
   private baseUrl = 'http://localhost:3001'
   private tokenKey = 'auth-token'
   private userKey = 'auth-user'
+  private refreshTokenKey = 'auth-refresh-token'
+  private refreshing: Promise<boolean> | null = null
 
   // Get stored token
   getToken(): string | null {
@@ -68,18 +133,60 @@ class AuthService {
     return !!(token && user)
   }
 
-  // Set authentication data
-  private setAuthData(response: AuthResponse) {
-    localStorage.setItem(this.tokenKey, response.token)
+  // Set authentication data (also used by the OAuth callback page)
+  setAuthData(response: AuthResponse) {
+    localStorage.setItem(this.tokenKey, response.accessToken)
+    localStorage.setItem(this.refreshTokenKey, response.refreshToken)
     localStorage.setItem(this.userKey, JSON.stringify(response.user))
   }
 
   // Clear authentication data
   private clearAuthData() {
     localStorage.removeItem(this.tokenKey)
+    localStorage.removeItem(this.refreshTokenKey)
     localStorage.removeItem(this.userKey)
   }
 
+  // Exchange the refresh token for a new token pair. Concurrent callers share one request,
+  // since the server treats a second use of the same refresh token as theft.
+  refreshAccessToken(): Promise<boolean> {
+    if (!this.refreshing) {
+      this.refreshing = this.doRefreshAccessToken().finally(() => {
+        this.refreshing = null
+      })
+    }
+    return this.refreshing
+  }
+
+  private async doRefreshAccessToken(): Promise<boolean> {
+    const refreshToken = localStorage.getItem(this.refreshTokenKey)
+    if (!refreshToken) return false
+
+    try {
+      const response = await fetch(`${this.baseUrl}/api/auth/refresh`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ refreshToken }),
+      })
+
+      if (!response.ok) {
+        // Another tab may have rotated the token meanwhile; its new tokens are already stored
+        if (localStorage.getItem(this.refreshTokenKey) !== refreshToken) return true
+
+        this.clearAuthData()
+        return false
+      }
+
+      this.setAuthData(await response.json())
+      return true
+    } catch (error) {
+      console.error('Token refresh error:', error)
+      return false
+    }
+  }
+
   // Enhanced Email/Password login with 2FA support
   async loginWithEmail(credentials: LoginCredentials): Promise<AuthUser | TwoFactorRequiredResponse> {
     try {
@@ -350,9 +457,8 @@ class AuthService {
       if (token) {
         await fetch(`${this.baseUrl}/api/auth/logout`, {
           method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-          },
+          headers: this.getAuthHeaders(),
+          body: JSON.stringify({ refreshToken: localStorage.getItem(this.refreshTokenKey) }),
         })
       }
     } catch (error) {
@@ -365,15 +471,19 @@ class AuthService {
   // Refresh session
   async refreshSession(): Promise<AuthUser | null> {
     try {
-      const token = this.getToken()
-      if (!token) return null
+      if (!this.getToken()) return null
 
-      const response = await fetch(`${this.baseUrl}/api/auth/me`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
+      const fetchUser = () => fetch(`${this.baseUrl}/api/auth/me`, {
+        headers: this.getAuthHeaders(),
       })
 
+      let response = await fetchUser()
+
+      // Access tokens are short-lived; try the refresh token before signing out
+      if (response.status === 401 && await this.refreshAccessToken()) {
+        response = await fetchUser()
+      }
+
       if (!response.ok) {
         this.clearAuthData()
         return null
@@ -389,6 +499,115 @@ class AuthService {
     }
   }
 
+  // Active sessions of the current user
+  async getSessions(): Promise<AuthSession[]> {
+    const response = await fetch(`${this.baseUrl}/api/auth/sessions`, {
+      headers: this.getAuthHeaders(),
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to load sessions')
+    }
+
+    const data = await response.json()
+    return data.sessions
+  }
+
+  async revokeSession(sessionId: string): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/api/auth/sessions/${sessionId}`, {
+      method: 'DELETE',
+      headers: this.getAuthHeaders(),
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to revoke session')
+    }
+  }
+
+  // Sign out every session except this one; returns how many were revoked
+  async revokeOtherSessions(): Promise<number> {
+    const response = await fetch(`${this.baseUrl}/api/auth/revoke-all-sessions`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({}),
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to revoke sessions')
+    }
+
+    const data = await response.json()
+    return data.revoked
+  }
+
+  // Sign out everywhere, including this browser
+  async signOutEverywhere(): Promise<void> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/auth/revoke-all-sessions`, {
+        method: 'POST',
+        headers: this.getAuthHeaders(),
+        body: JSON.stringify({ includeCurrent: true }),
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to revoke sessions')
+      }
+    } finally {
+      this.clearAuthData()
+    }
+  }
+
+  // Security audit log, newest first
+  async getSecurityLogs(filters: SecurityLogFilters = {}, page = 1, limit = 25): Promise<SecurityLogPage> {
+    const params = this.securityLogParams(filters)
+    params.set('page', String(page))
+    params.set('limit', String(limit))
+
+    const response = await fetch(`${this.baseUrl}/api/auth/security-logs?${params}`, {
+      headers: this.getAuthHeaders(),
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to load security log')
+    }
+
+    return await response.json()
+  }
+
+  // Download the filtered security log as a CSV file
+  async exportSecurityLogs(filters: SecurityLogFilters = {}): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/api/auth/security-logs/export?${this.securityLogParams(filters)}`, {
+      headers: this.getAuthHeaders(),
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to export security log')
+    }
+
+    const url = URL.createObjectURL(await response.blob())
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `security-log-${new Date().toISOString().slice(0, 10)}.csv`
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  private securityLogParams(filters: SecurityLogFilters): URLSearchParams {
+    const params = new URLSearchParams()
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') params.set(key, String(value))
+    })
+    return params
+  }
+
   // Get API headers with authentication
   getAuthHeaders(): Record<string, string> {
     const token = this.getToken()
@@ -440,6 +659,12 @@ class AuthService {
 export const authService = new AuthService()
 export type { 
   AuthUser, 
+  AuthResponse,
+  AuthSession,
+  SecurityEvent,
+  SecurityEventType,
+  SecurityLogFilters,
+  SecurityLogPage,
   LoginCredentials, 
   TwoFactorRequiredResponse, 
   TwoFactorVerificationRequest 
@@ -0,0 +1,251 @@
+import { addDays, endOfDay, startOfDay } from 'date-fns';
+import { apiService } from './api';
+import type {
+  BoardView,
+  BoardViewConfig,
+  BoardSwimlane,
+  BoardSort,
+  BoardDueWindow,
+  KanbanTask,
+  TeamMember,
+  Workflow,
+  Client
+} from '../types';
+
+export interface SaveBoardViewRequest {
+  name?: string;
+  config?: BoardViewConfig;
+  isShared?: boolean;
+}
+
+export const DEFAULT_BOARD_VIEW_CONFIG: BoardViewConfig = { swimlane: 'none', sort: 'manual' };
+
+export const BOARD_SWIMLANE_LABELS: Record<BoardSwimlane, string> = {
+  none: 'No swimlanes',
+  assignee: 'By assignee',
+  priority: 'By priority',
+  client: 'By client',
+  workflow: 'By workflow',
+  tag: 'By tag'
+};
+
+export const BOARD_SORT_LABELS: Record<BoardSort, string> = {
+  manual: 'Board order',
+  priority: 'Priority',
+  due_date: 'Due date',
+  created: 'Newest first',
+  updated: 'Recently updated',
+  title: 'Title'
+};
+
+export const BOARD_DUE_LABELS: Record<BoardDueWindow, string> = {
+  overdue: 'Overdue',
+  today: 'Due today',
+  week: 'Due within 7 days',
+  month: 'Due within 30 days',
+  none: 'No due date'
+};
+
+const PRIORITY_ORDER: KanbanTask['priority'][] = ['urgent', 'high', 'medium', 'low'];
+
+// Search parameter of each setting in the board's URL
+const URL_PARAMS: Record<keyof BoardViewConfig, string> = {
+  swimlane: 'lane',
+  sort: 'sort',
+  clientId: 'client',
+  workflowId: 'workflow',
+  assigneeId: 'assignee',
+  tag: 'tag',
+  due: 'due',
+  search: 'q'
+};
+
+// The view's settings without defaults and empty filters, so two configs compare equal when they show the same board
+const compact = (config: BoardViewConfig) =>
+  (Object.keys(URL_PARAMS) as (keyof BoardViewConfig)[])
+    .filter(key => config[key] && config[key] !== DEFAULT_BOARD_VIEW_CONFIG[key])
+    .map(key => [key, config[key]] as const);
+
+export const sameBoardConfig = (a: BoardViewConfig, b: BoardViewConfig) =>
+  JSON.stringify(compact(a)) === JSON.stringify(compact(b));
+
+export const configToSearchParams = (config: BoardViewConfig, viewId?: string | null) => {
+  const params = new URLSearchParams();
+  if (viewId) params.set('view', viewId);
+  compact(config).forEach(([key, value]) => params.set(URL_PARAMS[key], String(value)));
+  return params;
+};
+
+export const configFromSearchParams = (params: URLSearchParams): BoardViewConfig => {
+  const value = <T extends string>(key: keyof BoardViewConfig, allowed?: Record<T, string>) => {
+    const raw = params.get(URL_PARAMS[key]) || undefined;
+    return raw && (!allowed || raw in allowed) ? (raw as T) : undefined;
+  };
+  return {
+    swimlane: value('swimlane', BOARD_SWIMLANE_LABELS) || DEFAULT_BOARD_VIEW_CONFIG.swimlane,
+    sort: value('sort', BOARD_SORT_LABELS) || DEFAULT_BOARD_VIEW_CONFIG.sort,
+    clientId: value('clientId'),
+    workflowId: value('workflowId'),
+    assigneeId: value('assigneeId'),
+    tag: value('tag'),
+    due: value('due', BOARD_DUE_LABELS),
+    search: value('search')
+  };
+};
+
+const matchesDue = (task: KanbanTask, due: BoardDueWindow, now: Date) => {
+  if (due === 'none') return !task.dueDate;
+  if (!task.dueDate) return false;
+
+  const dueDate = new Date(task.dueDate);
+  if (due === 'overdue') return dueDate < now;
+  const days = due === 'today' ? 0 : due === 'week' ? 7 : 30;
+  return dueDate >= startOfDay(now) && dueDate <= endOfDay(addDays(now, days));
+};
+
+// The tasks the view's filters keep; a client filter keeps the tasks of that client's workflows
+export const filterBoardTasks = (
+  tasks: KanbanTask[],
+  config: BoardViewConfig,
+  workflows: Workflow[],
+  now = new Date()
+) => {
+  const search = config.search?.trim().toLowerCase();
+  return tasks.filter(task => {
+    if (config.workflowId && task.workflowId !== config.workflowId) return false;
+    if (config.clientId && workflows.find(w => w.id === task.workflowId)?.clientId !== config.clientId) return false;
+    if (config.assigneeId) {
+      const assigned = task.assignedMembers || [];
+      if (config.assigneeId === 'none' ? assigned.length > 0 : !assigned.includes(config.assigneeId)) return false;
+    }
+    if (config.tag && !(task.tags || []).includes(config.tag)) return false;
+    if (config.due && !matchesDue(task, config.due, now)) return false;
+    if (search) {
+      const text = [task.title, task.description, ...(task.tags || [])].join(' ').toLowerCase();
+      if (!text.includes(search)) return false;
+    }
+    return true;
+  });
+};
+
+const time = (value?: Date) => (value ? new Date(value).getTime() : null);
+
+// Tasks in the order the view sorts a column; 'manual' keeps the board's own order
+export const sortBoardTasks = (tasks: KanbanTask[], sort: BoardSort) => {
+  if (sort === 'manual') return tasks;
+
+  const sorted = [...tasks];
+  switch (sort) {
+    case 'priority':
+      return sorted.sort((a, b) => PRIORITY_ORDER.indexOf(a.priority) - PRIORITY_ORDER.indexOf(b.priority));
+    case 'due_date':
+      // Tasks without a due date last
+      return sorted.sort((a, b) => (time(a.dueDate) ?? Infinity) - (time(b.dueDate) ?? Infinity));
+    case 'created':
+      return sorted.sort((a, b) => (time(b.createdAt) ?? 0) - (time(a.createdAt) ?? 0));
+    case 'updated':
+      return sorted.sort((a, b) => (time(b.updatedAt) ?? 0) - (time(a.updatedAt) ?? 0));
+    case 'title':
+      return sorted.sort((a, b) => a.title.localeCompare(b.title));
+  }
+};
+
+export interface BoardSwimlaneRow {
+  key: string;
+  label: string;
+  tasks: KanbanTask[];
+}
+
+interface SwimlaneContext {
+  teamMembers: TeamMember[];
+  workflows: Workflow[];
+  clients: Client[];
+}
+
+/**
+ * The rows of a swimlane board, each with its tasks. A task with several assignees or tags shows in
+ * the lane of each; tasks without one are gathered in a last lane.
+ */
+export const boardSwimlanes = (
+  tasks: KanbanTask[],
+  swimlane: BoardSwimlane,
+  { teamMembers, workflows, clients }: SwimlaneContext
+): BoardSwimlaneRow[] => {
+  if (swimlane === 'none') return [{ key: 'all', label: '', tasks }];
+
+  const clientOf = (task: KanbanTask) => workflows.find(w => w.id === task.workflowId)?.clientId;
+  const keysOf = (task: KanbanTask): string[] => {
+    switch (swimlane) {
+      case 'assignee':
+        return task.assignedMembers || [];
+      case 'priority':
+        return [task.priority];
+      case 'client': {
+        const clientId = clientOf(task);
+        return clientId ? [clientId] : [];
+      }
+      case 'workflow':
+        return task.workflowId ? [task.workflowId] : [];
+      case 'tag':
+        return task.tags || [];
+    }
+  };
+  const labelOf = (key: string) => {
+    switch (swimlane) {
+      case 'assignee':
+        return teamMembers.find(member => member.id === key)?.name || 'Former member';
+      case 'priority':
+        return key.charAt(0).toUpperCase() + key.slice(1);
+      case 'client': {
+        const client = clients.find(c => c.id === key);
+        return client ? client.company || client.name : 'Unknown client';
+      }
+      case 'workflow':
+        return workflows.find(w => w.id === key)?.name || 'Unknown workflow';
+      default:
+        return key;
+    }
+  };
+  const missingLabel: Record<Exclude<BoardSwimlane, 'none'>, string> = {
+    assignee: 'Unassigned',
+    priority: 'No priority',
+    client: 'No client',
+    workflow: 'No workflow',
+    tag: 'No tags'
+  };
+
+  const lanes = new Map<string, KanbanTask[]>();
+  const missing: KanbanTask[] = [];
+  for (const task of tasks) {
+    const keys = keysOf(task);
+    if (keys.length === 0) missing.push(task);
+    keys.forEach(key => lanes.set(key, [...(lanes.get(key) || []), task]));
+  }
+
+  const rows = [...lanes].map(([key, laneTasks]) => ({ key, label: labelOf(key), tasks: laneTasks }));
+  rows.sort((a, b) => (swimlane === 'priority'
+    ? PRIORITY_ORDER.indexOf(a.key as KanbanTask['priority']) - PRIORITY_ORDER.indexOf(b.key as KanbanTask['priority'])
+    : a.label.localeCompare(b.label)));
+  if (missing.length > 0) rows.push({ key: '__none', label: missingLabel[swimlane], tasks: missing });
+  return rows;
+};
+
+export class BoardViewService {
+  async getAll(): Promise<BoardView[]> {
+    return apiService.get<BoardView[]>('/board-views');
+  }
+
+  async create(data: SaveBoardViewRequest & { name: string }): Promise<BoardView> {
+    return apiService.post<BoardView>('/board-views', data);
+  }
+
+  async update(id: string, data: SaveBoardViewRequest): Promise<BoardView> {
+    return apiService.put<BoardView>(`/board-views/${id}`, data);
+  }
+
+  async delete(id: string): Promise<void> {
+    await apiService.delete(`/board-views/${id}`);
+  }
+}
+
+export const boardViewService = new BoardViewService();
@@ -0,0 +1,41 @@
+import { apiService } from './api';
+import type { Budget, BudgetAlert, BudgetEntityType, BudgetPeriod } from '../types';
+
+export interface SetBudgetRequest {
+  hours: number | null;
+  amount: number | null;
+  currency?: string;
+  period?: BudgetPeriod;
+  alertThresholds?: number[];
+}
+
+const entityPath = (entityType: BudgetEntityType, entityId: string) =>
+  `/budgets/${entityType === 'workflow' ? 'workflows' : 'clients'}/${entityId}`;
+
+export class BudgetService {
+  async getAll(entityType?: BudgetEntityType): Promise<Budget[]> {
+    return apiService.get<Budget[]>(`/budgets${entityType ? `?entityType=${entityType}` : ''}`);
+  }
+
+  async get(entityType: BudgetEntityType, entityId: string): Promise<Budget> {
+    return apiService.get<Budget>(entityPath(entityType, entityId));
+  }
+
+  async set(entityType: BudgetEntityType, entityId: string, data: SetBudgetRequest): Promise<Budget> {
+    return apiService.put<Budget>(entityPath(entityType, entityId), data);
+  }
+
+  async delete(entityType: BudgetEntityType, entityId: string): Promise<void> {
+    await apiService.delete(entityPath(entityType, entityId));
+  }
+
+  async getAlerts(): Promise<BudgetAlert[]> {
+    return apiService.get<BudgetAlert[]>('/budgets/alerts');
+  }
+
+  async dismissAlert(id: string): Promise<void> {
+    await apiService.patch(`/budgets/alerts/${id}/dismiss`);
+  }
+}
+
+export const budgetService = new BudgetService();
@@ -10,10 +10,18 @@ export interface CalendarEvent {
   description?: string;
   eventType: 'task' | 'meeting' | 'break' | 'personal';
   color?: string;
+  // RRULE of a recurring event, e.g. "FREQ=WEEKLY;BYDAY=MO,WE"
+  recurrenceRule?: string | null;
+  // Set on every occurrence of a recurring event, edited occurrences included
+  seriesId?: string | null;
+  occurrenceStart?: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+// Which occurrences of a recurring event an update or delete applies to
+export type RecurrenceEditScope = 'this' | 'following' | 'all';
+
 export interface CreateCalendarEventData {
   title: string;
   startTime: string;
@@ -23,9 +31,26 @@ export interface CreateCalendarEventData {
   description?: string;
   eventType?: 'task' | 'meeting' | 'break' | 'personal';
   color?: string;
+  recurrenceRule?: string | null;
+}
+
+export interface UpdateCalendarEventData extends Partial<CreateCalendarEventData> {
+  scope?: RecurrenceEditScope;
+  occurrenceStart?: string | null;
 }
 
-export interface UpdateCalendarEventData extends Partial<CreateCalendarEventData> {}
+// Secret subscription URL of the user's calendar, for calendar apps (Google Calendar, Outlook, ...)
+export interface CalendarFeed {
+  url: string;
+  createdAt: string;
+  lastAccessedAt?: string | null;
+}
+
+export interface CalendarImportResult {
+  imported: number;
+  duplicates: number;
+  skipped: Array<{ uid: string | null; summary: string; reason: string }>;
+}
 
 export interface CalendarFilters {
   startDate?: string;
@@ -77,14 +102,43 @@ export const calendarService = {
     return response.event;
   },
 
-  // Delete a calendar event
-  async deleteEvent(eventId: string): Promise<void> {
-    await api.delete(`/calendar/${eventId}`);
+  // Delete a calendar event, or some occurrences of a recurring one
+  async deleteEvent(eventId: string, scope?: RecurrenceEditScope, occurrenceStart?: string | null): Promise<void> {
+    const params = new URLSearchParams();
+    if (scope) params.append('scope', scope);
+    if (occurrenceStart) params.append('occurrenceStart', occurrenceStart);
+
+    const queryString = params.toString();
+    await api.delete(queryString ? `/calendar/${eventId}?${queryString}` : `/calendar/${eventId}`);
   },
 
   // Get event by ID
   async getEvent(eventId: string): Promise<CalendarEvent> {
     return await api.get(`/calendar/${eventId}`);
+  },
+
+  // Get the calendar subscription URL, or null when none was created
+  async getFeed(): Promise<CalendarFeed | null> {
+    const response = await api.get<{feed: CalendarFeed | null}>('/calendar/feed-url');
+    return response.feed;
+  },
+
+  // Create the subscription URL, or replace it with a new one (the old URL stops working)
+  async regenerateFeed(): Promise<CalendarFeed> {
+    const response = await api.post<{feed: CalendarFeed}>('/calendar/feed-url', {});
+    return response.feed;
+  },
+
+  async revokeFeed(): Promise<void> {
+    await api.delete('/calendar/feed-url');
+  },
+
+  // Import the events of an ICS file; times without a time zone are read in the browser's
+  async importIcs(ics: string): Promise<CalendarImportResult> {
+    return await api.post<CalendarImportResult>('/calendar/import', {
+      ics,
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
+    });
   }
 };
 
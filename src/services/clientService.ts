@@ -1,5 +1,5 @@
 import { apiService } from './api';
-import type { Client } from '../types';
+import type { Client, ClientContact } from '../types';
 
 export interface CreateClientRequest {
   name: string;
@@ -7,6 +7,13 @@ export interface CreateClientRequest {
   email: string;
   phone?: string;
   isActive?: boolean;
+  templateId?: string; // onboard the new client with a workflow built from this template
+  templateStartDate?: string;
+}
+
+export interface InviteContactRequest {
+  email?: string; // defaults to the client's email
+  name?: string;
 }
 
 export interface UpdateClientRequest extends CreateClientRequest {
@@ -50,6 +57,19 @@ export class ClientService {
   async getTasks(id: string) {
     return apiService.get(`/clients/${id}/tasks`);
   }
+
+  // Client portal contacts
+  async getContacts(id: string): Promise<ClientContact[]> {
+    return apiService.get<ClientContact[]>(`/clients/${id}/contacts`);
+  }
+
+  async inviteContact(id: string, contact: InviteContactRequest): Promise<ClientContact> {
+    return apiService.post<ClientContact>(`/clients/${id}/contacts`, contact);
+  }
+
+  async revokeContact(id: string, contactId: string): Promise<void> {
+    await apiService.delete(`/clients/${id}/contacts/${contactId}`);
+  }
 }
 
 export const clientService = new ClientService(); 
\ No newline at end of file
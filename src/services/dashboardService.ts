@@ -1,5 +1,39 @@
+import { format, subDays, subMonths, addDays } from 'date-fns';
 import { apiService } from './api';
-import type { DashboardStats } from '../types';
+import type { DashboardStats, DashboardRange, DashboardAnalytics } from '../types';
+
+export type DashboardRangePreset = '7d' | '30d' | '90d' | '12m';
+
+export const DASHBOARD_RANGE_PRESETS: Record<DashboardRangePreset, string> = {
+  '7d': 'Last 7 days',
+  '30d': 'Last 30 days',
+  '90d': 'Last 90 days',
+  '12m': 'Last 12 months'
+};
+
+// The range of a preset, ending today, with a grouping that keeps the charts readable
+export const presetRange = (preset: DashboardRangePreset, today = new Date()): DashboardRange => {
+  const to = format(today, 'yyyy-MM-dd');
+  switch (preset) {
+    case '7d':
+      return { from: format(subDays(today, 6), 'yyyy-MM-dd'), to, groupBy: 'day' };
+    case '30d':
+      return { from: format(subDays(today, 29), 'yyyy-MM-dd'), to, groupBy: 'day' };
+    case '90d':
+      return { from: format(subDays(today, 89), 'yyyy-MM-dd'), to, groupBy: 'week' };
+    case '12m':
+      return { from: format(addDays(subMonths(today, 12), 1), 'yyyy-MM-dd'), to, groupBy: 'month' };
+  }
+};
+
+const rangeQuery = (range?: Partial<DashboardRange>) => {
+  const params = new URLSearchParams();
+  if (range?.from) params.append('from', range.from);
+  if (range?.to) params.append('to', range.to);
+  if (range?.groupBy) params.append('groupBy', range.groupBy);
+  const queryString = params.toString();
+  return queryString ? `?${queryString}` : '';
+};
 
 export interface DashboardData {
   stats: DashboardStats;
@@ -34,8 +68,13 @@ export interface MeetingData {
 }
 
 export class DashboardService {
-  async getStats(): Promise<DashboardStats> {
-    return apiService.get<DashboardStats>('/dashboard/stats');
+  async getStats(range?: Partial<DashboardRange>): Promise<DashboardStats> {
+    return apiService.get<DashboardStats>(`/dashboard/stats${rangeQuery(range)}`);
+  }
+
+  // Throughput, cycle time, lead time and overdue rate over the range, with the period before it
+  async getAnalytics(range: Partial<DashboardRange>): Promise<DashboardAnalytics> {
+    return apiService.get<DashboardAnalytics>(`/dashboard/analytics${rangeQuery(range)}`);
   }
 
   async getRecentActivity(limit = 10) {
@@ -62,8 +101,8 @@ export class DashboardService {
     return apiService.get('/dashboard/client-activity');
   }
 
-  async getPerformanceMetrics() {
-    return apiService.get('/dashboard/performance-metrics');
+  async getPerformanceMetrics(range?: Partial<DashboardRange>) {
+    return apiService.get(`/dashboard/performance-metrics${rangeQuery(range)}`);
   }
 
   async getFullDashboard(): Promise<DashboardData> {
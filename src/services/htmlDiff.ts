@@ -0,0 +1,178 @@
+// Word-level diff of two versions of a document's HTML, as written by the Quill editor. The result
+// keeps the newer version's formatting, with added words in <ins> and removed words in <del>.
+// Tags are rebuilt from an allowlist without attributes (other than Quill's classes and safe
+// links and images), so a stored revision can never bring script into the page.
+
+export interface HtmlDiff {
+  html: string;
+  added: number; // words
+  removed: number;
+}
+
+type DiffOp = { type: 'equal' | 'insert' | 'delete'; tokens: string[] };
+
+const ALLOWED_TAGS = new Set([
+  'p', 'br', 'h1', 'h2', 'h3', 'strong', 'b', 'em', 'i', 'u', 's', 'ol', 'ul', 'li',
+  'blockquote', 'pre', 'code', 'a', 'span', 'img', 'sub', 'sup'
+]);
+
+const VOID_TAGS = new Set(['br', 'img']);
+
+// Past this many inserted and deleted words the versions are shown as replaced wholesale
+const MAX_EDITS = 2000;
+
+const attribute = (attrs: string, name: string) => {
+  const match = attrs.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? match[1] ?? match[2] ?? match[3] : null;
+};
+
+const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+// The tag rebuilt with the attributes we keep, or null when it is dropped
+const cleanTag = (tag: string) => {
+  const match = tag.match(/^<\s*(\/?)\s*([a-zA-Z][a-zA-Z0-9]*)([^>]*)>$/);
+  if (!match) return null;
+
+  const [, closing, rawName, attrs] = match;
+  const name = rawName.toLowerCase();
+  if (!ALLOWED_TAGS.has(name)) return null;
+  if (closing) return VOID_TAGS.has(name) ? null : `</${name}>`;
+
+  let kept = '';
+  const className = attribute(attrs, 'class');
+  const qlClasses = className?.split(/\s+/).filter(cls => /^ql-[\w-]+$/.test(cls)).join(' ');
+  if (qlClasses) kept += ` class="${qlClasses}"`;
+  if (name === 'a') {
+    const href = attribute(attrs, 'href');
+    if (href && /^(https?:|mailto:)/i.test(href.trim())) kept += ` href="${escapeAttribute(href.trim())}" target="_blank" rel="noopener noreferrer"`;
+  }
+  if (name === 'img') {
+    const src = attribute(attrs, 'src');
+    if (!src || !/^(https?:|data:image\/)/i.test(src.trim())) return null;
+    kept += ` src="${escapeAttribute(src.trim())}"`;
+  }
+  return `<${name}${kept}>`;
+};
+
+const isTag = (token: string) => token.startsWith('<');
+
+// Tags, words and runs of whitespace; unknown tags and comments are left out
+const tokenize = (html: string) =>
+  (html.match(/<!--[\s\S]*?-->|<[^>]*>|[^<\s]+|\s+/g) || [])
+    .map(token => (isTag(token) ? cleanTag(token) : token))
+    .filter((token): token is string => token !== null);
+
+// Myers' diff of two token lists, or null when they differ in more than MAX_EDITS tokens
+const diffTokens = (a: string[], b: string[]): DiffOp[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds the furthest x of each diagonal k in [-d, d] before step d, at index k + d
+  const trace: Int32Array[] = [];
+
+  let steps = -1;
+  for (let d = 0; d <= max && steps < 0; d++) {
+    if (d > MAX_EDITS) return null;
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        steps = d;
+        break;
+      }
+    }
+  }
+
+  // Walk back from the end, one edit per step
+  const reversed: { type: DiffOp['type']; token: string }[] = [];
+  let x = n;
+  let y = m;
+  for (let d = steps; d > 0; d--) {
+    const previous = trace[d];
+    const at = (k: number) => previous[k + d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      reversed.push({ type: 'equal', token: a[--x] });
+      y--;
+    }
+    if (x === prevX) {
+      reversed.push({ type: 'insert', token: b[--y] });
+    } else {
+      reversed.push({ type: 'delete', token: a[--x] });
+    }
+  }
+  while (x > 0 && y > 0) {
+    reversed.push({ type: 'equal', token: a[--x] });
+    y--;
+  }
+
+  const ops: DiffOp[] = [];
+  for (let i = reversed.length - 1; i >= 0; i--) {
+    const { type, token } = reversed[i];
+    const last = ops[ops.length - 1];
+    if (last && last.type === type) {
+      last.tokens.push(token);
+    } else {
+      ops.push({ type, tokens: [token] });
+    }
+  }
+  return ops;
+};
+
+const countWords = (tokens: string[]) => tokens.filter(token => !isTag(token) && token.trim() !== '').length;
+
+// Wrap the text of changed tokens; inserted tags are kept for the newer layout, deleted tags dropped
+const markChange = (tokens: string[], type: 'insert' | 'delete') => {
+  const element = type === 'insert' ? 'ins' : 'del';
+  let html = '';
+  let text = '';
+  const flush = () => {
+    if (text.trim() !== '') html += `<${element} class="diff-${element}">${text}</${element}>`;
+    else if (type === 'insert') html += text;
+    text = '';
+  };
+  for (const token of tokens) {
+    if (isTag(token)) {
+      flush();
+      if (type === 'insert') html += token;
+    } else {
+      text += token;
+    }
+  }
+  flush();
+  return html;
+};
+
+export const htmlDiff = (before: string, after: string): HtmlDiff => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const ops = diffTokens(a, b) || [
+    { type: 'delete' as const, tokens: a },
+    { type: 'insert' as const, tokens: b }
+  ];
+
+  let html = '';
+  let added = 0;
+  let removed = 0;
+  for (const op of ops) {
+    if (op.type === 'equal') {
+      html += op.tokens.join('');
+    } else {
+      html += markChange(op.tokens, op.type);
+      if (op.type === 'insert') added += countWords(op.tokens);
+      else removed += countWords(op.tokens);
+    }
+  }
+  return { html, added, removed };
+};
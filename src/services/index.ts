@@ -1,9 +1,36 @@
 export { apiService, ApiError } from './api';
-export { workspaceService } from './workspaceService';
+export { workspaceService, WORKSPACE_ROLE_LABELS } from './workspaceService';
 export { clientService } from './clientService';
 export { taskService } from './taskService';
-export { taskResourceService } from './taskResourceService';
+export { taskResourceService, fileUrl } from './taskResourceService';
 export { workflowService } from './workflowService';
+export { workflowTemplateService } from './workflowTemplateService';
+export { recurringTaskService } from './recurringTaskService';
+export { boardViewService } from './boardViewService';
+
+export type {
+  InvoicePeriod,
+  GenerateInvoiceRequest,
+  SetBillingRateRequest
+} from './invoiceService';
+
+export type {
+  ReviewTimesheetRequest
+} from './timesheetService';
+
+export type {
+  SetBudgetRequest
+} from './budgetService';
+
+export type {
+  NotificationList
+} from './notificationService';
+export { invoiceService } from './invoiceService';
+export { timesheetService } from './timesheetService';
+export { budgetService } from './budgetService';
+export { realtimeService } from './realtimeService';
+export { notificationService } from './notificationService';
+export { portalService } from './portalService';
 export { teamService } from './teamService'; // Re-export the mock teamService
 export { dashboardService } from './dashboardService';
 export { meetingService } from './meetingService';
@@ -14,31 +41,55 @@ export type {
   CreateWorkspaceData,
   JoinWorkspaceData,
   UpdateWorkspaceData,
-  AddMemberData
+  AddMemberData,
+  WorkspaceRoleMatrix
 } from './workspaceService';
 
 export type {
   CreateClientRequest,
-  UpdateClientRequest
+  UpdateClientRequest,
+  InviteContactRequest
 } from './clientService';
 
 export type {
   CreateTaskRequest,
-  UpdateTaskRequest
+  UpdateTaskRequest,
+  TaskDependencies,
+  BlockedMoveResponse,
+  ColumnSettings,
+  CommentRequest
 } from './taskService';
 
 export type {
   TaskResource,
   CreateTaskResourceRequest,
-  UpdateTaskResourceRequest
+  UpdateTaskResourceRequest,
+  StorageUsage,
+  DocumentRevision
 } from './taskResourceService';
 
 export type {
   CreateWorkflowRequest,
   WorkflowConnection,
-  WorkflowProgress
+  WorkflowProgress,
+  WorkflowStepRequest,
+  WorkflowConnectionRequest
 } from './workflowService';
 
+export type {
+  CreateWorkflowTemplateRequest,
+  InstantiateTemplateRequest
+} from './workflowTemplateService';
+
+export type {
+  SaveRecurringTaskRequest
+} from './recurringTaskService';
+
+export type {
+  SaveBoardViewRequest,
+  BoardSwimlaneRow
+} from './boardViewService';
+
 /*
 export type {
   CreateTeamMemberRequest,
@@ -61,13 +112,17 @@ export type {
   CalendarEvent,
   CreateCalendarEventData,
   UpdateCalendarEventData,
-  CalendarFilters
+  CalendarFilters,
+  RecurrenceEditScope
 } from './calendarService';
 
 export type {
   ActiveTimer,
+  TimerPause,
   TimerStatus,
+  TrackerState,
   StartTimerData,
+  StopTimerResult,
   TimeEntry,
   CreateTimeEntryData,
   UpdateTimeEntryData,
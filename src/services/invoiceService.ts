@@ -0,0 +1,68 @@
+import { apiService } from './api';
+import type { BillingRate, Invoice, InvoicePreview, InvoiceStatus } from '../types';
+
+export interface InvoicePeriod {
+  clientId: string;
+  periodStart: string;
+  periodEnd: string;
+}
+
+export interface GenerateInvoiceRequest extends InvoicePeriod {
+  dueDate?: string | null;
+  taxRate?: number;
+  notes?: string;
+}
+
+export interface SetBillingRateRequest {
+  clientId?: string | null;
+  userId?: string | null;
+  hourlyRate: number;
+  currency?: string;
+}
+
+export class InvoiceService {
+  async getAll(params?: { clientId?: string; status?: InvoiceStatus }): Promise<Invoice[]> {
+    const searchParams = new URLSearchParams();
+
+    if (params?.clientId) searchParams.append('clientId', params.clientId);
+    if (params?.status) searchParams.append('status', params.status);
+
+    const queryString = searchParams.toString();
+    return apiService.get<Invoice[]>(`/invoices${queryString ? `?${queryString}` : ''}`);
+  }
+
+  async getById(id: string): Promise<Invoice> {
+    return apiService.get<Invoice>(`/invoices/${id}`);
+  }
+
+  async preview(period: InvoicePeriod): Promise<InvoicePreview> {
+    const searchParams = new URLSearchParams({ ...period });
+    return apiService.get<InvoicePreview>(`/invoices/preview?${searchParams.toString()}`);
+  }
+
+  async generate(data: GenerateInvoiceRequest): Promise<Invoice> {
+    return apiService.post<Invoice>('/invoices', data);
+  }
+
+  async updateStatus(id: string, status: InvoiceStatus): Promise<Invoice> {
+    return apiService.patch<Invoice>(`/invoices/${id}/status`, { status });
+  }
+
+  async delete(id: string): Promise<void> {
+    await apiService.delete(`/invoices/${id}`);
+  }
+
+  async getRates(clientId?: string): Promise<BillingRate[]> {
+    return apiService.get<BillingRate[]>(`/invoices/rates${clientId ? `?clientId=${clientId}` : ''}`);
+  }
+
+  async setRate(data: SetBillingRateRequest): Promise<BillingRate> {
+    return apiService.put<BillingRate>('/invoices/rates', data);
+  }
+
+  async deleteRate(id: string): Promise<void> {
+    await apiService.delete(`/invoices/rates/${id}`);
+  }
+}
+
+export const invoiceService = new InvoiceService();
@@ -9,6 +9,7 @@ export interface CreateMeetingRequest {
   description?: string;
   location?: string;
   attendeeIds?: string[];
+  recurrenceRule?: string | null;
 }
 
 export interface Meeting {
@@ -23,6 +24,7 @@ export interface Meeting {
   location?: string;
   notes?: string;
   attendeeIds: string[];
+  recurrenceRule?: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -81,8 +83,14 @@ export class MeetingService {
     return apiService.patch<Meeting>(`/meetings/${id}/notes`, { notes });
   }
 
-  async delete(id: string): Promise<void> {
-    return apiService.delete<void>(`/meetings/${id}`);
+  // Deletes the meeting, or for a recurring one the occurrence on `occurrenceDate` ('this') or it and later ones ('following')
+  async delete(id: string, scope?: 'this' | 'following' | 'all', occurrenceDate?: string): Promise<void> {
+    const searchParams = new URLSearchParams();
+    if (scope) searchParams.append('scope', scope);
+    if (occurrenceDate) searchParams.append('occurrenceDate', occurrenceDate);
+
+    const queryString = searchParams.toString();
+    return apiService.delete<void>(`/meetings/${id}${queryString ? `?${queryString}` : ''}`);
   }
 
   // Attendee management
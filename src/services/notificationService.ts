@@ -0,0 +1,36 @@
+import { apiService } from './api';
+import type { AppNotification, NotificationPreferences } from '../types';
+
+export interface NotificationList {
+  notifications: AppNotification[];
+  unreadCount: number;
+}
+
+export class NotificationService {
+  async getAll(params?: { unreadOnly?: boolean; limit?: number }): Promise<NotificationList> {
+    const searchParams = new URLSearchParams();
+    if (params?.unreadOnly) searchParams.append('unread', 'true');
+    if (params?.limit) searchParams.append('limit', String(params.limit));
+
+    const queryString = searchParams.toString();
+    return apiService.get<NotificationList>(`/notifications${queryString ? `?${queryString}` : ''}`);
+  }
+
+  async markRead(id: string): Promise<void> {
+    await apiService.patch(`/notifications/${id}/read`);
+  }
+
+  async markAllRead(): Promise<void> {
+    await apiService.patch('/notifications/read-all');
+  }
+
+  async getPreferences(): Promise<NotificationPreferences> {
+    return apiService.get<NotificationPreferences>('/notifications/preferences');
+  }
+
+  async setPreferences(preferences: Partial<NotificationPreferences>): Promise<NotificationPreferences> {
+    return apiService.put<NotificationPreferences>('/notifications/preferences', preferences);
+  }
+}
+
+export const notificationService = new NotificationService();
@@ -0,0 +1,23 @@
+import { apiService } from './api';
+import type { ClientApprovalStatus, PortalOverview, PortalTask, WorkflowProgress } from '../types';
+
+// Endpoints of the client portal, used by client contacts (client_guest members) only
+export class PortalService {
+  async getOverview(): Promise<PortalOverview> {
+    return apiService.get<PortalOverview>('/portal');
+  }
+
+  async getWorkflowProgress(workflowId: string): Promise<WorkflowProgress> {
+    return apiService.get<WorkflowProgress>(`/portal/workflows/${workflowId}/progress`);
+  }
+
+  async getTasks(): Promise<PortalTask[]> {
+    return apiService.get<PortalTask[]>('/portal/tasks');
+  }
+
+  async decide(taskId: string, decision: Exclude<ClientApprovalStatus, 'pending'>, comment?: string): Promise<PortalTask> {
+    return apiService.post<PortalTask>(`/portal/tasks/${taskId}/approval`, { decision, comment });
+  }
+}
+
+export const portalService = new PortalService();
@@ -0,0 +1,166 @@
+import { apiService, API_BASE_URL, CLIENT_ID } from './api';
+import type { PresenceUser, RealtimeChange } from '../types';
+
+type ChangeListener = (change: RealtimeChange) => void;
+type PresenceListener = (presence: PresenceUser[]) => void;
+type StatusListener = (connected: boolean) => void;
+
+const INITIAL_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+
+// The stream is read with fetch rather than EventSource, which cannot send the
+// Authorization and X-Workspace-Id headers every other request uses
+export class RealtimeService {
+  private controller: AbortController | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryDelay = INITIAL_RETRY_DELAY_MS;
+  private connectionId: string | null = null;
+  private location: string | null = null;
+  private changeListeners = new Set<ChangeListener>();
+  private presenceListeners = new Set<PresenceListener>();
+  private statusListeners = new Set<StatusListener>();
+
+  // Open the stream for the current workspace, reconnecting with backoff until disconnect()
+  connect(): void {
+    this.disconnect();
+    const controller = new AbortController();
+    this.controller = controller;
+    this.open(controller);
+  }
+
+  disconnect(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.controller?.abort();
+    this.controller = null;
+    this.retryDelay = INITIAL_RETRY_DELAY_MS;
+    this.setConnectionId(null);
+  }
+
+  // Tell teammates which view this tab is on (e.g. 'kanban')
+  setLocation(location: string | null): void {
+    this.location = location;
+    if (!this.connectionId) return;
+
+    apiService.put('/realtime/presence', { connectionId: this.connectionId, location })
+      .catch(error => console.error('Failed to update presence:', error));
+  }
+
+  subscribe(listener: ChangeListener): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
+  onPresence(listener: PresenceListener): () => void {
+    this.presenceListeners.add(listener);
+    return () => this.presenceListeners.delete(listener);
+  }
+
+  onStatus(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => this.statusListeners.delete(listener);
+  }
+
+  private async open(controller: AbortController): Promise<void> {
+    const token = localStorage.getItem('auth-token');
+    const workspaceId = localStorage.getItem('current-workspace-id');
+    const query = this.location ? `?location=${encodeURIComponent(this.location)}` : '';
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/realtime/stream${query}`, {
+        headers: {
+          Accept: 'text/event-stream',
+          ...(token && { 'Authorization': `Bearer ${token}` }),
+          ...(workspaceId && { 'X-Workspace-Id': workspaceId }),
+          'X-Client-Id': CLIENT_ID,
+        },
+        signal: controller.signal,
+      });
+      if (!response.ok || !response.body) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      this.retryDelay = INITIAL_RETRY_DELAY_MS;
+      await this.read(response.body);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error('Realtime stream failed:', error);
+      }
+    }
+
+    if (controller.signal.aborted) return;
+
+    this.setConnectionId(null);
+    this.retryTimer = setTimeout(() => this.open(controller), this.retryDelay);
+    this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY_MS);
+  }
+
+  private async read(body: ReadableStream<Uint8Array>): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+
+      buffer += decoder.decode(value, { stream: true });
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        this.dispatch(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+  }
+
+  // One Server-Sent Events block: "event: <name>\ndata: <json>"; lines starting with ':' are heartbeats
+  private dispatch(block: string): void {
+    let event = 'message';
+    const dataLines: string[] = [];
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) dataLines.push(line.slice(5).trim());
+    }
+    if (dataLines.length === 0) return;
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(dataLines.join('\n'));
+    } catch {
+      console.error('Malformed realtime event:', block);
+      return;
+    }
+
+    switch (event) {
+      case 'ready': {
+        const { connectionId, presence } = payload as { connectionId: string; presence: PresenceUser[] };
+        this.setConnectionId(connectionId);
+        this.presenceListeners.forEach(listener => listener(presence));
+        break;
+      }
+      case 'presence':
+        this.presenceListeners.forEach(listener => listener(payload as PresenceUser[]));
+        break;
+      case 'change': {
+        const change = payload as RealtimeChange;
+        // Our own requests already updated this tab
+        if (change.originClientId === CLIENT_ID) return;
+        this.changeListeners.forEach(listener => listener(change));
+        break;
+      }
+    }
+  }
+
+  private setConnectionId(connectionId: string | null): void {
+    const wasConnected = this.connectionId !== null;
+    this.connectionId = connectionId;
+    if (wasConnected !== (connectionId !== null)) {
+      this.statusListeners.forEach(listener => listener(connectionId !== null));
+    }
+  }
+}
+
+export const realtimeService = new RealtimeService();
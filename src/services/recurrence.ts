@@ -0,0 +1,154 @@
+// Recurrence rules (RRULE) as edited in the UI. The server evaluates rules in UTC, so weekdays
+// picked in local time are shifted to the UTC weekday of the series start and back.
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface RecurrenceOptions {
+  freq: RecurrenceFrequency;
+  interval: number;
+  // Local weekdays, indexed like Date#getDay() (weekly rules)
+  weekdays: number[];
+  // Same day of the month as the start, or the same weekday of the month ("2nd Tuesday")
+  monthlyMode: 'day' | 'weekday';
+  end: 'never' | 'until' | 'count';
+  // yyyy-MM-dd, last day of the series (inclusive)
+  until: string;
+  count: number;
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const FULL_WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const ORDINALS: Record<string, string> = { '1': 'first', '2': 'second', '3': 'third', '4': 'fourth', '5': 'fifth', '-1': 'last' };
+
+const UNITS: Record<RecurrenceFrequency, string> = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' };
+
+// Days the UTC date of `start` is ahead of its local date (-1, 0 or 1)
+const utcDayShift = (start: Date) => {
+  const shift = (start.getUTCDay() - start.getDay() + 7) % 7;
+  return shift === 6 ? -1 : shift;
+};
+
+const toUtcWeekday = (weekday: number, start: Date) => (weekday + utcDayShift(start) + 7) % 7;
+
+const toLocalWeekday = (weekday: number, start: Date) => (weekday - utcDayShift(start) + 7) % 7;
+
+// Occurrence of the start's weekday within its month, counted the way the server does (in UTC)
+const weekdayOrdinal = (start: Date) => {
+  const ordinal = Math.ceil(start.getUTCDate() / 7);
+  return ordinal === 5 ? -1 : ordinal;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const defaultRecurrence = (start: Date): RecurrenceOptions => ({
+  freq: 'WEEKLY',
+  interval: 1,
+  weekdays: [start.getDay()],
+  monthlyMode: 'day',
+  end: 'never',
+  until: '',
+  count: 10
+});
+
+// The RRULE for the options of a series that starts at `start`
+export const buildRecurrenceRule = (options: RecurrenceOptions, start: Date): string => {
+  const parts = [`FREQ=${options.freq}`];
+  if (options.interval > 1) parts.push(`INTERVAL=${options.interval}`);
+
+  if (options.freq === 'WEEKLY' && options.weekdays.length > 0) {
+    const weekdays = [...options.weekdays].sort((a, b) => a - b);
+    parts.push(`BYDAY=${weekdays.map(weekday => WEEKDAYS[toUtcWeekday(weekday, start)]).join(',')}`);
+  }
+  if (options.freq === 'MONTHLY' && options.monthlyMode === 'weekday') {
+    parts.push(`BYDAY=${weekdayOrdinal(start)}${WEEKDAYS[start.getUTCDay()]}`);
+  }
+
+  if (options.end === 'until' && options.until) {
+    const until = new Date(`${options.until}T23:59:59`);
+    parts.push(`UNTIL=${until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+  } else if (options.end === 'count' && options.count > 0) {
+    parts.push(`COUNT=${options.count}`);
+  }
+
+  return parts.join(';');
+};
+
+const ruleParts = (rule: string) => Object.fromEntries(
+  rule.replace(/^RRULE:/i, '').split(';').filter(Boolean).map(part => {
+    const [key, value = ''] = part.split('=');
+    return [key.toUpperCase(), value.toUpperCase()];
+  })
+);
+
+const parseUntil = (value: string) => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  if (!match) return null;
+  const [, year, month, day, hours = '23', minutes = '59', seconds = '59'] = match;
+  return new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds));
+};
+
+// The editable options of a rule, or null when there is no rule
+export const parseRecurrenceRule = (rule: string | null | undefined, start: Date): RecurrenceOptions | null => {
+  if (!rule) return null;
+
+  const parts = ruleParts(rule);
+  const options = defaultRecurrence(start);
+  options.freq = (['DAILY', 'WEEKLY', 'MONTHLY'].includes(parts.FREQ) ? parts.FREQ : 'WEEKLY') as RecurrenceFrequency;
+  options.interval = Number(parts.INTERVAL) || 1;
+
+  const byDay = parts.BYDAY ? parts.BYDAY.split(',') : [];
+  if (options.freq === 'WEEKLY' && byDay.length > 0) {
+    options.weekdays = byDay
+      .map(value => WEEKDAYS.indexOf(value.slice(-2)))
+      .filter(weekday => weekday >= 0)
+      .map(weekday => toLocalWeekday(weekday, start));
+  }
+  if (options.freq === 'MONTHLY' && byDay.length > 0) {
+    options.monthlyMode = 'weekday';
+  }
+
+  const until = parts.UNTIL ? parseUntil(parts.UNTIL) : null;
+  if (until) {
+    options.end = 'until';
+    options.until = `${until.getFullYear()}-${pad(until.getMonth() + 1)}-${pad(until.getDate())}`;
+  } else if (parts.COUNT) {
+    options.end = 'count';
+    options.count = Number(parts.COUNT) || 1;
+  }
+
+  return options;
+};
+
+// The monthly choices for a series starting at `start`, e.g. "Monthly on day 15"
+export const describeMonthlyMode = (mode: RecurrenceOptions['monthlyMode'], start: Date) => {
+  if (mode === 'day') return `on day ${start.getDate()}`;
+  return `on the ${ORDINALS[String(weekdayOrdinal(start))]} ${FULL_WEEKDAYS[start.getDay()]}`;
+};
+
+// A short summary such as "Every 2 weeks on Mon, Wed, 10 times"
+export const describeRecurrence = (rule: string | null | undefined, start: Date): string => {
+  const options = parseRecurrenceRule(rule, start);
+  if (!options) return 'Does not repeat';
+
+  const unit = UNITS[options.freq];
+  let summary = options.interval > 1 ? `Every ${options.interval} ${unit}s` : `Every ${unit}`;
+
+  if (options.freq === 'WEEKLY' && options.weekdays.length > 0) {
+    summary += ` on ${[...options.weekdays].sort((a, b) => a - b).map(weekday => WEEKDAY_LABELS[weekday]).join(', ')}`;
+  }
+  if (options.freq === 'MONTHLY') {
+    summary += ` ${describeMonthlyMode(options.monthlyMode, start)}`;
+  }
+
+  if (options.end === 'until') {
+    summary += `, until ${new Date(`${options.until}T00:00:00`).toLocaleDateString()}`;
+  } else if (options.end === 'count') {
+    summary += `, ${options.count} time${options.count === 1 ? '' : 's'}`;
+  }
+
+  return summary;
+};
@@ -0,0 +1,41 @@
+import { apiService } from './api';
+import type { RecurringTask } from '../types';
+
+export interface SaveRecurringTaskRequest {
+  workflowId: string;
+  title: string;
+  description?: string;
+  priority?: 'low' | 'medium' | 'high' | 'urgent';
+  status: string;
+  tags?: string[];
+  estimatedHours?: number | null;
+  assignedMembers?: string[];
+  recurrenceRule: string;
+  startsAt: string;
+  dueAfterDays?: number | null;
+  isActive?: boolean;
+}
+
+export class RecurringTaskService {
+  async getAll(): Promise<RecurringTask[]> {
+    return apiService.get<RecurringTask[]>('/recurring-tasks');
+  }
+
+  async getById(id: string): Promise<RecurringTask> {
+    return apiService.get<RecurringTask>(`/recurring-tasks/${id}`);
+  }
+
+  async create(data: SaveRecurringTaskRequest): Promise<RecurringTask> {
+    return apiService.post<RecurringTask>('/recurring-tasks', data);
+  }
+
+  async update(id: string, data: SaveRecurringTaskRequest): Promise<RecurringTask> {
+    return apiService.put<RecurringTask>(`/recurring-tasks/${id}`, data);
+  }
+
+  async delete(id: string): Promise<void> {
+    await apiService.delete(`/recurring-tasks/${id}`);
+  }
+}
+
+export const recurringTaskService = new RecurringTaskService();
@@ -1,4 +1,4 @@
-import { api } from './api';
+import { api, apiAssetUrl } from './api';
 
 export interface TaskResource {
   id: string;
@@ -10,10 +10,40 @@ export interface TaskResource {
   fileName?: string;
   fileSize?: number;
   mimeType?: string;
+  sharedWithClient?: boolean; // shown in the client portal when its task is client-visible
+  isUpload?: boolean; // the file is stored by the server, not linked
+  downloadUrl?: string; // signed, expires after an hour; resolve with fileUrl()
+  thumbnailUrl?: string | null;
+  revisionNumber?: number; // latest saved revision of a document
+  collabGeneration?: number; // bumped when a document's content is replaced, see CollaborativeDocument
   createdAt: string;
   updatedAt: string;
 }
 
+// A saved version of a document; `content` is only loaded for a single revision
+export interface DocumentRevision {
+  id: string;
+  resourceId: string;
+  number: number;
+  title: string;
+  content?: string;
+  size: number;
+  createdBy: string | null;
+  createdByName: string | null;
+  restoredFrom: number | null;
+  createdAt: string;
+}
+
+// Bytes of uploaded files stored in the workspace, and its limits
+export interface StorageUsage {
+  used: number;
+  quota: number;
+  maxFileSize: number;
+}
+
+// Absolute URL of a resource's download or thumbnail link, usable in <img> tags and new tabs
+export const fileUrl = (path: string) => apiAssetUrl(path);
+
 export interface CreateTaskResourceRequest {
   type: 'document' | 'link' | 'image' | 'file';
   title: string;
@@ -55,6 +85,33 @@ export const taskResourceService = {
     return api.put(`/tasks/${taskId}/resources/${resourceId}`, resource);
   },
 
+  async setSharedWithClient(taskId: string, resourceId: string, sharedWithClient: boolean): Promise<TaskResource> {
+    return api.patch(`/tasks/${taskId}/resources/${resourceId}/sharing`, { sharedWithClient });
+  },
+
+  async getRevisions(taskId: string, resourceId: string): Promise<DocumentRevision[]> {
+    return api.get(`/tasks/${taskId}/resources/${resourceId}/revisions`);
+  },
+
+  async getRevision(taskId: string, resourceId: string, revisionId: string): Promise<DocumentRevision> {
+    return api.get(`/tasks/${taskId}/resources/${resourceId}/revisions/${revisionId}`);
+  },
+
+  async restoreRevision(taskId: string, resourceId: string, revisionId: string): Promise<TaskResource> {
+    return api.post(`/tasks/${taskId}/resources/${resourceId}/revisions/${revisionId}/restore`, {});
+  },
+
+  async uploadFile(taskId: string, file: File, title?: string): Promise<TaskResource> {
+    const form = new FormData();
+    form.append('file', file);
+    if (title) form.append('title', title);
+    return api.upload(`/tasks/${taskId}/resources/upload`, form);
+  },
+
+  async getStorageUsage(): Promise<StorageUsage> {
+    return api.get('/tasks/storage-usage');
+  },
+
   async deleteTaskResource(taskId: string, resourceId: string): Promise<void> {
     return api.delete(`/tasks/${taskId}/resources/${resourceId}`);
   }
@@ -1,5 +1,5 @@
 import { api } from './api';
-import type { KanbanTask, KanbanColumn } from '../types';
+import type { KanbanTask, KanbanColumn, ColumnPolicies, ColumnPolicyRule, ColumnRuleViolation, TaskDependency, TaskComment, TaskCommentRevision, QuillDelta, DashboardRange, KanbanAnalytics, KanbanAnalyticsFilters } from '../types';
 
 export interface CreateTaskRequest {
   title: string;
@@ -9,11 +9,50 @@ export interface CreateTaskRequest {
   priority: 'low' | 'medium' | 'high' | 'urgent';
   status: string;
   tags?: string[];
+  startDate?: string | null;
   dueDate?: string;
+  estimatedHours?: number | null;
+  actualHours?: number | null;
   assignedMembers?: string[];
   clientId?: string;
 }
 
+export interface TaskDependencies {
+  predecessors: TaskDependency[];
+  successors: TaskDependency[];
+}
+
+// Body of the 409 returned when moving a task to done while predecessors are open,
+// or when the move breaks a WIP limit or policy of the columns
+export interface BlockedMoveResponse {
+  error: string;
+  blockers: { id: string; title: string; status: string }[];
+  violations?: ColumnRuleViolation[];
+}
+
+export interface ColumnSettings {
+  title?: string;
+  color?: string;
+  orderIndex?: number;
+  wipLimit?: number | null;
+  assigneeWipLimit?: number | null;
+  policies?: ColumnPolicies;
+}
+
+export const COLUMN_POLICY_LABELS: Record<ColumnPolicyRule, string> = {
+  assignee: 'An assignee',
+  estimate: 'An estimate',
+  due_date: 'A due date',
+  description: 'A description',
+  resource: 'A resource'
+};
+
+export interface CommentRequest {
+  content: QuillDelta;
+  mentions?: string[];
+  parentId?: string | null;
+}
+
 export interface UpdateTaskRequest extends Partial<CreateTaskRequest> {
   id: string;
 }
@@ -36,6 +75,14 @@ export class TaskService {
     return api.get<KanbanTask[]>(`/tasks${queryString ? `?${queryString}` : ''}`);
   }
 
+  async getAnalytics(range: DashboardRange, filters: KanbanAnalyticsFilters = {}): Promise<KanbanAnalytics> {
+    const searchParams = new URLSearchParams({ from: range.from, to: range.to, groupBy: range.groupBy });
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) searchParams.append(key, value);
+    });
+    return api.get<KanbanAnalytics>(`/tasks/analytics?${searchParams.toString()}`);
+  }
+
   async getById(id: string): Promise<KanbanTask> {
     return api.get<KanbanTask>(`/tasks/${id}`);
   }
@@ -56,12 +103,19 @@ export class TaskService {
     return api.post<KanbanTask>('/tasks', task);
   }
 
-  async update(id: string, task: Partial<CreateTaskRequest>): Promise<KanbanTask> {
+  // A status change is checked like a move; `override` as in `move`
+  async update(id: string, task: Partial<CreateTaskRequest> & { override?: boolean }): Promise<KanbanTask> {
     return api.put<KanbanTask>(`/tasks/${id}`, task);
   }
 
-  async move(id: string, newStatus: string): Promise<KanbanTask> {
-    return api.patch<KanbanTask>(`/tasks/${id}/move`, { status: newStatus });
+  // `override` lets admins complete a task whose predecessors are still open, or break the column rules
+  async move(id: string, newStatus: string, override = false): Promise<KanbanTask> {
+    return api.patch<KanbanTask>(`/tasks/${id}/move`, { status: newStatus, ...(override && { override }) });
+  }
+
+  // Timeline drag / resize – `null` clears a date
+  async reschedule(id: string, schedule: { startDate: string | null; dueDate: string | null }): Promise<KanbanTask> {
+    return api.patch<KanbanTask>(`/tasks/${id}/schedule`, schedule);
   }
 
   async updatePriority(id: string, priority: string): Promise<KanbanTask> {
@@ -84,12 +138,60 @@ export class TaskService {
     return api.get(`/tasks/${taskId}/assigned-members`);
   }
 
+  // Dependencies (finish-to-start)
+  async getDependencies(taskId: string): Promise<TaskDependencies> {
+    return api.get<TaskDependencies>(`/tasks/${taskId}/dependencies`);
+  }
+
+  async addDependency(taskId: string, predecessorId: string): Promise<TaskDependency> {
+    return api.post<TaskDependency>(`/tasks/${taskId}/dependencies`, { predecessorId });
+  }
+
+  async removeDependency(taskId: string, dependencyId: string): Promise<void> {
+    await api.delete(`/tasks/${taskId}/dependencies/${dependencyId}`);
+  }
+
+  // Client portal sharing
+  async setClientVisible(id: string, clientVisible: boolean): Promise<KanbanTask> {
+    return api.patch<KanbanTask>(`/tasks/${id}/client-visibility`, { clientVisible });
+  }
+
+  // Also shares the task and emails the client's portal contacts
+  async requestClientApproval(id: string): Promise<KanbanTask> {
+    return api.post<KanbanTask>(`/tasks/${id}/client-approval`, {});
+  }
+
+  // Comments
+  async getComments(taskId: string): Promise<TaskComment[]> {
+    return api.get<TaskComment[]>(`/tasks/${taskId}/comments`);
+  }
+
+  async addComment(taskId: string, comment: CommentRequest): Promise<TaskComment> {
+    return api.post<TaskComment>(`/tasks/${taskId}/comments`, comment);
+  }
+
+  async updateComment(taskId: string, commentId: string, comment: Omit<CommentRequest, 'parentId'>): Promise<TaskComment> {
+    return api.put<TaskComment>(`/tasks/${taskId}/comments/${commentId}`, comment);
+  }
+
+  async deleteComment(taskId: string, commentId: string): Promise<void> {
+    await api.delete(`/tasks/${taskId}/comments/${commentId}`);
+  }
+
+  async getCommentHistory(taskId: string, commentId: string): Promise<TaskCommentRevision[]> {
+    return api.get<TaskCommentRevision[]>(`/tasks/${taskId}/comments/${commentId}/history`);
+  }
+
+  async toggleReaction(taskId: string, commentId: string, emoji: string): Promise<TaskComment> {
+    return api.post<TaskComment>(`/tasks/${taskId}/comments/${commentId}/reactions`, { emoji });
+  }
+
   // Column management
-  async createColumn(column: { id: string; title: string; color?: string; orderIndex?: number }): Promise<KanbanColumn> {
+  async createColumn(column: ColumnSettings & { id: string; title: string }): Promise<KanbanColumn> {
     return api.post<KanbanColumn>('/tasks/columns', column);
   }
 
-  async updateColumn(id: string, column: { title: string; color?: string; orderIndex?: number }): Promise<KanbanColumn> {
+  async updateColumn(id: string, column: ColumnSettings): Promise<KanbanColumn> {
     return api.put<KanbanColumn>(`/tasks/columns/${id}`, column);
   }
 
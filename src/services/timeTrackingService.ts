@@ -1,7 +1,19 @@
 import { api } from './api';
 
+// `idle` without a timer; a stopped timer is a time entry
+export type TrackerState = 'idle' | 'running' | 'paused';
+
+export interface TimerPause {
+  id: string;
+  reason: string | null;
+  startedAt: string;
+  endedAt: string | null;
+  duration: number | null;
+}
+
 export interface ActiveTimer {
   id: string;
+  state: Exclude<TrackerState, 'idle'>;
   taskId?: string;
   taskTitle?: string;
   taskPriority?: string;
@@ -13,18 +25,22 @@ export interface ActiveTimer {
   elapsedSeconds: number;
   totalPausedDuration: number;
   isPaused: boolean;
-  pauseReason?: string;
-  pausedAt?: string;
+  pauseReason: string | null;
+  pausedAt: string | null;
   currentPauseDuration: number;
+  pauses: TimerPause[];
   createdAt: string;
 }
 
 export interface TimerStatus {
+  state: TrackerState;
   hasActiveTimer: boolean;
   timer: ActiveTimer | null;
 }
 
 export interface StartTimerData {
+  // Lets a retried start return the timer it started instead of failing
+  timerId?: string;
   taskId?: string;
   description?: string;
   isBreak?: boolean;
@@ -41,10 +57,19 @@ export interface TimeEntry {
   isBreak: boolean;
   categoryId?: string;
   categoryName?: string;
+  invoiceId?: string | null;
+  // Set on entries made by the timer
+  timerId?: string | null;
+  pausedDuration?: number;
+  pauses?: TimerPause[];
   created_at: string;
   updated_at: string;
 }
 
+export interface StopTimerResult extends TimerStatus {
+  timeEntry: TimeEntry;
+}
+
 export interface CreateTimeEntryData {
   taskId?: string;
   startTime: string;
@@ -94,7 +119,7 @@ export interface TimerActivity {
   id: string;
   entityType: string;
   entityId: string;
-  action: 'started' | 'paused' | 'resumed' | 'stopped';
+  action: 'started' | 'paused' | 'resumed' | 'stopped' | 'discarded';
   performedBy: string;
   performedByName: string;
   details: {
@@ -135,6 +160,7 @@ export interface TimerSessionFilters {
   limit?: number;
 }
 
+// Commands name the timer they are meant for, so a repeated one cannot act on a newer timer
 export const timeTrackerService = {
   // Get current timer status
   async getStatus(): Promise<TimerStatus> {
@@ -142,23 +168,28 @@ export const timeTrackerService = {
   },
 
   // Start a new timer
-  async startTimer(data: StartTimerData): Promise<{ message: string; timer: ActiveTimer }> {
+  async startTimer(data: StartTimerData): Promise<TimerStatus> {
     return await api.post('/time-tracker/start', data);
   },
 
-  // Pause current timer with reason
-  async pauseTimer(reason?: string): Promise<{ message: string; pausedAt: string; reason: string }> {
-    return await api.post('/time-tracker/pause', { reason });
+  // Pause the timer with a reason; pausing a paused timer changes nothing
+  async pauseTimer(timerId: string, reason?: string): Promise<TimerStatus> {
+    return await api.post('/time-tracker/pause', { timerId, reason });
+  },
+
+  // Resume the paused timer
+  async resumeTimer(timerId: string): Promise<TimerStatus> {
+    return await api.post('/time-tracker/resume', { timerId });
   },
 
-  // Resume paused timer
-  async resumeTimer(): Promise<{ message: string; pausedDuration: number; totalPausedDuration: number }> {
-    return await api.post('/time-tracker/resume', {});
+  // Stop the timer and create its time entry
+  async stopTimer(timerId: string): Promise<StopTimerResult> {
+    return await api.post('/time-tracker/stop', { timerId });
   },
 
-  // Stop current timer and create time entry
-  async stopTimer(): Promise<{ message: string; timeEntry: TimeEntry }> {
-    return await api.post('/time-tracker/stop', {});
+  // Throw the timer away without a time entry
+  async discardTimer(timerId: string): Promise<TimerStatus> {
+    return await api.post('/time-tracker/discard', { timerId });
   }
 };
 
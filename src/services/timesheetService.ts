@@ -0,0 +1,35 @@
+import { apiService } from './api';
+import type { Timesheet } from '../types';
+
+export interface ReviewTimesheetRequest {
+  status: 'approved' | 'rejected';
+  comment?: string;
+}
+
+export class TimesheetService {
+  async getWeek(weekStart?: string): Promise<Timesheet> {
+    return apiService.get<Timesheet>(`/timesheets/week${weekStart ? `?weekStart=${weekStart}` : ''}`);
+  }
+
+  async getMine(): Promise<Timesheet[]> {
+    return apiService.get<Timesheet[]>('/timesheets');
+  }
+
+  async getPending(): Promise<Timesheet[]> {
+    return apiService.get<Timesheet[]>('/timesheets/pending');
+  }
+
+  async getById(id: string): Promise<Timesheet> {
+    return apiService.get<Timesheet>(`/timesheets/${id}`);
+  }
+
+  async submit(weekStart: string): Promise<Timesheet> {
+    return apiService.post<Timesheet>('/timesheets/submit', { weekStart });
+  }
+
+  async review(id: string, data: ReviewTimesheetRequest): Promise<Timesheet> {
+    return apiService.patch<Timesheet>(`/timesheets/${id}/review`, data);
+  }
+}
+
+export const timesheetService = new TimesheetService();
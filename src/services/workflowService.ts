@@ -1,5 +1,14 @@
 import { api } from './api';
-import type { Workflow, WorkflowStep, KanbanColumn, KanbanTask } from '../types';
+import type {
+  Workflow,
+  WorkflowStep,
+  WorkflowStepType,
+  WorkflowConnection,
+  WorkflowGraph,
+  WorkflowTaskDependencies,
+  KanbanColumn,
+  KanbanTask
+} from '../types';
 
 export interface CreateWorkflowRequest {
   name: string;
@@ -10,12 +19,22 @@ export interface CreateWorkflowRequest {
   expectedEndDate?: string;
 }
 
-export interface WorkflowConnection {
-  id: string;
-  workflowId: string;
+export type { WorkflowConnection };
+
+export interface WorkflowStepRequest {
+  name: string;
+  description?: string;
+  type: WorkflowStepType;
+  positionX?: number;
+  positionY?: number;
+}
+
+export interface WorkflowConnectionRequest {
   sourceStepId: string;
   targetStepId: string;
-  createdAt: Date;
+  sourceHandle?: string;
+  targetHandle?: string;
+  label?: string;
 }
 
 export interface WorkflowProgress {
@@ -103,31 +122,49 @@ export const workflowService = {
 
   // Connections management
   async getConnections(workflowId: string): Promise<WorkflowConnection[]> {
-    const response = await api.get(`/workflows/${workflowId}/connections`);
-    return response;
+    return api.get<WorkflowConnection[]>(`/workflows/${workflowId}/connections`);
   },
 
-  async createConnection(workflowId: string, connection: {
-    sourceStepId: string;
-    targetStepId: string;
-  }): Promise<WorkflowConnection> {
-    const response = await api.post(`/workflows/${workflowId}/connections`, connection);
-    return response;
+  async createConnection(workflowId: string, connection: WorkflowConnectionRequest): Promise<WorkflowConnection> {
+    return api.post<WorkflowConnection>(`/workflows/${workflowId}/connections`, connection);
+  },
+
+  async updateConnection(
+    workflowId: string,
+    connectionId: string,
+    connection: Omit<WorkflowConnectionRequest, 'sourceStepId' | 'targetStepId'>
+  ): Promise<WorkflowConnection> {
+    return api.put<WorkflowConnection>(`/workflows/${workflowId}/connections/${connectionId}`, connection);
   },
 
   async deleteConnection(workflowId: string, connectionId: string): Promise<void> {
     await api.delete(`/workflows/${workflowId}/connections/${connectionId}`);
   },
 
-  async createStep(workflowId: string, step: {
-    name: string;
-    description?: string;
-    type: string;
-    status?: string;
-    positionX?: number;
-    positionY?: number;
-  }): Promise<WorkflowStep> {
-    const response = await api.post(`/workflows/${workflowId}/steps`, step);
-    return response;
+  // Steps management
+  async createStep(workflowId: string, step: WorkflowStepRequest): Promise<WorkflowStep> {
+    return api.post<WorkflowStep>(`/workflows/${workflowId}/steps`, step);
+  },
+
+  async updateStep(workflowId: string, stepId: string, step: WorkflowStepRequest): Promise<WorkflowStep> {
+    return api.put<WorkflowStep>(`/workflows/${workflowId}/steps/${stepId}`, step);
+  },
+
+  async deleteStep(workflowId: string, stepId: string): Promise<void> {
+    await api.delete(`/workflows/${workflowId}/steps/${stepId}`);
+  },
+
+  // Whole flowchart (used by the canvas editor)
+  async getGraph(workflowId: string): Promise<WorkflowGraph> {
+    return api.get<WorkflowGraph>(`/workflows/${workflowId}/graph`);
+  },
+
+  async saveGraph(workflowId: string, graph: WorkflowGraph): Promise<WorkflowGraph> {
+    return api.put<WorkflowGraph>(`/workflows/${workflowId}/graph`, graph);
+  },
+
+  // Task dependencies of the workflow plus the critical path through them
+  async getTaskDependencies(workflowId: string): Promise<WorkflowTaskDependencies> {
+    return api.get<WorkflowTaskDependencies>(`/workflows/${workflowId}/dependencies`);
   }
 }; 
\ No newline at end of file
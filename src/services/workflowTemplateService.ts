@@ -0,0 +1,42 @@
+import { apiService } from './api';
+import type { Workflow, WorkflowTemplate } from '../types';
+
+export interface CreateWorkflowTemplateRequest {
+  workflowId: string;
+  name?: string;
+  description?: string;
+}
+
+export interface InstantiateTemplateRequest {
+  clientId: string;
+  startDate: string;
+  name?: string;
+}
+
+export class WorkflowTemplateService {
+  async getAll(): Promise<WorkflowTemplate[]> {
+    return apiService.get<WorkflowTemplate[]>('/workflow-templates');
+  }
+
+  async getById(id: string): Promise<WorkflowTemplate> {
+    return apiService.get<WorkflowTemplate>(`/workflow-templates/${id}`);
+  }
+
+  async createFromWorkflow(data: CreateWorkflowTemplateRequest): Promise<WorkflowTemplate> {
+    return apiService.post<WorkflowTemplate>('/workflow-templates', data);
+  }
+
+  async update(id: string, data: { name: string; description?: string }): Promise<WorkflowTemplate> {
+    return apiService.put<WorkflowTemplate>(`/workflow-templates/${id}`, data);
+  }
+
+  async instantiate(id: string, data: InstantiateTemplateRequest): Promise<Workflow> {
+    return apiService.post<Workflow>(`/workflow-templates/${id}/instantiate`, data);
+  }
+
+  async delete(id: string): Promise<void> {
+    await apiService.delete(`/workflow-templates/${id}`);
+  }
+}
+
+export const workflowTemplateService = new WorkflowTemplateService();
@@ -1,5 +1,5 @@
 import { api } from './api'
-import type { Workspace } from '../types'
+import type { Workspace, WorkspaceRole, WorkspaceRolePermissions, Permission } from '../types'
 
 export interface CreateWorkspaceData {
   name: string
@@ -13,11 +13,27 @@ export interface JoinWorkspaceData {
 export interface UpdateWorkspaceData {
   name?: string
   description?: string
+  inviteRole?: Workspace['inviteRole']
 }
 
 export interface AddMemberData {
   email: string
-  role?: 'admin' | 'member'
+  role?: Exclude<WorkspaceRole, 'owner'>
+}
+
+// Display names of the workspace roles, most privileged first
+export const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  manager: 'Manager',
+  contributor: 'Contributor',
+  viewer: 'Viewer',
+  client_guest: 'Client guest'
+}
+
+export interface WorkspaceRoleMatrix {
+  resources: Record<string, string[]>
+  roles: WorkspaceRolePermissions[]
 }
 
 class WorkspaceService {
@@ -62,10 +78,25 @@ class WorkspaceService {
   }
 
   // Update member role
-  async updateMemberRole(workspaceId: string, userId: string, role: 'admin' | 'member'): Promise<{ message: string }> {
+  async updateMemberRole(workspaceId: string, userId: string, role: Exclude<WorkspaceRole, 'owner'>): Promise<{ message: string }> {
     return await api.put<{ message: string }>(`/workspaces/${workspaceId}/members/${userId}/role`, { role })
   }
 
+  // Get the permission matrix of every role
+  async getRoles(workspaceId: string): Promise<WorkspaceRoleMatrix> {
+    return await api.get<WorkspaceRoleMatrix>(`/workspaces/${workspaceId}/roles`)
+  }
+
+  // Replace the permissions of a configurable role
+  async updateRolePermissions(workspaceId: string, role: WorkspaceRole, permissions: Permission[]): Promise<WorkspaceRolePermissions> {
+    return await api.put<WorkspaceRolePermissions>(`/workspaces/${workspaceId}/roles/${role}`, { permissions })
+  }
+
+  // Reset a role to its default permissions
+  async resetRole(workspaceId: string, role: WorkspaceRole): Promise<WorkspaceRolePermissions> {
+    return await api.delete(`/workspaces/${workspaceId}/roles/${role}`) as WorkspaceRolePermissions
+  }
+
   // Delete workspace
   async deleteWorkspace(id: string): Promise<{ message: string }> {
     return await api.delete<{ message: string }>(`/workspaces/${id}`)
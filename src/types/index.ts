@@ -1,13 +1,20 @@
 // Core entity types
+export type WorkspaceRole = 'owner' | 'admin' | 'manager' | 'contributor' | 'viewer' | 'client_guest';
+
+// "<resource>:<action>", e.g. 'tasks:update'
+export type Permission = string;
+
 export interface Workspace {
   id: string;
   name: string;
   description?: string;
   ownerId: string;
-  inviteCode: string;
+  inviteCode?: string; // only for members who manage the workspace
+  inviteRole?: Exclude<WorkspaceRole, 'owner' | 'client_guest'>; // role the invite code grants
   isActive: boolean;
   members?: WorkspaceMember[];
-  userRole?: 'admin' | 'member';
+  userRole?: WorkspaceRole;
+  permissions?: Permission[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -17,10 +24,18 @@ export interface WorkspaceMember {
   email: string;
   name: string;
   userRole: string; // user's global role
-  workspaceRole: 'admin' | 'member';
+  workspaceRole: WorkspaceRole;
   joinedAt: Date;
 }
 
+export interface WorkspaceRolePermissions {
+  role: WorkspaceRole;
+  permissions: Permission[];
+  isCustomized: boolean;
+  editable: boolean;
+  updatedAt: Date | null;
+}
+
 export interface TeamMember {
   id: string;
   name: string;
@@ -57,22 +72,29 @@ export interface Meeting {
   location?: string;
   notes?: string;
   attendeeIds: string[];
+  // RRULE of a recurring meeting; scheduledDate is the first occurrence
+  recurrenceRule?: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type WorkflowStepType = 'start-end' | 'process' | 'decision' | 'input-output';
+
 export interface WorkflowStep {
   id: string;
+  workflowId?: string;
   name: string;
   description: string;
-  type: 'start-end' | 'process' | 'decision' | 'input-output';
-  assignedMembers: string[]; // TeamMember IDs
+  type: WorkflowStepType;
+  assignedMembers?: string[]; // TeamMember IDs
   estimatedHours?: number;
-  dependencies: string[]; // Other step IDs
+  dependencies?: string[]; // Other step IDs
   position: { x: number; y: number };
-  status: 'pending' | 'in-progress' | 'completed' | 'blocked';
+  status?: 'pending' | 'in-progress' | 'completed' | 'blocked';
   dueDate?: Date;
   completedAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
 }
 
 export interface Workflow {
@@ -88,24 +110,117 @@ export interface Workflow {
   startDate?: Date;
   expectedEndDate?: Date;
   progress?: WorkflowProgress;
+  budget?: Budget | null;
 }
 
 export interface WorkflowConnection {
   id: string;
+  workflowId?: string;
   source: string; // step ID
   target: string; // step ID
-  sourceHandle?: string;
+  sourceHandle?: string; // 'yes' / 'no' for decision steps
   targetHandle?: string;
   label?: string;
+  createdAt?: Date;
+}
+
+export interface WorkflowGraph {
+  steps: WorkflowStep[];
+  connections: WorkflowConnection[];
+}
+
+// Workflow templates
+export interface TemplateTaskResource {
+  type: 'document' | 'link' | 'image' | 'file';
+  title: string;
+  content?: string;
+  url?: string;
+  fileName?: string;
+  fileSize?: number;
+  mimeType?: string;
+}
+
+export interface WorkflowTemplateTask {
+  id: string;
+  title: string;
+  description?: string;
+  priority: 'low' | 'medium' | 'high' | 'urgent';
+  tags: string[];
+  dueOffsetDays: number | null; // days after the workflow start date
+  orderIndex: number;
+  resources: TemplateTaskResource[];
+}
+
+export interface WorkflowTemplate {
+  id: string;
+  workspaceId: string;
+  name: string;
+  description?: string;
+  sourceWorkflowId?: string;
+  durationDays: number | null;
+  createdBy?: string;
+  createdByName?: string;
+  taskCount: number;
+  tasks: WorkflowTemplateTask[];
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 // Kanban board types
+// What a column policy can require of a task
+export type ColumnPolicyRule = 'assignee' | 'estimate' | 'due_date' | 'description' | 'resource';
+
+export interface ColumnPolicies {
+  entry: ColumnPolicyRule[]; // needed to move a task into the column
+  exit: ColumnPolicyRule[]; // needed to move a task out of it
+}
+
 export interface KanbanColumn {
   id: string;
   title: string;
   color: string;
   order: number;
   order_index?: number; // Backend uses snake_case
+  wipLimit?: number | null; // most tasks of the workspace the column may hold
+  assigneeWipLimit?: number | null; // most tasks one assignee may have in it
+  policies?: ColumnPolicies;
+}
+
+// A column rule a task move would break
+export interface ColumnRuleViolation {
+  rule: 'entry_policy' | 'exit_policy' | 'wip_limit' | 'assignee_wip_limit';
+  column: string;
+  memberId?: string;
+  message: string;
+}
+
+// How the board splits its columns into rows, and orders the tasks of a column
+export type BoardSwimlane = 'none' | 'assignee' | 'priority' | 'client' | 'workflow' | 'tag';
+export type BoardSort = 'manual' | 'priority' | 'due_date' | 'created' | 'updated' | 'title';
+export type BoardDueWindow = 'overdue' | 'today' | 'week' | 'month' | 'none';
+
+// Layout and filters of the Kanban board, also kept in its URL
+export interface BoardViewConfig {
+  swimlane: BoardSwimlane;
+  sort: BoardSort;
+  clientId?: string;
+  workflowId?: string;
+  assigneeId?: string; // 'none' for unassigned tasks
+  tag?: string;
+  due?: BoardDueWindow; // 'none' for tasks without a due date
+  search?: string;
+}
+
+// A named board layout; shared views are listed for the whole workspace
+export interface BoardView {
+  id: string;
+  name: string;
+  config: BoardViewConfig;
+  isShared: boolean;
+  ownerId: string;
+  ownerName: string | null;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 export interface KanbanTask {
@@ -118,11 +233,399 @@ export interface KanbanTask {
   priority: 'low' | 'medium' | 'high' | 'urgent';
   status: string; // column ID
   tags: string[];
+  startDate?: Date;
   dueDate?: Date;
+  estimatedHours?: number | null;
+  actualHours?: number | null;
+  commentCount?: number;
+  clientVisible?: boolean; // shown in the client portal
+  clientApproval?: ClientApproval | null;
+  recurringTaskId?: string | null; // set on tasks created by a recurring task
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Template that puts a task on the board at every occurrence of its recurrence rule
+export interface RecurringTask {
+  id: string;
+  workflowId: string;
+  title: string;
+  description?: string;
+  priority: 'low' | 'medium' | 'high' | 'urgent';
+  status: string; // column the tasks are created in
+  tags: string[];
+  estimatedHours: number | null;
+  assignedMembers: string[];
+  recurrenceRule: string;
+  startsAt: string;
+  dueAfterDays: number | null; // due date of each task, in days after its occurrence
+  nextRunAt: string | null; // null once the rule has ended
+  lastRunAt: string | null;
+  isActive: boolean;
+  createdBy?: string | null;
+  workflow?: { name: string };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ClientApprovalStatus = 'pending' | 'approved' | 'changes_requested';
+
+// Sign-off of a deliverable, requested by the team and decided by the client in the portal
+export interface ClientApproval {
+  status: ClientApprovalStatus;
+  comment: string | null;
+  requestedBy?: string | null;
+  decidedBy?: string | null;
+  updatedAt: Date | null;
+}
+
+// Rich text as produced by the Quill editor
+export interface QuillDelta {
+  ops: { insert?: string | Record<string, unknown>; attributes?: Record<string, unknown> }[];
+}
+
+export interface CommentReaction {
+  emoji: string;
+  userIds: string[];
+}
+
+// Replies point at a top-level comment; deleted comments stay in the thread with empty content
+export interface TaskComment {
+  id: string;
+  taskId: string;
+  parentId: string | null;
+  authorId: string | null;
+  authorName: string | null;
+  content: QuillDelta;
+  bodyText: string;
+  mentions: string[];
+  reactions: CommentReaction[];
+  revisionCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+  editedAt: Date | null;
+  deletedAt: Date | null;
+}
+
+export interface TaskCommentRevision {
+  id: string;
+  commentId: string;
+  content: QuillDelta;
+  bodyText: string;
+  editedBy: string | null;
+  editedByName: string | null;
+  createdAt: Date;
+}
+
+// Finish-to-start link: the successor cannot be completed before the predecessor
+export interface TaskDependency {
+  id: string;
+  predecessorId: string;
+  successorId: string;
+  type: 'finish-to-start';
+  createdBy?: string;
+  createdAt: Date;
+  predecessor?: { title: string; status: string };
+  successor?: { title: string; status: string };
+}
+
+export interface CriticalPath {
+  taskIds: string[];
+  dependencyIds: string[];
+  totalHours: number;
+}
+
+export interface WorkflowTaskDependencies {
+  dependencies: TaskDependency[];
+  criticalPath: CriticalPath;
+}
+
+// Invoicing types
+export type InvoiceStatus = 'draft' | 'sent' | 'paid' | 'void';
+
+// Hourly rate; a missing clientId/userId means the rate applies to every client/member
+export interface BillingRate {
+  id: string;
+  workspaceId: string;
+  clientId: string | null;
+  clientName?: string | null;
+  userId: string | null;
+  userName?: string | null;
+  hourlyRate: number;
+  currency: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface InvoiceLineItem {
+  id?: string;
+  workflowId: string | null;
+  workflowName: string | null;
+  taskId: string | null;
+  taskTitle: string | null;
+  description: string;
+  hours: number;
+  rate: number;
+  amount: number;
+  orderIndex: number;
+  entries?: number; // number of time entries, only present in previews
+}
+
+export interface Invoice {
+  id: string;
+  workspaceId: string;
+  workspaceName?: string;
+  clientId: string;
+  client?: { name: string; company: string; email?: string };
+  number: string;
+  status: InvoiceStatus;
+  periodStart: string;
+  periodEnd: string;
+  issueDate: string;
+  dueDate: string | null;
+  currency: string;
+  subtotal: number;
+  taxRate: number;
+  taxAmount: number;
+  total: number;
+  notes: string | null;
+  lineItems: InvoiceLineItem[];
+  sentAt: Date | null;
+  paidAt: Date | null;
+  voidedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface InvoicePreview {
+  lineItems: InvoiceLineItem[];
+  subtotal: number;
+  currency: string | null;
+  missingRates: { userId: string; userName: string | null }[];
+  warning: string | null; // reason the invoice cannot be generated as-is
+}
+
+// Timesheet approval types; 'open' weeks have not been submitted yet
+export type TimesheetStatus = 'open' | 'submitted' | 'approved' | 'rejected';
+
+export interface TimesheetEntry {
+  id: string;
+  taskId: string | null;
+  taskTitle: string | null;
+  workflowName: string | null;
+  clientName: string | null;
+  categoryId: string | null;
+  categoryName: string | null;
+  categoryColor: string | null;
+  startTime: string;
+  endTime: string;
+  duration: number; // seconds
+  description: string | null;
+  isBreak: boolean;
+}
+
+export interface Timesheet {
+  id: string | null;
+  workspaceId: string;
+  userId: string;
+  userName?: string;
+  weekStart: string; // Monday, YYYY-MM-DD
+  weekEnd: string;
+  status: TimesheetStatus;
+  totalSeconds: number;
+  submittedAt: Date | null;
+  reviewedBy: string | null;
+  reviewerName: string | null;
+  reviewedAt: Date | null;
+  reviewComment: string | null;
+  entries: TimesheetEntry[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Budget types – a fixed budget on a workflow or a monthly retainer on a client
+export type BudgetEntityType = 'workflow' | 'client';
+export type BudgetPeriod = 'total' | 'monthly';
+export type BudgetMetric = 'hours' | 'amount';
+
+export interface BudgetMetricBurn {
+  used: number;
+  limit: number | null;
+  percent: number | null;
+  remaining: number | null;
+  exhaustedOn: string | null; // YYYY-MM-DD, actual or forecast
+}
+
+export interface BudgetBurnPoint {
+  date: string; // YYYY-MM-DD
+  hours: number; // cumulative
+  amount: number; // cumulative
+}
+
+export interface BudgetBurn {
+  periodStart: string | null;
+  periodEnd: string | null;
+  periodKey: string;
+  hours: BudgetMetricBurn;
+  amount: BudgetMetricBurn;
+  unpricedHours: number;
+  series: BudgetBurnPoint[];
+  forecast: {
+    dailyHours: number;
+    dailyAmount: number;
+    endDate: string | null;
+    projectedHours: number | null;
+    projectedAmount: number | null;
+  };
+}
+
+export interface Budget {
+  id: string;
+  workspaceId: string;
+  entityType: BudgetEntityType;
+  entityId: string;
+  entityName: string | null;
+  hours: number | null;
+  amount: number | null;
+  currency: string;
+  period: BudgetPeriod;
+  alertThresholds: number[];
+  burn: BudgetBurn | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface BudgetAlert {
+  id: string;
+  budgetId: string;
+  entityType: BudgetEntityType;
+  entityId: string;
+  entityName: string | null;
+  metric: BudgetMetric;
+  threshold: number;
+  periodKey: string | null;
+  burn: number;
+  limit: number;
+  currency: string;
+  dismissedAt: Date | null;
+  createdAt: Date;
+}
+
+// Real-time collaboration
+export type RealtimeEntity = 'task' | 'task_comment' | 'column' | 'workflow' | 'meeting' | 'calendar_event' | 'notification';
+export type RealtimeAction = 'created' | 'updated' | 'deleted';
+
+// Pushed by the server whenever someone changes shared data; deletions carry only the id
+export interface RealtimeChange<T = Record<string, unknown>> {
+  type: `${RealtimeEntity}.${RealtimeAction}`;
+  data: T & { id: string };
+  originClientId: string | null;
+  at: string;
+}
+
+export interface PresenceUser {
+  id: string;
+  name: string;
+  email: string;
+  locations: string[];
+  connectedAt: string;
+}
+
+// Notifications
+export type NotificationType = 'task_assigned' | 'mentioned' | 'meeting_invited' | 'task_due_soon' | 'client_approval';
+// Every channel shows the notification in the app; email and digest also send it by mail
+export type NotificationChannel = 'in_app' | 'email' | 'digest';
+export type NotificationPreferences = Record<NotificationType, NotificationChannel>;
+
+// Named AppNotification to avoid clashing with the browser's Notification API
+export interface AppNotification {
+  id: string;
+  workspaceId: string | null;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  link: string | null;
+  entityType: string | null;
+  entityId: string | null;
+  actorId: string | null;
+  actorName: string | null;
+  delivery: NotificationChannel;
+  readAt: Date | null;
+  createdAt: Date;
+}
+
+// Client portal
+// A client contact with portal access; 'invited' until they first open the portal
+export interface ClientContact {
+  id: string;
+  clientId: string;
+  userId: string;
+  email: string;
+  name: string;
+  status: 'invited' | 'active';
+  invitedAt: Date;
+  lastSeenAt: Date | null;
+}
+
+export interface PortalWorkflow {
+  id: string;
+  name: string;
+  description?: string;
+  status: 'active' | 'paused' | 'completed'; // cancelled workflows are not shown
+  startDate?: Date | null;
+  expectedEndDate?: Date | null;
+  actualEndDate?: Date | null;
+  progress: WorkflowProgress;
+}
+
+export interface PortalMeeting {
+  id: string;
+  title: string;
+  description?: string;
+  meetingDate: string;
+  durationMinutes: number;
+  location?: string;
+  meetingType: 'in-person' | 'video' | 'phone';
+  status: string;
+  recurrenceRule?: string | null;
+}
+
+export interface PortalResource {
+  id: string;
+  type: 'document' | 'link' | 'image' | 'file';
+  title: string;
+  content?: string;
+  url?: string;
+  fileName?: string;
+  fileSize?: number;
+  mimeType?: string;
+  downloadUrl?: string; // signed link of an uploaded file, valid for an hour
+  thumbnailUrl?: string | null;
+  createdAt: string;
+}
+
+export interface PortalTask {
+  id: string;
+  title: string;
+  description?: string;
+  status: string;
+  statusTitle: string;
+  startDate?: Date | null;
+  dueDate?: Date | null;
+  approval: ClientApproval | null;
+  workflow: { id: string; name: string };
+  resources: PortalResource[];
+}
+
+export interface PortalOverview {
+  client: { id: string; name: string; company?: string };
+  workspace: { id: string; name: string };
+  contact: ClientContact;
+  permissions: Permission[];
+  workflows: PortalWorkflow[];
+  meetings: PortalMeeting[];
+}
+
 // Application state
 export interface AppState {
   currentWorkspace?: Workspace;
@@ -141,9 +644,91 @@ export interface AppState {
 export interface DashboardStats {
   totalClients: number;
   activeWorkflows: number;
+  // Tasks finished in `range` (default: the last 30 days)
   completedTasks: number;
   teamMembers: number;
   overdueItems: number;
+  upcomingMeetings?: number;
+  range?: { from: string; to: string };
+}
+
+export type AnalyticsGrouping = 'day' | 'week' | 'month';
+
+// Reporting period of the dashboard; dates are yyyy-MM-dd and `to` is inclusive
+export interface DashboardRange {
+  from: string;
+  to: string;
+  groupBy: AnalyticsGrouping;
+}
+
+export interface TaskFlowMetrics {
+  // Tasks finished
+  throughput: number;
+  // Average days from leaving the backlog / from creation to done
+  cycleTimeDays: number | null;
+  leadTimeDays: number | null;
+  // Tasks due (and already past due) and the share of them not done by their due date
+  dueTasks: number;
+  overdueTasks: number;
+  overdueRate: number | null;
+}
+
+export interface TaskFlowPeriod extends TaskFlowMetrics {
+  // First day of the day, week (Monday) or month
+  period: string;
+  from: string;
+  to: string;
+}
+
+export interface DashboardAnalytics {
+  range: DashboardRange;
+  previousRange: { from: string; to: string };
+  summary: { current: TaskFlowMetrics; previous: TaskFlowMetrics };
+  series: TaskFlowPeriod[];
+  previousSeries: TaskFlowPeriod[];
+}
+
+// Narrows the Kanban analytics to some of the workspace's tasks
+export interface KanbanAnalyticsFilters {
+  workflowId?: string;
+  clientId?: string;
+  assigneeId?: string;
+  tag?: string;
+}
+
+export interface TimePercentiles {
+  p50: number | null;
+  p85: number | null;
+  p95: number | null;
+}
+
+export interface KanbanAnalytics {
+  range: DashboardRange;
+  columns: { id: string; title: string; color: string }[];
+  taskCount: number;
+  // Tasks per column at the end of each period; wip counts those neither in the backlog nor done
+  cumulativeFlow: { period: string; counts: Record<string, number>; wip: number }[];
+  completed: {
+    id: string;
+    title: string;
+    completedAt: string;
+    cycleTimeDays: number | null;
+    leadTimeDays: number | null;
+  }[];
+  cycleTime: TimePercentiles;
+  leadTime: TimePercentiles;
+  aging: {
+    id: string;
+    title: string;
+    status: string;
+    startedAt: string | null;
+    ageDays: number | null;
+    daysInColumn: number | null;
+  }[];
+  throughput: { period: string; completed: number }[];
+  // How many periods finished each number of tasks
+  throughputHistogram: { completed: number; periods: number }[];
+  filterOptions: { assignees: { id: string; name: string }[]; tags: string[] };
 }
 
 export type Priority = 'low' | 'medium' | 'high' | 'urgent';